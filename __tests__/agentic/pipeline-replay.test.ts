@@ -0,0 +1,154 @@
+// @vitest-environment node
+
+/**
+ * Output Intelligence pipeline — cassette replay.
+ *
+ * 1. Round trip: record runIntelligencePipeline against the fixture provider,
+ *    then replay it with fixtures cleared and expect identical output.
+ * 2. Drift: a prompt that changed since recording must miss the cassette.
+ * 3. Every cassette in __tests__/fixtures/cassettes (recorded from real runs
+ *    with scripts/record-oi-cassette.ts) must replay with no misses and no
+ *    unused exchanges.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('@/lib/env', () => ({
+  env: {
+    DATABASE_URL: 'postgresql://test',
+    NEXT_PUBLIC_APP_URL: 'http://localhost:3000',
+    LLM_PROVIDER: 'fixture',
+  },
+}));
+
+// The pipeline module also hosts the DB-backed report summary pipeline.
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import {
+  CassetteMissError,
+  ReplayLLMProvider,
+  getFixtureProvider,
+  hashLLMPrompt,
+  loadLLMCassette,
+  recordLLMCassette,
+  replayLLMCassette,
+} from '@/lib/llm';
+import { runIntelligencePipeline } from '@/lib/output-intelligence/pipeline';
+import type { WorkshopSignals } from '@/lib/output-intelligence/types';
+
+const CASSETTE_DIR = path.join(process.cwd(), '__tests__/fixtures/cassettes');
+
+function signals(): WorkshopSignals {
+  return {
+    context: {
+      workshopName: 'Replay Air',
+      clientName: 'Replay Air',
+      businessContext: 'Regional airline contact centre',
+      industry: 'Aviation',
+      lenses: ['People', 'Technology'],
+      objectives: 'Reduce repeat contacts',
+    },
+    discovery: {
+      themes: ['Legacy tooling', 'Knowledge gaps'],
+      tensions: [{ topic: 'Speed vs quality', perspectives: ['Ops', 'QA'] }],
+      constraints: [{ title: 'Budget', description: 'Flat for two years' }],
+      alignment: 60,
+      narrativeDivergence: 30,
+      participantCount: 8,
+      insights: [
+        { text: 'Agents switch between six systems per call', type: 'CHALLENGE' },
+        { text: 'A single agent desktop would halve handle time', type: 'VISION' },
+      ],
+    },
+    liveSession: {
+      reimaginePads: [{ text: 'Unified desktop', lens: 'Technology' }],
+      constraintPads: [],
+      defineApproachPads: [],
+      discoveryPads: [],
+      journey: [],
+      hemisphereShift: null,
+      isCombinedSession: false,
+    },
+    scratchpad: {
+      execSummary: null,
+      potentialSolution: null,
+      summaryContent: null,
+      discoveryOutput: null,
+      reimagineContent: null,
+      constraintsContent: null,
+      v2Output: null,
+    },
+  };
+}
+
+const fixtures = getFixtureProvider();
+
+beforeEach(() => {
+  fixtures.reset();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('cassette round trip', () => {
+  it('replays a recorded pipeline run offline with identical output', async () => {
+    fixtures.register({
+      agent: 'root-cause',
+      response: {
+        content: JSON.stringify({
+          rootCauses: [{ cause: 'Fragmented tooling', severity: 'high' }],
+          systemicPattern: 'Tool sprawl drives repeat contacts',
+          frictionMap: [],
+        }),
+      },
+    });
+
+    const { result: recorded, cassette } = await recordLLMCassette('round-trip', () =>
+      runIntelligencePipeline(signals()),
+    );
+    expect(cassette.entries.some((e) => e.agent === 'root-cause')).toBe(true);
+
+    fixtures.reset();
+    const { result: replayed, unused } = await replayLLMCassette(cassette, () => runIntelligencePipeline(signals()));
+
+    expect(unused).toEqual([]);
+    expect(replayed.errors).toEqual(recorded.errors);
+    expect({ ...replayed.intelligence, generatedAtMs: 0 }).toEqual({ ...recorded.intelligence, generatedAtMs: 0 });
+    expect(replayed.intelligence.rootCause.systemicPattern).toBe('Tool sprawl drives repeat contacts');
+  });
+
+  it('misses when the prompt changed since recording', async () => {
+    const { cassette } = await recordLLMCassette('drift', () => runIntelligencePipeline(signals()));
+    const replayer = new ReplayLLMProvider(cassette);
+    const recorded = cassette.entries.find((e) => e.kind === 'chat' && e.agent === 'root-cause');
+    if (recorded?.kind !== 'chat') throw new Error('root-cause was not recorded');
+
+    const messages = recorded.request.messages.map((m) =>
+      m.role === 'user' ? { ...m, content: `${m.content}\n(edited)` } : m,
+    );
+    const request = { ...recorded.request, messages, model: recorded.model, agent: 'root-cause' };
+
+    expect(hashLLMPrompt(request)).not.toBe(recorded.promptHash);
+    await expect(replayer.chat(request)).rejects.toBeInstanceOf(CassetteMissError);
+    await expect(replayer.chat({ ...recorded.request, model: recorded.model, agent: 'root-cause' })).resolves.toBeDefined();
+  });
+});
+
+const recordedCassettes = fs.existsSync(CASSETTE_DIR)
+  ? fs.readdirSync(CASSETTE_DIR).filter((f) => f.endsWith('.json'))
+  : [];
+
+describe.skipIf(recordedCassettes.length === 0)('recorded cassettes', () => {
+  it.each(recordedCassettes)('%s replays without drift', async (file) => {
+    const cassette = loadLLMCassette(path.join(CASSETTE_DIR, file));
+    expect(cassette.input).toBeDefined();
+
+    const { unused } = await replayLLMCassette(
+      cassette,
+      () => runIntelligencePipeline(cassette.input as WorkshopSignals),
+      { matchModel: false },
+    );
+
+    expect(unused).toEqual([]);
+  });
+});
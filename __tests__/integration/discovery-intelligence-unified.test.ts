@@ -144,6 +144,9 @@ function makeRequest(id = MOCK_WORKSHOP_ID) {
 beforeEach(() => {
   vi.clearAllMocks();
 
+  // The OpenAI provider only reaches the (mocked) SDK when a key is configured
+  process.env.OPENAI_API_KEY = 'test-key';
+
   // Auth passes by default
   (getAuthenticatedUser as ReturnType<typeof vi.fn>).mockResolvedValue({
     userId: 'user_test', organizationId: 'org_test', role: 'admin',
@@ -0,0 +1,104 @@
+// @vitest-environment node
+
+/**
+ * Unit Tests: Breakout room plenary merge
+ *
+ * Beliefs from parallel breakout rooms are clustered into shared themes;
+ * themes several rooms raised on the same side converge, themes the rooms
+ * see as opportunity and barrier diverge, and the rest stay room-only.
+ * Room sessions get their own live state key.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import type { BeliefCategory } from '@/lib/cognition/cognitive-state';
+import { isDivergent, mergeBreakoutRooms, type BreakoutRoomState } from '@/lib/live/breakout-merge';
+import { liveSessionKey, parseLiveSessionKey } from '@/lib/cognition/live-state-persistence';
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+function room(roomId: string, beliefs: Array<[string, BeliefCategory, number?]>): BreakoutRoomState {
+  return {
+    roomId,
+    name: `Table ${roomId.slice(-1)}`,
+    closed: false,
+    beliefs: beliefs.map(([label, category, evidenceCount = 1], i) => ({
+      id: `${roomId}-b${i}`,
+      label,
+      category,
+      confidence: 0.7,
+      evidenceCount,
+      stabilised: evidenceCount > 2,
+    })),
+    pads: [],
+    utteranceCount: beliefs.length * 3,
+    lastActivityMs: 1_700_000_000_000,
+  };
+}
+
+const ROOMS = [
+  room('room-1', [
+    ['Self-service portal for customer onboarding', 'aspiration', 4],
+    ['Legacy billing system blocks automation', 'constraint', 3],
+    ['Canteen opening hours', 'insight'],
+  ]),
+  room('room-2', [
+    ['Customers want a self-service onboarding portal', 'opportunity', 2],
+    ['Billing system automation would free up agents', 'enabler', 2],
+  ]),
+  room('room-3', [
+    ['Onboarding portal for self-service customers', 'aspiration'],
+    ['Regulatory sign-off delays every product launch', 'risk', 5],
+  ]),
+];
+
+// ── mergeBreakoutRooms ───────────────────────────────────────────────────────
+
+describe('mergeBreakoutRooms', () => {
+  const merge = mergeBreakoutRooms(ROOMS);
+
+  it('converges on a theme several rooms raised in their own words', () => {
+    expect(merge.converged).toHaveLength(1);
+    const [portal] = merge.converged;
+    expect(portal.label).toBe('Self-service portal for customer onboarding');
+    expect(portal.rooms.map((r) => r.roomId)).toEqual(['room-1', 'room-2', 'room-3']);
+    expect(portal.evidenceCount).toBe(7);
+  });
+
+  it('flags a theme one room sees as a barrier and another as an enabler', () => {
+    expect(merge.diverged).toHaveLength(1);
+    const [billing] = merge.diverged;
+    expect(billing.rooms.map((r) => [r.roomId, r.stance])).toEqual([['room-1', 'against'], ['room-2', 'for']]);
+    expect(isDivergent(billing)).toBe(true);
+  });
+
+  it('lists room-only themes under the room that raised them', () => {
+    expect(merge.distinct.map((t) => [t.rooms[0].roomId, t.label])).toEqual([
+      ['room-1', 'Canteen opening hours'],
+      ['room-3', 'Regulatory sign-off delays every product launch'],
+    ]);
+  });
+
+  it('summarises every room, including ones with nothing captured yet', () => {
+    const merged = mergeBreakoutRooms([...ROOMS, room('room-4', [])]);
+    expect(merged.rooms.map((r) => [r.roomId, r.beliefCount, r.utteranceCount])).toEqual([
+      ['room-1', 3, 9],
+      ['room-2', 2, 6],
+      ['room-3', 2, 6],
+      ['room-4', 0, 0],
+    ]);
+  });
+});
+
+// ── liveSessionKey ───────────────────────────────────────────────────────────
+
+describe('liveSessionKey', () => {
+  it('keys the plenary by workshop and each room separately', () => {
+    expect(liveSessionKey('ws1')).toBe('ws1');
+    expect(liveSessionKey('ws1', 'room-2')).not.toBe('ws1');
+    expect(parseLiveSessionKey(liveSessionKey('ws1', 'room-2'))).toEqual({ workshopId: 'ws1', roomId: 'room-2' });
+    expect(parseLiveSessionKey('ws1')).toEqual({ workshopId: 'ws1', roomId: null });
+  });
+});
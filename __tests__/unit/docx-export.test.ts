@@ -0,0 +1,164 @@
+// @vitest-environment node
+
+/**
+ * Unit Tests: Word (DOCX) report export
+ *
+ * Building the document from the report layout: heading structure and table
+ * of contents, native tables, evidence footnotes, chart images, branding and
+ * the facilitator's excluded items.
+ */
+
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { buildReportDocx, docxChartFragments, readImageSize } from '@/lib/report/docx-renderers';
+import { resolveDeckTheme } from '@/lib/report/pptx-template';
+import type {
+  ReportLayout,
+  ReportSectionConfig,
+  ReportSummary,
+  WorkshopOutputIntelligence,
+} from '@/lib/output-intelligence/types';
+
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+  'base64',
+);
+
+function section(id: string, title: string, overrides: Partial<ReportSectionConfig> = {}): ReportSectionConfig {
+  return { id, type: 'builtin', title, enabled: true, collapsed: false, excludedItems: [], ...overrides };
+}
+
+const reportSummary = {
+  workshopAsk: 'Why do customers churn after onboarding?',
+  keyInsight: 'Handovers break the promise made in sales',
+  executiveSummary: {
+    theAsk: 'Find the root of post-onboarding churn',
+    theAnswer: 'Fix the sales-to-service handover first',
+    whatWeFound: ['Handover notes are lost between teams', 'Excluded finding'],
+    lensFindings: [{ lens: 'People', finding: 'Agents lack authority to resolve billing issues' }],
+    whyItMatters: 'Churn costs £2m a year.',
+    opportunityOrRisk: '',
+    urgency: 'Renewals peak in Q1.',
+    nextStepsPreview: '',
+  },
+  transformationDirection: '',
+  validationPassed: true,
+  validationGaps: [],
+  generatedAtMs: 0,
+  reportConclusion: {
+    summary: 'The organisation is ready to act.',
+    nextSteps: [{ id: 's1', title: 'Appoint an onboarding owner', description: 'Within four weeks' }],
+  },
+} as ReportSummary;
+
+const intelligence = {
+  discoveryValidation: {
+    confirmedIssues: [{ issue: 'Billing errors', discoverySignal: 'Raised in 12 interviews', workshopEvidence: 'Every invoice needs a manual check', confidence: 'high' }],
+    newIssues: [],
+    reducedIssues: [],
+    hypothesisAccuracy: 80,
+    summary: 'Discovery held up in the room.',
+  },
+  rootCause: {
+    rootCauses: [
+      { rank: 1, cause: 'No single owner for onboarding', category: 'Governance', evidence: ['Nobody knows who to call'], affectedLenses: ['People'], severity: 'critical' },
+    ],
+    systemicPattern: 'Ownership gaps at every handover.',
+    frictionMap: [],
+    workshopConstraints: [
+      { title: 'Legacy CRM cannot share records', type: 'Technology', severity: 'significant', participantVoice: 'We retype everything from the CRM', resolutionStatus: 'Workaround' },
+    ],
+  },
+  roadmap: {
+    phases: [
+      { phase: 'Phase 1 — Immediate Enablement', timeframe: '0-3 months', initiatives: [{ title: 'Shared onboarding record', description: '', outcome: 'No lost notes' }], capabilities: [], dependencies: [], constraints: [] },
+    ],
+    criticalPath: 'Data model before tooling',
+    keyRisks: ['Sales adoption'],
+  },
+} as unknown as WorkshopOutputIntelligence;
+
+async function documentParts(buffer: Buffer) {
+  const zip = await JSZip.loadAsync(buffer);
+  return {
+    zip,
+    document: await zip.file('word/document.xml')!.async('string'),
+    footnotes: await zip.file('word/footnotes.xml')!.async('string'),
+    settings: await zip.file('word/settings.xml')!.async('string'),
+  };
+}
+
+describe('buildReportDocx', () => {
+  const layout: ReportLayout = {
+    version: 5,
+    sections: [
+      section('executive_summary', 'Executive Summary', { excludedItems: ['finding:1'] }),
+      section('ch_discover', 'Discover', { type: 'chapter' }),
+      section('supporting_evidence', 'Supporting Evidence'),
+      section('root_causes', 'Root Causes'),
+      section('journey_map', 'Customer Journey Map'),
+      section('way_forward', 'Way Forward'),
+      section('report_conclusion', 'Summary & Next Steps', { enabled: false }),
+    ],
+  };
+  const body = { reportSummary, intelligence, layout, workshopName: 'Onboarding Review', orgName: 'Acme' };
+  const theme = resolveDeckTheme({ primaryColor: '#C8102E', secondaryColor: '#003A70' });
+
+  it('builds headings, a table of contents and native tables in the organisation theme', async () => {
+    const { buffer, skippedSections } = await buildReportDocx(body, { theme });
+    const { document, settings, zip } = await documentParts(buffer);
+    const styles = await zip.file('word/styles.xml')!.async('string');
+
+    expect(skippedSections).toEqual(['Customer Journey Map']);
+    expect(document).toContain('Onboarding Review');
+    expect(document).toContain('TOC \\h \\o &quot;1-2&quot;');
+    expect(document).toContain('<w:pStyle w:val="Heading1"/>');
+    expect(document).toContain('<w:pStyle w:val="Heading2"/>');
+    expect(document).toContain('<w:tbl>');
+    expect(document).toContain('Legacy CRM cannot share records');
+    expect(document).toContain('Shared onboarding record');
+    expect(document).toContain('Handover notes are lost between teams');
+    expect(document).not.toContain('Excluded finding');
+    expect(document).not.toContain('Appoint an onboarding owner');
+    expect(document).toContain('w:fill="C8102E"');
+    expect(styles).toContain('C8102E');
+    expect(settings).toContain('<w:trackRevisions/>');
+  });
+
+  it('footnotes participant evidence quotes', async () => {
+    const { buffer } = await buildReportDocx(body, { theme });
+    const { document, footnotes } = await documentParts(buffer);
+
+    expect(footnotes).toContain('Every invoice needs a manual check');
+    expect(footnotes).toContain('Nobody knows who to call');
+    expect(footnotes).toContain('We retype everything from the CRM');
+    expect(document).not.toContain('We retype everything from the CRM');
+    expect(document).toContain('<w:footnoteReference w:id="1"/>');
+  });
+
+  it('embeds chart images and the logo', async () => {
+    const chart = { data: PNG, type: 'png' as const, width: 1, height: 1 };
+    const { buffer } = await buildReportDocx(body, { theme, logo: chart, charts: { roadmap_gantt: chart } });
+    const { zip } = await documentParts(buffer);
+
+    expect(Object.keys(zip.files).filter((n) => n.startsWith('word/media/'))).not.toHaveLength(0);
+    expect(await zip.file('word/document.xml')!.async('string')).toContain('Roadmap timeline');
+  });
+});
+
+describe('docxChartFragments', () => {
+  it('lists charts for enabled sections only', () => {
+    const layout: ReportLayout = {
+      version: 5,
+      sections: [section('way_forward', 'Way Forward'), section('transformation_priorities', 'Priorities', { enabled: false })],
+    };
+    expect(docxChartFragments({ reportSummary, intelligence, layout }).map((f) => f.id)).toEqual(['roadmap_gantt']);
+  });
+});
+
+describe('readImageSize', () => {
+  it('reads PNG dimensions and rejects other formats', () => {
+    expect(readImageSize(PNG)).toEqual({ type: 'png', width: 1, height: 1 });
+    expect(readImageSize(Buffer.from('<svg/>'))).toBeNull();
+  });
+});
@@ -0,0 +1,195 @@
+// @vitest-environment node
+/**
+ * Tests for audio/video evidence handling.
+ *
+ * Validates that:
+ * - Deepgram pre-recorded responses become diarised chunks in milliseconds
+ * - Chunks merge into speaker turns and split into topic segments at
+ *   vocabulary shifts and long pauses
+ * - The transcript handed to the agent carries segment headers and [m:ss] marks
+ * - Every finding gets a timestamp, preferring its verbatim excerpt
+ * - Recordings are recognised by MIME type or extension
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildSpeakerTurns,
+  formatTimestamp,
+  formatTranscript,
+  parseTimestamp,
+  segmentTranscript,
+  timestampFindings,
+} from '@/lib/evidence/media';
+import { parseDeepgramUtterances } from '@/lib/transcription/providers/file-transcription';
+import { isMediaFile } from '@/lib/evidence/extractor';
+import type { NormalizedTranscriptChunk } from '@/lib/transcription/types';
+import type { NormalisedEvidenceFinding } from '@/lib/evidence/types';
+
+// ── Helpers ──────────────────────────────────────────────────
+
+function chunk(startSec: number, endSec: number, text: string, speaker: number | null = 0): NormalizedTranscriptChunk {
+  return {
+    speakerId: speaker === null ? null : `speaker_${speaker}`,
+    startTime: startSec * 1000,
+    endTime: endSec * 1000,
+    text,
+    confidence: 0.9,
+    source: 'deepgram',
+  };
+}
+
+function finding(text: string, extra: Partial<NormalisedEvidenceFinding> = {}): NormalisedEvidenceFinding {
+  return {
+    id: text.slice(0, 8), text, type: 'observation', signalDirection: 'amber', confidence: 0.8,
+    relevantLenses: [], relevantJourneyStages: [], ...extra,
+  };
+}
+
+const BILLING = [
+  'Billing complaints keep arriving because invoices show duplicate charges',
+  'Customers phone billing when invoices arrive late or charges look duplicated',
+  'Refund requests on billing invoices take weeks because charges need manual review',
+  'Invoices and billing charges generate most refund complaints from customers',
+];
+const STAFFING = [
+  'Rota planning leaves agents short staffed during evening shifts',
+  'Training new agents takes months because shifts and rota changes constantly',
+  'Attrition among agents rose after evening shifts were extended on the rota',
+  'Staffing shortages mean agents skip training sessions between shifts',
+];
+
+// ── parseDeepgramUtterances ──────────────────────────────────
+
+describe('parseDeepgramUtterances', () => {
+  it('maps diarised utterances to speaker-labelled chunks in milliseconds', () => {
+    const chunks = parseDeepgramUtterances({
+      results: {
+        utterances: [
+          { start: 0.5, end: 3.25, transcript: ' Hello there ', confidence: 0.95, speaker: 0 },
+          { start: 3.5, end: 5, transcript: '   ', speaker: 1 },
+          { start: 5.1, end: 7, transcript: 'Hi', speaker: 1 },
+        ],
+      },
+    });
+    expect(chunks).toEqual([
+      { speakerId: 'speaker_0', startTime: 500, endTime: 3250, text: 'Hello there', confidence: 0.95, source: 'deepgram' },
+      { speakerId: 'speaker_1', startTime: 5100, endTime: 7000, text: 'Hi', confidence: null, source: 'deepgram' },
+    ]);
+  });
+
+  it('falls back to the channel transcript without utterances', () => {
+    const chunks = parseDeepgramUtterances({
+      metadata: { duration: 12.4 },
+      results: { channels: [{ alternatives: [{ transcript: 'Whole thing', confidence: 0.7 }] }] },
+    });
+    expect(chunks).toEqual([
+      { speakerId: null, startTime: 0, endTime: 12400, text: 'Whole thing', confidence: 0.7, source: 'deepgram' },
+    ]);
+  });
+});
+
+// ── Turns & Segments ─────────────────────────────────────────
+
+describe('buildSpeakerTurns', () => {
+  it('merges consecutive chunks from the same speaker', () => {
+    const turns = buildSpeakerTurns([
+      chunk(0, 2, 'First part'),
+      chunk(2.5, 4, 'second part'),
+      chunk(4.2, 6, 'Reply', 1),
+      chunk(10, 12, 'Back again'),
+    ]);
+    expect(turns.map((t) => [t.speakerId, t.startMs, t.endMs, t.text])).toEqual([
+      ['speaker_0', 0, 4000, 'First part second part'],
+      ['speaker_1', 4200, 6000, 'Reply'],
+      ['speaker_0', 10000, 12000, 'Back again'],
+    ]);
+  });
+
+  it('caps undiarised monologues so turns stay citable', () => {
+    const turns = buildSpeakerTurns(Array.from({ length: 10 }, (_, i) => chunk(i * 10, i * 10 + 10, `part ${i}`, null)));
+    expect(turns).toHaveLength(4);
+    expect(turns.every((t) => t.endMs - t.startMs <= 30_000)).toBe(true);
+  });
+});
+
+describe('segmentTranscript', () => {
+  it('cuts where the vocabulary shifts between topics', () => {
+    const lines = [...BILLING, ...BILLING, ...STAFFING, ...STAFFING];
+    const segments = segmentTranscript(lines.map((text, i) => chunk(i * 10, i * 10 + 9, text, i % 2)));
+
+    expect(segments).toHaveLength(2);
+    expect(segments[1].startMs).toBe(80_000);
+    expect(segments[0].speakers).toEqual(['speaker_0', 'speaker_1']);
+  });
+
+  it('always cuts at a long silence', () => {
+    const segments = segmentTranscript([
+      chunk(0, 5, 'Billing invoices', 0),
+      chunk(6, 10, 'More billing invoices', 1),
+      chunk(30, 35, 'Billing invoices again', 0),
+    ]);
+    expect(segments.map((s) => [s.index, s.startMs, s.turns.length])).toEqual([[0, 0, 2], [1, 30_000, 1]]);
+  });
+});
+
+describe('formatTranscript', () => {
+  it('writes segment headers and timestamped speaker lines', () => {
+    const segments = segmentTranscript([chunk(0, 5, 'Welcome everyone', 0), chunk(6, 10, 'Thanks', 1)]);
+    expect(formatTranscript(segments)).toBe(
+      '## Segment 1 [0:00–0:10] — Speaker 1, Speaker 2\n[0:00] Speaker 1: Welcome everyone\n[0:06] Speaker 2: Thanks',
+    );
+  });
+});
+
+describe('formatTimestamp / parseTimestamp', () => {
+  it('round-trips minutes and hours', () => {
+    expect(formatTimestamp(83_000)).toBe('1:23');
+    expect(formatTimestamp(3_723_000)).toBe('1:02:03');
+    expect(parseTimestamp('[1:23]')).toBe(83_000);
+    expect(parseTimestamp('at 01:02:03')).toBe(3_723_000);
+    expect(parseTimestamp('page 4')).toBeNull();
+  });
+});
+
+// ── timestampFindings ────────────────────────────────────────
+
+describe('timestampFindings', () => {
+  const segments = segmentTranscript([
+    chunk(0, 20, 'Welcome everyone to the session about our contact centre', 0),
+    chunk(21, 40, 'Invoices show duplicate charges and refund requests take weeks', 1),
+    chunk(41, 60, 'Evening shifts leave agents short staffed most nights', 0),
+  ]);
+
+  it('locates findings by verbatim excerpt first', () => {
+    const [f] = timestampFindings(
+      [finding('Staffing gap in the evenings', { sourceExcerpt: 'evening shifts leave agents short staffed', sourcePage: '0:21' })],
+      segments,
+    );
+    expect(f.sourcePage).toBe('0:41');
+    expect(f.sourceTimestamp).toEqual({ startMs: 41_000, endMs: 60_000, speakerId: 'speaker_0', segmentIndex: 0 });
+  });
+
+  it('uses the cited time, then the wording, then the start', () => {
+    const [cited, worded, unmatched] = timestampFindings(
+      [
+        finding('Something paraphrased', { sourcePage: '[0:25]' }),
+        finding('Refund requests are slow because of duplicate charges'),
+        finding('Nothing relevant here at all'),
+      ],
+      segments,
+    );
+    expect(cited.sourceTimestamp?.startMs).toBe(21_000);
+    expect(worded.sourceTimestamp?.speakerId).toBe('speaker_1');
+    expect(unmatched.sourcePage).toBe('0:00');
+  });
+});
+
+// ── isMediaFile ──────────────────────────────────────────────
+
+describe('isMediaFile', () => {
+  it('recognises recordings by MIME type or extension', () => {
+    expect(isMediaFile('audio/mpeg', 'call.bin')).toBe(true);
+    expect(isMediaFile('application/octet-stream', 'Workshop.MOV')).toBe(true);
+    expect(isMediaFile('application/pdf', 'report.pdf')).toBe(false);
+  });
+});
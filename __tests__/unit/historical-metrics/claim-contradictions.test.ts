@@ -0,0 +1,139 @@
+/**
+ * Tests for the metric claim contradiction engine.
+ *
+ * Validates that extractMetricClaims correctly:
+ * - Maps figures to metrics by label, acronym and key, converting units
+ * - Records how the participant hedged the figure
+ * - Ignores targets, relative changes and incompatible units
+ * And that findMetricContradictions grades claims against the series,
+ * leaves supported claims alone and cites when the data last matched.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  extractMetricClaims,
+  findMetricContradictions,
+  metricReferencesForSeries,
+  type ClaimSource,
+} from '@/lib/historical-metrics/claim-contradictions';
+import type { MetricReference } from '@/lib/domain-packs/registry';
+import type { HistoricalMetricsData, MetricSeries } from '@/lib/historical-metrics/types';
+
+// ── Helpers ──────────────────────────────────────────────────
+
+const JITTER = [1.5, -2, 0.5, 2, -1, -1.5, 1, -0.5, 2.5, -2.5, 0, 1];
+
+const REFERENCES: MetricReference[] = [
+  { key: 'aht', label: 'Average Handle Time', unit: 'seconds', description: '' },
+  { key: 'fcr', label: 'First Contact Resolution', unit: '%', description: '' },
+  { key: 'nps', label: 'Net Promoter Score', unit: 'score', description: '' },
+];
+
+function source(text: string, actor = 'Customer Ops', id = 'i1'): ClaimSource {
+  return { kind: 'insight', id, participantId: 'p1', actor, text };
+}
+
+function monthly(metricKey: string, metricLabel: string, unit: string, values: number[]): MetricSeries {
+  return {
+    metricKey,
+    metricLabel,
+    unit,
+    dataPoints: values.map((value, i) => ({
+      period: `${2023 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}-01`,
+      value,
+      note: null,
+    })),
+  };
+}
+
+function makeData(series: MetricSeries[]): HistoricalMetricsData {
+  return { version: 1, domainPack: 'contact_centre', sources: [], series, lastUpdatedAt: '2025-01-01T00:00:00Z' };
+}
+
+// ── extractMetricClaims ──────────────────────────────────────
+
+describe('extractMetricClaims', () => {
+  it('maps figures to metrics by label, acronym and key with unit conversion', () => {
+    const claims = extractMetricClaims(
+      [source('Our first contact resolution is about 80%, and AHT is roughly 4 minutes. NPS is 40 at the moment.')],
+      REFERENCES,
+    );
+
+    expect(claims.map((c) => [c.metricKey, c.value, c.qualifier, c.statedAs])).toEqual([
+      ['fcr', 80, 'approximately', 'about 80%'],
+      ['aht', 240, 'approximately', 'roughly 4 minutes'],
+      ['nps', 40, 'exact', '40'],
+    ]);
+    expect(claims[0].quote).toBe('Our first contact resolution is about 80%, and AHT is roughly 4 minutes.');
+  });
+
+  it('reads one-sided hedges', () => {
+    const [claim] = extractMetricClaims([source('FCR is well over 85% on most days')], REFERENCES);
+    expect(claim).toMatchObject({ metricKey: 'fcr', value: 85, qualifier: 'at_least' });
+  });
+
+  it('ignores targets, relative changes and incompatible units', () => {
+    const claims = extractMetricClaims(
+      [
+        source('The target for FCR is 80%.'),
+        source('AHT went up by 10% after the migration.'),
+        source('FCR took 3 minutes to explain.'),
+        source('Our NPS programme started in 2019.'),
+      ],
+      REFERENCES,
+    );
+    expect(claims).toEqual([]);
+  });
+});
+
+// ── findMetricContradictions ─────────────────────────────────
+
+describe('findMetricContradictions', () => {
+  // FCR ran at ~80% through 2023, then fell to ~62% from Jan 2024
+  const fcr = monthly('fcr', 'First Contact Resolution', '%', Array.from({ length: 20 }, (_, i) => (i < 12 ? 80 : 62) + JITTER[i % 12] / 2));
+  const aht = monthly('aht', 'Average Handle Time', 'seconds', Array.from({ length: 20 }, (_, i) => 240 + JITTER[i % 12]));
+  const data = makeData([fcr, aht]);
+
+  it('grades a claim the data contradicts and cites both sides', () => {
+    const claims = extractMetricClaims(
+      [source('I reckon first contact resolution is about 80% these days', 'Leadership', 'i1')],
+      metricReferencesForSeries(data, REFERENCES),
+    );
+    const [contradiction] = findMetricContradictions(claims, data);
+
+    expect(contradiction).toMatchObject({
+      metricKey: 'fcr',
+      grade: 'critical',
+      direction: 'overstated',
+      claimedValue: 80,
+      gapUnit: 'points',
+      lastMatchedPeriod: '2023-12-01',
+      corroboratingClaims: 0,
+    });
+    expect(contradiction.gap).toBeGreaterThan(15);
+    expect(contradiction.claims[0].source).toMatchObject({ id: 'i1', actor: 'Leadership' });
+    expect(contradiction.finding).toMatch(/^Data shows \d+(\.\d)?% in Aug 2024 \(expected range .+\); \d+(\.\d)?% was last seen in Dec 2023$/);
+    expect(contradiction.evidence.some((line) => line.includes('First Contact Resolution dropped'))).toBe(true);
+  });
+
+  it('leaves claims the data supports and counts them as corroborating', () => {
+    const claims = extractMetricClaims(
+      [
+        source('AHT is about 4 minutes', 'Customer Ops', 'i1'),
+        source('FCR is around 62%', 'Customer Ops', 'i2'),
+        source('FCR is only 50%', 'Management', 'i3'),
+      ],
+      metricReferencesForSeries(data, REFERENCES),
+    );
+    const contradictions = findMetricContradictions(claims, data);
+
+    expect(contradictions).toHaveLength(1);
+    expect(contradictions[0]).toMatchObject({ metricKey: 'fcr', direction: 'understated', grade: 'significant', corroboratingClaims: 1 });
+    expect(contradictions[0].claims.map((c) => c.source.id)).toEqual(['i3']);
+  });
+
+  it('skips metrics without an uploaded series', () => {
+    const claims = extractMetricClaims([source('NPS is 10')], REFERENCES);
+    expect(findMetricContradictions(claims, data)).toEqual([]);
+  });
+});
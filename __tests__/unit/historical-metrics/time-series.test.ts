@@ -0,0 +1,145 @@
+/**
+ * Tests for time-series analysis of historical metrics.
+ *
+ * Validates that analyzeSeries correctly:
+ * - Finds level shifts and explains them with nearby notes
+ * - Leaves steady trends and noise without change points
+ * - Flags outliers with their own notes as explanations
+ * - Detects seasonal cycles only when enough cycles exist
+ * - Produces a confidence band around the fitted series
+ * And that describeMetricAnalysis turns the analysis into evidence lines.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeSeries, inferGranularity } from '@/lib/historical-metrics/time-series';
+import { analyzeMetricTrends, describeMetricAnalysis, primaryMovement } from '@/lib/historical-metrics/summarize';
+import type { HistoricalMetricsData, MetricSeries } from '@/lib/historical-metrics/types';
+
+// ── Helpers ──────────────────────────────────────────────────
+
+/** Deterministic small wobble so series are not perfectly smooth */
+const JITTER = [1.5, -2, 0.5, 2, -1, -1.5, 1, -0.5, 2.5, -2.5, 0, 1];
+
+function monthly(values: number[], notes: Record<number, string> = {}): MetricSeries {
+  return {
+    metricKey: 'aht',
+    metricLabel: 'Average Handle Time',
+    unit: 'seconds',
+    dataPoints: values.map((value, i) => ({
+      period: `${2023 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}-01`,
+      value,
+      note: notes[i] ?? null,
+    })),
+  };
+}
+
+function makeData(series: MetricSeries[]): HistoricalMetricsData {
+  return {
+    version: 1,
+    domainPack: 'contact_centre',
+    sources: [],
+    series,
+    lastUpdatedAt: '2025-01-01T00:00:00Z',
+  };
+}
+
+// ── analyzeSeries ────────────────────────────────────────────
+
+describe('analyzeSeries', () => {
+  it('finds a level shift and explains it with the note on the change period', () => {
+    const values = Array.from({ length: 18 }, (_, i) => (i < 10 ? 240 : 285) + JITTER[i % 12]);
+    const analysis = analyzeSeries(monthly(values, { 10: 'new CRM go-live' }));
+
+    expect(analysis.granularity).toBe('monthly');
+    expect(analysis.changePoints).toHaveLength(1);
+    expect(analysis.changePoints[0]).toMatchObject({
+      period: '2023-11-01',
+      direction: 'increasing',
+      explanation: 'new CRM go-live',
+    });
+    expect(analysis.changePoints[0].changePercent).toBeGreaterThan(15);
+    expect(analysis.outliers).toEqual([]);
+  });
+
+  it('does not split a steady trend or plain noise', () => {
+    const ramp = analyzeSeries(monthly(Array.from({ length: 24 }, (_, i) => 200 + 3 * i + JITTER[i % 12])));
+    expect(ramp.changePoints).toEqual([]);
+    expect(ramp.recentTrend).toMatchObject({ direction: 'increasing', since: '2023-01-01' });
+
+    const flat = analyzeSeries(monthly(Array.from({ length: 24 }, (_, i) => 200 + JITTER[i % 12])));
+    expect(flat.changePoints).toEqual([]);
+    expect(flat.outliers).toEqual([]);
+    expect(flat.recentTrend?.direction).toBe('stable');
+  });
+
+  it('flags outliers against the fitted series with the point note', () => {
+    const values = Array.from({ length: 16 }, (_, i) => 200 + JITTER[i % 12]);
+    values[9] = 320;
+    const analysis = analyzeSeries(monthly(values, { 9: 'system outage' }));
+
+    expect(analysis.outliers).toHaveLength(1);
+    expect(analysis.outliers[0]).toMatchObject({ period: '2023-10-01', value: 320, direction: 'spike', explanation: 'system outage' });
+    expect(analysis.outliers[0].expected).toBeCloseTo(200, -1);
+    // The spike does not drag the fit or create a change point
+    expect(analysis.changePoints).toEqual([]);
+  });
+
+  it('detects a yearly cycle in three years of monthly data', () => {
+    const cycle = [10, 25, 30, 28, 15, 5, -10, -20, -25, -28, -20, -10];
+    const values = Array.from({ length: 36 }, (_, i) => 200 + cycle[i % 12] + JITTER[(i * 5) % 12] / 2);
+    const analysis = analyzeSeries(monthly(values));
+
+    expect(analysis.seasonality).toMatchObject({ period: 12, peakPeriod: '2025-03-01', troughPeriod: '2025-10-01' });
+    expect(analysis.seasonality!.strength).toBeGreaterThan(0.9);
+    // The seasonal swing is expected, not a change point
+    expect(analysis.changePoints).toEqual([]);
+    expect(analysis.outliers).toEqual([]);
+  });
+
+  it('needs two observations per cycle position before reporting seasonality', () => {
+    const cycle = [10, 25, 30, 28, 15, 5, -10, -20, -25, -28, -20, -10];
+    const analysis = analyzeSeries(monthly(Array.from({ length: 24 }, (_, i) => 200 + cycle[i % 12])));
+    expect(analysis.seasonality?.period).not.toBe(12);
+  });
+
+  it('produces a band around every point and skips short series', () => {
+    const values = Array.from({ length: 12 }, (_, i) => 100 + JITTER[i]);
+    const analysis = analyzeSeries(monthly(values));
+    expect(analysis.band).toHaveLength(12);
+    for (const [i, point] of analysis.band.entries()) {
+      expect(point.lower).toBeLessThanOrEqual(values[i]);
+      expect(point.upper).toBeGreaterThanOrEqual(values[i]);
+    }
+
+    const short = analyzeSeries(monthly([100, 110, 120]));
+    expect(short).toMatchObject({ changePoints: [], outliers: [], band: [], recentTrend: null, seasonality: null });
+  });
+});
+
+describe('inferGranularity', () => {
+  it('infers granularity from period spacing', () => {
+    expect(inferGranularity(['2024-01-01', '2024-01-08', '2024-01-15'])).toBe('weekly');
+    expect(inferGranularity(['2024-01-01', '2024-04-01', '2024-07-01'])).toBe('quarterly');
+    expect(inferGranularity(['2024-01-01'])).toBeNull();
+  });
+});
+
+// ── Evidence ─────────────────────────────────────────────────
+
+describe('describeMetricAnalysis', () => {
+  it('cites the change point with its period, values and annotation', () => {
+    const values = Array.from({ length: 18 }, (_, i) => (i < 10 ? 240 : 285) + JITTER[i % 12]);
+    const [trend] = analyzeMetricTrends(makeData([monthly(values, { 10: 'new CRM go-live' })]));
+    const evidence = describeMetricAnalysis(trend);
+
+    expect(evidence[0]).toMatch(/^Average Handle Time jumped \d+\.\d% in Nov 2023 \(\d+(\.\d)?s → \d+(\.\d)?s\), annotated "new CRM go-live"$/);
+    expect(evidence[evidence.length - 1]).toMatch(/^Latest \d+(\.\d)?s is within the expected range/);
+    expect(primaryMovement(trend)).toMatchObject({ direction: 'increasing', period: '2023-11-01' });
+  });
+
+  it('falls back to the last period-on-period change for short series', () => {
+    const [trend] = analyzeMetricTrends(makeData([monthly([200, 230])]));
+    expect(describeMetricAnalysis(trend)).toEqual([]);
+    expect(primaryMovement(trend)).toMatchObject({ direction: 'increasing', changePercent: 15 });
+  });
+});
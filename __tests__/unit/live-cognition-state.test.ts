@@ -0,0 +1,312 @@
+// @vitest-environment node
+
+/**
+ * Unit Tests: Live cognition state persistence
+ *
+ * Write-through of CognitiveState / GuidanceState to live_cognition_states,
+ * crash recovery on first access, re-checking a cached copy against the
+ * persisted version, optimistic version conflicts between instances, TTL
+ * eviction and the cross-instance session list.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// ---------------------------------------------------------------------------
+// Mock Prisma — a tiny in-memory live_cognition_states table
+// ---------------------------------------------------------------------------
+
+type Row = {
+  workshopId: string;
+  kind: string;
+  roomId?: string;
+  state: unknown;
+  version: number;
+  instanceId: string | null;
+  lastActivityAt: Date;
+  expiresAt: Date;
+};
+
+const table = vi.hoisted(() => new Map<string, Row>());
+
+const mockPrisma: any = vi.hoisted(() => {
+  const key = (w: string, k: string, r = '') => (r ? `${w}:${k}:${r}` : `${w}:${k}`);
+  const matches = (row: Row, where: any) =>
+    (where.workshopId === undefined || row.workshopId === where.workshopId) &&
+    (where.kind === undefined || row.kind === where.kind) &&
+    (where.roomId === undefined || (row.roomId ?? '') === where.roomId) &&
+    (where.version === undefined || row.version === where.version) &&
+    (where.expiresAt?.lt === undefined || row.expiresAt < where.expiresAt.lt) &&
+    (where.expiresAt?.gt === undefined || row.expiresAt > where.expiresAt.gt);
+  const clone = (row: Row) => ({ ...row, state: JSON.parse(JSON.stringify(row.state)) });
+
+  return {
+    liveCognitionState: {
+      findUnique: vi.fn(async ({ where }: any) => {
+        const { workshopId, kind, roomId } = where.workshopId_kind_roomId;
+        const row = table.get(key(workshopId, kind, roomId));
+        return row ? clone(row) : null;
+      }),
+      findMany: vi.fn(async ({ where }: any) => [...table.values()].filter((r) => matches(r, where)).map(clone)),
+      createMany: vi.fn(async ({ data }: any) => {
+        let count = 0;
+        for (const row of data) {
+          if (table.has(key(row.workshopId, row.kind, row.roomId))) continue;
+          table.set(key(row.workshopId, row.kind, row.roomId), JSON.parse(JSON.stringify(row), (k, v) =>
+            k === 'lastActivityAt' || k === 'expiresAt' ? new Date(v) : v));
+          count++;
+        }
+        return { count };
+      }),
+      updateMany: vi.fn(async ({ where, data }: any) => {
+        const rows = [...table.values()].filter((r) => matches(r, where));
+        for (const row of rows) {
+          Object.assign(row, { ...data, state: JSON.parse(JSON.stringify(data.state)), version: row.version + data.version.increment });
+        }
+        return { count: rows.length };
+      }),
+      deleteMany: vi.fn(async ({ where }: any) => {
+        let count = 0;
+        for (const [k, row] of table) {
+          if (matches(row, where)) {
+            table.delete(k);
+            count++;
+          }
+        }
+        return { count };
+      }),
+    },
+  };
+});
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }));
+
+import type { Belief } from '@/lib/cognition/cognitive-state';
+import {
+  getCognitiveState,
+  getOrCreateCognitiveState,
+  listActiveSessions,
+  persistCognitiveState,
+  recoverCognitiveState,
+  removeCognitiveState,
+} from '@/lib/cognition/state-store';
+import {
+  getOrCreateGuidanceState,
+  persistGuidanceState,
+  recoverGuidanceState,
+  removeGuidanceState,
+  updateGuidanceState,
+} from '@/lib/cognition/guidance-state';
+import { LIVE_STATE_TTL_MS, evictExpiredLiveStates, liveSessionKey } from '@/lib/cognition/live-state-persistence';
+
+const WS = 'ws-live-state';
+
+function addBelief(id: string) {
+  const state = getOrCreateCognitiveState(WS, 'Reimagine onboarding');
+  state.beliefs.set(id, { id, label: `Belief ${id}` } as Belief);
+  return state;
+}
+
+/** Bump the persisted row as if another instance had written it. */
+function writeFromOtherInstance(mutate: (state: any) => void) {
+  const row = table.get(`${WS}:cognitive`)!;
+  mutate(row.state);
+  row.version += 1;
+  row.instanceId = 'other-instance';
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Live cognition state persistence', () => {
+  beforeEach(() => {
+    table.clear();
+    removeCognitiveState(WS);
+    removeGuidanceState(WS);
+    vi.clearAllMocks();
+  });
+
+  describe('crash recovery', () => {
+    it('restores beliefs on first access after a cold start', async () => {
+      addBelief('b1');
+      expect(await persistCognitiveState(WS)).toBe(true);
+
+      removeCognitiveState(WS); // process restart
+      expect(getCognitiveState(WS)).toBeNull();
+
+      const recovered = await recoverCognitiveState(WS);
+      expect(recovered?.beliefs.get('b1')?.label).toBe('Belief b1');
+      expect(recovered?.workshopGoal).toBe('Reimagine onboarding');
+    });
+
+    it('shares one database read between concurrent first accesses', async () => {
+      addBelief('b1');
+      await persistCognitiveState(WS);
+      removeCognitiveState(WS);
+
+      const [a, b] = await Promise.all([recoverCognitiveState(WS), recoverCognitiveState(WS)]);
+      expect(a).toBe(b);
+      expect(mockPrisma.liveCognitionState.findUnique).toHaveBeenCalledTimes(1);
+    });
+
+    it('treats an expired row as gone and evicts it', async () => {
+      addBelief('b1');
+      await persistCognitiveState(WS);
+      table.get(`${WS}:cognitive`)!.expiresAt = new Date(Date.now() - 1000);
+      removeCognitiveState(WS);
+
+      expect(await recoverCognitiveState(WS)).toBeNull();
+      expect(table.size).toBe(0);
+    });
+  });
+
+  describe('cache freshness', () => {
+    it('trusts the cached copy inside the freshness window', async () => {
+      addBelief('b1');
+      await persistCognitiveState(WS);
+      writeFromOtherInstance((state) => state.beliefs.push(['b2', { id: 'b2', label: 'Belief b2' }]));
+
+      expect((await recoverCognitiveState(WS))?.beliefs.has('b2')).toBe(false);
+      expect(mockPrisma.liveCognitionState.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('reloads the cached copy once another instance has written a newer version', async () => {
+      addBelief('b1');
+      await persistCognitiveState(WS);
+      writeFromOtherInstance((state) => state.beliefs.push(['b2', { id: 'b2', label: 'Belief b2' }]));
+
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now + 5_000);
+      try {
+        expect((await recoverCognitiveState(WS))?.beliefs.has('b2')).toBe(true);
+        // The reloaded copy is current, so the next write does not conflict
+        addBelief('b3');
+        expect(await persistCognitiveState(WS)).toBe(true);
+        expect(table.get(`${WS}:cognitive`)!.version).toBe(3);
+      } finally {
+        vi.mocked(Date.now).mockRestore();
+      }
+    });
+
+    it('keeps the cached copy when the persisted version has not moved', async () => {
+      const state = addBelief('b1');
+      await persistCognitiveState(WS);
+
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now + 5_000);
+      try {
+        expect(await recoverCognitiveState(WS)).toBe(state);
+        expect(mockPrisma.liveCognitionState.findUnique).toHaveBeenCalledTimes(1);
+      } finally {
+        vi.mocked(Date.now).mockRestore();
+      }
+    });
+  });
+
+  describe('optimistic versioning', () => {
+    it('re-applies a change on top of a newer write from another instance', async () => {
+      addBelief('b1');
+      await persistCognitiveState(WS);
+      writeFromOtherInstance((state) => state.beliefs.push(['b2', { id: 'b2', label: 'Belief b2' }]));
+
+      addBelief('b3');
+      const ok = await persistCognitiveState(WS, (latest) => {
+        latest.beliefs.set('b3', { id: 'b3', label: 'Belief b3' } as Belief);
+      });
+
+      expect(ok).toBe(true);
+      const row = table.get(`${WS}:cognitive`)!;
+      expect(row.version).toBe(3);
+      expect((row.state as any).beliefs.map(([id]: [string]) => id).sort()).toEqual(['b1', 'b2', 'b3']);
+      expect(getCognitiveState(WS)?.beliefs.has('b2')).toBe(true);
+    });
+
+    it("keeps the other instance's state when no reapply is given", async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      addBelief('b1');
+      await persistCognitiveState(WS);
+      writeFromOtherInstance((state) => state.beliefs.push(['b2', { id: 'b2', label: 'Belief b2' }]));
+
+      addBelief('b3');
+      expect(await persistCognitiveState(WS)).toBe(false);
+      expect(getCognitiveState(WS)?.beliefs.has('b3')).toBe(false);
+      expect(getCognitiveState(WS)?.beliefs.has('b2')).toBe(true);
+      warn.mockRestore();
+    });
+
+    it('serialises in-process writes so they never conflict with each other', async () => {
+      addBelief('b1');
+      const results = await Promise.all([persistCognitiveState(WS), persistCognitiveState(WS)]);
+      expect(results).toEqual([true, true]);
+      expect(table.get(`${WS}:cognitive`)!.version).toBe(2);
+    });
+  });
+
+  describe('TTL eviction', () => {
+    it('deletes rows past their expiry', async () => {
+      addBelief('b1');
+      await persistCognitiveState(WS);
+
+      expect(await evictExpiredLiveStates(new Date(Date.now() + LIVE_STATE_TTL_MS + 1000))).toBe(1);
+      expect(table.size).toBe(0);
+    });
+  });
+
+  describe('listActiveSessions', () => {
+    it('reports sessions held by other instances', async () => {
+      addBelief('b1');
+      await persistCognitiveState(WS);
+      table.set('ws-elsewhere:cognitive', {
+        workshopId: 'ws-elsewhere',
+        kind: 'cognitive',
+        state: {},
+        version: 4,
+        instanceId: 'other-instance',
+        lastActivityAt: new Date(),
+        expiresAt: new Date(Date.now() + LIVE_STATE_TTL_MS),
+      });
+
+      const sessions = await listActiveSessions();
+      expect(sessions.map((s) => s.workshopId).sort()).toEqual(['ws-elsewhere', WS]);
+      expect(sessions.find((s) => s.workshopId === 'ws-elsewhere')).toMatchObject({
+        instanceId: 'other-instance',
+        cachedLocally: false,
+      });
+      expect(sessions.find((s) => s.workshopId === WS)?.cachedLocally).toBe(true);
+    });
+  });
+
+  describe('guidance state', () => {
+    it('writes through and recovers facilitator state', async () => {
+      getOrCreateGuidanceState(WS);
+      updateGuidanceState(WS, { freeflowMode: true, coverageThreshold: 85 });
+      expect(await persistGuidanceState(WS)).toBe(true);
+
+      removeGuidanceState(WS);
+      const recovered = await recoverGuidanceState(WS);
+      expect(recovered).toMatchObject({ workshopId: WS, freeflowMode: true, coverageThreshold: 85 });
+    });
+  });
+
+  describe('breakout rooms', () => {
+    const ROOM = liveSessionKey(WS, 'room-1');
+
+    it('persists a room beside the plenary and recovers each separately', async () => {
+      addBelief('plenary-belief');
+      await persistCognitiveState(WS);
+      getOrCreateCognitiveState(ROOM, 'Reimagine onboarding').beliefs.set('room-belief', { id: 'room-belief', label: 'Room belief' } as Belief);
+      await persistCognitiveState(ROOM);
+
+      expect(table.get(`${WS}:cognitive:room-1`)).toMatchObject({ workshopId: WS, roomId: 'room-1', version: 1 });
+
+      removeCognitiveState(WS);
+      removeCognitiveState(ROOM);
+      expect([...(await recoverCognitiveState(ROOM))!.beliefs.keys()]).toEqual(['room-belief']);
+      expect([...(await recoverCognitiveState(WS))!.beliefs.keys()]).toEqual(['plenary-belief']);
+
+      const sessions = await listActiveSessions();
+      expect(sessions.map((s) => [s.workshopId, s.roomId]).sort()).toEqual([[WS, null], [WS, 'room-1']]);
+      removeCognitiveState(ROOM);
+    });
+  });
+});
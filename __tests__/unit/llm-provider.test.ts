@@ -0,0 +1,206 @@
+// @vitest-environment node
+
+/**
+ * LLM provider layer.
+ *
+ * Covers config resolution (env < scope < per-agent override), the offline
+ * fixture provider, prompt hashing and the Anthropic message translation.
+ * No network — the OpenAI and Anthropic SDKs are never constructed.
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('@/lib/env', () => ({
+  env: {
+    DATABASE_URL: 'postgresql://test',
+    NEXT_PUBLIC_APP_URL: 'http://localhost:3000',
+    LLM_PROVIDER: 'fixture',
+  },
+}));
+
+import {
+  getFixtureProvider,
+  getLLMClient,
+  hashLLMPrompt,
+  mergeLLMConfig,
+  readLLMConfig,
+  resolveLLMSettings,
+  withLLMConfig,
+  type LLMMessage,
+} from '@/lib/llm';
+import { toAnthropicMessages } from '@/lib/llm/providers/anthropic-provider';
+
+const fixtures = getFixtureProvider();
+
+beforeEach(() => {
+  fixtures.reset();
+});
+
+describe('resolveLLMSettings', () => {
+  it('uses the env provider and its default models', () => {
+    const settings = resolveLLMSettings('theme');
+    expect(settings.provider).toBe('fixture');
+    expect(settings.models).toEqual({ standard: 'fixture-standard', fast: 'fixture-fast' });
+  });
+
+  it('applies per-agent overrides on top of the active scope', () => {
+    const config = readLLMConfig({
+      provider: 'openai',
+      models: { standard: 'gpt-4.1' },
+      agents: { 'root-cause': { provider: 'anthropic' } },
+    });
+
+    withLLMConfig(config, () => {
+      expect(resolveLLMSettings('theme').models.standard).toBe('gpt-4.1');
+      expect(resolveLLMSettings('theme').models.fast).toBe('gpt-4o-mini');
+
+      const rootCause = resolveLLMSettings('root-cause');
+      expect(rootCause.provider).toBe('anthropic');
+      // Global model ids belong to the global provider, not the override
+      expect(rootCause.models.standard).toBe('claude-sonnet-4-5');
+    });
+  });
+
+  it('routes embeddings away from Anthropic', () => {
+    const settings = resolveLLMSettings('embeddings', { provider: 'anthropic' });
+    expect(settings.embeddingProvider).toBe('openai');
+    expect(settings.embeddingModel).toBe('text-embedding-3-small');
+  });
+
+  it('nests scopes by merging', () => {
+    const merged = mergeLLMConfig({ provider: 'openai', models: { fast: 'a' } }, { models: { standard: 'b' } });
+    expect(merged.provider).toBe('openai');
+    expect(merged.models).toEqual({ fast: 'a', standard: 'b' });
+  });
+
+  it('rejects an invalid stored config', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(readLLMConfig({ provider: 'not-a-provider' })).toBeNull();
+    expect(readLLMConfig('{not json')).toBeNull();
+    warn.mockRestore();
+  });
+});
+
+describe('FixtureLLMProvider', () => {
+  const llm = getLLMClient('theme');
+
+  it('returns the first matching fixture for the agent', async () => {
+    fixtures.register(
+      { agent: 'guardian', response: { content: 'wrong agent' } },
+      { agent: 'theme', match: 'handle time', response: { content: 'matched' } },
+    );
+
+    const res = await llm.chat({
+      tier: 'fast',
+      messages: [{ role: 'user', content: 'Agents optimise for handle time' }],
+    });
+
+    expect(res.content).toBe('matched');
+    expect(res.provider).toBe('fixture');
+    expect(res.model).toBe('fixture-fast');
+  });
+
+  it('consumes once-only fixtures', async () => {
+    fixtures.register({ agent: 'theme', once: true, response: { content: 'first' } });
+    const messages: LLMMessage[] = [{ role: 'user', content: 'x' }];
+
+    expect((await llm.chat({ messages })).content).toBe('first');
+    expect((await llm.chat({ messages })).content).toContain('[fixture:theme]');
+  });
+
+  it('returns tool calls ready to push back onto the transcript', async () => {
+    fixtures.register({
+      agent: 'theme',
+      response: { toolCalls: [{ name: 'commit_themes', arguments: { themes: ['a'] } }] },
+    });
+
+    const res = await llm.chat({ messages: [{ role: 'user', content: 'x' }] });
+
+    expect(res.finishReason).toBe('tool_calls');
+    expect(res.message.tool_calls?.[0].function).toEqual({
+      name: 'commit_themes',
+      arguments: '{"themes":["a"]}',
+    });
+  });
+
+  it('defaults deterministically when nothing matches', async () => {
+    const json = await llm.chat({ messages: [{ role: 'user', content: 'x' }], responseFormat: 'json' });
+    expect(json.content).toBe('{}');
+
+    const forced = await llm.chat({
+      messages: [{ role: 'user', content: 'x' }],
+      tools: [{ type: 'function', function: { name: 'commit' } }],
+      toolChoice: { type: 'function', function: { name: 'commit' } },
+    });
+    expect(forced.toolCalls[0].function).toEqual({ name: 'commit', arguments: '{}' });
+  });
+
+  it('embeds identical text identically', async () => {
+    const [a, b, c] = await llm.embed(['same', 'same', 'different']);
+    expect(a).toHaveLength(1536);
+    expect(a).toEqual(b);
+    expect(a).not.toEqual(c);
+    const norm = Math.sqrt(a.reduce((s, v) => s + v * v, 0));
+    expect(norm).toBeCloseTo(1, 6);
+  });
+});
+
+describe('hashLLMPrompt', () => {
+  it('is stable across key order and ignores sampling parameters', () => {
+    const a = hashLLMPrompt({ messages: [{ role: 'user', content: 'hi' }], responseFormat: 'json' });
+    const b = hashLLMPrompt({ responseFormat: 'json', messages: [{ content: 'hi', role: 'user' }] });
+    expect(a).toBe(b);
+    expect(hashLLMPrompt({ messages: [{ role: 'user', content: 'hi!' }] })).not.toBe(a);
+  });
+});
+
+describe('toAnthropicMessages', () => {
+  it('hoists system prompts and maps tool turns to content blocks', () => {
+    const { system, messages } = toAnthropicMessages(
+      [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Find themes' },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 't1', type: 'function', function: { name: 'search', arguments: '{"q":"x"}' } }],
+        },
+        { role: 'tool', tool_call_id: 't1', content: 'results' },
+        { role: 'user', content: 'Now commit' },
+      ],
+      true,
+    );
+
+    expect(system).toContain('Be brief.');
+    expect(system).toContain('JSON');
+    expect(messages.map((m) => m.role)).toEqual(['user', 'assistant', 'user']);
+    expect(messages[1].content).toEqual([{ type: 'tool_use', id: 't1', name: 'search', input: { q: 'x' } }]);
+    // tool_result and the follow-up user text merge into one user turn
+    expect(messages[2].content).toEqual([
+      { type: 'tool_result', tool_use_id: 't1', content: 'results' },
+      { type: 'text', text: 'Now commit' },
+    ]);
+  });
+
+  it('maps image parts to base64 or url image blocks', () => {
+    const { messages } = toAnthropicMessages(
+      [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Describe these' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0K', detail: 'high' } },
+            { type: 'image_url', image_url: { url: 'https://example.com/slide.jpg' } },
+          ],
+        },
+      ],
+      false,
+    );
+
+    expect(messages[0].content).toEqual([
+      { type: 'text', text: 'Describe these' },
+      { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0K' } },
+      { type: 'image', source: { type: 'url', url: 'https://example.com/slide.jpg' } },
+    ]);
+  });
+});
@@ -0,0 +1,210 @@
+// @vitest-environment node
+
+/**
+ * Unit Tests: Local speech-to-text provider
+ *
+ * PCM windowing at pauses, whisper verbose_json parsing, on-device
+ * diarisation and chunk emission with source 'local'.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { encodeWav, WHISPER_SAMPLE_RATE } from '@/lib/transcription/local/pcm';
+import {
+  LocalSttError,
+  createLocalSttEngine,
+  parseVerboseJson,
+  type LocalSttEngine,
+} from '@/lib/transcription/local/engines';
+import { OnlineDiariser } from '@/lib/transcription/local/diarisation';
+import { LocalWhisperTranscriptionProvider } from '@/lib/transcription/providers/local-whisper-provider';
+import type { NormalizedTranscriptChunk } from '@/lib/transcription/types';
+
+// ---------------------------------------------------------------------------
+// Synthetic audio
+// ---------------------------------------------------------------------------
+
+/** A voiced "speaker": harmonic tone with slight vibrato. */
+function voice(pitchHz: number, ms: number, sampleRate = WHISPER_SAMPLE_RATE): Float32Array {
+  const out = new Float32Array(Math.round((sampleRate * ms) / 1000));
+  let phase = 0;
+  for (let i = 0; i < out.length; i++) {
+    const t = i / sampleRate;
+    phase += (2 * Math.PI * pitchHz * (1 + 0.02 * Math.sin(2 * Math.PI * 5 * t))) / sampleRate;
+    out[i] = 0.3 * Math.sin(phase) + 0.15 * Math.sin(2 * phase) + 0.08 * Math.sin(3 * phase);
+  }
+  return out;
+}
+
+function silence(ms: number, sampleRate = WHISPER_SAMPLE_RATE): Float32Array {
+  return new Float32Array(Math.round((sampleRate * ms) / 1000));
+}
+
+function toInt16(samples: Float32Array): Int16Array {
+  return Int16Array.from(samples, (s) => Math.round(s * 0x7fff));
+}
+
+/** Push audio the way a capture worklet would: 100ms frames. */
+function stream(provider: LocalWhisperTranscriptionProvider, samples: Float32Array, sampleRate: number) {
+  const frame = sampleRate / 10;
+  for (let i = 0; i < samples.length; i += frame) {
+    provider.pushAudio(toInt16(samples.subarray(i, i + frame)), sampleRate);
+  }
+}
+
+/** Engine that transcribes each window as one segment covering all of it. */
+function fakeEngine(texts: string[]): LocalSttEngine & { transcribe: ReturnType<typeof vi.fn> } {
+  let call = 0;
+  return {
+    kind: 'whisper.cpp',
+    transcribe: vi.fn(async (wav: Uint8Array) => {
+      const durationMs = ((wav.length - 44) / 2 / WHISPER_SAMPLE_RATE) * 1000;
+      return [{ startMs: 0, endMs: Math.round(durationMs), text: texts[call++] ?? '…', confidence: 0.9 }];
+    }),
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('encodeWav', () => {
+  it('writes a 16 kHz mono 16-bit PCM header', () => {
+    const wav = encodeWav(new Float32Array(160));
+    const view = new DataView(wav.buffer);
+    expect(new TextDecoder().decode(wav.subarray(0, 4))).toBe('RIFF');
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(16_000);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(view.getUint32(40, true)).toBe(320);
+  });
+});
+
+describe('parseVerboseJson', () => {
+  it('keeps speech segments and drops non-speech markers', () => {
+    const segments = parseVerboseJson({
+      segments: [
+        { start: 0, end: 1.2, text: ' Our onboarding takes weeks.', avg_logprob: -0.2, no_speech_prob: 0.01 },
+        { start: 1.2, end: 2, text: ' [BLANK_AUDIO]', avg_logprob: -1, no_speech_prob: 0.1 },
+        { start: 2, end: 3, text: ' uh', avg_logprob: -1, no_speech_prob: 0.9 },
+      ],
+    });
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({ startMs: 0, endMs: 1200, text: 'Our onboarding takes weeks.' });
+    expect(segments[0].confidence).toBeCloseTo(Math.exp(-0.2));
+  });
+});
+
+describe('createLocalSttEngine', () => {
+  it('posts WAV to the whisper.cpp inference endpoint', async () => {
+    const fetchMock = vi.fn(async () =>
+      new Response(JSON.stringify({ segments: [{ start: 0, end: 1, text: 'Hello' }] }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const engine = createLocalSttEngine({ kind: 'whisper.cpp', baseUrl: 'http://127.0.0.1:8080/' });
+    const segments = await engine.transcribe(encodeWav(voice(120, 500)), { language: 'cy' });
+
+    expect(segments.map((s) => s.text)).toEqual(['Hello']);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://127.0.0.1:8080/inference');
+    const form = init.body as FormData;
+    expect(form.get('response_format')).toBe('verbose_json');
+    expect(form.get('language')).toBe('cy');
+    expect(form.get('model')).toBeNull();
+  });
+
+  it('names the model for faster-whisper servers and surfaces errors', async () => {
+    const fetchMock = vi.fn(async () => new Response('model not loaded', { status: 503 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const engine = createLocalSttEngine({ kind: 'faster-whisper', baseUrl: 'http://stt.local', model: 'large-v3' });
+    await expect(engine.transcribe(encodeWav(voice(120, 200)))).rejects.toBeInstanceOf(LocalSttError);
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://stt.local/v1/audio/transcriptions');
+    expect((init.body as FormData).get('model')).toBe('large-v3');
+  });
+});
+
+describe('OnlineDiariser', () => {
+  it('separates voices in different pitch ranges and recognises them again', () => {
+    const diariser = new OnlineDiariser();
+    const low = diariser.assign(voice(110, 1500));
+    const high = diariser.assign(voice(230, 1500));
+    const lowAgain = diariser.assign(voice(115, 1500));
+
+    expect(low).toBe('speaker_0');
+    expect(high).toBe('speaker_1');
+    expect(lowAgain).toBe('speaker_0');
+    expect(diariser.speakerCount).toBe(2);
+    expect(diariser.profileOf('speaker_1')?.[0]).toBeGreaterThan(diariser.profileOf('speaker_0')![0]);
+    expect(diariser.profileOf('speaker_9')).toBeNull();
+  });
+
+  it('leaves unprofileable audio with the previous speaker', () => {
+    const diariser = new OnlineDiariser();
+    expect(diariser.assign(silence(500))).toBeNull();
+    diariser.assign(voice(110, 1500));
+    expect(diariser.assign(silence(500))).toBe('speaker_0');
+  });
+});
+
+describe('LocalWhisperTranscriptionProvider', () => {
+  it('cuts windows at pauses and emits diarised chunks with source "local"', async () => {
+    const engine = fakeEngine(['We lose customers at sign-up.', 'Because identity checks are manual.']);
+    const provider = new LocalWhisperTranscriptionProvider({ engine, minWindowMs: 1_000 });
+    const chunks: NormalizedTranscriptChunk[] = [];
+    provider.onChunk((c) => chunks.push(c));
+
+    await provider.start();
+    stream(provider, voice(110, 2_000, 48_000), 48_000);
+    stream(provider, silence(1_000, 48_000), 48_000);
+    stream(provider, voice(230, 2_000, 48_000), 48_000);
+    await provider.stop();
+
+    expect(engine.transcribe).toHaveBeenCalledTimes(2);
+    expect(chunks).toHaveLength(2);
+    expect(chunks.every((c) => c.source === 'local')).toBe(true);
+    expect(chunks[0].startTime).toBe(0);
+    expect(chunks[1].startTime).toBeGreaterThanOrEqual(2_000);
+    expect(chunks[1].startTime).toBeLessThan(3_000);
+    expect(chunks[0].speakerId).toBe('speaker_0');
+    expect(chunks[1].speakerId).toBe('speaker_1');
+    expect(chunks[1].voiceProfile).toHaveLength(4);
+    // Earlier text is passed as the prompt for continuity
+    expect(engine.transcribe.mock.calls[1][1]).toMatchObject({ prompt: expect.stringContaining('sign-up') });
+  });
+
+  it('does not send silence to the engine', async () => {
+    const engine = fakeEngine([]);
+    const provider = new LocalWhisperTranscriptionProvider({ engine, diarise: false });
+
+    await provider.start();
+    stream(provider, silence(3_000, 16_000), 16_000);
+    await provider.stop();
+
+    expect(engine.transcribe).not.toHaveBeenCalled();
+  });
+
+  it('reports engine failures and keeps going', async () => {
+    const onError = vi.fn();
+    const engine = fakeEngine(['Second window']);
+    engine.transcribe.mockRejectedValueOnce(new LocalSttError('down', 'whisper.cpp'));
+    const provider = new LocalWhisperTranscriptionProvider({ engine, minWindowMs: 1_000, diarise: false, onError });
+    const chunks: NormalizedTranscriptChunk[] = [];
+    provider.onChunk((c) => chunks.push(c));
+
+    await provider.start();
+    stream(provider, voice(110, 1_500, 16_000), 16_000);
+    stream(provider, silence(1_000, 16_000), 16_000);
+    stream(provider, voice(110, 1_500, 16_000), 16_000);
+    await provider.stop();
+
+    expect(onError).toHaveBeenCalledOnce();
+    expect(chunks.map((c) => c.text)).toEqual(['Second window']);
+  });
+});
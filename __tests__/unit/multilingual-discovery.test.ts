@@ -0,0 +1,167 @@
+// @vitest-environment node
+
+/**
+ * Unit Tests: Multilingual discovery
+ *
+ * Curated question packs stay aligned with FIXED_QUESTIONS, tailored
+ * questions fall back to cached machine translation, question messages carry
+ * their pivot wording, and report quotes map back to the participant's words.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const { mockPrisma, mockLLM } = vi.hoisted(() => ({
+  mockPrisma: {
+    questionPackTranslation: { findUnique: vi.fn(), upsert: vi.fn() },
+  },
+  mockLLM: {
+    isConfigured: vi.fn(() => true),
+    modelFor: vi.fn(() => 'test-fast'),
+    chat: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }));
+vi.mock('@/lib/llm', () => ({ getLLMClient: () => mockLLM }));
+
+import { FIXED_QUESTIONS, FIXED_QUESTIONS_V2 } from '@/lib/conversation/fixed-questions';
+import {
+  CURATED_LANGUAGES,
+  buildQuestionMessage,
+  localiseQuestion,
+  localiseTexts,
+  relocaliseQuestionMessage,
+} from '@/lib/conversation/question-localisation';
+import { DE } from '@/lib/conversation/locales/de';
+import { ES } from '@/lib/conversation/locales/es';
+import { FR } from '@/lib/conversation/locales/fr';
+import {
+  normaliseLanguage,
+  originalQuote,
+  pivotText,
+  translateToPivot,
+} from '@/lib/conversation/translation';
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockLLM.isConfigured.mockReturnValue(true);
+  mockPrisma.questionPackTranslation.upsert.mockResolvedValue({});
+});
+
+describe('curated locale packs', () => {
+  it.each([['fr', FR], ['de', DE], ['es', ES]] as const)('%s mirrors every standard question and scale', (_lang, pack) => {
+    for (const [phase, questions] of Object.entries(FIXED_QUESTIONS)) {
+      const localised = pack.questions[phase as keyof typeof FIXED_QUESTIONS];
+      expect(localised, phase).toHaveLength(questions.length);
+      questions.forEach((q, i) => {
+        expect(localised[i].text.trim(), `${phase}[${i}]`).not.toBe('');
+        expect(localised[i].text, `${phase}[${i}]`).not.toBe(q.text);
+        expect(localised[i].maturityScale?.length ?? 0, `${phase}[${i}] scale`).toBe(q.maturityScale?.length ?? 0);
+      });
+    }
+  });
+
+  it('covers French, German and Spanish', () => {
+    expect(CURATED_LANGUAGES).toEqual(expect.arrayContaining(['fr', 'de', 'es']));
+  });
+
+  it('localises the standard set without calling the LLM', async () => {
+    const question = await localiseQuestion(FIXED_QUESTIONS.people[0], 'fr-FR');
+    const [followUp] = await localiseTexts([FIXED_QUESTIONS_V2.intro[0].text], 'de');
+
+    expect(question.text).toBe(FR.questions.people[0].text);
+    expect(question.maturityScale).toEqual(FR.questions.people[0].maturityScale);
+    expect(followUp).toBe(DE.followUpIntro);
+    expect(mockLLM.chat).not.toHaveBeenCalled();
+    expect(mockPrisma.questionPackTranslation.findUnique).not.toHaveBeenCalled();
+  });
+});
+
+describe('machine-translated questions', () => {
+  const tailored = 'How long does a claim take to settle end to end?';
+
+  it('translates misses once and caches them by source hash', async () => {
+    mockPrisma.questionPackTranslation.findUnique.mockResolvedValue(null);
+    mockLLM.chat.mockResolvedValue({ content: JSON.stringify({ translations: ['Combien de temps faut-il pour régler un sinistre ?'] }) });
+
+    const result = await localiseTexts([FIXED_QUESTIONS.intro[1].text, tailored], 'fr');
+
+    expect(result).toEqual([FR.questions.intro[1].text, 'Combien de temps faut-il pour régler un sinistre ?']);
+    expect(JSON.parse(mockLLM.chat.mock.calls[0][0].messages[1].content)).toEqual({ texts: [tailored] });
+    expect(mockPrisma.questionPackTranslation.upsert.mock.calls[0][0].create).toMatchObject({
+      language: 'fr',
+      texts: ['Combien de temps faut-il pour régler un sinistre ?'],
+    });
+  });
+
+  it('serves cached translations without calling the LLM', async () => {
+    mockPrisma.questionPackTranslation.findUnique.mockResolvedValue({ texts: ['¿Cuánto se tarda en liquidar un siniestro?'] });
+
+    await expect(localiseTexts([tailored], 'es')).resolves.toEqual(['¿Cuánto se tarda en liquidar un siniestro?']);
+    expect(mockLLM.chat).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the pivot text when translation is unavailable or malformed', async () => {
+    mockPrisma.questionPackTranslation.findUnique.mockResolvedValue(null);
+    mockLLM.chat.mockResolvedValue({ content: JSON.stringify({ translations: [] }) });
+    await expect(localiseTexts([tailored], 'it')).resolves.toEqual([tailored]);
+    expect(mockPrisma.questionPackTranslation.upsert).not.toHaveBeenCalled();
+
+    mockLLM.isConfigured.mockReturnValue(false);
+    await expect(localiseTexts([tailored], 'it')).resolves.toEqual([tailored]);
+  });
+});
+
+describe('question messages', () => {
+  it('shows the session language and keeps the pivot wording in metadata', async () => {
+    const q = FIXED_QUESTIONS.corporate[0];
+    const message = await buildQuestionMessage(q, { index: 0, phase: 'corporate' }, 'es', 'skipRegulation');
+
+    expect(message.content).toBe(`${ES.phrases.skipRegulation}\n\n${ES.questions.corporate[0].text}`);
+    expect(message.metadata).toMatchObject({
+      kind: 'question',
+      tag: 'triple_rating',
+      maturityScale: ES.questions.corporate[0].maturityScale,
+      translation: { sourceLanguage: 'es', en: `No problem -- skipping regulation.\n\n${q.text}`, maturityScale: q.maturityScale },
+    });
+    expect(pivotText(message.content, message.metadata)).toBe(`No problem -- skipping regulation.\n\n${q.text}`);
+  });
+
+  it('omits translation metadata in the pivot language', async () => {
+    const message = await buildQuestionMessage(FIXED_QUESTIONS.intro[0], { index: 0, phase: 'intro' }, 'en');
+    expect(message.content).toBe(FIXED_QUESTIONS.intro[0].text);
+    expect(message.metadata.translation).toBeUndefined();
+  });
+
+  it('re-asks a pending question in a newly selected language', async () => {
+    const french = await buildQuestionMessage(FIXED_QUESTIONS.technology[0], { index: 0, phase: 'technology' }, 'fr');
+
+    const german = await relocaliseQuestionMessage(french.content, french.metadata, 'de');
+    const english = await relocaliseQuestionMessage(french.content, french.metadata, 'en');
+
+    expect(german?.content).toBe(DE.questions.technology[0].text);
+    expect(german?.metadata.maturityScale).toEqual(DE.questions.technology[0].maturityScale);
+    expect(english?.content).toBe(FIXED_QUESTIONS.technology[0].text);
+    expect(english?.metadata.maturityScale).toEqual(FIXED_QUESTIONS.technology[0].maturityScale);
+    expect(await relocaliseQuestionMessage('Thanks!', { kind: 'clarification_response' }, 'de')).toBeNull();
+  });
+});
+
+describe('translation helpers', () => {
+  it('normalises language codes and skips translation for the pivot', async () => {
+    expect(normaliseLanguage('fr-FR')).toBe('fr');
+    expect(normaliseLanguage(null)).toBe('en');
+    await expect(translateToPivot({ text: ' Hello ', sourceLanguage: 'en-GB' })).resolves.toBe('Hello');
+    expect(mockLLM.chat).not.toHaveBeenCalled();
+  });
+
+  it('maps pivot quotes back to the original answer', () => {
+    const answers = [
+      { pivot: 'Approvals take three weeks because nobody owns the budget.', original: "Les validations prennent trois semaines car personne n'est responsable du budget." },
+    ];
+
+    expect(originalQuote('Approvals take three weeks because nobody owns the budget.', answers)).toBe(answers[0].original);
+    expect(originalQuote('nobody owns the budget', answers)).toBe(answers[0].original);
+    expect(originalQuote('Unrelated quote', answers)).toBe('Unrelated quote');
+  });
+});
@@ -0,0 +1,137 @@
+// @vitest-environment node
+
+/**
+ * Unit Tests: Participant redaction layer
+ *
+ * Anonymous participants get stable role-based pseudonyms, their names and
+ * all email addresses are scrubbed from free text, and roles held by fewer
+ * than the minimum cohort are never shown.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    workshopParticipant: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }));
+
+import {
+  createParticipantRedactor,
+  loadParticipantRedactor,
+  minCohortSize,
+  type RedactionParticipant,
+} from '@/lib/compliance/participant-redaction';
+
+function participant(id: string, name: string, role: string | null, anonymous = true): RedactionParticipant {
+  return {
+    id,
+    name,
+    email: `${id}@example.com`,
+    role,
+    attributionPreference: anonymous ? 'ANONYMOUS' : 'NAMED',
+  };
+}
+
+const PARTICIPANTS = [
+  participant('p1', 'Sarah Jones', 'Operations Manager'),
+  participant('p2', 'Tom Baker', 'Operations Manager'),
+  participant('p3', 'Priya Shah', 'Operations Manager'),
+  participant('p4', 'Alex Kim', 'Chief Financial Officer'),
+  participant('p5', 'Dan Wright', 'Team Leader', false),
+];
+
+describe('createParticipantRedactor', () => {
+  const redactor = createParticipantRedactor(PARTICIPANTS, { minCohortSize: 3 });
+
+  it('numbers pseudonyms per role in participant order', () => {
+    expect(redactor.displayName('p1')).toBe('Operations Manager #1');
+    expect(redactor.displayName('p3')).toBe('Operations Manager #3');
+  });
+
+  it('hides roles below the minimum cohort for anonymous participants', () => {
+    expect(redactor.displayName('p4')).toBe('Participant #1');
+    expect(redactor.roleLabel('Chief Financial Officer')).toBeNull();
+    expect(redactor.roleLabel('operations manager')).toBe('operations manager');
+  });
+
+  it('keeps named participants and roles where everyone chose to be named', () => {
+    expect(redactor.displayName('p5')).toBe('Dan Wright');
+    expect(redactor.roleLabel('Team Leader')).toBe('Team Leader');
+    expect(redactor.displayName('unknown')).toBe('Participant');
+  });
+
+  it('scrubs anonymous names and every email address from free text', () => {
+    const text = 'Sarah Jones said Tom was right; contact dan@acme.com or ask Dan Wright. We will see.';
+    expect(redactor.scrubText(text)).toBe(
+      'Operations Manager #1 said Operations Manager #2 was right; contact [email removed] or ask Dan Wright. We will see.',
+    );
+  });
+
+  it('merges under-sized cohorts in role breakdowns', () => {
+    const rows = redactor.roleBreakdown([
+      { role: 'Operations Manager', count: 3 },
+      { role: 'Chief Financial Officer', count: 1 },
+      { role: null, count: 2 },
+    ]);
+    expect(rows).toEqual([
+      { role: 'Operations Manager', count: 3 },
+      { role: 'Participant', count: 3 },
+    ]);
+  });
+
+  it('redacts nested output, mapping participant names and role fields', () => {
+    const createdAt = new Date('2026-01-01T00:00:00Z');
+    const out = redactor.redact({
+      sources: [{ sessionId: 's1', participantName: 'Priya Shah' }],
+      quotes: [{ text: 'Alex Kim blocked it', participantRole: 'Chief Financial Officer' }],
+      roleCoverage: ['Operations Manager', 'Chief Financial Officer', 'Customer'],
+      roleDistribution: { 'Operations Manager': 4, 'Chief Financial Officer': 2 },
+      createdAt,
+      weight: 2,
+    });
+    expect(out).toEqual({
+      sources: [{ sessionId: 's1', participantName: 'Operations Manager #3' }],
+      quotes: [{ text: 'Participant #1 blocked it', participantRole: null }],
+      roleCoverage: ['Operations Manager', 'Customer'],
+      roleDistribution: { 'Operations Manager': 4, Participant: 2 },
+      createdAt,
+      weight: 2,
+    });
+  });
+});
+
+describe('minCohortSize', () => {
+  const original = process.env.REPORT_MIN_COHORT_SIZE;
+  afterEach(() => {
+    if (original === undefined) delete process.env.REPORT_MIN_COHORT_SIZE;
+    else process.env.REPORT_MIN_COHORT_SIZE = original;
+  });
+
+  it('defaults to 3 and honours REPORT_MIN_COHORT_SIZE', () => {
+    delete process.env.REPORT_MIN_COHORT_SIZE;
+    expect(minCohortSize()).toBe(3);
+    process.env.REPORT_MIN_COHORT_SIZE = '5';
+    expect(minCohortSize()).toBe(5);
+    process.env.REPORT_MIN_COHORT_SIZE = 'zero';
+    expect(minCohortSize()).toBe(3);
+  });
+});
+
+describe('loadParticipantRedactor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.workshopParticipant.findMany.mockResolvedValue(PARTICIPANTS);
+  });
+
+  it('loads the workshop participants in the order they were added', async () => {
+    const redactor = await loadParticipantRedactor('ws-1');
+    expect(mockPrisma.workshopParticipant.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { workshopId: 'ws-1' }, orderBy: { createdAt: 'asc' } }),
+    );
+    expect(redactor.hasAnonymousParticipants).toBe(true);
+    expect(redactor.displayName('p2')).toBe('Operations Manager #2');
+  });
+});
@@ -0,0 +1,193 @@
+// @vitest-environment node
+
+/**
+ * Unit Tests: PII scanner and vault
+ *
+ * Regex rules, the participant/dictionary detector and an optional NER model
+ * find personal data; each distinct value gets a stable per-workshop
+ * placeholder whose original can be revealed from the vault.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    workshop: { findUnique: vi.fn() },
+    piiVaultEntry: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }));
+
+import { isUnsafeRegex, readPiiConfig } from '@/lib/pii/config';
+import { passesLuhn } from '@/lib/pii/rules';
+import { buildPiiDetectors, mergePiiMatches, scanPii, setNerDetector } from '@/lib/pii/scanner';
+import { redactPii, revealPii, tokenForValue } from '@/lib/pii/vault';
+import type { PiiMatch } from '@/lib/pii/types';
+
+const ENABLED = { enabled: true };
+
+async function types(text: string, participants: string[] = []) {
+  const matches = await scanPii(text, buildPiiDetectors(ENABLED, participants));
+  return matches.map((m) => [m.type, m.value]);
+}
+
+/** In-memory vault behind the mocked piiVaultEntry delegate */
+function useMemoryVault() {
+  const rows: Array<{ workshopId: string; entityType: string; token: string; value: string; detector: string }> = [];
+  mockPrisma.piiVaultEntry.findFirst.mockImplementation(async ({ where }) =>
+    rows.find((r) => r.workshopId === where.workshopId && r.entityType === where.entityType && where.value.in.includes(r.value)) ?? null);
+  mockPrisma.piiVaultEntry.count.mockImplementation(async ({ where }) =>
+    rows.filter((r) => r.workshopId === where.workshopId && r.entityType === where.entityType).length);
+  mockPrisma.piiVaultEntry.create.mockImplementation(async ({ data }) => {
+    rows.push(data);
+    return data;
+  });
+  mockPrisma.piiVaultEntry.findMany.mockImplementation(async ({ where }) =>
+    rows.filter((r) => r.workshopId === where.workshopId && where.token.in.includes(r.token)));
+  return rows;
+}
+
+describe('PII scanner', () => {
+  afterEach(() => {
+    setNerDetector(null);
+  });
+
+  it('detects emails, phone numbers and postcodes', async () => {
+    expect(await types('Email jane.doe@acme.co.uk or call 07700 900123, postcode SW1A 1AA.')).toEqual([
+      ['EMAIL', 'jane.doe@acme.co.uk'],
+      ['PHONE', '07700 900123'],
+      ['ADDRESS', 'SW1A 1AA'],
+    ]);
+    expect(await types('International: +44 20 7946 0958')).toEqual([['PHONE', '+44 20 7946 0958']]);
+  });
+
+  it('only treats Luhn-valid digit runs as card numbers', async () => {
+    expect(passesLuhn('4111 1111 1111 1111')).toBe(true);
+    expect(passesLuhn('4111 1111 1111 1112')).toBe(false);
+    expect(await types('Card 4111 1111 1111 1111 on file')).toEqual([['ACCOUNT_NUMBER', '4111 1111 1111 1111']]);
+    expect(await types('Order 4111 1111 1111 1112 shipped')).toEqual([]);
+  });
+
+  it('replaces only the number of a labelled account reference', async () => {
+    expect(await types('Her account number: 12345678 was locked')).toEqual([['ACCOUNT_NUMBER', '12345678']]);
+  });
+
+  it('matches participant names in full and by capitalised part', async () => {
+    const found = await types('Sarah Jones said sarah jones and later Jones agreed; the jones act is different', ['Sarah Jones']);
+    expect(found).toEqual([
+      ['NAME', 'Sarah Jones'],
+      ['NAME', 'sarah jones'],
+      ['NAME', 'Jones'],
+    ]);
+  });
+
+  it('skips participant names when includeParticipantNames is false', async () => {
+    const detectors = buildPiiDetectors({ enabled: true, includeParticipantNames: false }, ['Sarah Jones']);
+    expect(await scanPii('Sarah Jones spoke', detectors)).toEqual([]);
+  });
+
+  it('applies custom rules and narrows to the configured entity types', async () => {
+    const detectors = buildPiiDetectors({
+      enabled: true,
+      customRules: [{ name: 'policy', type: 'ACCOUNT_NUMBER', pattern: 'POL-\\d{6}' }],
+    });
+    const matches = await scanPii('Policy POL-123456 for bob@example.com', detectors, ['ACCOUNT_NUMBER']);
+    expect(matches.map((m) => [m.detector, m.value])).toEqual([['custom:policy', 'POL-123456']]);
+  });
+
+  it('keeps the longest of overlapping matches', () => {
+    const match = (start: number, end: number, detector: string): PiiMatch =>
+      ({ type: 'ADDRESS', start, end, value: '', detector });
+    expect(mergePiiMatches([match(5, 10, 'a'), match(0, 12, 'b'), match(14, 16, 'c')]).map((m) => m.detector))
+      .toEqual(['b', 'c']);
+  });
+
+  it('uses the NER detector when enabled and tolerates its failures', async () => {
+    setNerDetector({
+      name: 'ner',
+      detect: (text) => {
+        const start = text.indexOf('Priya');
+        return [{ type: 'NAME', start, end: start + 5, value: 'Priya', detector: 'ner' }];
+      },
+    });
+    expect(await scanPii('Priya called', buildPiiDetectors({ enabled: true, useNer: true }))).toHaveLength(1);
+    expect(await scanPii('Priya called', buildPiiDetectors({ enabled: true }))).toHaveLength(0);
+
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    setNerDetector({ name: 'ner', detect: () => Promise.reject(new Error('model offline')) });
+    const matches = await scanPii('Priya at priya@example.com', buildPiiDetectors({ enabled: true, useNer: true }));
+    expect(matches.map((m) => m.type)).toEqual(['EMAIL']);
+    errorSpy.mockRestore();
+  });
+
+  it('rejects configs with invalid regular expressions', () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(readPiiConfig({ enabled: true, customRules: [{ name: 'bad', type: 'NAME', pattern: '(' }] })).toBeNull();
+    expect(readPiiConfig({ enabled: true, dictionary: [{ term: 'Acme Holdings' }] })?.dictionary?.[0].type).toBe('NAME');
+    warnSpy.mockRestore();
+  });
+
+  it('rejects custom rules that can backtrack catastrophically', () => {
+    for (const pattern of ['(a+)+$', '(\\w+\\s?)*x', '(?:[A-Z]\\d*){2,}', '((ab)*c)+', '(\\d)\\1']) {
+      expect(isUnsafeRegex(pattern), pattern).toBe(true);
+    }
+    for (const pattern of ['POL-\\d{8}', '(\\d{3}-){2}\\d{4}', '(?:CUST|ACC)\\d+', '[(+]+\\d', '(ab)+', '([A-Z]{2})?\\d+']) {
+      expect(isUnsafeRegex(pattern), pattern).toBe(false);
+    }
+
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(readPiiConfig({ enabled: true, customRules: [{ name: 'slow', type: 'NAME', pattern: '(a+)+' }] })).toBeNull();
+    warnSpy.mockRestore();
+  });
+});
+
+describe('PII vault', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns text unchanged when the organisation has redaction off', async () => {
+    mockPrisma.workshop.findUnique.mockResolvedValue({ organization: { piiConfig: null }, participants: [] });
+    expect(await redactPii('ws-1', 'mail bob@example.com')).toBe('mail bob@example.com');
+    expect(mockPrisma.piiVaultEntry.create).not.toHaveBeenCalled();
+  });
+
+  it('gives each distinct value a stable numbered token and reveals it again', async () => {
+    const rows = useMemoryVault();
+    mockPrisma.workshop.findUnique.mockResolvedValue({
+      organization: { piiConfig: ENABLED },
+      participants: [{ name: 'Sarah Jones' }],
+    });
+
+    const first = await redactPii('ws-1', 'Sarah Jones emailed bob@example.com and amy@example.com');
+    const second = await redactPii('ws-1', 'Reply to bob@example.com');
+    expect(first).toBe('[NAME_1] emailed [EMAIL_1] and [EMAIL_2]');
+    expect(second).toBe('Reply to [EMAIL_1]');
+    expect(rows).toHaveLength(3);
+
+    expect(await revealPii('ws-1', `${first} [EMAIL_9]`)).toEqual({
+      text: 'Sarah Jones emailed bob@example.com and amy@example.com [EMAIL_9]',
+      revealed: 3,
+    });
+  });
+
+  it('recovers when a concurrent writer stores the same value first', async () => {
+    mockPrisma.piiVaultEntry.findFirst
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ token: '[EMAIL_4]' });
+    mockPrisma.piiVaultEntry.count.mockResolvedValue(3);
+    mockPrisma.piiVaultEntry.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' }),
+    );
+
+    expect(await tokenForValue('ws-1', { type: 'EMAIL', value: 'bob@example.com', detector: 'email' })).toBe('[EMAIL_4]');
+    expect(mockPrisma.piiVaultEntry.create).toHaveBeenCalledTimes(1);
+  });
+});
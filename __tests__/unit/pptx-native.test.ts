@@ -0,0 +1,246 @@
+// @vitest-environment node
+
+/**
+ * Unit Tests: Editable PowerPoint export
+ *
+ * Reading theme colours, fonts and background artwork from an uploaded
+ * master template, resolving the deck theme, and building native slides
+ * (text, tables, charts) from the report data.
+ */
+
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { buildNativeDeck } from '@/lib/report/pptx-native';
+import { parsePptxTemplate, PptxTemplateError, resolveDeckTheme } from '@/lib/report/pptx-template';
+import type {
+  ReportLayout,
+  ReportSectionConfig,
+  ReportSummary,
+  WorkshopOutputIntelligence,
+} from '@/lib/output-intelligence/types';
+
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+  'base64',
+);
+
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+async function templateFile(): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('ppt/slideMasters/slideMaster1.xml',
+    '<p:sldMaster><p:cSld><p:bg><p:bgPr><a:blipFill><a:blip r:embed="rId3"/></a:blipFill></p:bgPr></p:bg></p:cSld></p:sldMaster>');
+  zip.file('ppt/slideMasters/_rels/slideMaster1.xml.rels', [
+    '<Relationships>',
+    `<Relationship Id="rId1" Type="${REL}/slideLayout" Target="../slideLayouts/slideLayout1.xml"/>`,
+    `<Relationship Id="rId2" Type="${REL}/theme" Target="../theme/theme1.xml"/>`,
+    `<Relationship Id="rId3" Type="${REL}/image" Target="../media/image1.png"/>`,
+    '</Relationships>',
+  ].join(''));
+  zip.file('ppt/slideLayouts/slideLayout1.xml',
+    '<p:sldLayout type="title"><p:cSld><p:bg><p:bgPr><a:blipFill><a:blip r:embed="rId2"/></a:blipFill></p:bgPr></p:bg></p:cSld></p:sldLayout>');
+  zip.file('ppt/slideLayouts/_rels/slideLayout1.xml.rels',
+    `<Relationships><Relationship Id="rId2" Type="${REL}/image" Target="../media/image2.jpeg"/></Relationships>`);
+  zip.file('ppt/theme/theme1.xml', [
+    '<a:theme><a:themeElements><a:clrScheme name="Acme">',
+    '<a:dk1><a:sysClr val="windowText" lastClr="111111"/></a:dk1>',
+    '<a:lt1><a:sysClr val="window" lastClr="FFFFFF"/></a:lt1>',
+    '<a:accent1><a:srgbClr val="c8102e"/></a:accent1>',
+    '<a:accent2><a:srgbClr val="003A70"/></a:accent2>',
+    '</a:clrScheme><a:fontScheme name="Acme">',
+    '<a:majorFont><a:latin typeface="Georgia"/></a:majorFont>',
+    '<a:minorFont><a:latin typeface="Arial"/></a:minorFont>',
+    '</a:fontScheme></a:themeElements></a:theme>',
+  ].join(''));
+  zip.file('ppt/media/image1.png', PNG);
+  zip.file('ppt/media/image2.jpeg', PNG);
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+function section(id: string, title: string, overrides: Partial<ReportSectionConfig> = {}): ReportSectionConfig {
+  return { id, type: 'builtin', title, enabled: true, collapsed: false, excludedItems: [], ...overrides };
+}
+
+const reportSummary = {
+  workshopAsk: 'Why do customers churn after onboarding?',
+  keyInsight: 'Handovers break the promise made in sales',
+  executiveSummary: {
+    theAsk: 'Find the root of post-onboarding churn',
+    theAnswer: 'Fix the sales-to-service handover first',
+    whatWeFoundPositive: ['Frontline teams are trusted by customers'],
+    whatWeFound: ['Handover notes are lost between teams', 'Excluded finding'],
+    lensFindings: [{ lens: 'People', finding: 'Agents lack authority to resolve billing issues' }],
+    whyItMatters: 'Churn costs £2m a year.',
+    opportunityOrRisk: '',
+    urgency: 'Renewals peak in Q1.',
+    nextStepsPreview: '',
+  },
+  solutionSummary: {
+    direction: 'One owner from signature to first value',
+    rationale: 'Ownership gaps drive most escalations.',
+    whatMustChange: [{ area: 'Handover', currentState: 'Email threads', requiredChange: 'Shared onboarding record' }],
+    startingPoint: 'Pilot with enterprise accounts.',
+    successIndicators: ['Time to first value under 30 days'],
+  },
+  transformationDirection: '',
+  validationPassed: true,
+  validationGaps: [],
+  generatedAtMs: 0,
+  reportConclusion: {
+    summary: 'The organisation is ready to act.',
+    nextSteps: [{ id: 's1', title: 'Appoint an onboarding owner', description: 'Within four weeks' }],
+  },
+} as ReportSummary;
+
+const intelligence = {
+  strategicImpact: {
+    automationPotential: { percentage: 30, description: 'Data entry' },
+    aiAssistedWork: { percentage: 45, description: 'Triage' },
+    humanOnlyWork: { percentage: 25, description: 'Relationship work' },
+    efficiencyGains: [{ metric: 'Handling time', estimated: '-20%', basis: 'Agent estimates' }],
+    experienceImprovements: [],
+    businessCaseSummary: 'Payback inside a year.',
+    confidenceScore: 72,
+  },
+  roadmap: {
+    phases: [
+      { phase: 'Phase 1 — Immediate Enablement', timeframe: '0-3 months', initiatives: [{ title: 'Shared onboarding record', description: '', outcome: 'No lost notes' }], capabilities: [], dependencies: [], constraints: [] },
+    ],
+    criticalPath: 'Data model before tooling',
+    keyRisks: ['Sales adoption'],
+    roiSummary: {
+      phases: [{ phase: 'Phase 1', estimatedCost: '£100k', estimatedAnnualBenefit: '£400k', benefitDrivers: [], breakEvenTimeline: '4 months', roiMultiple: '3×', confidenceLevel: 'Medium' }],
+      totalProgrammeCost: '£100k',
+      totalThreeYearBenefit: '£1.2m',
+      paybackPeriod: '4 months',
+      keyAssumptions: [],
+      narrative: 'Low cost, fast payback.',
+    },
+  },
+  transformationLogicMap: {
+    nodes: [],
+    edges: [],
+    coalescencePoints: [{ nodeId: 'n1', label: 'Handover ownership', layer: 'ENABLER', outDegree: 4, affectedCount: 6, compositeScore: 0.82 }],
+    orphanSummary: { constraintOrphans: 2, enablerOrphans: 1, visionOrphans: 0, topOrphanLabels: [] },
+    strongestChains: [{ chainId: 'c1', constraintLabel: 'Lost notes', enablerLabel: 'Shared record', reimaginationLabel: 'Seamless onboarding', chainStrength: 0.9 }],
+    coverageScore: 64,
+    interpretationSummary: 'Most constraints trace to handover ownership.',
+  },
+} as unknown as WorkshopOutputIntelligence;
+
+async function slideXml(buffer: Buffer): Promise<{ zip: JSZip; slides: string[] }> {
+  const zip = await JSZip.loadAsync(buffer);
+  const names = Object.keys(zip.files)
+    .filter((n) => /^ppt\/slides\/slide\d+\.xml$/.test(n))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  return { zip, slides: await Promise.all(names.map((n) => zip.file(n)!.async('string'))) };
+}
+
+describe('parsePptxTemplate', () => {
+  it('reads theme colours, fonts and the master and title-layout backgrounds', async () => {
+    const parsed = await parsePptxTemplate(await templateFile());
+
+    expect(parsed.colors).toEqual({ dk1: '111111', lt1: 'FFFFFF', accent1: 'C8102E', accent2: '003A70' });
+    expect(parsed.fonts).toEqual({ heading: 'Georgia', body: 'Arial' });
+    expect(parsed.background).toMatchObject({ contentType: 'image/png', extension: 'png' });
+    expect(parsed.titleBackground).toMatchObject({ contentType: 'image/jpeg', extension: 'jpeg' });
+    expect(parsed.background!.data.equals(PNG)).toBe(true);
+  });
+
+  it('rejects files that are not PowerPoint packages', async () => {
+    await expect(parsePptxTemplate(Buffer.from('not a zip'))).rejects.toBeInstanceOf(PptxTemplateError);
+
+    const zip = new JSZip();
+    zip.file('word/document.xml', '<w:document/>');
+    await expect(parsePptxTemplate(await zip.generateAsync({ type: 'nodebuffer' })))
+      .rejects.toThrow('Template has no slide master');
+  });
+});
+
+describe('resolveDeckTheme', () => {
+  it('prefers template colours, then brand colours, then the DREAM palette', () => {
+    const template = {
+      fileName: 'acme.potx', uploadedAt: '', colors: { accent1: 'C8102E' },
+      fonts: { heading: 'Georgia', body: null }, backgroundUrl: null, titleBackgroundUrl: null,
+    };
+
+    const themed = resolveDeckTheme({ primaryColor: '#4a90a4', secondaryColor: '#7c3', pptxTemplate: template });
+    expect(themed.primary).toBe('C8102E');
+    expect(themed.secondary).toBe('77CC33');
+    expect(themed.headingFont).toBe('Georgia');
+    expect(themed.bodyFont).toBe('Calibri');
+
+    const branded = resolveDeckTheme({ primaryColor: '#4a90a4', secondaryColor: null });
+    expect(branded.primary).toBe('4A90A4');
+    expect(branded.secondary).toBe('10B981');
+    expect(resolveDeckTheme(null).primary).toBe('6366F1');
+  });
+});
+
+describe('buildNativeDeck', () => {
+  const layout: ReportLayout = {
+    version: 5,
+    sections: [
+      section('executive_summary', 'Executive Summary', { excludedItems: ['finding:1'] }),
+      section('ch_reimagine', 'Reimagine', { type: 'chapter' }),
+      section('solution_direction', 'Solution Direction'),
+      section('strategic_impact', 'Strategic Impact'),
+      section('journey_map', 'Customer Journey Map'),
+      section('way_forward', 'Way Forward'),
+      section('transformation_priorities', 'Transformation Priorities'),
+      section('report_conclusion', 'Summary & Next Steps'),
+      section('root_causes', 'Root Causes', { enabled: false }),
+    ],
+  };
+
+  it('builds editable text, tables and charts in the organisation theme', async () => {
+    const theme = resolveDeckTheme({ primaryColor: '#C8102E', secondaryColor: '#003A70' });
+    const { buffer, skippedSections } = await buildNativeDeck({
+      reportSummary, intelligence, layout, theme,
+      workshopName: 'Onboarding Review', orgName: 'Acme',
+    });
+    const { zip, slides } = await slideXml(buffer);
+    const all = slides.join('\n');
+
+    expect(skippedSections).toEqual(['Customer Journey Map']);
+    expect(slides[0]).toContain('Onboarding Review');
+    expect(all).toContain('Handover notes are lost between teams');
+    expect(all).not.toContain('Excluded finding');
+    expect(all).toContain('Shared onboarding record');
+    expect(all).toContain('Seamless onboarding');
+    expect(all).toContain('Appoint an onboarding owner');
+    expect(all).toContain('<a:tbl>');
+    expect(all).toContain('C8102E');
+
+    const charts = Object.keys(zip.files).filter((n) => /^ppt\/charts\/chart\d+\.xml$/.test(n));
+    expect(charts).toHaveLength(2);
+    const chartXml = await Promise.all(charts.map((n) => zip.file(n)!.async('string')));
+    expect(chartXml.join('\n')).toContain('<c:doughnutChart>');
+    expect(chartXml.join('\n')).toContain('<c:barChart>');
+  });
+
+  it('uses template fonts and background artwork on the slide masters', async () => {
+    const theme = resolveDeckTheme({
+      pptxTemplate: {
+        fileName: 'acme.potx', uploadedAt: '', colors: {}, fonts: { heading: 'Georgia', body: 'Arial' },
+        backgroundUrl: 'https://cdn.example.com/bg.png', titleBackgroundUrl: null,
+      },
+    });
+    const { buffer } = await buildNativeDeck({
+      reportSummary, intelligence, theme,
+      layout: { version: 5, sections: [section('report_conclusion', 'Summary')] },
+      workshopName: 'Onboarding Review', orgName: 'Acme',
+      backgroundData: `data:image/png;base64,${PNG.toString('base64')}`,
+    });
+    const zip = await JSZip.loadAsync(buffer);
+
+    const themeXml = await zip.file('ppt/theme/theme1.xml')!.async('string');
+    expect(themeXml).toContain('typeface="Georgia"');
+    expect(themeXml).toContain('typeface="Arial"');
+    const layoutRels = await Promise.all(Object.keys(zip.files)
+      .filter((n) => /^ppt\/slideLayouts\/_rels\/.*\.rels$/.test(n))
+      .map((n) => zip.file(n)!.async('string')));
+    expect(layoutRels.join('\n')).toContain('Target="../media/DREAM_CONTENT-image-1.png"');
+    expect(layoutRels.join('\n')).toContain('Target="../media/DREAM_TITLE-image-1.png"');
+  });
+});
@@ -0,0 +1,201 @@
+// @vitest-environment node
+
+/**
+ * Unit Tests: Programme trends
+ *
+ * Runs in a programme are compared oldest first: lens maturity series,
+ * constraint persistence across re-worded titles, sentiment index, roadmap
+ * initiative status, and "what changed since last time" for the report.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    programme: { create: vi.fn(), findFirst: vi.fn(), update: vi.fn(), deleteMany: vi.fn() },
+    workshop: { updateMany: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }));
+
+import type { HemisphereDiagnostic } from '@/lib/types/hemisphere-diagnostic';
+import type { ProgrammeRun } from '@/lib/programmes/types';
+import {
+  buildConstraintPersistence,
+  buildInitiativeTrends,
+  buildLensMaturityTrends,
+  buildProgrammeTrends,
+  buildWhatChanged,
+} from '@/lib/programmes/trends';
+import { ProgrammeError, createProgramme, updateProgramme } from '@/lib/programmes/store';
+
+function diagnostic(
+  lenses: Record<string, number>,
+  sentiment: { creative: number; constraint: number; balance: HemisphereDiagnostic['sentimentIndex']['balanceLabel'] },
+): HemisphereDiagnostic {
+  return {
+    workshopId: 'w',
+    generatedAt: '2026-01-01T00:00:00.000Z',
+    snapshotId: null,
+    nodeCount: 10,
+    edgeCount: 5,
+    sentimentIndex: {
+      domains: [],
+      overallCreative: sentiment.creative,
+      overallConstraint: sentiment.constraint,
+      balanceLabel: sentiment.balance,
+    },
+    biasDetection: {
+      contributionBalance: [],
+      giniCoefficient: 0.2,
+      dominantVoice: null,
+      sentimentByLayer: [],
+      languageIntensity: [],
+      overallBiasLevel: 'low',
+    },
+    balanceSafeguard: { flags: [], overallBalance: 70, diagnosis: '' },
+    multiLens: {
+      lenses: Object.entries(lenses).map(([lens, score]) => ({ lens, score, evidence: [], concern: null })),
+    },
+  } as unknown as HemisphereDiagnostic;
+}
+
+function run(id: string, partial: Partial<ProgrammeRun>): ProgrammeRun {
+  return {
+    workshopId: id,
+    workshopName: `Workshop ${id}`,
+    runDate: '2026-01-01T00:00:00.000Z',
+    diagnostic: null,
+    constraints: [],
+    initiatives: [],
+    ...partial,
+  };
+}
+
+const baseline = run('w1', {
+  runDate: '2026-01-10T00:00:00.000Z',
+  diagnostic: diagnostic({ People: 40, Technology: 55 }, { creative: 30, constraint: 50, balance: 'defensive' }),
+  constraints: [
+    { title: 'Legacy CRM system fragmentation', severity: 'critical' },
+    { title: 'Siloed decision making across regions', severity: 'significant' },
+  ],
+  initiatives: [
+    { title: 'Unified agent desktop rollout', phase: 'Phase 1 — Immediate Enablement' },
+    { title: 'Knowledge base refresh', phase: 'Phase 1 — Immediate Enablement' },
+  ],
+});
+
+const followUp = run('w2', {
+  runDate: '2026-05-10T00:00:00.000Z',
+  diagnostic: diagnostic({ People: 52, Technology: 54, Customer: 61 }, { creative: 45, constraint: 35, balance: 'aligned' }),
+  constraints: [
+    { title: 'Fragmentation of the legacy CRM system', severity: 'significant' },
+    { title: 'Budget approval delays', severity: 'moderate' },
+  ],
+  initiatives: [
+    { title: 'Unified agent desktop rollout', phase: 'Phase 2 — Structural Transformation' },
+    { title: 'Predictive demand forecasting', phase: 'Phase 3 — Advanced Automation' },
+  ],
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('programme trends', () => {
+  it('builds lens maturity series with change from first to last scored run', () => {
+    const trends = buildLensMaturityTrends([baseline, followUp]);
+    const people = trends.find((t) => t.lens === 'People');
+    const customer = trends.find((t) => t.lens === 'Customer');
+
+    expect(people).toEqual({ lens: 'People', scores: [40, 52], change: 12 });
+    expect(customer).toEqual({ lens: 'Customer', scores: [null, 61], change: null });
+  });
+
+  it('matches re-worded constraints across runs and classifies persistence', () => {
+    const third = run('w3', {
+      constraints: [{ title: 'Siloed regional decision making', severity: 'moderate' }],
+    });
+    const persistence = buildConstraintPersistence([baseline, followUp, third]);
+    const byStatus = Object.fromEntries(persistence.map((c) => [c.title, c.status]));
+
+    expect(byStatus['Fragmentation of the legacy CRM system']).toBe('resolved');
+    expect(byStatus['Budget approval delays']).toBe('resolved');
+    expect(byStatus['Siloed regional decision making']).toBe('recurring');
+
+    const crm = persistence.find((c) => c.title === 'Fragmentation of the legacy CRM system')!;
+    expect(crm.present).toEqual([true, true, false]);
+    expect(crm.severities).toEqual(['critical', 'significant', null]);
+  });
+
+  it('tracks initiative status run over run', () => {
+    const statuses = Object.fromEntries(
+      buildInitiativeTrends([baseline, followUp]).map((t) => [t.title, t.statuses]),
+    );
+
+    expect(statuses['Unified agent desktop rollout']).toEqual(['new', 'carried']);
+    expect(statuses['Knowledge base refresh']).toEqual(['new', 'dropped']);
+    expect(statuses['Predictive demand forecasting']).toEqual(['absent', 'new']);
+  });
+
+  it('reports the sentiment index per run, with nulls where no diagnostic exists', () => {
+    const trends = buildProgrammeTrends([baseline, run('w2', {})]);
+
+    expect(trends.sentiment).toEqual([
+      { workshopId: 'w1', overallCreative: 30, overallConstraint: 50, balanceLabel: 'defensive' },
+      { workshopId: 'w2', overallCreative: null, overallConstraint: null, balanceLabel: null },
+    ]);
+    expect(trends.runs.map((r) => r.workshopId)).toEqual(['w1', 'w2']);
+  });
+});
+
+describe('what changed since last time', () => {
+  it('summarises movement between consecutive runs', () => {
+    const changed = buildWhatChanged(baseline, followUp);
+
+    expect(changed.lensChanges[0]).toEqual({ lens: 'People', before: 40, after: 52, delta: 12 });
+    expect(changed.constraints.persisting.map((c) => c.title)).toEqual(['Fragmentation of the legacy CRM system']);
+    expect(changed.constraints.resolved.map((c) => c.title)).toEqual(['Siloed decision making across regions']);
+    expect(changed.constraints.emerged.map((c) => c.title)).toEqual(['Budget approval delays']);
+    expect(changed.initiatives.dropped.map((i) => i.title)).toEqual(['Knowledge base refresh']);
+    expect(changed.sentimentDelta?.overallConstraintDelta).toBe(-15);
+
+    expect(changed.headlines).toContain('People maturity up 12 points (40 → 52).');
+    expect(changed.headlines).toContain('Constraint density down 15 points; balance moved from defensive to aligned.');
+  });
+
+  it('omits the sentiment comparison when either run has no diagnostic', () => {
+    const changed = buildWhatChanged(run('a', {}), followUp);
+    expect(changed.sentimentDelta).toBeNull();
+    expect(changed.lensChanges.every((c) => c.before === null)).toBe(true);
+  });
+});
+
+describe('programme store', () => {
+  it('rejects workshops outside the organisation', async () => {
+    mockPrisma.programme.create.mockResolvedValue({ id: 'p1' });
+    mockPrisma.workshop.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(
+      createProgramme({ organizationId: 'org1', userId: 'u1', name: 'Renewal', workshopIds: ['w1', 'w2'] }),
+    ).rejects.toBeInstanceOf(ProgrammeError);
+    expect(mockPrisma.workshop.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['w1', 'w2'] }, organizationId: 'org1' },
+      data: { programmeId: 'p1' },
+    });
+  });
+
+  it('only unlinks workshops that belong to the programme', async () => {
+    mockPrisma.programme.findFirst.mockResolvedValue({ id: 'p1', workshops: [{ id: 'w1' }] });
+    mockPrisma.workshop.updateMany.mockResolvedValue({ count: 1 });
+
+    await updateProgramme({ organizationId: 'org1', programmeId: 'p1', removeWorkshopIds: ['w1', 'w9'] });
+
+    expect(mockPrisma.workshop.updateMany).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.workshop.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['w1'] }, organizationId: 'org1' },
+      data: { programmeId: null },
+    });
+  });
+});
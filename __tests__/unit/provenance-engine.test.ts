@@ -0,0 +1,127 @@
+// @vitest-environment node
+
+/**
+ * Unit Tests: Evidence provenance
+ *
+ * Generated claims are traced back to participant quotes, findings, evidence
+ * document pages and historical metrics; the HTML report numbers each cited
+ * source once and lists it at the foot of the section that first cites it.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { WorkshopOutputIntelligence, ProvenanceSource, ReportSectionConfig } from '@/lib/output-intelligence/types';
+import {
+  buildProvenanceGraph,
+  claimSources,
+  findProvenanceClaim,
+  sourceAttribution,
+  type ProvenanceCandidate,
+} from '@/lib/output-intelligence/engines/provenance-engine';
+import { createReportFootnotes, renderRootCauses } from '@/lib/report/html-renderers';
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+function candidate(source: Partial<ProvenanceSource> & Pick<ProvenanceSource, 'sourceId' | 'kind' | 'excerpt'>, matchText?: string): ProvenanceCandidate {
+  return {
+    source: { recordId: source.sourceId.split(':')[1], title: null, ...source },
+    matchText: matchText ?? source.excerpt,
+  };
+}
+
+const CANDIDATES: ProvenanceCandidate[] = [
+  candidate({ sourceId: 'insight:i1', kind: 'participant_quote', excerpt: 'I retype every customer record from the legacy CRM by hand', participantRole: 'Team Leader', lens: 'Technology' }),
+  candidate({ sourceId: 'datapoint:d1', kind: 'participant_quote', excerpt: 'I retype every customer record from the legacy CRM by hand', participantRole: 'Agent' }),
+  candidate({ sourceId: 'insight:i2', kind: 'participant_quote', excerpt: 'The canteen coffee is terrible', participantRole: 'Agent' }),
+  candidate(
+    { sourceId: 'evidence:doc1:f1', kind: 'evidence_document', excerpt: '38% of handle time is spent on manual CRM re-keying', title: 'Ops review.pdf', locator: '4' },
+    'Manual CRM re-keying consumes agent time\n38% of handle time is spent on manual CRM re-keying',
+  ),
+  candidate({ sourceId: 'metric:aht', kind: 'metric', excerpt: '6m 12s in Aug 2024', title: 'Average Handle Time', locator: 'Jan 2023 – Aug 2024' }, 'Average Handle Time'),
+];
+
+const intelligence = {
+  discoveryValidation: { confirmedIssues: [], newIssues: [], reducedIssues: [], hypothesisAccuracy: null, summary: '' },
+  rootCause: {
+    rootCauses: [
+      { rank: 1, cause: 'Legacy CRM forces manual re-keying', category: 'Technology', journeyStages: [], affectedLenses: [], evidence: ['Staff retype customer records from the legacy CRM'], severity: 'critical' },
+      { rank: 2, cause: 'Unclear strategic intent', category: 'Leadership', journeyStages: [], affectedLenses: [], evidence: ['Vision statements differ by division'], severity: 'moderate' },
+    ],
+    systemicPattern: '',
+    frictionMap: [],
+  },
+  strategicImpact: {
+    automationPotential: null, aiAssistedWork: null, humanOnlyWork: null,
+    efficiencyGains: [{ metric: 'AHT reduction', estimated: '15-20%', basis: 'Removing CRM re-keying from every call' }],
+    experienceImprovements: [],
+    businessCaseSummary: '',
+    confidenceScore: null,
+  },
+} as unknown as WorkshopOutputIntelligence;
+
+const cfg: ReportSectionConfig = { id: 'root_causes', type: 'builtin', title: 'Root Causes', enabled: true, collapsed: false, excludedItems: [] };
+
+// ── buildProvenanceGraph ─────────────────────────────────────────────────────
+
+describe('buildProvenanceGraph', () => {
+  const graph = buildProvenanceGraph(intelligence, CANDIDATES, 1_700_000_000_000);
+
+  it('cites a quote and a document page for a claim, skipping duplicate wording', () => {
+    const claim = findProvenanceClaim(graph, 'root_cause', 'Legacy CRM forces manual re-keying');
+    const cited = claimSources(graph, claim).map(({ source }) => source.sourceId);
+
+    expect(cited).toContain('insight:i1');
+    expect(cited).toContain('evidence:doc1:f1');
+    expect(cited).not.toContain('datapoint:d1');
+    expect(cited).not.toContain('insight:i2');
+  });
+
+  it('cites a metric the claim names by acronym', () => {
+    const claim = findProvenanceClaim(graph, 'efficiency_gain', 'AHT reduction: 15-20%');
+    expect(claim?.citations[0]).toMatchObject({ sourceId: 'metric:aht', strength: 1, via: 'AHT reduction: 15-20%' });
+  });
+
+  it('leaves unsupported claims uncited and stores only cited sources', () => {
+    expect(findProvenanceClaim(graph, 'root_cause', 'Unclear strategic intent')?.citations).toEqual([]);
+    expect(graph.sources.map((s) => s.sourceId).sort()).toEqual(['evidence:doc1:f1', 'insight:i1', 'metric:aht']);
+    expect(graph.builtAtMs).toBe(1_700_000_000_000);
+  });
+
+  it('attributes sources by role, document page and metric period', () => {
+    const byId = new Map(graph.sources.map((s) => [s.sourceId, s]));
+    expect(sourceAttribution(byId.get('insight:i1')!)).toBe('Team Leader · Technology');
+    expect(sourceAttribution(byId.get('evidence:doc1:f1')!)).toBe('Ops review.pdf, p. 4');
+    expect(sourceAttribution(byId.get('metric:aht')!)).toBe('Average Handle Time (historical data), Jan 2023 – Aug 2024');
+  });
+});
+
+// ── Report footnotes ─────────────────────────────────────────────────────────
+
+describe('createReportFootnotes', () => {
+  const withProvenance = { ...intelligence, provenance: buildProvenanceGraph(intelligence, CANDIDATES) };
+
+  it('numbers sources once across sections and lists them where first cited', () => {
+    const notes = createReportFootnotes(withProvenance.provenance);
+    const first = notes.cite('root_cause', 'Legacy CRM forces manual re-keying');
+    const firstNotes = notes.flush();
+    const again = notes.cite('root_cause', 'Legacy CRM forces manual re-keying');
+
+    expect(first).toMatch(/^<sup class="fn-ref">1,2<\/sup>$/);
+    expect(firstNotes).toContain('<li value="1">');
+    expect(firstNotes).toContain('“I retype every customer record from the legacy CRM by hand”');
+    expect(again).toBe(first);
+    expect(notes.flush()).toBe('');
+  });
+
+  it('renders marks and notes in the root causes section', () => {
+    const html = renderRootCauses(withProvenance, cfg);
+    expect(html).toContain('Legacy CRM forces manual re-keying<sup class="fn-ref">');
+    expect(html).toContain('<ol class="footnotes">');
+    expect(html).toContain('Ops review.pdf, p. 4');
+  });
+
+  it('renders no footnotes for intelligence without provenance', () => {
+    const html = renderRootCauses(intelligence, cfg);
+    expect(html).not.toContain('fn-ref');
+    expect(html).not.toContain('footnotes');
+  });
+});
@@ -0,0 +1,251 @@
+// @vitest-environment node
+
+/**
+ * Unit Tests: Public REST API (/api/v1)
+ *
+ * API key authentication and scopes, the per-key rate limit, the generated
+ * OpenAPI document, bulk participant loading and organisation scoping of
+ * workshop outputs.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest, NextResponse } from 'next/server';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    apiKey: { findUnique: vi.fn(), update: vi.fn() },
+    workshop: { findFirst: vi.fn(), findUnique: vi.fn() },
+    workshopScratchpad: { findUnique: vi.fn() },
+    workshopParticipant: { findMany: vi.fn(), create: vi.fn() },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }));
+
+import { _resetForTesting } from '@/lib/rate-limit';
+import { ApiError, authenticateApiKey, generateApiKey, hashApiKey } from '@/lib/public-api/keys';
+import { handleApiRequest } from '@/lib/public-api/handler';
+import { buildOpenApiDocument } from '@/lib/public-api/openapi';
+import { bulkAddApiParticipants } from '@/lib/public-api/workshops';
+import { GET as getOutputs } from '@/app/api/v1/workshops/[id]/outputs/route';
+
+const { key: KEY, keyHash: KEY_HASH } = generateApiKey();
+
+function apiKeyRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'key-1',
+    organizationId: 'org-1',
+    actingUserId: 'user-1',
+    scopes: ['workshops:read', 'outputs:read'],
+    expiresAt: null,
+    revokedAt: null,
+    actingUser: { isActive: true, role: 'TENANT_ADMIN', organizationId: 'org-1' },
+    ...overrides,
+  };
+}
+
+function apiRequest(path: string, headers: Record<string, string> = { authorization: `Bearer ${KEY}` }) {
+  return new NextRequest(`http://localhost/api/v1${path}`, { headers });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  _resetForTesting();
+  mockPrisma.apiKey.findUnique.mockImplementation(async ({ where }) =>
+    where.keyHash === KEY_HASH ? apiKeyRow() : null,
+  );
+  mockPrisma.apiKey.update.mockResolvedValue({});
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('API key authentication', () => {
+  it('stores only the hash and keeps a display prefix', () => {
+    const { key, keyPrefix, keyHash } = generateApiKey();
+    expect(key).toMatch(/^dk_live_/);
+    expect(key.startsWith(keyPrefix)).toBe(true);
+    expect(keyPrefix.length).toBeLessThan(key.length);
+    expect(keyHash).toBe(hashApiKey(key));
+    expect(keyHash).not.toContain(key);
+  });
+
+  it('accepts the key as a bearer token or X-API-Key and returns the principal', async () => {
+    const viaBearer = await authenticateApiKey(apiRequest('/workshops'), 'workshops:read');
+    expect(viaBearer).toEqual({
+      keyId: 'key-1',
+      organizationId: 'org-1',
+      actingUserId: 'user-1',
+      scopes: ['workshops:read', 'outputs:read'],
+    });
+    await expect(authenticateApiKey(apiRequest('/workshops', { 'x-api-key': KEY }), 'workshops:read'))
+      .resolves.toMatchObject({ keyId: 'key-1' });
+    expect(mockPrisma.apiKey.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'key-1' } }));
+  });
+
+  it('401s missing, unknown, revoked and expired keys', async () => {
+    await expect(authenticateApiKey(apiRequest('/workshops', {}), 'workshops:read')).rejects.toMatchObject({ status: 401 });
+    await expect(authenticateApiKey(apiRequest('/workshops', { authorization: 'Bearer dk_live_nope' }), 'workshops:read'))
+      .rejects.toMatchObject({ status: 401 });
+
+    mockPrisma.apiKey.findUnique.mockResolvedValue(apiKeyRow({ revokedAt: new Date() }));
+    await expect(authenticateApiKey(apiRequest('/workshops'), 'workshops:read')).rejects.toMatchObject({ status: 401 });
+
+    mockPrisma.apiKey.findUnique.mockResolvedValue(apiKeyRow({ expiresAt: new Date(Date.now() - 1000) }));
+    await expect(authenticateApiKey(apiRequest('/workshops'), 'workshops:read')).rejects.toMatchObject({ status: 401 });
+  });
+
+  it('401s keys whose acting user is deactivated, demoted or has left the organisation', async () => {
+    for (const actingUser of [
+      { isActive: false, role: 'TENANT_ADMIN', organizationId: 'org-1' },
+      { isActive: true, role: 'TENANT_USER', organizationId: 'org-1' },
+      { isActive: true, role: 'TENANT_ADMIN', organizationId: 'org-2' },
+    ]) {
+      mockPrisma.apiKey.findUnique.mockResolvedValue(apiKeyRow({ actingUser }));
+      await expect(authenticateApiKey(apiRequest('/workshops'), 'workshops:read')).rejects.toMatchObject({ status: 401 });
+    }
+    expect(mockPrisma.apiKey.update).not.toHaveBeenCalled();
+  });
+
+  it('403s a scope the key was not granted', async () => {
+    await expect(authenticateApiKey(apiRequest('/workshops'), 'participants:write'))
+      .rejects.toEqual(new ApiError('API key lacks the participants:write scope', 403));
+  });
+});
+
+describe('request handling', () => {
+  it('rate-limits per key and reports the budget in headers', async () => {
+    vi.stubEnv('PUBLIC_API_RATE_LIMIT', '2');
+    const action = vi.fn(async () => NextResponse.json({ ok: true }));
+
+    const first = await handleApiRequest(apiRequest('/workshops'), 'workshops:read', action);
+    expect(first.status).toBe(200);
+    expect(first.headers.get('X-RateLimit-Limit')).toBe('2');
+    expect(first.headers.get('X-RateLimit-Remaining')).toBe('1');
+
+    await handleApiRequest(apiRequest('/workshops'), 'workshops:read', action);
+    const limited = await handleApiRequest(apiRequest('/workshops'), 'workshops:read', action);
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect(action).toHaveBeenCalledTimes(2);
+  });
+
+  it('turns ApiErrors into JSON errors and hides unexpected ones', async () => {
+    const notFound = await handleApiRequest(apiRequest('/workshops'), 'workshops:read', async () => {
+      throw new ApiError('Workshop not found', 404);
+    });
+    expect(notFound.status).toBe(404);
+    expect(await notFound.json()).toEqual({ error: 'Workshop not found' });
+    expect(notFound.headers.get('X-RateLimit-Limit')).not.toBeNull();
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const crashed = await handleApiRequest(apiRequest('/workshops'), 'workshops:read', async () => {
+      throw new Error('connection reset');
+    });
+    expect(crashed.status).toBe(500);
+    expect(await crashed.json()).toEqual({ error: 'Internal error' });
+  });
+});
+
+describe('OpenAPI document', () => {
+  it('documents every operation with its scope and the request bodies from the zod schemas', () => {
+    const doc = buildOpenApiDocument('https://dream.example.com/') as any;
+
+    expect(doc.openapi).toBe('3.1.0');
+    expect(doc.servers).toEqual([{ url: 'https://dream.example.com/api/v1' }]);
+    expect(Object.keys(doc.paths)).toEqual([
+      '/workshops',
+      '/workshops/{workshopId}',
+      '/workshops/{workshopId}/participants',
+      '/workshops/{workshopId}/outputs',
+      '/workshops/{workshopId}/evidence',
+    ]);
+    expect(doc.paths['/workshops'].post.security).toEqual([{ apiKey: ['workshops:write'] }]);
+    expect(doc.paths['/workshops/{workshopId}/outputs'].get['x-required-scope']).toBe('outputs:read');
+
+    const createWorkshop = doc.components.schemas.CreateWorkshop;
+    expect(createWorkshop.required).toEqual(['name']);
+    expect(createWorkshop.properties.workshopType.enum).toContain('STRATEGY');
+    const participants = doc.components.schemas.BulkCreateParticipants.properties.participants;
+    expect(participants.maxItems).toBe(500);
+    expect(participants.items.required).toEqual(['name', 'email']);
+  });
+});
+
+describe('bulk participants', () => {
+  it('creates new participants in one transaction and skips duplicate emails', async () => {
+    mockPrisma.workshopParticipant.findMany.mockResolvedValue([{ email: 'ana@example.com' }]);
+    mockPrisma.workshopParticipant.create.mockImplementation(({ data }) => ({
+      id: `p-${data.email}`,
+      name: data.name,
+      email: data.email,
+      role: data.role,
+      department: data.department,
+      discoveryToken: `tok-${data.name}`,
+      responseCompletedAt: null,
+      createdAt: new Date('2026-10-01T00:00:00Z'),
+    }));
+    mockPrisma.$transaction.mockImplementation(async (ops: unknown[]) => ops);
+
+    const result = await bulkAddApiParticipants('ws-1', [
+      { name: 'Ana', email: 'ANA@example.com' },
+      { name: 'Ben', email: 'ben@example.com', role: 'Ops Lead' },
+      { name: 'Ben again', email: 'ben@example.com' },
+    ]);
+
+    expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.workshopParticipant.create).toHaveBeenCalledTimes(1);
+    expect(result.created).toEqual([expect.objectContaining({
+      id: 'p-ben@example.com',
+      role: 'Ops Lead',
+      discoveryUrl: expect.stringMatching(/\/discovery\/ws-1\/tok-Ben$/),
+    })]);
+    expect(result.created[0]).not.toHaveProperty('discoveryToken');
+    expect(result.skipped).toEqual([
+      { email: 'ANA@example.com', reason: 'duplicate' },
+      { email: 'ben@example.com', reason: 'duplicate' },
+    ]);
+  });
+});
+
+describe('GET /api/v1/workshops/[id]/outputs', () => {
+  const params = { params: Promise.resolve({ id: 'ws-1' }) };
+
+  it('404s workshops of other organisations', async () => {
+    mockPrisma.workshop.findFirst.mockResolvedValue(null);
+    const res = await getOutputs(apiRequest('/workshops/ws-1/outputs'), params);
+
+    expect(res.status).toBe(404);
+    expect(mockPrisma.workshop.findFirst).toHaveBeenCalledWith({
+      where: { id: 'ws-1', organizationId: 'org-1' },
+      select: { id: true },
+    });
+  });
+
+  it('returns outputs with anonymous participants redacted', async () => {
+    mockPrisma.workshop.findFirst.mockResolvedValue({ id: 'ws-1' });
+    mockPrisma.workshop.findUnique.mockResolvedValue({
+      outputIntelligence: { summary: 'Dana Reyes raised handover delays' },
+    });
+    mockPrisma.workshopScratchpad.findUnique.mockResolvedValue({
+      v2Output: { discover: { truths: ['Contact dana@example.com for data'] } },
+      status: 'PUBLISHED',
+      publishedAt: null,
+      updatedAt: new Date('2026-10-01T00:00:00Z'),
+    });
+    mockPrisma.workshopParticipant.findMany.mockResolvedValue([{
+      id: 'p-1', name: 'Dana Reyes', email: 'dana@example.com', role: 'Agent', department: null,
+      attributionPreference: 'ANONYMOUS',
+    }]);
+
+    const res = await getOutputs(apiRequest('/workshops/ws-1/outputs'), params);
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(JSON.stringify(body)).not.toContain('Dana Reyes');
+    expect(JSON.stringify(body)).not.toContain('dana@example.com');
+    expect(body.scratchpad.status).toBe('PUBLISHED');
+  });
+});
@@ -0,0 +1,268 @@
+// @vitest-environment node
+
+/**
+ * Realtime event bus.
+ *
+ * Covers durable publish (outbox seq on the event), ephemeral publish,
+ * echo de-duplication in the local fan-out, the settled-row cursor, and
+ * resumable SSE: replay from Last-Event-ID, buffering of live events during
+ * replay, and the `id:` line carrying the outbox seq only up to the settled
+ * cursor.
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+vi.mock('@/lib/env', () => ({
+  env: { DATABASE_URL: 'postgresql://test', NEXT_PUBLIC_APP_URL: 'http://localhost:3000' },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+const outbox = vi.hoisted(() => ({
+  appendOutboxEvent: vi.fn(),
+  readOutboxEvents: vi.fn(),
+  latestOutboxSeq: vi.fn(),
+  readOutboxEvent: vi.fn(),
+}));
+vi.mock('@/lib/realtime/outbox', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/realtime/outbox')>()),
+  ...outbox,
+}));
+
+import {
+  publishRealtimeEvent,
+  setRealtimeBus,
+  subscribeRealtimeEvents,
+  type RealtimeBusEvent,
+} from '@/lib/realtime/event-bus';
+import { LocalFanout, MemoryRealtimeBus } from '@/lib/realtime/backends/memory-bus';
+import { createRealtimeEventStream, readLastEventId } from '@/lib/realtime/sse';
+import { OUTBOX_SETTLE_MS, settledOutboxCursor } from '@/lib/realtime/outbox';
+
+function event(overrides: Partial<RealtimeBusEvent> = {}): RealtimeBusEvent {
+  return {
+    id: 'evt-1',
+    seq: 1,
+    stream: 'workshop',
+    workshopId: 'ws-1',
+    type: 'pad.generated',
+    createdAt: 0,
+    payload: {},
+    ...overrides,
+  };
+}
+
+/** Read SSE frames until `count` events (excluding open) have arrived. */
+async function readFrames(stream: ReadableStream<Uint8Array>, count: number): Promise<string[]> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  const frames = () => text.split('\n\n').filter((f) => f.includes('event: ') && !f.includes('event: open'));
+  while (frames().length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value);
+  }
+  reader.releaseLock();
+  return frames();
+}
+
+beforeEach(() => {
+  setRealtimeBus(new MemoryRealtimeBus());
+  outbox.appendOutboxEvent.mockResolvedValue({ seq: 42, createdAt: 1_000 });
+  outbox.readOutboxEvents.mockResolvedValue([]);
+  outbox.latestOutboxSeq.mockResolvedValue(0);
+});
+
+afterEach(() => {
+  setRealtimeBus(null);
+});
+
+describe('publishRealtimeEvent', () => {
+  it('persists durable events and publishes them with their outbox seq', async () => {
+    const received: RealtimeBusEvent[] = [];
+    subscribeRealtimeEvents('workshop', 'ws-1', (e) => received.push(e));
+
+    await publishRealtimeEvent('workshop', 'ws-1', { type: 'pad.generated', payload: { pad: 1 } });
+
+    expect(outbox.appendOutboxEvent).toHaveBeenCalledOnce();
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ seq: 42, createdAt: 1_000, type: 'pad.generated', workshopId: 'ws-1' });
+  });
+
+  it('delivers ephemeral events synchronously without touching the outbox', () => {
+    const received: RealtimeBusEvent[] = [];
+    subscribeRealtimeEvents('workshop', 'ws-1', (e) => received.push(e));
+
+    void publishRealtimeEvent('workshop', 'ws-1', { type: 'annotation.updated', payload: {} }, { durable: false });
+
+    expect(received).toHaveLength(1);
+    expect(received[0].seq).toBeNull();
+    expect(outbox.appendOutboxEvent).not.toHaveBeenCalled();
+  });
+
+  it('still publishes when the outbox write fails', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    outbox.appendOutboxEvent.mockRejectedValueOnce(new Error('db down'));
+    const received: RealtimeBusEvent[] = [];
+    subscribeRealtimeEvents('workshop', 'ws-1', (e) => received.push(e));
+
+    await publishRealtimeEvent('workshop', 'ws-1', { type: 'pad.generated', payload: {} });
+
+    expect(received).toHaveLength(1);
+    expect(received[0].seq).toBeNull();
+    error.mockRestore();
+  });
+
+  it('keeps workshop and sales streams apart', async () => {
+    const sales: RealtimeBusEvent[] = [];
+    subscribeRealtimeEvents('sales', 'ws-1', (e) => sales.push(e));
+
+    await publishRealtimeEvent('workshop', 'ws-1', { type: 'pad.generated', payload: {} });
+    await publishRealtimeEvent('sales', 'ws-1', { type: 'transcript.new', payload: {} });
+
+    expect(sales.map((e) => e.type)).toEqual(['transcript.new']);
+  });
+});
+
+describe('LocalFanout', () => {
+  it('drops the echo of an event it already delivered', () => {
+    const fanout = new LocalFanout();
+    const listener = vi.fn();
+    fanout.add('workshop:ws-1', listener);
+
+    fanout.emit(event());
+    fanout.emit(event()); // echo from Postgres / Redis
+
+    expect(listener).toHaveBeenCalledOnce();
+  });
+});
+
+describe('settledOutboxCursor', () => {
+  it('advances only past rows older than the settle window', () => {
+    const now = 100_000;
+    const settled = now - OUTBOX_SETTLE_MS;
+    const rows = [
+      { seq: 11, createdAt: settled - 1 },
+      { seq: 12, createdAt: settled },
+      { seq: 13, createdAt: now - 10 },
+    ];
+
+    expect(settledOutboxCursor(rows, 10, now)).toBe(12);
+    expect(settledOutboxCursor(rows.slice(2), 10, now)).toBe(10);
+    expect(settledOutboxCursor([], 10, now)).toBe(10);
+  });
+});
+
+describe('readLastEventId', () => {
+  it('prefers the Last-Event-ID header and falls back to the query string', () => {
+    expect(readLastEventId(new Request('http://x/events', { headers: { 'Last-Event-ID': '17' } }))).toBe(17);
+    expect(readLastEventId(new Request('http://x/events?lastEventId=9'))).toBe(9);
+    expect(readLastEventId(new Request('http://x/events?lastEventId=abc'))).toBeNull();
+    expect(readLastEventId(new Request('http://x/events'))).toBeNull();
+  });
+});
+
+describe('createRealtimeEventStream', () => {
+  it('replays the outbox after Last-Event-ID, then goes live without duplicates', async () => {
+    const controller = new AbortController();
+    let releaseReplay!: () => void;
+    outbox.readOutboxEvents.mockImplementationOnce(async () => {
+      // A live event lands while the replay query is in flight.
+      await publishRealtimeEvent('workshop', 'ws-1', { id: 'evt-12', type: 'pad.generated', payload: {} }, { durable: false });
+      await new Promise<void>((r) => (releaseReplay = r));
+      return [event({ id: 'evt-11', seq: 11 }), event({ id: 'evt-12', seq: 12 })];
+    });
+
+    const stream = createRealtimeEventStream({
+      stream: 'workshop',
+      workshopId: 'ws-1',
+      lastEventId: 10,
+      signal: controller.signal,
+    });
+    const framesPromise = readFrames(stream, 3);
+    await vi.waitFor(() => expect(releaseReplay).toBeTypeOf('function'));
+    releaseReplay();
+    await vi.waitFor(() => expect(outbox.readOutboxEvents).toHaveBeenCalled());
+
+    await publishRealtimeEvent('workshop', 'ws-1', { id: 'evt-13', type: 'pad.generated', payload: {} });
+    const frames = await framesPromise;
+    controller.abort();
+
+    expect(outbox.readOutboxEvents).toHaveBeenCalledWith(expect.objectContaining({ afterSeq: 10 }));
+    expect(frames).toHaveLength(3);
+    expect(frames[0]).toContain('id: 11');
+    expect(frames[1]).toContain('id: 12');
+    // Live events are not settled yet, so they carry no id.
+    expect(frames[2]).not.toContain('id: 42');
+    expect(frames[2]).toContain('"id":"evt-13"');
+  });
+
+  it('does not announce an unsettled replayed row as Last-Event-ID', async () => {
+    const controller = new AbortController();
+    outbox.readOutboxEvents.mockResolvedValueOnce([
+      event({ id: 'evt-11', seq: 11 }),
+      event({ id: 'evt-12', seq: 12, createdAt: Date.now() }),
+    ]);
+
+    const stream = createRealtimeEventStream({ stream: 'workshop', workshopId: 'ws-1', lastEventId: 10, signal: controller.signal });
+    const frames = await readFrames(stream, 2);
+    controller.abort();
+
+    expect(frames[0]).toContain('id: 11');
+    expect(frames[1]).not.toMatch(/^id:/m);
+    expect(frames[1]).toContain('"id":"evt-12"');
+  });
+
+  describe('heartbeat catch-up', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('moves Last-Event-ID past live events once the cursor settles beyond them', async () => {
+      const controller = new AbortController();
+      const stream = createRealtimeEventStream({ stream: 'workshop', workshopId: 'ws-1', lastEventId: 10, signal: controller.signal });
+      const reader = stream.getReader();
+      const decoder = new TextDecoder();
+      let text = '';
+      const readUntil = async (fragment: string) => {
+        while (!text.includes(fragment)) text += decoder.decode((await reader.read()).value);
+      };
+
+      await vi.waitFor(() => expect(outbox.readOutboxEvents).toHaveBeenCalledOnce());
+      outbox.appendOutboxEvent.mockResolvedValueOnce({ seq: 11, createdAt: Date.now() });
+      await publishRealtimeEvent('workshop', 'ws-1', { id: 'evt-11', type: 'pad.generated', payload: {} });
+      await readUntil('"id":"evt-11"');
+      expect(text).not.toContain('id: 11');
+
+      outbox.readOutboxEvents.mockResolvedValueOnce([event({ id: 'evt-11', seq: 11 })]);
+      vi.advanceTimersByTime(15_000);
+      await readUntil('id: 11\n\n');
+      controller.abort();
+
+      // The id-only frame carries no data, so EventSource updates lastEventId without dispatching.
+      expect(text.match(/evt-11/g)).toHaveLength(1);
+    });
+
+    it('does not start a catch-up while the previous one is still reading', async () => {
+      const controller = new AbortController();
+      let release!: (rows: RealtimeBusEvent[]) => void;
+      outbox.readOutboxEvents.mockImplementationOnce(() => new Promise((r) => (release = r)));
+
+      createRealtimeEventStream({ stream: 'workshop', workshopId: 'ws-1', lastEventId: 10, signal: controller.signal });
+      await vi.waitFor(() => expect(release).toBeTypeOf('function'));
+      vi.advanceTimersByTime(45_000);
+      expect(outbox.readOutboxEvents).toHaveBeenCalledOnce();
+
+      release([]);
+      await new Promise((r) => setImmediate(r));
+      vi.advanceTimersByTime(15_000);
+      await vi.waitFor(() => expect(outbox.readOutboxEvents).toHaveBeenCalledTimes(2));
+      controller.abort();
+    });
+  });
+});
@@ -0,0 +1,377 @@
+// @vitest-environment node
+
+/**
+ * Unit Tests: Policy-driven retention engine
+ *
+ * Workshop, organisation and platform retention rules resolve per data type;
+ * tenant data without a rule is never touched; legal holds exempt data; dry
+ * runs report without changing anything; real runs delete or anonymise, are
+ * evidenced by chained certificates and advance in bounded batches.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const { mockPrisma, mockDeleteCaptureAudio, mockDeleteEvidenceFile } = vi.hoisted(() => {
+  const model = () => ({
+    count: vi.fn().mockResolvedValue(0),
+    findMany: vi.fn().mockResolvedValue([]),
+    findFirst: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn((args: unknown) => args),
+    updateMany: vi.fn((args: unknown) => args),
+    delete: vi.fn(),
+    deleteMany: vi.fn((args: unknown) => args),
+  });
+  return {
+    mockPrisma: {
+      workshop: model(),
+      organization: model(),
+      retentionPolicy: model(),
+      retentionCertificate: model(),
+      retentionRun: model(),
+      transcriptChunk: model(),
+      dataPoint: model(),
+      captureSegment: model(),
+      evidenceDocument: model(),
+      documentChunk: model(),
+      analyticsEvent: model(),
+      workshopEventOutbox: model(),
+      $transaction: vi.fn(async (ops: unknown[]) => ops),
+      $executeRaw: vi.fn(),
+    },
+    mockDeleteCaptureAudio: vi.fn(),
+    mockDeleteEvidenceFile: vi.fn(),
+  };
+});
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }));
+vi.mock('@/lib/storage', () => ({ deleteCaptureAudio: mockDeleteCaptureAudio }));
+vi.mock('@/lib/evidence/storage', () => ({ deleteEvidenceFile: mockDeleteEvidenceFile }));
+
+import {
+  RetentionPolicyError,
+  resolveEffectivePolicy,
+  upsertRetentionPolicy,
+} from '@/lib/compliance/retention-policies';
+import {
+  REDACTED,
+  advanceRetentionRun,
+  claimRetentionRun,
+  issueRetentionCertificates,
+  runRetentionEngine,
+  verifyRetentionCertificate,
+} from '@/lib/compliance/retention-engine';
+
+const NOW = new Date('2026-10-19T02:00:00Z');
+
+function workshop(id: string, organizationId: string, hold?: { workshop?: string; org?: string }) {
+  return {
+    id,
+    organizationId,
+    legalHoldAt: hold?.workshop ? NOW : null,
+    legalHoldReason: hold?.workshop ?? null,
+    organization: { legalHoldAt: hold?.org ? NOW : null, legalHoldReason: hold?.org ?? null },
+  };
+}
+
+function rule(organizationId: string, dataType: string, retentionDays = 730, action = 'delete', workshopId: string | null = null) {
+  return { organizationId, workshopId, dataType, retentionDays, action };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  delete process.env.RETENTION_TRANSCRIPT_CHUNKS_DAYS;
+  delete process.env.RETENTION_ANALYTICS_EVENTS_DAYS;
+  for (const m of ['transcriptChunk', 'captureSegment', 'evidenceDocument', 'documentChunk', 'analyticsEvent', 'workshopEventOutbox'] as const) {
+    mockPrisma[m].count.mockResolvedValue(0);
+    mockPrisma[m].findMany.mockResolvedValue([]);
+  }
+  mockPrisma.workshop.findMany.mockResolvedValue([]);
+  mockPrisma.retentionPolicy.findMany.mockResolvedValue([]);
+});
+
+describe('resolveEffectivePolicy', () => {
+  const rules = [
+    { workshopId: null, dataType: 'transcript_chunks', retentionDays: 365, action: 'anonymise' },
+    { workshopId: 'ws-1', dataType: 'transcript_chunks', retentionDays: 30, action: 'delete' },
+  ];
+
+  it('prefers the workshop rule, then the organisation rule', () => {
+    expect(resolveEffectivePolicy('transcript_chunks', rules, 'ws-1')).toMatchObject({ retentionDays: 30, action: 'delete', source: 'workshop' });
+    expect(resolveEffectivePolicy('transcript_chunks', rules, 'ws-2')).toMatchObject({ retentionDays: 365, action: 'anonymise', source: 'organization' });
+  });
+
+  it('leaves tenant data without a rule alone, even with a deployment default set', () => {
+    process.env.RETENTION_TRANSCRIPT_CHUNKS_DAYS = '90';
+    expect(resolveEffectivePolicy('document_chunks', rules, 'ws-1')).toBeNull();
+    expect(resolveEffectivePolicy('transcript_chunks', [], 'ws-1')).toBeNull();
+  });
+
+  it('reads platform defaults from RETENTION_<TYPE>_DAYS', () => {
+    expect(resolveEffectivePolicy('analytics_events', [], null)).toMatchObject({ retentionDays: 730, source: 'default' });
+    process.env.RETENTION_ANALYTICS_EVENTS_DAYS = '90';
+    expect(resolveEffectivePolicy('analytics_events', [], null)?.retentionDays).toBe(90);
+  });
+});
+
+describe('upsertRetentionPolicy', () => {
+  it('rejects platform-scoped data types and unsupported actions', async () => {
+    await expect(
+      upsertRetentionPolicy('org-1', { dataType: 'analytics_events', retentionDays: 30, action: 'delete' }),
+    ).rejects.toBeInstanceOf(RetentionPolicyError);
+    await expect(
+      upsertRetentionPolicy('org-1', { dataType: 'capture_audio', retentionDays: 30, action: 'anonymise' }),
+    ).rejects.toThrow('support: delete');
+  });
+
+  it('rejects a workshop from another organisation', async () => {
+    mockPrisma.workshop.findFirst.mockResolvedValue(null);
+    await expect(
+      upsertRetentionPolicy('org-1', { workshopId: 'ws-x', dataType: 'transcript_chunks', retentionDays: 30, action: 'delete' }),
+    ).rejects.toMatchObject({ status: 404 });
+  });
+});
+
+describe('runRetentionEngine', () => {
+  it('reports a dry run, including held workshops, without changing anything', async () => {
+    mockPrisma.workshop.findMany.mockResolvedValue([
+      workshop('ws-1', 'org-1'),
+      workshop('ws-2', 'org-2', { org: 'Litigation 2026-14' }),
+    ]);
+    mockPrisma.retentionPolicy.findMany.mockResolvedValue([rule('org-1', 'transcript_chunks'), rule('org-2', 'transcript_chunks')]);
+    mockPrisma.transcriptChunk.count.mockResolvedValue(12);
+
+    const result = await runRetentionEngine({ dryRun: true, now: NOW });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.entries).toHaveLength(2);
+    expect(result.entries[1]).toMatchObject({ workshopId: 'ws-2', held: true, holdReason: 'Litigation 2026-14', records: 12 });
+    expect(result.totals).toMatchObject({ records: 12, heldRecords: 12 });
+    expect(result.totals.byDataType.transcript_chunks).toBe(12);
+    expect(mockPrisma.transcriptChunk.deleteMany).not.toHaveBeenCalled();
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+
+    const cutoff = mockPrisma.transcriptChunk.count.mock.calls[0][0].where.createdAt.lt as Date;
+    expect(cutoff.toISOString()).toBe(new Date(NOW.getTime() - 730 * 86_400_000).toISOString());
+  });
+
+  it('deletes transcript chunks with their data points and skips held workshops', async () => {
+    mockPrisma.workshop.findMany.mockResolvedValue([
+      workshop('ws-1', 'org-1'),
+      workshop('ws-2', 'org-1', { workshop: 'Regulator request' }),
+    ]);
+    mockPrisma.retentionPolicy.findMany.mockResolvedValue([rule('org-1', 'transcript_chunks')]);
+    mockPrisma.transcriptChunk.count.mockResolvedValue(2);
+    mockPrisma.transcriptChunk.findMany.mockResolvedValueOnce([{ id: 'tc-1' }, { id: 'tc-2' }]);
+
+    const result = await runRetentionEngine({ now: NOW });
+
+    expect(mockPrisma.dataPoint.deleteMany).toHaveBeenCalledWith({ where: { transcriptChunkId: { in: ['tc-1', 'tc-2'] } } });
+    expect(mockPrisma.transcriptChunk.deleteMany).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.transcriptChunk.findMany.mock.calls[0][0].where).toMatchObject({ workshopId: 'ws-1' });
+    expect(result.entries[0]).toMatchObject({ workshopId: 'ws-1', records: 2, held: false });
+    expect(result.entries[0].recordDigest).toMatch(/^[0-9a-f]{64}$/);
+    expect(result.entries[1]).toMatchObject({ workshopId: 'ws-2', held: true, recordDigest: null });
+  });
+
+  it('anonymises instead of deleting when the policy says so', async () => {
+    mockPrisma.workshop.findMany.mockResolvedValue([workshop('ws-1', 'org-1')]);
+    mockPrisma.retentionPolicy.findMany.mockResolvedValue([rule('org-1', 'transcript_chunks', 30, 'anonymise')]);
+    mockPrisma.transcriptChunk.count.mockResolvedValue(1);
+    mockPrisma.transcriptChunk.findMany.mockResolvedValueOnce([{ id: 'tc-1' }]);
+
+    await runRetentionEngine({ now: NOW });
+
+    expect(mockPrisma.transcriptChunk.count.mock.calls[0][0].where.NOT).toEqual({ text: { startsWith: REDACTED } });
+    expect(mockPrisma.transcriptChunk.deleteMany).not.toHaveBeenCalled();
+    expect(mockPrisma.transcriptChunk.update).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'tc-1' }, data: expect.objectContaining({ text: `${REDACTED} tc-1`, speakerId: null }) }),
+    );
+    expect(mockPrisma.dataPoint.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { rawText: REDACTED, originalText: null, speakerId: null } }),
+    );
+  });
+
+  it('keeps an audio reference when the storage delete fails', async () => {
+    mockPrisma.workshop.findMany.mockResolvedValue([workshop('ws-1', 'org-1')]);
+    mockPrisma.retentionPolicy.findMany.mockResolvedValue([rule('org-1', 'capture_audio', 365)]);
+    mockPrisma.captureSegment.count.mockResolvedValue(2);
+    mockPrisma.captureSegment.findMany
+      .mockResolvedValueOnce([{ id: 'seg-1' }, { id: 'seg-2' }])
+      .mockResolvedValueOnce([
+        { id: 'seg-1', audioReference: 'ws-1/seg-1.webm' },
+        { id: 'seg-2', audioReference: 'ws-1/seg-2.webm' },
+      ]);
+    mockDeleteCaptureAudio.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('bucket offline'));
+
+    const result = await runRetentionEngine({ now: NOW });
+
+    expect(mockPrisma.captureSegment.updateMany).toHaveBeenCalledWith({ where: { id: { in: ['seg-1'] } }, data: { audioReference: null } });
+    expect(result.entries[0]).toMatchObject({ dataType: 'capture_audio', records: 1, storageObjects: 1 });
+    expect(result.errors).toEqual(['capture_audio seg-2: bucket offline']);
+  });
+
+  it('applies the platform policy to analytics events only on an unscoped run', async () => {
+    mockPrisma.analyticsEvent.count.mockResolvedValue(3);
+    mockPrisma.analyticsEvent.findMany.mockResolvedValueOnce([{ id: 'ev-1' }, { id: 'ev-2' }, { id: 'ev-3' }]);
+
+    const scoped = await runRetentionEngine({ dryRun: true, organizationId: 'org-1', now: NOW });
+    expect(scoped.entries).toHaveLength(0);
+
+    const result = await runRetentionEngine({ now: NOW });
+    expect(result.entries[0]).toMatchObject({ organizationId: null, dataType: 'analytics_events', records: 3 });
+    expect(mockPrisma.analyticsEvent.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['ev-1', 'ev-2', 'ev-3'] } } });
+  });
+
+  it('does not touch any workshop when no organisation has a policy', async () => {
+    mockPrisma.transcriptChunk.count.mockResolvedValue(40);
+
+    const result = await runRetentionEngine({ now: NOW });
+
+    expect(mockPrisma.workshop.findMany).not.toHaveBeenCalled();
+    expect(mockPrisma.transcriptChunk.count).not.toHaveBeenCalled();
+    expect(mockPrisma.dataPoint.deleteMany).not.toHaveBeenCalled();
+    expect(result.totals.byDataType.transcript_chunks).toBe(0);
+  });
+
+  it('only applies the data types an organisation has a policy for', async () => {
+    mockPrisma.workshop.findMany.mockResolvedValue([workshop('ws-1', 'org-1')]);
+    mockPrisma.retentionPolicy.findMany.mockResolvedValue([rule('org-1', 'document_chunks', 90)]);
+    mockPrisma.transcriptChunk.count.mockResolvedValue(5);
+
+    await runRetentionEngine({ dryRun: true, now: NOW });
+
+    expect(mockPrisma.workshop.findMany.mock.calls[0][0].where.organizationId).toEqual({ in: ['org-1'] });
+    expect(mockPrisma.documentChunk.count).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.transcriptChunk.count).not.toHaveBeenCalled();
+    expect(mockPrisma.captureSegment.count).not.toHaveBeenCalled();
+  });
+});
+
+describe('retention runs', () => {
+  const run = (overrides: Record<string, unknown> = {}) => ({
+    id: 'run-1',
+    status: 'running',
+    cursor: null,
+    recordsProcessed: 0,
+    entries: [],
+    startedAt: NOW,
+    updatedAt: NOW,
+    completedAt: null,
+    ...overrides,
+  });
+
+  it('resumes an unfinished run before starting a new one', async () => {
+    mockPrisma.retentionRun.findFirst.mockResolvedValueOnce(run({ cursor: 'ws-25' }));
+    expect(await claimRetentionRun(NOW)).toMatchObject({ run: { id: 'run-1', cursor: 'ws-25' }, started: false });
+    expect(mockPrisma.retentionRun.create).not.toHaveBeenCalled();
+  });
+
+  it('starts one run per day from 02:00 UTC', async () => {
+    mockPrisma.retentionRun.create.mockImplementation(async ({ data }: { data: Record<string, unknown> }) => run(data));
+
+    mockPrisma.retentionRun.findFirst.mockResolvedValueOnce(null).mockResolvedValueOnce({ startedAt: NOW });
+    expect(await claimRetentionRun(new Date('2026-10-20T01:45:00Z'))).toBeNull();
+
+    mockPrisma.retentionRun.findFirst.mockResolvedValueOnce(null).mockResolvedValueOnce({ startedAt: NOW });
+    const claim = await claimRetentionRun(new Date('2026-10-20T02:00:00Z'));
+    expect(claim).toMatchObject({ started: true });
+    expect(mockPrisma.retentionRun.create).toHaveBeenCalledWith({ data: { startedAt: new Date('2026-10-20T02:00:00Z') } });
+  });
+
+  it('advances a bounded batch of workshops and completes on the last one', async () => {
+    mockPrisma.retentionPolicy.findMany.mockResolvedValue([rule('org-1', 'transcript_chunks')]);
+    mockPrisma.workshop.findMany.mockResolvedValueOnce(
+      Array.from({ length: 25 }, (_, i) => workshop(`ws-${String(i).padStart(2, '0')}`, 'org-1')),
+    );
+    mockPrisma.retentionRun.update.mockImplementation(async ({ data }: { data: Record<string, unknown> }) => run(data));
+
+    const first = await advanceRetentionRun(run());
+    expect(mockPrisma.workshop.findMany.mock.calls[0][0]).toMatchObject({ take: 25 });
+    expect(first.result).toMatchObject({ runId: 'run-1', nextWorkshopId: 'ws-24' });
+    expect(mockPrisma.retentionRun.update.mock.calls[0][0].data).toMatchObject({ cursor: 'ws-24' });
+    expect(mockPrisma.retentionRun.update.mock.calls[0][0].data.status).toBeUndefined();
+
+    mockPrisma.workshop.findMany.mockResolvedValueOnce([workshop('ws-25', 'org-1')]);
+    const last = await advanceRetentionRun(run({ cursor: 'ws-24' }));
+    expect(mockPrisma.workshop.findMany.mock.calls[1][0].where.id).toEqual({ gt: 'ws-24' });
+    expect(last.result.nextWorkshopId).toBeNull();
+    expect(last.run.status).toBe('completed');
+    // Platform-scoped data only runs in a run's first batch
+    expect(mockPrisma.analyticsEvent.count).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('retention certificates', () => {
+  async function completedRun() {
+    mockPrisma.workshop.findMany.mockResolvedValue([workshop('ws-1', 'org-1'), workshop('ws-2', 'org-1'), workshop('ws-3', 'org-2')]);
+    mockPrisma.retentionPolicy.findMany.mockResolvedValue([
+      rule('org-1', 'workshop_event_outbox', 1),
+      rule('org-2', 'workshop_event_outbox', 1),
+    ]);
+    mockPrisma.workshopEventOutbox.count.mockResolvedValue(1);
+    mockPrisma.workshopEventOutbox.findMany.mockResolvedValue([{ id: 'ob-1' }]);
+    mockPrisma.retentionRun.update.mockImplementation(async ({ data }: { data: Record<string, unknown> }) => ({
+      id: 'run-1',
+      startedAt: NOW,
+      ...data,
+    }));
+    const { run } = await advanceRetentionRun({
+      id: 'run-1',
+      status: 'running',
+      cursor: null,
+      recordsProcessed: 1,
+      // From an earlier batch of the same run
+      entries: [{
+        organizationId: 'org-1',
+        workshopId: 'ws-0',
+        dataType: 'workshop_event_outbox',
+        action: 'delete',
+        retentionDays: 1,
+        policySource: 'organization',
+        cutoff: NOW.toISOString(),
+        records: 1,
+        storageObjects: 0,
+        recordDigest: 'b'.repeat(64),
+      }],
+      startedAt: NOW,
+      updatedAt: NOW,
+      completedAt: null,
+    });
+    return run;
+  }
+
+  it('issues one chained, verifiable certificate per organisation when the run completes', async () => {
+    const run = await completedRun();
+    expect(run.entries).toHaveLength(4);
+    mockPrisma.retentionCertificate.findFirst.mockImplementation(async ({ where }: { where: Record<string, unknown> }) =>
+      where.runId ? null : { digest: 'a'.repeat(64), sequence: 4 });
+    mockPrisma.retentionCertificate.create.mockImplementation(async ({ data }: { data: Record<string, unknown> }) => ({ id: 'cert-1', ...data }));
+
+    const certificates = await issueRetentionCertificates(run);
+
+    expect(certificates).toHaveLength(2);
+    const [certificate] = certificates;
+    expect(certificate).toMatchObject({ organizationId: 'org-1', totalRecords: 3, sequence: 5, previousDigest: 'a'.repeat(64), issuedAt: NOW });
+    expect(mockPrisma.retentionCertificate.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { organizationId: 'org-1' }, orderBy: { sequence: 'desc' } }),
+    );
+    // Stored entries come back from JSONB with keys reordered
+    const roundTripped = { ...certificate, entries: JSON.parse(JSON.stringify(certificate.entries)).map((e: Record<string, unknown>) => Object.fromEntries(Object.entries(e).reverse())) };
+    expect(verifyRetentionCertificate(roundTripped)).toBe(true);
+    expect(verifyRetentionCertificate({ ...roundTripped, totalRecords: 0 })).toBe(false);
+  });
+
+  it('skips organisations already certified for the run', async () => {
+    const run = await completedRun();
+    mockPrisma.retentionCertificate.findFirst.mockResolvedValue({ id: 'cert-0', digest: 'a'.repeat(64), sequence: 1 });
+    expect(await issueRetentionCertificates(run)).toEqual([]);
+    expect(mockPrisma.retentionCertificate.create).not.toHaveBeenCalled();
+  });
+
+  it('issues nothing while the run is still in progress', async () => {
+    const run = { ...(await completedRun()), status: 'running' };
+    expect(await issueRetentionCertificates(run)).toEqual([]);
+    expect(mockPrisma.retentionCertificate.create).not.toHaveBeenCalled();
+  });
+});
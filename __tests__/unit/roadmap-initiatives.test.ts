@@ -0,0 +1,231 @@
+// @vitest-environment node
+
+/**
+ * Unit Tests: Roadmap initiative tracking
+ *
+ * Generated roadmap initiatives are promoted to records linked to root causes
+ * and constraints, updated from the executive portal with dependency checks,
+ * and flagged in weekly digests when overdue or blocked.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    roadmapInitiative: { findMany: vi.fn(), findFirst: vi.fn(), create: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }));
+vi.mock('@/lib/email/send', () => ({ sendRoadmapDigest: vi.fn() }));
+
+import type { WorkshopOutputIntelligence } from '@/lib/output-intelligence/types';
+import {
+  RoadmapInitiativeError,
+  extractGeneratedInitiatives,
+  isOverdue,
+  syncRoadmapInitiatives,
+  updateRoadmapInitiative,
+} from '@/lib/roadmap/initiatives';
+import { groupRoadmapDigests, type DigestInitiative } from '@/lib/roadmap/digest';
+
+const intelligence = {
+  rootCause: {
+    rootCauses: [
+      { cause: 'Fragmented customer data across legacy systems' },
+      { cause: 'Unclear ownership of regional pricing' },
+    ],
+    workshopConstraints: [{ title: 'Legacy CRM integration limits' }],
+  },
+  roadmap: {
+    phases: [
+      {
+        phase: 'Phase 1 — Immediate Enablement',
+        constraints: ['Budget approval cycle'],
+        initiatives: [
+          {
+            title: 'Consolidate customer data into a single view',
+            description: 'Replace fragmented legacy systems with one customer data platform and retire the CRM integration.',
+            outcome: 'Agents see one customer record.',
+          },
+          { title: 'Consolidate customer data into a single view', description: 'Duplicate', outcome: '' },
+        ],
+      },
+      {
+        phase: 'Phase 2 — Structural Transformation',
+        initiatives: [
+          { title: 'Regional pricing council', description: 'Assign clear ownership of pricing.', outcome: 'Faster approvals.' },
+        ],
+      },
+    ],
+  },
+} as unknown as WorkshopOutputIntelligence;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('extractGeneratedInitiatives', () => {
+  it('flattens phases, drops duplicate titles and links root causes and constraints', () => {
+    const generated = extractGeneratedInitiatives(intelligence);
+
+    expect(generated.map((g) => g.title)).toEqual([
+      'Consolidate customer data into a single view',
+      'Regional pricing council',
+    ]);
+    expect(generated[0].rootCauses).toEqual(['Fragmented customer data across legacy systems']);
+    expect(generated[0].constraints).toEqual(['Legacy CRM integration limits']);
+    expect(generated[1].rootCauses).toEqual(['Unclear ownership of regional pricing']);
+    expect(generated[1].phase).toBe('Phase 2 — Structural Transformation');
+  });
+});
+
+describe('syncRoadmapInitiatives', () => {
+  it('creates new records and refreshes existing ones without touching tracking fields', async () => {
+    mockPrisma.roadmapInitiative.findMany.mockResolvedValue([
+      { id: 'i1', title: 'Consolidate customer data into a single view', description: null, retiredAt: null },
+    ]);
+
+    const result = await syncRoadmapInitiatives({ id: 'w1', organizationId: 'org1' }, intelligence);
+
+    expect(result).toEqual({ created: 1, updated: 1, retired: 0 });
+    const updateData = mockPrisma.roadmapInitiative.update.mock.calls[0][0].data;
+    expect(updateData).not.toHaveProperty('status');
+    expect(updateData).not.toHaveProperty('owner');
+    expect(mockPrisma.roadmapInitiative.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        organizationId: 'org1',
+        workshopId: 'w1',
+        title: 'Regional pricing council',
+        sourceKey: expect.stringMatching(/^ini_/),
+      }),
+    });
+  });
+
+  it('keeps reworded initiatives on their record and retires dropped ones', async () => {
+    mockPrisma.roadmapInitiative.findMany.mockResolvedValue([
+      {
+        id: 'i1',
+        title: 'Unify customer data in one platform',
+        description: 'Replace fragmented legacy systems with one customer data platform.',
+        retiredAt: null,
+      },
+      { id: 'i2', title: 'Regional pricing council', description: 'Assign clear ownership of pricing.', retiredAt: new Date() },
+      { id: 'i3', title: 'Chatbot pilot', description: 'Pilot a chatbot for billing queries.', retiredAt: null },
+    ]);
+
+    const result = await syncRoadmapInitiatives({ id: 'w1', organizationId: 'org1' }, intelligence);
+
+    expect(result).toEqual({ created: 0, updated: 2, retired: 1 });
+    expect(mockPrisma.roadmapInitiative.update).toHaveBeenCalledWith({
+      where: { id: 'i1' },
+      data: expect.objectContaining({ title: 'Consolidate customer data into a single view', retiredAt: null }),
+    });
+    // A retired initiative the roadmap brings back is restored
+    expect(mockPrisma.roadmapInitiative.update).toHaveBeenCalledWith({
+      where: { id: 'i2' },
+      data: expect.objectContaining({ retiredAt: null }),
+    });
+    expect(mockPrisma.roadmapInitiative.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['i3'] } },
+      data: { retiredAt: expect.any(Date) },
+    });
+  });
+});
+
+describe('updateRoadmapInitiative', () => {
+  const author = { name: 'Jane Exec', email: 'jane@example.com' };
+
+  beforeEach(() => {
+    mockPrisma.roadmapInitiative.findFirst.mockResolvedValue({ id: 'a', workshopId: 'w1' });
+    mockPrisma.roadmapInitiative.findMany.mockResolvedValue([
+      { id: 'a', dependsOnIds: [] },
+      { id: 'b', dependsOnIds: ['c'] },
+      { id: 'c', dependsOnIds: ['a'] },
+    ]);
+  });
+
+  it('returns 404 for initiatives outside the organisation', async () => {
+    mockPrisma.roadmapInitiative.findFirst.mockResolvedValue(null);
+    await expect(
+      updateRoadmapInitiative({ organizationId: 'org2', initiativeId: 'a', update: {}, author }),
+    ).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('rejects self, foreign and cyclic dependencies', async () => {
+    await expect(
+      updateRoadmapInitiative({ organizationId: 'org1', initiativeId: 'a', update: { dependsOnIds: ['a'] }, author }),
+    ).rejects.toThrow('cannot depend on itself');
+    await expect(
+      updateRoadmapInitiative({ organizationId: 'org1', initiativeId: 'a', update: { dependsOnIds: ['zzz'] }, author }),
+    ).rejects.toThrow('same roadmap');
+    await expect(
+      updateRoadmapInitiative({ organizationId: 'org1', initiativeId: 'a', update: { dependsOnIds: ['b'] }, author }),
+    ).rejects.toBeInstanceOf(RoadmapInitiativeError);
+    expect(mockPrisma.roadmapInitiative.update).not.toHaveBeenCalled();
+  });
+
+  it('completes progress when marked done and records the note author', async () => {
+    mockPrisma.roadmapInitiative.update.mockResolvedValue({ id: 'a' });
+
+    await updateRoadmapInitiative({
+      organizationId: 'org1',
+      initiativeId: 'a',
+      update: { status: 'done', note: 'Shipped to all regions' },
+      author,
+    });
+
+    const data = mockPrisma.roadmapInitiative.update.mock.calls[0][0].data;
+    expect(data.status).toBe('done');
+    expect(data.progress).toBe(100);
+    expect(data.notes.create).toEqual({ body: 'Shipped to all regions', authorName: 'Jane Exec', authorEmail: 'jane@example.com' });
+  });
+});
+
+describe('roadmap digests', () => {
+  const now = new Date('2026-10-19T00:00:00.000Z');
+
+  function initiative(partial: Partial<DigestInitiative>): DigestInitiative {
+    return {
+      organizationId: 'org1',
+      title: 'Initiative',
+      phase: 'Phase 1',
+      owner: null,
+      ownerEmail: null,
+      status: 'in_progress',
+      dueDate: null,
+      workshop: { name: 'Renewal workshop' },
+      notes: [],
+      ...partial,
+    };
+  }
+
+  it('ignores closed initiatives when checking overdue', () => {
+    const past = new Date('2026-10-01T00:00:00.000Z');
+    expect(isOverdue({ dueDate: past, status: 'in_progress' }, now)).toBe(true);
+    expect(isOverdue({ dueDate: past, status: 'done' }, now)).toBe(false);
+    expect(isOverdue({ dueDate: null, status: 'blocked' }, now)).toBe(false);
+  });
+
+  it('sends execs every flagged item and owners only their own', () => {
+    const digests = groupRoadmapDigests(
+      [
+        initiative({ title: 'Overdue', dueDate: new Date('2026-10-01T00:00:00.000Z'), owner: 'Sam', ownerEmail: 'sam@example.com' }),
+        initiative({ title: 'Blocked', status: 'blocked', ownerEmail: 'JANE@example.com' }),
+        initiative({ title: 'On track', dueDate: new Date('2026-12-01T00:00:00.000Z'), ownerEmail: 'sam@example.com' }),
+      ],
+      [
+        { organizationId: 'org1', email: 'jane@example.com', name: 'Jane' },
+        { organizationId: 'org2', email: 'other@example.com', name: 'Other' },
+      ],
+      now,
+    );
+
+    const byRecipient = Object.fromEntries(digests.map((d) => [d.to, d.items.map((i) => i.title)]));
+    expect(byRecipient).toEqual({
+      'jane@example.com': ['Overdue', 'Blocked'],
+      'sam@example.com': ['Overdue'],
+    });
+    expect(digests.find((d) => d.to === 'sam@example.com')?.items[0]).toMatchObject({ overdue: true, blocked: false, dueDate: '2026-10-01' });
+  });
+});
@@ -0,0 +1,194 @@
+// @vitest-environment node
+
+/**
+ * Unit Tests: Workshop speaker registry
+ *
+ * Talk-time analytics, actor relabelling, voice-enrolment suggestions and
+ * the mapping flow that relabels DataPoints and AgenticAnalysis actors.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const mockPrisma: any = vi.hoisted(() => {
+  const client: any = {
+    workshopSpeaker: { upsert: vi.fn(), findUnique: vi.fn(), findMany: vi.fn() },
+    workshopParticipant: { findFirst: vi.fn(), findMany: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    transcriptChunk: { findMany: vi.fn() },
+    dataPoint: { groupBy: vi.fn(), updateMany: vi.fn() },
+    agenticAnalysis: { findMany: vi.fn(), update: vi.fn() },
+  };
+  client.$transaction = vi.fn((callback: (tx: unknown) => unknown) => callback(client));
+  return client;
+});
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }));
+
+import {
+  SpeakerMappingError,
+  computeSpeakerAnalytics,
+  enrolParticipantVoice,
+  listWorkshopSpeakers,
+  mapSpeaker,
+  registerSpeaker,
+  relabelActors,
+  suggestParticipant,
+} from '@/lib/transcription/speaker-registry';
+import type { VoiceProfile } from '@/lib/transcription/local/diarisation';
+
+const LOW_VOICE: VoiceProfile = [0.2, 0.1, 0.4, 0.3];
+const HIGH_VOICE: VoiceProfile = [1.2, 0.15, 0.9, 0.5];
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('computeSpeakerAnalytics', () => {
+  it('sums talk time, words and contributions per speaker, busiest first', () => {
+    const analytics = computeSpeakerAnalytics(
+      [
+        { speakerId: 'speaker_0', startTimeMs: BigInt(0), endTimeMs: BigInt(4_000), text: 'We lose customers at sign-up' },
+        { speakerId: 'speaker_1', startTimeMs: BigInt(4_000), endTimeMs: BigInt(5_000), text: 'Agreed' },
+        { speakerId: 'speaker_0', startTimeMs: BigInt(6_000), endTimeMs: BigInt(9_000), text: 'Identity checks are manual' },
+        { speakerId: null, startTimeMs: BigInt(9_000), endTimeMs: BigInt(10_000), text: 'unattributed' },
+      ],
+      new Map([['speaker_0', 2], ['speaker_2', 1]]),
+    );
+
+    expect(analytics.map((a) => a.speakerId)).toEqual(['speaker_0', 'speaker_1', 'speaker_2']);
+    expect(analytics[0]).toMatchObject({
+      talkTimeMs: 7_000, utterances: 2, words: 9, contributions: 2,
+      share: 0.875, firstSpokeMs: 0, lastSpokeMs: 9_000,
+    });
+    expect(analytics[1]).toMatchObject({ talkTimeMs: 1_000, contributions: 0, share: 0.125 });
+    expect(analytics[2]).toMatchObject({ talkTimeMs: 0, contributions: 1, firstSpokeMs: null });
+  });
+});
+
+describe('relabelActors', () => {
+  it('renames matching actors and interaction targets case-insensitively', () => {
+    const actors = [
+      { name: 'Speaker_0', role: 'Ops lead', interactions: [{ withActor: 'Customer', action: 'onboards' }] },
+      { name: 'Customer', role: 'End user', interactions: [{ withActor: 'speaker_0', action: 'waits for' }] },
+    ];
+
+    const result = relabelActors(actors, new Set(['speaker_0']), 'Priya Shah');
+
+    expect(result?.[0].name).toBe('Priya Shah');
+    expect((result?.[1].interactions as any[])[0].withActor).toBe('Priya Shah');
+    expect(result?.[1].name).toBe('Customer');
+    expect(relabelActors(actors, new Set(['someone else']), 'Priya Shah')).toBeNull();
+    expect(relabelActors(null, new Set(['speaker_0']), 'Priya Shah')).toBeNull();
+  });
+});
+
+describe('suggestParticipant', () => {
+  it('suggests the nearest enrolled voice within the threshold', () => {
+    const enrolled = [
+      { participantId: 'p1', participantName: 'Low', profile: LOW_VOICE },
+      { participantId: 'p2', participantName: 'High', profile: HIGH_VOICE },
+    ];
+    expect(suggestParticipant([0.22, 0.1, 0.42, 0.3], enrolled)?.participantId).toBe('p1');
+    expect(suggestParticipant([3, 1, 3, 2], enrolled)).toBeNull();
+  });
+});
+
+describe('registerSpeaker', () => {
+  it('stores valid voice profiles and returns the mapped participant', async () => {
+    mockPrisma.workshopSpeaker.upsert.mockResolvedValue({ participantId: 'p1' });
+
+    await expect(registerSpeaker('w1', 'speaker_0', LOW_VOICE)).resolves.toBe('p1');
+    expect(mockPrisma.workshopSpeaker.upsert.mock.calls[0][0].update).toEqual({ voiceProfile: LOW_VOICE });
+
+    await registerSpeaker('w1', 'speaker_0', ['not', 'a', 'profile']);
+    expect(mockPrisma.workshopSpeaker.upsert.mock.calls[1][0].update).toEqual({});
+  });
+});
+
+describe('listWorkshopSpeakers', () => {
+  it('merges analytics with mappings and suggests enrolled participants for unmapped voices', async () => {
+    mockPrisma.transcriptChunk.findMany.mockResolvedValue([
+      { speakerId: 'speaker_0', startTimeMs: BigInt(0), endTimeMs: BigInt(9_000), text: 'Most of the talking' },
+      { speakerId: 'speaker_1', startTimeMs: BigInt(9_000), endTimeMs: BigInt(10_000), text: 'A little' },
+    ]);
+    mockPrisma.dataPoint.groupBy.mockResolvedValue([
+      { speakerId: 'speaker_0', _count: { _all: 9 } },
+      { speakerId: 'speaker_1', _count: { _all: 1 } },
+    ]);
+    mockPrisma.workshopSpeaker.findMany.mockResolvedValue([
+      { speakerId: 'speaker_0', participantId: 'p1', displayName: null, voiceProfile: LOW_VOICE, mappedAt: new Date(0), participant: { id: 'p1', name: 'Priya Shah' } },
+      { speakerId: 'speaker_1', participantId: null, displayName: null, voiceProfile: HIGH_VOICE, mappedAt: null, participant: null },
+    ]);
+    mockPrisma.workshopParticipant.findMany.mockResolvedValue([
+      { id: 'p1', name: 'Priya Shah', voiceProfile: LOW_VOICE, voiceEnrolledAt: new Date(0) },
+      { id: 'p2', name: 'Tom Reid', voiceProfile: HIGH_VOICE, voiceEnrolledAt: new Date(0) },
+    ]);
+
+    const report = await listWorkshopSpeakers('w1');
+
+    expect(report.speakers.map((s) => s.label)).toEqual(['Priya Shah', 'speaker_1']);
+    expect(report.speakers[0].suggestion).toBeNull();
+    expect(report.speakers[1].suggestion).toMatchObject({ participantId: 'p2', distance: 0 });
+    expect(report.participants).toEqual([
+      { id: 'p1', name: 'Priya Shah', voiceEnrolled: true },
+      { id: 'p2', name: 'Tom Reid', voiceEnrolled: true },
+    ]);
+    expect(report.participation.imbalanceWarning).toContain('Priya Shah');
+  });
+});
+
+describe('mapSpeaker', () => {
+  it('relabels live DataPoints and actor records, and enrols the voice on first mapping', async () => {
+    mockPrisma.workshopParticipant.findFirst.mockResolvedValue({ id: 'p1', name: 'Priya Shah', voiceEnrolledAt: null });
+    mockPrisma.workshopSpeaker.findUnique.mockResolvedValue(null);
+    mockPrisma.workshopSpeaker.upsert.mockResolvedValue({ voiceProfile: LOW_VOICE });
+    mockPrisma.dataPoint.updateMany.mockResolvedValue({ count: 3 });
+    mockPrisma.agenticAnalysis.findMany.mockResolvedValue([
+      { id: 'a1', actors: [{ name: 'speaker_0', role: 'Ops', interactions: [] }] },
+      { id: 'a2', actors: [{ name: 'Customer', role: 'User', interactions: [] }] },
+    ]);
+
+    const result = await mapSpeaker('w1', 'speaker_0', { participantId: 'p1', mappedById: 'u1' });
+
+    expect(result).toEqual({ label: 'Priya Shah', dataPointsRelabelled: 3, analysesRelabelled: 1, enrolled: true });
+    expect(mockPrisma.dataPoint.updateMany).toHaveBeenCalledWith({
+      where: { workshopId: 'w1', speakerId: 'speaker_0', sessionId: null },
+      data: { participantId: 'p1' },
+    });
+    expect(mockPrisma.agenticAnalysis.update).toHaveBeenCalledWith({
+      where: { id: 'a1' },
+      data: { actors: [{ name: 'Priya Shah', role: 'Ops', interactions: [] }] },
+    });
+    expect(mockPrisma.workshopParticipant.update.mock.calls[0][0].data.voiceProfile).toEqual(LOW_VOICE);
+  });
+
+  it('rejects participants from another workshop', async () => {
+    mockPrisma.workshopParticipant.findFirst.mockResolvedValue(null);
+
+    await expect(mapSpeaker('w1', 'speaker_0', { participantId: 'other' })).rejects.toBeInstanceOf(SpeakerMappingError);
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('unmapping clears participant links and restores the raw label', async () => {
+    mockPrisma.workshopSpeaker.findUnique.mockResolvedValue({ displayName: null, participant: { name: 'Priya Shah' } });
+    mockPrisma.workshopSpeaker.upsert.mockResolvedValue({ voiceProfile: null });
+    mockPrisma.dataPoint.updateMany.mockResolvedValue({ count: 3 });
+    mockPrisma.agenticAnalysis.findMany.mockResolvedValue([
+      { id: 'a1', actors: [{ name: 'Priya Shah', role: 'Ops', interactions: [] }] },
+    ]);
+
+    const result = await mapSpeaker('w1', 'speaker_0', { participantId: null });
+
+    expect(result).toMatchObject({ label: 'speaker_0', analysesRelabelled: 1, enrolled: false });
+    expect(mockPrisma.dataPoint.updateMany.mock.calls[0][0].data).toEqual({ participantId: null });
+    expect(mockPrisma.workshopSpeaker.upsert.mock.calls[0][0].update).toMatchObject({ participantId: null, mappedAt: null });
+  });
+});
+
+describe('enrolParticipantVoice', () => {
+  it('rejects invalid profiles and unknown participants', async () => {
+    await expect(enrolParticipantVoice('w1', 'p1', [1, 2])).rejects.toBeInstanceOf(SpeakerMappingError);
+
+    mockPrisma.workshopParticipant.updateMany.mockResolvedValue({ count: 0 });
+    await expect(enrolParticipantVoice('w1', 'p9', LOW_VOICE)).rejects.toBeInstanceOf(SpeakerMappingError);
+  });
+});
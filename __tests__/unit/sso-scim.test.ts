@@ -0,0 +1,480 @@
+// @vitest-environment node
+
+/**
+ * Unit Tests: SSO and SCIM provisioning
+ *
+ * OIDC and SAML logins are exercised against local stand-in identity
+ * providers (a jose-signed id_token behind a stubbed fetch, and an
+ * xml-crypto-signed SAML assertion). Provisioning, email domain claims and
+ * the SCIM /Users operations run against a mocked Prisma client.
+ */
+
+import crypto from 'crypto';
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import * as jose from 'jose';
+import { SignedXml } from 'xml-crypto';
+
+const { mockPrisma, mockResolveTxt } = vi.hoisted(() => ({
+  mockResolveTxt: vi.fn(),
+  mockPrisma: {
+    organization: { findUnique: vi.fn() },
+    ssoConnection: { findUnique: vi.fn() },
+    ssoDomain: { findFirst: vi.fn(), findMany: vi.fn(), create: vi.fn(), update: vi.fn(), deleteMany: vi.fn() },
+    user: { findFirst: vi.fn(), findUnique: vi.fn(), findMany: vi.fn(), count: vi.fn(), create: vi.fn(), update: vi.fn() },
+    execLicence: { findFirst: vi.fn(), findUnique: vi.fn(), findMany: vi.fn(), create: vi.fn(), update: vi.fn() },
+    session: { updateMany: vi.fn() },
+    $queryRaw: vi.fn(),
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }));
+vi.mock('@/lib/audit/audit-logger', () => ({ logAuditEvent: vi.fn().mockResolvedValue(undefined) }));
+vi.mock('dns/promises', () => ({ default: { resolveTxt: mockResolveTxt, lookup: vi.fn() } }));
+
+import { Prisma } from '@prisma/client';
+import { resolveProvisionedRole, type ResolvedSsoConnection } from '@/lib/auth/sso/config';
+import { buildOidcAuthorizeUrl, clearOidcCaches, completeOidcLogin } from '@/lib/auth/sso/oidc';
+import { completeSamlLogin, newSamlRequestId, samlAcsUrl, samlEntityId } from '@/lib/auth/sso/saml';
+import { setSsoDomains, verifySsoDomain } from '@/lib/auth/sso/domains';
+import { provisionSsoLogin } from '@/lib/auth/sso/provisioning';
+import { SsoError } from '@/lib/auth/sso/types';
+import { createScimUser, deleteScimUser, patchScimUser } from '@/lib/scim/users';
+import { ScimError } from '@/lib/scim/types';
+
+const ORG = 'org-1';
+
+function connection(overrides: Partial<ResolvedSsoConnection> = {}): ResolvedSsoConnection {
+  return {
+    id: 'conn-1',
+    organizationId: ORG,
+    protocol: 'oidc',
+    enabled: true,
+    oidc: null,
+    saml: null,
+    emailDomains: ['acme.com'],
+    jitProvisioning: true,
+    defaultRole: 'TENANT_USER',
+    roleMappings: [],
+    enforceSso: false,
+    idpEnforcesMfa: false,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.$transaction.mockImplementation(async (fn: (tx: typeof mockPrisma) => unknown) => fn(mockPrisma));
+});
+
+describe('role mapping', () => {
+  const mappings = [
+    { group: 'DREAM-Admins', role: 'TENANT_ADMIN' as const },
+    { group: 'dream-execs', role: 'EXECUTIVE' as const },
+  ];
+
+  it('takes the first mapping the user holds, ignoring case', () => {
+    expect(resolveProvisionedRole(['dream-admins', 'DREAM-EXECS'], mappings, 'TENANT_USER')).toBe('TENANT_ADMIN');
+    expect(resolveProvisionedRole(['Dream-Execs'], mappings, 'TENANT_USER')).toBe('EXECUTIVE');
+  });
+
+  it('falls back to the default role, which may refuse access', () => {
+    expect(resolveProvisionedRole(['Everyone'], mappings, 'TENANT_USER')).toBe('TENANT_USER');
+    expect(resolveProvisionedRole(['Everyone'], mappings, null)).toBeNull();
+  });
+});
+
+// ══════════════════════════════════════════════════════════════
+// OIDC — stand-in IdP
+// ══════════════════════════════════════════════════════════════
+
+describe('OIDC login', () => {
+  const ISSUER = 'https://idp.test';
+  const CLIENT_ID = 'dream-client';
+  const REDIRECT_URI = 'http://localhost:3000/api/auth/sso/oidc/callback';
+  let privateKey: CryptoKey;
+  let publicJwk: jose.JWK;
+  let idTokenClaims: Record<string, unknown>;
+  let tokenRequests: RequestInit[];
+
+  const oidcConnection = connection({
+    oidc: { issuer: ISSUER, clientId: CLIENT_ID, clientSecret: 'shh', groupsClaim: 'roles' },
+  });
+
+  beforeAll(async () => {
+    const pair = await jose.generateKeyPair('RS256', { extractable: true });
+    privateKey = pair.privateKey;
+    publicJwk = { ...(await jose.exportJWK(pair.publicKey)), kid: 'k1', alg: 'RS256', use: 'sig' };
+  });
+
+  beforeEach(() => {
+    clearOidcCaches();
+    tokenRequests = [];
+    idTokenClaims = { email: 'Jane@Acme.com', name: 'Jane Doe', roles: ['dream-admins'], nonce: 'n-1' };
+
+    vi.stubGlobal('fetch', vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+      const url = String(input instanceof Request ? input.url : input);
+      if (url === `${ISSUER}/.well-known/openid-configuration`) {
+        return Response.json({
+          issuer: ISSUER,
+          authorization_endpoint: `${ISSUER}/authorize`,
+          token_endpoint: `${ISSUER}/token`,
+          jwks_uri: `${ISSUER}/jwks`,
+        });
+      }
+      if (url === `${ISSUER}/jwks`) return Response.json({ keys: [publicJwk] });
+      if (url === `${ISSUER}/token`) {
+        tokenRequests.push(init ?? {});
+        const idToken = await new jose.SignJWT(idTokenClaims)
+          .setProtectedHeader({ alg: 'RS256', kid: 'k1' })
+          .setIssuer(String(idTokenClaims.iss ?? ISSUER))
+          .setAudience(String(idTokenClaims.aud ?? CLIENT_ID))
+          .setSubject('idp-user-1')
+          .setIssuedAt()
+          .setExpirationTime('5m')
+          .sign(privateKey);
+        return Response.json({ id_token: idToken, access_token: 'at' });
+      }
+      return new Response('not found', { status: 404 });
+    }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('refuses issuers on private or internal addresses', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    try {
+      const internal = connection({ oidc: { issuer: 'https://169.254.169.254', clientId: CLIENT_ID, clientSecret: 'shh' } });
+      await expect(buildOidcAuthorizeUrl(internal, { state: 's', nonce: 'n', codeVerifier: 'v', redirectUri: REDIRECT_URI }))
+        .rejects.toThrow('private or internal');
+      expect(fetch).not.toHaveBeenCalled();
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it('builds a PKCE authorization request from discovery', async () => {
+    const url = new URL(await buildOidcAuthorizeUrl(oidcConnection, {
+      state: 's-1', nonce: 'n-1', codeVerifier: 'verifier', redirectUri: REDIRECT_URI, loginHint: 'jane@acme.com',
+    }));
+    expect(url.origin + url.pathname).toBe(`${ISSUER}/authorize`);
+    expect(url.searchParams.get('client_id')).toBe(CLIENT_ID);
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('code_challenge')).toBe(crypto.createHash('sha256').update('verifier').digest('base64url'));
+    expect(url.searchParams.get('login_hint')).toBe('jane@acme.com');
+  });
+
+  it('exchanges the code and reads a verified identity', async () => {
+    const identity = await completeOidcLogin(oidcConnection, {
+      code: 'code-1', nonce: 'n-1', codeVerifier: 'verifier', redirectUri: REDIRECT_URI,
+    });
+
+    expect(identity).toEqual({ subject: 'idp-user-1', email: 'jane@acme.com', name: 'Jane Doe', groups: ['dream-admins'] });
+    const body = tokenRequests[0].body as URLSearchParams;
+    expect(body.get('code_verifier')).toBe('verifier');
+    expect((tokenRequests[0].headers as Record<string, string>).Authorization).toMatch(/^Basic /);
+  });
+
+  it('rejects a replayed nonce, a foreign audience and an unverified email', async () => {
+    const params = { code: 'code-1', nonce: 'other', codeVerifier: 'verifier', redirectUri: REDIRECT_URI };
+    await expect(completeOidcLogin(oidcConnection, params)).rejects.toThrow('SSO nonce mismatch');
+
+    idTokenClaims = { ...idTokenClaims, aud: 'someone-else' };
+    await expect(completeOidcLogin(oidcConnection, { ...params, nonce: 'n-1' })).rejects.toThrow('invalid id_token');
+
+    idTokenClaims = { ...idTokenClaims, aud: CLIENT_ID, email_verified: false };
+    await expect(completeOidcLogin(oidcConnection, { ...params, nonce: 'n-1' })).rejects.toBeInstanceOf(SsoError);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════
+// SAML — stand-in IdP
+// ══════════════════════════════════════════════════════════════
+
+describe('SAML login', () => {
+  const IDP_ISSUER = 'https://idp.test/saml';
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+
+  const samlConnection = connection({
+    protocol: 'saml',
+    saml: { entryPoint: 'https://idp.test/sso', idpIssuer: IDP_ISSUER, idpCert: publicKey },
+  });
+
+  function samlResponse(requestId: string, options: { audience?: string; email?: string } = {}): string {
+    const now = new Date();
+    const later = new Date(now.getTime() + 5 * 60 * 1000).toISOString();
+    const audience = options.audience ?? samlEntityId(ORG);
+    const assertion =
+      `<saml:Assertion xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_a1" Version="2.0" IssueInstant="${now.toISOString()}">` +
+      `<saml:Issuer>${IDP_ISSUER}</saml:Issuer>` +
+      `<saml:Subject><saml:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified">idp-user-7</saml:NameID>` +
+      `<saml:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer">` +
+      `<saml:SubjectConfirmationData InResponseTo="${requestId}" NotOnOrAfter="${later}" Recipient="${samlAcsUrl()}"/>` +
+      `</saml:SubjectConfirmation></saml:Subject>` +
+      `<saml:Conditions NotBefore="${now.toISOString()}" NotOnOrAfter="${later}">` +
+      `<saml:AudienceRestriction><saml:Audience>${audience}</saml:Audience></saml:AudienceRestriction></saml:Conditions>` +
+      `<saml:AuthnStatement AuthnInstant="${now.toISOString()}"><saml:AuthnContext>` +
+      `<saml:AuthnContextClassRef>urn:oasis:names:tc:SAML:2.0:ac:classes:PasswordProtectedTransport</saml:AuthnContextClassRef>` +
+      `</saml:AuthnContext></saml:AuthnStatement>` +
+      `<saml:AttributeStatement>` +
+      `<saml:Attribute Name="email"><saml:AttributeValue>${options.email ?? 'Sam@Acme.com'}</saml:AttributeValue></saml:Attribute>` +
+      `<saml:Attribute Name="displayName"><saml:AttributeValue>Sam Smith</saml:AttributeValue></saml:Attribute>` +
+      `<saml:Attribute Name="groups"><saml:AttributeValue>dream-execs</saml:AttributeValue><saml:AttributeValue>staff</saml:AttributeValue></saml:Attribute>` +
+      `</saml:AttributeStatement></saml:Assertion>`;
+
+    const signer = new SignedXml({
+      privateKey,
+      canonicalizationAlgorithm: 'http://www.w3.org/2001/10/xml-exc-c14n#',
+      signatureAlgorithm: 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256',
+    });
+    signer.addReference({
+      xpath: "//*[local-name(.)='Assertion']",
+      transforms: ['http://www.w3.org/2000/09/xmldsig#enveloped-signature', 'http://www.w3.org/2001/10/xml-exc-c14n#'],
+      digestAlgorithm: 'http://www.w3.org/2001/04/xmlenc#sha256',
+    });
+    signer.computeSignature(assertion, {
+      location: { reference: "//*[local-name(.)='Assertion']/*[local-name(.)='Issuer']", action: 'after' },
+    });
+
+    const response =
+      `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ` +
+      `ID="_r1" Version="2.0" IssueInstant="${now.toISOString()}" Destination="${samlAcsUrl()}" InResponseTo="${requestId}">` +
+      `<saml:Issuer>${IDP_ISSUER}</saml:Issuer>` +
+      `<samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></samlp:Status>` +
+      signer.getSignedXml() +
+      `</samlp:Response>`;
+    return Buffer.from(response).toString('base64');
+  }
+
+  it('accepts a signed assertion answering this request', async () => {
+    const requestId = newSamlRequestId();
+    const identity = await completeSamlLogin(samlConnection, { samlResponse: samlResponse(requestId), requestId });
+
+    expect(identity).toEqual({
+      subject: 'idp-user-7',
+      email: 'sam@acme.com',
+      name: 'Sam Smith',
+      groups: ['dream-execs', 'staff'],
+    });
+  });
+
+  it('rejects responses to another request, for another tenant, or tampered with', async () => {
+    const requestId = newSamlRequestId();
+
+    await expect(completeSamlLogin(samlConnection, {
+      samlResponse: samlResponse(requestId), requestId: newSamlRequestId(),
+    })).rejects.toThrow('invalid SAML response');
+
+    await expect(completeSamlLogin(samlConnection, {
+      samlResponse: samlResponse(requestId, { audience: samlEntityId('org-2') }), requestId,
+    })).rejects.toThrow('invalid SAML response');
+
+    const tampered = Buffer.from(
+      Buffer.from(samlResponse(requestId), 'base64').toString().replace('Sam@Acme.com', 'ceo@acme.com'),
+    ).toString('base64');
+    await expect(completeSamlLogin(samlConnection, { samlResponse: tampered, requestId })).rejects.toThrow('invalid SAML response');
+  });
+});
+
+// ══════════════════════════════════════════════════════════════
+// JUST-IN-TIME PROVISIONING
+// ══════════════════════════════════════════════════════════════
+
+describe('provisionSsoLogin', () => {
+  const identity = { subject: 'sub-1', email: 'new@acme.com', name: 'New Person', groups: [] as string[] };
+
+  beforeEach(() => {
+    mockPrisma.user.findFirst.mockResolvedValue(null);
+    mockPrisma.user.findUnique.mockResolvedValue(null);
+    mockPrisma.organization.findUnique.mockResolvedValue({ maxSeats: 5 });
+    mockPrisma.user.create.mockImplementation(async ({ data }) => data);
+    mockPrisma.user.update.mockImplementation(async ({ data }) => ({ id: 'u-1', email: 'old@acme.com', name: 'Old', role: 'TENANT_USER', ...data }));
+  });
+
+  it('creates a user with the mapped role when a seat is free', async () => {
+    mockPrisma.user.count.mockResolvedValue(4);
+    const result = await provisionSsoLogin(
+      connection({ roleMappings: [{ group: 'admins', role: 'TENANT_ADMIN' }] }),
+      { ...identity, groups: ['Admins'] },
+    );
+
+    expect(result).toMatchObject({ kind: 'user', created: true, user: { email: 'new@acme.com', role: 'TENANT_ADMIN', organizationId: ORG } });
+    expect(mockPrisma.user.create.mock.calls[0][0].data.ssoSubject).toBe('sub-1');
+    // The seat is counted and taken under the organisation row lock
+    expect(mockPrisma.$queryRaw.mock.calls[0][0].join('?')).toContain('FOR UPDATE');
+  });
+
+  it('refuses to create a user once maxSeats is reached', async () => {
+    mockPrisma.user.count.mockResolvedValue(5);
+    await expect(provisionSsoLogin(connection(), identity)).rejects.toThrow('no free seats');
+    expect(mockPrisma.user.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses foreign email domains, unmapped users and accounts of other organisations', async () => {
+    await expect(provisionSsoLogin(connection(), { ...identity, email: 'x@evil.com' })).rejects.toThrow('email domain');
+    await expect(provisionSsoLogin(connection({ defaultRole: null }), identity)).rejects.toThrow('not assigned');
+
+    mockPrisma.user.findUnique.mockResolvedValue({ id: 'u-9', organizationId: 'org-2', role: 'TENANT_USER', isActive: true });
+    await expect(provisionSsoLogin(connection(), identity)).rejects.toThrow('another organisation');
+  });
+
+  it('links an existing user without using a seat', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({ id: 'u-1', organizationId: ORG, role: 'TENANT_USER', isActive: true });
+    const result = await provisionSsoLogin(connection(), identity);
+
+    expect(result).toMatchObject({ kind: 'user', created: false });
+    expect(mockPrisma.user.update.mock.calls[0][0].data).toMatchObject({ ssoSubject: 'sub-1' });
+    expect(mockPrisma.user.count).not.toHaveBeenCalled();
+  });
+
+  it('provisions executives as exec licences', async () => {
+    mockPrisma.execLicence.findUnique.mockResolvedValue(null);
+    mockPrisma.execLicence.create.mockImplementation(async ({ data }) => data);
+    const result = await provisionSsoLogin(connection({ defaultRole: 'EXECUTIVE' }), identity);
+
+    expect(result).toMatchObject({ kind: 'executive', created: true, licence: { email: 'new@acme.com', organizationId: ORG } });
+    expect(mockPrisma.user.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses to create accounts until the organisation has a verified domain', async () => {
+    mockPrisma.user.count.mockResolvedValue(0);
+    mockPrisma.execLicence.findUnique.mockResolvedValue(null);
+    const unverified = connection({ emailDomains: [] });
+
+    await expect(provisionSsoLogin(unverified, { ...identity, email: 'ceo@anywhere.com' })).rejects.toThrow('verified email domain');
+    await expect(provisionSsoLogin({ ...unverified, defaultRole: 'EXECUTIVE' }, identity)).rejects.toThrow('verified email domain');
+    expect(mockPrisma.user.create).not.toHaveBeenCalled();
+    expect(mockPrisma.execLicence.create).not.toHaveBeenCalled();
+
+    mockPrisma.user.findUnique.mockResolvedValue({ id: 'u-1', organizationId: ORG, role: 'TENANT_USER', isActive: true });
+    await expect(provisionSsoLogin(unverified, identity)).resolves.toMatchObject({ created: false });
+  });
+});
+
+// ══════════════════════════════════════════════════════════════
+// EMAIL DOMAIN CLAIMS
+// ══════════════════════════════════════════════════════════════
+
+describe('SSO email domains', () => {
+  const duplicate = () => new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+  const claim = { domain: 'acme.com', verificationToken: 'tok', verifiedAt: null, createdAt: new Date('2026-01-01T00:00:00Z') };
+
+  beforeEach(() => {
+    mockPrisma.ssoDomain.findMany.mockResolvedValue([]);
+    mockPrisma.ssoDomain.deleteMany.mockResolvedValue({ count: 0 });
+  });
+
+  it('refuses a domain another organisation holds a live claim on', async () => {
+    mockPrisma.ssoDomain.create.mockRejectedValue(duplicate());
+    await expect(setSsoDomains(ORG, ['acme.com'])).rejects.toMatchObject({ status: 409 });
+    expect(mockPrisma.ssoDomain.deleteMany.mock.calls[0][0].where).toMatchObject({ domain: 'acme.com', verifiedAt: null });
+  });
+
+  it('takes over a lapsed unverified claim and releases domains no longer listed', async () => {
+    mockPrisma.ssoDomain.create.mockRejectedValueOnce(duplicate()).mockResolvedValueOnce({});
+    mockPrisma.ssoDomain.deleteMany.mockResolvedValueOnce({ count: 1 });
+    mockPrisma.ssoDomain.findMany.mockResolvedValueOnce([{ domain: 'old.com' }]).mockResolvedValueOnce([claim]);
+
+    const domains = await setSsoDomains(ORG, ['ACME.com']);
+
+    expect(mockPrisma.ssoDomain.create).toHaveBeenCalledTimes(2);
+    expect(mockPrisma.ssoDomain.deleteMany).toHaveBeenLastCalledWith({ where: { organizationId: ORG, domain: { notIn: ['acme.com'] } } });
+    expect(domains[0].txtRecord).toEqual({ name: '_dream-sso.acme.com', value: 'dream-sso-verification=tok' });
+  });
+
+  it('verifies a domain only when its TXT record is published', async () => {
+    mockPrisma.ssoDomain.findFirst.mockResolvedValue(claim);
+    mockResolveTxt.mockResolvedValueOnce([['unrelated']]);
+    await expect(verifySsoDomain(ORG, 'acme.com')).rejects.toMatchObject({ status: 422 });
+    expect(mockPrisma.ssoDomain.update).not.toHaveBeenCalled();
+
+    mockResolveTxt.mockResolvedValueOnce([['dream-sso-verification=', 'tok']]);
+    mockPrisma.ssoDomain.update.mockResolvedValue({ ...claim, verifiedAt: new Date() });
+    await expect(verifySsoDomain(ORG, 'acme.com')).resolves.toMatchObject({ domain: 'acme.com', verifiedAt: expect.any(Date) });
+    expect(mockResolveTxt).toHaveBeenCalledWith('_dream-sso.acme.com');
+  });
+});
+
+// ══════════════════════════════════════════════════════════════
+// SCIM /Users
+// ══════════════════════════════════════════════════════════════
+
+describe('SCIM users', () => {
+  const principal = { organizationId: ORG, tokenId: 'tok-1', tokenName: 'Okta' };
+  const now = new Date('2026-01-01T00:00:00Z');
+  const storedUser = {
+    id: 'u-1', email: 'pat@acme.com', name: 'Pat Lee', role: 'TENANT_USER', isActive: true,
+    scimExternalId: 'ext-1', createdAt: now, updatedAt: now,
+  };
+
+  beforeEach(() => {
+    mockPrisma.ssoConnection.findUnique.mockResolvedValue({
+      roleMappings: [{ group: 'dream-execs', role: 'EXECUTIVE' }],
+      defaultRole: 'TENANT_USER',
+    });
+    mockPrisma.organization.findUnique.mockResolvedValue({ maxSeats: 2 });
+    mockPrisma.user.findUnique.mockResolvedValue(null);
+    mockPrisma.execLicence.findUnique.mockResolvedValue(null);
+    mockPrisma.user.create.mockImplementation(async ({ data }) => ({ ...storedUser, ...data, createdAt: now, updatedAt: now }));
+    mockPrisma.execLicence.create.mockImplementation(async ({ data }) => ({ title: null, revokedAt: null, ...data, createdAt: now, updatedAt: now }));
+    mockPrisma.user.update.mockImplementation(async ({ data }) => ({ ...storedUser, ...data }));
+    mockPrisma.user.findFirst.mockResolvedValue(storedUser);
+    mockPrisma.session.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('creates a platform user within the seat limit', async () => {
+    mockPrisma.user.count.mockResolvedValue(1);
+    const resource = await createScimUser(principal, {
+      schemas: ['urn:ietf:params:scim:schemas:core:2.0:User'],
+      userName: 'Alex@Acme.com',
+      externalId: 'ext-2',
+      name: { givenName: 'Alex', familyName: 'Kim' },
+      active: 'True',
+    });
+
+    expect(resource).toMatchObject({ userName: 'alex@acme.com', displayName: 'Alex Kim', active: true, userType: 'TENANT_USER', externalId: 'ext-2' });
+    expect(mockPrisma.user.create.mock.calls[0][0].data).toMatchObject({ organizationId: ORG, role: 'TENANT_USER' });
+  });
+
+  it('rejects active users beyond maxSeats and duplicate emails', async () => {
+    mockPrisma.user.count.mockResolvedValue(2);
+    await expect(createScimUser(principal, { userName: 'alex@acme.com' })).rejects.toMatchObject({ status: 403 });
+
+    mockPrisma.user.findUnique.mockResolvedValue({ id: 'u-1' });
+    await expect(createScimUser(principal, { userName: 'pat@acme.com' })).rejects.toMatchObject({ status: 409, scimType: 'uniqueness' });
+  });
+
+  it('provisions mapped groups as exec licences without using a seat', async () => {
+    const resource = await createScimUser(principal, { userName: 'ceo@acme.com', roles: [{ value: 'dream-execs' }] });
+
+    expect(resource.id).toMatch(/^exec_/);
+    expect(resource.userType).toBe('EXECUTIVE');
+    expect(mockPrisma.user.count).not.toHaveBeenCalled();
+  });
+
+  it('deactivates through PATCH and revokes sessions', async () => {
+    const resource = await patchScimUser(principal, 'u-1', {
+      schemas: ['urn:ietf:params:scim:api:messages:2.0:PatchOp'],
+      Operations: [{ op: 'Replace', value: { active: false } }],
+    });
+
+    expect(resource.active).toBe(false);
+    expect(mockPrisma.user.update.mock.calls[0][0].data).toMatchObject({ isActive: false });
+    expect(mockPrisma.session.updateMany).toHaveBeenCalledWith(expect.objectContaining({ where: { userId: 'u-1', revokedAt: null } }));
+  });
+
+  it('deprovisions on DELETE and 404s outside the organisation', async () => {
+    await deleteScimUser(principal, 'u-1');
+    expect(mockPrisma.user.update).toHaveBeenCalledWith({ where: { id: 'u-1' }, data: { isActive: false } });
+    expect(mockPrisma.session.updateMany).toHaveBeenCalled();
+
+    mockPrisma.user.findFirst.mockResolvedValue(null);
+    await expect(deleteScimUser(principal, 'u-elsewhere')).rejects.toBeInstanceOf(ScimError);
+  });
+});
@@ -0,0 +1,231 @@
+// @vitest-environment node
+
+/**
+ * Unit Tests: Tenant domain packs
+ *
+ * Built-in packs satisfy the authoring schema, versions follow semver and
+ * diff structurally, tenant packs shadow built-ins by key, and workshops
+ * pinned to a version keep resolving that version.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    tenantDomainPack: { findMany: vi.fn(), findFirst: vi.fn(), create: vi.fn(), update: vi.fn() },
+    tenantDomainPackVersion: { findFirst: vi.fn(), create: vi.fn() },
+    $transaction: vi.fn((ops: Promise<unknown>[]) => Promise.all(ops)),
+  },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }));
+
+import { DOMAIN_PACKS, getDomainPack, listDomainPacks, type DomainPack } from '@/lib/domain-packs/registry';
+import { INDUSTRY_PACKS } from '@/lib/domain-packs/industry-packs';
+import { resolveIndustryPack } from '@/lib/domain-packs/resolution';
+import { DOMAIN_PACK_JSON_SCHEMA, validateDomainPack } from '@/lib/domain-packs/schema';
+import { bumpVersion, compareSemver, diffDomainPacks, parseSemver } from '@/lib/domain-packs/versioning';
+import {
+  DomainPackError,
+  createTenantDomainPack,
+  loadTenantDomainPacks,
+  loadWorkshopDomainPacks,
+  publishDomainPackVersion,
+} from '@/lib/domain-packs/tenant-packs';
+
+const base = DOMAIN_PACKS.contact_centre;
+const clone = (pack: DomainPack): DomainPack => JSON.parse(JSON.stringify(pack));
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('authoring schema', () => {
+  it('accepts every built-in domain and industry pack', () => {
+    for (const pack of [...Object.values(DOMAIN_PACKS), ...Object.values(INDUSTRY_PACKS)]) {
+      const result = validateDomainPack(pack);
+      expect(result.success ? [] : result.errors, pack.key).toEqual([]);
+    }
+  });
+
+  it('reports duplicate keys and dangling discovery lenses', () => {
+    const pack = clone(base);
+    pack.metricReferences.push({ ...pack.metricReferences[0] });
+    pack.discoveryQuestionTemplates[0].lens = 'nowhere';
+
+    const result = validateDomainPack(pack);
+
+    expect(result.success).toBe(false);
+    expect(result.success ? [] : result.errors.map((e) => e.path)).toEqual([
+      `metricReferences.${pack.metricReferences.length - 1}.key`,
+      'discoveryQuestionTemplates.0.lens',
+    ]);
+  });
+
+  it('rejects unknown fields but ignores version metadata', () => {
+    expect(validateDomainPack({ ...clone(base), extra: true }).success).toBe(false);
+    expect(validateDomainPack({ ...clone(base), version: '9.9.9', versionId: 'v' })).toMatchObject({
+      success: true,
+      pack: { key: 'contact_centre' },
+    });
+  });
+
+  it('exposes a JSON Schema for the editor', () => {
+    expect(DOMAIN_PACK_JSON_SCHEMA.type).toBe('object');
+    expect(DOMAIN_PACK_JSON_SCHEMA.required).toEqual(expect.arrayContaining(['key', 'lenses', 'metricReferences']));
+    expect(DOMAIN_PACK_JSON_SCHEMA.required).not.toContain('journeyStages');
+  });
+});
+
+describe('versioning', () => {
+  it('parses, compares and bumps semantic versions', () => {
+    expect(parseSemver('1.10.0')).toEqual([1, 10, 0]);
+    expect(parseSemver('1.0')).toBeNull();
+    expect(compareSemver('1.10.0', '1.9.3')).toBeGreaterThan(0);
+    expect(bumpVersion('1.4.2', 'major')).toBe('2.0.0');
+    expect(bumpVersion('1.4.2', 'minor')).toBe('1.5.0');
+    expect(bumpVersion('1.4.2', 'patch')).toBe('1.4.3');
+  });
+
+  it('diffs keyed lists by key and suggests the smallest bump', () => {
+    const reordered = clone(base);
+    reordered.metricReferences.reverse();
+    expect(diffDomainPacks(base, reordered).changes).toEqual([]);
+
+    const relabelled = clone(base);
+    relabelled.label = 'Contact Centre (UK)';
+    expect(diffDomainPacks(base, relabelled)).toMatchObject({
+      changes: [{ path: 'label', change: 'changed', before: 'Contact Centre', after: 'Contact Centre (UK)' }],
+      suggestedBump: 'patch',
+    });
+
+    const extended = clone(base);
+    extended.actorTaxonomy.push({ key: 'claims_handler', label: 'Claims Handler', description: '' });
+    expect(diffDomainPacks(base, extended)).toMatchObject({
+      changes: [{ path: 'actorTaxonomy.claims_handler', change: 'added' }],
+      suggestedBump: 'minor',
+    });
+
+    const narrowed = clone(base);
+    narrowed.metricReferences = narrowed.metricReferences.filter((m) => m.key !== 'aht');
+    expect(diffDomainPacks(base, narrowed)).toMatchObject({
+      changes: [{ path: 'metricReferences.aht', change: 'removed' }],
+      suggestedBump: 'major',
+    });
+  });
+});
+
+describe('merging tenant packs', () => {
+  const tenantContactCentre = { ...clone(base), label: 'Our Contact Centre', version: '1.2.0', versionId: 'ver-12' };
+  const tenantRetail = { ...clone(INDUSTRY_PACKS.retail), lenses: ['Customer', 'Stores'], version: '2.0.0', versionId: 'ver-r2' };
+  const tenantPacks = { domain: { contact_centre: tenantContactCentre }, industry: { retail: tenantRetail } };
+
+  it('lets tenant packs shadow built-ins by key', () => {
+    expect(getDomainPack('contact_centre', tenantPacks)).toBe(tenantContactCentre);
+    expect(getDomainPack('sales', tenantPacks)).toBe(DOMAIN_PACKS.sales);
+    expect(getDomainPack('contact_centre')).toBe(base);
+    expect(listDomainPacks(tenantPacks).find((p) => p.key === 'contact_centre')).toMatchObject({ label: 'Our Contact Centre', version: '1.2.0' });
+
+    expect(resolveIndustryPack('Retail', null, null, tenantPacks)).toMatchObject({ lenses: ['Customer', 'Stores'], versionId: 'ver-r2' });
+    expect(resolveIndustryPack('Retail', null, null)).toBe(INDUSTRY_PACKS.retail);
+  });
+
+  it('loads the latest version of each active tenant pack', async () => {
+    mockPrisma.tenantDomainPack.findMany.mockResolvedValue([
+      { key: 'contact_centre', kind: 'domain', versions: [{ id: 'ver-12', version: '1.2.0', config: clone(base) }] },
+      { key: 'retail', kind: 'industry', versions: [{ id: 'ver-r2', version: '2.0.0', config: clone(INDUSTRY_PACKS.retail) }] },
+      { key: 'draft_only', kind: 'domain', versions: [] },
+    ]);
+
+    const packs = await loadTenantDomainPacks('org-1');
+
+    expect(mockPrisma.tenantDomainPack.findMany.mock.calls[0][0].where).toEqual({ organizationId: 'org-1', archivedAt: null });
+    expect(Object.keys(packs.domain)).toEqual(['contact_centre']);
+    expect(packs.domain.contact_centre).toMatchObject({ version: '1.2.0', versionId: 'ver-12' });
+    expect(packs.industry.retail).toMatchObject({ version: '2.0.0', versionId: 'ver-r2' });
+  });
+
+  it('resolves a pinned version in place of the latest', async () => {
+    mockPrisma.tenantDomainPack.findMany.mockResolvedValue([
+      { key: 'contact_centre', kind: 'domain', versions: [{ id: 'ver-12', version: '1.2.0', config: clone(base) }] },
+    ]);
+    mockPrisma.tenantDomainPackVersion.findFirst.mockResolvedValue({
+      id: 'ver-10', version: '1.0.0', config: clone(base), pack: { kind: 'domain' },
+    });
+
+    const packs = await loadWorkshopDomainPacks({ organizationId: 'org-1', domainPackVersionId: 'ver-10' });
+
+    expect(mockPrisma.tenantDomainPackVersion.findFirst.mock.calls[0][0].where).toEqual({ id: 'ver-10', pack: { organizationId: 'org-1' } });
+    expect(packs.domain.contact_centre).toMatchObject({ version: '1.0.0', versionId: 'ver-10' });
+  });
+
+  it('falls back to built-ins when tenant packs cannot be loaded', async () => {
+    mockPrisma.tenantDomainPack.findMany.mockRejectedValue(new Error('relation does not exist'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(loadTenantDomainPacks('org-1')).resolves.toEqual({ domain: {}, industry: {} });
+  });
+});
+
+describe('authoring', () => {
+  it('forks a built-in pack as version 1.0.0 under a new key', async () => {
+    mockPrisma.tenantDomainPack.create.mockImplementation(async ({ data }) => ({ id: 'pack-1', ...data }));
+
+    await createTenantDomainPack({ organizationId: 'org-1', userId: 'user-1', kind: 'domain', forkFrom: 'sales', key: 'inside_sales' });
+
+    const { data } = mockPrisma.tenantDomainPack.create.mock.calls[0][0];
+    expect(data).toMatchObject({ key: 'inside_sales', kind: 'domain', forkedFromKey: 'sales', latestVersion: '1.0.0' });
+    expect(data.versions.create).toMatchObject({ version: '1.0.0', changelog: 'Forked from built-in pack "sales"' });
+    expect(data.versions.create.config).toMatchObject({ key: 'inside_sales', label: DOMAIN_PACKS.sales.label });
+  });
+
+  it('rejects unknown built-ins and invalid configs', async () => {
+    await expect(createTenantDomainPack({ organizationId: 'org-1', userId: 'u', kind: 'industry', forkFrom: 'nope' }))
+      .rejects.toMatchObject({ status: 404 });
+    await expect(createTenantDomainPack({ organizationId: 'org-1', userId: 'u', kind: 'domain', config: { key: 'Bad Key' } }))
+      .rejects.toBeInstanceOf(DomainPackError);
+    expect(mockPrisma.tenantDomainPack.create).not.toHaveBeenCalled();
+  });
+
+  describe('publishing', () => {
+    beforeEach(() => {
+      mockPrisma.tenantDomainPack.findFirst.mockResolvedValue({
+        id: 'pack-1',
+        key: 'contact_centre',
+        versions: [{ id: 'ver-12', version: '1.2.0', config: clone(base) }],
+      });
+      mockPrisma.tenantDomainPackVersion.create.mockImplementation(async ({ data }) => ({ id: 'ver-new', ...data }));
+      mockPrisma.tenantDomainPack.update.mockResolvedValue({});
+    });
+
+    it('bumps from the latest version by the size of the change', async () => {
+      const next = clone(base);
+      next.metricReferences = next.metricReferences.filter((m) => m.key !== 'nps');
+
+      const created = await publishDomainPackVersion({ organizationId: 'org-1', packId: 'pack-1', userId: 'u', config: next, changelog: 'Drop NPS' });
+
+      expect(created.version).toBe('2.0.0');
+      expect(mockPrisma.tenantDomainPack.update.mock.calls[0][0].data).toEqual({ label: base.label, latestVersion: '2.0.0' });
+    });
+
+    it('honours an explicit bump or version', async () => {
+      const next = { ...clone(base), description: 'Updated description' };
+      await expect(publishDomainPackVersion({ organizationId: 'org-1', packId: 'pack-1', userId: 'u', config: next, bump: 'minor' }))
+        .resolves.toMatchObject({ version: '1.3.0' });
+      await expect(publishDomainPackVersion({ organizationId: 'org-1', packId: 'pack-1', userId: 'u', config: next, version: '1.2.0' }))
+        .rejects.toMatchObject({ status: 409 });
+    });
+
+    it('rejects key changes, unchanged configs and packs from other organisations', async () => {
+      await expect(publishDomainPackVersion({ organizationId: 'org-1', packId: 'pack-1', userId: 'u', config: { ...clone(base), key: 'other' } }))
+        .rejects.toMatchObject({ status: 400 });
+      await expect(publishDomainPackVersion({ organizationId: 'org-1', packId: 'pack-1', userId: 'u', config: clone(base) }))
+        .rejects.toMatchObject({ status: 409, message: 'No changes since the latest version' });
+
+      mockPrisma.tenantDomainPack.findFirst.mockResolvedValue(null);
+      await expect(publishDomainPackVersion({ organizationId: 'org-2', packId: 'pack-1', userId: 'u', config: clone(base) }))
+        .rejects.toMatchObject({ status: 404 });
+      expect(mockPrisma.tenantDomainPackVersion.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,327 @@
+// @vitest-environment node
+
+/**
+ * Unit Tests: Per-tenant envelope encryption
+ *
+ * Organisation data keys are wrapped by a file-backed KMS, ciphertext is bound
+ * to its organisation, rotation moves existing ciphertext onto a new key
+ * version in batches, and destroying keys makes data unreadable (and its
+ * plaintext copies are redacted).
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+interface KeyRow {
+  id: string;
+  organizationId: string;
+  version: number;
+  wrappedKey: string | null;
+  kmsProvider: string;
+  kmsKeyId: string;
+  status: string;
+}
+
+const { mockPrisma, keys, messages } = vi.hoisted(() => {
+  const keys: KeyRow[] = [];
+  const messages: Array<{ id: string; content: string }> = [];
+  const matches = (row: Record<string, unknown>, where: Record<string, unknown>) =>
+    Object.entries(where).every(([field, cond]) => {
+      if (cond && typeof cond === 'object' && 'not' in cond) return row[field] !== (cond as { not: unknown }).not;
+      if (cond && typeof cond === 'object' && 'equals' in cond) return row[field] === (cond as { equals: unknown }).equals;
+      return row[field] === cond;
+    });
+  const byVersionDesc = (a: KeyRow, b: KeyRow) => b.version - a.version;
+
+  const mockPrisma = {
+    tenantDataKey: {
+      findUnique: vi.fn(async ({ where }: { where: { organizationId_version: { organizationId: string; version: number } } }) =>
+        keys.find((k) => k.organizationId === where.organizationId_version.organizationId && k.version === where.organizationId_version.version) ?? null),
+      findFirst: vi.fn(async ({ where }: { where: Record<string, unknown> }) =>
+        [...keys].sort(byVersionDesc).find((k) => matches(k as unknown as Record<string, unknown>, where)) ?? null),
+      findMany: vi.fn(async ({ where }: { where: Record<string, unknown> }) =>
+        keys.filter((k) => matches(k as unknown as Record<string, unknown>, where))),
+      count: vi.fn(async ({ where }: { where: Record<string, unknown> }) =>
+        keys.filter((k) => matches(k as unknown as Record<string, unknown>, where)).length),
+      create: vi.fn(async ({ data }: { data: Omit<KeyRow, 'id'> }) => {
+        const row = { id: `key-${keys.length + 1}`, ...data };
+        keys.push(row);
+        return row;
+      }),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: Partial<KeyRow> }) =>
+        Object.assign(keys.find((k) => k.id === where.id)!, data)),
+      updateMany: vi.fn(async ({ where, data }: { where: Record<string, unknown>; data: Partial<KeyRow> }) => {
+        const rows = keys.filter((k) => matches(k as unknown as Record<string, unknown>, where));
+        rows.forEach((k) => Object.assign(k, data));
+        return { count: rows.length };
+      }),
+    },
+    keyRotationJob: { findFirst: vi.fn(), findUnique: vi.fn(), create: vi.fn(), update: vi.fn() },
+    conversationMessage: {
+      findMany: vi.fn(async ({ where, take }: { where: { id?: { gt: string } }; take: number }) =>
+        messages.filter((m) => !where.id || m.id > where.id.gt).slice(0, take)),
+      findUnique: vi.fn(async ({ where }: { where: { id: string } }) => messages.find((m) => m.id === where.id) ?? null),
+      updateMany: vi.fn(async ({ where, data }: { where: Record<string, unknown>; data: { content: string } }) => {
+        const rows = messages.filter((m) => matches(m, where));
+        rows.forEach((m) => Object.assign(m, data));
+        return { count: rows.length };
+      }),
+    },
+    dataPoint: { updateMany: vi.fn() },
+    $executeRaw: vi.fn(),
+    $transaction: vi.fn((ops: Promise<unknown>[]) => Promise.all(ops)),
+  } as Record<string, any>;
+
+  for (const model of ['workshop', 'workshopParticipant', 'workshopScratchpad', 'transcriptChunk', 'captureSegment', 'evidenceDocument', 'piiVaultEntry', 'webhookEndpoint']) {
+    mockPrisma[model] = { findMany: vi.fn(async () => []), findUnique: vi.fn(), updateMany: vi.fn() };
+  }
+
+  return { mockPrisma, keys, messages };
+});
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }));
+vi.mock('@/lib/env', () => ({ env: {} }));
+
+import { LocalFileKms, setKmsProvider } from '@/lib/kms';
+import {
+  clearTenantKeyCache,
+  createTenantDataKey,
+  decryptForTenant,
+  destroyTenantKeys,
+  encryptForTenant,
+  parseTenantCiphertext,
+} from '@/lib/tenant-encryption';
+import {
+  decryptTenantFields,
+  encryptTenantFields,
+  encryptTenantValueCandidates,
+  purgePlaintextCopies,
+  reencryptTenantFields,
+} from '@/lib/workshop-encryption';
+import { advanceKeyRotation } from '@/lib/tenant-key-rotation';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'kms-'));
+  setKmsProvider(new LocalFileKms(join(dir, 'master-keys.json')));
+  keys.length = 0;
+  messages.length = 0;
+  clearTenantKeyCache();
+});
+
+afterEach(() => {
+  setKmsProvider(null);
+  delete process.env.ENCRYPTION_ENABLED;
+  delete process.env.ENCRYPTION_KEY;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('encryptForTenant / decryptForTenant', () => {
+  it('round-trips under a lazily created, wrapped v1 key', async () => {
+    const ciphertext = await encryptForTenant('org-a', 'Our churn is driven by billing errors');
+
+    expect(ciphertext.startsWith('tk1:org-a:1:')).toBe(true);
+    expect(keys).toHaveLength(1);
+    expect(keys[0]).toMatchObject({ organizationId: 'org-a', version: 1, status: 'active', kmsKeyId: 'mk-1' });
+
+    clearTenantKeyCache();
+    expect(await decryptForTenant(ciphertext)).toBe('Our churn is driven by billing errors');
+  });
+
+  it('produces equal ciphertext only in deterministic mode', async () => {
+    const a = await encryptForTenant('org-a', 'same text', { deterministic: true });
+    const b = await encryptForTenant('org-a', 'same text', { deterministic: true });
+    const c = await encryptForTenant('org-a', 'same text');
+
+    expect(a).toBe(b);
+    expect(c).not.toBe(a);
+  });
+
+  it('does not decrypt a value moved to another organisation', async () => {
+    await encryptForTenant('org-b', 'warm up org-b key');
+    const ciphertext = await encryptForTenant('org-a', 'secret');
+    const moved = ciphertext.replace('tk1:org-a:', 'tk1:org-b:');
+
+    await expect(decryptForTenant(moved)).rejects.toThrow('Failed to decrypt tenant data');
+  });
+
+  it('makes data unreadable and refuses writes once keys are destroyed', async () => {
+    const ciphertext = await encryptForTenant('org-a', 'secret');
+
+    expect(await destroyTenantKeys('org-a')).toBe(1);
+    expect(keys[0]).toMatchObject({ status: 'destroyed', wrappedKey: null });
+
+    await expect(decryptForTenant(ciphertext)).rejects.toMatchObject({ status: 410 });
+    await expect(encryptForTenant('org-a', 'new data')).rejects.toMatchObject({ status: 410 });
+  });
+
+  it('honours a shred made by another instance despite cached keys', async () => {
+    const ciphertext = await encryptForTenant('org-a', 'secret');
+    expect(await decryptForTenant(ciphertext)).toBe('secret');
+
+    // Another instance destroys the keys; this process still holds them in cache
+    Object.assign(keys[0], { status: 'destroyed', wrappedKey: null });
+
+    await expect(encryptForTenant('org-a', 'new data')).rejects.toMatchObject({ status: 410 });
+
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now + 6000);
+    try {
+      await expect(decryptForTenant(ciphertext)).rejects.toMatchObject({ status: 410 });
+    } finally {
+      vi.mocked(Date.now).mockRestore();
+    }
+  });
+
+  it('redacts the plaintext copies of encrypted content', async () => {
+    mockPrisma.dataPoint.updateMany.mockResolvedValue({ count: 4 });
+    mockPrisma.transcriptChunk.updateMany.mockResolvedValue({ count: 2 });
+    mockPrisma.$executeRaw.mockResolvedValue(3);
+
+    expect(await purgePlaintextCopies('org-a')).toEqual({ dataPoints: 4, transcriptChunks: 2, conversationMessages: 3 });
+    expect(mockPrisma.dataPoint.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ workshop: { organizationId: 'org-a' } }),
+      data: { rawText: '[redacted]', originalText: null },
+    }));
+    expect(mockPrisma.transcriptChunk.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ workshop: { organizationId: 'org-a' } }),
+    }));
+    const [sql, ...values] = mockPrisma.$executeRaw.mock.calls[0];
+    expect(sql.join('?')).toContain("metadata - 'translation'");
+    expect(values).toEqual(['org-a']);
+  });
+});
+
+describe('encryptTenantFields / decryptTenantFields', () => {
+  it('encrypts registered fields only when encryption is enabled', async () => {
+    const row = { id: 'm1', role: 'PARTICIPANT', content: 'We re-key orders by hand' };
+
+    expect(await encryptTenantFields('conversationMessage', { organizationId: 'org-a' }, row)).toBe(row);
+
+    process.env.ENCRYPTION_ENABLED = 'true';
+    process.env.ENCRYPTION_KEY = 'test-key';
+    const encrypted = await encryptTenantFields('conversationMessage', { organizationId: 'org-a' }, row);
+
+    expect(encrypted.role).toBe('PARTICIPANT');
+    expect(parseTenantCiphertext(encrypted.content)?.organizationId).toBe('org-a');
+    expect(await decryptTenantFields('conversationMessage', encrypted)).toEqual(row);
+  });
+
+  it('serialises JSON fields and parses them back', async () => {
+    process.env.ENCRYPTION_ENABLED = 'true';
+    process.env.ENCRYPTION_KEY = 'test-key';
+    const findings = [{ text: 'Backlog doubled in Q3', type: 'metric' }];
+
+    const encrypted = await encryptTenantFields('evidenceDocument', { organizationId: 'org-a' }, { findings });
+
+    expect(typeof encrypted.findings).toBe('string');
+    expect((await decryptTenantFields('evidenceDocument', encrypted)).findings).toEqual(findings);
+  });
+});
+
+describe('key rotation', () => {
+  it('re-encrypts only values under an older key version', async () => {
+    const old = await encryptForTenant('org-a', 'chunk text', { deterministic: true });
+    const version = await createTenantDataKey('org-a');
+
+    const changed = await reencryptTenantFields('transcriptChunk', 'org-a', { text: old }, version);
+
+    expect(parseTenantCiphertext(changed!.text)?.version).toBe(2);
+    expect(changed!.text).toBe(await encryptForTenant('org-a', 'chunk text', { deterministic: true }));
+    expect(await reencryptTenantFields('transcriptChunk', 'org-a', { text: changed!.text }, version)).toBeNull();
+    expect(await reencryptTenantFields('transcriptChunk', 'org-a', { text: 'plaintext' }, version)).toBeNull();
+  });
+
+  it('matches deterministic values under every live version while a rotation is pending', async () => {
+    process.env.ENCRYPTION_ENABLED = 'true';
+    process.env.ENCRYPTION_KEY = 'test-key';
+    const v1 = await encryptForTenant('org-a', 'bob@example.com', { deterministic: true });
+    await createTenantDataKey('org-a');
+    const v2 = await encryptForTenant('org-a', 'bob@example.com', { deterministic: true });
+
+    const candidates = await encryptTenantValueCandidates('piiVaultEntry', 'value', { organizationId: 'org-a' }, 'bob@example.com');
+
+    expect(candidates).toHaveLength(3);
+    expect(candidates).toEqual(expect.arrayContaining([v1, v2, 'bob@example.com']));
+  });
+
+  it('walks every model in batches and completes the job', async () => {
+    for (let i = 1; i <= 3; i++) {
+      messages.push({ id: `m${i}`, content: await encryptForTenant('org-a', `message ${i}`) });
+    }
+    messages.push({ id: 'm4', content: 'plaintext written while encryption was off' });
+    const targetVersion = await createTenantDataKey('org-a');
+
+    let job: Record<string, unknown> = {
+      id: 'job-1',
+      organizationId: 'org-a',
+      targetVersion,
+      status: 'running',
+      progress: {},
+      rowsScanned: 0,
+      rowsReencrypted: 0,
+      error: null,
+      createdAt: new Date(),
+      completedAt: null,
+    };
+    mockPrisma.keyRotationJob.findUnique.mockImplementation(async () => job);
+    mockPrisma.keyRotationJob.update.mockImplementation(async ({ data }: { data: Record<string, unknown> }) => {
+      job = { ...job, ...data };
+      return job;
+    });
+
+    const first = await advanceKeyRotation('job-1', { batchSize: 2, maxBatches: 5 });
+    expect(first.status).toBe('running');
+    expect(first.progress.conversationMessage).toMatchObject({ cursor: 'm4', scanned: 4, reencrypted: 3, done: false });
+
+    const done = await advanceKeyRotation('job-1', { batchSize: 2, maxBatches: 20 });
+    expect(done.status).toBe('completed');
+    expect(done.percentComplete).toBe(100);
+    expect(done.rowsReencrypted).toBe(3);
+
+    expect(messages[3].content).toBe('plaintext written while encryption was off');
+    for (const message of messages.slice(0, 3)) {
+      expect(parseTenantCiphertext(message.content)?.version).toBe(2);
+    }
+    expect(await decryptForTenant(messages[0].content)).toBe('message 1');
+  });
+
+  it('does not overwrite a value written while the row was being re-encrypted', async () => {
+    messages.push({ id: 'm1', content: await encryptForTenant('org-a', 'original') });
+    const targetVersion = await createTenantDataKey('org-a');
+
+    let job: Record<string, unknown> = {
+      id: 'job-2',
+      organizationId: 'org-a',
+      targetVersion,
+      status: 'running',
+      progress: {},
+      rowsScanned: 0,
+      rowsReencrypted: 0,
+      error: null,
+      createdAt: new Date(),
+      completedAt: null,
+    };
+    mockPrisma.keyRotationJob.findUnique.mockImplementation(async () => job);
+    mockPrisma.keyRotationJob.update.mockImplementation(async ({ data }: { data: Record<string, unknown> }) => {
+      job = { ...job, ...data };
+      return job;
+    });
+    // The app edits the message between the job's read and its write
+    const edited = await encryptForTenant('org-a', 'edited');
+    mockPrisma.conversationMessage.findMany.mockImplementationOnce(async () => {
+      const read = messages.map((m) => ({ ...m }));
+      messages[0].content = edited;
+      return read;
+    });
+
+    const done = await advanceKeyRotation('job-2', { batchSize: 10, maxBatches: 20 });
+
+    expect(done.status).toBe('completed');
+    expect(messages[0].content).toBe(edited);
+    expect(await decryptForTenant(messages[0].content)).toBe('edited');
+  });
+});
@@ -5,7 +5,7 @@
  *   "approval_system" is rejected if there is no input cluster named "approval_system",
  *   even though "approval" and "system" are separate input labels.
  *
- * Blocker 3: OpenAI client is constructed lazily inside the function.
+ * Blocker 3: the LLM layer is imported lazily inside the function.
  *   Importing topic-extraction.ts must be safe with no OPENAI_API_KEY in scope.
  *   These tests verify the module loads without side effects under the mock.
  *
@@ -28,8 +28,8 @@ vi.mock('@/lib/circuit-breaker', () => ({
   openAiBreaker: { execute: (fn: () => unknown) => fn() },
 }));
 
-// topic-extraction.ts reads process.env.OPENAI_API_KEY directly (not via @/lib/env),
-// so we set it here for tests that exercise the LLM path.
+// The OpenAI provider falls back to process.env.OPENAI_API_KEY, so we set it
+// here for tests that exercise the LLM path.
 beforeAll(() => { process.env.OPENAI_API_KEY = 'test-key'; });
 afterAll(() => { delete process.env.OPENAI_API_KEY; });
 
@@ -171,8 +171,8 @@ describe('refineTopicsWithLLM — Guard 2: canonical must be an existing input l
 describe('refineTopicsWithLLM — Blocker 3: lazy client construction', () => {
   it('returns empty map when OPENAI_API_KEY is absent (no module-level crash)', async () => {
     // This test verifies two things:
-    // 1. topic-extraction.ts does NOT import @/lib/env at module level (which would throw
-    //    when DATABASE_URL is absent, crashing the import).
+    // 1. topic-extraction.ts does NOT import @/lib/env (via @/lib/llm) at module level,
+    //    which would throw when DATABASE_URL is absent, crashing the import.
     // 2. When OPENAI_API_KEY is absent from process.env, the function returns an empty
     //    map rather than throwing.
     //
@@ -184,8 +184,8 @@ describe('refineTopicsWithLLM — Blocker 3: lazy client construction', () => {
     const savedKey = process.env.OPENAI_API_KEY;
     delete process.env.OPENAI_API_KEY;
     try {
-      // topic-extraction.ts reads process.env.OPENAI_API_KEY directly — if absent,
-      // refineTopicsWithLLM returns new Map() immediately without constructing a client.
+      // With no OPENAI_API_KEY the provider is unconfigured, so refineTopicsWithLLM
+      // returns new Map() immediately without constructing a client.
       const { refineTopicsWithLLM } = await import('@/lib/output/topic-extraction');
       const signals = [makeSignal('s1', 'approval')];
       const result = await refineTopicsWithLLM(signals, {});
@@ -0,0 +1,238 @@
+// @vitest-environment node
+
+/**
+ * Unit Tests: Outbound webhooks
+ *
+ * Signing and verification, fan-out to subscribed endpoints, delivery
+ * attempts with exponential backoff, replay and the destination checks.
+ * A stubbed fetch stands in for the receiving endpoint.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    webhookEndpoint: { findMany: vi.fn() },
+    webhookDelivery: {
+      create: vi.fn(),
+      updateMany: vi.fn(),
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }));
+
+import {
+  MAX_ATTEMPTS,
+  assertDeliverableUrl,
+  attemptWebhookDelivery,
+  enqueueWebhookEvent,
+  replayWebhookDelivery,
+  retryDelayMs,
+} from '@/lib/webhooks/delivery';
+import {
+  generateWebhookSecret,
+  openWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from '@/lib/webhooks/signing';
+import { encrypt } from '@/lib/encryption';
+import { OutboundUrlError, publicFetch } from '@/lib/outbound-url';
+import type { WebhookEvent } from '@/lib/webhooks/events';
+
+const SECRET = 'whsec_test';
+
+const EVENT: WebhookEvent = {
+  id: 'evt_1',
+  type: 'scratchpad.published',
+  createdAt: '2026-10-01T10:00:00.000Z',
+  organizationId: 'org-1',
+  workshopId: 'ws-1',
+  data: { workshopId: 'ws-1', scratchpadId: 'sp-1' },
+};
+
+function pendingDelivery(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'del-1',
+    endpointId: 'ep-1',
+    organizationId: 'org-1',
+    eventId: EVENT.id,
+    eventType: EVENT.type,
+    workshopId: 'ws-1',
+    payload: EVENT,
+    status: 'pending',
+    attempts: 0,
+    endpoint: { url: 'https://crm.example.com/hooks', secret: SECRET, enabled: true },
+    ...overrides,
+  };
+}
+
+let received: Array<{ url: string; headers: Record<string, string>; body: string }>;
+let respondWith: () => Response;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  received = [];
+  respondWith = () => new Response('ok', { status: 200 });
+  vi.stubGlobal('fetch', vi.fn(async (url: URL, init: RequestInit) => {
+    received.push({ url: String(url), headers: init.headers as Record<string, string>, body: String(init.body) });
+    return respondWith();
+  }));
+  mockPrisma.webhookDelivery.updateMany.mockResolvedValue({ count: 1 });
+  mockPrisma.webhookDelivery.findUnique.mockResolvedValue(pendingDelivery());
+  mockPrisma.webhookDelivery.update.mockResolvedValue({});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('signing', () => {
+  it('verifies its own signatures and rejects tampering, wrong secrets and stale timestamps', () => {
+    const body = JSON.stringify(EVENT);
+    const now = 1_800_000_000;
+    const header = signWebhookPayload(SECRET, body, now);
+
+    expect(header).toMatch(/^t=1800000000,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(SECRET, body, header, { now })).toBe(true);
+    expect(verifyWebhookSignature(SECRET, body.replace('sp-1', 'sp-2'), header, { now })).toBe(false);
+    expect(verifyWebhookSignature('whsec_other', body, header, { now })).toBe(false);
+    expect(verifyWebhookSignature(SECRET, body, header, { now: now + 600 })).toBe(false);
+    expect(verifyWebhookSignature(SECRET, body, 'garbage', { now })).toBe(false);
+  });
+
+  it('generates distinct prefixed secrets', () => {
+    const a = generateWebhookSecret();
+    expect(a).toMatch(/^whsec_/);
+    expect(a).not.toBe(generateWebhookSecret());
+  });
+});
+
+describe('fan-out', () => {
+  it('creates one pending delivery per endpoint subscribed to the event type', async () => {
+    mockPrisma.webhookEndpoint.findMany.mockResolvedValue([{ id: 'ep-1' }, { id: 'ep-2' }]);
+    mockPrisma.webhookDelivery.create.mockImplementation(async ({ data }) => ({ id: `del-${data.endpointId}` }));
+
+    const ids = await enqueueWebhookEvent(EVENT);
+
+    expect(ids).toEqual(['del-ep-1', 'del-ep-2']);
+    expect(mockPrisma.webhookEndpoint.findMany.mock.calls[0][0].where).toEqual({
+      organizationId: 'org-1',
+      enabled: true,
+      OR: [{ eventTypes: { isEmpty: true } }, { eventTypes: { has: 'scratchpad.published' } }],
+    });
+    expect(mockPrisma.webhookDelivery.create.mock.calls[0][0].data).toMatchObject({
+      eventId: 'evt_1',
+      eventType: 'scratchpad.published',
+      payload: EVENT,
+    });
+  });
+});
+
+describe('delivery attempts', () => {
+  it('POSTs the signed event and records success', async () => {
+    const result = await attemptWebhookDelivery('del-1');
+
+    expect(result).toMatchObject({ status: 'succeeded', attempts: 1, statusCode: 200, error: null });
+    const [request] = received;
+    expect(request.url).toBe('https://crm.example.com/hooks');
+    expect(request.headers['X-Dream-Event']).toBe('scratchpad.published');
+    expect(request.headers['X-Dream-Event-Id']).toBe('evt_1');
+    expect(verifyWebhookSignature(SECRET, request.body, request.headers['X-Dream-Signature'])).toBe(true);
+    expect(JSON.parse(request.body)).toEqual(EVENT);
+    expect(mockPrisma.webhookDelivery.update.mock.calls[0][0].data).toMatchObject({ status: 'succeeded', nextAttemptAt: null });
+  });
+
+  it('schedules retries with exponential backoff, then gives up', async () => {
+    respondWith = () => new Response('down', { status: 503 });
+
+    const first = await attemptWebhookDelivery('del-1');
+    expect(first).toMatchObject({ status: 'pending', attempts: 1, statusCode: 503, error: 'HTTP 503: down' });
+    const nextAt = mockPrisma.webhookDelivery.update.mock.calls[0][0].data.nextAttemptAt as Date;
+    expect(nextAt.getTime() - Date.now()).toBeGreaterThan(retryDelayMs(1) - 1000);
+
+    mockPrisma.webhookDelivery.findUnique.mockResolvedValue(pendingDelivery({ attempts: MAX_ATTEMPTS - 1 }));
+    const last = await attemptWebhookDelivery('del-1');
+    expect(last).toMatchObject({ status: 'failed', attempts: MAX_ATTEMPTS });
+  });
+
+  it('doubles the delay per attempt up to the cap', () => {
+    expect(retryDelayMs(1)).toBe(30_000);
+    expect(retryDelayMs(2)).toBe(60_000);
+    expect(retryDelayMs(4)).toBe(240_000);
+    expect(retryDelayMs(30)).toBe(6 * 60 * 60 * 1000);
+  });
+
+  it('skips deliveries another worker has claimed', async () => {
+    mockPrisma.webhookDelivery.updateMany.mockResolvedValue({ count: 0 });
+    expect(await attemptWebhookDelivery('del-1')).toBeNull();
+    expect(received).toHaveLength(0);
+  });
+
+  it('fails without retrying when the endpoint is disabled', async () => {
+    mockPrisma.webhookDelivery.findUnique.mockResolvedValue(
+      pendingDelivery({ endpoint: { url: 'https://crm.example.com/hooks', secret: SECRET, enabled: false } }),
+    );
+    expect(await attemptWebhookDelivery('del-1')).toMatchObject({ status: 'failed', error: 'Endpoint disabled' });
+    expect(received).toHaveLength(0);
+  });
+});
+
+describe('replay', () => {
+  it('sends the same event again as a new delivery', async () => {
+    mockPrisma.webhookDelivery.findFirst.mockResolvedValue(pendingDelivery({ status: 'failed', attempts: MAX_ATTEMPTS }));
+    mockPrisma.webhookDelivery.create.mockResolvedValue({ id: 'del-2' });
+    mockPrisma.webhookDelivery.findUnique.mockResolvedValue(pendingDelivery({ id: 'del-2' }));
+
+    const result = await replayWebhookDelivery('org-1', 'ep-1', 'del-1');
+
+    expect(mockPrisma.webhookDelivery.findFirst).toHaveBeenCalledWith({
+      where: { id: 'del-1', endpointId: 'ep-1', organizationId: 'org-1' },
+    });
+    expect(mockPrisma.webhookDelivery.create.mock.calls[0][0].data).toMatchObject({ eventId: 'evt_1', replayOfId: 'del-1' });
+    expect(result).toMatchObject({ deliveryId: 'del-2', status: 'succeeded' });
+  });
+
+  it('404s deliveries of other organisations', async () => {
+    mockPrisma.webhookDelivery.findFirst.mockResolvedValue(null);
+    await expect(replayWebhookDelivery('org-2', 'ep-1', 'del-1')).rejects.toMatchObject({ status: 404 });
+  });
+});
+
+describe('destination checks', () => {
+  it('requires https in production and refuses internal addresses', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    await expect(assertDeliverableUrl('http://crm.example.com/hooks')).rejects.toThrow('https');
+    await expect(assertDeliverableUrl('https://169.254.169.254/latest')).rejects.toThrow('private or internal');
+    await expect(assertDeliverableUrl('https://[::1]/hooks')).rejects.toThrow('private or internal');
+    await expect(assertDeliverableUrl('https://user:pw@8.8.8.8/hooks')).rejects.toThrow('credentials');
+    await expect(assertDeliverableUrl('https://8.8.8.8/hooks')).resolves.toBeInstanceOf(URL);
+  });
+
+  it('allows http for local development', async () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    await expect(assertDeliverableUrl('http://localhost:4000/hooks')).resolves.toBeInstanceOf(URL);
+    await expect(assertDeliverableUrl('ftp://example.com')).rejects.toThrow('https');
+  });
+
+  it('checks the address the connection actually uses', async () => {
+    vi.unstubAllGlobals();
+    vi.stubEnv('NODE_ENV', 'production');
+    // localhost passes no hostname check here; only the connection's own lookup catches it
+    const error = await publicFetch('http://localhost:4000/hooks').catch((err: unknown) => err);
+    expect((error as { cause?: unknown }).cause).toBeInstanceOf(OutboundUrlError);
+  });
+});
+
+describe('stored secrets', () => {
+  it('reads plaintext and secrets sealed under the process-wide key', async () => {
+    vi.stubEnv('ENCRYPTION_KEY', 'a'.repeat(64));
+    await expect(openWebhookSecret(SECRET)).resolves.toBe(SECRET);
+    await expect(openWebhookSecret(encrypt(SECRET))).resolves.toBe(SECRET);
+  });
+});
@@ -0,0 +1,132 @@
+// @vitest-environment node
+
+/**
+ * Unit Tests: Per-workshop permissions
+ *
+ * Permission sets granted on a WorkshopShare decide what a shared user may do;
+ * admins and the workshop's creator hold every permission. Every
+ * /api/admin/workshops/[id]/* route maps to the permission it needs.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    workshop: { findUnique: vi.fn() },
+    workshopShare: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }));
+
+import {
+  WORKSHOP_PERMISSIONS,
+  parseWorkshopApiPath,
+  permissionsForSets,
+  requiredWorkshopPermission,
+} from '@/lib/auth/workshop-permissions';
+import {
+  enforceWorkshopRoutePermission,
+  hasWorkshopPermission,
+  validateWorkshopAccess,
+} from '@/lib/middleware/validate-workshop-access';
+
+const WORKSHOP = { id: 'ws-1', organizationId: 'org-1', createdById: 'owner', isExample: false };
+const SHARED_USER = { userId: 'u-2', role: 'TENANT_USER', organizationId: 'org-1' };
+
+describe('permission sets', () => {
+  it('unions the permissions of each set and ignores unknown ids', () => {
+    expect(permissionsForSets(['viewer'])).toEqual(['workshop:view']);
+    expect(permissionsForSets(['analyst', 'commercial-viewer', 'bogus'])).toEqual([
+      'workshop:view',
+      'analysis:run',
+      'commercial:view',
+    ]);
+    expect(permissionsForSets(['facilitator'])).not.toContain('commercial:view');
+  });
+});
+
+describe('route map', () => {
+  it('defaults reads to view and writes to edit', () => {
+    expect(requiredWorkshopPermission('/participants', 'GET')).toBe('workshop:view');
+    expect(requiredWorkshopPermission('/participants', 'POST')).toBe('workshop:edit');
+    expect(requiredWorkshopPermission('', 'PATCH')).toBe('workshop:edit');
+  });
+
+  it('maps special routes to their permission', () => {
+    expect(requiredWorkshopPermission('/scratchpad/verify-commercial', 'POST')).toBe('commercial:view');
+    expect(requiredWorkshopPermission('/scratchpad/publish', 'POST')).toBe('report:approve');
+    expect(requiredWorkshopPermission('/hemisphere/synthesise', 'POST')).toBe('analysis:run');
+    expect(requiredWorkshopPermission('/hemisphere', 'GET')).toBe('workshop:view');
+    expect(requiredWorkshopPermission('/export-pdf', 'POST')).toBe('workshop:view');
+    expect(requiredWorkshopPermission('/export-docx', 'POST')).toBe('workshop:view');
+    expect(requiredWorkshopPermission('/live/snapshots', 'POST')).toBe('workshop:facilitate');
+    expect(requiredWorkshopPermission('/shares', 'POST')).toBe('workshop:manage');
+    expect(requiredWorkshopPermission('/shares', 'GET')).toBe('workshop:view');
+    expect(requiredWorkshopPermission('', 'DELETE')).toBe('workshop:manage');
+  });
+
+  it('parses workshop API paths', () => {
+    expect(parseWorkshopApiPath('/api/admin/workshops/ws-1/findings/f-1')).toEqual({ workshopId: 'ws-1', subpath: '/findings/f-1' });
+    expect(parseWorkshopApiPath('/api/admin/workshops/ws-1')).toEqual({ workshopId: 'ws-1', subpath: '' });
+    expect(parseWorkshopApiPath('/api/admin/workshops')).toBeNull();
+    expect(parseWorkshopApiPath('/api/admin/users/u-1')).toBeNull();
+  });
+});
+
+describe('validateWorkshopAccess permissions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.workshop.findUnique.mockResolvedValue(WORKSHOP);
+  });
+
+  it('gives admins and the creator every permission', async () => {
+    const admin = await validateWorkshopAccess('ws-1', 'org-1', 'TENANT_ADMIN', 'admin');
+    const owner = await validateWorkshopAccess('ws-1', 'org-1', 'TENANT_USER', 'owner');
+    expect(admin.permissions).toEqual([...WORKSHOP_PERMISSIONS]);
+    expect(owner.permissions).toEqual([...WORKSHOP_PERMISSIONS]);
+    expect(mockPrisma.workshopShare.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("limits shared users to their share's permission sets", async () => {
+    mockPrisma.workshopShare.findUnique.mockResolvedValue({ id: 'sh-1', permissionSets: ['viewer'] });
+    const access = await validateWorkshopAccess('ws-1', 'org-1', 'TENANT_USER', 'u-2');
+    expect(access.valid).toBe(true);
+    expect(hasWorkshopPermission(access, 'workshop:view')).toBe(true);
+    expect(hasWorkshopPermission(access, 'commercial:view')).toBe(false);
+  });
+
+  it('treats a result without permissions as holding none', () => {
+    expect(hasWorkshopPermission({ valid: true }, 'workshop:view')).toBe(false);
+  });
+});
+
+describe('enforceWorkshopRoutePermission', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.workshop.findUnique.mockResolvedValue(WORKSHOP);
+  });
+
+  it('ignores paths outside the workshop namespace', async () => {
+    expect(await enforceWorkshopRoutePermission('/api/admin/users', 'GET', SHARED_USER)).toBeNull();
+    expect(mockPrisma.workshop.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('lets a permitted request through and blocks the rest with 403', async () => {
+    mockPrisma.workshopShare.findUnique.mockResolvedValue({ id: 'sh-1', permissionSets: ['analyst'] });
+
+    expect(await enforceWorkshopRoutePermission('/api/admin/workshops/ws-1/hemisphere/synthesise', 'POST', SHARED_USER)).toBeNull();
+
+    const denied = await enforceWorkshopRoutePermission('/api/admin/workshops/ws-1/scratchpad/verify-commercial', 'POST', SHARED_USER);
+    expect(denied?.status).toBe(403);
+    expect(await denied?.json()).toMatchObject({ requiredPermission: 'commercial:view' });
+  });
+
+  it('returns 403 for users without a share and 404 for unknown workshops', async () => {
+    mockPrisma.workshopShare.findUnique.mockResolvedValue(null);
+    expect((await enforceWorkshopRoutePermission('/api/admin/workshops/ws-1', 'GET', SHARED_USER))?.status).toBe(403);
+
+    mockPrisma.workshop.findUnique.mockResolvedValue(null);
+    expect((await enforceWorkshopRoutePermission('/api/admin/workshops/nope', 'GET', SHARED_USER))?.status).toBe(404);
+  });
+});
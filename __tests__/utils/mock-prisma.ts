@@ -42,7 +42,9 @@ export const mockPrisma = {
   },
   conversationMessage: {
     findMany: vi.fn(),
+    findFirst: vi.fn(),
     create: vi.fn(),
+    update: vi.fn(),
     deleteMany: vi.fn(),
   },
   conversationInsight: {
@@ -104,6 +106,10 @@ export const mockPrisma = {
     create: vi.fn(),
     upsert: vi.fn(),
   },
+  ssoConnection: {
+    findUnique: vi.fn(),
+    findFirst: vi.fn(),
+  },
   consentRecord: {
     findUnique: vi.fn(),
     findFirst: vi.fn(),
@@ -114,6 +120,13 @@ export const mockPrisma = {
     deleteMany: vi.fn(),
     count: vi.fn(),
   },
+  liveCognitionState: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    createMany: vi.fn(),
+    updateMany: vi.fn(),
+    deleteMany: vi.fn(async () => ({ count: 0 })),
+  },
   $executeRaw: vi.fn(),
   $queryRaw: vi.fn(),
   $queryRawUnsafe: vi.fn(),
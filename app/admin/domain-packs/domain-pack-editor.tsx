@@ -0,0 +1,397 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Archive, CheckCircle2, GitCompare, GitFork, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import type { DomainPackChange, DomainPackDiff } from '@/lib/domain-packs/versioning';
+
+// ══════════════════════════════════════════════════════════
+// TYPES
+// ══════════════════════════════════════════════════════════
+
+type Kind = 'domain' | 'industry';
+
+type BuiltInSummary = { key: string; label: string; category: string };
+
+type PackSummary = {
+  id: string;
+  key: string;
+  kind: Kind;
+  label: string;
+  forkedFromKey: string | null;
+  latestVersion: string | null;
+};
+
+type PackVersion = {
+  id: string;
+  version: string;
+  changelog: string | null;
+  config: Record<string, unknown>;
+  createdAt: string;
+  _count: { workshops: number };
+};
+
+type PackDetail = PackSummary & { versions: PackVersion[] };
+
+type ValidationError = { path: string; message: string };
+
+const BUMPS = ['auto', 'patch', 'minor', 'major'] as const;
+
+// ══════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════
+
+function changeColour(change: DomainPackChange['change']): string {
+  if (change === 'added') return 'text-emerald-700';
+  if (change === 'removed') return 'text-red-600';
+  return 'text-amber-700';
+}
+
+function DiffList({ diff }: { diff: DomainPackDiff }) {
+  if (diff.changes.length === 0) {
+    return <p className="text-xs text-muted-foreground">No changes.</p>;
+  }
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">
+        {diff.changes.length} change{diff.changes.length === 1 ? '' : 's'} · suggested bump: <strong>{diff.suggestedBump}</strong>
+      </p>
+      <ul className="max-h-64 overflow-auto rounded border bg-white p-2 font-mono text-xs">
+        {diff.changes.map((c) => (
+          <li key={`${c.change}:${c.path}`} className={changeColour(c.change)}>
+            {c.change === 'added' ? '+' : c.change === 'removed' ? '−' : '~'} {c.path}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// ══════════════════════════════════════════════════════════
+// COMPONENT
+// ══════════════════════════════════════════════════════════
+
+export function DomainPackEditor() {
+  const [builtIn, setBuiltIn] = useState<Record<Kind, BuiltInSummary[]>>({ domain: [], industry: [] });
+  const [packs, setPacks] = useState<PackSummary[]>([]);
+  const [selected, setSelected] = useState<PackDetail | null>(null);
+
+  const [forkKind, setForkKind] = useState<Kind>('domain');
+  const [forkFrom, setForkFrom] = useState('');
+  const [forkKey, setForkKey] = useState('');
+
+  const [draft, setDraft] = useState('');
+  const [changelog, setChangelog] = useState('');
+  const [bump, setBump] = useState<(typeof BUMPS)[number]>('auto');
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+  const [pendingDiff, setPendingDiff] = useState<DomainPackDiff | null>(null);
+
+  const [diffFrom, setDiffFrom] = useState('');
+  const [diffTo, setDiffTo] = useState('');
+  const [versionDiff, setVersionDiff] = useState<DomainPackDiff | null>(null);
+
+  const [busy, setBusy] = useState(false);
+
+  const loadPacks = useCallback(async () => {
+    const res = await fetch('/api/admin/domain-packs');
+    if (!res.ok) {
+      toast.error('Failed to load domain packs');
+      return;
+    }
+    const data = await res.json();
+    setBuiltIn(data.builtIn);
+    setPacks(data.packs);
+  }, []);
+
+  const selectPack = useCallback(async (packId: string) => {
+    const res = await fetch(`/api/admin/domain-packs/${packId}`);
+    if (!res.ok) {
+      toast.error('Failed to load domain pack');
+      return;
+    }
+    const { pack } = (await res.json()) as { pack: PackDetail };
+    setSelected(pack);
+    setDraft(JSON.stringify(pack.versions[0]?.config ?? {}, null, 2));
+    setErrors([]);
+    setPendingDiff(null);
+    setVersionDiff(null);
+    setDiffFrom(pack.versions[1]?.version ?? (pack.forkedFromKey ? 'builtin' : ''));
+    setDiffTo(pack.versions[0]?.version ?? '');
+  }, []);
+
+  useEffect(() => {
+    loadPacks();
+  }, [loadPacks]);
+
+  const parseDraft = (): unknown | undefined => {
+    try {
+      return JSON.parse(draft);
+    } catch (err) {
+      setErrors([{ path: '(root)', message: err instanceof Error ? err.message : 'Invalid JSON' }]);
+      return undefined;
+    }
+  };
+
+  const handleFork = async () => {
+    if (!forkFrom) return;
+    setBusy(true);
+    try {
+      const res = await fetch('/api/admin/domain-packs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ kind: forkKind, forkFrom, key: forkKey.trim() || undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to fork pack');
+        return;
+      }
+      toast.success(`Forked ${forkFrom} as ${data.pack.key} 1.0.0`);
+      setForkFrom('');
+      setForkKey('');
+      await loadPacks();
+      await selectPack(data.pack.id);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleValidate = async () => {
+    const config = parseDraft();
+    if (config === undefined || !selected) return;
+    setBusy(true);
+    try {
+      const res = await fetch('/api/admin/domain-packs/validate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ config, packId: selected.id }),
+      });
+      const data = await res.json();
+      setErrors(data.errors ?? []);
+      setPendingDiff(data.diff ?? null);
+      if (data.valid) toast.success('Pack is valid');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    const config = parseDraft();
+    if (config === undefined || !selected) return;
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/admin/domain-packs/${selected.id}/versions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          config,
+          changelog: changelog.trim() || undefined,
+          ...(bump !== 'auto' ? { bump } : {}),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setErrors(data.details ?? []);
+        toast.error(data.error || 'Failed to publish version');
+        return;
+      }
+      toast.success(`Published ${selected.key} ${data.version.version}`);
+      setChangelog('');
+      await loadPacks();
+      await selectPack(selected.id);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCompare = async () => {
+    if (!selected || !diffFrom || !diffTo) return;
+    const params = new URLSearchParams({ from: diffFrom, to: diffTo });
+    const res = await fetch(`/api/admin/domain-packs/${selected.id}/diff?${params}`);
+    const data = await res.json();
+    if (!res.ok) {
+      toast.error(data.error || 'Failed to compare versions');
+      return;
+    }
+    setVersionDiff(data);
+  };
+
+  const handleArchive = async () => {
+    if (!selected) return;
+    const res = await fetch(`/api/admin/domain-packs/${selected.id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      toast.error('Failed to archive pack');
+      return;
+    }
+    toast.success(`Archived ${selected.label}; the built-in pack applies to new workshops`);
+    setSelected(null);
+    await loadPacks();
+  };
+
+  const versionOptions = [
+    ...(selected?.forkedFromKey ? [{ value: 'builtin', label: `built-in ${selected.forkedFromKey}` }] : []),
+    ...(selected?.versions ?? []).map((v) => ({ value: v.version, label: v.version })),
+  ];
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[280px_1fr]">
+      {/* ── Pack list + fork ─────────────────────────── */}
+      <div className="space-y-4">
+        <div className="rounded-xl border bg-white p-4 space-y-3">
+          <h2 className="text-sm font-semibold">Your packs</h2>
+          {packs.length === 0 && <p className="text-xs text-muted-foreground">No tenant packs yet.</p>}
+          <ul className="space-y-1">
+            {packs.map((p) => (
+              <li key={p.id}>
+                <button
+                  type="button"
+                  onClick={() => selectPack(p.id)}
+                  className={`w-full rounded px-2 py-1.5 text-left text-sm hover:bg-gray-100 ${selected?.id === p.id ? 'bg-gray-100 font-medium' : ''}`}
+                >
+                  {p.label}
+                  <span className="ml-1 text-xs text-muted-foreground">
+                    {p.kind} · {p.latestVersion ?? '—'}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="rounded-xl border bg-white p-4 space-y-2">
+          <h2 className="text-sm font-semibold flex items-center gap-1.5">
+            <GitFork className="h-4 w-4" /> Fork a built-in pack
+          </h2>
+          <select
+            className="w-full rounded border px-2 py-1.5 text-sm"
+            value={forkKind}
+            onChange={(e) => { setForkKind(e.target.value as Kind); setForkFrom(''); }}
+          >
+            <option value="domain">Domain packs</option>
+            <option value="industry">Industry packs</option>
+          </select>
+          <select
+            className="w-full rounded border px-2 py-1.5 text-sm"
+            value={forkFrom}
+            onChange={(e) => setForkFrom(e.target.value)}
+          >
+            <option value="">Choose a pack…</option>
+            {builtIn[forkKind].map((p) => (
+              <option key={p.key} value={p.key}>{p.label}</option>
+            ))}
+          </select>
+          <Input
+            placeholder="New key (blank replaces the built-in)"
+            value={forkKey}
+            onChange={(e) => setForkKey(e.target.value)}
+          />
+          <Button size="sm" className="w-full" disabled={!forkFrom || busy} onClick={handleFork}>
+            Fork
+          </Button>
+        </div>
+      </div>
+
+      {/* ── Editor ───────────────────────────────────── */}
+      {selected ? (
+        <div className="space-y-4">
+          <div className="rounded-xl border bg-white p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="font-semibold">{selected.label}</h2>
+                <p className="text-xs text-muted-foreground">
+                  {selected.kind} pack <code>{selected.key}</code>
+                  {selected.forkedFromKey && <> · forked from <code>{selected.forkedFromKey}</code></>}
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleArchive} disabled={busy}>
+                <Archive className="h-4 w-4 mr-1.5" /> Archive
+              </Button>
+            </div>
+
+            <Textarea
+              className="min-h-[420px] font-mono text-xs"
+              spellCheck={false}
+              value={draft}
+              onChange={(e) => { setDraft(e.target.value); setPendingDiff(null); }}
+            />
+
+            {errors.length > 0 && (
+              <ul className="rounded border border-red-200 bg-red-50 p-2 text-xs text-red-700 space-y-0.5">
+                {errors.map((e, i) => (
+                  <li key={i}><code>{e.path}</code>: {e.message}</li>
+                ))}
+              </ul>
+            )}
+            {pendingDiff && <DiffList diff={pendingDiff} />}
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                className="flex-1 min-w-[200px]"
+                placeholder="Changelog"
+                value={changelog}
+                onChange={(e) => setChangelog(e.target.value)}
+              />
+              <select
+                className="rounded border px-2 py-1.5 text-sm"
+                value={bump}
+                onChange={(e) => setBump(e.target.value as (typeof BUMPS)[number])}
+              >
+                {BUMPS.map((b) => (
+                  <option key={b} value={b}>{b === 'auto' ? 'Bump: auto' : `Bump: ${b}`}</option>
+                ))}
+              </select>
+              <Button variant="outline" size="sm" onClick={handleValidate} disabled={busy}>
+                <CheckCircle2 className="h-4 w-4 mr-1.5" /> Validate
+              </Button>
+              <Button size="sm" onClick={handlePublish} disabled={busy}>
+                <Upload className="h-4 w-4 mr-1.5" /> Publish version
+              </Button>
+            </div>
+          </div>
+
+          <div className="rounded-xl border bg-white p-4 space-y-3">
+            <h3 className="text-sm font-semibold">Versions</h3>
+            <table className="w-full text-xs">
+              <thead className="text-left text-muted-foreground">
+                <tr><th className="py-1">Version</th><th>Changelog</th><th>Published</th><th>Pinned workshops</th></tr>
+              </thead>
+              <tbody>
+                {selected.versions.map((v) => (
+                  <tr key={v.id} className="border-t">
+                    <td className="py-1 font-mono">{v.version}</td>
+                    <td>{v.changelog ?? '—'}</td>
+                    <td>{new Date(v.createdAt).toLocaleDateString('en-GB')}</td>
+                    <td>{v._count.workshops}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="flex items-center gap-2">
+              <GitCompare className="h-4 w-4 text-muted-foreground" />
+              <select className="rounded border px-2 py-1 text-xs" value={diffFrom} onChange={(e) => setDiffFrom(e.target.value)}>
+                <option value="">from…</option>
+                {versionOptions.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+              </select>
+              <select className="rounded border px-2 py-1 text-xs" value={diffTo} onChange={(e) => setDiffTo(e.target.value)}>
+                <option value="">to…</option>
+                {versionOptions.filter((o) => o.value !== 'builtin').map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+              </select>
+              <Button variant="outline" size="sm" onClick={handleCompare} disabled={!diffFrom || !diffTo}>
+                Compare
+              </Button>
+            </div>
+            {versionDiff && <DiffList diff={versionDiff} />}
+          </div>
+        </div>
+      ) : (
+        <div className="rounded-xl border border-dashed bg-white p-8 text-center text-sm text-muted-foreground">
+          Select a pack to edit, or fork a built-in pack to get started.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Boxes } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getSession } from '@/lib/auth/session';
+import { DomainPackEditor } from './domain-pack-editor';
+
+export default async function DomainPacksPage() {
+  const session = await getSession();
+
+  if (!session || session.role === 'TENANT_USER') {
+    redirect('/tenant/login');
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center gap-4 mb-6">
+          <Link href="/admin">
+            <Button variant="ghost">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold flex items-center gap-2">
+              <Boxes className="h-6 w-6" />
+              Domain Packs
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Fork a built-in pack or author your own. Published versions are immutable; workshops stay pinned to the version they were set up with.
+            </p>
+          </div>
+        </div>
+
+        {session.organizationId ? (
+          <DomainPackEditor />
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Enter an organisation to manage its domain packs.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,9 @@ import { prisma } from '@/lib/prisma';
 import { redirect, notFound } from 'next/navigation';
 import Link from 'next/link';
 import { ExecLicenceManager } from '@/components/executive/ExecLicenceManager';
+import { WebhookManager } from '@/components/admin/WebhookManager';
+import { ApiKeyManager } from '@/components/admin/ApiKeyManager';
+import { PptxTemplateManager } from '@/components/admin/PptxTemplateManager';
 
 export default async function OrgDetailPage({ params }: { params: Promise<{ id: string }> }) {
   const session = await getSession();
@@ -66,6 +69,21 @@ export default async function OrgDetailPage({ params }: { params: Promise<{ id:
       <div className="bg-white border border-gray-100 rounded-2xl p-6">
         <ExecLicenceManager orgId={id} />
       </div>
+
+      {/* Report deck template */}
+      <div className="bg-white border border-gray-100 rounded-2xl p-6">
+        <PptxTemplateManager orgId={id} />
+      </div>
+
+      {/* Outbound webhooks */}
+      <div className="bg-white border border-gray-100 rounded-2xl p-6">
+        <WebhookManager orgId={id} />
+      </div>
+
+      {/* Public API keys */}
+      <div className="bg-white border border-gray-100 rounded-2xl p-6">
+        <ApiKeyManager orgId={id} />
+      </div>
     </div>
   );
 }
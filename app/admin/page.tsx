@@ -19,6 +19,7 @@ import {
 import Link from 'next/link';
 import Image from 'next/image';
 import { ConversationReport, PhaseInsight } from '@/components/report/conversation-report';
+import { PERMISSION_SETS, PERMISSION_SET_IDS, type PermissionSetId } from '@/lib/auth/workshop-permissions';
 
 interface Workshop {
   id: string;
@@ -102,7 +103,8 @@ export default function AdminDashboard() {
   const [shareLoading, setShareLoading] = useState(false);
   const [shareError, setShareError] = useState<string | null>(null);
   const [shareSuccess, setShareSuccess] = useState<string | null>(null);
-  const [shares, setShares] = useState<Array<{ id: string; userName: string; userEmail: string; createdAt: string }>>([]);
+  const [sharePermissionSets, setSharePermissionSets] = useState<PermissionSetId[]>(['facilitator']);
+  const [shares, setShares] = useState<Array<{ id: string; userName: string; userEmail: string; permissionSets: PermissionSetId[]; createdAt: string }>>([]);
   const [sharesLoading, setSharesLoading] = useState(false);
 
   useEffect(() => {
@@ -265,6 +267,7 @@ export default function AdminDashboard() {
   const openShareDialog = async (workshopId: string) => {
     setShareWorkshopId(workshopId);
     setShareEmail('');
+    setSharePermissionSets(['facilitator']);
     setShareError(null);
     setShareSuccess(null);
     setShares([]);
@@ -281,7 +284,7 @@ export default function AdminDashboard() {
   };
 
   const handleShare = async () => {
-    if (!shareWorkshopId || !shareEmail.trim()) return;
+    if (!shareWorkshopId || !shareEmail.trim() || sharePermissionSets.length === 0) return;
     setShareLoading(true);
     setShareError(null);
     setShareSuccess(null);
@@ -289,7 +292,7 @@ export default function AdminDashboard() {
       const res = await fetch(`/api/admin/workshops/${shareWorkshopId}/shares`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email: shareEmail.trim() }),
+        body: JSON.stringify({ email: shareEmail.trim(), permissionSets: sharePermissionSets }),
       });
       const data = await res.json();
       if (!res.ok) {
@@ -311,6 +314,10 @@ export default function AdminDashboard() {
     }
   };
 
+  const toggleSharePermissionSet = (id: PermissionSetId) => {
+    setSharePermissionSets((prev) => (prev.includes(id) ? prev.filter((p) => p !== id) : [...prev, id]));
+  };
+
   const handleRemoveShare = async (shareId: string) => {
     if (!shareWorkshopId) return;
     try {
@@ -683,7 +690,7 @@ export default function AdminDashboard() {
             <DialogHeader>
               <DialogTitle>Share Workshop</DialogTitle>
               <DialogDescription>
-                Share this workshop with another user in your organisation. They&apos;ll be able to see and access it.
+                Share this workshop with another user in your organisation. The permission sets decide what they can do in it.
               </DialogDescription>
             </DialogHeader>
 
@@ -697,11 +704,24 @@ export default function AdminDashboard() {
                   onChange={(e) => setShareEmail(e.target.value)}
                   onKeyDown={(e) => { if (e.key === 'Enter') handleShare(); }}
                 />
-                <Button onClick={handleShare} disabled={shareLoading || !shareEmail.trim()} size="sm">
+                <Button onClick={handleShare} disabled={shareLoading || !shareEmail.trim() || sharePermissionSets.length === 0} size="sm">
                   {shareLoading ? 'Sharing...' : 'Share'}
                 </Button>
               </div>
 
+              <div className="flex flex-wrap gap-3">
+                {PERMISSION_SET_IDS.map((id) => (
+                  <label key={id} className="flex items-center gap-1.5 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={sharePermissionSets.includes(id)}
+                      onChange={() => toggleSharePermissionSet(id)}
+                    />
+                    {PERMISSION_SETS[id].label}
+                  </label>
+                ))}
+              </div>
+
               {shareError && (
                 <div className="text-sm text-red-600">{shareError}</div>
               )}
@@ -723,6 +743,13 @@ export default function AdminDashboard() {
                         <div>
                           <span className="font-medium">{s.userName}</span>
                           <span className="text-muted-foreground ml-2">{s.userEmail}</span>
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {s.permissionSets.map((id) => (
+                              <Badge key={id} variant="secondary" className="text-xs">
+                                {PERMISSION_SETS[id]?.label ?? id}
+                              </Badge>
+                            ))}
+                          </div>
                         </div>
                         <Button
                           variant="ghost"
@@ -0,0 +1,46 @@
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Repeat } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getSession } from '@/lib/auth/session';
+import { ProgrammesView } from './programmes-view';
+
+export default async function ProgrammesPage() {
+  const session = await getSession();
+
+  if (!session || session.role === 'TENANT_USER') {
+    redirect('/tenant/login');
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center gap-4 mb-6">
+          <Link href="/admin">
+            <Button variant="ghost">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold flex items-center gap-2">
+              <Repeat className="h-6 w-6" />
+              Programmes
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Group repeat workshops for the same client and track how maturity, constraints, sentiment and the roadmap move from run to run.
+            </p>
+          </div>
+        </div>
+
+        {session.organizationId ? (
+          <ProgrammesView />
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Enter an organisation to manage its programmes.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
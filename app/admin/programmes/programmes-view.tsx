@@ -0,0 +1,422 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { InitiativeRunStatus, ProgrammeTrends, ProgrammeWhatChanged } from '@/lib/programmes/types';
+
+// ══════════════════════════════════════════════════════════
+// TYPES
+// ══════════════════════════════════════════════════════════
+
+type ProgrammeWorkshop = {
+  id: string;
+  name: string;
+  status: string;
+  scheduledDate: string | null;
+  createdAt: string;
+};
+
+type Programme = {
+  id: string;
+  name: string;
+  clientName: string | null;
+  description: string | null;
+  workshops: ProgrammeWorkshop[];
+};
+
+type WorkshopOption = { id: string; name: string; isExample: boolean };
+
+type TrendsResponse = { trends: ProgrammeTrends; latestChanges: ProgrammeWhatChanged | null };
+
+// ══════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════
+
+function fmtDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+function fmtScore(value: number | null): string {
+  return value === null ? '—' : String(Math.round(value));
+}
+
+function deltaColour(delta: number | null): string {
+  if (delta === null || delta === 0) return 'text-muted-foreground';
+  return delta > 0 ? 'text-emerald-700' : 'text-red-600';
+}
+
+const INITIATIVE_STATUS_STYLE: Record<InitiativeRunStatus, string> = {
+  new: 'bg-emerald-100 text-emerald-800',
+  carried: 'bg-indigo-100 text-indigo-800',
+  dropped: 'bg-gray-200 text-gray-600 line-through',
+  absent: 'text-gray-300',
+};
+
+const CONSTRAINT_STATUS_STYLE: Record<string, string> = {
+  persistent: 'text-amber-700',
+  recurring: 'text-amber-700',
+  new: 'text-red-600',
+  resolved: 'text-emerald-700',
+};
+
+function RunHeaders({ trends }: { trends: ProgrammeTrends }) {
+  return (
+    <>
+      {trends.runs.map((run, i) => (
+        <th key={run.workshopId} className="px-2 py-1 text-right font-medium" title={run.workshopName}>
+          Run {i + 1}
+          <div className="font-normal text-muted-foreground">{fmtDate(run.runDate)}</div>
+        </th>
+      ))}
+    </>
+  );
+}
+
+// ══════════════════════════════════════════════════════════
+// TRENDS
+// ══════════════════════════════════════════════════════════
+
+function TrendsPanel({ data }: { data: TrendsResponse }) {
+  const { trends, latestChanges } = data;
+
+  if (trends.runs.length < 2) {
+    return <p className="text-sm text-muted-foreground">Add at least two workshops to compare runs.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {latestChanges && (
+        <div className="rounded-xl border bg-white p-4 space-y-2">
+          <h3 className="text-sm font-semibold">
+            What changed since last time
+            <span className="ml-2 font-normal text-muted-foreground">
+              {latestChanges.previous.workshopName} → {latestChanges.current.workshopName}
+            </span>
+          </h3>
+          <ul className="list-disc pl-5 text-sm space-y-0.5">
+            {latestChanges.headlines.map((h) => <li key={h}>{h}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="rounded-xl border bg-white p-4 overflow-x-auto">
+        <h3 className="text-sm font-semibold mb-2">Lens maturity (0-100)</h3>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b">
+              <th className="px-2 py-1 text-left font-medium">Lens</th>
+              <RunHeaders trends={trends} />
+              <th className="px-2 py-1 text-right font-medium">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {trends.lensMaturity.map((t) => (
+              <tr key={t.lens} className="border-b last:border-0">
+                <td className="px-2 py-1">{t.lens}</td>
+                {t.scores.map((s, i) => <td key={i} className="px-2 py-1 text-right">{fmtScore(s)}</td>)}
+                <td className={`px-2 py-1 text-right font-semibold ${deltaColour(t.change)}`}>
+                  {t.change === null ? '—' : `${t.change > 0 ? '+' : ''}${t.change}`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="rounded-xl border bg-white p-4 overflow-x-auto">
+        <h3 className="text-sm font-semibold mb-2">Sentiment index</h3>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b">
+              <th className="px-2 py-1 text-left font-medium">Measure</th>
+              <RunHeaders trends={trends} />
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b">
+              <td className="px-2 py-1">Creative density</td>
+              {trends.sentiment.map((p) => <td key={p.workshopId} className="px-2 py-1 text-right">{fmtScore(p.overallCreative)}</td>)}
+            </tr>
+            <tr className="border-b">
+              <td className="px-2 py-1">Constraint density</td>
+              {trends.sentiment.map((p) => <td key={p.workshopId} className="px-2 py-1 text-right">{fmtScore(p.overallConstraint)}</td>)}
+            </tr>
+            <tr>
+              <td className="px-2 py-1">Balance</td>
+              {trends.sentiment.map((p) => <td key={p.workshopId} className="px-2 py-1 text-right capitalize">{p.balanceLabel ?? '—'}</td>)}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <div className="rounded-xl border bg-white p-4 overflow-x-auto">
+        <h3 className="text-sm font-semibold mb-2">Constraint persistence</h3>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b">
+              <th className="px-2 py-1 text-left font-medium">Constraint</th>
+              <RunHeaders trends={trends} />
+              <th className="px-2 py-1 text-right font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {trends.constraintPersistence.map((c) => (
+              <tr key={c.title} className="border-b last:border-0">
+                <td className="px-2 py-1">{c.title}</td>
+                {c.severities.map((s, i) => (
+                  <td key={i} className="px-2 py-1 text-right">{c.present[i] ? s : <span className="text-gray-300">—</span>}</td>
+                ))}
+                <td className={`px-2 py-1 text-right font-semibold capitalize ${CONSTRAINT_STATUS_STYLE[c.status]}`}>{c.status}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="rounded-xl border bg-white p-4 overflow-x-auto">
+        <h3 className="text-sm font-semibold mb-2">Roadmap initiatives</h3>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b">
+              <th className="px-2 py-1 text-left font-medium">Initiative</th>
+              <RunHeaders trends={trends} />
+            </tr>
+          </thead>
+          <tbody>
+            {trends.initiatives.map((t) => (
+              <tr key={t.title} className="border-b last:border-0">
+                <td className="px-2 py-1">
+                  {t.title}
+                  <div className="text-muted-foreground">{t.phase}</div>
+                </td>
+                {t.statuses.map((s, i) => (
+                  <td key={i} className="px-2 py-1 text-right">
+                    <span className={`rounded px-1.5 py-0.5 ${INITIATIVE_STATUS_STYLE[s]}`}>{s === 'absent' ? '—' : s}</span>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+// ══════════════════════════════════════════════════════════
+// COMPONENT
+// ══════════════════════════════════════════════════════════
+
+export function ProgrammesView() {
+  const [programmes, setProgrammes] = useState<Programme[]>([]);
+  const [workshops, setWorkshops] = useState<WorkshopOption[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [trends, setTrends] = useState<TrendsResponse | null>(null);
+  const [trendsLoading, setTrendsLoading] = useState(false);
+
+  const [name, setName] = useState('');
+  const [clientName, setClientName] = useState('');
+  const [addWorkshopId, setAddWorkshopId] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const selected = programmes.find((p) => p.id === selectedId) ?? null;
+
+  const loadProgrammes = useCallback(async () => {
+    const res = await fetch('/api/admin/programmes');
+    if (!res.ok) {
+      toast.error('Failed to load programmes');
+      return;
+    }
+    const data = await res.json();
+    setProgrammes(data.programmes);
+  }, []);
+
+  const loadTrends = useCallback(async (programmeId: string) => {
+    setTrendsLoading(true);
+    setTrends(null);
+    try {
+      const res = await fetch(`/api/admin/programmes/${programmeId}/trends`);
+      if (!res.ok) {
+        toast.error('Failed to load programme trends');
+        return;
+      }
+      setTrends(await res.json());
+    } finally {
+      setTrendsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadProgrammes();
+    void (async () => {
+      const res = await fetch('/api/admin/workshops?limit=100');
+      if (res.ok) {
+        const data = await res.json();
+        setWorkshops((data.workshops ?? []).filter((w: WorkshopOption) => !w.isExample));
+      }
+    })();
+  }, [loadProgrammes]);
+
+  useEffect(() => {
+    if (selectedId) void loadTrends(selectedId);
+  }, [selectedId, loadTrends]);
+
+  const createProgramme = async () => {
+    setBusy(true);
+    try {
+      const res = await fetch('/api/admin/programmes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, clientName: clientName || null }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error ?? 'Failed to create programme');
+        return;
+      }
+      toast.success(`Created ${data.programme.name}`);
+      setName('');
+      setClientName('');
+      await loadProgrammes();
+      setSelectedId(data.programme.id);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updateWorkshops = async (change: { addWorkshopIds?: string[]; removeWorkshopIds?: string[] }) => {
+    if (!selected) return;
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/admin/programmes/${selected.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(change),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error ?? 'Failed to update programme');
+        return;
+      }
+      setAddWorkshopId('');
+      await loadProgrammes();
+      await loadTrends(selected.id);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const deleteSelected = async () => {
+    if (!selected || !confirm(`Delete programme "${selected.name}"? Its workshops are kept.`)) return;
+    const res = await fetch(`/api/admin/programmes/${selected.id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      toast.error('Failed to delete programme');
+      return;
+    }
+    toast.success('Programme deleted');
+    setSelectedId(null);
+    setTrends(null);
+    await loadProgrammes();
+  };
+
+  const inProgramme = new Set(selected?.workshops.map((w) => w.id) ?? []);
+  const runOrder = [...(selected?.workshops ?? [])].sort(
+    (a, b) => new Date(a.scheduledDate ?? a.createdAt).getTime() - new Date(b.scheduledDate ?? b.createdAt).getTime(),
+  );
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[280px_1fr]">
+      <div className="space-y-4">
+        <div className="rounded-xl border bg-white p-4 space-y-2">
+          <h2 className="text-sm font-semibold">New programme</h2>
+          <Input placeholder="Programme name" value={name} onChange={(e) => setName(e.target.value)} />
+          <Input placeholder="Client (optional)" value={clientName} onChange={(e) => setClientName(e.target.value)} />
+          <Button size="sm" onClick={createProgramme} disabled={busy || !name.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Create
+          </Button>
+        </div>
+
+        <div className="rounded-xl border bg-white p-2">
+          {programmes.length === 0 ? (
+            <p className="p-2 text-xs text-muted-foreground">No programmes yet.</p>
+          ) : (
+            programmes.map((p) => (
+              <button
+                key={p.id}
+                onClick={() => setSelectedId(p.id)}
+                className={`w-full rounded px-2 py-1.5 text-left text-sm hover:bg-gray-50 ${p.id === selectedId ? 'bg-gray-100 font-medium' : ''}`}
+              >
+                {p.name}
+                <div className="text-xs text-muted-foreground">
+                  {p.clientName ? `${p.clientName} · ` : ''}{p.workshops.length} run{p.workshops.length === 1 ? '' : 's'}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+
+      {selected ? (
+        <div className="space-y-4">
+          <div className="rounded-xl border bg-white p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold">{selected.name}</h2>
+              <Button variant="ghost" size="sm" onClick={deleteSelected}>
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </Button>
+            </div>
+            <ol className="space-y-1 text-sm">
+              {runOrder.map((w, i) => (
+                <li key={w.id} className="flex items-center justify-between rounded border px-2 py-1">
+                  <span>
+                    <span className="text-muted-foreground mr-2">Run {i + 1}</span>
+                    {w.name}
+                    <span className="ml-2 text-xs text-muted-foreground">{fmtDate(w.scheduledDate ?? w.createdAt)}</span>
+                  </span>
+                  <button
+                    onClick={() => updateWorkshops({ removeWorkshopIds: [w.id] })}
+                    disabled={busy}
+                    className="text-muted-foreground hover:text-red-600"
+                    aria-label={`Remove ${w.name}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ol>
+            <div className="flex gap-2">
+              <select
+                className="rounded border px-2 py-1.5 text-sm flex-1"
+                value={addWorkshopId}
+                onChange={(e) => setAddWorkshopId(e.target.value)}
+              >
+                <option value="">Add a workshop…</option>
+                {workshops.filter((w) => !inProgramme.has(w.id)).map((w) => (
+                  <option key={w.id} value={w.id}>{w.name}</option>
+                ))}
+              </select>
+              <Button size="sm" onClick={() => updateWorkshops({ addWorkshopIds: [addWorkshopId] })} disabled={busy || !addWorkshopId}>
+                Add
+              </Button>
+            </div>
+          </div>
+
+          {trendsLoading ? (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" /> Comparing runs…
+            </p>
+          ) : trends ? (
+            <TrendsPanel data={trends} />
+          ) : null}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Select a programme to see its runs and trends.</p>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import { redirect } from 'next/navigation';
 import { prisma } from '@/lib/prisma';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
-import { Plus, UserCheck, UserX, Mail, Shield, Building, Users } from 'lucide-react';
+import { Plus, UserCheck, UserX, Mail, Shield, Building, Users, Grid3x3 } from 'lucide-react';
 import { getSession } from '@/lib/auth/session';
 
 export default async function UsersPage() {
@@ -68,12 +68,20 @@ export default async function UsersPage() {
               {isPlatformAdmin ? 'All users across all organizations' : 'Users in your organization'}
             </p>
           </div>
-          <Link href="/admin/users/new">
-            <Button className="bg-indigo-600 hover:bg-indigo-700">
-              <Plus className="h-4 w-4 mr-2" />
-              Create User
-            </Button>
-          </Link>
+          <div className="flex items-center gap-2">
+            <Link href="/admin/users/permissions">
+              <Button variant="outline">
+                <Grid3x3 className="h-4 w-4 mr-2" />
+                Permission Matrix
+              </Button>
+            </Link>
+            <Link href="/admin/users/new">
+              <Button className="bg-indigo-600 hover:bg-indigo-700">
+                <Plus className="h-4 w-4 mr-2" />
+                Create User
+              </Button>
+            </Link>
+          </div>
         </div>
 
         {seatInfo && (
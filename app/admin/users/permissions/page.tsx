@@ -0,0 +1,200 @@
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { Check, Crown, Shield } from 'lucide-react';
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/auth/session';
+import {
+  PERMISSION_SETS,
+  PERMISSION_SET_IDS,
+  WORKSHOP_PERMISSIONS,
+  WORKSHOP_PERMISSION_LABELS,
+  isPermissionSetId,
+} from '@/lib/auth/workshop-permissions';
+
+/** Most recent workshops shown as matrix columns */
+const MAX_WORKSHOP_COLUMNS = 25;
+
+export default async function PermissionMatrixPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ organizationId?: string }>;
+}) {
+  const session = await getSession();
+
+  if (!session || session.role === 'TENANT_USER') {
+    redirect('/tenant/login');
+  }
+
+  const isPlatformAdmin = session.role === 'PLATFORM_ADMIN';
+  const { organizationId: requestedOrgId } = await searchParams;
+  const organizationId = isPlatformAdmin ? requestedOrgId ?? null : session.organizationId;
+
+  // Platform admins pick an organisation first
+  const organizations = isPlatformAdmin && !organizationId
+    ? await prisma.organization.findMany({ select: { id: true, name: true }, orderBy: { name: 'asc' } })
+    : [];
+
+  const [users, workshops] = organizationId
+    ? await Promise.all([
+        prisma.user.findMany({
+          where: { organizationId, isActive: true },
+          select: { id: true, name: true, email: true, role: true },
+          orderBy: [{ role: 'asc' }, { name: 'asc' }],
+        }),
+        prisma.workshop.findMany({
+          where: { organizationId, isExample: false },
+          select: {
+            id: true,
+            name: true,
+            createdById: true,
+            shares: { select: { userId: true, permissionSets: true } },
+          },
+          orderBy: { createdAt: 'desc' },
+          take: MAX_WORKSHOP_COLUMNS,
+        }),
+      ])
+    : [[], []];
+
+  const cellFor = (user: (typeof users)[number], workshop: (typeof workshops)[number]) => {
+    if (user.role === 'TENANT_ADMIN' || user.role === 'PLATFORM_ADMIN') return { kind: 'admin' as const };
+    if (workshop.createdById === user.id) return { kind: 'owner' as const };
+    const share = workshop.shares.find((s) => s.userId === user.id);
+    return share ? { kind: 'share' as const, sets: share.permissionSets } : { kind: 'none' as const };
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <Link href="/admin/users" className="text-indigo-600 hover:text-indigo-700 text-sm">← Back to Users</Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-4">Permission Matrix</h1>
+          <p className="text-gray-600 mt-1">
+            What each permission set allows, and who holds which sets on each workshop.
+            Permission sets are granted from a workshop&apos;s Share dialog.
+          </p>
+        </div>
+
+        {/* Permission sets × permissions */}
+        <div className="bg-white rounded-lg shadow overflow-hidden mb-8">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Permission Sets</h2>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Permission</th>
+                  {PERMISSION_SET_IDS.map((id) => (
+                    <th key={id} className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {PERMISSION_SETS[id].label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {WORKSHOP_PERMISSIONS.map((permission) => (
+                  <tr key={permission}>
+                    <td className="px-6 py-3 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{WORKSHOP_PERMISSION_LABELS[permission]}</div>
+                      <div className="text-xs text-gray-500 font-mono">{permission}</div>
+                    </td>
+                    {PERMISSION_SET_IDS.map((id) => (
+                      <td key={id} className="px-4 py-3 text-center">
+                        {PERMISSION_SETS[id].permissions.includes(permission) && (
+                          <Check className="h-4 w-4 text-green-600 inline" />
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="px-6 py-3 text-xs text-gray-500 border-t border-gray-200">
+            Tenant admins and a workshop&apos;s creator hold every permission on it.
+          </div>
+        </div>
+
+        {isPlatformAdmin && !organizationId && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Choose an organization</h2>
+            <div className="flex flex-wrap gap-2">
+              {organizations.map((org) => (
+                <Link
+                  key={org.id}
+                  href={`/admin/users/permissions?organizationId=${org.id}`}
+                  className="px-3 py-1.5 rounded-md border text-sm text-indigo-600 hover:bg-indigo-50"
+                >
+                  {org.name}
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Users × workshops */}
+        {organizationId && (
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Workshop Access</h2>
+              {workshops.length === MAX_WORKSHOP_COLUMNS && (
+                <p className="text-xs text-gray-500 mt-1">Showing the {MAX_WORKSHOP_COLUMNS} most recent workshops.</p>
+              )}
+            </div>
+            {workshops.length === 0 ? (
+              <p className="px-6 py-8 text-sm text-gray-500">No workshops yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider sticky left-0 bg-gray-50">User</th>
+                      {workshops.map((workshop) => (
+                        <th key={workshop.id} className="px-4 py-3 text-left text-xs font-medium text-gray-500 tracking-wider min-w-[140px]">
+                          {workshop.name}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {users.map((user) => (
+                      <tr key={user.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-3 whitespace-nowrap sticky left-0 bg-white">
+                          <div className="text-sm font-medium text-gray-900">{user.name}</div>
+                          <div className="text-xs text-gray-500">{user.email}</div>
+                        </td>
+                        {workshops.map((workshop) => {
+                          const cell = cellFor(user, workshop);
+                          return (
+                            <td key={workshop.id} className="px-4 py-3 text-xs">
+                              {cell.kind === 'admin' && (
+                                <span className="inline-flex items-center text-blue-700"><Shield className="h-3 w-3 mr-1" />Admin</span>
+                              )}
+                              {cell.kind === 'owner' && (
+                                <span className="inline-flex items-center text-purple-700"><Crown className="h-3 w-3 mr-1" />Owner</span>
+                              )}
+                              {cell.kind === 'share' && (
+                                <div className="flex flex-wrap gap-1">
+                                  {cell.sets.map((id) => (
+                                    <span key={id} className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-700">
+                                      {isPermissionSetId(id) ? PERMISSION_SETS[id].label : id}
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
+                              {cell.kind === 'none' && <span className="text-gray-300">—</span>}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
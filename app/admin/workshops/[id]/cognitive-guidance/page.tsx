@@ -153,6 +153,8 @@ export default function CognitiveGuidancePage({ params }: PageProps) {
   // Seed data is populated in a client-only useEffect below.
   const [stickyPads, setStickyPads] = useState<StickyPad[]>([]);
   const [signals, setSignals] = useState<Signal[]>([]);
+  // Metric contradictions raised by the facilitation agent (detectSignals has no metric data)
+  const [metricSignals, setMetricSignals] = useState<Signal[]>([]);
   const [lensCoverage, setLensCoverage] = useState<Map<Lens, LensCoverage>>(new Map());
   const [dialoguePhase, setDialoguePhase] = useState<DialoguePhase>('REIMAGINE');
   const [liveJourney, setLiveJourney] = useState<LiveJourneyData>(
@@ -1132,6 +1134,18 @@ export default function CognitiveGuidancePage({ params }: PageProps) {
             };
             return [...prev, agentPad];
           });
+          if (payload.pad.type === 'METRIC_CHALLENGE') {
+            const { provenance } = payload.pad;
+            setMetricSignals((prev) => prev.some((s) => s.id === payload.pad.id) ? prev : [...prev, {
+              id: payload.pad.id,
+              type: 'metric_contradiction',
+              description: provenance?.description || payload.pad.prompt,
+              strength: payload.pad.signalStrength,
+              nodeIds: provenance?.sourceNodeIds ?? [],
+              lenses: [],
+              metricEvidence: provenance?.metricEvidence?.split(/;\s*/).filter(Boolean) ?? [],
+            }]);
+          }
         }
       } catch { /* ignore */ }
     });
@@ -1425,10 +1439,11 @@ export default function CognitiveGuidancePage({ params }: PageProps) {
   }, [versionUrl, fetchSessionVersions]);
 
   // ── Poll event outbox for all derived events (durable cross-isolate delivery) ──
-  // Events emitted inside after() callbacks don't reach the SSE endpoint on Vercel
-  // serverless (different isolates). The outbox table is the source of truth.
-  // SSE listeners above are kept as best-effort bonus (work in local dev).
+  // With the in-memory realtime bus, events emitted inside after() callbacks don't
+  // reach the SSE endpoint on Vercel serverless (different isolates). The outbox
+  // table is the source of truth; SSE is cross-instance only with a shared bus.
   const lastOutboxCursorRef = useRef<string>(new Date().toISOString());
+  const lastOutboxSeqRef = useRef<number | null>(null);
   const seenEventIdsRef = useRef<Set<string>>(new Set());
   const mainQuestionIndexRef = useRef(mainQuestionIndex);
   useEffect(() => { mainQuestionIndexRef.current = mainQuestionIndex; }, [mainQuestionIndex]);
@@ -1674,13 +1689,19 @@ export default function CognitiveGuidancePage({ params }: PageProps) {
 
     const poll = async () => {
       try {
+        const cursor = lastOutboxSeqRef.current !== null
+          ? `afterSeq=${lastOutboxSeqRef.current}`
+          : `after=${encodeURIComponent(lastOutboxCursorRef.current)}`;
         const res = await fetch(
-          `/api/workshops/${encodeURIComponent(workshopId)}/events/poll?after=${encodeURIComponent(lastOutboxCursorRef.current)}&types=${POLL_TYPES}`
+          `/api/workshops/${encodeURIComponent(workshopId)}/events/poll?${cursor}&types=${POLL_TYPES}`
         );
         if (!res.ok) return;
         const data = await res.json();
+        // The server only advances the seq cursor past settled events
+        if (typeof data.nextAfterSeq === 'number') lastOutboxSeqRef.current = data.nextAfterSeq;
         const events = data.events as Array<{
           id: string;
+          seq?: number | null;
           type: string;
           payload: unknown;
           createdAt: string;
@@ -1688,7 +1709,8 @@ export default function CognitiveGuidancePage({ params }: PageProps) {
         if (!events || events.length === 0) return;
 
         // Advance cursor to latest event
-        lastOutboxCursorRef.current = events[events.length - 1].createdAt;
+        const last = events[events.length - 1];
+        lastOutboxCursorRef.current = last.createdAt;
 
         // Dispatch each event with dedup (SSE may also deliver these — idempotent)
         for (const evt of events) {
@@ -1939,7 +1961,7 @@ export default function CognitiveGuidancePage({ params }: PageProps) {
 
         {/* Metric Contradiction Alerts */}
         <MetricContradictionAlert
-          signals={signals.filter((s) => !dismissedAlerts.has(s.id))}
+          signals={[...signals, ...metricSignals].filter((s) => !dismissedAlerts.has(s.id))}
           onDismiss={(id) => setDismissedAlerts((prev) => new Set(prev).add(id))}
         />
 
@@ -0,0 +1,330 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import type { StickyPad } from '@/lib/cognitive-guidance/pipeline';
+import type { BreakoutStance, PlenaryMerge, PlenaryTheme } from '@/lib/live/breakout-merge';
+
+/** The plenary view refreshes this often while rooms are running */
+const PLENARY_REFRESH_MS = 15_000;
+
+type BreakoutRoomRow = {
+  id: string;
+  name: string;
+  position: number;
+  closedAt: string | null;
+};
+
+type PlenaryResponse = PlenaryMerge & { padsByRoom: Record<string, StickyPad[]> };
+
+type LiveBreakoutCardProps = {
+  workshopId: string;
+  /** Breakout room this console runs; null on the plenary page */
+  roomId: string | null;
+  /** Place a pad pulled from a room on the main canvas */
+  onPullPad: (pad: StickyPad) => void;
+};
+
+const STANCE_LABEL: Record<BreakoutStance, string> = {
+  for: 'sees an opportunity',
+  against: 'sees a barrier',
+  neutral: 'observes',
+};
+
+function roomUrl(workshopId: string, roomId: string): string {
+  return `/admin/workshops/${encodeURIComponent(workshopId)}/live?room=${encodeURIComponent(roomId)}`;
+}
+
+function ThemeList({ title, themes, showStance }: { title: string; themes: PlenaryTheme[]; showStance?: boolean }) {
+  if (themes.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <div className="text-xs font-medium text-muted-foreground">{title}</div>
+      {themes.map((theme) => (
+        <div key={theme.themeId} className="rounded-md border p-2 text-xs">
+          <div className="font-medium">{theme.label}</div>
+          <div className="mt-1 flex flex-wrap gap-1">
+            {theme.rooms.map((room) => (
+              <span key={room.roomId} className="rounded bg-muted px-1.5 py-0.5 text-[10px]" title={room.beliefs.map((b) => b.label).join('\n')}>
+                {room.roomName}{showStance ? ` — ${STANCE_LABEL[room.stance]}` : ''}
+              </span>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function LiveBreakoutCard({ workshopId, roomId, onPullPad }: LiveBreakoutCardProps) {
+  const baseUrl = `/api/admin/workshops/${encodeURIComponent(workshopId)}/live/breakout-rooms`;
+
+  const [rooms, setRooms] = useState<BreakoutRoomRow[]>([]);
+  const [plenary, setPlenary] = useState<PlenaryResponse | null>(null);
+  const [roomCount, setRoomCount] = useState('4');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pulledPadIds, setPulledPadIds] = useState<Set<string>>(new Set());
+  const [openRoomId, setOpenRoomId] = useState<string | null>(null);
+
+  const fetchRooms = useCallback(async () => {
+    try {
+      const r = await fetch(baseUrl, { cache: 'no-store' });
+      const json = await r.json().catch(() => null);
+      if (!r.ok) throw new Error(json?.error || 'Failed to load breakout rooms');
+      setRooms(Array.isArray(json?.rooms) ? json.rooms : []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load breakout rooms');
+    }
+  }, [baseUrl]);
+
+  const fetchPlenary = useCallback(async () => {
+    try {
+      const r = await fetch(`${baseUrl}/plenary`, { cache: 'no-store' });
+      const json = await r.json().catch(() => null);
+      if (!r.ok) throw new Error(json?.error || 'Failed to load plenary view');
+      setPlenary(json as PlenaryResponse);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load plenary view');
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    void fetchRooms();
+  }, [fetchRooms]);
+
+  const hasRooms = rooms.length > 0;
+  useEffect(() => {
+    if (roomId || !hasRooms) return;
+    void fetchPlenary();
+    const intervalId = setInterval(() => void fetchPlenary(), PLENARY_REFRESH_MS);
+    return () => clearInterval(intervalId);
+  }, [roomId, hasRooms, fetchPlenary]);
+
+  const createRooms = async (count: number) => {
+    const start = rooms.length;
+    const names = Array.from({ length: count }, (_, i) => `Table ${start + i + 1}`);
+    setBusy(true);
+    setError(null);
+    try {
+      const r = await fetch(baseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ names }),
+      });
+      const json = await r.json().catch(() => null);
+      if (!r.ok) throw new Error(json?.error || 'Failed to create breakout rooms');
+      await fetchRooms();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to create breakout rooms');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const setRoomClosed = async (id: string, closed: boolean) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const r = await fetch(`${baseUrl}/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ closed }),
+      });
+      const json = await r.json().catch(() => null);
+      if (!r.ok) throw new Error(json?.error || 'Failed to update breakout room');
+      await fetchRooms();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to update breakout room');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const pullPad = async (fromRoomId: string, padId: string) => {
+    setError(null);
+    try {
+      const r = await fetch(`${baseUrl}/${encodeURIComponent(fromRoomId)}/pull`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ padId }),
+      });
+      const json = await r.json().catch(() => null);
+      if (!r.ok || !json?.pad) throw new Error(json?.error || 'Failed to pull pad');
+      onPullPad(json.pad as StickyPad);
+      setPulledPadIds((prev) => new Set(prev).add(`${fromRoomId}:${padId}`));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to pull pad');
+    }
+  };
+
+  // ── Room console: which group this page captures ──────────
+  if (roomId) {
+    const room = rooms.find((r) => r.id === roomId);
+    return (
+      <Card className="border-primary/40">
+        <CardHeader>
+          <CardTitle>Breakout room{room ? `: ${room.name}` : ''}</CardTitle>
+          <CardDescription>
+            This console captures and facilitates this group only. Its pads and themes feed the plenary view.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center gap-3 text-sm">
+          {room?.closedAt && <span className="text-red-600">This room has been closed by the lead facilitator.</span>}
+          {error && <span className="text-red-600">{error}</span>}
+          <Link className="underline" href={`/admin/workshops/${encodeURIComponent(workshopId)}/live`}>
+            Back to plenary
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // ── Plenary: rooms, merged themes and pads to pull ────────
+  const summaries = new Map((plenary?.rooms ?? []).map((s) => [s.roomId, s]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Breakout rooms</CardTitle>
+        <CardDescription>
+          Split into groups with their own capture, canvas and facilitation · merge them back here
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!hasRooms ? (
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={2}
+              max={12}
+              value={roomCount}
+              onChange={(e) => setRoomCount(e.target.value)}
+              className="h-8 w-20"
+            />
+            <Button
+              type="button"
+              size="sm"
+              disabled={busy}
+              onClick={() => void createRooms(Math.max(2, Math.min(12, Number(roomCount) || 4)))}
+            >
+              Create rooms
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-4">
+              {rooms.map((room) => {
+                const summary = summaries.get(room.id);
+                return (
+                  <div key={room.id} className="rounded-md border p-2 text-xs space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">{room.name}</span>
+                      <span className={room.closedAt ? 'text-muted-foreground' : 'text-emerald-600'}>
+                        {room.closedAt ? 'Closed' : 'Open'}
+                      </span>
+                    </div>
+                    <div className="text-muted-foreground">
+                      {summary?.utteranceCount ?? 0} utterances · {summary?.beliefCount ?? 0} beliefs · {summary?.padCount ?? 0} pads
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <a className="underline" href={roomUrl(workshopId, room.id)} target="_blank" rel="noreferrer">
+                        Open console
+                      </a>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        disabled={busy}
+                        onClick={() => void setRoomClosed(room.id, !room.closedAt)}
+                      >
+                        {room.closedAt ? 'Reopen' : 'Close'}
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button type="button" variant="outline" size="sm" disabled={busy || rooms.length >= 12} onClick={() => void createRooms(1)}>
+                Add room
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => void fetchPlenary()}>
+                Refresh
+              </Button>
+            </div>
+
+            {plenary && (
+              <div className="grid gap-4 md:grid-cols-3">
+                <ThemeList title="Converged — raised by several rooms" themes={plenary.converged} />
+                <ThemeList title="Diverged — rooms see it differently" themes={plenary.diverged} showStance />
+                <ThemeList title="Only one room raised" themes={plenary.distinct} />
+              </div>
+            )}
+
+            {plenary && (
+              <div className="space-y-2">
+                <div className="text-xs font-medium text-muted-foreground">Room pads</div>
+                {rooms.map((room) => {
+                  const pads = plenary.padsByRoom[room.id] ?? [];
+                  const open = openRoomId === room.id;
+                  return (
+                    <div key={room.id} className="rounded-md border">
+                      <button
+                        type="button"
+                        className="flex w-full items-center justify-between px-2 py-1.5 text-xs"
+                        onClick={() => setOpenRoomId(open ? null : room.id)}
+                      >
+                        <span className="font-medium">{room.name}</span>
+                        <span className="text-muted-foreground">{pads.length} pads {open ? '▾' : '▸'}</span>
+                      </button>
+                      {open && (
+                        <div className="space-y-1 border-t p-2">
+                          {pads.length === 0 ? (
+                            <div className="text-xs text-muted-foreground">No pads yet</div>
+                          ) : (
+                            pads.map((pad) => {
+                              const pulled = pulledPadIds.has(`${room.id}:${pad.id}`);
+                              return (
+                                <div key={pad.id} className="flex items-start justify-between gap-2 text-xs">
+                                  <div>
+                                    <div>{pad.prompt}</div>
+                                    {(pad.padLabel || pad.lens) && (
+                                      <div className="text-[10px] text-muted-foreground">{pad.padLabel || pad.lens}</div>
+                                    )}
+                                  </div>
+                                  <Button
+                                    type="button"
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-6 shrink-0 px-2 text-xs"
+                                    disabled={pulled}
+                                    onClick={() => void pullPad(room.id, pad.id)}
+                                  >
+                                    {pulled ? 'On main canvas' : 'Pull to main canvas'}
+                                  </Button>
+                                </div>
+                              );
+                            })
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+      </CardContent>
+    </Card>
+  );
+}
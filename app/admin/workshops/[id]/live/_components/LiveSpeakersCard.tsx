@@ -0,0 +1,109 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { WorkshopSpeakerReport } from '@/lib/transcription/speaker-registry';
+
+const UNMAPPED = '__unmapped__';
+
+type LiveSpeakersCardProps = {
+  report: WorkshopSpeakerReport | null;
+  mappingSpeakerId: string | null;
+  onMap: (speakerId: string, participantId: string | null) => void;
+  onRefresh: () => void;
+  speakersError: string | null;
+};
+
+function formatTalkTime(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds.toString().padStart(2, '0')}s` : `${seconds}s`;
+}
+
+export function LiveSpeakersCard({
+  report,
+  mappingSpeakerId,
+  onMap,
+  onRefresh,
+  speakersError,
+}: LiveSpeakersCardProps) {
+  const speakers = report?.speakers ?? [];
+  const participants = report?.participants ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Speakers</CardTitle>
+        <CardDescription>Map voices to participants · talk time and contributions</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {speakers.length === 0 ? (
+          <div className="text-xs text-muted-foreground">No speakers detected yet</div>
+        ) : (
+          speakers.map((speaker) => (
+            <div key={speaker.speakerId} className="space-y-1">
+              <div className="flex items-center justify-between gap-2 text-xs">
+                <span className="font-medium truncate" title={speaker.speakerId}>{speaker.label}</span>
+                <span className="text-muted-foreground shrink-0">
+                  {formatTalkTime(speaker.talkTimeMs)} · {speaker.contributions} contrib. · {Math.round(speaker.share * 100)}%
+                </span>
+              </div>
+              <div className="h-1.5 w-full rounded bg-muted">
+                <div className="h-1.5 rounded bg-primary" style={{ width: `${Math.round(speaker.share * 100)}%` }} />
+              </div>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={speaker.participantId ?? UNMAPPED}
+                  onValueChange={(v) => onMap(speaker.speakerId, v === UNMAPPED ? null : v)}
+                  disabled={mappingSpeakerId === speaker.speakerId}
+                >
+                  <SelectTrigger className="h-7 text-xs">
+                    <SelectValue placeholder="Who is this?" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not mapped ({speaker.speakerId})</SelectItem>
+                    {participants.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.name}{p.voiceEnrolled ? ' · voice enrolled' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {speaker.suggestion && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="h-7 text-xs shrink-0"
+                    onClick={() => onMap(speaker.speakerId, speaker.suggestion!.participantId)}
+                    disabled={mappingSpeakerId === speaker.speakerId}
+                  >
+                    Sounds like {speaker.suggestion.participantName}
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+
+        {report?.participation.imbalanceWarning && (
+          <div className="text-xs text-amber-600">{report.participation.imbalanceWarning}</div>
+        )}
+
+        <Button type="button" variant="outline" onClick={onRefresh}>
+          Refresh
+        </Button>
+
+        {speakersError && <div className="text-sm text-red-600">{speakersError}</div>}
+      </CardContent>
+    </Card>
+  );
+}
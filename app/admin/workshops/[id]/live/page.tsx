@@ -2,6 +2,7 @@
 
 import React, { use, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
 
 import {
   MicCheckDialog,
@@ -15,6 +16,8 @@ import { LiveSynthesisCard } from './_components/LiveSynthesisCard';
 import { LiveLensCard } from './_components/LiveLensCard';
 import { LiveSnapshotsCard } from './_components/LiveSnapshotsCard';
 import { LiveRevealCard } from './_components/LiveRevealCard';
+import { LiveSpeakersCard } from './_components/LiveSpeakersCard';
+import { LiveBreakoutCard } from './_components/LiveBreakoutCard';
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -28,6 +31,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import type { NormalizedTranscriptChunk } from '@/lib/transcription/types';
+import type { WorkshopSpeakerReport } from '@/lib/transcription/speaker-registry';
 import type { WorkshopBlueprint } from '@/lib/workshop/blueprint';
 import {
   HemisphereNodes,
@@ -206,6 +210,9 @@ function errorMessage(value: unknown): string {
 
 export default function WorkshopLivePage({ params }: PageProps) {
   const { id: workshopId } = use(params);
+  // Breakout room console (?room=<id>); absent on the plenary page
+  const roomId = useSearchParams().get('room');
+  const roomQuery = roomId ? `room=${encodeURIComponent(roomId)}` : '';
 
   const [consent, setConsent] = useState(false);
 
@@ -268,6 +275,10 @@ export default function WorkshopLivePage({ params }: PageProps) {
   const dependencyProcessedRef = useRef<Set<string>>(new Set());
   const [dependencyProcessedCount, setDependencyProcessedCount] = useState(0);
 
+  const [speakerReport, setSpeakerReport] = useState<WorkshopSpeakerReport | null>(null);
+  const [speakersError, setSpeakersError] = useState<string | null>(null);
+  const [mappingSpeakerId, setMappingSpeakerId] = useState<string | null>(null);
+
   const [snapshots, setSnapshots] = useState<LiveSnapshotMeta[]>([]);
   const [snapshotsError, setSnapshotsError] = useState<string | null>(null);
   const [snapshotName, setSnapshotName] = useState('');
@@ -345,7 +356,7 @@ export default function WorkshopLivePage({ params }: PageProps) {
   // ── Agentic facilitation: guidance state sync callback ──────
   const syncGuidanceState = useCallback(async (overrides: GuidanceStateOverrides) => {
     try {
-      await fetch(`/api/workshops/${encodeURIComponent(workshopId)}/guidance-state`, {
+      await fetch(`/api/workshops/${encodeURIComponent(workshopId)}/guidance-state${roomQuery ? `?${roomQuery}` : ''}`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(overrides),
@@ -353,7 +364,7 @@ export default function WorkshopLivePage({ params }: PageProps) {
     } catch (err) {
       console.warn('[Live] Failed to sync guidance state:', err);
     }
-  }, [workshopId]);
+  }, [workshopId, roomQuery]);
 
   // ── Agentic facilitation: journey mutations hook ────────────
   const journeyMutations = useJourneyMutations({
@@ -376,6 +387,7 @@ export default function WorkshopLivePage({ params }: PageProps) {
   // ── Agentic facilitation: event pipeline hook ───────────────
   const eventPipeline = useLiveEventPipeline({
     workshopId,
+    roomId,
     enabled: status === 'capturing',
     // Existing hemisphere behavior (transplanted from startSse)
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -555,7 +567,7 @@ export default function WorkshopLivePage({ params }: PageProps) {
     (async () => {
       try {
         const res = await fetch(
-          `/api/workshops/${encodeURIComponent(workshopId)}/guidance-state?init=true`,
+          `/api/workshops/${encodeURIComponent(workshopId)}/guidance-state?init=true${roomQuery ? `&${roomQuery}` : ''}`,
         );
         if (!res.ok) return;
         const data = await res.json();
@@ -584,7 +596,7 @@ export default function WorkshopLivePage({ params }: PageProps) {
         console.warn('[Live] Failed to load guidance state:', err);
       }
     })();
-  }, [workshopId]);
+  }, [workshopId, roomQuery]);
 
   const pendingPhaseByKeyRef = useRef<Map<string, HemisphereDialoguePhase>>(new Map());
 
@@ -739,6 +751,59 @@ export default function WorkshopLivePage({ params }: PageProps) {
       .catch(() => {/* ignore */});
   }, [workshopId]);
 
+  const speakersUrl = useMemo(
+    () => `/api/admin/workshops/${encodeURIComponent(workshopId)}/live/speakers`,
+    [workshopId]
+  );
+
+  const fetchSpeakers = async () => {
+    try {
+      setSpeakersError(null);
+      const r = await fetch(speakersUrl, { cache: 'no-store' });
+      const json = (await r.json().catch(() => null)) as ({ ok?: boolean; error?: string } & WorkshopSpeakerReport) | null;
+      if (!r.ok || !json || json.ok !== true) {
+        setSpeakersError(json?.error || 'Failed to load speakers');
+        return;
+      }
+      setSpeakerReport({ speakers: json.speakers, participants: json.participants, participation: json.participation });
+    } catch (e) {
+      setSpeakersError(e instanceof Error ? e.message : 'Failed to load speakers');
+    }
+  };
+
+  const mapSpeaker = async (speakerId: string, participantId: string | null) => {
+    setMappingSpeakerId(speakerId);
+    try {
+      const r = await fetch(speakersUrl, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ speakerId, participantId }),
+      });
+      const json = (await r.json().catch(() => null)) as { ok?: boolean; error?: string } | null;
+      if (!r.ok || !json || json.ok !== true) {
+        setSpeakersError(json?.error || 'Failed to map speaker');
+        return;
+      }
+      await fetchSpeakers();
+    } catch (e) {
+      setSpeakersError(e instanceof Error ? e.message : 'Failed to map speaker');
+    } finally {
+      setMappingSpeakerId(null);
+    }
+  };
+
+  // Speaker talk time — on load, then every 15s while capturing
+  useEffect(() => {
+    void fetchSpeakers();
+    if (status !== 'capturing') return;
+    const intervalId = setInterval(() => {
+      void fetchSpeakers();
+    }, 15_000);
+    return () => {
+      clearInterval(intervalId);
+    };
+  }, [speakersUrl, status]);
+
   // Auto-save every 5 minutes when capturing
   useEffect(() => {
     if (status !== 'capturing') {
@@ -886,6 +951,9 @@ export default function WorkshopLivePage({ params }: PageProps) {
   };
 
   const autoSave = async (): Promise<string | null> => {
+    // Snapshots are the plenary's; a room's canvas reaches it through the merge
+    if (roomId) return null;
+
     // Auto-save with workshop name + formatted date/time
     const now = new Date();
     const datePart = now.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
@@ -2339,7 +2407,10 @@ export default function WorkshopLivePage({ params }: PageProps) {
   }, [dialoguePhase]);
 
   const eventUrl = useMemo(() => `/api/workshops/${encodeURIComponent(workshopId)}/events`, [workshopId]);
-  const ingestUrl = useMemo(() => `/api/workshops/${encodeURIComponent(workshopId)}/transcript`, [workshopId]);
+  const ingestUrl = useMemo(
+    () => `/api/workshops/${encodeURIComponent(workshopId)}/transcript${roomQuery ? `?${roomQuery}` : ''}`,
+    [workshopId, roomQuery],
+  );
 
   useEffect(() => {
     statusRef.current = status;
@@ -3293,6 +3364,14 @@ export default function WorkshopLivePage({ params }: PageProps) {
           phaseLabel={phaseLabel}
         />
 
+        {viewMode === 'room' ? null : (
+          <LiveBreakoutCard
+            workshopId={workshopId}
+            roomId={roomId}
+            onPullPad={padStateMachine.addAgentPad}
+          />
+        )}
+
         {viewMode === 'room' ? null : (
           <Card>
             <CardHeader>
@@ -3709,7 +3788,7 @@ export default function WorkshopLivePage({ params }: PageProps) {
             isCapturing={status === 'capturing'}
           />
 
-              <LiveSnapshotsCard
+              {!roomId && <LiveSnapshotsCard
                 snapshotName={snapshotName}
                 onSnapshotNameChange={setSnapshotName}
                 defaultSnapshotName={defaultSnapshotName}
@@ -3721,6 +3800,14 @@ export default function WorkshopLivePage({ params }: PageProps) {
                 onRefresh={() => void fetchSnapshots()}
                 onLoad={() => void loadSnapshot()}
                 snapshotsError={snapshotsError}
+              />}
+
+              <LiveSpeakersCard
+                report={speakerReport}
+                mappingSpeakerId={mappingSpeakerId}
+                onMap={(speakerId, participantId) => void mapSpeaker(speakerId, participantId)}
+                onRefresh={() => void fetchSpeakers()}
+                speakersError={speakersError}
               />
 
               <LiveRevealCard
@@ -39,6 +39,7 @@ type AnswersSession = {
     question: string;
     questionKey: string;
     answer: string;
+    originalAnswer?: string | null;
     createdAt: string;
   }>;
 };
@@ -589,7 +590,10 @@ export default function ParticipantResponsesPage({ params }: PageProps) {
                                   <div className="text-xs text-muted-foreground">{formatDate(qa.createdAt)}</div>
                                 </div>
                                 <div className="text-sm font-medium">{qa.question}</div>
-                                <div className="mt-2 whitespace-pre-wrap text-sm text-muted-foreground">{qa.answer}</div>
+                                <div className="mt-2 whitespace-pre-wrap text-sm text-muted-foreground">{qa.originalAnswer || qa.answer}</div>
+                                {qa.originalAnswer ? (
+                                  <div className="mt-1 whitespace-pre-wrap text-xs text-muted-foreground italic">Translation: {qa.answer}</div>
+                                ) : null}
                               </div>
                             ))}
                           </div>
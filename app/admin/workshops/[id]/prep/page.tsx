@@ -39,7 +39,7 @@ import { HelpTooltip } from '@/components/help/HelpTooltip';
 import HistoricalMetricsPanel from '@/components/prep/historical-metrics-panel';
 import { readBlueprintFromJson, type WorkshopBlueprint } from '@/lib/workshop/blueprint';
 import { readHistoricalMetricsFromJson, type HistoricalMetricsData } from '@/lib/historical-metrics/types';
-import { getDomainPack } from '@/lib/domain-packs/registry';
+import { getDomainPack, packFromSnapshot } from '@/lib/domain-packs/registry';
 import { toast } from 'sonner';
 import { INDUSTRY_OPTIONS } from '@/lib/cognition/industry-actor-model';
 
@@ -63,6 +63,7 @@ type WorkshopPrep = {
   customQuestions: Record<string, unknown> | null;
   discoveryBriefing: Record<string, unknown> | null;
   domainPack: string | null;
+  domainPackConfig: Record<string, unknown> | null;
   blueprint: Record<string, unknown> | null;
   historicalMetrics: Record<string, unknown> | null;
   isExample?: boolean;
@@ -234,7 +235,7 @@ export default function PrepPage({ params }: PageProps) {
 
           // Check if domain pack has metric references
           if (w.domainPack) {
-            const pack = getDomainPack(w.domainPack);
+            const pack = packFromSnapshot(w.domainPackConfig, w.domainPack) ?? getDomainPack(w.domainPack);
             if (pack && pack.metricReferences.length > 0) {
               setHasMetricReferences(true);
             }
@@ -1265,6 +1266,7 @@ export default function PrepPage({ params }: PageProps) {
             <HistoricalMetricsPanel
               workshopId={workshopId}
               domainPack={workshop.domainPack}
+              domainPackConfig={workshop.domainPackConfig}
               existingMetrics={metricsData}
               onMetricsUpdated={(updated) => setMetricsData(updated)}
             />
@@ -2,6 +2,12 @@
 
 import { use, useState, useEffect, useRef, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import {
   FileDown,
   Download,
@@ -22,6 +28,7 @@ import {
   ImagePlus,
   Building2,
   Presentation,
+  FileText,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import Link from 'next/link';
@@ -104,6 +111,7 @@ export default function DownloadReportPage({ params }: PageProps) {
   const [loading, setLoading] = useState(true);
   const [exporting, setExporting] = useState(false);
   const [exportingPptx, setExportingPptx] = useState(false);
+  const [exportingDocx, setExportingDocx] = useState(false);
   const [previewing, setPreviewing] = useState(false);
   const [previewHtml, setPreviewHtml] = useState<string | null>(null);
   // promptOutputs removed — agentic output is now inserted directly into the report layout
@@ -591,7 +599,8 @@ export default function DownloadReportPage({ params }: PageProps) {
 
   // ── PowerPoint export ────────────────────────────────────────────────────────
 
-  const handleExportPptx = async () => {
+  // native = editable shapes/tables/charts; screenshot = slide images of the PDF sections
+  const handleExportPptx = async (mode: 'native' | 'screenshot') => {
     if (!intelligence || !reportSummary) {
       toast.error('Generate the report summary first before exporting PowerPoint');
       return;
@@ -611,22 +620,26 @@ export default function DownloadReportPage({ params }: PageProps) {
           clientLogoUrl: clientLogoUrl || undefined,
           discoveryOutput: discoveryOutput || undefined,
           discoverAnalysis: discoverAnalysis || undefined,
+          mode,
         }),
       });
       if (!res.ok) {
         const err = await res.json().catch(() => ({ error: 'Export failed' })) as { error: string };
         throw new Error(err.error || 'Export failed');
       }
+      const skipped = JSON.parse(decodeURIComponent(res.headers.get('X-Skipped-Sections') ?? '%5B%5D')) as string[];
       const blob = await res.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${workshop?.name?.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'workshop'}-discovery-report.pptx`;
+      a.download = `${workshop?.name?.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'workshop'}-discovery-report${mode === 'native' ? '-editable' : ''}.pptx`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
       document.body.removeChild(a);
-      toast.success('PowerPoint downloaded!');
+      toast.success('PowerPoint downloaded!', skipped.length > 0
+        ? { description: `Not in the editable deck (use Image PPTX): ${skipped.join(', ')}` }
+        : undefined);
     } catch (err) {
       toast.error(`PowerPoint export failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
     } finally {
@@ -634,6 +647,54 @@ export default function DownloadReportPage({ params }: PageProps) {
     }
   };
 
+  // ── Word export ──────────────────────────────────────────────────────────────
+
+  const handleExportDocx = async () => {
+    if (!intelligence || !reportSummary) {
+      toast.error('Generate the report summary first before exporting Word');
+      return;
+    }
+    try {
+      setExportingDocx(true);
+      const res = await fetch(`/api/admin/workshops/${workshopId}/export-docx`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          reportSummary,
+          intelligence,
+          layout,
+          liveJourneyData,
+          workshopName: workshop?.name,
+          orgName: workshop?.organization?.name,
+          clientLogoUrl: clientLogoUrl || undefined,
+          discoveryOutput: discoveryOutput || undefined,
+          discoverAnalysis: discoverAnalysis || undefined,
+        }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({ error: 'Export failed' })) as { error: string };
+        throw new Error(err.error || 'Export failed');
+      }
+      const skipped = JSON.parse(decodeURIComponent(res.headers.get('X-Skipped-Sections') ?? '%5B%5D')) as string[];
+      const blob = await res.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${workshop?.name?.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'workshop'}-discovery-report.docx`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+      toast.success('Word document downloaded!', skipped.length > 0
+        ? { description: `Not in the Word document (use PDF): ${skipped.join(', ')}` }
+        : undefined);
+    } catch (err) {
+      toast.error(`Word export failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setExportingDocx(false);
+    }
+  };
+
   // handleExport removed — replaced by handleExportPdf above
 
   // ── Loading ───────────────────────────────────────────────────────────────
@@ -810,19 +871,51 @@ export default function DownloadReportPage({ params }: PageProps) {
               )}
               {exporting ? 'Generating PDF…' : 'Generate PDF'}
             </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  disabled={exportingPptx || !intelligence || !reportSummary}
+                  size="sm"
+                  variant="outline"
+                  className="gap-2"
+                >
+                  {exportingPptx ? (
+                    <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                  ) : (
+                    <Presentation className="h-3.5 w-3.5" />
+                  )}
+                  {exportingPptx ? 'Generating PPTX…' : 'Generate PPTX'}
+                  <ChevronDown className="h-3.5 w-3.5" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={() => handleExportPptx('native')}>
+                  <div>
+                    <div className="font-medium">Editable PPTX</div>
+                    <div className="text-xs text-muted-foreground">Native shapes, tables and charts in your brand template</div>
+                  </div>
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleExportPptx('screenshot')}>
+                  <div>
+                    <div className="font-medium">Image PPTX</div>
+                    <div className="text-xs text-muted-foreground">Every section exactly as in the PDF, as slide images</div>
+                  </div>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
             <Button
-              onClick={handleExportPptx}
-              disabled={exportingPptx || !intelligence || !reportSummary}
+              onClick={handleExportDocx}
+              disabled={exportingDocx || !intelligence || !reportSummary}
               size="sm"
               variant="outline"
               className="gap-2"
             >
-              {exportingPptx ? (
+              {exportingDocx ? (
                 <Loader2 className="h-3.5 w-3.5 animate-spin" />
               ) : (
-                <Presentation className="h-3.5 w-3.5" />
+                <FileText className="h-3.5 w-3.5" />
               )}
-              {exportingPptx ? 'Generating PPTX…' : 'Generate PPTX'}
+              {exportingDocx ? 'Generating DOCX…' : 'Generate DOCX'}
             </Button>
           </div>
         </div>
@@ -963,6 +1056,16 @@ export default function DownloadReportPage({ params }: PageProps) {
                           </div>
                         )}
 
+                        {/* ── What Changed Since Last Time ── */}
+                        {cfg.id === 'programme_changes' && (
+                          <div className="p-4">
+                            <p className="text-xs text-muted-foreground">
+                              Compares this workshop with the previous run in its programme. Computed at export time;
+                              left out of the report when the workshop is not part of a programme or is its first run.
+                            </p>
+                          </div>
+                        )}
+
                         {/* ── Supporting Evidence ── */}
                         {cfg.id === 'supporting_evidence' && (
                           <div className="p-4">
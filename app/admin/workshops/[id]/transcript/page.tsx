@@ -1,4 +1,5 @@
 import { prisma } from '@/lib/prisma';
+import { decryptTenantRecords } from '@/lib/workshop-encryption';
 import { notFound } from 'next/navigation';
 
 export default async function TranscriptPage({
@@ -14,7 +15,7 @@ export default async function TranscriptPage({
   });
   if (!workshop) notFound();
 
-  const chunks = await prisma.transcriptChunk.findMany({
+  const chunks = await decryptTenantRecords('transcriptChunk', await prisma.transcriptChunk.findMany({
     where: { workshopId: id },
     orderBy: { startTimeMs: 'asc' },
     select: {
@@ -23,7 +24,7 @@ export default async function TranscriptPage({
       startTimeMs: true,
       speakerId: true,
     },
-  });
+  }));
 
   // Deduplicate by startTimeMs + text (belt-and-braces until migration runs)
   const seen = new Set<string>();
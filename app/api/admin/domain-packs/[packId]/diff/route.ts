@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { DomainPackError, diffTenantPackVersions } from '@/lib/domain-packs/tenant-packs';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/domain-packs/[packId]/diff?from=1.0.0&to=1.1.0
+ *
+ * Structural diff between two versions. `from=builtin` compares against the
+ * built-in pack this one was forked from.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ packId: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    if (!auth.organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    const { packId } = await params;
+    const from = request.nextUrl.searchParams.get('from');
+    const to = request.nextUrl.searchParams.get('to');
+    if (!from || !to) {
+      return NextResponse.json({ error: 'from and to are required' }, { status: 400 });
+    }
+
+    const diff = await diffTenantPackVersions({ organizationId: auth.organizationId, packId, from, to });
+    return NextResponse.json(diff);
+  } catch (error) {
+    if (error instanceof DomainPackError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('[DomainPacks] Failed to diff versions:', error);
+    return NextResponse.json({ error: 'Failed to diff domain pack versions' }, { status: 500 });
+  }
+}
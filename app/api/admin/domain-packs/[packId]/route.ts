@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { params: Promise<{ packId: string }> };
+
+/**
+ * GET /api/admin/domain-packs/[packId]
+ *
+ * A tenant pack with its full version history, including each version's
+ * config, and how many workshops are pinned to each version.
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    if (!auth.organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    const { packId } = await params;
+    const pack = await prisma.tenantDomainPack.findFirst({
+      where: { id: packId, organizationId: auth.organizationId },
+      include: {
+        versions: {
+          orderBy: { createdAt: 'desc' },
+          include: { _count: { select: { workshops: true } } },
+        },
+      },
+    });
+    if (!pack) {
+      return NextResponse.json({ error: 'Domain pack not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ pack });
+  } catch (error) {
+    console.error('[DomainPacks] Failed to load pack:', error);
+    return NextResponse.json({ error: 'Failed to load domain pack' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/domain-packs/[packId]
+ *
+ * Archive a tenant pack: it stops shadowing the built-in pack for new
+ * workshops. Versions are kept so pinned workshops still resolve.
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    if (auth.role === 'TENANT_USER') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (!auth.organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    const { packId } = await params;
+    const { count } = await prisma.tenantDomainPack.updateMany({
+      where: { id: packId, organizationId: auth.organizationId, archivedAt: null },
+      data: { archivedAt: new Date() },
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: 'Domain pack not found' }, { status: 404 });
+    }
+
+    logAuditEvent({ organizationId: auth.organizationId, userId: auth.userId, userEmail: auth.email, action: 'ARCHIVE_DOMAIN_PACK', resourceType: 'DomainPack', resourceId: packId, success: true }).catch(err => console.error('[audit] archive_domain_pack:', err));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[DomainPacks] Failed to archive pack:', error);
+    return NextResponse.json({ error: 'Failed to archive domain pack' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { PublishDomainPackVersionSchema, zodError } from '@/lib/validation/schemas';
+import { DomainPackError, publishDomainPackVersion } from '@/lib/domain-packs/tenant-packs';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/admin/domain-packs/[packId]/versions
+ *
+ * Publish a new immutable version. Omit `version` to bump from the latest
+ * (by `bump`, or by the size of the change when `bump` is omitted too).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ packId: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    if (auth.role === 'TENANT_USER') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (!auth.organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    const { packId } = await params;
+    const rawBody = await request.json().catch(() => null);
+    const parsed = PublishDomainPackVersionSchema.safeParse(rawBody);
+    if (!parsed.success) return zodError(parsed.error);
+
+    const version = await publishDomainPackVersion({
+      organizationId: auth.organizationId,
+      packId,
+      userId: auth.userId,
+      config: parsed.data.config,
+      version: parsed.data.version || undefined,
+      bump: parsed.data.bump,
+      changelog: parsed.data.changelog || null,
+    });
+
+    logAuditEvent({ organizationId: auth.organizationId, userId: auth.userId, userEmail: auth.email, action: 'PUBLISH_DOMAIN_PACK', resourceType: 'DomainPack', resourceId: packId, metadata: { version: version.version }, success: true }).catch(err => console.error('[audit] publish_domain_pack:', err));
+
+    return NextResponse.json({ version }, { status: 201 });
+  } catch (error) {
+    if (error instanceof DomainPackError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: error.status });
+    }
+    console.error('[DomainPacks] Failed to publish version:', error);
+    return NextResponse.json({ error: 'Failed to publish domain pack version' }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { CreateDomainPackSchema, zodError } from '@/lib/validation/schemas';
+import {
+  DOMAIN_PACK_KINDS,
+  DomainPackError,
+  builtInPacks,
+  createTenantDomainPack,
+} from '@/lib/domain-packs/tenant-packs';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/domain-packs
+ *
+ * Built-in packs (available to fork) and the organisation's own packs with
+ * their version history.
+ */
+export async function GET() {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    if (!auth.organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    const builtIn = Object.fromEntries(
+      DOMAIN_PACK_KINDS.map((kind) => [
+        kind,
+        Object.values(builtInPacks(kind)).map((p) => ({ key: p.key, label: p.label, category: p.category })),
+      ]),
+    );
+
+    const packs = await prisma.tenantDomainPack.findMany({
+      where: { organizationId: auth.organizationId, archivedAt: null },
+      orderBy: [{ kind: 'asc' }, { label: 'asc' }],
+      include: {
+        versions: {
+          orderBy: { createdAt: 'desc' },
+          select: { id: true, version: true, changelog: true, createdById: true, createdAt: true },
+        },
+      },
+    });
+
+    return NextResponse.json({ builtIn, packs });
+  } catch (error) {
+    console.error('[DomainPacks] Failed to list packs:', error);
+    return NextResponse.json({ error: 'Failed to list domain packs' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/domain-packs
+ *
+ * Create a tenant pack at 1.0.0 — from an authored config, or by forking a
+ * built-in pack (`forkFrom`, optionally under a new `key`). A pack with the
+ * same key as a built-in replaces it for this organisation.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    if (auth.role === 'TENANT_USER') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (!auth.organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    const rawBody = await request.json().catch(() => null);
+    const parsed = CreateDomainPackSchema.safeParse(rawBody);
+    if (!parsed.success) return zodError(parsed.error);
+
+    const pack = await createTenantDomainPack({
+      organizationId: auth.organizationId,
+      userId: auth.userId,
+      kind: parsed.data.kind,
+      config: parsed.data.config,
+      forkFrom: parsed.data.forkFrom || undefined,
+      key: parsed.data.key || undefined,
+      changelog: parsed.data.changelog || null,
+    });
+
+    logAuditEvent({ organizationId: auth.organizationId, userId: auth.userId, userEmail: auth.email, action: 'CREATE_DOMAIN_PACK', resourceType: 'DomainPack', resourceId: pack.id, metadata: { key: pack.key, kind: pack.kind, forkedFrom: pack.forkedFromKey }, success: true }).catch(err => console.error('[audit] create_domain_pack:', err));
+
+    return NextResponse.json({ pack }, { status: 201 });
+  } catch (error) {
+    if (error instanceof DomainPackError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: error.status });
+    }
+    console.error('[DomainPacks] Failed to create pack:', error);
+    return NextResponse.json({ error: 'Failed to create domain pack' }, { status: 500 });
+  }
+}
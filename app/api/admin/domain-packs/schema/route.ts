@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { DOMAIN_PACK_JSON_SCHEMA } from '@/lib/domain-packs/schema';
+
+/**
+ * GET /api/admin/domain-packs/schema
+ *
+ * JSON Schema for authored domain pack configs, for the admin editor and
+ * external tooling.
+ */
+export async function GET() {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  return NextResponse.json(DOMAIN_PACK_JSON_SCHEMA, {
+    headers: { 'Content-Type': 'application/schema+json' },
+  });
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { ValidateDomainPackSchema, zodError } from '@/lib/validation/schemas';
+import { validateDomainPack } from '@/lib/domain-packs/schema';
+import { packFromVersion } from '@/lib/domain-packs/tenant-packs';
+import { diffDomainPacks } from '@/lib/domain-packs/versioning';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/admin/domain-packs/validate
+ *
+ * Dry run for the editor: validates a config and, when `packId` is given,
+ * diffs it against that pack's latest version and suggests the next bump.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    if (!auth.organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    const rawBody = await request.json().catch(() => null);
+    const parsed = ValidateDomainPackSchema.safeParse(rawBody);
+    if (!parsed.success) return zodError(parsed.error);
+
+    const result = validateDomainPack(parsed.data.config);
+    if (!result.success) {
+      return NextResponse.json({ valid: false, errors: result.errors });
+    }
+
+    if (!parsed.data.packId) return NextResponse.json({ valid: true, errors: [] });
+
+    const latest = await prisma.tenantDomainPackVersion.findFirst({
+      where: { packId: parsed.data.packId, pack: { organizationId: auth.organizationId } },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, version: true, config: true },
+    });
+
+    return NextResponse.json({
+      valid: true,
+      errors: [],
+      ...(latest ? { baseVersion: latest.version, diff: diffDomainPacks(packFromVersion(latest), result.pack) } : {}),
+    });
+  } catch (error) {
+    console.error('[DomainPacks] Failed to validate pack:', error);
+    return NextResponse.json({ error: 'Failed to validate domain pack' }, { status: 500 });
+  }
+}
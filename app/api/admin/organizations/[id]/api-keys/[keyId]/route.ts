@@ -0,0 +1,41 @@
+/**
+ * DELETE /api/admin/organizations/[id]/api-keys/[keyId]
+ *
+ * Revoke an API key. The row is kept (revokedAt) for the audit trail.
+ * PLATFORM_ADMIN, or TENANT_ADMIN for their own organisation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; keyId: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId, keyId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { count } = await prisma.apiKey.updateMany({
+    where: { id: keyId, organizationId: orgId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (count === 0) return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+
+  logAuditEvent({
+    organizationId: orgId,
+    userId: auth.userId,
+    userEmail: auth.email,
+    action: 'REVOKE_API_KEY',
+    resourceType: 'ApiKey',
+    resourceId: keyId,
+  }).catch((err) => console.error('[audit] revoke_api_key:', err));
+
+  return NextResponse.json({ success: true });
+}
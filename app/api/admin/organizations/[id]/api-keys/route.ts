@@ -0,0 +1,105 @@
+/**
+ * /api/admin/organizations/[id]/api-keys
+ *
+ * Keys for the organisation's public REST API (/api/v1).
+ *
+ *   GET  — keys (never the key itself) with scopes and last use, plus the scope catalogue
+ *   POST — issue a key; it is returned once and only its hash is kept
+ *
+ * PLATFORM_ADMIN, or TENANT_ADMIN for their own organisation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { API_KEY_SELECT, generateApiKey, resolveActingUserId } from '@/lib/public-api/keys';
+import { API_KEY_SCOPES, API_KEY_SCOPE_LABELS } from '@/lib/public-api/scopes';
+import { CreateApiKeySchema, zodError } from '@/lib/validation/schemas';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const keys = await prisma.apiKey.findMany({
+    where: { organizationId: orgId },
+    orderBy: { createdAt: 'desc' },
+    select: API_KEY_SELECT,
+  });
+
+  return NextResponse.json({
+    keys,
+    scopes: API_KEY_SCOPES.map((scope) => ({ scope, label: API_KEY_SCOPE_LABELS[scope] })),
+  });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const rawBody = await request.json().catch(() => null);
+  const parsed = CreateApiKeySchema.safeParse(rawBody);
+  if (!parsed.success) return zodError(parsed.error);
+
+  const expiresAt = parsed.data.expiresAt ? new Date(parsed.data.expiresAt) : null;
+  if (expiresAt && expiresAt <= new Date()) {
+    return NextResponse.json({ error: 'expiresAt must be in the future' }, { status: 400 });
+  }
+
+  const organization = await prisma.organization.findUnique({ where: { id: orgId }, select: { id: true } });
+  if (!organization) return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+
+  const actingUserId = await resolveActingUserId(orgId, auth);
+  if (!actingUserId) {
+    return NextResponse.json(
+      { error: 'The organisation needs an active tenant admin before API keys can be issued' },
+      { status: 409 },
+    );
+  }
+
+  const { key, keyPrefix, keyHash } = generateApiKey();
+  const record = await prisma.apiKey.create({
+    data: {
+      organizationId: orgId,
+      name: parsed.data.name,
+      keyPrefix,
+      keyHash,
+      scopes: [...new Set(parsed.data.scopes)],
+      actingUserId,
+      createdById: auth.userId,
+      expiresAt,
+    },
+    select: API_KEY_SELECT,
+  });
+
+  logAuditEvent({
+    organizationId: orgId,
+    userId: auth.userId,
+    userEmail: auth.email,
+    action: 'CREATE_API_KEY',
+    resourceType: 'ApiKey',
+    resourceId: record.id,
+    metadata: { name: record.name, scopes: record.scopes, keyPrefix },
+  }).catch((err) => console.error('[audit] create_api_key:', err));
+
+  // Return the key ONCE — only its hash is stored
+  return NextResponse.json({ apiKey: record, key }, { status: 201 });
+}
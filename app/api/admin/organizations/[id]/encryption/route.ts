@@ -0,0 +1,138 @@
+/**
+ * /api/admin/organizations/[id]/encryption
+ *
+ * Platform-admin management of an organisation's tenant data keys.
+ *
+ *   GET    — key versions (never key material) and the latest rotation job
+ *   POST   — start a key rotation; the first batches run in this request,
+ *            the rest via /api/cron/key-rotation
+ *   DELETE — crypto-shred: destroy every data key and redact the plaintext
+ *            copies of encrypted content. Irreversible — all of the
+ *            organisation's encrypted data becomes permanently unreadable.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { TenantKeyError, destroyTenantKeys } from '@/lib/tenant-encryption';
+import { advanceKeyRotation, getLatestKeyRotation, startKeyRotation } from '@/lib/tenant-key-rotation';
+import { purgePlaintextCopies } from '@/lib/workshop-encryption';
+import { DestroyTenantKeysSchema, zodError } from '@/lib/validation/schemas';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/** Batches processed inline when a rotation is started */
+const INLINE_BATCHES = 5;
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSession();
+  if (!session || session.role !== 'PLATFORM_ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id: orgId } = await params;
+
+  const [keys, rotation] = await Promise.all([
+    prisma.tenantDataKey.findMany({
+      where: { organizationId: orgId },
+      orderBy: { version: 'desc' },
+      select: {
+        version: true,
+        status: true,
+        kmsProvider: true,
+        kmsKeyId: true,
+        createdAt: true,
+        retiredAt: true,
+        destroyedAt: true,
+      },
+    }),
+    getLatestKeyRotation(orgId),
+  ]);
+
+  return NextResponse.json({ keys, rotation });
+}
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSession();
+  if (!session || session.role !== 'PLATFORM_ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id: orgId } = await params;
+
+  const org = await prisma.organization.findUnique({ where: { id: orgId }, select: { id: true } });
+  if (!org) return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+
+  try {
+    const started = await startKeyRotation(orgId, session.userId);
+    const rotation = await advanceKeyRotation(started.id, { maxBatches: INLINE_BATCHES });
+
+    logAuditEvent({
+      organizationId: orgId,
+      userId: session.userId,
+      userEmail: session.email,
+      action: 'ROTATE_ENCRYPTION_KEY',
+      resourceType: 'Organization',
+      resourceId: orgId,
+      metadata: { jobId: rotation.id, targetVersion: rotation.targetVersion },
+    }).catch((err) => console.error('[audit] rotate_encryption_key:', err));
+
+    return NextResponse.json({ rotation }, { status: 202 });
+  } catch (error) {
+    if (error instanceof TenantKeyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('[Encryption] Failed to start key rotation:', error);
+    return NextResponse.json({ error: 'Failed to start key rotation' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSession();
+  if (!session || session.role !== 'PLATFORM_ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id: orgId } = await params;
+  const rawBody = await request.json().catch(() => null);
+  const parsed = DestroyTenantKeysSchema.safeParse(rawBody);
+  if (!parsed.success) return zodError(parsed.error);
+
+  if (parsed.data.confirmOrganizationId !== orgId) {
+    return NextResponse.json({ error: 'confirmOrganizationId does not match' }, { status: 400 });
+  }
+
+  const org = await prisma.organization.findUnique({ where: { id: orgId }, select: { id: true } });
+  if (!org) return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+
+  const destroyed = await destroyTenantKeys(orgId);
+  const purged = await purgePlaintextCopies(orgId);
+  // A rotation can no longer decrypt anything — stop it rather than let it fail row by row
+  await prisma.keyRotationJob.updateMany({
+    where: { organizationId: orgId, status: 'running' },
+    data: { status: 'failed', error: 'Data keys destroyed', completedAt: new Date() },
+  });
+
+  logAuditEvent({
+    organizationId: orgId,
+    userId: session.userId,
+    userEmail: session.email,
+    action: 'DESTROY_ENCRYPTION_KEYS',
+    resourceType: 'Organization',
+    resourceId: orgId,
+    metadata: { keysDestroyed: destroyed, plaintextPurged: purged },
+  }).catch((err) => console.error('[audit] destroy_encryption_keys:', err));
+
+  return NextResponse.json({ success: true, keysDestroyed: destroyed, plaintextPurged: purged });
+}
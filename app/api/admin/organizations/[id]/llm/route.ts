@@ -0,0 +1,103 @@
+/**
+ * /api/admin/organizations/[id]/llm
+ *
+ * LLM provider selection for an organisation (Organization.llmConfig), layered
+ * over the deployment's LLM_* settings by withOrganizationLLMConfig().
+ *
+ *   GET — the organisation's config and the settings it resolves to
+ *   PUT — replace the config (LLMConfigSchema); an empty body `{}` restores
+ *         the deployment default. Takes effect on the next request.
+ *
+ * PLATFORM_ADMIN, or TENANT_ADMIN for their own organisation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { LLMConfigSchema, LLM_PROVIDER_NAMES, readLLMConfig, resolveLLMSettings, withLLMConfig } from '@/lib/llm';
+import { zodError } from '@/lib/validation/schemas';
+
+export const dynamic = 'force-dynamic';
+
+/** The fixture provider is for tests only */
+const SELECTABLE_PROVIDERS = LLM_PROVIDER_NAMES.filter((name) => name !== 'fixture');
+
+const OrganizationLLMConfigSchema = LLMConfigSchema.refine(
+  (config) => [config.provider, config.embeddingProvider, ...Object.values(config.agents ?? {}).map((a) => a.provider)]
+    .every((provider) => provider !== 'fixture'),
+  { message: `Provider must be one of: ${SELECTABLE_PROVIDERS.join(', ')}` },
+);
+
+function canManage(auth: { role: string; organizationId: string | null }, orgId: string): boolean {
+  return auth.role === 'PLATFORM_ADMIN' || (auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId);
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (!canManage(auth, orgId)) return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+
+  const organization = await prisma.organization.findUnique({
+    where: { id: orgId },
+    select: { llmConfig: true },
+  });
+  if (!organization) return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+
+  const config = readLLMConfig(organization.llmConfig);
+  return NextResponse.json({
+    config: config ?? {},
+    providers: SELECTABLE_PROVIDERS,
+    effective: withLLMConfig(config, () => resolveLLMSettings('default')),
+  });
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (!canManage(auth, orgId)) return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+
+  const rawBody = await request.json().catch(() => null);
+  const parsed = OrganizationLLMConfigSchema.safeParse(rawBody);
+  if (!parsed.success) return zodError(parsed.error);
+
+  const isEmpty = Object.values(parsed.data).every((value) => value === undefined);
+
+  try {
+    await prisma.organization.update({
+      where: { id: orgId },
+      data: { llmConfig: isEmpty ? Prisma.DbNull : parsed.data },
+    });
+
+    logAuditEvent({
+      organizationId: orgId,
+      userId: auth.userId,
+      userEmail: auth.email,
+      action: 'UPDATE_LLM_CONFIG',
+      resourceType: 'Organization',
+      resourceId: orgId,
+      metadata: {
+        provider: parsed.data.provider ?? null,
+        models: parsed.data.models ?? null,
+        embeddingProvider: parsed.data.embeddingProvider ?? null,
+        agentOverrides: Object.keys(parsed.data.agents ?? {}),
+      },
+    }).catch((err) => console.error('[audit] update_llm_config:', err));
+
+    return NextResponse.json({ config: isEmpty ? {} : parsed.data });
+  } catch (error) {
+    console.error('[LLM] Failed to save config:', error);
+    return NextResponse.json({ error: 'Failed to save LLM settings' }, { status: 500 });
+  }
+}
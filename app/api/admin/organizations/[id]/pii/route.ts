@@ -0,0 +1,94 @@
+/**
+ * /api/admin/organizations/[id]/pii
+ *
+ * PII redaction settings for an organisation (Organization.piiConfig).
+ *
+ *   GET — current settings, the built-in rules and whether an NER model is registered
+ *   PUT — replace the settings (PiiConfigSchema); takes effect on the next ingest
+ *
+ * PLATFORM_ADMIN, or TENANT_ADMIN for their own organisation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { PiiConfigSchema, readPiiConfig } from '@/lib/pii/config';
+import { BUILT_IN_PII_RULES } from '@/lib/pii/rules';
+import { getNerDetector } from '@/lib/pii/scanner';
+import { PII_ENTITY_TYPES } from '@/lib/pii/types';
+import { zodError } from '@/lib/validation/schemas';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const organization = await prisma.organization.findUnique({
+    where: { id: orgId },
+    select: { piiConfig: true },
+  });
+  if (!organization) return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+
+  return NextResponse.json({
+    config: readPiiConfig(organization.piiConfig) ?? { enabled: false },
+    entityTypes: PII_ENTITY_TYPES,
+    builtInRules: BUILT_IN_PII_RULES.map((rule) => ({ name: rule.name, type: rule.type })),
+    nerAvailable: getNerDetector() !== null,
+  });
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const rawBody = await request.json().catch(() => null);
+  const parsed = PiiConfigSchema.safeParse(rawBody);
+  if (!parsed.success) return zodError(parsed.error);
+
+  try {
+    await prisma.organization.update({
+      where: { id: orgId },
+      data: { piiConfig: parsed.data },
+    });
+
+    logAuditEvent({
+      organizationId: orgId,
+      userId: auth.userId,
+      userEmail: auth.email,
+      action: 'UPDATE_PII_CONFIG',
+      resourceType: 'Organization',
+      resourceId: orgId,
+      // Dictionary terms are themselves PII — record the count, not the names
+      metadata: {
+        enabled: parsed.data.enabled,
+        entityTypes: parsed.data.entityTypes ?? PII_ENTITY_TYPES,
+        dictionaryTerms: parsed.data.dictionary?.length ?? 0,
+        customRules: parsed.data.customRules?.map((rule) => rule.name) ?? [],
+        useNer: parsed.data.useNer ?? false,
+      },
+    }).catch((err) => console.error('[audit] update_pii_config:', err));
+
+    return NextResponse.json({ config: parsed.data });
+  } catch (error) {
+    console.error('[PII] Failed to save config:', error);
+    return NextResponse.json({ error: 'Failed to save PII settings' }, { status: 500 });
+  }
+}
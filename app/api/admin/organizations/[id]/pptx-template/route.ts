@@ -0,0 +1,162 @@
+/**
+ * /api/admin/organizations/[id]/pptx-template
+ *
+ * PowerPoint master template for the organisation's editable deck exports
+ * (Organization.pptxTemplate, see lib/report/pptx-template.ts).
+ *
+ *   GET    — the stored template summary and the resolved deck theme
+ *   POST   — upload a .pptx/.potx (multipart "file"); theme colours, fonts and
+ *            background artwork are extracted and kept, the file itself is not
+ *   DELETE — remove the template; exports fall back to the brand colours
+ *
+ * PLATFORM_ADMIN, or TENANT_ADMIN for their own organisation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { uploadOrgBrandAsset } from '@/lib/storage';
+import {
+  PPTX_TEMPLATE_MAX_BYTES,
+  PptxTemplateError,
+  parsePptxTemplate,
+  readStoredPptxTemplate,
+  resolveDeckTheme,
+  type StoredPptxTemplate,
+} from '@/lib/report/pptx-template';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const organization = await prisma.organization.findUnique({
+    where: { id: orgId },
+    select: { primaryColor: true, secondaryColor: true, pptxTemplate: true },
+  });
+  if (!organization) return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+
+  const template = readStoredPptxTemplate(organization.pptxTemplate);
+  return NextResponse.json({
+    template,
+    theme: resolveDeckTheme({ ...organization, pptxTemplate: template }),
+  });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const formData = await request.formData().catch(() => null);
+  const file = formData?.get('file');
+  if (!(file instanceof File)) return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+  if (!/\.(pptx|potx)$/i.test(file.name)) {
+    return NextResponse.json({ error: 'Template must be a .pptx or .potx file' }, { status: 400 });
+  }
+  if (file.size > PPTX_TEMPLATE_MAX_BYTES) {
+    return NextResponse.json({ error: 'Template must be less than 20MB' }, { status: 400 });
+  }
+
+  const organization = await prisma.organization.findUnique({
+    where: { id: orgId },
+    select: { primaryColor: true, secondaryColor: true },
+  });
+  if (!organization) return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+
+  try {
+    const parsed = await parsePptxTemplate(Buffer.from(await file.arrayBuffer()));
+
+    const [backgroundUrl, titleBackgroundUrl] = await Promise.all([
+      parsed.background
+        ? uploadOrgBrandAsset(parsed.background.data, orgId, 'pptx-background', parsed.background.contentType)
+        : null,
+      parsed.titleBackground
+        ? uploadOrgBrandAsset(parsed.titleBackground.data, orgId, 'pptx-title-background', parsed.titleBackground.contentType)
+        : null,
+    ]);
+
+    const template: StoredPptxTemplate = {
+      fileName: file.name,
+      uploadedAt: new Date().toISOString(),
+      colors: parsed.colors,
+      fonts: parsed.fonts,
+      backgroundUrl,
+      titleBackgroundUrl,
+    };
+
+    await prisma.organization.update({
+      where: { id: orgId },
+      data: { pptxTemplate: template as unknown as Prisma.InputJsonValue },
+    });
+
+    logAuditEvent({
+      organizationId: orgId,
+      userId: auth.userId,
+      userEmail: auth.email,
+      action: 'UPDATE_PPTX_TEMPLATE',
+      resourceType: 'Organization',
+      resourceId: orgId,
+      metadata: { fileName: file.name, colors: Object.keys(parsed.colors).length, fonts: parsed.fonts },
+    }).catch((err) => console.error('[audit] update_pptx_template:', err));
+
+    return NextResponse.json({ template, theme: resolveDeckTheme({ ...organization, pptxTemplate: template }) });
+  } catch (error) {
+    if (error instanceof PptxTemplateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error('PPTX template upload error:', msg, error);
+    return NextResponse.json({ error: `Failed to upload template: ${msg}` }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const organization = await prisma.organization.findUnique({ where: { id: orgId }, select: { id: true } });
+  if (!organization) return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+
+  await prisma.organization.update({
+    where: { id: orgId },
+    data: { pptxTemplate: Prisma.DbNull },
+  });
+
+  logAuditEvent({
+    organizationId: orgId,
+    userId: auth.userId,
+    userEmail: auth.email,
+    action: 'DELETE_PPTX_TEMPLATE',
+    resourceType: 'Organization',
+    resourceId: orgId,
+  }).catch((err) => console.error('[audit] delete_pptx_template:', err));
+
+  return NextResponse.json({ success: true });
+}
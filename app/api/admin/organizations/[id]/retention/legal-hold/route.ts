@@ -0,0 +1,57 @@
+/**
+ * PUT /api/admin/organizations/[id]/retention/legal-hold
+ *
+ * Place or release a legal hold on the organisation, or on one of its
+ * workshops when workshopId is given. Held data is skipped by every
+ * retention purge until released.
+ *
+ * PLATFORM_ADMIN, or TENANT_ADMIN for their own organisation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { RetentionPolicyError, setLegalHold } from '@/lib/compliance/retention-policies';
+import { LegalHoldSchema, zodError } from '@/lib/validation/schemas';
+
+export const dynamic = 'force-dynamic';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const rawBody = await request.json().catch(() => null);
+  const parsed = LegalHoldSchema.safeParse(rawBody);
+  if (!parsed.success) return zodError(parsed.error);
+
+  const { workshopId, hold, reason } = parsed.data;
+  try {
+    const legalHold = await setLegalHold(orgId, { workshopId, hold, reason });
+
+    logAuditEvent({
+      organizationId: orgId,
+      userId: auth.userId,
+      userEmail: auth.email,
+      action: hold ? 'SET_LEGAL_HOLD' : 'RELEASE_LEGAL_HOLD',
+      resourceType: workshopId ? 'Workshop' : 'Organization',
+      resourceId: workshopId ?? orgId,
+      metadata: { reason: reason ?? null },
+    }).catch((err) => console.error('[audit] legal_hold:', err));
+
+    return NextResponse.json({ legalHold });
+  } catch (error) {
+    if (error instanceof RetentionPolicyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('[Retention] Failed to update legal hold:', error);
+    return NextResponse.json({ error: 'Failed to update legal hold' }, { status: 500 });
+  }
+}
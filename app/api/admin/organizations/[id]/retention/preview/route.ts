@@ -0,0 +1,37 @@
+/**
+ * GET /api/admin/organizations/[id]/retention/preview
+ *
+ * Dry run of the retention engine for one organisation: per workshop and
+ * data type, how many records the next purge would delete or anonymise and
+ * which are held back by a legal hold. Nothing is changed.
+ *
+ * PLATFORM_ADMIN, or TENANT_ADMIN for their own organisation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { runRetentionEngine } from '@/lib/compliance/retention-engine';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const report = await runRetentionEngine({ dryRun: true, organizationId: orgId });
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('[Retention] Preview failed:', error);
+    return NextResponse.json({ error: 'Failed to build retention preview' }, { status: 500 });
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * /api/admin/organizations/[id]/retention
+ *
+ * Per-organisation and per-workshop data retention policies.
+ *
+ *   GET    — data types with platform defaults, the organisation's rules,
+ *            legal holds and recent retention certificates
+ *   PUT    — create or update a rule (UpsertRetentionPolicySchema)
+ *   DELETE — remove a rule (?policyId=...), falling back to the next level
+ *
+ * PLATFORM_ADMIN, or TENANT_ADMIN for their own organisation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import {
+  RETENTION_DATA_TYPES,
+  RETENTION_DATA_TYPE_SPECS,
+  RetentionPolicyError,
+  defaultRetentionDays,
+  deleteRetentionPolicy,
+  listRetentionPolicies,
+  upsertRetentionPolicy,
+} from '@/lib/compliance/retention-policies';
+import { UpsertRetentionPolicySchema, zodError } from '@/lib/validation/schemas';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const [organization, policies, heldWorkshops, certificates] = await Promise.all([
+    prisma.organization.findUnique({
+      where: { id: orgId },
+      select: { id: true, legalHoldAt: true, legalHoldReason: true },
+    }),
+    listRetentionPolicies(orgId),
+    prisma.workshop.findMany({
+      where: { organizationId: orgId, legalHoldAt: { not: null } },
+      select: { id: true, name: true, legalHoldAt: true, legalHoldReason: true },
+    }),
+    prisma.retentionCertificate.findMany({
+      where: { organizationId: orgId },
+      orderBy: { sequence: 'desc' },
+      take: 20,
+    }),
+  ]);
+  if (!organization) return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+
+  const dataTypes = RETENTION_DATA_TYPES.map((dataType) => ({
+    dataType,
+    ...RETENTION_DATA_TYPE_SPECS[dataType],
+    defaultDays: defaultRetentionDays(dataType),
+  }));
+
+  return NextResponse.json({
+    dataTypes,
+    policies,
+    legalHold: { legalHoldAt: organization.legalHoldAt, legalHoldReason: organization.legalHoldReason },
+    heldWorkshops,
+    certificates,
+  });
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const rawBody = await request.json().catch(() => null);
+  const parsed = UpsertRetentionPolicySchema.safeParse(rawBody);
+  if (!parsed.success) return zodError(parsed.error);
+
+  try {
+    const policy = await upsertRetentionPolicy(orgId, parsed.data, auth.userId);
+
+    logAuditEvent({
+      organizationId: orgId,
+      userId: auth.userId,
+      userEmail: auth.email,
+      action: 'UPDATE_RETENTION_POLICY',
+      resourceType: 'RetentionPolicy',
+      resourceId: policy.id,
+      metadata: parsed.data,
+    }).catch((err) => console.error('[audit] update_retention_policy:', err));
+
+    return NextResponse.json({ policy });
+  } catch (error) {
+    if (error instanceof RetentionPolicyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('[Retention] Failed to save policy:', error);
+    return NextResponse.json({ error: 'Failed to save retention policy' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const policyId = new URL(request.url).searchParams.get('policyId');
+  if (!policyId) return NextResponse.json({ error: 'policyId query param required' }, { status: 400 });
+
+  try {
+    await deleteRetentionPolicy(orgId, policyId);
+
+    logAuditEvent({
+      organizationId: orgId,
+      userId: auth.userId,
+      userEmail: auth.email,
+      action: 'DELETE_RETENTION_POLICY',
+      resourceType: 'RetentionPolicy',
+      resourceId: policyId,
+    }).catch((err) => console.error('[audit] delete_retention_policy:', err));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof RetentionPolicyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('[Retention] Failed to delete policy:', error);
+    return NextResponse.json({ error: 'Failed to delete retention policy' }, { status: 500 });
+  }
+}
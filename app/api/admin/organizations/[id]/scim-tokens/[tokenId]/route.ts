@@ -0,0 +1,41 @@
+/**
+ * DELETE /api/admin/organizations/[id]/scim-tokens/[tokenId]
+ *
+ * Revoke a SCIM token. The row is kept (revokedAt) for the audit trail.
+ * PLATFORM_ADMIN, or TENANT_ADMIN for their own organisation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; tokenId: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId, tokenId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { count } = await prisma.scimToken.updateMany({
+    where: { id: tokenId, organizationId: orgId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (count === 0) return NextResponse.json({ error: 'Token not found' }, { status: 404 });
+
+  logAuditEvent({
+    organizationId: orgId,
+    userId: auth.userId,
+    userEmail: auth.email,
+    action: 'REVOKE_SCIM_TOKEN',
+    resourceType: 'ScimToken',
+    resourceId: tokenId,
+  }).catch((err) => console.error('[audit] revoke_scim_token:', err));
+
+  return NextResponse.json({ success: true });
+}
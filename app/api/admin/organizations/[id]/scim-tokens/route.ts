@@ -0,0 +1,79 @@
+/**
+ * /api/admin/organizations/[id]/scim-tokens
+ *
+ * Bearer tokens for the organisation's SCIM endpoint (/api/scim/v2).
+ *
+ *   GET  — tokens (never the secret) with last use
+ *   POST — issue a token; the secret is returned once and only its hash is kept
+ *
+ * PLATFORM_ADMIN, or TENANT_ADMIN for their own organisation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { generateScimToken } from '@/lib/scim/auth';
+import { CreateScimTokenSchema, zodError } from '@/lib/validation/schemas';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const tokens = await prisma.scimToken.findMany({
+    where: { organizationId: orgId },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, name: true, lastUsedAt: true, revokedAt: true, createdAt: true },
+  });
+
+  return NextResponse.json({ tokens });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const rawBody = await request.json().catch(() => null);
+  const parsed = CreateScimTokenSchema.safeParse(rawBody);
+  if (!parsed.success) return zodError(parsed.error);
+
+  const organization = await prisma.organization.findUnique({ where: { id: orgId }, select: { id: true } });
+  if (!organization) return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+
+  const { token, tokenHash } = generateScimToken();
+  const record = await prisma.scimToken.create({
+    data: { organizationId: orgId, name: parsed.data.name, tokenHash },
+    select: { id: true, name: true, createdAt: true },
+  });
+
+  logAuditEvent({
+    organizationId: orgId,
+    userId: auth.userId,
+    userEmail: auth.email,
+    action: 'CREATE_SCIM_TOKEN',
+    resourceType: 'ScimToken',
+    resourceId: record.id,
+    metadata: { name: record.name },
+  }).catch((err) => console.error('[audit] create_scim_token:', err));
+
+  // Return the token ONCE — only its hash is stored
+  return NextResponse.json({ token: record, secret: token }, { status: 201 });
+}
@@ -0,0 +1,56 @@
+/**
+ * POST /api/admin/organizations/[id]/sso/domains/verify
+ *
+ * Verify one of the organisation's SSO email domain claims by looking up its
+ * DNS TXT record (lib/auth/sso/domains.ts). Body: { domain }.
+ * PLATFORM_ADMIN, or TENANT_ADMIN for their own organisation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { DomainSchema } from '@/lib/auth/sso/config';
+import { verifySsoDomain } from '@/lib/auth/sso/domains';
+import { SsoError } from '@/lib/auth/sso/types';
+import { zodError } from '@/lib/validation/schemas';
+
+export const dynamic = 'force-dynamic';
+
+const VerifyDomainSchema = z.object({ domain: DomainSchema });
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const rawBody = await request.json().catch(() => null);
+  const parsed = VerifyDomainSchema.safeParse(rawBody);
+  if (!parsed.success) return zodError(parsed.error);
+
+  try {
+    const domain = await verifySsoDomain(orgId, parsed.data.domain);
+
+    logAuditEvent({
+      organizationId: orgId,
+      userId: auth.userId,
+      userEmail: auth.email,
+      action: 'VERIFY_SSO_DOMAIN',
+      resourceType: 'SsoDomain',
+      resourceId: domain.domain,
+    }).catch((err) => console.error('[audit] verify_sso_domain:', err));
+
+    return NextResponse.json({ domain });
+  } catch (error) {
+    if (error instanceof SsoError) return NextResponse.json({ error: error.message }, { status: error.status });
+    console.error('[SSO] Failed to verify domain:', error);
+    return NextResponse.json({ error: 'Failed to verify domain' }, { status: 500 });
+  }
+}
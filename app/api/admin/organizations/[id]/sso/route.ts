@@ -0,0 +1,173 @@
+/**
+ * /api/admin/organizations/[id]/sso
+ *
+ * Single sign-on connection for an organisation (SsoConnection).
+ *
+ *   GET — current connection (client secret withheld), the organisation's
+ *         email domain claims with their TXT records, and the URLs the
+ *         client's identity team needs to register the platform
+ *   PUT — create or replace the connection (SsoConnectionSchema); omit the
+ *         OIDC clientSecret to keep the stored one. emailDomains become
+ *         unverified claims until proven via ./domains/verify
+ *
+ * PLATFORM_ADMIN, or TENANT_ADMIN for their own organisation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { SsoConnectionSchema, encryptClientSecret, ssoBaseUrl } from '@/lib/auth/sso/config';
+import { listSsoDomains, setSsoDomains } from '@/lib/auth/sso/domains';
+import { oidcRedirectUri } from '@/lib/auth/sso/login';
+import { samlAcsUrl, samlEntityId } from '@/lib/auth/sso/saml';
+import { SsoError } from '@/lib/auth/sso/types';
+import { OutboundUrlError, assertPublicUrl } from '@/lib/outbound-url';
+import { zodError } from '@/lib/validation/schemas';
+
+export const dynamic = 'force-dynamic';
+
+function serviceProviderInfo(orgId: string) {
+  const appUrl = ssoBaseUrl();
+  return {
+    oidcRedirectUri: oidcRedirectUri(),
+    samlAcsUrl: samlAcsUrl(),
+    samlEntityId: samlEntityId(orgId),
+    samlMetadataUrl: samlEntityId(orgId),
+    loginUrl: `${appUrl}/api/auth/sso/start?organizationId=${encodeURIComponent(orgId)}`,
+    scimBaseUrl: `${appUrl}/api/scim/v2`,
+  };
+}
+
+/** Stored settings without the client secret */
+function publicSettings(settings: unknown) {
+  const { oidc, ...rest } = (settings ?? {}) as { oidc?: Record<string, unknown> };
+  if (!oidc) return rest;
+  const { clientSecret, ...publicOidc } = oidc;
+  return { ...rest, oidc: { ...publicOidc, hasClientSecret: !!clientSecret } };
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const [organization, domains] = await Promise.all([
+    prisma.organization.findUnique({
+      where: { id: orgId },
+      select: { ssoConnection: true },
+    }),
+    listSsoDomains(orgId),
+  ]);
+  if (!organization) return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+
+  const connection = organization.ssoConnection;
+  return NextResponse.json({
+    connection: connection
+      ? {
+          protocol: connection.protocol,
+          enabled: connection.enabled,
+          ...publicSettings(connection.settings),
+          emailDomains: domains.map((d) => d.domain),
+          jitProvisioning: connection.jitProvisioning,
+          defaultRole: connection.defaultRole,
+          roleMappings: connection.roleMappings,
+          enforceSso: connection.enforceSso,
+          updatedAt: connection.updatedAt,
+        }
+      : null,
+    domains,
+    serviceProvider: serviceProviderInfo(orgId),
+  });
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const rawBody = await request.json().catch(() => null);
+  const parsed = SsoConnectionSchema.safeParse(rawBody);
+  if (!parsed.success) return zodError(parsed.error);
+  const input = parsed.data;
+
+  try {
+    const organization = await prisma.organization.findUnique({
+      where: { id: orgId },
+      select: { ssoConnection: { select: { settings: true } } },
+    });
+    if (!organization) return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+
+    let settings: Record<string, unknown>;
+    if (input.protocol === 'oidc') {
+      await assertPublicUrl(input.oidc.issuer, 'OIDC issuer URLs');
+      const stored = (organization.ssoConnection?.settings as { oidc?: { clientSecret?: string } } | null)?.oidc?.clientSecret;
+      const clientSecret = input.oidc.clientSecret ? encryptClientSecret(input.oidc.clientSecret) : stored;
+      if (!clientSecret) {
+        return NextResponse.json({ error: 'Invalid input', details: { 'oidc.clientSecret': ['clientSecret is required'] } }, { status: 400 });
+      }
+      settings = { oidc: { ...input.oidc, clientSecret }, idpEnforcesMfa: input.idpEnforcesMfa };
+    } else {
+      settings = { saml: input.saml, idpEnforcesMfa: input.idpEnforcesMfa };
+    }
+
+    // Login routes users by email domain, so a domain can be claimed by one organisation only
+    const emailDomains = [...new Set(input.emailDomains)];
+    const domains = await setSsoDomains(orgId, emailDomains);
+
+    const data = {
+      protocol: input.protocol,
+      enabled: input.enabled,
+      settings: settings as object,
+      jitProvisioning: input.jitProvisioning,
+      defaultRole: input.defaultRole,
+      roleMappings: input.roleMappings,
+      enforceSso: input.enforceSso,
+    };
+    await prisma.ssoConnection.upsert({
+      where: { organizationId: orgId },
+      create: { organizationId: orgId, ...data },
+      update: data,
+    });
+
+    logAuditEvent({
+      organizationId: orgId,
+      userId: auth.userId,
+      userEmail: auth.email,
+      action: 'UPDATE_SSO_CONFIG',
+      resourceType: 'SsoConnection',
+      resourceId: orgId,
+      metadata: {
+        protocol: input.protocol,
+        enabled: input.enabled,
+        emailDomains,
+        jitProvisioning: input.jitProvisioning,
+        defaultRole: input.defaultRole,
+        roleMappings: input.roleMappings,
+        enforceSso: input.enforceSso,
+        clientSecretChanged: input.protocol === 'oidc' && !!input.oidc.clientSecret,
+      },
+    }).catch((err) => console.error('[audit] update_sso_config:', err));
+
+    return NextResponse.json({ success: true, domains, serviceProvider: serviceProviderInfo(orgId) });
+  } catch (error) {
+    if (error instanceof SsoError) return NextResponse.json({ error: error.message }, { status: error.status });
+    if (error instanceof OutboundUrlError) return NextResponse.json({ error: error.message }, { status: 400 });
+    console.error('[SSO] Failed to save connection:', error);
+    return NextResponse.json({ error: 'Failed to save SSO settings' }, { status: 500 });
+  }
+}
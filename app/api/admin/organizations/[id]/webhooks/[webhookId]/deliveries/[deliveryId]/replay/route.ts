@@ -0,0 +1,47 @@
+/**
+ * POST /api/admin/organizations/[id]/webhooks/[webhookId]/deliveries/[deliveryId]/replay
+ *
+ * Send a logged delivery again, as a new delivery with the same event id and
+ * payload. Responds with the outcome of the first attempt; failures retry on
+ * the usual backoff.
+ *
+ * PLATFORM_ADMIN, or TENANT_ADMIN for their own organisation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { WebhookError, replayWebhookDelivery } from '@/lib/webhooks/delivery';
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; webhookId: string; deliveryId: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId, webhookId, deliveryId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const result = await replayWebhookDelivery(orgId, webhookId, deliveryId);
+
+    logAuditEvent({
+      organizationId: orgId,
+      userId: auth.userId,
+      userEmail: auth.email,
+      action: 'REPLAY_WEBHOOK',
+      resourceType: 'WebhookDelivery',
+      resourceId: result.deliveryId,
+      metadata: { replayOf: deliveryId, endpointId: webhookId, status: result.status },
+    }).catch((err) => console.error('[audit] replay_webhook:', err));
+
+    return NextResponse.json({ result });
+  } catch (error) {
+    if (error instanceof WebhookError) return NextResponse.json({ error: error.message }, { status: error.status });
+    console.error('[Webhooks] Replay failed:', error);
+    return NextResponse.json({ error: 'Replay failed' }, { status: 500 });
+  }
+}
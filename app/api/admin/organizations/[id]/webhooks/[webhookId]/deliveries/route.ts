@@ -0,0 +1,63 @@
+/**
+ * GET /api/admin/organizations/[id]/webhooks/[webhookId]/deliveries
+ *
+ * The endpoint's delivery log, newest first. ?status=pending|succeeded|failed
+ * filters; ?limit (default 50, max 200).
+ *
+ * PLATFORM_ADMIN, or TENANT_ADMIN for their own organisation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { prisma } from '@/lib/prisma';
+
+export const dynamic = 'force-dynamic';
+
+const STATUSES = ['pending', 'succeeded', 'failed'];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; webhookId: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId, webhookId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const status = request.nextUrl.searchParams.get('status');
+  if (status && !STATUSES.includes(status)) {
+    return NextResponse.json({ error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 });
+  }
+  const limit = Math.min(Math.max(Number(request.nextUrl.searchParams.get('limit')) || 50, 1), 200);
+
+  const endpoint = await prisma.webhookEndpoint.findFirst({
+    where: { id: webhookId, organizationId: orgId },
+    select: { id: true },
+  });
+  if (!endpoint) return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+
+  const deliveries = await prisma.webhookDelivery.findMany({
+    where: { endpointId: webhookId, ...(status && { status }) },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    select: {
+      id: true,
+      eventId: true,
+      eventType: true,
+      workshopId: true,
+      status: true,
+      attempts: true,
+      nextAttemptAt: true,
+      lastStatusCode: true,
+      lastError: true,
+      deliveredAt: true,
+      replayOfId: true,
+      createdAt: true,
+    },
+  });
+
+  return NextResponse.json({ deliveries });
+}
@@ -0,0 +1,105 @@
+/**
+ * /api/admin/organizations/[id]/webhooks/[webhookId]
+ *
+ *   PATCH  — change url, description, event filter or enabled; rotateSecret
+ *            issues a new signing secret, returned once
+ *   DELETE — remove the endpoint and its delivery log
+ *
+ * PLATFORM_ADMIN, or TENANT_ADMIN for their own organisation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { WEBHOOK_ENDPOINT_SELECT, WebhookError, assertDeliverableUrl } from '@/lib/webhooks/delivery';
+import { generateWebhookSecret, sealWebhookSecret } from '@/lib/webhooks/signing';
+import { UpdateWebhookEndpointSchema, zodError } from '@/lib/validation/schemas';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; webhookId: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId, webhookId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const rawBody = await request.json().catch(() => null);
+  const parsed = UpdateWebhookEndpointSchema.safeParse(rawBody);
+  if (!parsed.success) return zodError(parsed.error);
+  const { url, description, eventTypes, enabled, rotateSecret } = parsed.data;
+
+  const existing = await prisma.webhookEndpoint.findFirst({
+    where: { id: webhookId, organizationId: orgId },
+    select: { id: true },
+  });
+  if (!existing) return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+
+  if (url !== undefined) {
+    try {
+      await assertDeliverableUrl(url);
+    } catch (error) {
+      if (error instanceof WebhookError) return NextResponse.json({ error: error.message }, { status: error.status });
+      throw error;
+    }
+  }
+
+  const secret = rotateSecret ? generateWebhookSecret() : undefined;
+  const endpoint = await prisma.webhookEndpoint.update({
+    where: { id: webhookId },
+    data: {
+      ...(url !== undefined && { url }),
+      ...(description !== undefined && { description: description || null }),
+      ...(eventTypes !== undefined && { eventTypes }),
+      ...(enabled !== undefined && { enabled }),
+      ...(secret && { secret: await sealWebhookSecret(orgId, secret) }),
+    },
+    select: WEBHOOK_ENDPOINT_SELECT,
+  });
+
+  logAuditEvent({
+    organizationId: orgId,
+    userId: auth.userId,
+    userEmail: auth.email,
+    action: 'UPDATE_WEBHOOK',
+    resourceType: 'WebhookEndpoint',
+    resourceId: webhookId,
+    metadata: {
+      changed: Object.keys(parsed.data).filter((k) => parsed.data[k as keyof typeof parsed.data] !== undefined),
+      ...(rotateSecret && { secretRotated: true }),
+    },
+  }).catch((err) => console.error('[audit] update_webhook:', err));
+
+  return NextResponse.json({ endpoint, ...(secret && { secret }) });
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; webhookId: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId, webhookId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { count } = await prisma.webhookEndpoint.deleteMany({ where: { id: webhookId, organizationId: orgId } });
+  if (count === 0) return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+
+  logAuditEvent({
+    organizationId: orgId,
+    userId: auth.userId,
+    userEmail: auth.email,
+    action: 'DELETE_WEBHOOK',
+    resourceType: 'WebhookEndpoint',
+    resourceId: webhookId,
+  }).catch((err) => console.error('[audit] delete_webhook:', err));
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,111 @@
+/**
+ * /api/admin/organizations/[id]/webhooks
+ *
+ * Outbound webhook endpoints for the organisation's workshop lifecycle events.
+ *
+ *   GET  — endpoints (never the secret) with delivery counts, plus the event catalogue
+ *   POST — add an endpoint; the signing secret is returned once
+ *
+ * PLATFORM_ADMIN, or TENANT_ADMIN for their own organisation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { WEBHOOK_EVENT_LABELS, WEBHOOK_EVENT_TYPES } from '@/lib/webhooks/events';
+import { WEBHOOK_ENDPOINT_SELECT, WebhookError, assertDeliverableUrl } from '@/lib/webhooks/delivery';
+import { generateWebhookSecret, sealWebhookSecret } from '@/lib/webhooks/signing';
+import { CreateWebhookEndpointSchema, zodError } from '@/lib/validation/schemas';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const [endpoints, counts] = await Promise.all([
+    prisma.webhookEndpoint.findMany({
+      where: { organizationId: orgId },
+      orderBy: { createdAt: 'asc' },
+      select: WEBHOOK_ENDPOINT_SELECT,
+    }),
+    prisma.webhookDelivery.groupBy({
+      by: ['endpointId', 'status'],
+      where: { organizationId: orgId },
+      _count: { _all: true },
+    }),
+  ]);
+
+  return NextResponse.json({
+    endpoints: endpoints.map((endpoint) => ({
+      ...endpoint,
+      deliveryCounts: Object.fromEntries(
+        counts.filter((c) => c.endpointId === endpoint.id).map((c) => [c.status, c._count._all]),
+      ),
+    })),
+    eventTypes: WEBHOOK_EVENT_TYPES.map((type) => ({ type, label: WEBHOOK_EVENT_LABELS[type] })),
+  });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const { id: orgId } = await params;
+  if (auth.role !== 'PLATFORM_ADMIN' && !(auth.role === 'TENANT_ADMIN' && auth.organizationId === orgId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const rawBody = await request.json().catch(() => null);
+  const parsed = CreateWebhookEndpointSchema.safeParse(rawBody);
+  if (!parsed.success) return zodError(parsed.error);
+
+  try {
+    await assertDeliverableUrl(parsed.data.url);
+  } catch (error) {
+    if (error instanceof WebhookError) return NextResponse.json({ error: error.message }, { status: error.status });
+    throw error;
+  }
+
+  const organization = await prisma.organization.findUnique({ where: { id: orgId }, select: { id: true } });
+  if (!organization) return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+
+  const secret = generateWebhookSecret();
+  const endpoint = await prisma.webhookEndpoint.create({
+    data: {
+      organizationId: orgId,
+      url: parsed.data.url,
+      description: parsed.data.description || null,
+      eventTypes: parsed.data.eventTypes,
+      enabled: parsed.data.enabled,
+      secret: await sealWebhookSecret(orgId, secret),
+      createdById: auth.userId,
+    },
+    select: WEBHOOK_ENDPOINT_SELECT,
+  });
+
+  logAuditEvent({
+    organizationId: orgId,
+    userId: auth.userId,
+    userEmail: auth.email,
+    action: 'CREATE_WEBHOOK',
+    resourceType: 'WebhookEndpoint',
+    resourceId: endpoint.id,
+    metadata: { url: endpoint.url, eventTypes: endpoint.eventTypes },
+  }).catch((err) => console.error('[audit] create_webhook:', err));
+
+  // Return the secret ONCE — receivers need it to verify signatures
+  return NextResponse.json({ endpoint, secret }, { status: 201 });
+}
@@ -0,0 +1,43 @@
+/**
+ * GET /api/admin/platform/live-sessions
+ *
+ * Live cognitive sessions across every instance (see listActiveSessions),
+ * most recently active first, with the workshop and organisation they belong
+ * to. Breakout rooms are listed as sessions of their own.
+ *
+ * PLATFORM_ADMIN only.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { prisma } from '@/lib/prisma';
+import { listActiveSessions } from '@/lib/cognition/state-store';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const session = await getSession();
+
+  if (!session?.userId || session.role !== 'PLATFORM_ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const sessions = await listActiveSessions();
+  const workshops = await prisma.workshop.findMany({
+    where: { id: { in: [...new Set(sessions.map((s) => s.workshopId))] } },
+    select: { id: true, name: true, organization: { select: { id: true, name: true } } },
+  });
+  const workshopById = new Map(workshops.map((w) => [w.id, w]));
+
+  return NextResponse.json({
+    sessions: sessions.map((s) => {
+      const workshop = workshopById.get(s.workshopId);
+      return {
+        ...s,
+        lastActivityAt: new Date(s.lastActivityMs).toISOString(),
+        workshopName: workshop?.name ?? null,
+        organization: workshop?.organization ?? null,
+      };
+    }),
+  });
+}
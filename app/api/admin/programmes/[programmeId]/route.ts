@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { UpdateProgrammeSchema, zodError } from '@/lib/validation/schemas';
+import { ProgrammeError, deleteProgramme, getProgramme, updateProgramme } from '@/lib/programmes/store';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { params: Promise<{ programmeId: string }> };
+
+/**
+ * GET /api/admin/programmes/[programmeId]
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    if (!auth.organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    const { programmeId } = await params;
+    const programme = await getProgramme(auth.organizationId, programmeId);
+    if (!programme) {
+      return NextResponse.json({ error: 'Programme not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ programme });
+  } catch (error) {
+    console.error('[Programmes] Failed to load programme:', error);
+    return NextResponse.json({ error: 'Failed to load programme' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/admin/programmes/[programmeId]
+ *
+ * Rename or describe a programme, and add or remove workshops.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    if (auth.role === 'TENANT_USER') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (!auth.organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    const rawBody = await request.json().catch(() => null);
+    const parsed = UpdateProgrammeSchema.safeParse(rawBody);
+    if (!parsed.success) return zodError(parsed.error);
+
+    const { programmeId } = await params;
+    const programme = await updateProgramme({
+      organizationId: auth.organizationId,
+      programmeId,
+      ...parsed.data,
+    });
+
+    logAuditEvent({ organizationId: auth.organizationId, userId: auth.userId, userEmail: auth.email, action: 'UPDATE_PROGRAMME', resourceType: 'Programme', resourceId: programmeId, metadata: { added: parsed.data.addWorkshopIds ?? [], removed: parsed.data.removeWorkshopIds ?? [] }, success: true }).catch(err => console.error('[audit] update_programme:', err));
+
+    return NextResponse.json({ programme });
+  } catch (error) {
+    if (error instanceof ProgrammeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('[Programmes] Failed to update programme:', error);
+    return NextResponse.json({ error: 'Failed to update programme' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/programmes/[programmeId]
+ *
+ * Delete a programme. Its workshops are kept and simply unlinked.
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    if (auth.role === 'TENANT_USER') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (!auth.organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    const { programmeId } = await params;
+    await deleteProgramme(auth.organizationId, programmeId);
+
+    logAuditEvent({ organizationId: auth.organizationId, userId: auth.userId, userEmail: auth.email, action: 'DELETE_PROGRAMME', resourceType: 'Programme', resourceId: programmeId, success: true }).catch(err => console.error('[audit] delete_programme:', err));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof ProgrammeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('[Programmes] Failed to delete programme:', error);
+    return NextResponse.json({ error: 'Failed to delete programme' }, { status: 500 });
+  }
+}
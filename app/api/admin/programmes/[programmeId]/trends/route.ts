@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { getProgramme } from '@/lib/programmes/store';
+import { loadProgrammeRuns } from '@/lib/programmes/runs';
+import { buildProgrammeTrends, buildWhatChanged } from '@/lib/programmes/trends';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+type RouteParams = { params: Promise<{ programmeId: string }> };
+
+/**
+ * GET /api/admin/programmes/[programmeId]/trends
+ *
+ * Run-over-run trends across the programme's workshops (oldest first): lens
+ * maturity, constraint persistence, sentiment index and roadmap initiative
+ * status, plus what changed between the last two runs.
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    if (!auth.organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    const { programmeId } = await params;
+    const programme = await getProgramme(auth.organizationId, programmeId);
+    if (!programme) {
+      return NextResponse.json({ error: 'Programme not found' }, { status: 404 });
+    }
+
+    const runs = await loadProgrammeRuns(programme.id);
+    const latestChanges = runs.length >= 2
+      ? buildWhatChanged(runs[runs.length - 2], runs[runs.length - 1])
+      : null;
+
+    return NextResponse.json({
+      trends: buildProgrammeTrends(runs),
+      latestChanges,
+      generatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[Programmes] Failed to build trends:', error);
+    return NextResponse.json({ error: 'Failed to build programme trends' }, { status: 500 });
+  }
+}
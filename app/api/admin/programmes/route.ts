@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { CreateProgrammeSchema, zodError } from '@/lib/validation/schemas';
+import { ProgrammeError, createProgramme, listProgrammes } from '@/lib/programmes/store';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/programmes
+ *
+ * The organisation's programmes with their workshops.
+ */
+export async function GET() {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    if (!auth.organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    const programmes = await listProgrammes(auth.organizationId);
+    return NextResponse.json({ programmes });
+  } catch (error) {
+    console.error('[Programmes] Failed to list programmes:', error);
+    return NextResponse.json({ error: 'Failed to list programmes' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/programmes
+ *
+ * Create a programme, optionally linking existing workshops to it. A workshop
+ * already in another programme moves to the new one.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    if (auth.role === 'TENANT_USER') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (!auth.organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    const rawBody = await request.json().catch(() => null);
+    const parsed = CreateProgrammeSchema.safeParse(rawBody);
+    if (!parsed.success) return zodError(parsed.error);
+
+    const programme = await createProgramme({
+      organizationId: auth.organizationId,
+      userId: auth.userId,
+      name: parsed.data.name,
+      clientName: parsed.data.clientName || null,
+      description: parsed.data.description || null,
+      workshopIds: parsed.data.workshopIds,
+    });
+
+    logAuditEvent({ organizationId: auth.organizationId, userId: auth.userId, userEmail: auth.email, action: 'CREATE_PROGRAMME', resourceType: 'Programme', resourceId: programme.id, metadata: { name: programme.name, workshopCount: programme.workshops.length }, success: true }).catch(err => console.error('[audit] create_programme:', err));
+
+    return NextResponse.json({ programme }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ProgrammeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('[Programmes] Failed to create programme:', error);
+    return NextResponse.json({ error: 'Failed to create programme' }, { status: 500 });
+  }
+}
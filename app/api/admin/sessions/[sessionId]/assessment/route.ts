@@ -1,14 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import OpenAI from 'openai';
+import { decryptTenantRecords } from '@/lib/workshop-encryption';
 import { InsightCategory, InsightType } from '@prisma/client';
 import { createHash } from 'crypto';
 import { requireAuth } from '@/lib/auth/require-auth';
+import { pivotText } from '@/lib/conversation/translation';
+import { getLLMClient } from '@/lib/llm';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+const llm = getLLMClient('session-assessment');
 
 function stableFingerprint(value: unknown): string {
   const json = JSON.stringify(value);
@@ -77,7 +80,7 @@ type ExtractedConversationInsight = {
 async function extractConversationInsights(params: {
   qaPairs: Array<{ phase: string | null; question: string; answer: string }>;
 }): Promise<ExtractedConversationInsight[]> {
-  if (!process.env.OPENAI_API_KEY) return [];
+  if (!llm.isConfigured()) return [];
 
   const compact = params.qaPairs
     .slice(0, 40)
@@ -87,8 +90,8 @@ async function extractConversationInsights(params: {
     })
     .join('\n\n');
 
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
+  const completion = await llm.chat({
+    tier: 'fast',
     temperature: 0.15,
     messages: [
       {
@@ -100,7 +103,7 @@ async function extractConversationInsights(params: {
     ],
   });
 
-  const raw = completion.choices?.[0]?.message?.content?.trim() || '';
+  const raw = completion.content.trim();
   const parsed = safeParseJson<{ insights: ExtractedConversationInsight[] }>(raw);
   const list = parsed && Array.isArray(parsed.insights) ? parsed.insights : [];
   return list;
@@ -174,7 +177,7 @@ export async function POST(
     const force = request.nextUrl.searchParams.get('force') === '1';
     const includeInsights = request.nextUrl.searchParams.get('insights') === '1';
 
-    const agenticConfigured = !!process.env.OPENAI_API_KEY;
+    const agenticConfigured = llm.isConfigured();
 
     const body = (await request.json().catch(() => null)) as IncomingAssessmentBody | null;
 
@@ -184,11 +187,11 @@ export async function POST(
       select: { questionKey: true, rawText: true, createdAt: true },
     });
 
-    const participantMessages = await prisma.conversationMessage.findMany({
+    const participantMessages = await decryptTenantRecords('conversationMessage', await prisma.conversationMessage.findMany({
       where: { sessionId, role: 'PARTICIPANT' },
       orderBy: { createdAt: 'asc' },
       select: { content: true, createdAt: true, phase: true, metadata: true },
-    });
+    }));
 
     const fingerprintSource = dataPoints.length
       ? {
@@ -201,20 +204,11 @@ export async function POST(
         }
       : {
           kind: 'messages',
-          items: participantMessages.map((m) => {
-            const meta = m.metadata && typeof m.metadata === 'object' && !Array.isArray(m.metadata) ? (m.metadata as Record<string, unknown>) : null;
-            const translation =
-              meta && meta.translation && typeof meta.translation === 'object' && !Array.isArray(meta.translation)
-                ? (meta.translation as Record<string, unknown>)
-                : null;
-            const translatedEn = translation && typeof translation.en === 'string' ? translation.en : null;
-            const text = typeof translatedEn === 'string' && translatedEn.trim() ? translatedEn : m.content;
-            return {
-              phase: m.phase || null,
-              text,
-              createdAt: m.createdAt.toISOString(),
-            };
-          }),
+          items: participantMessages.map((m) => ({
+            phase: m.phase || null,
+            text: pivotText(m.content, m.metadata),
+            createdAt: m.createdAt.toISOString(),
+          })),
         };
 
     const inputFingerprint = stableFingerprint({ sessionId, ...fingerprintSource });
@@ -257,7 +251,7 @@ export async function POST(
 
     const session = await prisma.conversationSession.findUnique({
       where: { id: sessionId },
-      select: { id: true, workshopId: true, participantId: true },
+      select: { id: true, workshopId: true, participantId: true, workshop: { select: { organizationId: true } } },
     });
 
     if (!session) {
@@ -273,7 +267,11 @@ export async function POST(
         ? payload.qaPairs.map((q) => ({ phase: q.phase ?? null, question: q.question, answer: q.answer }))
         : [];
 
-    const extracted = includeInsights ? await extractConversationInsights({ qaPairs: qaPairsForInsights }) : [];
+    const extracted = includeInsights
+      ? await withOrganizationLLMConfig(session.workshop.organizationId, () =>
+          extractConversationInsights({ qaPairs: qaPairsForInsights })
+        )
+      : [];
 
     const insightRows = extracted
       .map((ins) => {
@@ -2,8 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth/require-auth';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { prisma } from '@/lib/prisma';
+import { decryptTenantRecords } from '@/lib/workshop-encryption';
 import { ConversationStatus, Prisma } from '@prisma/client';
 import { fixedQuestionsForVersion } from '@/lib/conversation/fixed-questions';
+import { pivotText, readMessageTranslation } from '@/lib/conversation/translation';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -73,16 +75,6 @@ function inferTagFromQuestionText(question: string, phase: string | null): strin
   return null;
 }
 
-function translatedAnswerText(meta: unknown, fallback: string): string {
-  const rec = meta && typeof meta === 'object' && !Array.isArray(meta) ? (meta as Record<string, unknown>) : null;
-  const translation =
-    rec && rec.translation && typeof rec.translation === 'object' && !Array.isArray(rec.translation)
-      ? (rec.translation as Record<string, unknown>)
-      : null;
-  const en = translation && typeof translation.en === 'string' ? translation.en : null;
-  return typeof en === 'string' && en.trim() ? en : fallback;
-}
-
 function isConversationStatus(value: string): value is ConversationStatus {
   return (Object.values(ConversationStatus) as string[]).includes(value);
 }
@@ -169,7 +161,7 @@ export async function GET(
       where.OR = [{ completedAt: { not: null } }, { participant: { responseCompletedAt: { not: null } } }];
     }
 
-    const sessions = await prisma.conversationSession.findMany({
+    const rawSessions = await prisma.conversationSession.findMany({
       where,
       orderBy: { createdAt: 'desc' },
       include: {
@@ -185,6 +177,10 @@ export async function GET(
         },
       },
     });
+    const sessions = await Promise.all(rawSessions.map(async (session) => ({
+      ...session,
+      messages: await decryptTenantRecords('conversationMessage', session.messages),
+    })));
 
     const payload = sessions.map((session) => {
       const qaPairs: Array<{
@@ -192,6 +188,7 @@ export async function GET(
         question: string;
         questionKey: string;
         answer: string;
+        originalAnswer: string | null;
         createdAt: Date;
       }> = [];
 
@@ -210,6 +207,7 @@ export async function GET(
           question,
           questionKey: key,
           answer: dp.rawText,
+          originalAnswer: dp.originalText,
           createdAt: dp.createdAt,
         });
 
@@ -239,11 +237,12 @@ export async function GET(
             break;
           }
 
-          const question = questionMsg?.content || '';
+          const question = questionMsg ? pivotText(questionMsg.content, questionMsg.metadata) : '';
           const phase = (m.phase || questionMsg?.phase || null) as string | null;
           const qm = getQuestionMeta(questionMsg);
           const tag = qm?.tag || inferTagFromQuestionText(question, phase);
-          const answerText = translatedAnswerText(m.metadata, m.content);
+          const translation = readMessageTranslation(m.metadata);
+          const answerText = translation?.en ?? m.content;
           const questionKey = qm
             ? `${qm.phase}:${qm.tag}:${qm.index}`
             : `${phase || 'unknown'}:${tag || 'unknown'}:${i}`;
@@ -253,6 +252,7 @@ export async function GET(
             question,
             questionKey,
             answer: answerText,
+            originalAnswer: translation ? m.content : null,
             createdAt: m.createdAt,
           });
 
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth/require-auth';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
-import OpenAI from 'openai';
+import { getLLMClient } from '@/lib/llm';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 
 import { prisma } from '@/lib/prisma';
 import { buildDependencySynthesis, type DependencySynthesis, type DimensionMedians, type Focus } from '@/lib/insight-engine';
@@ -9,7 +10,7 @@ import { buildDependencySynthesis, type DependencySynthesis, type DimensionMedia
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+const llm = getLLMClient('assumptions');
 
 type AssumptionsResponse = {
   ok: boolean;
@@ -98,7 +99,7 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json(resp);
     }
 
-    if (!process.env.OPENAI_API_KEY) {
+    if (!llm.isConfigured()) {
       const resp: AssumptionsResponse = {
         ok: true,
         source: 'rules',
@@ -124,8 +125,8 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       provided: deterministic,
     };
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const completion = await withOrganizationLLMConfig(workshop.organizationId, () => llm.chat({
+      tier: 'fast',
       temperature: 0,
       messages: [
         { role: 'system', content: system },
@@ -136,9 +137,9 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
             JSON.stringify(user),
         },
       ],
-    });
+    }));
 
-    const raw = completion.choices?.[0]?.message?.content?.trim() || '';
+    const raw = completion.content.trim();
     const parsed = safeParseJson<DependencySynthesis>(raw);
     const proposed: DependencySynthesis | null =
       parsed &&
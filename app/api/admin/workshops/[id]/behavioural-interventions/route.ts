@@ -10,6 +10,7 @@ import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth/require-auth';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { generateBehaviouralInterventions } from '@/lib/behavioural-interventions/agent';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import type { BehaviouralInterventionsOutput } from '@/lib/behavioural-interventions/types';
 
 export const runtime = 'nodejs';
@@ -127,11 +128,13 @@ export async function POST(
       : undefined;
 
     // Generate
-    const result = await generateBehaviouralInterventions(
-      workshop.name,
-      effectiveLenses,
-      oi,
-      evidenceValidation
+    const result = await withOrganizationLLMConfig(access.workshop?.organizationId, () =>
+      generateBehaviouralInterventions(
+        workshop.name,
+        effectiveLenses,
+        oi,
+        evidenceValidation
+      ),
     );
 
     // Store result
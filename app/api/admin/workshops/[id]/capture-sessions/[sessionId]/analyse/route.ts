@@ -10,6 +10,7 @@ import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { getCaptureSession } from '@/lib/field-discovery/capture-session-manager';
 import { extractFindings } from '@/lib/field-discovery/field-extraction-agent';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import { prisma } from '@/lib/prisma';
 import { readBlueprintFromJson } from '@/lib/workshop/blueprint';
 
@@ -44,14 +45,16 @@ export async function POST(
     const bp = readBlueprintFromJson(workshop?.blueprint);
     const lensNames = bp?.lenses?.map((l) => l.name) ?? [];
 
-    const result = await extractFindings({
-      sessionId,
-      workshopId,
-      captureType: session.captureType,
-      actorRole: session.actorRole,
-      area: session.area,
-      lensNames,
-    });
+    const result = await withOrganizationLLMConfig(validation.workshop?.organizationId, () =>
+      extractFindings({
+        sessionId,
+        workshopId,
+        captureType: session.captureType,
+        actorRole: session.actorRole,
+        area: session.area,
+        lensNames,
+      }),
+    );
 
     return NextResponse.json({ result });
   } catch (error) {
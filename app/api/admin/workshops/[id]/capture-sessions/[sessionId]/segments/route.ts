@@ -39,6 +39,7 @@ export async function POST(
     }
 
     const segment = await createSegment({
+      workshopId,
       captureSessionId: sessionId,
       segmentIndex,
       startTimeMs: startTimeMs != null ? BigInt(startTimeMs) : undefined,
@@ -87,7 +88,7 @@ export async function PATCH(
       return NextResponse.json({ error: 'segmentId is required' }, { status: 400 });
     }
 
-    const updated = await updateSegment(segmentId, {
+    const updated = await updateSegment(workshopId, segmentId, {
       endTimeMs: endTimeMs != null ? BigInt(endTimeMs) : undefined,
       audioReference,
       transcriptReference,
@@ -15,6 +15,8 @@ import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-acces
 import { getCaptureSession } from '@/lib/field-discovery/capture-session-manager';
 import { transcribeAudio } from '@/lib/captureapi/client';
 import { prisma } from '@/lib/prisma';
+import { encryptTenantFields } from '@/lib/workshop-encryption';
+import { redactCaptureResult } from '@/lib/pii/vault';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 120;
@@ -108,6 +110,8 @@ export async function POST(
       console.error('[transcribe route] CaptureAPI failed:', failureMessage);
     }
 
+    if (transcriptionResult) await redactCaptureResult(workshopId, transcriptionResult);
+
     // -----------------------------------------------------------------------
     // Upsert CaptureSegment record
     //
@@ -121,14 +125,14 @@ export async function POST(
       },
     });
 
-    const segmentData = {
+    const segmentData = await encryptTenantFields('captureSegment', { workshopId }, {
       transcript: transcriptionFailed
         ? null
         : (transcriptionResult?.transcription.cleanText ?? null),
       status: transcriptionFailed ? 'FAILED' : 'TRANSCRIBED',
       startTimeMs,
       endTimeMs,
-    };
+    });
 
     if (existingSegment) {
       await prisma.captureSegment.update({
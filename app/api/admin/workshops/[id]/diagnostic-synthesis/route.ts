@@ -7,6 +7,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { loadParticipantRedactor } from '@/lib/compliance/participant-redaction';
 import { runIncrementalSynthesis, runStreamComparison } from '@/lib/field-discovery/synthesis-engine';
 
 export const dynamic = 'force-dynamic';
@@ -31,7 +32,9 @@ export async function GET(
       return NextResponse.json({ synthesis: null });
     }
 
-    return NextResponse.json({ synthesis });
+    // Lens role distributions are subject to the minimum cohort size
+    const redactor = await loadParticipantRedactor(workshopId);
+    return NextResponse.json({ synthesis: redactor.redact(synthesis) });
   } catch (error) {
     console.error('Error fetching diagnostic synthesis:', error);
     return NextResponse.json({ error: 'Failed to fetch diagnostic synthesis' }, { status: 500 });
@@ -58,7 +61,8 @@ export async function POST(
       where: { workshopId },
     });
 
-    return NextResponse.json({ synthesis });
+    const redactor = await loadParticipantRedactor(workshopId);
+    return NextResponse.json({ synthesis: redactor.redact(synthesis) });
   } catch (error) {
     console.error('Error running diagnostic synthesis:', error);
     return NextResponse.json({ error: 'Failed to run diagnostic synthesis' }, { status: 500 });
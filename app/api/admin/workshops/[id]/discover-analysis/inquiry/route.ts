@@ -6,16 +6,17 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { getLLMClient, type LLMMessage } from '@/lib/llm';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import type { DiscoverAnalysis } from '@/lib/types/discover-analysis';
 import { buildAnalysisFromFindings } from '@/lib/field-discovery/findings-to-analysis-adapter';
 
 export const maxDuration = 60;
 
-const MODEL = 'gpt-4o';
+const llm = getLLMClient('discover-inquiry');
 
 interface InquiryMessage {
   role: 'user' | 'assistant';
@@ -76,7 +77,7 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     const systemPrompt = buildInquirySystemPrompt(workshop.name || 'Workshop', resolvedAnalysis);
 
     // Build messages
-    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+    const messages: LLMMessage[] = [
       { role: 'system', content: systemPrompt },
     ];
 
@@ -88,26 +89,24 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     messages.push({ role: 'user', content: question });
 
     // Stream response
-    if (!process.env.OPENAI_API_KEY) {
-      return NextResponse.json({ error: 'OpenAI API key not configured' }, { status: 500 });
+    if (!llm.isConfigured()) {
+      return NextResponse.json({ error: 'LLM provider not configured' }, { status: 500 });
     }
 
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-    const stream = await openai.chat.completions.create({
-      model: MODEL,
-      temperature: 0.3,
-      messages,
-      stream: true,
-      max_tokens: 2000,
-    });
+    const stream = await withOrganizationLLMConfig(access.workshop?.organizationId, async () =>
+      llm.stream({
+        tier: 'standard',
+        temperature: 0.3,
+        messages,
+        maxTokens: 2000,
+      })
+    );
 
     const encoder = new TextEncoder();
     const readableStream = new ReadableStream({
       async start(controller) {
         try {
-          for await (const chunk of stream) {
-            const content = chunk.choices[0]?.delta?.content;
+          for await (const content of stream) {
             if (content) {
               controller.enqueue(
                 encoder.encode(`data: ${JSON.stringify({ content })}\n\n`),
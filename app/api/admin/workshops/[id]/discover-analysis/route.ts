@@ -3,6 +3,9 @@
  *
  * GET  — Returns cached analysis if exists
  * POST — Generates full analysis with SSE progress streaming
+ *
+ * Tensions combine the GPT agent's output with perception-vs-data
+ * contradictions between participants' figures and historical metrics.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -14,7 +17,9 @@ import { computeNarrative } from '@/lib/discover-analysis/compute-narrative';
 import { computeConfidence } from '@/lib/discover-analysis/compute-confidence';
 import { computeConstraints } from '@/lib/discover-analysis/compute-constraints';
 import { rankTensionsDeterministic } from '@/lib/discover-analysis/compute-tensions';
+import { computeMetricContradictions } from '@/lib/discover-analysis/compute-metric-contradictions';
 import { runDiscoverAnalysisAgent } from '@/lib/cognition/agents/discover-analysis-agent';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import type { DiscoverAnalysis } from '@/lib/types/discover-analysis';
 import type { NarrativeLayer } from '@/lib/types/discover-analysis';
 
@@ -85,10 +90,10 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
 
     if (!workshop) return NextResponse.json({ error: 'Workshop not found' }, { status: 404 });
 
-    // SSE stream
+    // SSE stream — layer classification and the agent run under the organisation's LLM selection
     const encoder = new TextEncoder();
     const stream = new ReadableStream({
-      async start(controller) {
+      start: (controller) => withOrganizationLLMConfig(access.workshop?.organizationId, async () => {
         function emit(event: string, data: unknown) {
           controller.enqueue(
             encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`),
@@ -168,6 +173,19 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
             }
           }
 
+          // ── Step 2b: Participant figures vs. historical metrics ──
+          const metricTensions = await computeMetricContradictions(workshopId).catch((error) => {
+            console.error('[Discover Analysis] Metric contradiction check failed:', error);
+            return [];
+          });
+          if (metricTensions.length > 0) {
+            emit('progress', {
+              step: 'metric_contradictions',
+              message: `Found ${metricTensions.length} perception-vs-data contradiction${metricTensions.length === 1 ? '' : 's'} in historical metrics`,
+            });
+            tensions = rankTensionsDeterministic({ tensions: [...tensions.tensions, ...metricTensions] });
+          }
+
           // ── Step 3: Compose and store ──
           const analysis: DiscoverAnalysis = {
             workshopId,
@@ -202,7 +220,7 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
         } finally {
           controller.close();
         }
-      },
+      }),
     });
 
     return new Response(stream, {
@@ -13,11 +13,12 @@
  */
 
 import type { NextRequest } from 'next/server';
-import OpenAI from 'openai';
 import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { getLLMClient } from '@/lib/llm';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import { runDiscoveryIntelligenceAgent } from '@/lib/cognition/agents/discovery-intelligence-agent';
 import { hasDiscoveryData } from '@/lib/cognition/agents/agent-types';
 import { readBlueprintFromJson } from '@/lib/workshop/blueprint';
@@ -26,7 +27,7 @@ import type { PrepContext, WorkshopPrepResearch, WorkshopIntelligence } from '@/
 export const runtime = 'nodejs';
 export const maxDuration = 90;
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+const llm = getLLMClient('discovery-diagnostic');
 
 // ── Diagnostic prompt built from the agent's structured output ────────────────
 
@@ -165,6 +166,7 @@ export async function POST(
     });
   }
 
+  const organizationId = access.workshop?.organizationId;
   const encoder = new TextEncoder();
 
   const stream = new ReadableStream({
@@ -225,7 +227,9 @@ export async function POST(
           };
 
           const research = workshop.prepResearch as WorkshopPrepResearch | null;
-          intelligence = await runDiscoveryIntelligenceAgent(context, research);
+          intelligence = await withOrganizationLLMConfig(organizationId, () =>
+            runDiscoveryIntelligenceAgent(context, research)
+          );
 
           await prisma.workshop.update({
             where: { id: workshopId },
@@ -256,14 +260,16 @@ export async function POST(
 
         const prompt = buildDiagnosticPrompt(intelligence, sections);
 
-        const completion = await openai.chat.completions.create({
-          model: 'gpt-4o',
-          messages: [{ role: 'user', content: prompt }],
-          response_format: { type: 'json_object' },
-          temperature: 0.35,
-        });
+        const completion = await withOrganizationLLMConfig(organizationId, () =>
+          llm.chat({
+            tier: 'standard',
+            messages: [{ role: 'user', content: prompt }],
+            responseFormat: 'json',
+            temperature: 0.35,
+          })
+        );
 
-        const raw = completion.choices[0]?.message?.content ?? '{}';
+        const raw = completion.content || '{}';
         let generated: Record<string, unknown>;
         try {
           generated = JSON.parse(raw);
@@ -13,15 +13,16 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { getLLMClient } from '@/lib/llm';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import type { DiscoverAnalysis } from '@/lib/types/discover-analysis';
 
 export const maxDuration = 90;
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+const llm = getLLMClient('discovery-search');
 
 // ── Context builders ──────────────────────────────────────────
 
@@ -290,19 +291,19 @@ ${knowledgeContext}`;
     const stream = new ReadableStream({
       async start(controller) {
         try {
-          const completion = await openai.chat.completions.create({
-            model: 'gpt-4o',
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: query },
-            ],
-            temperature: 0.3,
-            stream: true,
-            max_tokens: 1200,
-          });
-
-          for await (const chunk of completion) {
-            const text = chunk.choices[0]?.delta?.content;
+          const completion = await withOrganizationLLMConfig(access.workshop?.organizationId, async () =>
+            llm.stream({
+              tier: 'standard',
+              messages: [
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: query },
+              ],
+              temperature: 0.3,
+              maxTokens: 1200,
+            })
+          );
+
+          for await (const text of completion) {
             if (text) {
               controller.enqueue(
                 encoder.encode(`data: ${JSON.stringify({ text })}\n\n`)
@@ -0,0 +1,53 @@
+/**
+ * app/api/admin/workshops/[id]/evidence/[docId]/media/route.ts
+ *
+ * Playback for audio/video evidence.
+ *
+ * GET — Redirect to a short-lived signed URL for the stored recording.
+ *       `?t=83` appends a media fragment (#t=83) so the browser starts
+ *       playback at the moment a finding was taken from.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth/require-auth';
+import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { createEvidenceSignedUrl } from '@/lib/evidence/storage';
+import { isMediaFile } from '@/lib/evidence/extractor';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; docId: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+
+    const { id: workshopId, docId } = await params;
+    const access = await validateWorkshopAccess(workshopId, auth.organizationId, auth.role, auth.userId);
+    if (!access.valid) {
+      return NextResponse.json({ error: access.error }, { status: 403 });
+    }
+
+    const doc = await prisma.evidenceDocument.findFirst({
+      where: { id: docId, workshopId },
+      select: { storageKey: true, mimeType: true, originalFileName: true },
+    });
+
+    if (!doc) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+    if (!isMediaFile(doc.mimeType, doc.originalFileName)) {
+      return NextResponse.json({ error: 'Document is not a recording' }, { status: 400 });
+    }
+
+    const url = await createEvidenceSignedUrl(doc.storageKey);
+    const seconds = Number(request.nextUrl.searchParams.get('t'));
+    const target = Number.isFinite(seconds) && seconds > 0 ? `${url}#t=${Math.floor(seconds)}` : url;
+
+    return NextResponse.redirect(target, 302);
+  } catch (err) {
+    console.error('[evidence] Media URL error:', err);
+    return NextResponse.json({ error: 'Failed to load recording' }, { status: 500 });
+  }
+}
@@ -8,6 +8,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { decryptTenantFields } from '@/lib/workshop-encryption';
 import { requireAuth } from '@/lib/auth/require-auth';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 
@@ -25,9 +26,9 @@ export async function GET(
       return NextResponse.json({ error: access.error }, { status: 403 });
     }
 
-    const doc = await prisma.evidenceDocument.findFirst({
+    const doc = await decryptTenantFields('evidenceDocument', await prisma.evidenceDocument.findFirst({
       where: { id: docId, workshopId },
-    });
+    }));
 
     if (!doc) {
       return NextResponse.json({ error: 'Document not found' }, { status: 404 });
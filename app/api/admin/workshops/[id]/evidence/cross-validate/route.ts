@@ -15,11 +15,13 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { decryptTenantRecords } from '@/lib/workshop-encryption';
 import { requireAuth } from '@/lib/auth/require-auth';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { runCrossValidation, buildDiscoverySnapshot } from '@/lib/evidence/cross-validation-agent';
 import type { WorkshopDiscoveryFallback } from '@/lib/evidence/cross-validation-agent';
 import type { NormalisedEvidenceDocument } from '@/lib/evidence/types';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 
 export async function POST(
   request: NextRequest,
@@ -57,7 +59,7 @@ export async function POST(
       }),
       prisma.evidenceDocument.findMany({
         where: { workshopId, status: 'ready' },
-      }),
+      }).then((rows) => decryptTenantRecords('evidenceDocument', rows)),
       prisma.liveWorkshopSnapshot.findFirst({
         where: { workshopId },
         orderBy: { createdAt: 'desc' },
@@ -184,7 +186,7 @@ export async function POST(
     const discovery = buildDiscoverySnapshot(workshop.name, clientName, v2Output, fallback);
 
     // Run cross-validation
-    const result = await runCrossValidation(discovery, docs);
+    const result = await withOrganizationLLMConfig(access.workshop?.organizationId, () => runCrossValidation(discovery, docs));
 
     // Persist result to all ready documents for this workshop
     await prisma.evidenceDocument.updateMany({
@@ -9,9 +9,11 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { decryptTenantRecords } from '@/lib/workshop-encryption';
 import { requireAuth } from '@/lib/auth/require-auth';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { runCrossDocSynthesis } from '@/lib/evidence/cross-doc-synthesis-agent';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import type { NormalisedEvidenceDocument } from '@/lib/evidence/types';
 
 export const maxDuration = 120;
@@ -30,9 +32,9 @@ export async function POST(
       return NextResponse.json({ error: access.error }, { status: 403 });
     }
 
-    const rawDocs = await prisma.evidenceDocument.findMany({
+    const rawDocs = await decryptTenantRecords('evidenceDocument', await prisma.evidenceDocument.findMany({
       where: { workshopId, status: 'ready' },
-    });
+    }));
 
     if (rawDocs.length < 2) {
       return NextResponse.json(
@@ -66,7 +68,7 @@ export async function POST(
       updatedAt: d.updatedAt.toISOString(),
     }));
 
-    const synthesis = await runCrossDocSynthesis(docs);
+    const synthesis = await withOrganizationLLMConfig(access.workshop?.organizationId, () => runCrossDocSynthesis(docs));
 
     await prisma.workshop.update({
       where: { id: workshopId },
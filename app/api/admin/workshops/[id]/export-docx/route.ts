@@ -0,0 +1,198 @@
+/**
+ * POST /api/admin/workshops/[id]/export-docx
+ *
+ * Generates an editable Word document of the Download Report using the
+ * facilitator's chosen layout — for client governance teams who comment on
+ * the report and merge it into their own papers.
+ *
+ * The document is built natively by lib/report/docx-renderers.ts (headings,
+ * table of contents, tables, evidence footnotes) and themed with the
+ * organisation's brand colours and PowerPoint template fonts. The SVG charts
+ * (roadmap gantt, transformation logic map) are rendered to PNG with
+ * Puppeteer; if that fails the document is still produced without them.
+ * Sections with no document layout are listed in the X-Skipped-Sections
+ * response header.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import chromium from '@sparticuz/chromium';
+import puppeteer from 'puppeteer-core';
+import fs from 'fs';
+import path from 'path';
+import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
+import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { loadParticipantRedactor } from '@/lib/compliance/participant-redaction';
+import { prisma } from '@/lib/prisma';
+import type {
+  ReportSummary,
+  ReportLayout,
+  WorkshopOutputIntelligence,
+} from '@/lib/output-intelligence/types';
+import type { LiveJourneyData } from '@/lib/cognitive-guidance/pipeline';
+import type { DiscoverAnalysis } from '@/lib/types/discover-analysis';
+import { PDF_STYLES, redactReportBody } from '@/lib/report/html-renderers';
+import {
+  buildReportDocx,
+  docxChartFragments,
+  readImageSize,
+  type DocxChartId,
+  type DocxImage,
+} from '@/lib/report/docx-renderers';
+import { readStoredPptxTemplate, resolveDeckTheme } from '@/lib/report/pptx-template';
+import { loadWhatChangedForWorkshop } from '@/lib/programmes/runs';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+interface ExportDocxBody {
+  reportSummary: ReportSummary;
+  intelligence: WorkshopOutputIntelligence;
+  layout: ReportLayout;
+  liveJourneyData?: LiveJourneyData | null;
+  workshopName?: string;
+  orgName?: string;
+  clientLogoUrl?: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  discoveryOutput?: any;
+  discoverAnalysis?: DiscoverAnalysis;
+}
+
+// ── Logo helpers ──────────────────────────────────────────────────────────────
+
+/** Logo as an embeddable image — PNG/JPEG only, Word has no SVG fallback here */
+async function loadLogoImage(urlOrPath: string): Promise<DocxImage | null> {
+  try {
+    let data: Buffer;
+    if (urlOrPath.startsWith('http')) {
+      const res = await fetch(urlOrPath, { signal: AbortSignal.timeout(5000) });
+      if (!res.ok) return null;
+      data = Buffer.from(await res.arrayBuffer());
+    } else {
+      data = fs.readFileSync(path.join(process.cwd(), 'public', urlOrPath));
+    }
+    const size = readImageSize(data);
+    return size ? { data, ...size } : null;
+  } catch { return null; }
+}
+
+// ── Chart rendering ───────────────────────────────────────────────────────────
+
+async function renderCharts(fragments: Array<{ id: DocxChartId; html: string }>): Promise<Partial<Record<DocxChartId, DocxImage>>> {
+  const charts: Partial<Record<DocxChartId, DocxImage>> = {};
+  if (!fragments.length) return charts;
+
+  let browser: Awaited<ReturnType<typeof puppeteer.launch>> | null = null;
+  try {
+    // @sparticuz/chromium bundles a Linux-only binary — on macOS fall back to system Chrome
+    const isMac = process.platform === 'darwin';
+    const LOCAL_CHROME = '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome';
+    const executablePath = isMac ? LOCAL_CHROME : await chromium.executablePath();
+    const launchArgs = isMac
+      ? ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage']
+      : chromium.args;
+
+    browser = await puppeteer.launch({
+      args: launchArgs,
+      defaultViewport: { width: 1000, height: 800, deviceScaleFactor: 2 },
+      executablePath,
+      headless: true,
+    });
+
+    const page = await browser.newPage();
+    for (const { id, html } of fragments) {
+      await page.setContent(
+        `<!DOCTYPE html><html><head><meta charset="UTF-8"><style>${PDF_STYLES}
+body { width: 1000px !important; padding: 16px !important; background: #ffffff !important; }</style></head>
+<body><div id="chart">${html}</div></body></html>`,
+        { waitUntil: 'networkidle0' },
+      );
+      const el = await page.$('#chart');
+      if (!el) continue;
+      const data = Buffer.from(await el.screenshot({ type: 'png' }));
+      const size = readImageSize(data);
+      // Rendered at 2× for print sharpness — place at CSS size
+      if (size) charts[id] = { data, type: 'png', width: size.width / 2, height: size.height / 2 };
+    }
+  } catch (err) {
+    console.error('[export-docx] Chart rendering failed:', err);
+  } finally {
+    await browser?.close().catch(() => {});
+  }
+  return charts;
+}
+
+// ── Route handler ─────────────────────────────────────────────────────────────
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id: workshopId } = await params;
+
+  const user = await getAuthenticatedUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const access = await validateWorkshopAccess(workshopId, user.organizationId, user.role, user.userId);
+  if (!access.valid) return NextResponse.json({ error: access.error }, { status: 403 });
+
+  const rawBody = await request.json().catch(() => null) as ExportDocxBody | null;
+  if (!rawBody?.reportSummary || !rawBody?.intelligence || !rawBody?.layout) {
+    return NextResponse.json({ error: 'Missing required fields: reportSummary, intelligence, layout' }, { status: 400 });
+  }
+  const redactor = await loadParticipantRedactor(workshopId);
+  const body = redactReportBody(rawBody, redactor);
+
+  // ── Fetch workshop + org for branding ──────────────────────────────
+  const workshop = await prisma.workshop.findUnique({
+    where: { id: workshopId },
+    select: {
+      name: true,
+      organization: {
+        select: { name: true, logoUrl: true, primaryColor: true, secondaryColor: true, pptxTemplate: true },
+      },
+    },
+  }).catch(() => null);
+
+  const workshopName = body.workshopName ?? workshop?.name ?? 'Workshop';
+  const orgName = body.orgName ?? workshop?.organization?.name ?? '';
+  const organization = workshop?.organization ?? null;
+  const theme = resolveDeckTheme(organization && {
+    ...organization,
+    pptxTemplate: readStoredPptxTemplate(organization.pptxTemplate),
+  });
+
+  // Cover logo: the client logo supplied at export time, else the tenant's own
+  const logoSource = body.clientLogoUrl ?? body.layout.clientLogoUrl ?? organization?.logoUrl ?? null;
+  const logo = logoSource ? await loadLogoImage(logoSource) : null;
+
+  // "What changed since last time" — only computed when the section is enabled
+  const wantsProgrammeChanges = body.layout.sections.some(s => s.id === 'programme_changes' && s.enabled);
+  const programmeChanges = wantsProgrammeChanges
+    ? await loadWhatChangedForWorkshop(workshopId).catch((err) => {
+        console.error('[export-docx] Programme comparison failed:', err);
+        return null;
+      }).then((changes) => redactor.redact(changes))
+    : null;
+
+  const enrichedBody = { ...body, workshopName, orgName, programmeChanges };
+
+  try {
+    const charts = await renderCharts(docxChartFragments(enrichedBody));
+    const { buffer, skippedSections } = await buildReportDocx(enrichedBody, { theme, logo, charts });
+
+    const filename = `${workshopName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-discovery-report.docx`;
+
+    return new NextResponse(new Uint8Array(buffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Length': String(buffer.length),
+        'X-Skipped-Sections': encodeURIComponent(JSON.stringify(skippedSections)),
+      },
+    });
+  } catch (err) {
+    console.error('DOCX generation failed:', err);
+    return NextResponse.json({ error: 'DOCX generation failed' }, { status: 500 });
+  }
+}
@@ -14,10 +14,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth/require-auth';
-import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { hasWorkshopPermission, validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { prisma } from '@/lib/prisma';
 import { auditLog, getClientIp } from '@/lib/audit/log-action';
-import OpenAI from 'openai';
+import { loadParticipantRedactor } from '@/lib/compliance/participant-redaction';
+import { getLLMClient } from '@/lib/llm';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import JSZip from 'jszip';
 import fs from 'fs/promises';
 import crypto from 'crypto';
@@ -26,6 +28,8 @@ import path from 'path';
 export const runtime = 'nodejs';
 export const maxDuration = 120;
 
+const llm = getLLMClient('export-summaries');
+
 /* ── Tiny helper: HTML-escape user content ── */
 function esc(s: any): string {
   if (s === null || s === undefined) return '';
@@ -175,7 +179,19 @@ async function handleExport(
         .digest('hex');
     }
 
-    const htmlPackage = await generateStaticHTMLPackage(workshop, commercialPasswordHash, intelligence, liveJourney);
+    // The commercial section only ships to users holding commercial:view
+    const scratchpad = workshop.scratchpad && !hasWorkshopPermission(access, 'commercial:view')
+      ? { ...workshop.scratchpad, commercialContent: null }
+      : workshop.scratchpad;
+
+    // Anonymous participants are pseudonymised throughout the package
+    const redactor = await loadParticipantRedactor(workshopId);
+    const htmlPackage = await generateStaticHTMLPackage(
+      { ...workshop, scratchpad: scratchpad ? redactor.redact(scratchpad) : null },
+      commercialPasswordHash,
+      redactor.redact(intelligence),
+      redactor.redact(liveJourney),
+    );
 
     const zip = new JSZip();
     Object.entries(htmlPackage.files).forEach(([filename, content]) => {
@@ -250,13 +266,12 @@ async function generateSectionSummaries(
   customerJourney: any,
   summaryContent: any
 ): Promise<SectionSummaries | null> {
-  if (!process.env.OPENAI_API_KEY) {
-    console.log('[export-html] No OPENAI_API_KEY — skipping AI summary generation');
+  if (!llm.isConfigured()) {
+    console.log('[export-html] No LLM provider configured — skipping AI summary generation');
     return null;
   }
 
   try {
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
     const prompt = `You are a senior strategy consultant who has just completed a comprehensive transformation workshop. You are writing executive insight summaries for a board-level report that will be delivered to C-suite stakeholders. This is a premium deliverable (clients pay £10,000+ for this report).
 
@@ -307,15 +322,15 @@ Return ONLY valid JSON with this exact structure:
 
 CRITICAL: Do NOT use generic consulting language. Every claim must be traceable to the data provided. If data for a section is empty or missing, write "No data available for this section." Do not fabricate.`;
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    const completion = await llm.chat({
+      tier: 'standard',
       messages: [{ role: 'user', content: prompt }],
       temperature: 0.3,
-      max_tokens: 4000,
-      response_format: { type: 'json_object' },
+      maxTokens: 4000,
+      responseFormat: 'json',
     });
 
-    const raw = completion.choices[0]?.message?.content;
+    const raw = completion.content;
     if (!raw) {
       console.error('[export-html] AI returned empty response');
       return null;
@@ -753,16 +768,18 @@ async function generateStaticHTMLPackage(
       readLocalImageAsBase64('framework/house-refreshed.png'),
       readLocalImageAsBase64('framework/house-ideal.png'),
     ]),
-    generateSectionSummaries(
-      workshop.name,
-      execSummary,
-      discoveryOutput,
-      reimagineContent,
-      constraintsContent,
-      potentialSolution,
-      commercialContent,
-      customerJourney,
-      summaryContent
+    withOrganizationLLMConfig(workshop.organizationId, () =>
+      generateSectionSummaries(
+        workshop.name,
+        execSummary,
+        discoveryOutput,
+        reimagineContent,
+        constraintsContent,
+        potentialSolution,
+        commercialContent,
+        customerJourney,
+        summaryContent
+      )
     ),
   ]);
 
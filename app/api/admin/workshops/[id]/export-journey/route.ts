@@ -5,7 +5,8 @@
  *
  * Uses @sparticuz/chromium + puppeteer-core (same stack as sales PDF route).
  * Renders the journey grid as a self-contained HTML page in landscape and
- * exports it as A3 landscape PDF (default) or full-width PNG.
+ * exports it as A3 landscape PDF (default) or full-width PNG. The journey
+ * goes through the participant redaction layer first.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -14,6 +15,7 @@ import puppeteer from 'puppeteer-core';
 import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth/require-auth';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { loadParticipantRedactor } from '@/lib/compliance/participant-redaction';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
@@ -229,7 +231,8 @@ export async function GET(
     const primaryColor = workshop.organization?.primaryColor || '#1e3a5f';
     const orgName = workshop.organization?.name || '';
 
-    const html = buildJourneyHtml(workshop.name, orgName, liveJourney, primaryColor);
+    const redactor = await loadParticipantRedactor(workshopId);
+    const html = buildJourneyHtml(workshop.name, orgName, redactor.redact(liveJourney), primaryColor);
 
     // Launch Puppeteer
     const executablePath =
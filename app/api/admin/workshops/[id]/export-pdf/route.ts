@@ -19,6 +19,7 @@ import fs from 'fs';
 import path from 'path';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { loadParticipantRedactor } from '@/lib/compliance/participant-redaction';
 import { prisma } from '@/lib/prisma';
 import type {
   ReportSummary,
@@ -27,7 +28,8 @@ import type {
 import type { WorkshopOutputIntelligence } from '@/lib/output-intelligence/types';
 import type { LiveJourneyData } from '@/lib/cognitive-guidance/pipeline';
 import type { DiscoverAnalysis } from '@/lib/types/discover-analysis';
-import { buildReportHtml, esc } from '@/lib/report/html-renderers';
+import { buildReportHtml, esc, redactReportBody } from '@/lib/report/html-renderers';
+import { loadWhatChangedForWorkshop } from '@/lib/programmes/runs';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
@@ -81,10 +83,12 @@ export async function POST(
   const access = await validateWorkshopAccess(workshopId, user.organizationId, user.role, user.userId);
   if (!access.valid) return NextResponse.json({ error: access.error }, { status: 403 });
 
-  const body = await request.json().catch(() => null) as ExportPdfBody | null;
-  if (!body?.reportSummary || !body?.intelligence || !body?.layout) {
+  const rawBody = await request.json().catch(() => null) as ExportPdfBody | null;
+  if (!rawBody?.reportSummary || !rawBody?.intelligence || !rawBody?.layout) {
     return NextResponse.json({ error: 'Missing required fields: reportSummary, intelligence, layout' }, { status: 400 });
   }
+  const redactor = await loadParticipantRedactor(workshopId);
+  const body = redactReportBody(rawBody, redactor);
 
   // ── Fetch workshop + org for logos ────────────────────────────────
   const workshop = await prisma.workshop.findUnique({
@@ -114,7 +118,16 @@ export async function POST(
     ideal:     readLogoAsBase64('framework/house-ideal.png'),
   };
 
-  const enrichedBody = { ...body, workshopName, orgName, houseImages };
+  // "What changed since last time" — only computed when the section is enabled
+  const wantsProgrammeChanges = body.layout.sections.some(s => s.id === 'programme_changes' && s.enabled);
+  const programmeChanges = wantsProgrammeChanges
+    ? await loadWhatChangedForWorkshop(workshopId).catch((err) => {
+        console.error('[export-pdf] Programme comparison failed:', err);
+        return null;
+      }).then((changes) => redactor.redact(changes))
+    : null;
+
+  const enrichedBody = { ...body, workshopName, orgName, houseImages, programmeChanges };
   const html = buildReportHtml(enrichedBody, dreamLogoBase64, tenantLogoBase64, clientLogoBase64);
 
   const footerTemplate = `
@@ -3,12 +3,17 @@
  *
  * Generates a PowerPoint presentation from the Download Report.
  *
- * Each section is rendered via the shared HTML renderers (lib/report/html-renderers.ts),
- * screenshotted by Puppeteer at 1200px wide, then embedded as a full-slide
- * image in pptxgenjs — producing the same rich, styled visuals as the PDF.
+ * Two modes (body.mode):
  *
- * This replaces the previous pptxgenjs text/table approach with pixel-perfect
- * screenshots of the exact same HTML that the PDF uses.
+ *   screenshot (default) — each section is rendered via the shared HTML
+ *     renderers (lib/report/html-renderers.ts), screenshotted by Puppeteer at
+ *     1200px wide, then embedded as a full-slide image in pptxgenjs — the same
+ *     rich, styled visuals as the PDF.
+ *
+ *   native — editable slides built from native pptxgenjs text, shapes, tables
+ *     and charts (lib/report/pptx-native.ts), themed with the organisation's
+ *     brand colours and PowerPoint master template. Sections with no native
+ *     layout are listed in the X-Skipped-Sections response header.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -19,6 +24,7 @@ import fs from 'fs';
 import path from 'path';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { loadParticipantRedactor } from '@/lib/compliance/participant-redaction';
 import { prisma } from '@/lib/prisma';
 import type {
   ReportSummary,
@@ -50,7 +56,13 @@ import {
   renderCustomSection,
   renderChapter,
   renderConclusion,
+  renderProgrammeChanges,
+  redactReportBody,
 } from '@/lib/report/html-renderers';
+import { buildNativeDeck } from '@/lib/report/pptx-native';
+import { readStoredPptxTemplate, resolveDeckTheme } from '@/lib/report/pptx-template';
+import { loadWhatChangedForWorkshop } from '@/lib/programmes/runs';
+import type { ProgrammeWhatChanged } from '@/lib/programmes/types';
 
 export const runtime = 'nodejs';
 export const maxDuration = 120;
@@ -77,6 +89,7 @@ interface ExportPptxBody {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   discoveryOutput?: any;
   discoverAnalysis?: DiscoverAnalysis;
+  mode?: 'screenshot' | 'native';
 }
 
 // ── Logo helpers ──────────────────────────────────────────────────────────────
@@ -286,11 +299,13 @@ function resolveSectionHtml(
   discoveryOutput: any,
   discoverAnalysis: DiscoverAnalysis | undefined,
   dreamLogoBase64: string | null,
+  programmeChanges: ProgrammeWhatChanged | null,
 ): string {
   if (cfg.type === 'chapter') return renderChapter(cfg);
   if (cfg.type === 'custom')  return renderCustomSection(cfg);
   switch (cfg.id) {
     case 'executive_summary':    return renderExecutiveSummary(reportSummary, intelligence, cfg);
+    case 'programme_changes':    return renderProgrammeChanges(programmeChanges, cfg);
     case 'supporting_evidence':  return renderSupportingEvidence(intelligence, cfg);
     case 'root_causes':          return renderRootCauses(intelligence, cfg);
     case 'solution_direction':   return renderSolutionDirection(reportSummary, intelligence, cfg);
@@ -325,17 +340,24 @@ export async function POST(
   const access = await validateWorkshopAccess(workshopId, user.organizationId, user.role, user.userId);
   if (!access.valid) return NextResponse.json({ error: access.error }, { status: 403 });
 
-  const body = await request.json().catch(() => null) as ExportPptxBody | null;
-  if (!body?.reportSummary || !body?.intelligence || !body?.layout) {
+  const rawBody = await request.json().catch(() => null) as ExportPptxBody | null;
+  if (!rawBody?.reportSummary || !rawBody?.intelligence || !rawBody?.layout) {
     return NextResponse.json({ error: 'Missing required fields: reportSummary, intelligence, layout' }, { status: 400 });
   }
+  const redactor = await loadParticipantRedactor(workshopId);
+  const body = redactReportBody(rawBody, redactor);
 
   const { reportSummary, intelligence, layout, liveJourneyData, discoveryOutput, discoverAnalysis } = body;
 
   // ── Fetch workshop / org ───────────────────────────────────────────────────
   const workshop = await prisma.workshop.findUnique({
     where: { id: workshopId },
-    select: { name: true, organization: { select: { name: true, logoUrl: true } } },
+    select: {
+      name: true,
+      organization: {
+        select: { name: true, logoUrl: true, primaryColor: true, secondaryColor: true, pptxTemplate: true },
+      },
+    },
   }).catch(() => null);
 
   const workshopName = body.workshopName ?? workshop?.name ?? 'Workshop';
@@ -354,8 +376,53 @@ export async function POST(
     ? (clientLogoUrlRaw.startsWith('http') ? await fetchLogoAsBase64(clientLogoUrlRaw) : readLogoAsBase64(clientLogoUrlRaw))
     : null;
 
+  const safeName = workshopName.replace(/[^a-z0-9]+/gi, '-').toLowerCase();
+
+  // ── Native (editable) mode — no Puppeteer ──────────────────────────────────
+  if (body.mode === 'native') {
+    try {
+      const organization = workshop?.organization ?? null;
+      const theme = resolveDeckTheme(organization && {
+        ...organization,
+        pptxTemplate: readStoredPptxTemplate(organization.pptxTemplate),
+      });
+      const [backgroundData, titleBackgroundData] = await Promise.all([
+        theme.backgroundUrl ? fetchLogoAsBase64(theme.backgroundUrl) : null,
+        theme.titleBackgroundUrl ? fetchLogoAsBase64(theme.titleBackgroundUrl) : null,
+      ]);
+
+      const { buffer, skippedSections } = await buildNativeDeck({
+        reportSummary, intelligence, layout, workshopName, orgName, theme,
+        clientLogoData: clientLogoBase64, backgroundData, titleBackgroundData,
+      });
+
+      return new NextResponse(new Uint8Array(buffer), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+          'Content-Disposition': `attachment; filename="${safeName}-report-editable.pptx"`,
+          'Content-Length': String(buffer.length),
+          'X-Skipped-Sections': encodeURIComponent(JSON.stringify(skippedSections)),
+        },
+      });
+    } catch (error) {
+      console.error('[Export PPTX] Native export error:', error);
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'PPTX generation failed' },
+        { status: 500 },
+      );
+    }
+  }
+
   const enabledSections = layout.sections.filter(s => s.enabled);
 
+  const programmeChanges = enabledSections.some(s => s.id === 'programme_changes')
+    ? await loadWhatChangedForWorkshop(workshopId).catch((err) => {
+        console.error('[export-pptx] Programme comparison failed:', err);
+        return null;
+      }).then((changes) => redactor.redact(changes))
+    : null;
+
   let browser: Awaited<ReturnType<typeof puppeteer.launch>> | null = null;
 
   try {
@@ -385,7 +452,7 @@ export async function POST(
     for (const cfg of enabledSections) {
       const sectionHtml = resolveSectionHtml(
         cfg, reportSummary, intelligence, liveJourneyData,
-        discoveryOutput, discoverAnalysis, dreamLogoBase64,
+        discoveryOutput, discoverAnalysis, dreamLogoBase64, programmeChanges,
       );
       if (!sectionHtml) continue;
 
@@ -441,7 +508,6 @@ export async function POST(
     // ── Write buffer ───────────────────────────────────────────────────────
     const data   = await pptx.write({ outputType: 'nodebuffer' });
     const outBuf = Buffer.from(data as ArrayBuffer);
-    const safeName = workshopName.replace(/[^a-z0-9]+/gi, '-').toLowerCase();
 
     return new NextResponse(outBuf, {
       status: 200,
@@ -8,6 +8,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { loadParticipantRedactor } from '@/lib/compliance/participant-redaction';
 import { PatchFindingSchema, zodError } from '@/lib/validation/schemas';
 
 export const dynamic = 'force-dynamic';
@@ -29,7 +30,8 @@ export async function GET(
       return NextResponse.json({ error: 'Finding not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ finding });
+    const redactor = await loadParticipantRedactor(workshopId);
+    return NextResponse.json({ finding: redactor.redact(finding) });
   } catch (error) {
     console.error('Error fetching finding:', error);
     return NextResponse.json({ error: 'Failed to fetch finding' }, { status: 500 });
@@ -14,6 +14,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { analyseCsvAndExtractFindings } from '@/lib/field-discovery/csv-analysis-agent';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import { prisma } from '@/lib/prisma';
 import { readBlueprintFromJson } from '@/lib/workshop/blueprint';
 
@@ -75,13 +76,15 @@ export async function POST(
     const lensNames = bp?.lenses?.map((l) => l.name) ?? [];
 
     // Run the agent
-    const result = await analyseCsvAndExtractFindings({
-      workshopId,
-      csvText,
-      fileName: file.name,
-      userContext: context || undefined,
-      lensNames,
-    });
+    const result = await withOrganizationLLMConfig(validation.workshop?.organizationId, () =>
+      analyseCsvAndExtractFindings({
+        workshopId,
+        csvText,
+        fileName: file.name,
+        userContext: context || undefined,
+        lensNames,
+      }),
+    );
 
     return NextResponse.json(result, { status: 201 });
   } catch (error) {
@@ -7,6 +7,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { loadParticipantRedactor } from '@/lib/compliance/participant-redaction';
 import type { FindingType, SourceStream } from '@prisma/client';
 import { CreateFindingSchema, zodError } from '@/lib/validation/schemas';
 
@@ -42,8 +43,11 @@ export async function GET(
       ],
     });
 
+    // Supporting quotes and role coverage are participant-derived
+    const redactor = await loadParticipantRedactor(workshopId);
+
     return NextResponse.json(
-      { findings, count: findings.length },
+      { findings: redactor.redact(findings), count: findings.length },
       { headers: { 'Cache-Control': 'no-store' } }
     );
   } catch (error) {
@@ -1,14 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import OpenAI from 'openai';
-import { env } from '@/lib/env';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { loadParticipantRedactor, type ParticipantRedactor } from '@/lib/compliance/participant-redaction';
+import { getLLMClient } from '@/lib/llm';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 
-const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
+const llm = getLLMClient('hemisphere-actors');
 
 // ── Helpers ──────────────────────────────────────────────────────────
 
@@ -102,6 +103,34 @@ function extractActorsFromAnalysis(
   }
 }
 
+// ── Redaction ────────────────────────────────────────────────────────
+
+/** Pseudonymise participant names and strip emails before they reach the LLM */
+function redactActorMap(actorMap: Map<string, AggregatedActor>, redactor: ParticipantRedactor): Map<string, AggregatedActor> {
+  const redacted = new Map<string, AggregatedActor>();
+  for (const [name, data] of actorMap) {
+    const redactedName = redactor.scrubText(name);
+    const existing = redacted.get(redactedName);
+    const interactions = data.interactions.map((ix) => ({
+      withActor: redactor.scrubText(ix.withActor),
+      action: redactor.scrubText(ix.action),
+      sentiment: ix.sentiment,
+      context: redactor.scrubText(ix.context),
+      utteranceText: redactor.scrubText(ix.utteranceText),
+    }));
+    if (existing) {
+      existing.mentions += data.mentions;
+      for (const r of data.roles) existing.roles.add(r);
+      for (const d of data.domains) existing.domains.add(d);
+      existing.sentiments.push(...data.sentiments);
+      existing.interactions.push(...interactions);
+    } else {
+      redacted.set(redactedName, { ...data, roles: new Set(data.roles), domains: new Set(data.domains), interactions });
+    }
+  }
+  return redacted;
+}
+
 // ── GPT journey synthesis ────────────────────────────────────────────
 
 async function synthesiseJourney(
@@ -132,8 +161,8 @@ async function synthesiseJourney(
 
   const userPrompt = `Here are the actors and their interactions extracted from a workshop:\n\n${actorSummaries.join('\n\n')}\n\nSynthesise a customer journey flow and actor profiles from this data.`;
 
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
+  const completion = await llm.chat({
+    tier: 'fast',
     temperature: 0.3,
     messages: [
       {
@@ -177,10 +206,10 @@ async function synthesiseJourney(
       },
       { role: 'user', content: userPrompt },
     ],
-    response_format: { type: 'json_object' },
+    responseFormat: 'json',
   });
 
-  const raw = completion.choices?.[0]?.message?.content?.trim() || '{}';
+  const raw = completion.content.trim() || '{}';
   const parsed = safeParseJson<{ journey?: unknown; actors?: unknown[] }>(raw);
 
   return {
@@ -367,13 +396,16 @@ export async function GET(
       });
     }
 
-    // ── Synthesise journey via GPT-4o-mini ───────────────────────
-    const { journey, actors } = await synthesiseJourney(actorMap);
+    // ── Synthesise journey via the fast model tier ───────────────
+    const redactor = await loadParticipantRedactor(workshopId);
+    const { journey, actors } = await withOrganizationLLMConfig(access.workshop?.organizationId, () =>
+      synthesiseJourney(redactActorMap(actorMap, redactor))
+    );
 
     return NextResponse.json({
       ok: true,
-      journey,
-      actors,
+      journey: redactor.redact(journey),
+      actors: redactor.redact(actors),
       generatedAt: new Date().toISOString(),
     });
   } catch (error) {
@@ -17,6 +17,7 @@ import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-acces
 import { buildGraphFromSessions, buildGraphFromSnapshot } from '@/lib/hemisphere-diagnostic/build-hemisphere-graph';
 import { computeDiagnostic } from '@/lib/hemisphere-diagnostic/compute-diagnostic';
 import { computeDiagnosticDelta } from '@/lib/hemisphere-diagnostic/compute-delta';
+import { loadParticipantRedactor } from '@/lib/compliance/participant-redaction';
 import { getDimensionNames } from '@/lib/cognition/workshop-dimensions';
 import type { WorkshopPrepResearch } from '@/lib/cognition/agents/agent-types';
 
@@ -103,11 +104,13 @@ export async function GET(
       delta = computeDiagnosticDelta(before, after);
     }
 
+    const redactor = await loadParticipantRedactor(workshopId);
+
     return NextResponse.json({
       ok: true,
-      before,
-      after,
-      delta,
+      before: redactor.redact(before),
+      after: redactor.redact(after),
+      delta: redactor.redact(delta),
       generatedAt: new Date().toISOString(),
     });
   } catch (error) {
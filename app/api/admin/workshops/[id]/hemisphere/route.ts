@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import OpenAI from 'openai';
-import { env } from '@/lib/env';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { loadParticipantRedactor } from '@/lib/compliance/participant-redaction';
+import { getLLMClient } from '@/lib/llm';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -45,7 +46,7 @@ type HemisphereGraph = {
 
 type InsightCategory = 'BUSINESS' | 'TECHNOLOGY' | 'PEOPLE' | 'CUSTOMER' | 'REGULATION';
 
-const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
+const llm = getLLMClient('hemisphere-core-truth');
 
 const NODE_TYPE_ORDER: NodeType[] = ['CONSTRAINT', 'FRICTION', 'CHALLENGE', 'ENABLER', 'BELIEF', 'VISION', 'EVIDENCE'];
 
@@ -313,6 +314,9 @@ export async function GET(
         userOrgId: user.organizationId,
       }, { status: 403 });
     }
+    // Anonymous participants are pseudonymised in sources and quotes
+    const redactor = await loadParticipantRedactor(workshopId);
+
     // Fetch prepResearch for dynamic industry dimensions
     const workshopMeta = await prisma.workshop.findUnique({
       where: { id: workshopId },
@@ -560,7 +564,7 @@ export async function GET(
       const skipOpenAI = totalSignalCount > 500;
       try {
         if (skipOpenAI) throw new Error('Large corpus — skipping real-time Core Truth synthesis');
-        if (!env.OPENAI_API_KEY) throw new Error('Missing OPENAI_API_KEY');
+        if (!llm.isConfigured()) throw new Error('LLM provider not configured');
 
         const evidenceQuotes = driverNodes
           .flatMap((n) => (Array.isArray(n.evidence) ? n.evidence : []))
@@ -597,21 +601,23 @@ Evidence quotes (if helpful):
 ${evidenceQuotes.length ? evidenceQuotes.map((q) => `- ${q}`).join('\n') : '- (none)'}
 `;
 
-        const completion = await openai.chat.completions.create({
-          model: 'gpt-4o-mini',
-          temperature: 0.25,
-          messages: [
-            {
-              role: 'system',
-              content:
-                'You are an organisational intelligence analyst. Produce a single, high-signal causal sentence executives can recognise immediately. Ground claims in provided drivers/quotes and avoid generic consultant language.',
-            },
-            { role: 'user', content: prompt },
-          ],
-          response_format: { type: 'json_object' },
-        });
+        const completion = await withOrganizationLLMConfig(access.workshop?.organizationId, () =>
+          llm.chat({
+            tier: 'fast',
+            temperature: 0.25,
+            messages: [
+              {
+                role: 'system',
+                content:
+                  'You are an organisational intelligence analyst. Produce a single, high-signal causal sentence executives can recognise immediately. Ground claims in provided drivers/quotes and avoid generic consultant language.',
+              },
+              { role: 'user', content: prompt },
+            ],
+            responseFormat: 'json',
+          })
+        );
 
-        const raw = completion.choices?.[0]?.message?.content?.trim() || '{}';
+        const raw = completion.content.trim() || '{}';
         const parsed = safeParseJson<{ sentence?: unknown }>(raw);
         const sent = parsed && typeof parsed.sentence === 'string' ? parsed.sentence.trim() : '';
         coreSummary = sent;
@@ -709,7 +715,7 @@ ${evidenceQuotes.length ? evidenceQuotes.map((q) => `- ${q}`).join('\n') : '- (n
         sessionCount: 0,
         participantCount: 0,
         totalSignalCount,  // full corpus size before the 300-node cap
-        hemisphereGraph,
+        hemisphereGraph: redactor.redact(hemisphereGraph),
         industryDimensions,
       });
     }
@@ -731,13 +737,6 @@ ${evidenceQuotes.length ? evidenceQuotes.map((q) => `- ${q}`).join('\n') : '- (n
         completedAt: true,
         runType: true,
         questionSetVersion: true,
-        participant: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
         report: {
           select: {
             sessionId: true,
@@ -768,7 +767,6 @@ ${evidenceQuotes.length ? evidenceQuotes.map((q) => `- ${q}`).join('\n') : '- (n
       completedAt: Date | null;
       runType?: string | null;
       questionSetVersion?: string | null;
-      participant: { id: string; name: string; email: string };
       report?: { sessionId: string; keyInsights: unknown; phaseInsights: unknown; wordCloudThemes: unknown } | null;
       insights: Array<{
         id: string;
@@ -813,7 +811,7 @@ ${evidenceQuotes.length ? evidenceQuotes.map((q) => `- ${q}`).join('\n') : '- (n
       if (!text) continue;
 
       const session = sessionById.get(String(ins.sessionId || ''));
-      const participantName = session?.participant?.name || 'Participant';
+      const participantName = redactor.displayName(session?.participantId);
 
       const norm = text.toLowerCase();
       const nodeId = `${type}:${norm}`;
@@ -839,7 +837,7 @@ ${evidenceQuotes.length ? evidenceQuotes.map((q) => `- ${q}`).join('\n') : '- (n
       const report = reportBySession.get(s.id);
       if (!report) continue;
 
-      const participantName = s.participant?.name || 'Participant';
+      const participantName = redactor.displayName(s.participantId);
 
       for (const ki of safeArray(report.keyInsights)) {
         const rec = ki && typeof ki === 'object' && !Array.isArray(ki) ? (ki as Record<string, unknown>) : null;
@@ -1020,7 +1018,7 @@ ${evidenceQuotes.length ? evidenceQuotes.map((q) => `- ${q}`).join('\n') : '- (n
         const wordCount = answer.split(/\s+/).filter(Boolean).length;
         if (wordCount < 18) return null;
         const session = sessionById.get(String(dp.sessionId || ''));
-        const participantName = session?.participant?.name || 'Participant';
+        const participantName = redactor.displayName(session?.participantId);
         return {
           dp,
           answer,
@@ -1340,7 +1338,7 @@ ${evidenceQuotes.length ? evidenceQuotes.map((q) => `- ${q}`).join('\n') : '- (n
     // Agentic synthesis (mandatory): produce one causal sentence from the most central drivers.
     let coreSummary = '';
     try {
-      if (!env.OPENAI_API_KEY) throw new Error('Missing OPENAI_API_KEY');
+      if (!llm.isConfigured()) throw new Error('LLM provider not configured');
 
       const evidenceQuotes = driverNodes
         .flatMap((n) => (Array.isArray(n.evidence) ? n.evidence : []))
@@ -1377,21 +1375,23 @@ Evidence quotes (if helpful):
 ${evidenceQuotes.length ? evidenceQuotes.map((q) => `- ${q}`).join('\n') : '- (none)'}
 `;
 
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        temperature: 0.25,
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are an organisational intelligence analyst. Produce a single, high-signal causal sentence executives can recognise immediately. Ground claims in provided drivers/quotes and avoid generic consultant language.',
-          },
-          { role: 'user', content: prompt },
-        ],
-        response_format: { type: 'json_object' },
-      });
+      const completion = await withOrganizationLLMConfig(access.workshop?.organizationId, () =>
+        llm.chat({
+          tier: 'fast',
+          temperature: 0.25,
+          messages: [
+            {
+              role: 'system',
+              content:
+                'You are an organisational intelligence analyst. Produce a single, high-signal causal sentence executives can recognise immediately. Ground claims in provided drivers/quotes and avoid generic consultant language.',
+            },
+            { role: 'user', content: prompt },
+          ],
+          responseFormat: 'json',
+        })
+      );
 
-      const raw = completion.choices?.[0]?.message?.content?.trim() || '{}';
+      const raw = completion.content.trim() || '{}';
       const parsed = safeParseJson<{ sentence?: unknown }>(raw);
       const sent = parsed && typeof parsed.sentence === 'string' ? parsed.sentence.trim() : '';
       coreSummary = sent;
@@ -1553,7 +1553,7 @@ ${evidenceQuotes.length ? evidenceQuotes.map((q) => `- ${q}`).join('\n') : '- (n
       generatedAt: new Date().toISOString(),
       sessionCount: sessions.length,
       participantCount: uniq(sessions.map((s) => s.participantId)).length,
-      hemisphereGraph,
+      hemisphereGraph: redactor.redact(hemisphereGraph),
       industryDimensions,
     });
   } catch (error) {
@@ -17,7 +17,6 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import { strictLimiter } from '@/lib/rate-limit';
 import { prisma } from '@/lib/prisma';
 import { Prisma } from '@prisma/client';
@@ -26,13 +25,14 @@ import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-acces
 import { classifyWorkshopArchetype } from '@/lib/output/archetype-classifier';
 import type { ClassifierInput } from '@/lib/output/archetype-classifier';
 import { runV2SynthesisAgent, extractBlueprintKnowledgePack } from '@/lib/output/v2-synthesis-agent';
-import { openAiBreaker } from '@/lib/circuit-breaker';
 import { getEngagementType } from '@/lib/domain-packs/engagement-types';
+import { getLLMClient, withLLMConfig } from '@/lib/llm';
+import { loadOrganizationLLMConfig } from '@/lib/llm/organization-config';
 
 export const runtime = 'nodejs';
 export const maxDuration = 120;
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+const llm = getLLMClient('hemisphere-synthesis');
 
 // ── Types ──────────────────────────────────────────────────────────────
 
@@ -554,14 +554,14 @@ Provide a concise thematic analysis (3-5 paragraphs) covering:
 
 Write as a senior strategy consultant. Be specific and evidence-grounded.`;
 
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
+  const completion = await llm.chat({
+    tier: 'fast',
     messages: [{ role: 'user', content: prompt }],
     temperature: 0.3,
-    max_tokens: 800,
+    maxTokens: 800,
   });
 
-  return completion.choices[0]?.message?.content || 'Theme analysis unavailable.';
+  return completion.content || 'Theme analysis unavailable.';
 }
 
 async function runConstraintAgentAnalysis(workshopName: string, data: ReturnType<typeof aggregateNodes>): Promise<string> {
@@ -587,14 +587,14 @@ STRICT RULES:
 
 Write as a risk analyst. Be direct and factual.`;
 
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
+  const completion = await llm.chat({
+    tier: 'fast',
     messages: [{ role: 'user', content: prompt }],
     temperature: 0.3,
-    max_tokens: 600,
+    maxTokens: 600,
   });
 
-  return completion.choices[0]?.message?.content || 'Constraint analysis unavailable.';
+  return completion.content || 'Constraint analysis unavailable.';
 }
 
 // ── Main Handler ───────────────────────────────────────────────────────
@@ -695,11 +695,14 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     researchContext = parts.length > 0 ? parts.join('\n\n') : null;
   }
 
+  // The whole stream runs under the organisation's LLM selection, so every agent does
+  const llmConfig = await loadOrganizationLLMConfig(workshop.organizationId);
+
   // ── SSE stream ──────────────────────────────────────
   const encoder = new TextEncoder();
 
   const stream = new ReadableStream({
-    async start(controller) {
+    start: (controller) => withLLMConfig(llmConfig, async () => {
       function sendEvent(type: string, data: unknown) {
         const eventPayload = `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
         try {
@@ -905,18 +908,16 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
         const prompt = buildSynthesisPrompt(workshop.name || 'Workshop', aggregated, themeAnalysis, constraintAnalysis, researchContext, discoveryParticipants.map(p => p.name), workshop.engagementType);
         console.log(`[synthesise] Prompt length: ${prompt.length} chars. Running synthesis for workshop ${workshopId} (${aggregated.totalNodes} nodes)...`);
 
-        const completion = await openAiBreaker.execute(() =>
-          openai.chat.completions.create({
-            model: 'gpt-4o',
-            messages: [{ role: 'user', content: prompt }],
-            temperature: 0.3,
-            max_tokens: 12000,
-            response_format: { type: 'json_object' },
-          }),
-        );
+        const completion = await llm.chat({
+          tier: 'standard',
+          messages: [{ role: 'user', content: prompt }],
+          temperature: 0.3,
+          maxTokens: 12000,
+          responseFormat: 'json',
+        });
         console.log(`[synthesise] GPT responded. Usage: ${JSON.stringify(completion.usage)}`);
 
-        const raw = completion.choices[0]?.message?.content;
+        const raw = completion.content;
         if (!raw) {
           emit('facilitation-agent', 'orchestrator', 'Synthesis Agent returned an empty response. Synthesis failed.', 'challenge');
           sendEvent('synthesis.error', { error: 'AI returned empty response' });
@@ -928,7 +929,7 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
         emit(
           'facilitation-agent',
           'guardian',
-          `Synthesis complete. Generated **${(raw.length / 1000).toFixed(1)}KB** of structured JSON. Token usage: ${usage?.prompt_tokens?.toLocaleString() || '?'} prompt → ${usage?.completion_tokens?.toLocaleString() || '?'} completion. Handing off to Guardian for quality review.`,
+          `Synthesis complete. Generated **${(raw.length / 1000).toFixed(1)}KB** of structured JSON. Token usage: ${usage?.promptTokens.toLocaleString() || '?'} prompt → ${usage?.completionTokens.toLocaleString() || '?'} completion. Handing off to Guardian for quality review.`,
           'handoff',
         );
 
@@ -1247,7 +1248,7 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       } finally {
         controller.close();
       }
-    },
+    }),
   });
 
   return new Response(stream, {
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
+import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { PullBreakoutPadSchema, zodError } from '@/lib/validation/schemas';
+import { BreakoutRoomError, pullPadToPlenary } from '@/lib/live/breakout-rooms';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/admin/workshops/[id]/live/breakout-rooms/[roomId]/pull
+ *
+ * Copy one of the room's pads onto the main (plenary) canvas. The pad is
+ * emitted as pad.generated on the plenary stream and returned so the lead
+ * facilitator's page can place it without waiting for the event.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; roomId: string }> }
+) {
+  try {
+    const { id: workshopId, roomId } = await params;
+    const user = await getAuthenticatedUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const access = await validateWorkshopAccess(workshopId, user.organizationId, user.role, user.userId);
+    if (!access.valid) {
+      return NextResponse.json({ error: access.error }, { status: 403 });
+    }
+
+    const rawBody = await request.json().catch(() => null);
+    const parsed = PullBreakoutPadSchema.safeParse(rawBody);
+    if (!parsed.success) return zodError(parsed.error);
+
+    const pad = await pullPadToPlenary(workshopId, roomId, parsed.data.padId);
+    return NextResponse.json({ ok: true, pad });
+  } catch (error) {
+    if (error instanceof BreakoutRoomError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+    }
+    console.error('[Breakout] Failed to pull pad:', error);
+    return NextResponse.json({ ok: false, error: 'Failed to pull pad' }, { status: 500 });
+  }
+}
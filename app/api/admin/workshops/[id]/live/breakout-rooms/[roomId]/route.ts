@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
+import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { UpdateBreakoutRoomSchema, zodError } from '@/lib/validation/schemas';
+import { BreakoutRoomError, updateBreakoutRoom } from '@/lib/live/breakout-rooms';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PATCH /api/admin/workshops/[id]/live/breakout-rooms/[roomId]
+ *
+ * Rename a room, or close (reopen) it. A closed room refuses further capture
+ * but its state stays in the plenary view.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; roomId: string }> }
+) {
+  try {
+    const { id: workshopId, roomId } = await params;
+    const user = await getAuthenticatedUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const access = await validateWorkshopAccess(workshopId, user.organizationId, user.role, user.userId);
+    if (!access.valid) {
+      return NextResponse.json({ error: access.error }, { status: 403 });
+    }
+
+    const rawBody = await request.json().catch(() => null);
+    const parsed = UpdateBreakoutRoomSchema.safeParse(rawBody);
+    if (!parsed.success) return zodError(parsed.error);
+
+    const room = await updateBreakoutRoom(workshopId, roomId, parsed.data);
+
+    if (user.organizationId) {
+      logAuditEvent({ organizationId: user.organizationId, userId: user.userId ?? undefined, action: 'UPDATE_WORKSHOP', resourceType: 'workshop', resourceId: workshopId, metadata: { breakoutRoomId: roomId, ...parsed.data }, success: true }).catch(err => console.error('[audit] update_breakout_room:', err));
+    }
+
+    return NextResponse.json({ ok: true, room });
+  } catch (error) {
+    if (error instanceof BreakoutRoomError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 404 });
+    }
+    console.error('[Breakout] Failed to update room:', error);
+    return NextResponse.json({ ok: false, error: 'Failed to update breakout room' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
+import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { loadPlenary } from '@/lib/live/breakout-rooms';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/workshops/[id]/live/breakout-rooms/plenary
+ *
+ * Every breakout room's beliefs and pads, merged into the themes the rooms
+ * converged on, the ones they diverged on and the ones only one room raised.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: workshopId } = await params;
+    const user = await getAuthenticatedUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const access = await validateWorkshopAccess(workshopId, user.organizationId, user.role, user.userId);
+    if (!access.valid) {
+      return NextResponse.json({ error: access.error }, { status: 403 });
+    }
+
+    const { merge, rooms } = await loadPlenary(workshopId);
+    return NextResponse.json({
+      ok: true,
+      ...merge,
+      padsByRoom: Object.fromEntries(rooms.map((room) => [room.roomId, room.pads])),
+    });
+  } catch (error) {
+    console.error('[Breakout] Failed to build plenary:', error);
+    return NextResponse.json({ ok: false, error: 'Failed to load plenary view' }, { status: 500 });
+  }
+}
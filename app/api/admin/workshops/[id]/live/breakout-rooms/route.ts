@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
+import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { CreateBreakoutRoomsSchema, zodError } from '@/lib/validation/schemas';
+import { BreakoutRoomError, createBreakoutRooms, listBreakoutRooms } from '@/lib/live/breakout-rooms';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/workshops/[id]/live/breakout-rooms
+ *
+ * The workshop's breakout rooms in plenary order.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: workshopId } = await params;
+    const user = await getAuthenticatedUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const access = await validateWorkshopAccess(workshopId, user.organizationId, user.role, user.userId);
+    if (!access.valid) {
+      return NextResponse.json({ error: access.error }, { status: 403 });
+    }
+
+    const rooms = await listBreakoutRooms(workshopId);
+    return NextResponse.json({ ok: true, rooms });
+  } catch (error) {
+    console.error('[Breakout] Failed to list rooms:', error);
+    return NextResponse.json({ ok: false, error: 'Failed to load breakout rooms' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/workshops/[id]/live/breakout-rooms
+ *
+ * Split the workshop into breakout groups — one room per name given. Each
+ * room runs its own capture, canvas and facilitation cycle from
+ * /admin/workshops/[id]/live?room=<roomId>.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: workshopId } = await params;
+    const user = await getAuthenticatedUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const access = await validateWorkshopAccess(workshopId, user.organizationId, user.role, user.userId);
+    if (!access.valid) {
+      return NextResponse.json({ error: access.error }, { status: 403 });
+    }
+
+    const rawBody = await request.json().catch(() => null);
+    const parsed = CreateBreakoutRoomsSchema.safeParse(rawBody);
+    if (!parsed.success) return zodError(parsed.error);
+
+    const rooms = await createBreakoutRooms(workshopId, parsed.data.names);
+
+    if (user.organizationId) {
+      logAuditEvent({ organizationId: user.organizationId, userId: user.userId ?? undefined, action: 'UPDATE_WORKSHOP', resourceType: 'workshop', resourceId: workshopId, metadata: { breakoutRoomsCreated: rooms.map((r) => r.name) }, success: true }).catch(err => console.error('[audit] create_breakout_rooms:', err));
+    }
+
+    return NextResponse.json({ ok: true, rooms }, { status: 201 });
+  } catch (error) {
+    if (error instanceof BreakoutRoomError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+    }
+    console.error('[Breakout] Failed to create rooms:', error);
+    return NextResponse.json({ ok: false, error: 'Failed to create breakout rooms' }, { status: 500 });
+  }
+}
@@ -1,14 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
-
-import { env } from '@/lib/env';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { getLLMClient } from '@/lib/llm';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
+const llm = getLLMClient('live-embedding');
 
 export async function POST(
   request: NextRequest,
@@ -24,8 +23,8 @@ export async function POST(
     if (!access.valid) {
       return NextResponse.json({ error: access.error }, { status: 403 });
     }
-    if (!env.OPENAI_API_KEY) {
-      return NextResponse.json({ error: 'Missing OPENAI_API_KEY' }, { status: 503 });
+    if (!llm.isEmbeddingConfigured()) {
+      return NextResponse.json({ error: 'Embedding provider not configured' }, { status: 503 });
     }
 
     const body = (await request.json().catch(() => null)) as { text?: unknown } | null;
@@ -37,12 +36,9 @@ export async function POST(
 
     const truncated = text.length > 2500 ? text.slice(0, 2500) : text;
 
-    const resp = await openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: truncated,
-    });
-
-    const embedding = resp.data?.[0]?.embedding;
+    const [embedding] = await withOrganizationLLMConfig(access.workshop?.organizationId, () =>
+      llm.embed(truncated)
+    );
 
     if (!Array.isArray(embedding) || embedding.length === 0) {
       return NextResponse.json({ error: 'Embedding unavailable' }, { status: 500 });
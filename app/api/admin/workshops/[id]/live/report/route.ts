@@ -1,16 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import { prisma } from '@/lib/prisma';
 import { generateLiveWorkshopReportPdf } from '@/lib/pdf/live-workshop-report';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { readBlueprintFromJson } from '@/lib/workshop/blueprint';
 import { getDimensionNames } from '@/lib/cognition/workshop-dimensions';
+import { getLLMClient } from '@/lib/llm';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 
 export const runtime = 'nodejs';
 export const maxDuration = 90;
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+const llm = getLLMClient('live-report');
 
 type LivePhase = 'REIMAGINE' | 'CONSTRAINTS' | 'DEFINE_APPROACH';
 
@@ -208,8 +209,8 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ error: 'Unsupported format' }, { status: 400 });
     }
 
-    if (!process.env.OPENAI_API_KEY) {
-      return NextResponse.json({ error: 'OPENAI_API_KEY is not configured' }, { status: 500 });
+    if (!llm.isConfigured()) {
+      return NextResponse.json({ error: 'LLM provider is not configured' }, { status: 500 });
     }
 
     const workshop = await prisma.workshop.findUnique({
@@ -345,26 +346,28 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       const extracted = extractLiveNotes(snapshot.payload);
       const notes = [...extracted.utterances, ...extracted.interpreted].filter(Boolean).join('\n');
 
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        temperature: 0.2,
-        messages: [
-          {
-            role: 'system',
-            content: buildPrompt({
-              workshopName: workshop?.name ?? null,
-              phase: phaseParam,
-              notes,
-              themes: extracted.themes,
-              pressure: extracted.pressure,
-              lensNames,
-            }),
-          },
-        ],
-        response_format: { type: 'json_object' },
-      });
+      const completion = await withOrganizationLLMConfig(access.workshop?.organizationId, () =>
+        llm.chat({
+          tier: 'fast',
+          temperature: 0.2,
+          messages: [
+            {
+              role: 'system',
+              content: buildPrompt({
+                workshopName: workshop?.name ?? null,
+                phase: phaseParam,
+                notes,
+                themes: extracted.themes,
+                pressure: extracted.pressure,
+                lensNames,
+              }),
+            },
+          ],
+          responseFormat: 'json',
+        })
+      );
 
-      const raw = completion.choices?.[0]?.message?.content || '{}';
+      const raw = completion.content || '{}';
       try {
         parsed = JSON.parse(raw) as Partial<LiveReportPayload>;
       } catch {
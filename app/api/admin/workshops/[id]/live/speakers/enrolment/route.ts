@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
+import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { EnrolVoiceSchema, zodError } from '@/lib/validation/schemas';
+import { SpeakerMappingError, enrolParticipantVoice } from '@/lib/transcription/speaker-registry';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/admin/workshops/[id]/live/speakers/enrolment
+ *
+ * Enrol a participant's voice from a profile computed on the capture device
+ * (voiceProfile() in lib/transcription/local/diarisation.ts). Only the
+ * four-number profile is stored — never audio.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: workshopId } = await params;
+    const user = await getAuthenticatedUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const access = await validateWorkshopAccess(workshopId, user.organizationId, user.role, user.userId);
+    if (!access.valid) {
+      return NextResponse.json({ error: access.error }, { status: 403 });
+    }
+
+    const rawBody = await request.json().catch(() => null);
+    const parsed = EnrolVoiceSchema.safeParse(rawBody);
+    if (!parsed.success) return zodError(parsed.error);
+
+    const { participantId, voiceProfile } = parsed.data;
+    await enrolParticipantVoice(workshopId, participantId, voiceProfile);
+
+    if (user.organizationId) {
+      logAuditEvent({ organizationId: user.organizationId, userId: user.userId ?? undefined, action: 'UPDATE_PARTICIPANT', resourceType: 'participant', resourceId: participantId, metadata: { workshopId, voiceEnrolled: true }, success: true }).catch(err => console.error('[audit] enrol_voice:', err));
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof SpeakerMappingError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+    }
+    console.error('[Speakers] Failed to enrol voice:', error);
+    return NextResponse.json({ ok: false, error: 'Failed to enrol voice' }, { status: 500 });
+  }
+}
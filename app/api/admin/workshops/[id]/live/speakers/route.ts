@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
+import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { MapSpeakerSchema, zodError } from '@/lib/validation/schemas';
+import {
+  SpeakerMappingError,
+  listWorkshopSpeakers,
+  mapSpeaker,
+} from '@/lib/transcription/speaker-registry';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/workshops/[id]/live/speakers
+ *
+ * Speakers heard in the workshop with their participant mapping, voice
+ * enrolment suggestion and talk-time / contribution analytics.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: workshopId } = await params;
+    const user = await getAuthenticatedUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const access = await validateWorkshopAccess(workshopId, user.organizationId, user.role, user.userId);
+    if (!access.valid) {
+      return NextResponse.json({ error: access.error }, { status: 403 });
+    }
+
+    const report = await listWorkshopSpeakers(workshopId);
+    return NextResponse.json({ ok: true, ...report });
+  } catch (error) {
+    console.error('[Speakers] Failed to list speakers:', error);
+    return NextResponse.json({ ok: false, error: 'Failed to load speakers' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/admin/workshops/[id]/live/speakers
+ *
+ * Map a speaker to a participant (or a display name, or clear it) and
+ * relabel its existing DataPoints and actor records.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: workshopId } = await params;
+    const user = await getAuthenticatedUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const access = await validateWorkshopAccess(workshopId, user.organizationId, user.role, user.userId);
+    if (!access.valid) {
+      return NextResponse.json({ error: access.error }, { status: 403 });
+    }
+
+    const rawBody = await request.json().catch(() => null);
+    const parsed = MapSpeakerSchema.safeParse(rawBody);
+    if (!parsed.success) return zodError(parsed.error);
+
+    const { speakerId, participantId, displayName } = parsed.data;
+    const result = await mapSpeaker(workshopId, speakerId, {
+      participantId,
+      displayName,
+      mappedById: user.userId,
+    });
+
+    if (user.organizationId) {
+      logAuditEvent({ organizationId: user.organizationId, userId: user.userId ?? undefined, action: 'UPDATE_PARTICIPANT', resourceType: 'participant', resourceId: participantId ?? undefined, metadata: { workshopId, speakerId, mappedTo: result.label, dataPointsRelabelled: result.dataPointsRelabelled }, success: true }).catch(err => console.error('[audit] map_speaker:', err));
+    }
+
+    return NextResponse.json({ ok: true, ...result });
+  } catch (error) {
+    if (error instanceof SpeakerMappingError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+    }
+    console.error('[Speakers] Failed to map speaker:', error);
+    return NextResponse.json({ ok: false, error: 'Failed to map speaker' }, { status: 500 });
+  }
+}
@@ -12,6 +12,7 @@ import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { getDomainPack } from '@/lib/domain-packs/registry';
+import { loadWorkshopDomainPacks } from '@/lib/domain-packs/tenant-packs';
 import {
   CsvUploadPayloadSchema,
   readHistoricalMetricsFromJson,
@@ -54,6 +55,8 @@ export async function POST(
       where: { id: workshopId },
       select: {
         domainPack: true,
+        organizationId: true,
+        domainPackVersionId: true,
         historicalMetrics: true,
       },
     });
@@ -68,7 +71,7 @@ export async function POST(
     }
 
     // -- Resolve domain pack
-    const pack = getDomainPack(workshop.domainPack);
+    const pack = getDomainPack(workshop.domainPack, await loadWorkshopDomainPacks(workshop));
     if (!pack) {
       return NextResponse.json(
         { error: `Domain pack "${workshop.domainPack}" not found in registry` },
@@ -12,6 +12,7 @@ import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { getDomainPack } from '@/lib/domain-packs/registry';
+import { loadWorkshopDomainPacks } from '@/lib/domain-packs/tenant-packs';
 import { CsvUploadPayloadSchema } from '@/lib/historical-metrics/types';
 import { validateAndNormalize } from '@/lib/historical-metrics/validate-csv';
 
@@ -42,7 +43,7 @@ export async function POST(
     // -- Load workshop to get domain pack
     const workshop = await prisma.workshop.findUnique({
       where: { id: workshopId },
-      select: { domainPack: true },
+      select: { domainPack: true, organizationId: true, domainPackVersionId: true },
     });
     if (!workshop) {
       return NextResponse.json({ error: 'Workshop not found' }, { status: 404 });
@@ -55,7 +56,7 @@ export async function POST(
     }
 
     // -- Resolve domain pack
-    const pack = getDomainPack(workshop.domainPack);
+    const pack = getDomainPack(workshop.domainPack, await loadWorkshopDomainPacks(workshop));
     if (!pack) {
       return NextResponse.json(
         { error: `Domain pack "${workshop.domainPack}" not found in registry` },
@@ -11,8 +11,12 @@ import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { aggregateWorkshopSignals, computeSignalsHash } from '@/lib/output-intelligence/signal-aggregator';
 import { runIntelligencePipeline } from '@/lib/output-intelligence/pipeline';
+import { buildWorkshopProvenance } from '@/lib/output-intelligence/provenance';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import type { StoredOutputIntelligence, EngineKey } from '@/lib/output-intelligence/types';
 import { strictLimiter } from '@/lib/rate-limit';
+import { syncRoadmapInitiatives } from '@/lib/roadmap/initiatives';
+import { publishWorkshopLifecycleEvent, workshopAdminUrl } from '@/lib/webhooks/dispatch';
 
 export const runtime = 'nodejs';
 export const maxDuration = 120;
@@ -109,21 +113,32 @@ export async function POST(
         });
 
         // 2. Run all 5 engines in parallel with SSE progress
-        const { intelligence, errors } = await runIntelligencePipeline(
-          signals,
-          (engine: EngineKey, event: 'started' | 'complete' | 'error', detail?: string) => {
-            const label = ENGINE_LABELS[engine];
-            if (event === 'started') {
-              sendEvent('engine.started', { engine, label });
-            } else if (event === 'complete') {
-              sendEvent('engine.complete', { engine, label });
-            } else {
-              sendEvent('engine.error', { engine, label, error: detail ?? 'Unknown error' });
+        //    Agents use the workshop organisation's LLM config when it has one.
+        const { intelligence, errors } = await withOrganizationLLMConfig(access.workshop?.organizationId, () =>
+          runIntelligencePipeline(
+            signals,
+            (engine: EngineKey, event: 'started' | 'complete' | 'error', detail?: string) => {
+              const label = ENGINE_LABELS[engine];
+              if (event === 'started') {
+                sendEvent('engine.started', { engine, label });
+              } else if (event === 'complete') {
+                sendEvent('engine.complete', { engine, label });
+              } else {
+                sendEvent('engine.error', { engine, label, error: detail ?? 'Unknown error' });
+              }
             }
-          }
+          )
         );
 
-        // 3. Store to DB
+        // 3. Cite every claim back to its source records (non-fatal — reports render without footnotes)
+        sendEvent('status', { message: 'Tracing claims to their sources…' });
+        try {
+          intelligence.provenance = await buildWorkshopProvenance(workshopId, intelligence);
+        } catch (err) {
+          console.error('[Output Intelligence POST] Provenance build failed:', err);
+        }
+
+        // 4. Store to DB
         const stored: StoredOutputIntelligence = {
           version: 1,
           generatedAtMs: intelligence.generatedAtMs,
@@ -139,12 +154,26 @@ export async function POST(
           data: { outputIntelligence: stored as any },
         });
 
-        // 4. Report any engine errors
+        // Promote roadmap initiatives to trackable records (non-fatal)
+        if (access.workshop && !errors.roadmap) {
+          await syncRoadmapInitiatives(access.workshop, intelligence).catch((err) =>
+            console.error('[Output Intelligence POST] Roadmap initiative sync failed:', err),
+          );
+        }
+
+        await publishWorkshopLifecycleEvent(workshopId, 'output_intelligence.completed', {
+          generatedAt: new Date(intelligence.generatedAtMs).toISOString(),
+          lensesUsed: intelligence.lensesUsed,
+          failedEngines: Object.keys(errors),
+          url: workshopAdminUrl(workshopId, '/intelligence'),
+        });
+
+        // 5. Report any engine errors
         if (Object.keys(errors).length > 0) {
           sendEvent('partial.errors', { errors });
         }
 
-        // 5. Complete
+        // 6. Complete
         sendEvent('complete', {
           intelligence,
           lensesUsed: intelligence.lensesUsed,
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { loadParticipantRedactor } from '@/lib/compliance/participant-redaction';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -14,30 +15,37 @@ export async function GET(_request: NextRequest, { params }: { params: Promise<{
     const access = await validateWorkshopAccess(workshopId, user.organizationId, user.role, user.userId);
     if (!access.valid) return NextResponse.json({ error: access.error }, { status: 403 });
 
+    const redactor = await loadParticipantRedactor(workshopId);
     const reports = await prisma.conversationReport.findMany({
       where: { workshopId },
       include: {
-        participant: { select: { name: true, role: true, department: true } },
+        participant: { select: { role: true, department: true } },
       },
       orderBy: { createdAt: 'asc' },
     });
 
     return NextResponse.json({
       ok: true,
-      reports: reports.map((r) => ({
-        id: r.id,
-        participantId: r.participantId,
-        participantName: r.participant?.name || 'Participant',
-        participantRole: r.participant?.role || null,
-        participantDepartment: r.participant?.department || null,
-        executiveSummary: r.executiveSummary,
-        feedback: r.feedback,
-        tone: r.tone,
-        keyInsights: r.keyInsights,
-        phaseInsights: r.phaseInsights,
-        wordCloudThemes: r.wordCloudThemes,
-        createdAt: r.createdAt,
-      })),
+      reports: reports.map((r) => {
+        const roleLabel = redactor.roleLabel(r.participant?.role);
+        return {
+          id: r.id,
+          participantId: r.participantId,
+          participantName: redactor.displayName(r.participantId),
+          participantRole: roleLabel,
+          // Department narrows a small cohort further — only shown alongside a reportable role
+          participantDepartment: roleLabel ? r.participant?.department || null : null,
+          ...redactor.redact({
+            executiveSummary: r.executiveSummary,
+            feedback: r.feedback,
+            tone: r.tone,
+            keyInsights: r.keyInsights,
+            phaseInsights: r.phaseInsights,
+            wordCloudThemes: r.wordCloudThemes,
+          }),
+          createdAt: r.createdAt,
+        };
+      }),
     });
   } catch (e) {
     const message = e instanceof Error ? e.message : 'Failed to fetch participant reports';
@@ -3,7 +3,7 @@ import { requireAuth } from '@/lib/auth/require-auth';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { prisma } from '@/lib/prisma';
 import { logAuditEvent } from '@/lib/audit/audit-logger';
-import { encryptParticipantData } from '@/lib/workshop-encryption';
+import { encryptParticipantData, decryptParticipantData } from '@/lib/workshop-encryption';
 import { CreateParticipantSchema, PatchParticipantSchema, DeleteParticipantSchema, zodError } from '@/lib/validation/schemas';
 
 export async function POST(
@@ -29,13 +29,13 @@ export async function POST(
 
     // Encrypt participant PII (email) before persisting if encryption is enabled.
     // encryptParticipantData is a no-op when ENCRYPTION_ENABLED !== 'true'.
-    const participantData = encryptParticipantData({
+    const participantData = await encryptParticipantData({
       workshopId,
       name,
       email,
       role: role || null,
       department: department || null,
-    });
+    }, { workshopId });
 
     // Create participant with unique discovery token
     const participant = await prisma.workshopParticipant.create({
@@ -46,7 +46,7 @@ export async function POST(
       logAuditEvent({ organizationId: auth.organizationId, userId: auth.userId ?? undefined, action: 'CREATE_PARTICIPANT', resourceType: 'participant', resourceId: participant.id, metadata: { workshopId, participantEmail: email, participantName: name }, success: true }).catch(err => console.error('[audit] create_participant:', err));
     }
 
-    return NextResponse.json({ participant });
+    return NextResponse.json({ participant: await decryptParticipantData(participant) });
   } catch (error) {
     console.error('Error adding participant:', error);
     return NextResponse.json(
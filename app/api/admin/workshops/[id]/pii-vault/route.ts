@@ -0,0 +1,98 @@
+/**
+ * PII Vault API
+ *
+ * GET  — Vault entries for the workshop: placeholder, entity type, original
+ *        value and the detector that found it
+ * POST — Reveal: restore the original values behind the placeholders in a
+ *        piece of text (RevealPiiSchema)
+ *
+ * Both return original personal data, so they are limited to PLATFORM_ADMIN
+ * and the organisation's TENANT_ADMINs, and every call is audited.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser, type SessionUser } from '@/lib/auth/get-session-user';
+import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { listPiiVaultEntries, revealPii } from '@/lib/pii/vault';
+import { RevealPiiSchema, zodError } from '@/lib/validation/schemas';
+
+async function authorise(workshopId: string): Promise<
+  { user: SessionUser; organizationId: string } | { response: NextResponse }
+> {
+  const user = await getAuthenticatedUser();
+  if (!user) return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  if (user.role !== 'PLATFORM_ADMIN' && user.role !== 'TENANT_ADMIN') {
+    return { response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+  }
+
+  const access = await validateWorkshopAccess(workshopId, user.organizationId, user.role, user.userId);
+  if (!access.valid || !access.workshop) {
+    return { response: NextResponse.json({ error: access.error ?? 'Forbidden' }, { status: 403 }) };
+  }
+  // Example workshops are readable across organisations — their vault is not
+  if (user.role !== 'PLATFORM_ADMIN' && access.workshop.organizationId !== user.organizationId) {
+    return { response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+  }
+  return { user, organizationId: access.workshop.organizationId };
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id: workshopId } = await params;
+    const auth = await authorise(workshopId);
+    if ('response' in auth) return auth.response;
+
+    const entries = await listPiiVaultEntries(workshopId);
+
+    logAuditEvent({
+      organizationId: auth.organizationId,
+      userId: auth.user.userId,
+      userEmail: auth.user.email,
+      action: 'REVEAL_PII',
+      resourceType: 'Workshop',
+      resourceId: workshopId,
+      metadata: { scope: 'vault', entries: entries.length },
+    }).catch((err) => console.error('[audit] reveal_pii:', err));
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('[PII Vault GET] Error:', error);
+    return NextResponse.json({ error: 'Failed to load PII vault' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id: workshopId } = await params;
+    const auth = await authorise(workshopId);
+    if ('response' in auth) return auth.response;
+
+    const rawBody = await request.json().catch(() => null);
+    const parsed = RevealPiiSchema.safeParse(rawBody);
+    if (!parsed.success) return zodError(parsed.error);
+
+    const result = await revealPii(workshopId, parsed.data.text);
+
+    logAuditEvent({
+      organizationId: auth.organizationId,
+      userId: auth.user.userId,
+      userEmail: auth.user.email,
+      action: 'REVEAL_PII',
+      resourceType: 'Workshop',
+      resourceId: workshopId,
+      metadata: { scope: 'text', reason: parsed.data.reason, revealed: result.revealed },
+    }).catch((err) => console.error('[audit] reveal_pii:', err));
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[PII Vault POST] Error:', error);
+    return NextResponse.json({ error: 'Failed to reveal PII' }, { status: 500 });
+  }
+}
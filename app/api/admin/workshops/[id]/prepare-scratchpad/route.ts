@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { getLLMClient } from '@/lib/llm';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 
 type OrderedSection = {
   domain: string;
@@ -26,7 +27,7 @@ type ScratchpadContent = {
   };
 };
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+const llm = getLLMClient('prepare-scratchpad');
 
 function safeString(value: unknown): string {
   return typeof value === 'string' ? value.trim() : '';
@@ -185,7 +186,7 @@ export async function POST(_request: NextRequest, { params }: { params: Promise<
 
     const fullContext = contextParts.join('\n\n---\n\n');
 
-    if (!process.env.OPENAI_API_KEY) {
+    if (!llm.isConfigured()) {
       // Fallback: basic organization by classification
       const sections: OrderedSection[] = [
         { domain: 'People', content: [] },
@@ -222,8 +223,8 @@ export async function POST(_request: NextRequest, { params }: { params: Promise<
     }
 
     // Use AI to intelligently organize content
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    const completion = await withOrganizationLLMConfig(access.workshop?.organizationId, () => llm.chat({
+      tier: 'standard',
       temperature: 0.1,
       messages: [
         {
@@ -266,10 +267,10 @@ Guidelines:
           content: `Workshop content to organize:\n\n${fullContext}`,
         },
       ],
-      response_format: { type: 'json_object' },
-    });
+      responseFormat: 'json',
+    }));
 
-    const raw = completion.choices?.[0]?.message?.content || '{}';
+    const raw = completion.content || '{}';
     let parsed: { sections?: unknown } = {};
     try {
       parsed = JSON.parse(raw);
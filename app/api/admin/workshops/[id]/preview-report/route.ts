@@ -11,12 +11,13 @@ import fs from 'fs';
 import path from 'path';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { loadParticipantRedactor } from '@/lib/compliance/participant-redaction';
 import { prisma } from '@/lib/prisma';
 import type { ReportSummary, ReportLayout } from '@/lib/output-intelligence/types';
 import type { WorkshopOutputIntelligence } from '@/lib/output-intelligence/types';
 import type { LiveJourneyData } from '@/lib/cognitive-guidance/pipeline';
 import type { DiscoverAnalysis } from '@/lib/types/discover-analysis';
-import { buildReportHtml } from '@/lib/report/html-renderers';
+import { buildReportHtml, redactReportBody } from '@/lib/report/html-renderers';
 
 export const runtime = 'nodejs';
 export const maxDuration = 30;
@@ -66,10 +67,11 @@ export async function POST(
   const access = await validateWorkshopAccess(workshopId, user.organizationId, user.role, user.userId);
   if (!access.valid) return NextResponse.json({ error: access.error }, { status: 403 });
 
-  const body = await request.json().catch(() => null) as PreviewBody | null;
-  if (!body?.reportSummary || !body?.intelligence || !body?.layout) {
+  const rawBody = await request.json().catch(() => null) as PreviewBody | null;
+  if (!rawBody?.reportSummary || !rawBody?.intelligence || !rawBody?.layout) {
     return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
   }
+  const body = redactReportBody(rawBody, await loadParticipantRedactor(workshopId));
 
   const workshop = await prisma.workshop.findUnique({
     where: { id: workshopId },
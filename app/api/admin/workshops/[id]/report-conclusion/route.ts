@@ -1,7 +1,7 @@
 /**
  * POST /api/admin/workshops/[id]/report-conclusion
  *
- * Uses GPT-4o-mini to generate a compelling executive conclusion paragraph
+ * Uses the fast model tier to generate a compelling executive conclusion paragraph
  * and 5 prioritised, actionable next steps based on the workshop intelligence
  * and report summary. Saves to reportSummary.reportConclusion and returns it.
  */
@@ -10,8 +10,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
-import OpenAI from 'openai';
-import { env } from '@/lib/env';
+import { getLLMClient } from '@/lib/llm';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import { nanoid } from 'nanoid';
 import type {
   StoredOutputIntelligence,
@@ -23,7 +23,7 @@ import type {
 export const runtime = 'nodejs';
 export const maxDuration = 30;
 
-const openai = env.OPENAI_API_KEY ? new OpenAI({ apiKey: env.OPENAI_API_KEY }) : null;
+const llm = getLLMClient('report-conclusion');
 
 export async function POST(
   _request: NextRequest,
@@ -37,8 +37,8 @@ export async function POST(
   const access = await validateWorkshopAccess(workshopId, user.organizationId, user.role, user.userId);
   if (!access.valid) return NextResponse.json({ error: access.error }, { status: 403 });
 
-  if (!openai) {
-    return NextResponse.json({ error: 'OpenAI not configured' }, { status: 503 });
+  if (!llm.isConfigured()) {
+    return NextResponse.json({ error: 'LLM provider not configured' }, { status: 503 });
   }
 
   // ── Load data ───────────────────────────────────────────────────────────────
@@ -129,18 +129,18 @@ Respond ONLY with valid JSON in this exact shape:
 }`;
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const completion = await withOrganizationLLMConfig(access.workshop?.organizationId, () => llm.chat({
+      tier: 'fast',
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: context },
       ],
       temperature: 0.6,
-      max_tokens: 800,
-      response_format: { type: 'json_object' },
-    });
+      maxTokens: 800,
+      responseFormat: 'json',
+    }));
 
-    const raw = completion.choices[0]?.message?.content?.trim() ?? '{}';
+    const raw = completion.content.trim() || '{}';
     const parsed = JSON.parse(raw) as {
       summary?: string;
       nextSteps?: Array<{ title?: string; description?: string }>;
@@ -15,14 +15,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
-import OpenAI from 'openai';
-import { env } from '@/lib/env';
+import { getLLMClient } from '@/lib/llm';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import type { StoredOutputIntelligence, ReportSummary } from '@/lib/output-intelligence/types';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
 
-const openai = env.OPENAI_API_KEY ? new OpenAI({ apiKey: env.OPENAI_API_KEY }) : null;
+const llm = getLLMClient('report-prompt');
 
 // ── Output schema ─────────────────────────────────────────────────────────────
 
@@ -58,8 +58,8 @@ export async function POST(
       return NextResponse.json({ error: 'Prompt is required' }, { status: 400 });
     }
 
-    if (!openai) {
-      return NextResponse.json({ error: 'OpenAI not configured' }, { status: 500 });
+    if (!llm.isConfigured()) {
+      return NextResponse.json({ error: 'LLM provider not configured' }, { status: 500 });
     }
 
     // Load intelligence + report summary
@@ -149,18 +149,18 @@ export async function POST(
 
     const userMessage = `=== WORKSHOP INTELLIGENCE ===\n${contextLines.join('\n')}\n\n=== FACILITATOR REQUEST ===\n${userPrompt}\n\n=== OUTPUT SCHEMA ===\n${RESPONSE_SCHEMA}\n\nReturn a single JSON object. No commentary outside the JSON.`;
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      response_format: { type: 'json_object' },
+    const response = await withOrganizationLLMConfig(access.workshop?.organizationId, () => llm.chat({
+      tier: 'standard',
+      responseFormat: 'json',
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userMessage },
       ],
       temperature: 0.3,
-      max_tokens: 1500,
-    });
+      maxTokens: 1500,
+    }));
 
-    const raw = response.choices[0]?.message?.content ?? '{}';
+    const raw = response.content || '{}';
     const output = JSON.parse(raw);
 
     return NextResponse.json({ output });
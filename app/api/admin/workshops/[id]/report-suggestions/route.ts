@@ -10,8 +10,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
-import OpenAI from 'openai';
-import { env } from '@/lib/env';
+import { getLLMClient } from '@/lib/llm';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import type {
   StoredOutputIntelligence,
   ReportLayout,
@@ -21,7 +21,7 @@ import type {
 export const runtime = 'nodejs';
 export const maxDuration = 30;
 
-const openai = env.OPENAI_API_KEY ? new OpenAI({ apiKey: env.OPENAI_API_KEY }) : null;
+const llm = getLLMClient('report-suggestions');
 
 export async function POST(
   request: NextRequest,
@@ -35,8 +35,8 @@ export async function POST(
   const access = await validateWorkshopAccess(workshopId, user.organizationId, user.role, user.userId);
   if (!access.valid) return NextResponse.json({ error: access.error }, { status: 403 });
 
-  if (!openai) {
-    return NextResponse.json({ error: 'OpenAI not configured' }, { status: 503 });
+  if (!llm.isConfigured()) {
+    return NextResponse.json({ error: 'LLM provider not configured' }, { status: 503 });
   }
 
   // ── Load data ───────────────────────────────────────────────────────────────
@@ -112,17 +112,17 @@ Rules:
 Respond ONLY with a JSON array of strings: ["suggestion 1", "suggestion 2", ...]`;
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const completion = await withOrganizationLLMConfig(access.workshop?.organizationId, () => llm.chat({
+      tier: 'fast',
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: context },
       ],
       temperature: 0.7,
-      max_tokens: 400,
-    });
+      maxTokens: 400,
+    }));
 
-    const raw = completion.choices[0]?.message?.content?.trim() ?? '[]';
+    const raw = completion.content.trim() || '[]';
 
     // Extract JSON array (handle markdown code blocks)
     const jsonMatch = raw.match(/\[[\s\S]*\]/);
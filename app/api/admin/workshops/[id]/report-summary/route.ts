@@ -11,6 +11,7 @@ import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { runReportSummaryPipeline } from '@/lib/output-intelligence/pipeline';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import type { ReportSummary } from '@/lib/output-intelligence/types';
 
 export const runtime = 'nodejs';
@@ -131,9 +132,11 @@ export async function POST(
       try {
         sendEvent('status', { message: 'Loading workshop intelligence…' });
 
-        const reportSummary = await runReportSummaryPipeline(
-          workshopId,
-          (msg: string) => sendEvent('status', { message: msg })
+        const reportSummary = await withOrganizationLLMConfig(access.workshop?.organizationId, () =>
+          runReportSummaryPipeline(
+            workshopId,
+            (msg: string) => sendEvent('status', { message: msg })
+          ),
         );
 
         sendEvent('complete', { reportSummary });
@@ -0,0 +1,70 @@
+/**
+ * Roadmap Initiatives API
+ *
+ * GET  — Tracked initiatives for the workshop (owners, status, due dates, notes)
+ * POST — Promote the stored roadmap's initiatives to tracked records. Runs
+ *        automatically after output intelligence is generated; exposed for
+ *        workshops synthesised before tracking existed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
+import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { isOverdue, syncRoadmapInitiatives } from '@/lib/roadmap/initiatives';
+import type { StoredOutputIntelligence } from '@/lib/output-intelligence/types';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id: workshopId } = await params;
+    const user = await getAuthenticatedUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const access = await validateWorkshopAccess(workshopId, user.organizationId, user.role, user.userId);
+    if (!access.valid) return NextResponse.json({ error: access.error }, { status: 403 });
+
+    const initiatives = await prisma.roadmapInitiative.findMany({
+      where: { workshopId },
+      orderBy: [{ phase: 'asc' }, { createdAt: 'asc' }],
+      include: { notes: { orderBy: { createdAt: 'desc' }, take: 10 } },
+    });
+    const now = new Date();
+
+    return NextResponse.json({ initiatives: initiatives.map((i) => ({ ...i, overdue: isOverdue(i, now) })) });
+  } catch (error) {
+    console.error('[Roadmap Initiatives GET] Error:', error);
+    return NextResponse.json({ error: 'Failed to load roadmap initiatives' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id: workshopId } = await params;
+    const user = await getAuthenticatedUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const access = await validateWorkshopAccess(workshopId, user.organizationId, user.role, user.userId);
+    if (!access.valid || !access.workshop) return NextResponse.json({ error: access.error }, { status: 403 });
+
+    const workshop = await prisma.workshop.findUnique({
+      where: { id: workshopId },
+      select: { outputIntelligence: true },
+    });
+    const stored = workshop?.outputIntelligence as StoredOutputIntelligence | null;
+    if (!stored?.intelligence?.roadmap) {
+      return NextResponse.json({ error: 'Generate output intelligence before tracking the roadmap' }, { status: 400 });
+    }
+
+    const result = await syncRoadmapInitiatives(access.workshop, stored.intelligence);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[Roadmap Initiatives POST] Error:', error);
+    return NextResponse.json({ error: 'Failed to sync roadmap initiatives' }, { status: 500 });
+  }
+}
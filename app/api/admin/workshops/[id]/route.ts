@@ -4,6 +4,11 @@ import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { PatchWorkshopBodySchema, zodError } from '@/lib/validation/schemas';
 import { getDomainPack } from '@/lib/domain-packs';
+import {
+  getTenantPackVersion,
+  loadTenantDomainPacks,
+  loadWorkshopDomainPacks,
+} from '@/lib/domain-packs/tenant-packs';
 import { generateBlueprint } from '@/lib/cognition/workshop-blueprint-generator';
 import { readBlueprintFromJson, WorkshopBlueprintSchema } from '@/lib/workshop/blueprint';
 import type { EngagementType } from '@prisma/client';
@@ -395,9 +400,9 @@ export async function GET(
       return NextResponse.json({ error: 'Workshop not found' }, { status: 404 });
     }
 
-    // Decrypt workshop-level fields (businessContext) if encryption is enabled.
-    // decryptWorkshopData is a no-op when ENCRYPTION_ENABLED !== 'true'.
-    const decryptedWorkshop = decryptWorkshopData(workshop);
+    // Decrypt workshop-level fields (businessContext) written under the
+    // organisation's data key. Plaintext values pass through unchanged.
+    const decryptedWorkshop = await decryptWorkshopData(workshop);
 
     // Strip discoveryToken from participant records before returning to admin clients.
     // discoveryToken is a GDPR participant auth credential — it is only needed by the
@@ -406,9 +411,9 @@ export async function GET(
     const safeWorkshop = {
       ...(decryptedWorkshop as Record<string, unknown>),
       participants: Array.isArray((decryptedWorkshop as Record<string, unknown>).participants)
-        ? ((decryptedWorkshop as Record<string, unknown>).participants as Array<Record<string, unknown>>).map(
+        ? await Promise.all(((decryptedWorkshop as Record<string, unknown>).participants as Array<Record<string, unknown>>).map(
             ({ discoveryToken: _omit, ...p }) => decryptParticipantData(p)
-          )
+          ))
         : (decryptedWorkshop as Record<string, unknown>).participants,
     };
 
@@ -509,7 +514,7 @@ export async function PATCH(
 
     const workshop = await prisma.workshop.findUnique({
       where: { id },
-      select: { id: true },
+      select: { id: true, organizationId: true, domainPackVersionId: true },
     });
 
     if (!workshop) {
@@ -539,9 +544,25 @@ export async function PATCH(
     if (body.discoveryBriefing !== undefined) updateData.discoveryBriefing = body.discoveryBriefing;
     // Field Discovery / Diagnostic extension
     if (typeof body.engagementType === 'string') updateData.engagementType = toEngagementEnum(body.engagementType);
-    if (typeof body.domainPack === 'string') {
+    if (body.domainPackVersionId) {
+      // Pin to a specific tenant pack version and snapshot its config
+      const pinned = await getTenantPackVersion(workshop.organizationId, body.domainPackVersionId);
+      if (!pinned) {
+        return NextResponse.json({ error: 'Domain pack version not found' }, { status: 404 });
+      }
+      updateData.domainPackVersionId = pinned.pack.versionId;
+      updateData.domainPackConfig = pinned.pack as any;
+      // Industry pack keys never go in domainPack (see workshop create route)
+      if (pinned.kind === 'domain') updateData.domainPack = pinned.pack.key;
+    } else if (typeof body.domainPack === 'string') {
+      const tenantPacks = body.domainPack ? await loadTenantDomainPacks(workshop.organizationId) : null;
+      const pack = body.domainPack ? getDomainPack(body.domainPack, tenantPacks) : null;
       updateData.domainPack = body.domainPack || null;
-      updateData.domainPackConfig = body.domainPack ? (getDomainPack(body.domainPack) as any ?? undefined) : null;
+      updateData.domainPackConfig = body.domainPack ? (pack as any ?? undefined) : null;
+      if (pack || !body.domainPack) updateData.domainPackVersionId = pack?.versionId ?? null;
+    } else if (body.domainPackVersionId === null) {
+      // Unpin: the snapshot stays, later lookups use the latest version
+      updateData.domainPackVersionId = null;
     }
 
     // Direct blueprint override -- user edited the blueprint manually
@@ -559,14 +580,14 @@ export async function PATCH(
 
     // Recompose blueprint if any blueprint-relevant field changed (skip if direct override provided)
     const blueprintFields = [
-      'engagementType', 'domainPack', 'dreamTrack',
+      'engagementType', 'domainPack', 'domainPackVersionId', 'dreamTrack',
       'description', 'businessContext', 'industry', 'clientName',
       'prepResearch', // research output must trigger blueprint regeneration
     ];
     const blueprintFieldChanged = blueprintFields.some((f) => f in body);
 
     if (blueprintFieldChanged && !hasDirectBlueprint) {
-      const current = await prisma.workshop.findUnique({
+      const current = await decryptWorkshopData(await prisma.workshop.findUnique({
         where: { id },
         select: {
           clientName: true,
@@ -579,7 +600,7 @@ export async function PATCH(
           prepResearch: true,
           blueprint: true,
         },
-      });
+      }));
       if (current) {
         // Use incoming prepResearch if being saved now, otherwise fall back to stored value.
         // This ensures blueprint regeneration always uses the freshest research data.
@@ -600,6 +621,12 @@ export async function PATCH(
           researchDimensions: research?.industryDimensions ?? null,
           researchActors: research?.actorTaxonomy ?? null,
           previousVersion: existingBp?.blueprintVersion ?? 0,
+          tenantPacks: await loadWorkshopDomainPacks({
+            organizationId: workshop.organizationId,
+            domainPackVersionId: 'domainPackVersionId' in updateData
+              ? (updateData.domainPackVersionId as string | null)
+              : workshop.domainPackVersionId,
+          }),
         };
         updateData.blueprint = generateBlueprint(merged) as any;
       }
@@ -609,7 +636,7 @@ export async function PATCH(
     // encryptWorkshopData is a no-op when ENCRYPTION_ENABLED !== 'true'.
     const updated = await prisma.workshop.update({
       where: { id },
-      data: encryptWorkshopData(updateData),
+      data: await encryptWorkshopData(updateData, workshop.organizationId),
     });
 
     if (user.organizationId) {
@@ -8,14 +8,15 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
-import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { hasWorkshopPermission, validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { getLLMClient, type LLMMessage } from '@/lib/llm';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 
 export const maxDuration = 60;
 
-const MODEL = 'gpt-4o';
+const llm = getLLMClient('scratchpad-inquiry');
 
 interface InquiryMessage {
   role: 'user' | 'assistant';
@@ -63,10 +64,11 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     }
 
     // Build system prompt with scratchpad context
-    const systemPrompt = buildScratchpadInquiryPrompt(workshop, scratchpad);
+    // Without commercial:view the commercial section never reaches the model
+    const systemPrompt = buildScratchpadInquiryPrompt(workshop, scratchpad, hasWorkshopPermission(access, 'commercial:view'));
 
     // Build messages
-    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+    const messages: LLMMessage[] = [
       { role: 'system', content: systemPrompt },
     ];
 
@@ -78,26 +80,24 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     messages.push({ role: 'user', content: question });
 
     // Stream response
-    if (!process.env.OPENAI_API_KEY) {
-      return NextResponse.json({ error: 'OpenAI API key not configured' }, { status: 500 });
+    if (!llm.isConfigured()) {
+      return NextResponse.json({ error: 'LLM provider not configured' }, { status: 500 });
     }
 
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-    const stream = await openai.chat.completions.create({
-      model: MODEL,
-      temperature: 0.3,
-      messages,
-      stream: true,
-      max_tokens: 2000,
-    });
+    const stream = await withOrganizationLLMConfig(access.workshop?.organizationId, async () =>
+      llm.stream({
+        tier: 'standard',
+        temperature: 0.3,
+        messages,
+        maxTokens: 2000,
+      })
+    );
 
     const encoder = new TextEncoder();
     const readableStream = new ReadableStream({
       async start(controller) {
         try {
-          for await (const chunk of stream) {
-            const content = chunk.choices[0]?.delta?.content;
+          for await (const content of stream) {
             if (content) {
               controller.enqueue(
                 encoder.encode(`data: ${JSON.stringify({ content })}\n\n`),
@@ -137,6 +137,7 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
 function buildScratchpadInquiryPrompt(
   workshop: { name: string | null; description: string | null; businessContext: string | null; industry: string | null; dreamTrack: string | null; targetDomain: string | null },
   scratchpad: Record<string, unknown>,
+  includeCommercial: boolean,
 ): string {
   const sections: string[] = [];
 
@@ -170,6 +171,7 @@ function buildScratchpadInquiryPrompt(
   ];
 
   for (const tab of tabSummaries) {
+    if (tab.key === 'commercialContent' && !includeCommercial) continue;
     const data = scratchpad[tab.key] as Record<string, unknown> | null;
     if (!data) continue;
     const aiSummary = data._aiSummary as string | undefined;
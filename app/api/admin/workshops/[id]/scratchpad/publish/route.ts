@@ -3,6 +3,7 @@ import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { publishWorkshopLifecycleEvent, workshopAdminUrl } from '@/lib/webhooks/dispatch';
 
 export async function POST(
   _request: NextRequest,
@@ -32,6 +33,13 @@ export async function POST(
       logAuditEvent({ organizationId: user.organizationId, userId: user.userId ?? undefined, action: 'PUBLISH_OUTPUT', resourceType: 'workshop', resourceId: workshopId, success: true }).catch(err => console.error('[audit] publish_output:', err));
     }
 
+    await publishWorkshopLifecycleEvent(workshopId, 'scratchpad.published', {
+      scratchpadId: scratchpad.id,
+      publishedAt: scratchpad.publishedAt?.toISOString() ?? new Date().toISOString(),
+      publishedBy: user.userId ?? null,
+      url: workshopAdminUrl(workshopId, '/scratchpad'),
+    });
+
     return NextResponse.json({ scratchpad });
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -1,11 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth/require-auth';
-import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { hasWorkshopPermission, validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { prisma } from '@/lib/prisma';
 import bcrypt from 'bcryptjs';
 import { logAuditEvent } from '@/lib/audit/audit-logger';
 import { PatchScratchpadSchema, zodError } from '@/lib/validation/schemas';
 
+/** Drop the password hash, and the commercial section unless the user holds commercial:view */
+function visibleScratchpad<T extends { commercialPassword: string | null; commercialContent: unknown }>(
+  scratchpad: T,
+  canViewCommercial: boolean,
+) {
+  const { commercialPassword: _hash, commercialContent, ...rest } = scratchpad;
+  return canViewCommercial ? { ...rest, commercialContent } : rest;
+}
+
 export async function GET(
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -27,15 +36,16 @@ export async function GET(
 
     // Return null scratchpad if not found (instead of 404)
     // This allows the UI to handle creation
+    // Commercial access is a workshop permission, not a shared password
+    const canViewCommercial = hasWorkshopPermission(access, 'commercial:view');
     if (scratchpad) {
-      // Strip the bcrypt hash — never send it to the client
-      const { commercialPassword, ...rest } = scratchpad;
       return NextResponse.json({
-        scratchpad: rest,
-        hasCommercialPassword: !!commercialPassword,
+        scratchpad: visibleScratchpad(scratchpad, canViewCommercial),
+        hasCommercialPassword: !!scratchpad.commercialPassword,
+        canViewCommercial,
       });
     }
-    return NextResponse.json({ scratchpad: null, hasCommercialPassword: false });
+    return NextResponse.json({ scratchpad: null, hasCommercialPassword: false, canViewCommercial });
   } catch (error) {
     console.error('Failed to fetch scratchpad:', error);
     return NextResponse.json(
@@ -65,6 +75,11 @@ export async function PATCH(
     if (!parsed.success) return zodError(parsed.error);
     const body = parsed.data;
 
+    const canViewCommercial = hasWorkshopPermission(access, 'commercial:view');
+    if (body.commercialContent !== undefined && !canViewCommercial) {
+      return NextResponse.json({ error: 'Editing the commercial section requires the commercial:view permission' }, { status: 403 });
+    }
+
     // Cast to any for Prisma JSON fields — Zod validates structure, Prisma handles storage
     const b = body as Record<string, any>;
     const scratchpad = await prisma.workshopScratchpad.update({
@@ -87,7 +102,7 @@ export async function PATCH(
       logAuditEvent({ organizationId: auth.organizationId, userId: auth.userId ?? undefined, action: 'UPDATE_OUTPUT', resourceType: 'workshop', resourceId: workshopId, success: true }).catch(err => console.error('[audit] update_output:', err));
     }
 
-    return NextResponse.json({ scratchpad });
+    return NextResponse.json({ scratchpad: visibleScratchpad(scratchpad, canViewCommercial) });
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     console.error('[scratchpad-update] Failed to update scratchpad:', message);
@@ -118,6 +133,11 @@ export async function POST(
     if (!parsedPost.success) return zodError(parsedPost.error);
     const body = parsedPost.data;
 
+    const canViewCommercial = hasWorkshopPermission(access, 'commercial:view');
+    if ((body.commercialContent !== undefined || body.commercialPassword !== undefined) && !canViewCommercial) {
+      return NextResponse.json({ error: 'Editing the commercial section requires the commercial:view permission' }, { status: 403 });
+    }
+
     // Check if scratchpad already exists
     const existing = await prisma.workshopScratchpad.findUnique({
       where: { workshopId },
@@ -155,7 +175,7 @@ export async function POST(
       },
     });
 
-    return NextResponse.json({ scratchpad });
+    return NextResponse.json({ scratchpad: visibleScratchpad(scratchpad, canViewCommercial) });
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     console.error('[scratchpad-create] Failed to create scratchpad:', message);
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import bcrypt from 'bcryptjs';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
-import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { hasWorkshopPermission, validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { SetCommercialPasswordSchema, zodError } from '@/lib/validation/schemas';
 
 export async function POST(
@@ -19,6 +19,10 @@ export async function POST(
     if (!access.valid) {
       return NextResponse.json({ error: access.error }, { status: 403 });
     }
+    // The password now only protects the offline HTML export's commercial tab
+    if (!hasWorkshopPermission(access, 'commercial:view')) {
+      return NextResponse.json({ error: 'You do not have the commercial:view permission on this workshop' }, { status: 403 });
+    }
     const rawBody = await request.json().catch(() => null);
     const parsed = SetCommercialPasswordSchema.safeParse(rawBody);
     if (!parsed.success) return zodError(parsed.error);
@@ -1,26 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
-import bcrypt from 'bcryptjs';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
-import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
-import { strictLimiter } from '@/lib/rate-limit';
-
+import { hasWorkshopPermission, validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+
+/**
+ * Commercial section access check.
+ *
+ * Access used to be a password shared between facilitators; it is now the
+ * commercial:view workshop permission (lib/auth/workshop-permissions.ts).
+ * The commercial password only protects the offline HTML export.
+ */
 export async function POST(
-  request: NextRequest,
+  _request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id: workshopId } = await params;
 
-    // Rate limit: 5 attempts per minute per workshop
-    const rl = await strictLimiter.check(5, `commercial-pwd:${workshopId}`);
-    if (!rl.success) {
-      return NextResponse.json(
-        { error: 'Too many attempts. Please try again later.' },
-        { status: 429 }
-      );
-    }
-
     const user = await getAuthenticatedUser();
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -29,42 +24,19 @@ export async function POST(
     if (!access.valid) {
       return NextResponse.json({ error: access.error }, { status: 403 });
     }
-    const body = await request.json();
-    const { password } = body;
-
-    if (!password) {
-      return NextResponse.json(
-        { error: 'Password is required' },
-        { status: 400 }
-      );
-    }
-
-    const scratchpad = await prisma.workshopScratchpad.findUnique({
-      where: { workshopId },
-      select: { commercialPassword: true },
-    });
-
-    if (!scratchpad || !scratchpad.commercialPassword) {
-      return NextResponse.json(
-        { error: 'No password set for commercial section' },
-        { status: 400 }
-      );
-    }
-
-    const isValid = await bcrypt.compare(password, scratchpad.commercialPassword);
 
-    if (!isValid) {
+    if (!hasWorkshopPermission(access, 'commercial:view')) {
       return NextResponse.json(
-        { error: 'Invalid password' },
-        { status: 401 }
+        { error: 'You do not have the commercial:view permission on this workshop' },
+        { status: 403 }
       );
     }
 
     return NextResponse.json({ success: true });
   } catch (error) {
-    console.error('Failed to verify password:', error);
+    console.error('Failed to verify commercial access:', error);
     return NextResponse.json(
-      { error: 'Failed to verify password' },
+      { error: 'Failed to verify commercial access' },
       { status: 500 }
     );
   }
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
-import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
-import { CreateShareSchema, DeleteShareSchema, zodError } from '@/lib/validation/schemas';
+import { hasWorkshopPermission, validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { permissionsForSets } from '@/lib/auth/workshop-permissions';
+import { CreateShareSchema, DeleteShareSchema, UpdateShareSchema, zodError } from '@/lib/validation/schemas';
 
 export const dynamic = 'force-dynamic';
 
@@ -10,7 +12,7 @@ type RouteContext = { params: Promise<{ id: string }> };
 
 /**
  * GET /api/admin/workshops/[id]/shares
- * List all users this workshop is shared with.
+ * List all users this workshop is shared with, with their permission sets.
  */
 export async function GET(_request: NextRequest, context: RouteContext) {
   try {
@@ -37,6 +39,8 @@ export async function GET(_request: NextRequest, context: RouteContext) {
         userId: s.user.id,
         userName: s.user.name,
         userEmail: s.user.email,
+        permissionSets: s.permissionSets,
+        permissions: permissionsForSets(s.permissionSets),
         createdAt: s.createdAt.toISOString(),
       })),
     });
@@ -48,8 +52,9 @@ export async function GET(_request: NextRequest, context: RouteContext) {
 
 /**
  * POST /api/admin/workshops/[id]/shares
- * Share a workshop with another user in the same organisation.
- * Body: { email: string }
+ * Share a workshop with another user in the same organisation, or replace
+ * the permission sets of an existing share.
+ * Body: { email: string, permissionSets?: string[] } — defaults to facilitator
  */
 export async function POST(request: NextRequest, context: RouteContext) {
   try {
@@ -61,11 +66,14 @@ export async function POST(request: NextRequest, context: RouteContext) {
     if (!access.valid) {
       return NextResponse.json({ error: access.error }, { status: 403 });
     }
+    if (!hasWorkshopPermission(access, 'workshop:manage')) {
+      return NextResponse.json({ error: 'You do not have the workshop:manage permission on this workshop' }, { status: 403 });
+    }
 
     const rawBody = await request.json().catch(() => null);
     const parsed = CreateShareSchema.safeParse(rawBody);
     if (!parsed.success) return zodError(parsed.error);
-    const { email } = parsed.data;
+    const { email, permissionSets } = parsed.data;
 
     // Find the workshop to get the organisation
     const workshop = await prisma.workshop.findUnique({
@@ -104,20 +112,33 @@ export async function POST(request: NextRequest, context: RouteContext) {
       where: {
         workshopId_userId: { workshopId, userId: targetUser.id },
       },
-      update: {},
+      update: { permissionSets },
       create: {
         workshopId,
         userId: targetUser.id,
         sharedById: user.userId,
+        permissionSets,
       },
     });
 
+    logAuditEvent({
+      organizationId: workshop.organizationId,
+      userId: user.userId,
+      userEmail: user.email,
+      action: 'UPDATE_WORKSHOP_PERMISSIONS',
+      resourceType: 'Workshop',
+      resourceId: workshopId,
+      metadata: { targetUserId: targetUser.id, permissionSets },
+    }).catch((err) => console.error('[audit] update_workshop_permissions:', err));
+
     return NextResponse.json({
       share: {
         id: share.id,
         userId: targetUser.id,
         userName: targetUser.name,
         userEmail: targetUser.email,
+        permissionSets: share.permissionSets,
+        permissions: permissionsForSets(share.permissionSets),
       },
     });
   } catch (error) {
@@ -126,6 +147,54 @@ export async function POST(request: NextRequest, context: RouteContext) {
   }
 }
 
+/**
+ * PATCH /api/admin/workshops/[id]/shares
+ * Replace the permission sets of a share. Body: { shareId: string, permissionSets: string[] }
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const user = await getAuthenticatedUser();
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { id: workshopId } = await context.params;
+    const access = await validateWorkshopAccess(workshopId, user.organizationId, user.role, user.userId);
+    if (!access.valid) {
+      return NextResponse.json({ error: access.error }, { status: 403 });
+    }
+    if (!hasWorkshopPermission(access, 'workshop:manage')) {
+      return NextResponse.json({ error: 'You do not have the workshop:manage permission on this workshop' }, { status: 403 });
+    }
+
+    const rawBody = await request.json().catch(() => null);
+    const parsed = UpdateShareSchema.safeParse(rawBody);
+    if (!parsed.success) return zodError(parsed.error);
+    const { shareId, permissionSets } = parsed.data;
+
+    const share = await prisma.workshopShare.update({
+      where: { id: shareId, workshopId },
+      data: { permissionSets },
+      select: { id: true, userId: true, permissionSets: true },
+    });
+
+    logAuditEvent({
+      organizationId: access.workshop!.organizationId,
+      userId: user.userId,
+      userEmail: user.email,
+      action: 'UPDATE_WORKSHOP_PERMISSIONS',
+      resourceType: 'Workshop',
+      resourceId: workshopId,
+      metadata: { targetUserId: share.userId, permissionSets },
+    }).catch((err) => console.error('[audit] update_workshop_permissions:', err));
+
+    return NextResponse.json({
+      share: { ...share, permissions: permissionsForSets(share.permissionSets) },
+    });
+  } catch (error) {
+    console.error('Error updating share:', error);
+    return NextResponse.json({ error: 'Failed to update share' }, { status: 500 });
+  }
+}
+
 /**
  * DELETE /api/admin/workshops/[id]/shares
  * Remove a share. Body: { shareId: string }
@@ -140,6 +209,9 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
     if (!access.valid) {
       return NextResponse.json({ error: access.error }, { status: 403 });
     }
+    if (!hasWorkshopPermission(access, 'workshop:manage')) {
+      return NextResponse.json({ error: 'You do not have the workshop:manage permission on this workshop' }, { status: 403 });
+    }
 
     const rawBody = await request.json().catch(() => null);
     const parsedDelete = DeleteShareSchema.safeParse(rawBody);
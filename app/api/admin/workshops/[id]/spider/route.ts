@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { decryptTenantRecords } from '@/lib/workshop-encryption';
 import { fixedQuestionsForVersion, getPhaseOrder } from '@/lib/conversation/fixed-questions';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
@@ -236,7 +237,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
         ? blueprint.lenses.map((l: { name: string }) => ({ key: l.name, label: l.name }))
         : getDimensionNames(workshopAny.prepResearch).map((n: string) => ({ key: n, label: n }));
 
-    const sessionsAll = await prisma.conversationSession.findMany({
+    const rawSessions = await prisma.conversationSession.findMany({
       where: {
         workshopId,
         runType,
@@ -262,6 +263,10 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       },
       orderBy: { createdAt: 'desc' },
     });
+    const sessionsAll = await Promise.all(rawSessions.map(async (session) => ({
+      ...session,
+      messages: await decryptTenantRecords('conversationMessage', session.messages),
+    })));
 
     const filteredSessions =
       focus === 'MASTER'
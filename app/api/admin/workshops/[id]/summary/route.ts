@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { readBlueprintFromJson } from '@/lib/workshop/blueprint';
 import { getDimensionNames } from '@/lib/cognition/workshop-dimensions';
+import { getLLMClient } from '@/lib/llm';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 
 type WorkshopSummary = {
   workshopId: string;
@@ -20,7 +21,7 @@ type WorkshopSummary = {
   };
 };
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+const llm = getLLMClient('workshop-summary');
 
 function safeString(value: unknown): string {
   return typeof value === 'string' ? value.trim() : '';
@@ -220,7 +221,7 @@ export async function POST(_request: NextRequest, { params }: { params: Promise<
       liveTexts,
     });
 
-    if (!process.env.OPENAI_API_KEY) {
+    if (!llm.isConfigured()) {
       const fallback = fallbackSummary(workshopId, workshop.name, lensNames);
       fallback.sources.reportCount = reports.length;
       fallback.sources.dataPointCount = dataPoints.length;
@@ -250,8 +251,8 @@ export async function POST(_request: NextRequest, { params }: { params: Promise<
       '}',
     ].join('\n');
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const completion = await withOrganizationLLMConfig(access.workshop?.organizationId, () => llm.chat({
+      tier: 'fast',
       temperature: 0.2,
       messages: [
         { role: 'system', content: systemPrompt },
@@ -260,10 +261,10 @@ export async function POST(_request: NextRequest, { params }: { params: Promise<
           content: `Discovery interview source material (${reportSummaries.length} participant reports, ${dataPointTexts.length} data points):\n\n${notes}`,
         },
       ],
-      response_format: { type: 'json_object' },
-    });
+      responseFormat: 'json',
+    }));
 
-    const raw = completion.choices?.[0]?.message?.content || '{}';
+    const raw = completion.content || '{}';
     let parsed: { visionStatement?: unknown; executiveSummary?: unknown; lenses?: unknown } = {};
     try {
       parsed = JSON.parse(raw) as { visionStatement?: unknown; executiveSummary?: unknown; lenses?: unknown };
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { synthesizeThemesAgentically } from '@/lib/agents/workshop-analyst-agent';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 
@@ -111,11 +112,13 @@ export async function POST(
     console.log('[Workshop Synthesis] Calling synthesizeThemesAgentically with', utterances.length, 'utterances');
 
     // 5. Call synthesis function with proper parameters
-    const synthesis = await synthesizeThemesAgentically({
-      utterances,
-      workshopGoal: workshop.businessContext || workshop.description || workshop.name,
-      currentPhase: phase || 'REIMAGINE',
-    });
+    const synthesis = await withOrganizationLLMConfig(access.workshop?.organizationId, () =>
+      synthesizeThemesAgentically({
+        utterances,
+        workshopGoal: workshop.businessContext || workshop.description || workshop.name,
+        currentPhase: phase || 'REIMAGINE',
+      }),
+    );
 
     console.log('[Workshop Synthesis] Synthesis complete');
 
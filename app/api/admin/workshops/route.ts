@@ -1,38 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getSession } from '@/lib/auth/session';
-import { resolveIndustryPack } from '@/lib/domain-packs';
-import { generateBlueprint } from '@/lib/cognition/workshop-blueprint-generator';
-import type { EngagementType } from '@prisma/client';
 import { auditLog, getClientIp } from '@/lib/audit/log-action';
-import { encryptWorkshopData } from '@/lib/workshop-encryption';
+import { createWorkshop } from '@/lib/workshop/create-workshop';
 import { CreateWorkshopSchema, zodError } from '@/lib/validation/schemas';
 
 export const dynamic = 'force-dynamic';
 
-function toEngagementEnum(value: unknown): EngagementType | undefined {
-  if (typeof value !== 'string' || !value.trim()) return undefined;
-  const normalized = value.trim().toUpperCase();
-  const valid: EngagementType[] = [
-    'DIAGNOSTIC_BASELINE',
-    'OPERATIONAL_DEEP_DIVE',
-    'AI_ENABLEMENT',
-    'TRANSFORMATION_SPRINT',
-    'CULTURAL_ALIGNMENT',
-    'GO_TO_MARKET',
-  ];
-  if (valid.includes(normalized as EngagementType)) {
-    return normalized as EngagementType;
-  }
-
-  // Accept UI keys like "operational_deep_dive"
-  const fromKey = normalized.replace(/[^A-Z0-9_]/g, '_');
-  if (valid.includes(fromKey as EngagementType)) {
-    return fromKey as EngagementType;
-  }
-  return undefined;
-}
-
 export async function GET(request: NextRequest) {
   try {
     const session = await getSession();
@@ -180,66 +154,13 @@ export async function POST(request: NextRequest) {
     const parsed = CreateWorkshopSchema.safeParse(rawBody);
     if (!parsed.success) return zodError(parsed.error);
 
-    const {
-      name, description, businessContext, workshopType,
-      scheduledDate, responseDeadline, includeRegulation,
-      clientName, industry, companyWebsite, dreamTrack, targetDomain,
-      engagementType,
-    } = parsed.data;
-
     const organizationId = session.organizationId!;
 
     if (!organizationId) {
       return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
     }
 
-    const normalizedEngagementType = toEngagementEnum(engagementType);
-
-    // Resolve industry-specific domain pack from industry + engagement type + dream track.
-    // This replaces the old manual domainPack key selection.
-    const resolvedPack = resolveIndustryPack(industry, engagementType, dreamTrack);
-
-    // Generate domain-aware runtime blueprint from setup selections.
-    // clientName is included so industry detection (e.g. airline) can
-    // fire even when the industry field is not explicitly set.
-    const blueprint = generateBlueprint({
-      industry: industry || null,
-      dreamTrack: dreamTrack || null,
-      engagementType: engagementType || null,
-      domainPack: resolvedPack?.key || null,
-      purpose: description || null,
-      outcomes: businessContext || null,
-      clientName: clientName || null,
-    });
-
-    const workshopData = {
-      name,
-      description,
-      businessContext,
-      workshopType: workshopType || 'CUSTOM',
-      includeRegulation: includeRegulation ?? true,
-      scheduledDate: scheduledDate ? new Date(scheduledDate) : undefined,
-      responseDeadline: responseDeadline ? new Date(responseDeadline) : undefined,
-      organizationId,
-      createdById: session.userId,
-      // DREAM prep fields
-      clientName: clientName || undefined,
-      industry: industry || undefined,
-      companyWebsite: companyWebsite || undefined,
-      dreamTrack: dreamTrack || undefined,
-      targetDomain: targetDomain || undefined,
-      // Field Discovery / Diagnostic extension
-      engagementType: normalizedEngagementType,
-      // domainPack column is for legacy pack keys only (contact_centre, enterprise, etc.)
-      // Industry packs are fully represented in domainPackConfig — never write an industry
-      // pack key into domainPack or it pollutes every downstream key-based discriminator.
-      domainPack: undefined,
-      domainPackConfig: resolvedPack ? (resolvedPack as any) : undefined,
-      // Runtime blueprint snapshot
-      blueprint: blueprint as any,
-    };
-
-    const workshop = await prisma.workshop.create({ data: encryptWorkshopData(workshopData) });
+    const workshop = await createWorkshop(parsed.data, { organizationId, createdById: session.userId });
 
     auditLog({
       organizationId,
@@ -8,6 +8,7 @@ import { createSessionToken, type SessionPayload } from '@/lib/auth/session';
 import { logAuditEvent } from '@/lib/audit/audit-logger';
 import { isMfaRequired, requiresMfa, decryptTotpSecret, verifyTotp } from '@/lib/auth/mfa';
 import { SignJWT, jwtVerify } from 'jose';
+import { isSsoEnforced } from '@/lib/auth/sso/login';
 
 const MAX_FAILED_ATTEMPTS = 5;
 const LOCKOUT_DURATION_MINUTES = 15;
@@ -263,6 +264,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Organisations that enforce SSO sign in through their IdP. Tenant admins
+    // keep password login as a break-glass route if the IdP is unavailable.
+    if (user.role === 'TENANT_USER' && await isSsoEnforced(user.organizationId)) {
+      await prisma.loginAttempt.create({
+        data: {
+          email: email.toLowerCase().trim(),
+          success: false,
+          ipAddress,
+          userAgent,
+          failureReason: 'SSO required',
+        },
+      });
+      return NextResponse.json(
+        { error: 'Your organisation signs in with single sign-on.', ssoRequired: true },
+        { status: 403 }
+      );
+    }
+
     const passwordMatch = await bcrypt.compare(password, user.password);
 
     if (!passwordMatch) {
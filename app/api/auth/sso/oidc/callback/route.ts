@@ -0,0 +1,53 @@
+/**
+ * GET /api/auth/sso/oidc/callback
+ *
+ * OIDC redirect URI. Checks the sealed state against this browser's
+ * sso-binding cookie, exchanges the code (PKCE), verifies the id_token and
+ * signs the user in — see lib/auth/sso/login.ts.
+ */
+
+import { NextRequest } from 'next/server';
+import { findSsoConnection, finishSsoLogin, oidcRedirectUri, ssoErrorRedirect } from '@/lib/auth/sso/login';
+import { completeOidcLogin } from '@/lib/auth/sso/oidc';
+import { SSO_BINDING_COOKIE, bindingMatches, openSsoState } from '@/lib/auth/sso/state';
+import { SsoError } from '@/lib/auth/sso/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+
+  const idpError = params.get('error');
+  if (idpError) {
+    console.warn('[SSO] IdP returned an error:', idpError, params.get('error_description'));
+    return ssoErrorRedirect('Sign-in was cancelled or refused by your identity provider');
+  }
+
+  const code = params.get('code');
+  const state = await openSsoState(params.get('state') ?? '');
+  if (!code || !state?.nonce || !state.codeVerifier) {
+    return ssoErrorRedirect('Your sign-in link has expired. Please try again.');
+  }
+  if (!bindingMatches(state, request.cookies.get(SSO_BINDING_COOKIE)?.value)) {
+    return ssoErrorRedirect('Please start the sign-in again from this browser.');
+  }
+
+  try {
+    const connection = await findSsoConnection({ id: state.connectionId });
+    if (!connection || connection.organizationId !== state.organizationId || connection.protocol !== 'oidc') {
+      return ssoErrorRedirect('Single sign-on is no longer enabled for this organisation');
+    }
+
+    const identity = await completeOidcLogin(connection, {
+      code,
+      nonce: state.nonce,
+      codeVerifier: state.codeVerifier,
+      redirectUri: oidcRedirectUri(),
+    });
+    return await finishSsoLogin(request, connection, identity, state);
+  } catch (error) {
+    if (error instanceof SsoError) return ssoErrorRedirect(error.message);
+    console.error('[SSO] OIDC callback failed:', error);
+    return ssoErrorRedirect('Single sign-on failed. Please try again.');
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * POST /api/auth/sso/saml/acs
+ *
+ * SAML assertion consumer service (HTTP-POST binding). The RelayState carries
+ * the sealed flow state, including the AuthnRequest ID the response must
+ * answer; the assertion is validated against the organisation's IdP
+ * certificate and the user signed in — see lib/auth/sso/login.ts.
+ */
+
+import { NextRequest } from 'next/server';
+import { findSsoConnection, finishSsoLogin, ssoErrorRedirect } from '@/lib/auth/sso/login';
+import { completeSamlLogin } from '@/lib/auth/sso/saml';
+import { SSO_BINDING_COOKIE, bindingMatches, openSsoState } from '@/lib/auth/sso/state';
+import { SsoError } from '@/lib/auth/sso/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const form = await request.formData().catch(() => null);
+  const samlResponse = form?.get('SAMLResponse');
+  const relayState = form?.get('RelayState');
+  if (typeof samlResponse !== 'string' || typeof relayState !== 'string') {
+    return ssoErrorRedirect('Your identity provider sent an incomplete response');
+  }
+
+  const state = await openSsoState(relayState);
+  if (!state?.requestId) {
+    // Also rejects IdP-initiated logins, which carry no state of ours
+    return ssoErrorRedirect('Your sign-in link has expired. Please start the sign-in from this site.');
+  }
+  if (!bindingMatches(state, request.cookies.get(SSO_BINDING_COOKIE)?.value)) {
+    return ssoErrorRedirect('Please start the sign-in again from this browser.');
+  }
+
+  try {
+    const connection = await findSsoConnection({ id: state.connectionId });
+    if (!connection || connection.organizationId !== state.organizationId || connection.protocol !== 'saml') {
+      return ssoErrorRedirect('Single sign-on is no longer enabled for this organisation');
+    }
+
+    const identity = await completeSamlLogin(connection, { samlResponse, requestId: state.requestId });
+    return await finishSsoLogin(request, connection, identity, state);
+  } catch (error) {
+    if (error instanceof SsoError) return ssoErrorRedirect(error.message);
+    console.error('[SSO] SAML ACS failed:', error);
+    return ssoErrorRedirect('Single sign-on failed. Please try again.');
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * GET /api/auth/sso/saml/metadata?organizationId=…
+ *
+ * SAML service-provider metadata for one organisation. Its URL is also the
+ * organisation's SP entity ID. Public, as IdPs fetch it unauthenticated.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { samlServiceProviderMetadata } from '@/lib/auth/sso/saml';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const organizationId = request.nextUrl.searchParams.get('organizationId');
+  if (!organizationId) return NextResponse.json({ error: 'organizationId is required' }, { status: 400 });
+
+  const organization = await prisma.organization.findUnique({ where: { id: organizationId }, select: { id: true } });
+  if (!organization) return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+
+  return new NextResponse(samlServiceProviderMetadata(organization.id), {
+    headers: { 'Content-Type': 'application/samlmetadata+xml; charset=utf-8' },
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * /api/auth/sso/start
+ *
+ * Begin single sign-on with the organisation's identity provider.
+ *
+ *   POST { email } | { organizationId } — from the login form; returns { redirectUrl }
+ *   GET  ?organizationId=…              — bookmarkable link / IdP app tile; redirects
+ *
+ * Either way a short-lived sso-binding cookie ties the flow to this browser.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authLimiter } from '@/lib/rate-limit';
+import { findSsoConnection, getIpAddress, setSsoBindingCookie, ssoErrorRedirect, startSsoLogin } from '@/lib/auth/sso/login';
+import { StartSsoSchema, zodError } from '@/lib/validation/schemas';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const rawBody = await request.json().catch(() => null);
+  const parsed = StartSsoSchema.safeParse(rawBody);
+  if (!parsed.success) return zodError(parsed.error);
+
+  const rl = await authLimiter.check(20, `sso-start:${getIpAddress(request)}`);
+  if (!rl.success) {
+    return NextResponse.json(
+      { error: 'Too many login attempts. Please try again later.' },
+      { status: 429, headers: { 'Retry-After': Math.ceil((rl.reset - Date.now()) / 1000).toString() } }
+    );
+  }
+
+  const { email, organizationId, returnTo } = parsed.data;
+  try {
+    const connection = await findSsoConnection(email ? { email } : { organizationId: organizationId! });
+    if (!connection) {
+      return NextResponse.json({ error: 'Single sign-on is not set up for this account' }, { status: 404 });
+    }
+
+    const { url, binding } = await startSsoLogin(connection, { loginHint: email, returnTo: returnTo ?? undefined });
+    const response = NextResponse.json({ redirectUrl: url, protocol: connection.protocol });
+    setSsoBindingCookie(response, connection, binding);
+    return response;
+  } catch (error) {
+    console.error('[SSO] Failed to start login:', error);
+    return NextResponse.json({ error: 'Could not reach your identity provider. Please try again.' }, { status: 502 });
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const organizationId = request.nextUrl.searchParams.get('organizationId');
+  if (!organizationId) return ssoErrorRedirect('Single sign-on link is missing the organisation');
+
+  try {
+    const connection = await findSsoConnection({ organizationId });
+    if (!connection) return ssoErrorRedirect('Single sign-on is not set up for this organisation');
+
+    const { url, binding } = await startSsoLogin(connection, {
+      returnTo: request.nextUrl.searchParams.get('returnTo') ?? undefined,
+    });
+    const response = NextResponse.redirect(url, 302);
+    setSsoBindingCookie(response, connection, binding);
+    return response;
+  } catch (error) {
+    console.error('[SSO] Failed to start login:', error);
+    return ssoErrorRedirect('Could not reach your identity provider. Please try again.');
+  }
+}
@@ -5,6 +5,7 @@ import * as bcrypt from 'bcryptjs';
 import { nanoid } from 'nanoid';
 import { authLimiter } from '@/lib/rate-limit';
 import { createSessionToken, type SessionPayload } from '@/lib/auth/session';
+import { isSsoEnforced } from '@/lib/auth/sso/login';
 
 const MAX_FAILED_ATTEMPTS = 5;
 const LOCKOUT_DURATION_MINUTES = 15;
@@ -79,6 +80,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // SSO-enforced organisations: tenant users sign in through their IdP
+    if (user.role === 'TENANT_USER' && await isSsoEnforced(user.organizationId)) {
+      await logLoginAttempt(user.id, email, ipAddress, userAgent, false, 'SSO required');
+      return NextResponse.json(
+        { error: 'Your organisation signs in with single sign-on.', ssoRequired: true },
+        { status: 403 }
+      );
+    }
+
     // Verify password
     const passwordMatch = await bcrypt.compare(password, user.password);
 
@@ -6,9 +6,11 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
 import { verifyCaptureToken } from '@/lib/field-discovery/capture-token-auth';
 import { getCaptureSession } from '@/lib/field-discovery/capture-session-manager';
 import { extractFindings } from '@/lib/field-discovery/field-extraction-agent';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 120;
@@ -37,13 +39,19 @@ export async function POST(
       );
     }
 
-    const result = await extractFindings({
-      sessionId,
-      workshopId: auth.workshopId,
-      captureType: session.captureType,
-      actorRole: session.actorRole,
-      area: session.area,
+    const workshop = await prisma.workshop.findUnique({
+      where: { id: auth.workshopId },
+      select: { organizationId: true },
     });
+    const result = await withOrganizationLLMConfig(workshop?.organizationId, () =>
+      extractFindings({
+        sessionId,
+        workshopId: auth.workshopId,
+        captureType: session.captureType,
+        actorRole: session.actorRole,
+        area: session.area,
+      }),
+    );
 
     return NextResponse.json({ result });
   } catch (error) {
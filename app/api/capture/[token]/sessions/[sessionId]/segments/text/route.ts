@@ -12,6 +12,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { verifyCaptureToken } from '@/lib/field-discovery/capture-token-auth';
 import { getCaptureSession } from '@/lib/field-discovery/capture-session-manager';
 import { prisma } from '@/lib/prisma';
+import { encryptTenantFields } from '@/lib/workshop-encryption';
+import { redactPii } from '@/lib/pii/vault';
 
 export const dynamic = 'force-dynamic';
 
@@ -50,6 +52,8 @@ export async function POST(
       return NextResponse.json({ error: 'transcript is required and must be a string' }, { status: 400 });
     }
 
+    const redactedTranscript = await redactPii(auth.workshopId, transcript);
+
     const startTimeMs = startedAt ? BigInt(new Date(String(startedAt)).getTime()) : null;
     const endTimeMs = stoppedAt ? BigInt(new Date(String(stoppedAt)).getTime()) : null;
 
@@ -58,12 +62,12 @@ export async function POST(
       where: { captureSessionId: sessionId, segmentIndex },
     });
 
-    const segmentData = {
-      transcript: transcript as string,
+    const segmentData = await encryptTenantFields('captureSegment', { workshopId: auth.workshopId }, {
+      transcript: redactedTranscript,
       status: 'TRANSCRIBED' as const,
       startTimeMs,
       endTimeMs,
-    };
+    });
 
     if (existingSegment) {
       await prisma.captureSegment.update({ where: { id: existingSegment.id }, data: segmentData });
@@ -87,7 +91,7 @@ export async function POST(
       });
     }
 
-    return NextResponse.json({ transcript, segmentIndex });
+    return NextResponse.json({ transcript: redactedTranscript, segmentIndex });
   } catch (error) {
     console.error('[capture/segments/text] Unexpected error:', error);
     return NextResponse.json({ error: 'Failed to save text segment' }, { status: 500 });
@@ -11,6 +11,8 @@ import { verifyCaptureToken } from '@/lib/field-discovery/capture-token-auth';
 import { getCaptureSession } from '@/lib/field-discovery/capture-session-manager';
 import { transcribeAudio } from '@/lib/captureapi/client';
 import { prisma } from '@/lib/prisma';
+import { encryptTenantFields } from '@/lib/workshop-encryption';
+import { redactCaptureResult } from '@/lib/pii/vault';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 120;
@@ -71,19 +73,21 @@ export async function POST(
       console.error('[capture/transcribe] CaptureAPI failed:', failureMessage);
     }
 
+    if (transcriptionResult) await redactCaptureResult(auth.workshopId, transcriptionResult);
+
     // Upsert CaptureSegment
     const existingSegment = await prisma.captureSegment.findFirst({
       where: { captureSessionId: sessionId, segmentIndex },
     });
 
-    const segmentData = {
+    const segmentData = await encryptTenantFields('captureSegment', { workshopId: auth.workshopId }, {
       transcript: transcriptionFailed
         ? null
         : (transcriptionResult?.transcription.cleanText ?? null),
       status: transcriptionFailed ? 'FAILED' : 'TRANSCRIBED',
       startTimeMs,
       endTimeMs,
-    };
+    });
 
     if (existingSegment) {
       await prisma.captureSegment.update({ where: { id: existingSegment.id }, data: segmentData });
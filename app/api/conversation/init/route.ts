@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { decryptTenantRecords, encryptTenantFields } from '@/lib/workshop-encryption';
 import { strictLimiter } from '@/lib/rate-limit';
 import { readBlueprintFromJson } from '@/lib/workshop/blueprint';
 import {
@@ -141,9 +142,9 @@ export async function POST(request: NextRequest) {
       });
 
       await prisma.conversationMessage.create({
-        data: {
+        data: await encryptTenantFields('conversationMessage', { organizationId: participant.workshop.organizationId }, {
           sessionId: createdSession.id,
-          role: 'AI',
+          role: 'AI' as const,
           content: firstMessage,
           phase: 'intro',
           metadata: firstQuestionObj
@@ -155,7 +156,7 @@ export async function POST(request: NextRequest) {
                 maturityScale: firstQuestionObj.maturityScale,
               }
             : undefined,
-        },
+        }),
       });
 
       const refetchedSession = await (prisma as any).conversationSession.findUnique({
@@ -184,7 +185,7 @@ export async function POST(request: NextRequest) {
         includeRegulation: refetchedSession.includeRegulation,
         lensLabels: getLensLabels(participant.workshop),
         organization: participant.workshop.organization,
-        messages: (refetchedSession.messages || []).map((msg: any) => ({
+        messages: (await decryptTenantRecords('conversationMessage', refetchedSession.messages || [])).map((msg: any) => ({
           id: msg.id,
           role: msg.role,
           content: msg.content,
@@ -287,9 +288,9 @@ export async function POST(request: NextRequest) {
       }
 
       await prisma.conversationMessage.create({
-        data: {
+        data: await encryptTenantFields('conversationMessage', { organizationId: participant.workshop.organizationId }, {
           sessionId: session.id,
-          role: 'AI',
+          role: 'AI' as const,
           content: firstMessage,
           phase: 'intro',
           metadata: firstQuestionObj
@@ -301,7 +302,7 @@ export async function POST(request: NextRequest) {
                 maturityScale: firstQuestionObj.maturityScale,
               }
             : undefined,
-        },
+        }),
       });
 
       // Refetch session with messages
@@ -341,7 +342,7 @@ export async function POST(request: NextRequest) {
       includeRegulation: session.includeRegulation,
       lensLabels: getLensLabels(participant.workshop),
       organization: participant.workshop.organization,
-      messages: ((session as any).messages || []).map((msg: any) => ({
+      messages: (await decryptTenantRecords('conversationMessage', (session as any).messages || [])).map((msg: any) => ({
         id: msg.id,
         role: msg.role,
         content: msg.content,
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import OpenAI from 'openai';
+import { decryptTenantFields, decryptTenantRecords, decryptWorkshopData, encryptTenantFields } from '@/lib/workshop-encryption';
+import { getLLMClient, withLLMConfig } from '@/lib/llm';
+import { loadOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import {
   FixedQuestion,
   fixedQuestionsForVersion,
@@ -14,40 +16,17 @@ import {
   getPhaseOrder,
 } from '@/lib/conversation/fixed-questions';
 import { readBlueprintFromJson } from '@/lib/workshop/blueprint';
+import {
+  PIVOT_LANGUAGE,
+  normaliseLanguage,
+  pivotText,
+  translateToPivot,
+  translationMetadata,
+} from '@/lib/conversation/translation';
+import { buildQuestionMessage, localisePhrase } from '@/lib/conversation/question-localisation';
+import { publishWorkshopLifecycleEvent } from '@/lib/webhooks/dispatch';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-async function translateToEnglish(params: {
-  text: string;
-  sourceLanguage: string;
-}): Promise<string> {
-  const text = (params.text || '').trim();
-  const sourceLanguage = (params.sourceLanguage || 'en').trim() || 'en';
-
-  if (!text) return '';
-  if (sourceLanguage === 'en') return text;
-  if (!process.env.OPENAI_API_KEY) return text;
-
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
-    temperature: 0,
-    messages: [
-      {
-        role: 'system',
-        content:
-          'Translate the user text to English. Preserve meaning, intent, and any numbers/ratings exactly. Return ONLY the translated text (no quotes, no preface).',
-      },
-      {
-        role: 'user',
-        content: `Source language: ${sourceLanguage}\n\nText:\n${text}`,
-      },
-    ],
-  });
-
-  return (completion.choices?.[0]?.message?.content || '').trim() || text;
-}
+const llm = getLLMClient('conversation');
 
 function isClarificationQuestion(text: string): boolean {
   const t = text.trim().toLowerCase();
@@ -80,19 +59,21 @@ async function generateClarificationAnswer(params: {
   questionAsked: string;
   userQuestion: string;
   workshopContext: string | null | undefined;
+  language: string;
 }): Promise<string> {
-  if (!process.env.OPENAI_API_KEY) {
+  if (!llm.isConfigured()) {
     return "I can clarify. Please interpret the question in the way that best matches your role and experience, and answer in your own words.";
   }
 
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
+  const completion = await llm.chat({
+    tier: 'fast',
     temperature: 0.2,
     messages: [
       {
         role: 'system',
         content:
-          'You are a helpful facilitator. Answer the participant\'s clarification question concisely and practically. Do not introduce new discovery questions. Do not change the question sequence.',
+          'You are a helpful facilitator. Answer the participant\'s clarification question concisely and practically. Do not introduce new discovery questions. Do not change the question sequence.' +
+          (params.language === PIVOT_LANGUAGE ? '' : ` Reply in the participant's language (ISO 639-1 code "${params.language}").`),
       },
       {
         role: 'user',
@@ -102,7 +83,7 @@ async function generateClarificationAnswer(params: {
     ],
   });
 
-  const text = completion.choices?.[0]?.message?.content?.trim();
+  const text = completion.content.trim();
   return text || 'I can clarify. Please answer based on your experience and what you see day-to-day.';
 }
 
@@ -153,15 +134,18 @@ export async function POST(request: NextRequest) {
         ? (getPhaseOrderFromBlueprint(blueprint) as string[])
         : (getPhaseOrder(includeRegulation) as string[]);
 
-    const lastAiMessage = [...session.messages].reverse().find((m) => m.role === 'AI');
+    const tenant = { organizationId: session.workshop.organizationId };
+    const messages = await decryptTenantRecords('conversationMessage', session.messages);
+    const lastAiMessage = [...messages].reverse().find((m) => m.role === 'AI');
     const questionAsked = lastAiMessage?.content || '';
+    const sessionLanguage = normaliseLanguage(session.language);
+    const llmConfig = await loadOrganizationLLMConfig(session.workshop.organizationId);
 
     // If user sent a message, save it and analyze
     if (userMessage) {
-      const sessionLanguage = session.language || 'en';
-      const translatedToEnglish = await translateToEnglish({ text: userMessage, sourceLanguage: sessionLanguage }).catch(
-        () => userMessage
-      );
+      const translatedToEnglish = await withLLMConfig(llmConfig, () =>
+        translateToPivot({ text: userMessage, sourceLanguage: sessionLanguage })
+      ).catch(() => userMessage);
 
       const clarification = isClarificationQuestion(translatedToEnglish);
       const normalizedOriginal = userMessage.trim().toLowerCase();
@@ -171,28 +155,25 @@ export async function POST(request: NextRequest) {
 
       // Save user message
       await prisma.conversationMessage.create({
-        data: {
+        data: await encryptTenantFields('conversationMessage', tenant, {
           sessionId: session.id,
-          role: 'PARTICIPANT',
+          role: 'PARTICIPANT' as const,
           content: userMessage,
           phase: session.currentPhase,
           metadata: {
             ...(isSkipRegulation ? { kind: 'skip' } : clarification ? { kind: 'clarification' } : {}),
-            ...(sessionLanguage && sessionLanguage !== 'en'
-              ? {
-                  translation: {
-                    sourceLanguage: sessionLanguage,
-                    en: translatedToEnglish,
-                  },
-                }
-              : {}),
+            ...translationMetadata(sessionLanguage, translatedToEnglish),
           },
-        },
+        }),
       });
 
-      // Persist canonical answer snapshot for this question (session-scoped + stable key)
+      // Persist canonical answer snapshot for this question (session-scoped + stable key).
+      // rawText is the pivot translation analysis runs on; originalText keeps the participant's words.
       if (!isSkipRegulation && !clarification) {
-        const questionMessage = [...session.messages]
+        const original = sessionLanguage === PIVOT_LANGUAGE
+          ? { originalText: null, originalLanguage: null }
+          : { originalText: userMessage, originalLanguage: sessionLanguage };
+        const questionMessage = [...messages]
           .reverse()
           .find((m) => m.role === 'AI' && questionMetaFromMessage(m.metadata));
         const qMeta = questionMessage ? questionMetaFromMessage(questionMessage.metadata) : null;
@@ -211,11 +192,13 @@ export async function POST(request: NextRequest) {
               participantId: session.participantId,
               questionKey,
               rawText: translatedToEnglish,
+              ...original,
               source: 'MANUAL',
               speakerId: null,
             },
             update: {
               rawText: translatedToEnglish,
+              ...original,
               participantId: session.participantId,
               workshopId: session.workshopId,
             },
@@ -233,31 +216,25 @@ export async function POST(request: NextRequest) {
         const skipNextQ = skipQs
           ? skipQs[nextPhase]?.[nextQuestionIndex] ?? null
           : null;
-        const aiResponse = `No problem -- skipping regulation.\n\n${
-          skipNextQ
-            ? skipNextQ.text
-            : getFixedQuestion(nextPhase, nextQuestionIndex, nextIncludeRegulation, questionSetVersion)
-        }`;
         const qObj: FixedQuestion | null = skipNextQ
           || getFixedQuestionObject(nextPhase, nextQuestionIndex, nextIncludeRegulation, questionSetVersion);
+        const question = qObj
+          ? await withLLMConfig(llmConfig, () =>
+              buildQuestionMessage(qObj, { index: nextQuestionIndex, phase: nextPhase }, sessionLanguage, 'skipRegulation')
+            )
+          : null;
+        const aiResponse = question?.content
+          ?? `${await localisePhrase('skipRegulation', sessionLanguage)}\n\n${getFixedQuestion(nextPhase, nextQuestionIndex, nextIncludeRegulation, questionSetVersion)}`;
 
-        const aiMessage = await prisma.conversationMessage.create({
-          data: {
+        const aiMessage = await decryptTenantFields('conversationMessage', await prisma.conversationMessage.create({
+          data: await encryptTenantFields('conversationMessage', tenant, {
             sessionId: session.id,
-            role: 'AI',
+            role: 'AI' as const,
             content: aiResponse,
             phase: nextPhase,
-            metadata: qObj
-              ? {
-                  kind: 'question',
-                  tag: qObj.tag,
-                  index: nextQuestionIndex,
-                  phase: nextPhase,
-                  maturityScale: qObj.maturityScale,
-                }
-              : undefined,
-          },
-        });
+            metadata: question?.metadata,
+          }),
+        }));
 
         await prisma.conversationSession.update({
           where: { id: session.id },
@@ -286,26 +263,34 @@ export async function POST(request: NextRequest) {
       }
 
       if (clarification) {
-        const clarificationText = await generateClarificationAnswer({
-          questionAsked,
-          userQuestion: userMessage,
-          workshopContext: session.workshop.businessContext,
-        }).catch(() =>
+        const { businessContext } = await decryptWorkshopData(session.workshop);
+        const clarificationText = await withLLMConfig(llmConfig, () =>
+          generateClarificationAnswer({
+            questionAsked: lastAiMessage ? pivotText(lastAiMessage.content, lastAiMessage.metadata) : '',
+            userQuestion: userMessage,
+            workshopContext: businessContext,
+            language: sessionLanguage,
+          })
+        ).catch(() =>
           'I can clarify. Please answer based on your experience and what you see day-to-day.'
         );
 
+        const [continuePrompt, answerLastQuestion] = await Promise.all([
+          localisePhrase('continuePrompt', sessionLanguage),
+          localisePhrase('answerLastQuestion', sessionLanguage),
+        ]);
         const content =
-          `${clarificationText}\n\nTo continue: ${questionAsked || 'Please answer the last question.'}`.trim();
+          `${clarificationText}\n\n${continuePrompt} ${questionAsked || answerLastQuestion}`.trim();
 
-        const aiMessage = await prisma.conversationMessage.create({
-          data: {
+        const aiMessage = await decryptTenantFields('conversationMessage', await prisma.conversationMessage.create({
+          data: await encryptTenantFields('conversationMessage', tenant, {
             sessionId: session.id,
-            role: 'AI',
+            role: 'AI' as const,
             content,
             phase: currentPhase,
             metadata: { kind: 'clarification_response' },
-          },
-        });
+          }),
+        }));
 
         await prisma.conversationSession.update({
           where: { id: session.id },
@@ -375,8 +360,11 @@ export async function POST(request: NextRequest) {
     }
 
     const nextQ: FixedQuestion | null = qs[newPhase]?.[nextQuestionIndex] || null;
-    const aiResponse = nextQ?.text || '';
-    const qObj = nextQ;
+    const question = nextQ
+      ? await withLLMConfig(llmConfig, () =>
+          buildQuestionMessage(nextQ, { index: nextQuestionIndex, phase: newPhase }, sessionLanguage)
+        )
+      : null;
     const summaryQs = qs.summary || [];
     const isFinalClosingLine = newPhase === 'summary' && nextQuestionIndex === summaryQs.length - 1;
 
@@ -385,23 +373,15 @@ export async function POST(request: NextRequest) {
     }
 
     // Save AI message
-    const aiMessage = await prisma.conversationMessage.create({
-      data: {
+    const aiMessage = await decryptTenantFields('conversationMessage', await prisma.conversationMessage.create({
+      data: await encryptTenantFields('conversationMessage', tenant, {
         sessionId: session.id,
-        role: 'AI',
-        content: aiResponse,
+        role: 'AI' as const,
+        content: question?.content ?? '',
         phase: newPhase,
-        metadata: qObj
-          ? {
-              kind: 'question',
-              tag: qObj.tag,
-              index: nextQuestionIndex,
-              phase: newPhase,
-              maturityScale: qObj.maturityScale,
-            }
-          : undefined,
-      },
-    });
+        metadata: question?.metadata,
+      }),
+    }));
 
     // Update session
     await prisma.conversationSession.update({
@@ -421,6 +401,13 @@ export async function POST(request: NextRequest) {
         where: { id: session.participantId },
         data: { responseCompletedAt: new Date() },
       });
+
+      await publishWorkshopLifecycleEvent(session.workshopId, 'participant.discovery_completed', {
+        participantId: session.participantId,
+        sessionId: session.id,
+        completedAt: new Date().toISOString(),
+        durationMs: Date.now() - session.startedAt.getTime(),
+      });
     }
 
     const lensLabels = (() => {
@@ -1,14 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import OpenAI from 'openai';
+import { decryptTenantRecords } from '@/lib/workshop-encryption';
 import { sendDiscoveryReportEmail } from '@/lib/email/send-report';
 import { fixedQuestionsForVersion, FixedQuestion, buildQuestionsFromDiscoverySet } from '@/lib/conversation/fixed-questions';
 import { readBlueprintFromJson } from '@/lib/workshop/blueprint';
 import { getDimensionNames } from '@/lib/cognition/workshop-dimensions';
 import { createHash } from 'crypto';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { getLLMClient } from '@/lib/llm';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
+import {
+  originalQuote,
+  originalQuotes,
+  pivotText,
+  readMessageTranslation,
+  type TranslatedAnswer,
+} from '@/lib/conversation/translation';
+
+const llm = getLLMClient('conversation-report');
 
 function stableFingerprint(value: unknown): string {
   const json = JSON.stringify(value);
@@ -185,6 +194,39 @@ type KeyInsight = {
   evidence: string[];
 };
 
+const PHASE_QUOTE_FIELDS = [
+  'strengths', 'working', 'gaps', 'painPoints', 'frictions', 'barriers', 'constraint', 'future', 'support',
+] as const;
+
+/**
+ * Phase insights and key-insight evidence are built from pivot-language
+ * answers (and stored that way for downstream analysis). Participants read
+ * them back in their own words.
+ */
+function phaseInsightsInOriginalLanguage(value: unknown, answers: TranslatedAnswer[]): unknown {
+  if (answers.length === 0 || !Array.isArray(value)) return value;
+  return value.map((p) => {
+    if (!p || typeof p !== 'object' || Array.isArray(p)) return p;
+    const rec = { ...(p as Record<string, unknown>) };
+    for (const field of PHASE_QUOTE_FIELDS) {
+      const list = rec[field];
+      if (Array.isArray(list)) {
+        rec[field] = originalQuotes(list.filter((q): q is string => typeof q === 'string'), answers);
+      }
+    }
+    return rec;
+  });
+}
+
+function keyInsightsInOriginalLanguage<T>(value: T, answers: TranslatedAnswer[]): T {
+  if (answers.length === 0 || !Array.isArray(value)) return value;
+  return value.map((k) => {
+    if (!k || typeof k !== 'object' || !Array.isArray((k as Record<string, unknown>).evidence)) return k;
+    const evidence = ((k as Record<string, unknown>).evidence as unknown[]).filter((e): e is string => typeof e === 'string');
+    return { ...k, evidence: originalQuotes(evidence, answers) };
+  }) as T;
+}
+
 function safeInputQuality(value: unknown): ReportInputQuality | null {
   const rec = value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
   if (!rec) return null;
@@ -258,7 +300,7 @@ async function reviewDiscoveryNotes(params: {
   const notes = (params.notes || '').trim();
   const wordCount = notes.split(/\s+/).filter(Boolean).length;
 
-  if (!process.env.OPENAI_API_KEY) {
+  if (!llm.isConfigured()) {
     const score = clampScore(wordCount >= 250 ? 70 : wordCount >= 140 ? 55 : wordCount >= 60 ? 35 : 15);
     return {
       score,
@@ -274,8 +316,8 @@ async function reviewDiscoveryNotes(params: {
     };
   }
 
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
+  const completion = await llm.chat({
+    tier: 'fast',
     temperature: 0.1,
     messages: [
       {
@@ -290,7 +332,7 @@ async function reviewDiscoveryNotes(params: {
     ],
   });
 
-  const raw = completion.choices?.[0]?.message?.content?.trim() || '';
+  const raw = completion.content.trim();
   const parsed = safeParseJson<{
     score: number;
     label: InputQualityLabel;
@@ -392,7 +434,7 @@ async function generateReviewedReportText(params: {
   const notes = lines.join('\n').trim();
   const review = await reviewDiscoveryNotes({ notes });
 
-  if (!process.env.OPENAI_API_KEY) {
+  if (!llm.isConfigured()) {
     return {
       executiveSummary: 'Agentic synthesis unavailable. Enable OPENAI_API_KEY to generate a report summary.',
       feedback: 'Agentic synthesis unavailable. Enable OPENAI_API_KEY to generate report feedback.',
@@ -407,8 +449,8 @@ async function generateReviewedReportText(params: {
     };
   }
 
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
+  const completion = await llm.chat({
+    tier: 'fast',
     temperature: 0.15,
     messages: [
       {
@@ -429,7 +471,7 @@ async function generateReviewedReportText(params: {
     ],
   });
 
-  const raw = completion.choices?.[0]?.message?.content?.trim() || '';
+  const raw = completion.content.trim();
   const parsed = safeParseJson<{ executiveSummary: string; tone: string | null; feedback: string }>(raw);
 
   if (!parsed) {
@@ -557,16 +599,16 @@ async function synthesiseLensScores(params: {
   lenses: Array<{ key: string; label?: string }>;
   transcript: string;
 }): Promise<Array<{ key: string; currentScore: number; targetScore: number }>> {
-  if (!process.env.OPENAI_API_KEY || !params.transcript.trim()) return [];
+  if (!llm.isConfigured() || !params.transcript.trim()) return [];
 
   const lensListStr = params.lenses
     .map((l) => `- key: "${l.key}", label: "${l.label || l.key}"`)
     .join('\n');
 
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o',
+  const completion = await llm.chat({
+    tier: 'standard',
     temperature: 0.1,
-    response_format: { type: 'json_object' },
+    responseFormat: 'json',
     messages: [
       {
         role: 'system',
@@ -585,7 +627,7 @@ async function synthesiseLensScores(params: {
     ],
   });
 
-  const raw = completion.choices?.[0]?.message?.content?.trim() || '';
+  const raw = completion.content.trim();
   const parsed = safeParseJson<{ scores: Array<{ key: string; currentScore: number; targetScore: number }> }>(raw);
   if (!parsed?.scores || !Array.isArray(parsed.scores)) return [];
 
@@ -674,7 +716,17 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    const qaPairs: Array<{ phase: string | null; question: string; answer: string; createdAt: Date; tag: string | null }> = [];
+    // answer is the pivot-language text analysis runs on; originalAnswer is the
+    // participant's own words when they answered in another language.
+    const qaPairs: Array<{
+      phase: string | null;
+      question: string;
+      answer: string;
+      originalAnswer: string | null;
+      language: string | null;
+      createdAt: Date;
+      tag: string | null;
+    }> = [];
 
     const currentByPhase: Record<string, number> = {};
     const targetByPhase: Record<string, number> = {};
@@ -706,7 +758,15 @@ export async function GET(request: NextRequest) {
         const tag = meta.tag;
 
         const answerText = dp.rawText;
-        qaPairs.push({ phase, question, answer: answerText, createdAt: dp.createdAt, tag });
+        qaPairs.push({
+          phase,
+          question,
+          answer: answerText,
+          originalAnswer: dp.originalText ?? null,
+          language: dp.originalLanguage ?? null,
+          createdAt: dp.createdAt,
+          tag,
+        });
 
         if (phase === 'intro' && tag === 'context') {
           introContext = answerText;
@@ -759,7 +819,7 @@ export async function GET(request: NextRequest) {
         }
       }
     } else {
-      const messages = session.messages;
+      const messages = await decryptTenantRecords('conversationMessage', session.messages);
 
       for (let i = 0; i < messages.length; i++) {
         const m = messages[i];
@@ -786,19 +846,23 @@ export async function GET(request: NextRequest) {
           break;
         }
 
-        const question = questionMsg?.content || '';
+        const question = questionMsg ? pivotText(questionMsg.content, questionMsg.metadata) : '';
         const phase = (m.phase || questionMsg?.phase || null) as string | null;
         const meta = getQuestionMeta(questionMsg);
         const tag = meta?.tag || inferTagFromQuestionText(question, phase) || null;
 
-        const translation =
-          metaRec && metaRec.translation && typeof metaRec.translation === 'object' && !Array.isArray(metaRec.translation)
-            ? (metaRec.translation as Record<string, unknown>)
-            : null;
-        const translatedEn = translation && typeof translation.en === 'string' ? translation.en : null;
-        const answerText = typeof translatedEn === 'string' && translatedEn.trim() ? translatedEn : m.content;
-
-        qaPairs.push({ phase, question, answer: answerText, createdAt: m.createdAt, tag });
+        const translation = readMessageTranslation(metaRec);
+        const answerText = translation?.en ?? m.content;
+
+        qaPairs.push({
+          phase,
+          question,
+          answer: answerText,
+          originalAnswer: translation ? m.content : null,
+          language: translation?.sourceLanguage ?? null,
+          createdAt: m.createdAt,
+          tag,
+        });
 
         if (phase === 'intro' && tag === 'context') {
           introContext = answerText;
@@ -873,19 +937,22 @@ export async function GET(request: NextRequest) {
     // Fire AI scoring only when:
     //  1. The workshop has discoveryQuestions lenses (Path 1 will run below)
     //  2. No per-lens DataPoint scores exist for ANY configured lens
-    //  3. OPENAI_API_KEY is available
+    //  3. An LLM provider is configured
     // The guard is all-or-nothing: if even one lens already has a score we leave
     // the DataPoint-derived values intact and skip synthesis entirely.
     if (
       discoveryQsForScoring?.lenses?.length &&
-      process.env.OPENAI_API_KEY &&
+      llm.isConfigured() &&
       discoveryQsForScoring.lenses.every((lens) => currentByPhase[lens.key] == null)
     ) {
       try {
-        const aiScores = await synthesiseLensScores({
-          lenses: discoveryQsForScoring.lenses,
-          transcript: transcriptForScoring,
-        });
+        const lenses = discoveryQsForScoring.lenses;
+        const aiScores = await withOrganizationLLMConfig(session.workshop?.organizationId, () =>
+          synthesiseLensScores({
+            lenses,
+            transcript: transcriptForScoring,
+          })
+        );
         for (const score of aiScores) {
           if (currentByPhase[score.key] == null) currentByPhase[score.key] = score.currentScore;
           if (targetByPhase[score.key] == null) targetByPhase[score.key] = score.targetScore;
@@ -1030,7 +1097,7 @@ export async function GET(request: NextRequest) {
         ? String(rawInputQuality.agenticFingerprint)
         : null;
 
-    const agenticConfigured = !!process.env.OPENAI_API_KEY;
+    const agenticConfigured = llm.isConfigured();
     const existingUnavailable =
       isAgenticUnavailableText(session.report?.executiveSummary) || isAgenticUnavailableText(session.report?.feedback);
 
@@ -1049,12 +1116,18 @@ export async function GET(request: NextRequest) {
           inputQuality: storedInputQuality!,
           keyInsights: storedKeyInsights,
         }
-      : await generateReviewedReportText({
-          workshopName: session.workshop?.name,
-          participantName: session.participant?.name,
-          phaseInsights,
-          prioritization,
-        });
+      : await withOrganizationLLMConfig(session.workshop?.organizationId, () =>
+          generateReviewedReportText({
+            workshopName: session.workshop?.name,
+            participantName: session.participant?.name,
+            phaseInsights,
+            prioritization,
+          })
+        );
+
+    const translatedAnswers: TranslatedAnswer[] = qaPairs
+      .filter((qa) => qa.originalAnswer)
+      .map((qa) => ({ pivot: qa.answer, original: qa.originalAnswer! }));
 
     const wordCloudThemes = canReuse && session.report?.wordCloudThemes ? session.report.wordCloudThemes : buildWordFrequencies(narrativeTexts);
 
@@ -1142,7 +1215,7 @@ export async function GET(request: NextRequest) {
             tone: reviewed.tone,
             feedback: reviewed.feedback,
             inputQuality: reviewed.inputQuality,
-            keyInsights: reviewed.keyInsights,
+            keyInsights: keyInsightsInOriginalLanguage(reviewed.keyInsights, translatedAnswers),
             phaseInsights: phaseInsights.map((p) => ({
               phase: p.phase,
               currentScore: p.currentScore,
@@ -1220,9 +1293,15 @@ export async function GET(request: NextRequest) {
       tone: reviewed.tone,
       feedback: reviewed.feedback,
       inputQuality: reviewed.inputQuality,
-      keyInsights: canReuse && session.report?.keyInsights ? session.report.keyInsights : reviewed.keyInsights,
-      introContext,
-      phaseInsights: canReuse && session.report?.phaseInsights ? session.report.phaseInsights : phaseInsights,
+      keyInsights: keyInsightsInOriginalLanguage(
+        canReuse && session.report?.keyInsights ? session.report.keyInsights : reviewed.keyInsights,
+        translatedAnswers,
+      ),
+      introContext: introContext ? originalQuote(introContext, translatedAnswers) : introContext,
+      phaseInsights: phaseInsightsInOriginalLanguage(
+        canReuse && session.report?.phaseInsights ? session.report.phaseInsights : phaseInsights,
+        translatedAnswers,
+      ),
       wordCloudThemes,
       qaPairs,
     });
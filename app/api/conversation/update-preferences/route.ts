@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { decryptTenantFields, encryptTenantFields } from '@/lib/workshop-encryption';
+import { withLLMConfig } from '@/lib/llm';
+import { loadOrganizationLLMConfig } from '@/lib/llm/organization-config';
+import { normaliseLanguage } from '@/lib/conversation/translation';
+import { relocaliseQuestionMessage } from '@/lib/conversation/question-localisation';
 
 export async function POST(request: NextRequest) {
   try {
@@ -19,7 +24,9 @@ export async function POST(request: NextRequest) {
       select: {
         id: true,
         participantId: true,
+        language: true,
         participant: { select: { discoveryToken: true } },
+        workshop: { select: { organizationId: true } },
       },
     });
     if (!session || !session.participantId) {
@@ -40,7 +47,43 @@ export async function POST(request: NextRequest) {
       data: updateData,
     });
 
-    return NextResponse.json({ success: true });
+    // Re-ask a pending question in the newly selected language
+    let message = null;
+    const languageChanged =
+      updateData.language !== undefined &&
+      normaliseLanguage(updateData.language) !== normaliseLanguage(session.language);
+    const lastMessage = languageChanged
+      ? await decryptTenantFields(
+          'conversationMessage',
+          await prisma.conversationMessage.findFirst({ where: { sessionId }, orderBy: { createdAt: 'desc' } }),
+        )
+      : null;
+    if (lastMessage?.role === 'AI') {
+      const llmConfig = await loadOrganizationLLMConfig(session.workshop.organizationId);
+      const relocalised = await withLLMConfig(llmConfig, () =>
+        relocaliseQuestionMessage(lastMessage.content, lastMessage.metadata, updateData.language)
+      );
+      if (relocalised) {
+        const tenant = { organizationId: session.workshop.organizationId };
+        const updated = await decryptTenantFields('conversationMessage', await prisma.conversationMessage.update({
+          where: { id: lastMessage.id },
+          data: await encryptTenantFields('conversationMessage', tenant, {
+            content: relocalised.content,
+            metadata: relocalised.metadata,
+          }),
+        }));
+        message = {
+          id: updated.id,
+          role: updated.role,
+          content: updated.content,
+          phase: updated.phase,
+          metadata: updated.metadata,
+          createdAt: updated.createdAt,
+        };
+      }
+    }
+
+    return NextResponse.json({ success: true, message });
   } catch (error) {
     console.error('Error updating preferences:', error);
     return NextResponse.json(
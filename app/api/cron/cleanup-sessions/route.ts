@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { evictExpiredLiveStates } from '@/lib/cognition/live-state-persistence';
 
 // This endpoint should be called by a cron job (e.g., Vercel Cron, Railway Cron)
 // Or you can call it manually: GET /api/cron/cleanup-sessions
@@ -32,10 +33,14 @@ export async function GET(request: NextRequest) {
       },
     });
 
+    // Live workshop cognition state past its TTL
+    const liveStatesEvicted = await evictExpiredLiveStates(now);
+
     return NextResponse.json({
       success: true,
       message: `Cleaned up ${result.count} expired/revoked sessions`,
       deletedCount: result.count,
+      liveStatesEvicted,
       timestamp: now.toISOString(),
     });
   } catch (error) {
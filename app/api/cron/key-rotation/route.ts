@@ -0,0 +1,43 @@
+/**
+ * GET /api/cron/key-rotation
+ *
+ * Advances running tenant key rotation jobs (lib/tenant-key-rotation.ts) by a
+ * bounded number of batches each run. Progress is persisted per batch, so a
+ * large tenant simply takes several runs.
+ *
+ * Authorization: Bearer token from CRON_SECRET environment variable.
+ * Schedule: every 10 minutes (vercel.json).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { advanceRunningKeyRotations } from '@/lib/tenant-key-rotation';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const jobs = await advanceRunningKeyRotations();
+    return NextResponse.json({
+      success: true,
+      jobs: jobs.map((job) => ({
+        id: job.id,
+        organizationId: job.organizationId,
+        status: job.status,
+        percentComplete: job.percentComplete,
+        rowsReencrypted: job.rowsReencrypted,
+      })),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[KeyRotation] Cron failed:', error);
+    return NextResponse.json({ error: 'Key rotation failed' }, { status: 500 });
+  }
+}
@@ -10,17 +10,27 @@
  *   | Login attempt logs         | 90 days          | Hard delete              |
  *   | Expired/revoked sessions   | 0 days           | Hard delete (immediate)  |
  *   | Password reset tokens      | 7 days           | Hard delete              |
- *   | Analytics events           | 730 days (2 yr)  | Hard delete              |
  *   | Audit logs                 | 730 days (2 yr)  | Hard delete              |
  *   | Withdrawn consent records  | 90 days          | Hard delete (withdrawn)  |
  *
- * Workshop data, participant records, transcript chunks, and scratchpad outputs are
- * NOT deleted by this cron job. They are subject to the contractual retention agreed
+ * Then the retention engine (lib/compliance/retention-engine.ts) applies the
+ * retention policies organisations have set for transcript chunks, capture audio,
+ * evidence files, document chunks and the event outbox, and the platform policy
+ * to analytics events — deleting or anonymising, and skipping anything under
+ * legal hold. Every purge is recorded as a retention certificate per organisation.
+ *
+ * Workshops, participant records and scratchpad outputs are NOT deleted by this cron
+ * job, and neither is any transcript or evidence data without an explicit
+ * organisation or workshop policy. It is subject to the contractual retention agreed
  * with each tenant organisation and must be deleted via the admin panel or a
  * tenant-specific deletion request following the subject access request (SAR) process.
  *
+ * A daily run starts at 02:00 UTC and is advanced a bounded batch of workshops per
+ * invocation; the fixed schedule above runs once, when the day's run starts.
+ * Invocations after the run completes return idle.
+ *
  * Authorization: Bearer token from CRON_SECRET environment variable.
- * Schedule: Run daily at 02:00 UTC (configure in vercel.json or cron provider).
+ * Schedule: every 15 minutes (configure in vercel.json or cron provider).
  *
  * Audit entry: this job writes its own audit record on completion so the log is
  * self-describing and the deletion cannot be confused with a manual bulk delete.
@@ -28,14 +38,19 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import {
+  advanceRetentionRun,
+  claimRetentionRun,
+  issueRetentionCertificates,
+} from '@/lib/compliance/retention-engine';
 
 export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
 
 // Retention periods in milliseconds
 const RETENTION = {
   loginAttempts:         90 * 24 * 60 * 60 * 1000, // 90 days
   passwordResetTokens:    7 * 24 * 60 * 60 * 1000, // 7 days
-  analyticsEvents:      730 * 24 * 60 * 60 * 1000, // 2 years
   auditLogs:            730 * 24 * 60 * 60 * 1000, // 2 years
   withdrawnConsent:      90 * 24 * 60 * 60 * 1000, // 90 days after withdrawal
 } as const;
@@ -52,6 +67,82 @@ export async function GET(request: NextRequest) {
   const results: Record<string, number> = {};
   const errors: Record<string, string> = {};
 
+  let claim: Awaited<ReturnType<typeof claimRetentionRun>>;
+  try {
+    claim = await claimRetentionRun(now);
+  } catch (error) {
+    console.error('[retention] failed to claim run:', error);
+    return NextResponse.json({ success: false, error: 'Failed to start retention run' }, { status: 500 });
+  }
+  if (!claim) {
+    return NextResponse.json({ success: true, idle: true, runAt: now.toISOString() });
+  }
+
+  if (claim.started) {
+    await purgeFixedSchedule(now, results, errors);
+  }
+
+  // ── 6. Policy-driven personal data (retention engine, one batch) ──────────
+  let certificateIds: string[] = [];
+  let completed = false;
+  try {
+    const { run, result } = await advanceRetentionRun(claim.run);
+    completed = run.status === 'completed';
+    for (const [dataType, count] of Object.entries(result.totals.byDataType)) {
+      results[dataType] = count;
+    }
+    results.heldRecords = result.totals.heldRecords;
+    if (result.errors.length > 0) {
+      errors.retentionEngine = result.errors.slice(0, 20).join('; ');
+      console.error('[retention] engine errors:', result.errors);
+    }
+    const certificates = await issueRetentionCertificates(run);
+    certificateIds = certificates.map((c) => c.id);
+  } catch (error) {
+    errors.retentionEngine = error instanceof Error ? error.message : String(error);
+    console.error('[retention] retentionEngine error:', errors.retentionEngine);
+  }
+
+  // ── Self-audit entry ───────────────────────────────────────────────────────
+  // Write a PLATFORM_ADMIN-level audit record so the deletion is traceable.
+  try {
+    await prisma.auditLog.create({
+      data: {
+        id: `retention-${now.getTime()}`,
+        organizationId: 'PLATFORM',
+        userId: null,
+        userEmail: 'cron@system',
+        action: 'data_retention.purge',
+        resourceType: 'retention_job',
+        resourceId: claim.run.id,
+        method: 'GET',
+        path: '/api/cron/retention',
+        success: Object.keys(errors).length === 0,
+        metadata: { results, errors, certificateIds, completed, runAt: now.toISOString() },
+        timestamp: now,
+      },
+    });
+  } catch (auditError) {
+    console.error('[retention] failed to write audit entry:', auditError);
+  }
+
+  const hasErrors = Object.keys(errors).length > 0;
+  return NextResponse.json(
+    {
+      success: !hasErrors,
+      runAt: now.toISOString(),
+      runId: claim.run.id,
+      completed,
+      deleted: results,
+      certificateIds,
+      ...(hasErrors ? { errors } : {}),
+    },
+    { status: hasErrors ? 500 : 200 }
+  );
+}
+
+/** Steps 1–5: the fixed platform schedule, once per daily run */
+async function purgeFixedSchedule(now: Date, results: Record<string, number>, errors: Record<string, string>) {
   // ── 1. Login attempt logs (90 days) ───────────────────────────────────────
   try {
     const cutoff = new Date(now.getTime() - RETENTION.loginAttempts);
@@ -97,19 +188,7 @@ export async function GET(request: NextRequest) {
     console.error('[retention] passwordResetTokens error:', errors.passwordResetTokens);
   }
 
-  // ── 4. Analytics events (2 years) ─────────────────────────────────────────
-  try {
-    const cutoff = new Date(now.getTime() - RETENTION.analyticsEvents);
-    const deleted = await prisma.analyticsEvent.deleteMany({
-      where: { createdAt: { lt: cutoff } },
-    });
-    results.analyticsEvents = deleted.count;
-  } catch (error) {
-    errors.analyticsEvents = error instanceof Error ? error.message : String(error);
-    console.error('[retention] analyticsEvents error:', errors.analyticsEvents);
-  }
-
-  // ── 5. Audit logs (2 years) ────────────────────────────────────────────────
+  // ── 4. Audit logs (2 years) ────────────────────────────────────────────────
   // NOTE: Audit logs are normally append-only. This deletion is the ONLY
   // authorised mechanism for removing audit logs, and only when they have
   // exceeded the 2-year retention period. Deletion here is itself audit-logged.
@@ -124,7 +203,7 @@ export async function GET(request: NextRequest) {
     console.error('[retention] auditLogs error:', errors.auditLogs);
   }
 
-  // ── 6. Withdrawn consent records (90 days after withdrawal) ───────────────
+  // ── 5. Withdrawn consent records (90 days after withdrawal) ───────────────
   try {
     const cutoff = new Date(now.getTime() - RETENTION.withdrawnConsent);
     const deleted = await prisma.consentRecord.deleteMany({
@@ -138,37 +217,4 @@ export async function GET(request: NextRequest) {
     errors.withdrawnConsentRecords = error instanceof Error ? error.message : String(error);
     console.error('[retention] withdrawnConsentRecords error:', errors.withdrawnConsentRecords);
   }
-
-  // ── Self-audit entry ───────────────────────────────────────────────────────
-  // Write a PLATFORM_ADMIN-level audit record so the deletion is traceable.
-  try {
-    await prisma.auditLog.create({
-      data: {
-        id: `retention-${now.getTime()}`,
-        organizationId: 'PLATFORM',
-        userId: null,
-        userEmail: 'cron@system',
-        action: 'data_retention.purge',
-        resourceType: 'retention_job',
-        method: 'GET',
-        path: '/api/cron/retention',
-        success: Object.keys(errors).length === 0,
-        metadata: { results, errors, runAt: now.toISOString() },
-        timestamp: now,
-      },
-    });
-  } catch (auditError) {
-    console.error('[retention] failed to write audit entry:', auditError);
-  }
-
-  const hasErrors = Object.keys(errors).length > 0;
-  return NextResponse.json(
-    {
-      success: !hasErrors,
-      runAt: now.toISOString(),
-      deleted: results,
-      ...(hasErrors ? { errors } : {}),
-    },
-    { status: hasErrors ? 500 : 200 }
-  );
 }
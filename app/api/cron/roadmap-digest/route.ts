@@ -0,0 +1,32 @@
+/**
+ * GET /api/cron/roadmap-digest
+ *
+ * Weekly digest of overdue and blocked roadmap initiatives. Executive portal
+ * licence holders get their organisation's list; initiative owners with an
+ * email address get their own items.
+ *
+ * Authorization: Bearer token from CRON_SECRET environment variable.
+ * Schedule: Mondays at 07:00 UTC (vercel.json).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { sendRoadmapDigests } from '@/lib/roadmap/digest';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { sent, failed } = await sendRoadmapDigests();
+    return NextResponse.json({ success: true, sent, failed, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error('[RoadmapDigest] Cron failed:', error);
+    return NextResponse.json({ error: 'Roadmap digest failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * GET /api/cron/webhooks
+ *
+ * Retries pending webhook deliveries whose backoff has elapsed
+ * (lib/webhooks/delivery.ts). Deliveries are attempted one at a time in
+ * batches of 50; anything left over is picked up by the next run.
+ *
+ * Authorization: Bearer token from CRON_SECRET environment variable.
+ * Schedule: every minute (vercel.json).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deliverDueWebhooks } from '@/lib/webhooks/delivery';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const results = await deliverDueWebhooks();
+    return NextResponse.json({
+      success: true,
+      attempted: results.length,
+      succeeded: results.filter((r) => r.status === 'succeeded').length,
+      failed: results.filter((r) => r.status === 'failed').length,
+      rescheduled: results.filter((r) => r.status === 'pending').length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[Webhooks] Cron failed:', error);
+    return NextResponse.json({ error: 'Webhook retry failed' }, { status: 500 });
+  }
+}
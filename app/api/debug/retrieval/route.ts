@@ -17,6 +17,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { retrieveRelevant } from '@/lib/embeddings/retrieve';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 
 export const dynamic = 'force-dynamic';
 
@@ -44,12 +45,13 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Missing query param: orgId' }, { status: 400 });
     }
 
-    const chunks = await retrieveRelevant(q, {
+    // Embed the query with the organisation's configured model so it matches the stored vectors
+    const chunks = await withOrganizationLLMConfig(orgId, () => retrieveRelevant(q, {
       organizationId: orgId,
       workshopId,
       topK: isNaN(topK) ? 5 : Math.min(topK, 20),
       minSimilarity: isNaN(minSimilarity) ? 0.65 : Math.max(0, Math.min(1, minSimilarity)),
-    });
+    }));
 
     return NextResponse.json({
       query: q,
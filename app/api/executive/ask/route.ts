@@ -2,10 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireExecAuth } from '@/lib/auth/require-exec-auth';
 import { prisma } from '@/lib/prisma';
 import { retrieveRelevant } from '@/lib/embeddings/retrieve';
-import OpenAI from 'openai';
+import { loadParticipantRedactor } from '@/lib/compliance/participant-redaction';
+import { getLLMClient } from '@/lib/llm';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import { z } from 'zod';
 
-const openai = new OpenAI();
+const llm = getLLMClient('executive-ask');
 
 const AskSchema = z.object({
   message: z.string().min(1, 'Message is required').max(2000).trim(),
@@ -39,9 +41,11 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'No discovery data available.' }, { status: 404 });
   }
 
+  // The model only ever sees participant-redacted data, so answers cannot leak it
   const workshopId = scratchpad.workshopId;
-  const v2 = scratchpad.v2Output as Record<string, unknown>;
-  const evidenceSynthesis = scratchpad.workshop?.evidenceSynthesis;
+  const redactor = await loadParticipantRedactor(workshopId);
+  const v2 = redactor.redact(scratchpad.v2Output as Record<string, unknown>);
+  const evidenceSynthesis = redactor.redact(scratchpad.workshop?.evidenceSynthesis);
 
   const org = await prisma.organization.findUnique({
     where: { id: execOrgId },
@@ -51,15 +55,15 @@ export async function POST(request: NextRequest) {
   // Vector retrieval for relevant chunks
   let vectorContext = '';
   try {
-    const chunks = await retrieveRelevant(message.trim(), {
+    const chunks = await withOrganizationLLMConfig(execOrgId, () => retrieveRelevant(message.trim(), {
       organizationId: execOrgId,
       workshopId,
       topK: 6,
       sources: ['conversation_insights', 'discovery_themes', 'document_chunks', 'workshop_scratchpads'],
-    });
+    }));
     if (chunks.length) {
       vectorContext = '\n\n=== RETRIEVED SUPPORTING EVIDENCE ===\n' +
-        chunks.map((c, i) => `[${i + 1}] ${c.text}`).join('\n\n');
+        chunks.map((c, i) => `[${i + 1}] ${redactor.scrubText(c.text)}`).join('\n\n');
     }
   } catch {
     // vector retrieval is best-effort
@@ -92,19 +96,19 @@ ${evidenceSynthesis ? `=== EVIDENCE SYNTHESIS ===\n${JSON.stringify(evidenceSynt
 ${vectorContext}`;
 
   // Stream response
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o',
-    messages: [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: message.trim() },
-    ],
-    stream: true,
-  });
+  const completion = await withOrganizationLLMConfig(execOrgId, async () =>
+    llm.stream({
+      tier: 'standard',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: message.trim() },
+      ],
+    })
+  );
 
   const readableStream = new ReadableStream({
     async start(controller) {
-      for await (const chunk of completion) {
-        const delta = chunk.choices[0]?.delta?.content;
+      for await (const delta of completion) {
         if (delta) {
           controller.enqueue(new TextEncoder().encode(delta));
         }
@@ -1,12 +1,14 @@
 import { NextResponse } from 'next/server';
 import { requireExecAuth } from '@/lib/auth/require-exec-auth';
 import { prisma } from '@/lib/prisma';
+import { loadParticipantRedactor } from '@/lib/compliance/participant-redaction';
 
 /**
  * GET /api/executive/data
  * Returns the most recently published workshop with v2Output for the exec's org.
  * Falls back to the most recent workshop with any v2Output if none are published.
  * All data is scoped to execOrgId from the JWT — no client-supplied org ID trusted.
+ * Participant-derived content goes through the participant redaction layer.
  */
 export async function GET() {
   const auth = await requireExecAuth();
@@ -38,6 +40,8 @@ export async function GET() {
     return NextResponse.json({ error: 'No discovery data available yet.' }, { status: 404 });
   }
 
+  const redactor = await loadParticipantRedactor(scratchpad.workshopId);
+
   // Fetch evidence documents for the workshop
   const evidenceDocuments = await prisma.evidenceDocument.findMany({
     where: { workshopId: scratchpad.workshopId, status: 'ready' },
@@ -61,13 +65,16 @@ export async function GET() {
 
   return NextResponse.json({
     scratchpad: {
-      v2Output: scratchpad.v2Output,
-      outputAssessment: scratchpad.outputAssessment as unknown,
+      v2Output: redactor.redact(scratchpad.v2Output),
+      outputAssessment: redactor.redact(scratchpad.outputAssessment as unknown),
       clientLogoUrl: scratchpad.clientLogoUrl,
       status: scratchpad.status,
     },
-    workshop: scratchpad.workshop,
-    evidenceDocuments,
+    workshop: {
+      ...scratchpad.workshop,
+      evidenceSynthesis: redactor.redact(scratchpad.workshop.evidenceSynthesis),
+    },
+    evidenceDocuments: redactor.redact(evidenceDocuments),
     organization: org,
   });
 }
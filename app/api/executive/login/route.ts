@@ -6,6 +6,7 @@ import { nanoid } from 'nanoid';
 import { authLimiter } from '@/lib/rate-limit';
 import { createExecSessionToken, type ExecSessionPayload } from '@/lib/auth/exec-session';
 import { ExecLoginSchema, zodError } from '@/lib/validation/schemas';
+import { isSsoEnforced } from '@/lib/auth/sso/login';
 
 export async function POST(request: NextRequest) {
   const ipAddress = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
@@ -36,6 +37,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid email or password' }, { status: 401 });
     }
 
+    if (await isSsoEnforced(licence.organizationId)) {
+      return NextResponse.json(
+        { error: 'Your organisation signs in with single sign-on.', ssoRequired: true },
+        { status: 403 }
+      );
+    }
+
     const passwordMatch = await bcrypt.compare(password, licence.hashedPassword);
     if (!passwordMatch) {
       return NextResponse.json({ error: 'Invalid email or password' }, { status: 401 });
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireExecAuth } from '@/lib/auth/require-exec-auth';
+import { UpdateRoadmapInitiativeSchema, zodError } from '@/lib/validation/schemas';
+import { RoadmapInitiativeError, isOverdue, updateRoadmapInitiative } from '@/lib/roadmap/initiatives';
+
+/**
+ * PATCH /api/executive/roadmap/[initiativeId]
+ * Update an initiative's owner, status, due date, progress or dependencies,
+ * optionally adding a progress note attributed to the exec.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ initiativeId: string }> },
+) {
+  const auth = await requireExecAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const rawBody = await request.json().catch(() => null);
+  const parsed = UpdateRoadmapInitiativeSchema.safeParse(rawBody);
+  if (!parsed.success) return zodError(parsed.error);
+
+  const { initiativeId } = await params;
+  const { dueDate, ...rest } = parsed.data;
+
+  try {
+    const initiative = await updateRoadmapInitiative({
+      organizationId: auth.execOrgId,
+      initiativeId,
+      update: {
+        ...rest,
+        ...(dueDate !== undefined && { dueDate: dueDate ? new Date(dueDate) : null }),
+      },
+      author: { name: auth.name, email: auth.execEmail },
+    });
+    return NextResponse.json({ initiative: { ...initiative, overdue: isOverdue(initiative) } });
+  } catch (error) {
+    if (error instanceof RoadmapInitiativeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('[ExecRoadmap] Failed to update initiative:', error);
+    return NextResponse.json({ error: 'Failed to update initiative' }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { requireExecAuth } from '@/lib/auth/require-exec-auth';
+import { isOverdue, listOrganizationInitiatives } from '@/lib/roadmap/initiatives';
+
+/**
+ * GET /api/executive/roadmap
+ * Tracked roadmap initiatives for the exec's organisation, with recent notes.
+ * Scoped to execOrgId from the JWT.
+ */
+export async function GET() {
+  const auth = await requireExecAuth();
+  if (auth instanceof NextResponse) return auth;
+
+  const initiatives = await listOrganizationInitiatives(auth.execOrgId);
+  const now = new Date();
+
+  return NextResponse.json({
+    initiatives: initiatives.map((i) => ({ ...i, overdue: isOverdue(i, now) })),
+  });
+}
@@ -8,6 +8,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { decryptTenantRecords, decryptWorkshopData } from '@/lib/workshop-encryption';
 import { checkRateLimit, getGDPRRateLimitKey } from '@/lib/rate-limit';
 import { logAuditEvent } from '@/lib/audit/audit-logger';
 
@@ -134,9 +135,9 @@ export async function POST(request: NextRequest) {
     // Build the export payload
     const exportData = {
       participant: sanitizedParticipant,
-      workshop: workshop || { id: participant.workshopId },
+      workshop: (await decryptWorkshopData(workshop)) || { id: participant.workshopId },
       sessions: sessions || [],
-      messages: messages || [],
+      messages: await decryptTenantRecords('conversationMessage', messages || []),
       dataPoints: dataPoints || [],
       insights: insights || [],
       reports: reports || [],
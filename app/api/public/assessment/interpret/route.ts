@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
-import { env } from '@/lib/env'
+import { getLLMClient } from '@/lib/llm'
 import { strictLimiter } from '@/lib/rate-limit'
 
+// Public and unauthenticated: there is no organisation, so calls use the deployment's LLM config
+const llm = getLLMClient('assessment-interpret')
+
 function getIp(req: NextRequest): string {
   return req.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
     req.headers.get('x-real-ip') ||
@@ -56,7 +58,7 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ level: 2, reflection: "Thank you for sharing that." })
     }
 
-    if (!env.OPENAI_API_KEY) {
+    if (!llm.isConfigured()) {
       // Keyword fallback — still returns a meaningful response
       const level = keywordScore(transcript)
       const fallbacks: Record<number, string> = {
@@ -69,19 +71,18 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ level, reflection: fallbacks[level] })
     }
 
-    const client = new OpenAI({ apiKey: env.OPENAI_API_KEY })
-    const response = await client.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const response = await llm.chat({
+      tier: 'fast',
       messages: [
         { role: 'system', content: SYSTEM },
         { role: 'user', content: `Dimension: ${dimension}\nQuestion: ${question}\nWhat they said: "${transcript}"` },
       ],
       temperature: 0.7,
-      response_format: { type: 'json_object' },
-      max_tokens: 200,
+      responseFormat: 'json',
+      maxTokens: 200,
     })
 
-    const parsed = JSON.parse(response.choices[0].message.content || '{}') as { level?: number; reflection?: string }
+    const parsed = JSON.parse(response.content || '{}') as { level?: number; reflection?: string }
     const level = Math.min(5, Math.max(1, Math.round(parsed.level || 2)))
     const reflection = parsed.reflection || "That gives us a clear picture — thank you."
 
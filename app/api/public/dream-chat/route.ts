@@ -6,9 +6,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import { buildDreamChatSystemPrompt } from '@/lib/dream-landing/knowledge-base';
 import { strictLimiter } from '@/lib/rate-limit';
+import { getLLMClient, type LLMMessage } from '@/lib/llm';
 
 export const maxDuration = 60;
 
@@ -117,7 +117,8 @@ function detectCompanyName(question: string): string | null {
   return null;
 }
 
-const MODEL = 'gpt-4o-mini';
+// No organisation behind a landing-page visitor, so this runs on the deployment's LLM config
+const llm = getLLMClient('dream-chat');
 const MAX_QUESTION_LENGTH = 500;
 const MAX_HISTORY = 6;
 
@@ -162,7 +163,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Check API key
-    if (!process.env.OPENAI_API_KEY) {
+    if (!llm.isConfigured()) {
       return NextResponse.json({ error: 'AI service not configured' }, { status: 500 });
     }
 
@@ -177,7 +178,7 @@ export async function POST(request: NextRequest) {
     const systemPrompt = isVoice
       ? basePrompt + `\n\n## VOICE MODE — CRITICAL\nThis response will be spoken aloud immediately. You MUST write in plain conversational prose only. Absolutely no markdown of any kind: no headers (#), no bold (**), no italic (*), no bullet points (-), no numbered lists (1. 2. 3.), no backticks, no horizontal rules. Write flowing sentences and paragraphs as if speaking naturally in conversation.`
       : basePrompt;
-    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+    const messages: LLMMessage[] = [
       { role: 'system', content: systemPrompt },
     ];
 
@@ -188,22 +189,18 @@ export async function POST(request: NextRequest) {
     messages.push({ role: 'user', content: question });
 
     // Stream response
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-    const stream = await openai.chat.completions.create({
-      model: MODEL,
+    const stream = llm.stream({
+      tier: 'fast',
       temperature: 0.4,
       messages,
-      stream: true,
-      max_tokens: 1500,
+      maxTokens: 1500,
     });
 
     const encoder = new TextEncoder();
     const readableStream = new ReadableStream({
       async start(controller) {
         try {
-          for await (const chunk of stream) {
-            const content = chunk.choices[0]?.delta?.content;
+          for await (const content of stream) {
             if (content) {
               controller.enqueue(
                 encoder.encode(`data: ${JSON.stringify({ content })}\n\n`),
@@ -120,7 +120,7 @@ export async function POST(
     const intelligence = buildIntelligenceFromAgenticResults(recentAnalyses);
 
     // Emit the intelligence update via SSE
-    emitSalesEvent(workshopId, {
+    await emitSalesEvent(workshopId, {
       type: 'intelligence.update',
       payload: intelligence as unknown as Record<string, unknown>,
     });
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth/session';
 import { prisma } from '@/lib/prisma';
-import { subscribeSalesEvents } from '@/lib/sales/sales-events';
+import { createRealtimeEventStream, readLastEventId } from '@/lib/realtime/sse';
 
 export const dynamic = 'force-dynamic';
 
@@ -36,37 +36,14 @@ export async function GET(
     });
   }
 
-  const encoder = new TextEncoder();
-  const stream = new ReadableStream({
-    start(controller) {
-      const send = (text: string) => {
-        try {
-          controller.enqueue(encoder.encode(text));
-        } catch {
-          // Stream closed
-        }
-      };
-
-      // Send initial open event
-      send(`event: open\ndata: {"workshopId":"${workshopId}"}\n\n`);
-
-      // Subscribe to sales events
-      const unsubscribe = subscribeSalesEvents(workshopId, (evt) => {
-        send(`event: ${evt.type}\ndata: ${JSON.stringify(evt)}\n\n`);
-      });
-
-      // Heartbeat every 15s
-      const pingInterval = setInterval(() => {
-        send(`: ping\n\n`);
-      }, 15000);
-
-      // Cleanup on close
-      request.signal.addEventListener('abort', () => {
-        unsubscribe();
-        clearInterval(pingInterval);
-        try { controller.close(); } catch { /* already closed */ }
-      });
-    },
+  // Resumable: EventSource sends Last-Event-ID (the outbox seq) on reconnect.
+  const stream = createRealtimeEventStream({
+    stream: 'sales',
+    workshopId,
+    lastEventId: readLastEventId(request),
+    signal: request.signal,
+    openPayload: { workshopId },
+    serialize: (evt) => ({ id: evt.id, type: evt.type, payload: evt.payload }),
   });
 
   return new Response(stream, {
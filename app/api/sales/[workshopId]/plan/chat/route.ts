@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import { prisma } from '@/lib/prisma';
 import { getSession } from '@/lib/auth/session';
 import type { MeetingPlan } from '@/lib/sales/sales-analysis';
+import { getLLMClient, type LLMMessage } from '@/lib/llm';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 
 export const dynamic = 'force-dynamic';
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+const llm = getLLMClient('sales-plan-chat');
 
 export async function POST(
   request: NextRequest,
@@ -67,7 +68,7 @@ Guidelines:
 - Keep responses concise (2-4 paragraphs max unless they ask for detail)
 - When suggesting talk tracks, make them conversational, not scripted`;
 
-    const messages: OpenAI.ChatCompletionMessageParam[] = [
+    const messages: LLMMessage[] = [
       { role: 'system', content: systemPrompt },
       ...(chatHistory || []).slice(-10).map((m) => ({
         role: m.role as 'user' | 'assistant',
@@ -76,14 +77,14 @@ Guidelines:
       { role: 'user', content: message },
     ];
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const response = await withOrganizationLLMConfig(workshop.organizationId, () => llm.chat({
+      tier: 'fast',
       messages,
       temperature: 0.5,
-      max_tokens: 1000,
-    });
+      maxTokens: 1000,
+    }));
 
-    const reply = response.choices[0]?.message?.content || 'I couldn\'t generate a response. Please try again.';
+    const reply = response.content || 'I couldn\'t generate a response. Please try again.';
 
     return NextResponse.json({ reply });
   } catch (error) {
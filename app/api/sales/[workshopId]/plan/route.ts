@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getSession } from '@/lib/auth/session';
 import { generateAgenticStrategy } from '@/lib/agents/sales-call-agent';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import type { MeetingPlan } from '@/lib/sales/sales-analysis';
 
 export const dynamic = 'force-dynamic';
@@ -106,7 +107,7 @@ export async function POST(
     }
 
     const plan = (workshop.meetingPlan as MeetingPlan) || {};
-    const result = await generateAgenticStrategy(plan);
+    const result = await withOrganizationLLMConfig(workshop.organizationId, () => generateAgenticStrategy(plan));
 
     // Save structured strategy back into the meeting plan
     const updatedPlan = { ...plan, generatedStrategy: JSON.parse(JSON.stringify(result)) };
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getSession } from '@/lib/auth/session';
 import { generateSalesReport } from '@/lib/sales/sales-report-generator';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 
 export const dynamic = 'force-dynamic';
 
@@ -68,7 +69,7 @@ export async function POST(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    const report = await generateSalesReport(workshopId);
+    const report = await withOrganizationLLMConfig(workshop.organizationId, () => generateSalesReport(workshopId));
 
     return NextResponse.json({ report });
   } catch (error) {
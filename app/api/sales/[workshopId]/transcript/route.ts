@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { encryptTenantFields, encryptTenantValue } from '@/lib/workshop-encryption';
 import { getSession } from '@/lib/auth/session';
+import { loadWorkshopPiiRedactor } from '@/lib/pii/vault';
 import { nanoid } from 'nanoid';
 import { emitSalesEvent } from '@/lib/sales/sales-events';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import {
   analyzeSalesUtteranceAgentically,
   extractPlanCoverageItems,
@@ -43,15 +46,34 @@ export async function POST(
     }
 
     const body = await request.json();
-    const { speakerId, startTime, endTime, text, rawText, confidence, source, slmMetadata, traceId } = body;
+    const { speakerId, startTime, endTime, confidence, source, slmMetadata, traceId } = body;
+    let { text, rawText } = body;
 
     if (!text || text.trim().length === 0) {
       return NextResponse.json({ success: true, skipped: true });
     }
 
+    // PII redaction — before dedup, storage and the sales agent
+    const piiRedactor = await loadWorkshopPiiRedactor(workshopId);
+    if (piiRedactor) {
+      text = await piiRedactor.redact(text);
+      if (rawText) rawText = await piiRedactor.redact(rawText);
+      if (Array.isArray(slmMetadata?.entities)) {
+        slmMetadata.entities = await Promise.all(slmMetadata.entities.map(async (entity: { value?: unknown }) => (
+          typeof entity?.value === 'string' ? { ...entity, value: await piiRedactor.redact(entity.value) } : entity
+        )));
+      }
+    }
+
     // Dedup check
     const existing = await prisma.transcriptChunk.findFirst({
-      where: { workshopId, speakerId, startTimeMs: startTime, endTimeMs: endTime, text },
+      where: {
+        workshopId,
+        speakerId,
+        startTimeMs: startTime,
+        endTimeMs: endTime,
+        text: await encryptTenantValue('transcriptChunk', 'text', { workshopId }, text),
+      },
       include: { dataPoint: true },
     });
 
@@ -70,7 +92,7 @@ export async function POST(
 
     await prisma.$transaction([
       prisma.transcriptChunk.create({
-        data: {
+        data: await encryptTenantFields('transcriptChunk', { workshopId }, {
           id: chunkId,
           workshopId,
           speakerId: speakerId || null,
@@ -78,9 +100,9 @@ export async function POST(
           endTimeMs: endTime || 0,
           text: text.trim(),
           confidence: confidence ?? null,
-          source: source === 'whisper' ? 'WHISPER' : 'DEEPGRAM',
+          source: source === 'whisper' ? 'WHISPER' as const : source === 'local' ? 'LOCAL' as const : 'DEEPGRAM' as const,
           metadata: { rawText, slmMetadata },
-        },
+        }),
       }),
       prisma.dataPoint.create({
         data: {
@@ -98,7 +120,7 @@ export async function POST(
 
     // Emit SSE event for live UI (transcript chunk is saved)
     const t_sseEmitted = Date.now();
-    emitSalesEvent(workshopId, {
+    await emitSalesEvent(workshopId, {
       type: 'transcript.new',
       payload: {
         id: chunkId,
@@ -125,7 +147,7 @@ export async function POST(
     // Run agentic analysis asynchronously (don't block the HTTP response)
     // Same pattern as DREAM's workshop transcript route
     // -----------------------------------------------------------------------
-    void (async () => {
+    void withOrganizationLLMConfig(workshopAuth.organizationId, async () => {
       try {
         // Fetch workshop context + meeting plan
         const workshop = await prisma.workshop.findUnique({
@@ -274,7 +296,7 @@ export async function POST(
         });
 
         // Emit real-time event with intelligence for live coaching UI
-        emitSalesEvent(workshopId, {
+        await emitSalesEvent(workshopId, {
           type: 'intelligence.update',
           payload: {
             dataPointId: dpId,
@@ -303,7 +325,7 @@ export async function POST(
         // Don't fail transcript ingestion if agentic analysis fails
         console.error('Sales agentic analysis failed (non-blocking):', error);
       }
-    })();
+    });
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,30 @@
+/**
+ * GET /api/scim/v2/ServiceProviderConfig
+ *
+ * What this SCIM endpoint supports (RFC 7643 §5). Public, as provisioning
+ * clients read it before they have been given a token.
+ */
+
+import { scimJson } from '@/lib/scim/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return scimJson({
+    schemas: ['urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig'],
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: 200 },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [
+      {
+        type: 'oauthbearertoken',
+        name: 'Bearer token',
+        description: 'Organisation-scoped token issued from the platform admin console',
+        primary: true,
+      },
+    ],
+  });
+}
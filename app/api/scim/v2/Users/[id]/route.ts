@@ -0,0 +1,58 @@
+/**
+ * /api/scim/v2/Users/[id]
+ *
+ *   GET    — one user or exec licence holder
+ *   PUT    — replace its attributes
+ *   PATCH  — SCIM PatchOp (add / replace / remove)
+ *   DELETE — deprovision: deactivate and revoke its sessions
+ *
+ * Scoped to the bearer token's organisation — see lib/scim/users.ts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateScimRequest } from '@/lib/scim/auth';
+import { ScimError, handleScim, scimJson } from '@/lib/scim/types';
+import { deleteScimUser, getScimUser, patchScimUser, replaceScimUser } from '@/lib/scim/users';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function readBody(request: NextRequest): Promise<unknown> {
+  return request.json().catch(() => {
+    throw new ScimError('Request body must be JSON', 400, 'invalidSyntax');
+  });
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  return handleScim(async () => {
+    const principal = await authenticateScimRequest(request);
+    const { id } = await params;
+    return scimJson(await getScimUser(principal.organizationId, id));
+  });
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  return handleScim(async () => {
+    const principal = await authenticateScimRequest(request);
+    const { id } = await params;
+    return scimJson(await replaceScimUser(principal, id, await readBody(request)));
+  });
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  return handleScim(async () => {
+    const principal = await authenticateScimRequest(request);
+    const { id } = await params;
+    return scimJson(await patchScimUser(principal, id, await readBody(request)));
+  });
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  return handleScim(async () => {
+    const principal = await authenticateScimRequest(request);
+    const { id } = await params;
+    await deleteScimUser(principal, id);
+    return new NextResponse(null, { status: 204 });
+  });
+}
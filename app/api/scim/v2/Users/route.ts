@@ -0,0 +1,39 @@
+/**
+ * /api/scim/v2/Users
+ *
+ * SCIM 2.0 user provisioning for the organisation the bearer token belongs
+ * to — see lib/scim/users.ts.
+ *
+ *   GET  — list users and exec licence holders (filter: userName / externalId / emails eq)
+ *   POST — provision a user, or an ExecLicence holder when the role is EXECUTIVE
+ */
+
+import { NextRequest } from 'next/server';
+import { authenticateScimRequest } from '@/lib/scim/auth';
+import { ScimError, handleScim, scimJson } from '@/lib/scim/types';
+import { createScimUser, listScimUsers } from '@/lib/scim/users';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return handleScim(async () => {
+    const principal = await authenticateScimRequest(request);
+    const params = request.nextUrl.searchParams;
+    const list = await listScimUsers(principal.organizationId, {
+      filter: params.get('filter'),
+      startIndex: Number(params.get('startIndex')) || undefined,
+      count: params.has('count') ? Number(params.get('count')) || 0 : undefined,
+    });
+    return scimJson(list);
+  });
+}
+
+export async function POST(request: NextRequest) {
+  return handleScim(async () => {
+    const principal = await authenticateScimRequest(request);
+    const body = await request.json().catch(() => {
+      throw new ScimError('Request body must be JSON', 400, 'invalidSyntax');
+    });
+    return scimJson(await createScimUser(principal, body), 201);
+  });
+}
@@ -0,0 +1,18 @@
+/**
+ * GET /api/v1/openapi.json
+ *
+ * The OpenAPI 3.1 document for the public API (lib/public-api/openapi.ts).
+ * Public — the spec describes the API, it grants nothing.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/public-api/openapi';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const serverUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+  return NextResponse.json(buildOpenApiDocument(serverUrl), {
+    headers: { 'Cache-Control': 'public, max-age=300' },
+  });
+}
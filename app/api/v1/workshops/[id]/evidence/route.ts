@@ -0,0 +1,56 @@
+/**
+ * POST /api/v1/workshops/[id]/evidence  [evidence:write]
+ *
+ * Upload evidence documents (multipart/form-data, field name: "files").
+ * Same validation and ingestion as the admin evidence upload.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { ingestEvidenceFiles, validateEvidenceFiles } from '@/lib/evidence/ingest';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
+import { handleApiRequest } from '@/lib/public-api/handler';
+import { ApiError } from '@/lib/public-api/keys';
+import { requireApiWorkshop } from '@/lib/public-api/workshops';
+
+export const dynamic = 'force-dynamic';
+// Allow up to 300s for extraction and transcription, as the admin upload does
+export const maxDuration = 300;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handleApiRequest(request, 'evidence:write', async (principal) => {
+    const { id: workshopId } = await params;
+    await requireApiWorkshop(principal, workshopId);
+
+    const formData = await request.formData().catch(() => {
+      throw new ApiError('Request body must be multipart/form-data');
+    });
+    const files = formData.getAll('files').filter((f): f is File => f instanceof File);
+
+    const invalid = validateEvidenceFiles(files);
+    if (invalid) throw new ApiError(invalid);
+
+    const results = await withOrganizationLLMConfig(principal.organizationId, () =>
+      ingestEvidenceFiles(workshopId, files),
+    );
+
+    const uploaded = results.filter((r) => r.status === 'ready');
+    if (uploaded.length > 0) {
+      logAuditEvent({
+        organizationId: principal.organizationId,
+        userId: principal.actingUserId,
+        action: 'UPLOAD_EVIDENCE',
+        resourceType: 'workshop',
+        resourceId: workshopId,
+        method: 'POST',
+        path: `/api/v1/workshops/${workshopId}/evidence`,
+        metadata: { apiKeyId: principal.keyId, fileCount: uploaded.length, fileNames: uploaded.map((r) => r.fileName) },
+      }).catch((err) => console.error('[audit] api_upload_evidence:', err));
+    }
+
+    return NextResponse.json({ documents: results });
+  });
+}
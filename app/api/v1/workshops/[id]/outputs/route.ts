@@ -0,0 +1,23 @@
+/**
+ * GET /api/v1/workshops/[id]/outputs  [outputs:read]
+ *
+ * Output intelligence and the scratchpad's synthesised v2 output, passed
+ * through the participant redaction layer. Either is null until generated.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiRequest } from '@/lib/public-api/handler';
+import { getApiWorkshopOutputs, requireApiWorkshop } from '@/lib/public-api/workshops';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handleApiRequest(request, 'outputs:read', async (principal) => {
+    const { id: workshopId } = await params;
+    await requireApiWorkshop(principal, workshopId);
+    return NextResponse.json(await getApiWorkshopOutputs(workshopId));
+  });
+}
@@ -0,0 +1,46 @@
+/**
+ * POST /api/v1/workshops/[id]/participants  [participants:write]
+ *
+ * Bulk-add participants ({ participants: [...] }, up to MAX_BULK_PARTICIPANTS).
+ * Duplicate emails are reported as skipped; each created participant comes
+ * back with their discovery link.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { handleApiRequest } from '@/lib/public-api/handler';
+import { bulkAddApiParticipants, requireApiWorkshop } from '@/lib/public-api/workshops';
+import { BulkCreateParticipantsSchema, zodError } from '@/lib/validation/schemas';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handleApiRequest(request, 'participants:write', async (principal) => {
+    const { id: workshopId } = await params;
+    await requireApiWorkshop(principal, workshopId);
+
+    const rawBody = await request.json().catch(() => null);
+    const parsed = BulkCreateParticipantsSchema.safeParse(rawBody);
+    if (!parsed.success) return zodError(parsed.error);
+
+    const result = await bulkAddApiParticipants(workshopId, parsed.data.participants);
+
+    if (result.created.length > 0) {
+      logAuditEvent({
+        organizationId: principal.organizationId,
+        userId: principal.actingUserId,
+        action: 'CREATE_PARTICIPANT',
+        resourceType: 'workshop',
+        resourceId: workshopId,
+        method: 'POST',
+        path: `/api/v1/workshops/${workshopId}/participants`,
+        metadata: { apiKeyId: principal.keyId, created: result.created.length, skipped: result.skipped.length },
+      }).catch((err) => console.error('[audit] api_create_participants:', err));
+    }
+
+    return NextResponse.json(result);
+  });
+}
@@ -0,0 +1,21 @@
+/**
+ * GET /api/v1/workshops/[id]  [workshops:read]
+ *
+ * One workshop of the key's organisation, with participant counts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiRequest } from '@/lib/public-api/handler';
+import { getApiWorkshop } from '@/lib/public-api/workshops';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handleApiRequest(request, 'workshops:read', async (principal) => {
+    const { id: workshopId } = await params;
+    return NextResponse.json(await getApiWorkshop(principal, workshopId));
+  });
+}
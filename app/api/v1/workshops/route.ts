@@ -0,0 +1,55 @@
+/**
+ * /api/v1/workshops
+ *
+ *   GET  — the organisation's workshops, newest first (?page, ?limit ≤ 100)  [workshops:read]
+ *   POST — create a workshop (CreateWorkshopSchema)                          [workshops:write]
+ *
+ * Created workshops are owned by the API key's acting user.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { getClientIp } from '@/lib/audit/log-action';
+import { handleApiRequest } from '@/lib/public-api/handler';
+import { getApiWorkshop, listApiWorkshops } from '@/lib/public-api/workshops';
+import { createWorkshop } from '@/lib/workshop/create-workshop';
+import { CreateWorkshopSchema, zodError } from '@/lib/validation/schemas';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  return handleApiRequest(request, 'workshops:read', async (principal) => {
+    const params = request.nextUrl.searchParams;
+    return NextResponse.json(await listApiWorkshops(principal, {
+      page: Number(params.get('page')) || undefined,
+      limit: Number(params.get('limit')) || undefined,
+    }));
+  });
+}
+
+export async function POST(request: NextRequest) {
+  return handleApiRequest(request, 'workshops:write', async (principal) => {
+    const rawBody = await request.json().catch(() => null);
+    const parsed = CreateWorkshopSchema.safeParse(rawBody);
+    if (!parsed.success) return zodError(parsed.error);
+
+    const workshop = await createWorkshop(parsed.data, {
+      organizationId: principal.organizationId,
+      createdById: principal.actingUserId,
+    });
+
+    logAuditEvent({
+      organizationId: principal.organizationId,
+      userId: principal.actingUserId,
+      action: 'CREATE_WORKSHOP',
+      resourceType: 'workshop',
+      resourceId: workshop.id,
+      method: 'POST',
+      path: '/api/v1/workshops',
+      ipAddress: getClientIp(request) ?? undefined,
+      metadata: { apiKeyId: principal.keyId, name: workshop.name },
+    }).catch((err) => console.error('[audit] api_create_workshop:', err));
+
+    return NextResponse.json(await getApiWorkshop(principal, workshop.id), { status: 201 });
+  });
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { decryptTenantRecords } from '@/lib/workshop-encryption';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import {
@@ -7,6 +8,7 @@ import {
   AgenticContext,
   AgenticAnalysis,
 } from '@/lib/agents/workshop-analyst-agent';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
@@ -62,7 +64,7 @@ export async function POST(
     }
 
     // Build agent context from recent transcripts
-    const recentTranscripts = await prisma.transcriptChunk.findMany({
+    const recentTranscripts = await decryptTenantRecords('transcriptChunk', await prisma.transcriptChunk.findMany({
       where: { workshopId },
       orderBy: { createdAt: 'desc' },
       take: 20, // Agent needs more context than simple classification
@@ -78,7 +80,7 @@ export async function POST(
           },
         },
       },
-    });
+    }));
 
     // Get emerging themes from prior data points
     const existingThemes = await prisma.dataPointClassification.findMany({
@@ -130,12 +132,14 @@ export async function POST(
     };
 
     // Run the agentic analysis
-    const analysis: AgenticAnalysis = await analyzeUtteranceAgentically({
-      utterance: body.text,
-      speaker: body.speaker,
-      utteranceId: body.utteranceId,
-      context: agenticContext,
-    });
+    const analysis: AgenticAnalysis = await withOrganizationLLMConfig(access.workshop?.organizationId, () =>
+      analyzeUtteranceAgentically({
+        utterance: body.text,
+        speaker: body.speaker,
+        utteranceId: body.utteranceId,
+        context: agenticContext,
+      }),
+    );
 
     // Store the analysis
     // TODO: Create a new table for agentic analysis results
@@ -2,12 +2,20 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
+import { readOutboxEvents, settledOutboxCursor } from '@/lib/realtime/outbox';
 
 /**
- * GET /api/workshops/[id]/events/poll?after=<ISO>&types=pad.generated,agent.conversation&limit=100
+ * GET /api/workshops/[id]/events/poll?afterSeq=<seq>&types=pad.generated,agent.conversation&limit=100
  *
  * Cursor-based polling endpoint for the event outbox.
- * Returns events newer than `after`, optionally filtered by `types`.
+ * Returns events after `afterSeq` (the outbox sequence number — same cursor as
+ * the SSE Last-Event-ID), optionally filtered by `types`. The older
+ * `after=<ISO>&afterId=<id>` timestamp cursor is still accepted for a
+ * client's first poll, before it has seen a seq.
+ *
+ * `nextAfterSeq` is the cursor for the next poll. It only moves past settled
+ * rows (lib/realtime/outbox.ts), so an event whose seq was allocated before a
+ * later one but committed after it is still picked up; clients dedup by id.
  *
  * This is the durable delivery mechanism for events that originate
  * inside `after()` callbacks on Vercel serverless — where in-memory
@@ -30,6 +38,7 @@ export async function GET(
       return NextResponse.json({ error: access.error }, { status: 403 });
     }
 
+    const afterSeqParam = request.nextUrl.searchParams.get('afterSeq');
     const after = request.nextUrl.searchParams.get('after') || new Date(0).toISOString();
     const afterId = request.nextUrl.searchParams.get('afterId') || '';
     const typesParam = request.nextUrl.searchParams.get('types') || '';
@@ -39,28 +48,41 @@ export async function GET(
     const afterDate = new Date(after);
     const typeFilter = types ? { type: { in: types } } : {};
 
-    // Composite cursor: events after `after`, plus same-millisecond tiebreaker by id.
-    // This prevents dropped events when multiple events share the same createdAt timestamp.
-    const events = await (prisma as any).workshopEventOutbox.findMany({
-      where: {
-        workshopId,
-        ...typeFilter,
-        OR: [
-          { createdAt: { gt: afterDate } },
-          ...(afterId ? [{ createdAt: afterDate, id: { gt: afterId } }] : []),
-        ],
-      },
-      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
-      take: limit,
-    });
+    const afterSeq = afterSeqParam !== null ? parseInt(afterSeqParam, 10) : NaN;
+
+    // Seq cursor is exact. The legacy composite cursor (createdAt, id) is kept
+    // for first polls: events after `after`, plus same-millisecond tiebreaker by id.
+    const events = Number.isFinite(afterSeq)
+      ? await readOutboxEvents({ stream: 'workshop', workshopId, afterSeq, types, limit })
+      : (
+          await prisma.workshopEventOutbox.findMany({
+            where: {
+              workshopId,
+              stream: 'workshop',
+              ...typeFilter,
+              OR: [
+                { createdAt: { gt: afterDate } },
+                ...(afterId ? [{ createdAt: afterDate, id: { gt: afterId } }] : []),
+              ],
+            },
+            orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+            take: limit,
+          })
+        ).map((e) => ({ ...e, createdAt: e.createdAt.getTime() }));
+
+    const nextAfterSeq = Number.isFinite(afterSeq)
+      ? settledOutboxCursor(events, afterSeq)
+      : settledOutboxCursor(events, 0) || null;
 
     return NextResponse.json({
       ok: true,
-      events: events.map((e: any) => ({
+      nextAfterSeq,
+      events: events.map((e) => ({
         id: e.id,
+        seq: e.seq,
         type: e.type,
         payload: e.payload,
-        createdAt: e.createdAt.toISOString(),
+        createdAt: new Date(e.createdAt).toISOString(),
       })),
     });
   } catch (error) {
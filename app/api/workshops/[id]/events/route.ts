@@ -1,5 +1,5 @@
 import { NextRequest } from 'next/server';
-import { subscribeWorkshopEvents } from '@/lib/realtime/workshop-events';
+import { createRealtimeEventStream, readLastEventId } from '@/lib/realtime/sse';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 
@@ -20,45 +20,12 @@ export async function GET(
     return new Response('Forbidden', { status: 403 });
   }
 
-  const encoder = new TextEncoder();
-
-  const stream = new ReadableStream<Uint8Array>({
-    start(controller) {
-      const send = (data: string) => {
-        controller.enqueue(encoder.encode(data));
-      };
-
-      // Initial event so the client knows the stream is alive.
-      send(`event: open\n`);
-      send(`data: {}\n\n`);
-
-      const unsubscribe = subscribeWorkshopEvents(workshopId, (evt) => {
-        send(`event: ${evt.type}\n`);
-        send(`data: ${JSON.stringify(evt)}\n\n`);
-      });
-
-      const ping = setInterval(() => {
-        // Comment line keeps some proxies from closing the connection.
-        send(`: ping\n\n`);
-      }, 15000);
-
-      const onAbort = () => {
-        clearInterval(ping);
-        unsubscribe();
-        try {
-          controller.close();
-        } catch {
-          // ignore
-        }
-      };
-
-      if (request.signal.aborted) {
-        onAbort();
-        return;
-      }
-
-      request.signal.addEventListener('abort', onAbort);
-    },
+  // Resumable: EventSource sends Last-Event-ID (the outbox seq) on reconnect.
+  const stream = createRealtimeEventStream({
+    stream: 'workshop',
+    workshopId,
+    lastEventId: readLastEventId(request),
+    signal: request.signal,
   });
 
   return new Response(stream, {
@@ -3,12 +3,18 @@
  *
  * GET  --Returns current guidance state for the workshop
  *        With ?init=true: also loads prep data (customQuestions, research, briefing)
- *        from the DB and populates prepContext in the in-memory guidance state.
+ *        from the DB and populates prepContext in the guidance state.
  * POST --Updates guidance state (facilitator actions)
  *
  * This endpoint syncs facilitator-side state to the server so agents
  * can read it before invoking. Updates include: advance theme, modify
  * journey, toggle freeflow, change dialogue phase.
+ *
+ * Both handlers recover the state from its persisted copy on first access
+ * in this instance and write changes through (lib/cognition/guidance-state.ts).
+ *
+ * With ?room=<id> both address a breakout room's guidance state instead of
+ * the plenary's (lib/live/breakout-rooms.ts).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -18,6 +24,8 @@ import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-acces
 import {
   getGuidanceState,
   getOrCreateGuidanceState,
+  persistGuidanceState,
+  recoverGuidanceState,
   updateGuidanceState,
   type GuidedTheme,
 } from '@/lib/cognition/guidance-state';
@@ -25,6 +33,8 @@ import type { DialoguePhase } from '@/lib/cognitive-guidance/pipeline';
 import type { WorkshopPrepResearch, WorkshopIntelligence } from '@/lib/cognition/agents/agent-types';
 import { readBlueprintFromJson } from '@/lib/workshop/blueprint';
 import { readHistoricalMetricsFromJson } from '@/lib/historical-metrics/types';
+import { liveSessionKey } from '@/lib/cognition/live-state-persistence';
+import { findBreakoutRoom } from '@/lib/live/breakout-rooms';
 
 export const dynamic = 'force-dynamic';
 
@@ -40,6 +50,14 @@ async function authenticateWorkshop(workshopId: string) {
   return { error: null, status: 200 };
 }
 
+/** Session key for the plenary, or for the breakout room in ?room= (null if unknown) */
+async function resolveSessionKey(request: NextRequest, workshopId: string): Promise<string | null> {
+  const roomId = new URL(request.url).searchParams.get('room');
+  if (!roomId) return workshopId;
+  const room = await findBreakoutRoom(workshopId, roomId);
+  return room ? liveSessionKey(workshopId, room.id) : null;
+}
+
 // ══════════════════════════════════════════════════════════════
 // GET --Return current guidance state
 // ══════════════════════════════════════════════════════════════
@@ -55,6 +73,11 @@ export async function GET(
   const { searchParams } = new URL(request.url);
   const isInit = searchParams.get('init') === 'true';
 
+  const sessionKey = await resolveSessionKey(request, workshopId);
+  if (!sessionKey) return NextResponse.json({ error: 'Breakout room not found' }, { status: 404 });
+
+  await recoverGuidanceState(sessionKey);
+
   // ── Init mode: load prep data from DB and populate guidance state ──
   if (isInit) {
     const workshop = await prisma.workshop.findUnique({
@@ -74,7 +97,7 @@ export async function GET(
 
     if (workshop) {
       // Ensure guidance state exists
-      const state = getOrCreateGuidanceState(workshopId);
+      const state = getOrCreateGuidanceState(sessionKey);
 
       // Parse blueprint and historical metrics from DB JSON
       const blueprint = readBlueprintFromJson((workshop as any).blueprint);
@@ -83,7 +106,7 @@ export async function GET(
       // Populate prepContext + blueprint + historicalMetrics if not already set
       if (!state.prepContext) {
         const bpCoverage = blueprint?.questionPolicy?.coverageThresholdPercent;
-        updateGuidanceState(workshopId, {
+        updateGuidanceState(sessionKey, {
           prepContext: {
             clientName: workshop.clientName,
             industry: workshop.industry,
@@ -99,22 +122,24 @@ export async function GET(
       } else {
         // Blueprint or metrics may have been generated/uploaded after the first init
         if (!state.blueprint && blueprint) {
-          updateGuidanceState(workshopId, { blueprint });
+          updateGuidanceState(sessionKey, { blueprint });
         }
         if (!state.historicalMetrics && historicalMetrics) {
-          updateGuidanceState(workshopId, { historicalMetrics });
+          updateGuidanceState(sessionKey, { historicalMetrics });
         }
       }
 
+      await persistGuidanceState(sessionKey);
+
       return NextResponse.json({
-        guidanceState: getGuidanceState(workshopId),
+        guidanceState: getGuidanceState(sessionKey),
         customQuestions: workshop.customQuestions || null,
         blueprint,
       });
     }
   }
 
-  const state = getGuidanceState(workshopId);
+  const state = getGuidanceState(sessionKey);
   if (!state) {
     return NextResponse.json({
       guidanceState: null,
@@ -138,10 +163,14 @@ export async function POST(
   const { error, status } = await authenticateWorkshop(workshopId);
   if (error) return NextResponse.json({ error }, { status });
 
+  const sessionKey = await resolveSessionKey(request, workshopId);
+  if (!sessionKey) return NextResponse.json({ error: 'Breakout room not found' }, { status: 404 });
+
   const body = await request.json();
 
   // Ensure state exists
-  getOrCreateGuidanceState(workshopId);
+  await recoverGuidanceState(sessionKey);
+  getOrCreateGuidanceState(sessionKey);
 
   // Build updates from body
   const updates: Parameters<typeof updateGuidanceState>[1] = {};
@@ -181,7 +210,12 @@ export async function POST(
     }
   }
 
-  const updated = updateGuidanceState(workshopId, updates);
+  updateGuidanceState(sessionKey, updates);
+
+  // Facilitator actions win a conflict: re-apply them on top of the newer state
+  await persistGuidanceState(sessionKey, () => {
+    updateGuidanceState(sessionKey, updates);
+  });
 
-  return NextResponse.json({ guidanceState: updated });
+  return NextResponse.json({ guidanceState: getGuidanceState(sessionKey) });
 }
@@ -11,6 +11,7 @@ import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { runDiscoveryIntelligenceAgent } from '@/lib/cognition/agents/discovery-intelligence-agent';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import { hasDiscoveryData } from '@/lib/cognition/agents/agent-types';
 import { readBlueprintFromJson } from '@/lib/workshop/blueprint';
 import type { PrepContext, AgentConversationEntry, WorkshopPrepResearch } from '@/lib/cognition/agents/agent-types';
@@ -100,9 +101,11 @@ export async function POST(
       } satisfies AgentConversationEntry);
 
       try {
-        const intelligence = await runDiscoveryIntelligenceAgent(context, research, (entry) => {
-          sendEvent('agent.conversation', entry);
-        });
+        const intelligence = await withOrganizationLLMConfig(validation.workshop?.organizationId, () =>
+          runDiscoveryIntelligenceAgent(context, research, (entry) => {
+            sendEvent('agent.conversation', entry);
+          }),
+        );
 
         // Store briefing
         await prisma.workshop.update({
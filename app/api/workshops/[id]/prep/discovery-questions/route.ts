@@ -10,6 +10,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getSession } from '@/lib/auth/session';
 import { runDiscoveryQuestionAgent } from '@/lib/cognition/agents/discovery-question-agent';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import { readBlueprintFromJson } from '@/lib/workshop/blueprint';
 import type { AgentConversationEntry } from '@/lib/cognition/agents/agent-types';
 
@@ -78,6 +79,7 @@ export async function POST(
     where: { id: workshopId },
     select: {
       id: true,
+      organizationId: true,
       clientName: true,
       domainPack: true,
       domainPackConfig: true,
@@ -127,19 +129,21 @@ export async function POST(
       } satisfies AgentConversationEntry);
 
       try {
-        const questionSet = await runDiscoveryQuestionAgent(workshopId, (entry) => {
-          const mapped: AgentConversationEntry = {
-            timestampMs: Date.now(),
-            agent: 'discovery-question-agent',
-            to: 'prep-orchestrator',
-            message: entry.content,
-            type: (entry.role === 'proposal' ? 'proposal' : entry.role === 'request' ? 'request' : 'info') as AgentConversationEntry['type'],
-          };
-          sendEvent('agent.conversation', mapped);
-        }, {
-          direction,
-          blueprint,
-        });
+        const questionSet = await withOrganizationLLMConfig(workshop.organizationId, () =>
+          runDiscoveryQuestionAgent(workshopId, (entry) => {
+            const mapped: AgentConversationEntry = {
+              timestampMs: Date.now(),
+              agent: 'discovery-question-agent',
+              to: 'prep-orchestrator',
+              message: entry.content,
+              type: (entry.role === 'proposal' ? 'proposal' : entry.role === 'request' ? 'request' : 'info') as AgentConversationEntry['type'],
+            };
+            sendEvent('agent.conversation', mapped);
+          }, {
+            direction,
+            blueprint,
+          }),
+        );
 
         // Orchestrator acknowledgement
         const totalQs = questionSet.lenses.reduce((sum, l) => sum + l.questions.length, 0);
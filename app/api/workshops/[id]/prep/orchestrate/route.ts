@@ -14,6 +14,7 @@ import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { strictLimiter } from '@/lib/rate-limit';
 import { runPrepOrchestrator } from '@/lib/cognition/agents/prep-orchestrator';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import { ResearchClarificationNeededError } from '@/lib/cognition/agents/research-agent';
 import { readBlueprintFromJson } from '@/lib/workshop/blueprint';
 import { readHistoricalMetricsFromJson } from '@/lib/historical-metrics/types';
@@ -104,9 +105,11 @@ export async function POST(
       }
 
       try {
-        const result = await runPrepOrchestrator(context, (entry) => {
-          sendEvent('agent.conversation', entry);
-        });
+        const result = await withOrganizationLLMConfig(validation.workshop?.organizationId, () =>
+          runPrepOrchestrator(context, (entry) => {
+            sendEvent('agent.conversation', entry);
+          }),
+        );
 
         if (result.research) {
           sendEvent('research.complete', { research: result.research });
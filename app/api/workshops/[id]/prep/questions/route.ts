@@ -14,6 +14,7 @@ import { prisma } from '@/lib/prisma';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { runQuestionSetAgent } from '@/lib/cognition/agents/question-set-agent';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import { hasDiscoveryData } from '@/lib/cognition/agents/agent-types';
 import { readBlueprintFromJson } from '@/lib/workshop/blueprint';
 import type { PrepContext, AgentConversationEntry, WorkshopPrepResearch, WorkshopQuestionSet } from '@/lib/cognition/agents/agent-types';
@@ -35,6 +36,7 @@ async function loadWorkshopPrep(workshopId: string) {
     where: { id: workshopId },
     select: {
       id: true,
+      organizationId: true,
       description: true,
       businessContext: true,
       clientName: true,
@@ -117,9 +119,11 @@ export async function POST(
       // are reported and the stream is cleanly closed.
       let questionSet: WorkshopQuestionSet | null = null;
       try {
-        questionSet = await runQuestionSetAgent(context, research, (entry) => {
-          sendEvent('agent.conversation', entry);
-        }, discoveryBriefing);
+        questionSet = await withOrganizationLLMConfig(workshop.organizationId, () =>
+          runQuestionSetAgent(context, research, (entry) => {
+            sendEvent('agent.conversation', entry);
+          }, discoveryBriefing),
+        );
       } catch (error) {
         sendEvent('agent.conversation', {
           timestampMs: Date.now(),
@@ -16,6 +16,8 @@ import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-acces
 import { runResearchAgent, ResearchClarificationNeededError } from '@/lib/cognition/agents/research-agent';
 import { generateBlueprint } from '@/lib/cognition/workshop-blueprint-generator';
 import { readBlueprintFromJson } from '@/lib/workshop/blueprint';
+import { loadWorkshopDomainPacks } from '@/lib/domain-packs/tenant-packs';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import type { PrepContext, AgentConversationEntry } from '@/lib/cognition/agents/agent-types';
 
 export const dynamic = 'force-dynamic';
@@ -59,6 +61,8 @@ export async function POST(
       // Blueprint-relevant fields for regeneration after research
       engagementType: true,
       domainPack: true,
+      organizationId: true,
+      domainPackVersionId: true,
       blueprint: true,
     },
   });
@@ -119,9 +123,11 @@ export async function POST(
         });
 
         // Run the Research Agent with conversation callbacks
-        const research = await runResearchAgent(context, (entry) => {
-          sendEvent('agent.conversation', entry);
-        });
+        const research = await withOrganizationLLMConfig(workshop.organizationId, () =>
+          runResearchAgent(context, (entry) => {
+            sendEvent('agent.conversation', entry);
+          }),
+        );
 
         // Regenerate blueprint with research-derived journey stages and dimensions
         const existingBp = readBlueprintFromJson(workshop.blueprint);
@@ -137,6 +143,7 @@ export async function POST(
           researchDimensions: research.industryDimensions ?? null,
           researchActors: research.actorTaxonomy ?? null,
           previousVersion: existingBp?.blueprintVersion ?? 0,
+          tenantPacks: await loadWorkshopDomainPacks(workshop),
         });
 
         // Store research and regenerated blueprint
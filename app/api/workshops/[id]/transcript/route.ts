@@ -2,17 +2,25 @@ import { NextRequest, NextResponse } from 'next/server';
 import { after } from 'next/server';
 import { nanoid } from 'nanoid';
 import { prisma } from '@/lib/prisma';
+import { decryptTenantFields, decryptTenantRecords, encryptTenantFields, encryptTenantValue } from '@/lib/workshop-encryption';
 import { getAuthenticatedUser } from '@/lib/auth/get-session-user';
 import { validateWorkshopAccess } from '@/lib/middleware/validate-workshop-access';
 import { apiLimiter } from '@/lib/rate-limit';
-import { emitWorkshopEvent, persistAndEmit } from '@/lib/realtime/workshop-events';
+import { emitWorkshopEvent, persistAndEmit, type WorkshopRealtimeEvent } from '@/lib/realtime/workshop-events';
 import { deriveIntent } from '@/lib/workshop/derive-intent';
 import type { FlushedUtterance } from '@/lib/workshop/utterance-buffer';
-import { getOrCreateCognitiveState } from '@/lib/cognition/state-store';
+import type { TranscriptionSource } from '@/lib/transcription/types';
+import { loadOrCreateCognitiveState, persistCognitiveState } from '@/lib/cognition/state-store';
+import { liveSessionKey } from '@/lib/cognition/live-state-persistence';
+import { persistGuidanceState, recoverGuidanceState } from '@/lib/cognition/guidance-state';
 import { applyCognitiveUpdate } from '@/lib/cognition/reasoning-engine';
 import { getGPT4oMiniEngine } from '@/lib/cognition/engines/gpt4o-mini-engine';
+import { withOrganizationLLMConfig } from '@/lib/llm/organization-config';
 import { runFacilitationOrchestrator } from '@/lib/cognition/agents/facilitation-orchestrator';
-import { pushUtterance } from '@/lib/cognition/cognitive-state';
+import { pushUtterance, type CognitiveState } from '@/lib/cognition/cognitive-state';
+import { registerSpeaker } from '@/lib/transcription/speaker-registry';
+import { loadWorkshopPiiRedactor } from '@/lib/pii/vault';
+import { findBreakoutRoom, roomSpeakerId } from '@/lib/live/breakout-rooms';
 
 // Journey agent + cognitive analysis run inside after() — up to 40s per cycle.
 // Without this, Vercel kills the background work before the journey agent completes.
@@ -25,7 +33,8 @@ type IngestTranscriptChunkBody = {
   text: string; // Clean text from SLM
   rawText?: string; // Original from transcription service
   confidence: number | null;
-  source: 'zoom' | 'deepgram' | 'whisper';
+  source: TranscriptionSource;
+  voiceProfile?: number[]; // On-device diariser profile (local capture only)
   dialoguePhase?: 'REIMAGINE' | 'CONSTRAINTS' | 'DEFINE_APPROACH' | null;
   flush?: boolean; // When true, force-flush the utterance buffer (e.g. capture stopped)
   // SLM metadata
@@ -84,14 +93,27 @@ async function processCompleteUtterance(
   bodySpeakerId: string | null,
   bodySlmMetadata?: Record<string, unknown>,
   traceId?: string,
+  bodyVoiceProfile?: unknown,
+  roomId: string | null = null,
 ) {
   const trace = traceId ? `[trace:${traceId}]` : '';
   const text = utterance.text;
-  const src = utterance.source === 'WHISPER' ? 'WHISPER' : utterance.source === 'ZOOM' ? 'ZOOM' : 'DEEPGRAM';
+  // A breakout room is its own live session; its events carry the room so
+  // each console renders only its own canvas
+  const sessionKey = liveSessionKey(workshopId, roomId);
+  const tag = (payload: unknown) => (roomId ? { ...(payload as Record<string, unknown>), roomId } : payload);
+  const emit = (event: { type: string; createdAt: number; payload: unknown }) =>
+    persistAndEmit(workshopId, { ...event, payload: tag(event.payload) });
+  const emitEphemeral = (event: WorkshopRealtimeEvent) =>
+    emitWorkshopEvent(workshopId, { ...event, payload: tag(event.payload) });
+  const src =
+    utterance.source === 'WHISPER' || utterance.source === 'ZOOM' || utterance.source === 'LOCAL'
+      ? utterance.source
+      : 'DEEPGRAM';
 
   // ── Fetch recent transcripts for context ──────────────────
-  const recentTranscripts = await prisma.transcriptChunk.findMany({
-    where: { workshopId },
+  const recentTranscripts = await decryptTenantRecords('transcriptChunk', await prisma.transcriptChunk.findMany({
+    where: { workshopId, breakoutRoomId: roomId },
     orderBy: { createdAt: 'desc' },
     take: 20,
     select: {
@@ -100,17 +122,19 @@ async function processCompleteUtterance(
       speakerId: true,
       createdAt: true,
     },
-  });
+  }));
 
   // ── Dedup check ───────────────────────────────────────────
+  // Transcript text is encrypted deterministically, so the lookup value is too.
   const existing = await prisma.transcriptChunk.findFirst({
     where: {
       workshopId,
       speakerId: utterance.speakerId || null,
       startTimeMs: utterance.startTimeMs,
       endTimeMs: utterance.endTimeMs,
-      text,
+      text: await encryptTenantValue('transcriptChunk', 'text', { workshopId }, text),
       source: src,
+      breakoutRoomId: roomId,
     },
     include: {
       dataPoint: {
@@ -139,8 +163,8 @@ async function processCompleteUtterance(
   }
 
   // ── Create merged transcript chunk ────────────────────────
-  const transcriptChunk = await prisma.transcriptChunk.create({
-    data: {
+  const transcriptChunk = await decryptTenantFields('transcriptChunk', await prisma.transcriptChunk.create({
+    data: await encryptTenantFields('transcriptChunk', { workshopId }, {
       workshopId,
       speakerId: utterance.speakerId || null,
       startTimeMs: utterance.startTimeMs,
@@ -148,6 +172,7 @@ async function processCompleteUtterance(
       text,
       confidence: utterance.confidence,
       source: src,
+      breakoutRoomId: roomId,
       metadata: (bodySlmMetadata || utterance.rawText
         ? {
             ...(utterance.rawText && { rawText: utterance.rawText }),
@@ -155,8 +180,16 @@ async function processCompleteUtterance(
             buffered: true, // Mark as assembled from multiple fragments
           }
         : undefined) as any,
-    },
-  });
+    }),
+  }));
+
+  // ── Speaker registry: attribute to the mapped participant ──
+  const participantId = utterance.speakerId
+    ? await registerSpeaker(workshopId, utterance.speakerId, bodyVoiceProfile).catch((error) => {
+        console.error(`[Transcript]${trace} Speaker registry unavailable:`, error);
+        return null;
+      })
+    : null;
 
   // ── Create DataPoint ──────────────────────────────────────
   const dataPoint = await prisma.dataPoint.create({
@@ -166,6 +199,8 @@ async function processCompleteUtterance(
       rawText: text,
       source: 'SPEECH',
       speakerId: utterance.speakerId || null,
+      participantId,
+      breakoutRoomId: roomId,
     },
   });
 
@@ -180,7 +215,7 @@ async function processCompleteUtterance(
   }
 
   // ── Persist + emit: node appears on hemisphere for all sessions ──
-  await persistAndEmit(workshopId, {
+  await emit({
     type: 'datapoint.created',
     createdAt: Date.now(),
     payload: {
@@ -223,7 +258,7 @@ async function processCompleteUtterance(
       update: { intent },
     });
 
-    await persistAndEmit(workshopId, {
+    await emit({
       type: 'annotation.updated',
       createdAt: Date.now(),
       payload: {
@@ -244,118 +279,96 @@ async function processCompleteUtterance(
     try {
       const workshop = await prisma.workshop.findUnique({
         where: { id: workshopId },
-        select: { name: true, description: true, businessContext: true, prepResearch: true },
+        select: { name: true, description: true, businessContext: true, prepResearch: true, organizationId: true },
       });
       if (!workshop) return;
 
-      // Get or create the cognitive state for this workshop
-      const cognitiveState = getOrCreateCognitiveState(
-        workshopId,
-        workshop.businessContext || workshop.description || workshop.name,
-        (dialoguePhase as 'REIMAGINE' | 'CONSTRAINTS' | 'DEFINE_APPROACH') || 'REIMAGINE',
-      );
+      // Every agent below runs under the organisation's LLM selection
+      await withOrganizationLLMConfig(workshop.organizationId, async () => {
+        // Get or create the cognitive state for this session (recovered from the
+        // persisted copy if this instance has not seen the session yet)
+        let cognitiveState = await loadOrCreateCognitiveState(
+          sessionKey,
+          workshop.businessContext || workshop.description || workshop.name,
+          (dialoguePhase as 'REIMAGINE' | 'CONSTRAINTS' | 'DEFINE_APPROACH') || 'REIMAGINE',
+        );
 
-      // Populate custom dimensions from research (if available and not already set)
-      if (!cognitiveState.customDimensions && workshop.prepResearch) {
-        const research = workshop.prepResearch as Record<string, unknown>;
-        if (Array.isArray(research.industryDimensions) && research.industryDimensions.length > 0) {
-          cognitiveState.customDimensions = research.industryDimensions as unknown as typeof cognitiveState.customDimensions;
+        // Populate custom dimensions from research (if available and not already set)
+        if (!cognitiveState.customDimensions && workshop.prepResearch) {
+          const research = workshop.prepResearch as Record<string, unknown>;
+          if (Array.isArray(research.industryDimensions) && research.industryDimensions.length > 0) {
+            cognitiveState.customDimensions = research.industryDimensions as unknown as typeof cognitiveState.customDimensions;
+          }
         }
-      }
 
-      // Run the cognitive reasoning engine
-      const engine = getGPT4oMiniEngine();
-      console.log(`[Cognitive]${trace} Processing utterance:`, text.substring(0, 100));
+        // Run the cognitive reasoning engine
+        const engine = getGPT4oMiniEngine();
+        console.log(`[Cognitive]${trace} Processing utterance:`, text.substring(0, 100));
 
-      const stateUpdate = await engine.processUtterance(
-        cognitiveState,
-        {
-          text,
-          speaker: bodySpeakerId,
-          utteranceId: dataPoint.id,
-          startTimeMs: utterance.startTimeMs,
-          endTimeMs: utterance.endTimeMs,
-        },
-        // Live reasoning callback — emits each agentic tool call as an SSE event in real-time
-        (entry) => {
-          emitWorkshopEvent(workshopId, {
-            id: nanoid(),
-            type: 'agentic.reasoning',
-            createdAt: entry.timestampMs,
-            payload: {
-              level: entry.level,
-              icon: entry.icon,
-              summary: entry.summary,
-              details: entry.details,
-            },
-          });
-        },
-      );
-
-      // Apply the update to the cognitive state (state engine owns dynamics)
-      const events = applyCognitiveUpdate(cognitiveState, stateUpdate, dataPoint.id);
-
-      // Store raw utterance text for agent grounding
-      pushUtterance(cognitiveState, {
-        id: dataPoint.id,
-        text,
-        speaker: bodySpeakerId,
-        timestampMs: utterance.startTimeMs,
-      });
+        const stateUpdate = await engine.processUtterance(
+          cognitiveState,
+          {
+            text,
+            speaker: bodySpeakerId,
+            utteranceId: dataPoint.id,
+            startTimeMs: utterance.startTimeMs,
+            endTimeMs: utterance.endTimeMs,
+          },
+          // Live reasoning callback — emits each agentic tool call as an SSE event in real-time
+          (entry) => {
+            emitEphemeral({
+              id: nanoid(),
+              type: 'agentic.reasoning',
+              createdAt: entry.timestampMs,
+              payload: {
+                level: entry.level,
+                icon: entry.icon,
+                summary: entry.summary,
+                details: entry.details,
+              },
+            });
+          },
+        );
 
-      console.log(`[Cognitive]${trace} Result:`, {
-        primaryType: stateUpdate.primaryType,
-        meaning: stateUpdate.classification.semanticMeaning.substring(0, 80),
-        newBeliefs: events.newBeliefs.length,
-        reinforced: events.reinforcedBeliefs.length,
-        stabilised: events.stabilisedBeliefs.length,
-        contradictions: events.newContradictions.length,
-        totalBeliefs: cognitiveState.beliefs.size,
-      });
+        // Apply the update to the cognitive state (state engine owns dynamics)
+        // and store raw utterance text for agent grounding
+        const applyUtterance = (state: CognitiveState) => {
+          const applied = applyCognitiveUpdate(state, stateUpdate, dataPoint.id);
+          pushUtterance(state, {
+            id: dataPoint.id,
+            text,
+            speaker: bodySpeakerId,
+            timestampMs: utterance.startTimeMs,
+          });
+          return applied;
+        };
+        let events = applyUtterance(cognitiveState);
+
+        // Write through. If another instance moved the session on in the meantime,
+        // this utterance is re-applied to its newer state instead.
+        await persistCognitiveState(sessionKey, (latest) => {
+          cognitiveState = latest;
+          events = applyUtterance(latest);
+        });
 
-      // Store agentic analysis (backwards-compatible with existing schema)
-      await prisma.agenticAnalysis.create({
-        data: {
-          dataPointId: dataPoint.id,
-          semanticMeaning: stateUpdate.classification.semanticMeaning,
-          speakerIntent: stateUpdate.classification.speakerIntent,
-          temporalFocus: stateUpdate.classification.temporalFocus,
-          sentimentTone: stateUpdate.classification.sentimentTone,
-          domains: stateUpdate.beliefUpdates.flatMap(b => b.domains.map(d => ({
-            domain: d.domain,
-            relevance: d.relevance,
-            reasoning: b.reasoning,
-          }))),
-          themes: stateUpdate.beliefUpdates.map(b => ({
-            label: b.label,
-            category: b.category,
-            confidence: b.confidence,
-            reasoning: b.reasoning,
-          })),
-          connections: [],
-          actors: stateUpdate.actorUpdates.map(a => ({
-            name: a.name,
-            role: a.role,
-            interactions: a.interactions,
-          })),
-          overallConfidence: stateUpdate.overallConfidence,
-          uncertainties: [],
-          agentModel: engine.engineName,
-          analysisVersion: '2.0-cognitive',
-        },
-      });
+        console.log(`[Cognitive]${trace} Result:`, {
+          primaryType: stateUpdate.primaryType,
+          meaning: stateUpdate.classification.semanticMeaning.substring(0, 80),
+          newBeliefs: events.newBeliefs.length,
+          reinforced: events.reinforcedBeliefs.length,
+          stabilised: events.stabilisedBeliefs.length,
+          contradictions: events.newContradictions.length,
+          totalBeliefs: cognitiveState.beliefs.size,
+        });
 
-      // Persist agentic analysis to outbox (hemisphere domain distribution + lens mapping)
-      await persistAndEmit(workshopId, {
-        type: 'agentic.analyzed',
-        createdAt: Date.now(),
-        payload: {
-          dataPointId: dataPoint.id,
-          analysis: {
-            interpretation: {
-              semanticMeaning: stateUpdate.classification.semanticMeaning,
-              sentimentTone: stateUpdate.classification.sentimentTone,
-            },
+        // Store agentic analysis (backwards-compatible with existing schema)
+        await prisma.agenticAnalysis.create({
+          data: {
+            dataPointId: dataPoint.id,
+            semanticMeaning: stateUpdate.classification.semanticMeaning,
+            speakerIntent: stateUpdate.classification.speakerIntent,
+            temporalFocus: stateUpdate.classification.temporalFocus,
+            sentimentTone: stateUpdate.classification.sentimentTone,
             domains: stateUpdate.beliefUpdates.flatMap(b => b.domains.map(d => ({
               domain: d.domain,
               relevance: d.relevance,
@@ -367,160 +380,199 @@ async function processCompleteUtterance(
               confidence: b.confidence,
               reasoning: b.reasoning,
             })),
+            connections: [],
             actors: stateUpdate.actorUpdates.map(a => ({
               name: a.name,
               role: a.role,
               interactions: a.interactions,
             })),
             overallConfidence: stateUpdate.overallConfidence,
+            uncertainties: [],
+            agentModel: engine.engineName,
+            analysisVersion: '2.0-cognitive',
           },
-        },
-      });
-
-      // Create classification from cognitive analysis
-      const primaryDomain = stateUpdate.beliefUpdates[0]?.domains[0]?.domain || null;
-      const keywords = stateUpdate.beliefUpdates.map(b => b.label).slice(0, 8);
-
-      const classification = await prisma.dataPointClassification.create({
-        data: {
-          dataPointId: dataPoint.id,
-          primaryType: stateUpdate.primaryType,
-          confidence: stateUpdate.overallConfidence,
-          keywords,
-          suggestedArea: primaryDomain,
-        },
-      });
-
-      // Persist classification to outbox (hemisphere node update)
-      await persistAndEmit(workshopId, {
-        type: 'classification.updated',
-        createdAt: Date.now(),
-        payload: {
-          dataPointId: dataPoint.id,
-          classification: {
-            id: classification.id,
-            primaryType: classification.primaryType,
-            confidence: classification.confidence,
-            keywords: classification.keywords,
-            suggestedArea: classification.suggestedArea,
-            updatedAt: classification.updatedAt,
-          },
-        },
-      });
+        });
 
-      // Persist cognitive state events to outbox for live UI
-      for (const belief of events.newBeliefs) {
-        await persistAndEmit(workshopId, {
-          type: 'belief.created',
+        // Persist agentic analysis to outbox (hemisphere domain distribution + lens mapping)
+        await emit({
+          type: 'agentic.analyzed',
           createdAt: Date.now(),
           payload: {
-            belief: {
-              id: belief.id,
-              label: belief.label,
-              category: belief.category,
-              primaryType: belief.primaryType,
-              domains: belief.domains,
-              confidence: belief.confidence,
-              evidenceCount: belief.evidenceCount,
-              stabilised: belief.stabilised,
+            dataPointId: dataPoint.id,
+            analysis: {
+              interpretation: {
+                semanticMeaning: stateUpdate.classification.semanticMeaning,
+                sentimentTone: stateUpdate.classification.sentimentTone,
+              },
+              domains: stateUpdate.beliefUpdates.flatMap(b => b.domains.map(d => ({
+                domain: d.domain,
+                relevance: d.relevance,
+                reasoning: b.reasoning,
+              }))),
+              themes: stateUpdate.beliefUpdates.map(b => ({
+                label: b.label,
+                category: b.category,
+                confidence: b.confidence,
+                reasoning: b.reasoning,
+              })),
+              actors: stateUpdate.actorUpdates.map(a => ({
+                name: a.name,
+                role: a.role,
+                interactions: a.interactions,
+              })),
+              overallConfidence: stateUpdate.overallConfidence,
             },
           },
         });
-      }
 
-      for (const belief of events.reinforcedBeliefs) {
-        await persistAndEmit(workshopId, {
-          type: 'belief.reinforced',
-          createdAt: Date.now(),
-          payload: {
-            belief: {
-              id: belief.id,
-              label: belief.label,
-              confidence: belief.confidence,
-              evidenceCount: belief.evidenceCount,
-              stabilised: belief.stabilised,
-            },
+        // Create classification from cognitive analysis
+        const primaryDomain = stateUpdate.beliefUpdates[0]?.domains[0]?.domain || null;
+        const keywords = stateUpdate.beliefUpdates.map(b => b.label).slice(0, 8);
+
+        const classification = await prisma.dataPointClassification.create({
+          data: {
+            dataPointId: dataPoint.id,
+            primaryType: stateUpdate.primaryType,
+            confidence: stateUpdate.overallConfidence,
+            keywords,
+            suggestedArea: primaryDomain,
           },
         });
-      }
 
-      for (const belief of events.stabilisedBeliefs) {
-        await persistAndEmit(workshopId, {
-          type: 'belief.stabilised',
+        // Persist classification to outbox (hemisphere node update)
+        await emit({
+          type: 'classification.updated',
           createdAt: Date.now(),
           payload: {
-            belief: {
-              id: belief.id,
-              label: belief.label,
-              category: belief.category,
-              primaryType: belief.primaryType,
-              domains: belief.domains,
-              confidence: belief.confidence,
-              evidenceCount: belief.evidenceCount,
+            dataPointId: dataPoint.id,
+            classification: {
+              id: classification.id,
+              primaryType: classification.primaryType,
+              confidence: classification.confidence,
+              keywords: classification.keywords,
+              suggestedArea: classification.suggestedArea,
+              updatedAt: classification.updatedAt,
             },
           },
         });
-      }
 
-      for (const contradiction of events.newContradictions) {
-        const beliefA = cognitiveState.beliefs.get(contradiction.beliefAId);
-        const beliefB = cognitiveState.beliefs.get(contradiction.beliefBId);
-        await persistAndEmit(workshopId, {
-          type: 'contradiction.detected',
-          createdAt: Date.now(),
-          payload: {
-            contradiction: {
-              id: contradiction.id,
-              beliefA: beliefA ? { id: beliefA.id, label: beliefA.label } : null,
-              beliefB: beliefB ? { id: beliefB.id, label: beliefB.label } : null,
+        // Persist cognitive state events to outbox for live UI
+        for (const belief of events.newBeliefs) {
+          await emit({
+            type: 'belief.created',
+            createdAt: Date.now(),
+            payload: {
+              belief: {
+                id: belief.id,
+                label: belief.label,
+                category: belief.category,
+                primaryType: belief.primaryType,
+                domains: belief.domains,
+                confidence: belief.confidence,
+                evidenceCount: belief.evidenceCount,
+                stabilised: belief.stabilised,
+              },
             },
-          },
-        });
-      }
+          });
+        }
 
-      // Emit reasoning entries for the live panel
-      for (const entry of events.reasoningEntries) {
-        emitWorkshopEvent(workshopId, {
-          id: nanoid(),
-          type: 'agentic.reasoning',
-          createdAt: entry.timestampMs,
-          payload: {
-            level: entry.level,
-            icon: entry.icon,
-            summary: entry.summary,
-            details: entry.details,
-          },
-        });
-      }
+        for (const belief of events.reinforcedBeliefs) {
+          await emit({
+            type: 'belief.reinforced',
+            createdAt: Date.now(),
+            payload: {
+              belief: {
+                id: belief.id,
+                label: belief.label,
+                confidence: belief.confidence,
+                evidenceCount: belief.evidenceCount,
+                stabilised: belief.stabilised,
+              },
+            },
+          });
+        }
 
-      // ── Facilitation Orchestrator (agentic agents) ──────
-      // Runs Theme Agent, Facilitation Agent, Constraint Agent
-      // with Guardian verification. Emits theme.suggested,
-      // pad.generated, constraint.mapped, agent.conversation.
-      // Also runs mandatory journey assessment on every utterance (no belief gate).
-      console.log(`[JourneyPipeline] transcript-received workshopId=${workshopId} text="${text.substring(0, 80)}" beliefs=${cognitiveState.beliefs.size} utterances=${cognitiveState.recentUtterances.length}`);
-      try {
-        await runFacilitationOrchestrator(
-          workshopId,
-          cognitiveState,
-          async (type, payload) => {
-            await persistAndEmit(workshopId, {
-              type,
-              createdAt: Date.now(),
-              payload,
-            });
-          },
-          async (entry) => {
-            await persistAndEmit(workshopId, {
-              type: 'agent.conversation',
-              createdAt: entry.timestampMs,
-              payload: entry,
-            });
-          },
-        );
-      } catch (orchError) {
-        console.error('[Facilitation Orchestrator] Failed:', orchError);
-      }
+        for (const belief of events.stabilisedBeliefs) {
+          await emit({
+            type: 'belief.stabilised',
+            createdAt: Date.now(),
+            payload: {
+              belief: {
+                id: belief.id,
+                label: belief.label,
+                category: belief.category,
+                primaryType: belief.primaryType,
+                domains: belief.domains,
+                confidence: belief.confidence,
+                evidenceCount: belief.evidenceCount,
+              },
+            },
+          });
+        }
+
+        for (const contradiction of events.newContradictions) {
+          const beliefA = cognitiveState.beliefs.get(contradiction.beliefAId);
+          const beliefB = cognitiveState.beliefs.get(contradiction.beliefBId);
+          await emit({
+            type: 'contradiction.detected',
+            createdAt: Date.now(),
+            payload: {
+              contradiction: {
+                id: contradiction.id,
+                beliefA: beliefA ? { id: beliefA.id, label: beliefA.label } : null,
+                beliefB: beliefB ? { id: beliefB.id, label: beliefB.label } : null,
+              },
+            },
+          });
+        }
+
+        // Emit reasoning entries for the live panel
+        for (const entry of events.reasoningEntries) {
+          emitEphemeral({
+            id: nanoid(),
+            type: 'agentic.reasoning',
+            createdAt: entry.timestampMs,
+            payload: {
+              level: entry.level,
+              icon: entry.icon,
+              summary: entry.summary,
+              details: entry.details,
+            },
+          });
+        }
+
+        // ── Facilitation Orchestrator (agentic agents) ──────
+        // Runs Theme Agent, Facilitation Agent, Constraint Agent
+        // with Guardian verification. Emits theme.suggested,
+        // pad.generated, constraint.mapped, agent.conversation.
+        // Also runs mandatory journey assessment on every utterance (no belief gate).
+        console.log(`[JourneyPipeline] transcript-received workshopId=${workshopId} text="${text.substring(0, 80)}" beliefs=${cognitiveState.beliefs.size} utterances=${cognitiveState.recentUtterances.length}`);
+        try {
+          await recoverGuidanceState(sessionKey);
+          await runFacilitationOrchestrator(
+            sessionKey,
+            cognitiveState,
+            async (type, payload) => {
+              await emit({
+                type,
+                createdAt: Date.now(),
+                payload,
+              });
+            },
+            async (entry) => {
+              await emit({
+                type: 'agent.conversation',
+                createdAt: entry.timestampMs,
+                payload: entry,
+              });
+            },
+          );
+          // Pad pacing + surfaced prompts; a concurrent facilitator update wins
+          await persistGuidanceState(sessionKey);
+        } catch (orchError) {
+          console.error('[Facilitation Orchestrator] Failed:', orchError);
+        }
+      });
     } catch (error) {
       console.error('Cognitive analysis failed:', error);
     }
@@ -580,8 +632,19 @@ export async function POST(
       }
     }
 
-    // Rate limit: 120 req/min per workshop (2/s — well above normal live-session cadence)
-    const rl = await apiLimiter.check(120, `transcript:${workshopId}`);
+    // ── Breakout room: ?room=<id> routes the chunk to that group's session ──
+    const roomParam = request.nextUrl.searchParams.get('room');
+    const room = roomParam ? await findBreakoutRoom(workshopId, roomParam) : null;
+    if (roomParam && !room) {
+      return NextResponse.json({ error: 'Breakout room not found' }, { status: 404 });
+    }
+    if (room?.closedAt) {
+      return NextResponse.json({ error: 'Breakout room is closed' }, { status: 409 });
+    }
+    const roomId = room?.id ?? null;
+
+    // Rate limit: 120 req/min per session (2/s — well above normal live-session cadence)
+    const rl = await apiLimiter.check(120, `transcript:${liveSessionKey(workshopId, roomId)}`);
     if (!rl.success) {
       return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
     }
@@ -590,8 +653,9 @@ export async function POST(
     const traceId = nanoid(8);
 
     const body = (await request.json()) as IngestTranscriptChunkBody;
+    if (roomId) body.speakerId = roomSpeakerId(roomId, body.speakerId);
 
-    const text = (body?.text || '').trim();
+    let text = (body?.text || '').trim();
 
     // ── Flush-only requests (capture stopped) — no buffer to drain ──
     // CaptureAPI SLM produces complete sentences; no in-memory accumulation.
@@ -603,15 +667,31 @@ export async function POST(
       return NextResponse.json({ error: 'Missing text' }, { status: 400 });
     }
 
+    // ── PII redaction — before anything is stored, deduplicated or sent to an LLM ──
+    const piiRedactor = await loadWorkshopPiiRedactor(workshopId);
+    if (piiRedactor) {
+      text = await piiRedactor.redact(text);
+      if (body.rawText) body.rawText = await piiRedactor.redact(body.rawText);
+      if (body.slmMetadata?.entities) {
+        body.slmMetadata.entities = await Promise.all(body.slmMetadata.entities.map(async (entity) => ({
+          ...entity,
+          value: await piiRedactor.redact(entity.value),
+        })));
+      }
+    }
+
     const startTimeMs = Number.isFinite(body.startTime) ? Math.max(0, Math.round(body.startTime)) : 0;
     const endTimeMs = Number.isFinite(body.endTime) ? Math.max(startTimeMs, Math.round(body.endTime)) : startTimeMs;
     const src =
-      body.source === 'deepgram' ? 'DEEPGRAM' : body.source === 'whisper' ? 'WHISPER' : 'ZOOM';
+      body.source === 'deepgram' ? 'DEEPGRAM'
+        : body.source === 'whisper' ? 'WHISPER'
+          : body.source === 'local' ? 'LOCAL'
+            : 'ZOOM';
 
     // ── Filter trivial text — store raw chunk only, skip analysis ─
     if (isTextTrivial(text)) {
       await prisma.transcriptChunk.create({
-        data: {
+        data: await encryptTenantFields('transcriptChunk', { workshopId }, {
           workshopId,
           speakerId: body.speakerId || null,
           startTimeMs,
@@ -619,13 +699,14 @@ export async function POST(
           text,
           confidence: typeof body.confidence === 'number' ? body.confidence : null,
           source: src,
+          breakoutRoomId: roomId,
           metadata: body.slmMetadata || body.rawText
             ? {
                 ...(body.rawText && { rawText: body.rawText }),
                 ...(body.slmMetadata && { slmMetadata: body.slmMetadata }),
               }
             : undefined,
-        },
+        }),
       }).catch(() => null);
 
       return NextResponse.json({
@@ -658,6 +739,8 @@ export async function POST(
         body.speakerId,
         body.slmMetadata as Record<string, unknown> | undefined,
         traceId,
+        body.voiceProfile,
+        roomId,
       );
       return NextResponse.json({
         ok: true,
@@ -700,11 +700,16 @@ export default function DiscoveryConversationPage({ params }: PageProps) {
                   onChange={async (newLang) => {
                     setLanguage(newLang);
                     if (sessionId) {
-                      await fetch(`/api/conversation/update-preferences`, {
+                      const response = await fetch(`/api/conversation/update-preferences`, {
                         method: 'POST',
                         headers: { 'Content-Type': 'application/json' },
                         body: JSON.stringify({ sessionId, token, language: newLang }),
                       });
+                      // The pending question comes back re-asked in the new language
+                      const data = await response.json().catch(() => null);
+                      if (data?.message) {
+                        setMessages((prev) => prev.map((m) => (m.id === data.message.id ? data.message : m)));
+                      }
                     }
                   }}
                 />
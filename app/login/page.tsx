@@ -1,12 +1,12 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { LoadingButton } from '@/components/ui/loading-button';
-import { Eye, EyeOff, ShieldCheck, ScanLine } from 'lucide-react';
+import { Eye, EyeOff, ShieldCheck, ScanLine, KeyRound } from 'lucide-react';
 import Image from 'next/image';
 import QRCode from 'react-qr-code';
 
@@ -39,6 +39,38 @@ export default function LoginPage() {
   const [orgLogoUrl, setOrgLogoUrl] = useState<string | null>(null);
   const [orgPrimaryColor, setOrgPrimaryColor] = useState<string | null>(null);
 
+  // SSO callbacks that refuse a login come back here with ?ssoError=
+  useEffect(() => {
+    const ssoError = new URLSearchParams(window.location.search).get('ssoError');
+    if (ssoError) setError(ssoError);
+  }, []);
+
+  const startSso = async () => {
+    if (!email) {
+      setError('Enter your work email to sign in with SSO');
+      return;
+    }
+    setError('');
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/sso/start', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json();
+      if (response.ok && data.redirectUrl) {
+        window.location.href = data.redirectUrl;
+        return;
+      }
+      setError(data.error || 'Single sign-on is not available for this email');
+    } catch {
+      setError('An error occurred. Please try again.');
+    }
+    setLoading(false);
+  };
+
   const handleCredentialsSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -89,6 +121,8 @@ export default function LoginPage() {
 
         // Full login success - no MFA required
         showWelcome(data);
+      } else if (data.ssoRequired) {
+        await startSso();
       } else {
         setError(data.error || 'Invalid credentials');
         setLoading(false);
@@ -286,6 +320,16 @@ export default function LoginPage() {
               >
                 Sign In
               </LoadingButton>
+
+              <button
+                type="button"
+                onClick={startSso}
+                disabled={loading}
+                className="w-full flex items-center justify-center gap-2 text-sm text-white/60 hover:text-white border border-white/10 hover:border-white/20 rounded-lg py-3 transition-colors disabled:opacity-50"
+              >
+                <KeyRound className="h-4 w-4" />
+                Sign in with SSO
+              </button>
             </form>
           )}
 
@@ -135,7 +135,8 @@ export default function SalesLivePage() {
         diagnostics.recordTimestamp(st.traceId, 't_sseReceived', t_sseReceived);
       }
 
-      setTranscript((prev) => [...prev, {
+      // At-least-once delivery: a reconnect can replay chunks already shown.
+      setTranscript((prev) => prev.some((t) => t.id === p.id) ? prev : [...prev, {
         id: p.id,
         speakerId: p.speakerId,
         text: p.text,
@@ -10,6 +10,8 @@ import {
   Users,
   ShieldCheck,
   BarChart2,
+  Boxes,
+  Repeat,
   LogOut,
 } from 'lucide-react';
 
@@ -45,6 +47,18 @@ const ADMIN_NAV: NavItem[] = [
     icon: <Users className="h-4 w-4" />,
     roles: ['TENANT_ADMIN'],
   },
+  {
+    label: 'Domain Packs',
+    href: '/admin/domain-packs',
+    icon: <Boxes className="h-4 w-4" />,
+    roles: ['TENANT_ADMIN'],
+  },
+  {
+    label: 'Programmes',
+    href: '/admin/programmes',
+    icon: <Repeat className="h-4 w-4" />,
+    roles: ['TENANT_ADMIN'],
+  },
   {
     label: 'Audit Logs',
     href: '/admin/audit-logs',
@@ -0,0 +1,219 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+
+interface ScopeOption {
+  scope: string;
+  label: string;
+}
+
+interface ApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+function keyStatus(key: ApiKey): { label: string; style: string } {
+  if (key.revokedAt) return { label: 'Revoked', style: 'bg-gray-100 text-gray-500' };
+  if (key.expiresAt && new Date(key.expiresAt) <= new Date()) return { label: 'Expired', style: 'bg-amber-100 text-amber-700' };
+  return { label: 'Active', style: 'bg-green-100 text-green-700' };
+}
+
+export function ApiKeyManager({ orgId }: { orgId: string }) {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [scopes, setScopes] = useState<ScopeOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [selectedScopes, setSelectedScopes] = useState<string[]>([]);
+  const [expiresOn, setExpiresOn] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [createError, setCreateError] = useState('');
+  const [newKey, setNewKey] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const base = `/api/admin/organizations/${orgId}/api-keys`;
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(base);
+      if (res.ok) {
+        const data = await res.json() as { keys: ApiKey[]; scopes: ScopeOption[] };
+        setKeys(data.keys);
+        setScopes(data.scopes);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [base]);
+
+  useEffect(() => { void load(); }, [load]);
+
+  const toggleScope = (scope: string) => {
+    setSelectedScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreateError('');
+    setNewKey('');
+    setCreating(true);
+    try {
+      const res = await fetch(base, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          scopes: selectedScopes,
+          expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59Z`).toISOString() : undefined,
+        }),
+      });
+      const data = await res.json() as { error?: string; key?: string };
+      if (!res.ok) { setCreateError(data.error ?? 'Failed to create API key'); return; }
+      setNewKey(data.key ?? '');
+      setName(''); setSelectedScopes([]); setExpiresOn('');
+      void load();
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (keyId: string) => {
+    if (!confirm('Revoke this API key? Integrations using it stop working immediately.')) return;
+    await fetch(`${base}/${keyId}`, { method: 'DELETE' });
+    void load();
+  };
+
+  const copyKey = async () => {
+    await navigator.clipboard.writeText(newKey);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const labelFor = (scope: string) => scopes.find(s => s.scope === scope)?.label ?? scope;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900">API Keys</h3>
+        <p className="text-xs text-gray-400 mt-1">
+          Keys for the REST API at /api/v1. The OpenAPI spec is published at{' '}
+          <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer" className="text-blue-500 hover:text-blue-700">
+            /api/v1/openapi.json
+          </a>.
+        </p>
+      </div>
+
+      {/* Key display */}
+      {newKey && (
+        <div className="bg-green-50 border border-green-200 rounded-xl p-4">
+          <p className="text-xs font-semibold text-green-800 mb-2">API key — copy it now. It will not be shown again.</p>
+          <div className="flex items-center gap-3">
+            <code className="flex-1 text-sm font-mono bg-white border border-green-200 rounded-lg px-3 py-2 text-green-900 break-all">{newKey}</code>
+            <button
+              onClick={copyKey}
+              className="px-3 py-2 text-xs font-semibold rounded-lg bg-green-600 text-white hover:bg-green-700 transition-colors"
+            >
+              {copied ? 'Copied!' : 'Copy'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Existing keys */}
+      {loading ? (
+        <p className="text-sm text-gray-400">Loading…</p>
+      ) : keys.length === 0 ? (
+        <p className="text-sm text-gray-400">No API keys yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {keys.map(key => {
+            const status = keyStatus(key);
+            return (
+              <div key={key.id} className="flex items-start justify-between gap-4 border border-gray-100 rounded-xl px-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {key.name} <span className="text-xs font-mono text-gray-400">{key.keyPrefix}…</span>
+                  </p>
+                  <p className="text-xs text-gray-400">{key.scopes.map(labelFor).join(', ')}</p>
+                  <p className="text-[11px] text-gray-300 mt-0.5">
+                    Created {new Date(key.createdAt).toLocaleDateString('en-GB')}
+                    {' · '}
+                    {key.lastUsedAt ? `Last used ${new Date(key.lastUsedAt).toLocaleString('en-GB')}` : 'Never used'}
+                    {key.expiresAt && ` · Expires ${new Date(key.expiresAt).toLocaleDateString('en-GB')}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <span className={`text-[11px] font-semibold px-2 py-0.5 rounded-full ${status.style}`}>
+                    {status.label}
+                  </span>
+                  {!key.revokedAt && (
+                    <button onClick={() => handleRevoke(key.id)} className="text-xs text-red-500 hover:text-red-700 transition-colors">
+                      Revoke
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Create form */}
+      <div className="border border-gray-100 rounded-xl p-5">
+        <p className="text-xs font-semibold text-gray-700 mb-4">Create API Key</p>
+        <form onSubmit={handleCreate} className="space-y-3">
+          <div className="grid sm:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Name *</label>
+              <input
+                type="text"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                required
+                className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-400"
+                placeholder="CRM integration"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Expires on (optional)</label>
+              <input
+                type="date"
+                value={expiresOn}
+                onChange={e => setExpiresOn(e.target.value)}
+                className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-400"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Scopes *</label>
+            <div className="grid sm:grid-cols-2 gap-1">
+              {scopes.map(s => (
+                <label key={s.scope} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={selectedScopes.includes(s.scope)}
+                    onChange={() => toggleScope(s.scope)}
+                  />
+                  {s.label} <span className="text-[11px] font-mono text-gray-300">{s.scope}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          {createError && <p className="text-xs text-red-500">{createError}</p>}
+          <button
+            type="submit"
+            disabled={creating || selectedScopes.length === 0}
+            className="px-4 py-2 text-sm font-semibold rounded-lg bg-gray-900 text-white hover:bg-gray-700 transition-colors disabled:opacity-50"
+          >
+            {creating ? 'Creating…' : 'Create API Key'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
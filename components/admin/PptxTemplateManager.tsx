@@ -0,0 +1,128 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+interface PptxTemplate {
+  fileName: string;
+  uploadedAt: string;
+  colors: Record<string, string>;
+  fonts: { heading: string | null; body: string | null };
+  backgroundUrl: string | null;
+  titleBackgroundUrl: string | null;
+}
+
+interface DeckTheme {
+  accents: string[];
+  headingFont: string;
+  bodyFont: string;
+}
+
+export function PptxTemplateManager({ orgId }: { orgId: string }) {
+  const [template, setTemplate] = useState<PptxTemplate | null>(null);
+  const [theme, setTheme] = useState<DeckTheme | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const base = `/api/admin/organizations/${orgId}/pptx-template`;
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(base);
+      if (res.ok) {
+        const data = await res.json() as { template: PptxTemplate | null; theme: DeckTheme };
+        setTemplate(data.template);
+        setTheme(data.theme);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [base]);
+
+  useEffect(() => { void load(); }, [load]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError('');
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const res = await fetch(base, { method: 'POST', body: formData });
+      const data = await res.json() as { error?: string; template?: PptxTemplate; theme?: DeckTheme };
+      if (!res.ok) { setError(data.error ?? 'Failed to upload template'); return; }
+      setTemplate(data.template ?? null);
+      setTheme(data.theme ?? null);
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm('Remove the PowerPoint template? Editable exports fall back to the organisation colours.')) return;
+    await fetch(base, { method: 'DELETE' });
+    void load();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900">PowerPoint Template</h3>
+        <p className="text-xs text-gray-400 mt-1">
+          Editable report decks use the theme colours, fonts and background artwork of this master template.
+          Without one they use the organisation&apos;s brand colours.
+        </p>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-400">Loading…</p>
+      ) : (
+        <div className="border border-gray-100 rounded-xl px-4 py-3 space-y-3">
+          <div className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900">{template ? template.fileName : 'No template uploaded'}</p>
+              {template && (
+                <p className="text-[11px] text-gray-300 mt-0.5">
+                  Uploaded {new Date(template.uploadedAt).toLocaleDateString('en-GB')}
+                  {template.backgroundUrl && ' · Background artwork'}
+                  {template.titleBackgroundUrl && ' · Title slide artwork'}
+                </p>
+              )}
+            </div>
+            {template && (
+              <button onClick={handleRemove} className="text-xs text-red-500 hover:text-red-700 transition-colors flex-shrink-0">
+                Remove
+              </button>
+            )}
+          </div>
+          {theme && (
+            <div className="flex items-center gap-3">
+              <div className="flex gap-1">
+                {theme.accents.map((color, i) => (
+                  <div key={i} className="w-5 h-5 rounded border border-gray-100" style={{ backgroundColor: `#${color}` }} />
+                ))}
+              </div>
+              <p className="text-xs text-gray-400">{theme.headingFont} / {theme.bodyFont}</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      <label className="inline-block px-4 py-2 text-sm font-semibold rounded-lg bg-gray-900 text-white hover:bg-gray-700 transition-colors cursor-pointer">
+        {uploading ? 'Uploading…' : template ? 'Replace Template' : 'Upload .pptx / .potx'}
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".pptx,.potx"
+          onChange={handleUpload}
+          disabled={uploading}
+          className="hidden"
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+
+interface EventTypeOption {
+  type: string;
+  label: string;
+}
+
+interface Endpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  eventTypes: string[];
+  enabled: boolean;
+  createdAt: string;
+  deliveryCounts: Record<string, number>;
+}
+
+interface Delivery {
+  id: string;
+  eventId: string;
+  eventType: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  replayOfId: string | null;
+  createdAt: string;
+}
+
+const STATUS_STYLES: Record<Delivery['status'], string> = {
+  succeeded: 'bg-green-100 text-green-700',
+  pending: 'bg-amber-100 text-amber-700',
+  failed: 'bg-red-100 text-red-600',
+};
+
+export function WebhookManager({ orgId }: { orgId: string }) {
+  const [endpoints, setEndpoints] = useState<Endpoint[]>([]);
+  const [eventTypes, setEventTypes] = useState<EventTypeOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [selectedTypes, setSelectedTypes] = useState<string[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [createError, setCreateError] = useState('');
+  const [secret, setSecret] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [openEndpoint, setOpenEndpoint] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [replaying, setReplaying] = useState<string | null>(null);
+
+  const base = `/api/admin/organizations/${orgId}/webhooks`;
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(base);
+      if (res.ok) {
+        const data = await res.json() as { endpoints: Endpoint[]; eventTypes: EventTypeOption[] };
+        setEndpoints(data.endpoints);
+        setEventTypes(data.eventTypes);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [base]);
+
+  const loadDeliveries = useCallback(async (endpointId: string) => {
+    const res = await fetch(`${base}/${endpointId}/deliveries`);
+    if (res.ok) {
+      const data = await res.json() as { deliveries: Delivery[] };
+      setDeliveries(data.deliveries);
+    }
+  }, [base]);
+
+  useEffect(() => { void load(); }, [load]);
+
+  const toggleType = (type: string) => {
+    setSelectedTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreateError('');
+    setSecret('');
+    setCreating(true);
+    try {
+      const res = await fetch(base, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, description: description || undefined, eventTypes: selectedTypes }),
+      });
+      const data = await res.json() as { error?: string; secret?: string };
+      if (!res.ok) { setCreateError(data.error ?? 'Failed to add webhook'); return; }
+      setSecret(data.secret ?? '');
+      setUrl(''); setDescription(''); setSelectedTypes([]);
+      void load();
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleToggleEnabled = async (endpoint: Endpoint) => {
+    await fetch(`${base}/${endpoint.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ enabled: !endpoint.enabled }),
+    });
+    void load();
+  };
+
+  const handleRotate = async (endpointId: string) => {
+    if (!confirm('Issue a new signing secret? The current secret stops working immediately.')) return;
+    const res = await fetch(`${base}/${endpointId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ rotateSecret: true }),
+    });
+    const data = await res.json() as { secret?: string };
+    if (res.ok && data.secret) setSecret(data.secret);
+  };
+
+  const handleDelete = async (endpointId: string) => {
+    if (!confirm('Delete this webhook and its delivery log?')) return;
+    await fetch(`${base}/${endpointId}`, { method: 'DELETE' });
+    if (openEndpoint === endpointId) setOpenEndpoint(null);
+    void load();
+  };
+
+  const toggleDeliveries = async (endpointId: string) => {
+    if (openEndpoint === endpointId) { setOpenEndpoint(null); return; }
+    setOpenEndpoint(endpointId);
+    setDeliveries([]);
+    await loadDeliveries(endpointId);
+  };
+
+  const handleReplay = async (endpointId: string, deliveryId: string) => {
+    setReplaying(deliveryId);
+    try {
+      await fetch(`${base}/${endpointId}/deliveries/${deliveryId}/replay`, { method: 'POST' });
+      await loadDeliveries(endpointId);
+      void load();
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  const copySecret = async () => {
+    await navigator.clipboard.writeText(secret);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const labelFor = (type: string) => eventTypes.find(t => t.type === type)?.label ?? type;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900">Webhooks</h3>
+        <p className="text-xs text-gray-400 mt-1">
+          Signed POSTs to your systems when workshop milestones happen. Verify the
+          X-Dream-Signature header with the endpoint&apos;s secret.
+        </p>
+      </div>
+
+      {/* Secret display */}
+      {secret && (
+        <div className="bg-green-50 border border-green-200 rounded-xl p-4">
+          <p className="text-xs font-semibold text-green-800 mb-2">Signing secret — copy it now. It will not be shown again.</p>
+          <div className="flex items-center gap-3">
+            <code className="flex-1 text-sm font-mono bg-white border border-green-200 rounded-lg px-3 py-2 text-green-900 break-all">{secret}</code>
+            <button
+              onClick={copySecret}
+              className="px-3 py-2 text-xs font-semibold rounded-lg bg-green-600 text-white hover:bg-green-700 transition-colors"
+            >
+              {copied ? 'Copied!' : 'Copy'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Existing endpoints */}
+      {loading ? (
+        <p className="text-sm text-gray-400">Loading…</p>
+      ) : endpoints.length === 0 ? (
+        <p className="text-sm text-gray-400">No webhooks yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {endpoints.map(ep => (
+            <div key={ep.id} className="border border-gray-100 rounded-xl">
+              <div className="flex items-start justify-between gap-4 px-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{ep.url}</p>
+                  <p className="text-xs text-gray-400">
+                    {ep.description ? `${ep.description} · ` : ''}
+                    {ep.eventTypes.length === 0 ? 'All events' : ep.eventTypes.map(labelFor).join(', ')}
+                  </p>
+                  <p className="text-[11px] text-gray-300 mt-0.5">
+                    {ep.deliveryCounts.succeeded ?? 0} delivered · {ep.deliveryCounts.pending ?? 0} pending · {ep.deliveryCounts.failed ?? 0} failed
+                  </p>
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <span className={`text-[11px] font-semibold px-2 py-0.5 rounded-full ${
+                    ep.enabled ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'
+                  }`}>
+                    {ep.enabled ? 'Enabled' : 'Disabled'}
+                  </span>
+                  <button onClick={() => toggleDeliveries(ep.id)} className="text-xs text-blue-500 hover:text-blue-700 transition-colors">
+                    {openEndpoint === ep.id ? 'Hide log' : 'Deliveries'}
+                  </button>
+                  <button onClick={() => handleToggleEnabled(ep)} className="text-xs text-gray-500 hover:text-gray-900 transition-colors">
+                    {ep.enabled ? 'Disable' : 'Enable'}
+                  </button>
+                  <button onClick={() => handleRotate(ep.id)} className="text-xs text-gray-500 hover:text-gray-900 transition-colors">
+                    Rotate secret
+                  </button>
+                  <button onClick={() => handleDelete(ep.id)} className="text-xs text-red-500 hover:text-red-700 transition-colors">
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {/* Delivery log */}
+              {openEndpoint === ep.id && (
+                <div className="border-t border-gray-100 px-4 py-3">
+                  {deliveries.length === 0 ? (
+                    <p className="text-xs text-gray-400">No deliveries yet.</p>
+                  ) : (
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-left text-gray-400">
+                          <th className="font-medium pb-2">Event</th>
+                          <th className="font-medium pb-2">Status</th>
+                          <th className="font-medium pb-2">Attempts</th>
+                          <th className="font-medium pb-2">Response</th>
+                          <th className="font-medium pb-2">Created</th>
+                          <th />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {deliveries.map(d => (
+                          <tr key={d.id} className="border-t border-gray-50 align-top">
+                            <td className="py-2 pr-3">
+                              <p className="text-gray-900">{labelFor(d.eventType)}</p>
+                              <p className="text-[11px] text-gray-300 font-mono">{d.eventId}{d.replayOfId ? ' · replay' : ''}</p>
+                            </td>
+                            <td className="py-2 pr-3">
+                              <span className={`text-[11px] font-semibold px-2 py-0.5 rounded-full ${STATUS_STYLES[d.status]}`}>
+                                {d.status}
+                              </span>
+                              {d.status === 'pending' && d.nextAttemptAt && (
+                                <p className="text-[11px] text-gray-300 mt-1">
+                                  Next try {new Date(d.nextAttemptAt).toLocaleTimeString('en-GB')}
+                                </p>
+                              )}
+                            </td>
+                            <td className="py-2 pr-3 text-gray-600">{d.attempts}</td>
+                            <td className="py-2 pr-3 text-gray-600 max-w-[220px]">
+                              {d.lastStatusCode ?? '—'}
+                              {d.lastError && <p className="text-[11px] text-red-400 truncate" title={d.lastError}>{d.lastError}</p>}
+                            </td>
+                            <td className="py-2 pr-3 text-gray-400">{new Date(d.createdAt).toLocaleString('en-GB')}</td>
+                            <td className="py-2 text-right">
+                              <button
+                                onClick={() => handleReplay(ep.id, d.id)}
+                                disabled={replaying === d.id}
+                                className="text-xs text-blue-500 hover:text-blue-700 transition-colors disabled:opacity-50"
+                              >
+                                {replaying === d.id ? 'Sending…' : 'Replay'}
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Create form */}
+      <div className="border border-gray-100 rounded-xl p-5">
+        <p className="text-xs font-semibold text-gray-700 mb-4">Add Webhook</p>
+        <form onSubmit={handleCreate} className="space-y-3">
+          <div className="grid sm:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Endpoint URL *</label>
+              <input
+                type="url"
+                value={url}
+                onChange={e => setUrl(e.target.value)}
+                required
+                className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-400"
+                placeholder="https://crm.example.com/hooks/dream"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Description (optional)</label>
+              <input
+                type="text"
+                value={description}
+                onChange={e => setDescription(e.target.value)}
+                className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-400"
+                placeholder="CRM sync"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Events (none selected = all events)</label>
+            <div className="grid sm:grid-cols-2 gap-1">
+              {eventTypes.map(t => (
+                <label key={t.type} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={selectedTypes.includes(t.type)}
+                    onChange={() => toggleType(t.type)}
+                  />
+                  {t.label}
+                </label>
+              ))}
+            </div>
+          </div>
+          {createError && <p className="text-xs text-red-500">{createError}</p>}
+          <button
+            type="submit"
+            disabled={creating}
+            className="px-4 py-2 text-sm font-semibold rounded-lg bg-gray-900 text-white hover:bg-gray-700 transition-colors disabled:opacity-50"
+          >
+            {creating ? 'Adding…' : 'Add Webhook'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
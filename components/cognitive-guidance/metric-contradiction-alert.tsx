@@ -28,6 +28,15 @@ export default function MetricContradictionAlert({ signals, onDismiss }: Props)
             <p className="text-xs text-amber-700 dark:text-amber-400 mt-0.5 leading-snug">
               {signal.description}
             </p>
+            {signal.metricEvidence && signal.metricEvidence.length > 0 && (
+              <ul className="mt-1 space-y-0.5">
+                {signal.metricEvidence.map((line, i) => (
+                  <li key={i} className="text-[11px] text-amber-600 dark:text-amber-500 leading-snug">
+                    {line}
+                  </li>
+                ))}
+              </ul>
+            )}
             {signal.lenses.length > 0 && (
               <div className="flex gap-1 mt-1">
                 {signal.lenses.map((lens) => (
@@ -2,7 +2,7 @@
 
 import { useState } from 'react';
 import { Network, ArrowUp, ChevronDown, ChevronUp, ChevronRight, AlertTriangle, Zap, Layers } from 'lucide-react';
-import type { CausalIntelligence, CausalFinding, EdgeTier } from '@/lib/output-intelligence/types';
+import type { CausalIntelligence, CausalFinding, EdgeTier, ProvenanceGraph } from '@/lib/output-intelligence/types';
 import { EvidenceDrawer } from './EvidenceDrawer';
 
 // ── Scoring engine ────────────────────────────────────────────────────────────
@@ -418,9 +418,11 @@ export interface ConnectedModelPanelProps {
   causalIntelligence: CausalIntelligence;
   lensesUsed: string[];
   workshopGoal?: string | null;
+  /** Source citations for the findings — absent on older intelligence */
+  provenance?: ProvenanceGraph;
 }
 
-export function ConnectedModelPanel({ causalIntelligence, lensesUsed, workshopGoal }: ConnectedModelPanelProps) {
+export function ConnectedModelPanel({ causalIntelligence, lensesUsed, workshopGoal, provenance }: ConnectedModelPanelProps) {
   const [selectedFinding, setSelectedFinding] = useState<CausalFinding | null>(null);
   const [selectedNodeLayer, setSelectedNodeLayer] = useState<'CONSTRAINT' | 'ENABLER' | 'REIMAGINATION' | undefined>();
   const [showGaps, setShowGaps] = useState(false);
@@ -684,6 +686,7 @@ export function ConnectedModelPanel({ causalIntelligence, lensesUsed, workshopGo
       <EvidenceDrawer
         finding={selectedFinding}
         nodeLayer={selectedNodeLayer}
+        provenance={provenance}
         onClose={() => { setSelectedFinding(null); setSelectedNodeLayer(undefined); }}
       />
     </div>
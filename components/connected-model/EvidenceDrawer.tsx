@@ -1,7 +1,13 @@
 'use client';
 
 import { X, Quote, Link2, Zap } from 'lucide-react';
-import type { CausalFinding } from '@/lib/output-intelligence/types';
+import type { CausalFinding, ProvenanceGraph, ProvenanceSourceKind } from '@/lib/output-intelligence/types';
+import {
+  SOURCE_KIND_LABEL,
+  claimSources,
+  isVerbatimSource,
+  sourceAttribution,
+} from '@/lib/output-intelligence/engines/provenance-engine';
 
 const TIER_LABEL: Record<string, string> = {
   WEAK: 'Weak',
@@ -10,6 +16,13 @@ const TIER_LABEL: Record<string, string> = {
   SYSTEMIC: 'Systemic',
 };
 
+const SOURCE_KIND_STYLE: Record<ProvenanceSourceKind, string> = {
+  participant_quote: 'bg-indigo-50 text-indigo-700 border-indigo-200',
+  finding: 'bg-amber-50 text-amber-700 border-amber-200',
+  evidence_document: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  metric: 'bg-sky-50 text-sky-700 border-sky-200',
+};
+
 const LAYER_LABEL: Record<string, string> = {
   CONSTRAINT: 'Current reality — what holds the organisation back',
   ENABLER: 'Bridge — what can move the organisation forward',
@@ -20,13 +33,17 @@ interface EvidenceDrawerProps {
   finding: CausalFinding | null;
   /** Layer of the clicked node (used when finding.causalChain is absent) */
   nodeLayer?: 'CONSTRAINT' | 'ENABLER' | 'REIMAGINATION';
+  /** Citations for the finding's "why do we believe this?" section */
+  provenance?: ProvenanceGraph;
   onClose: () => void;
 }
 
-export function EvidenceDrawer({ finding, nodeLayer, onClose }: EvidenceDrawerProps) {
+export function EvidenceDrawer({ finding, nodeLayer, provenance, onClose }: EvidenceDrawerProps) {
   if (!finding) return null;
 
   const chain = finding.causalChain;
+  const claim = provenance?.claims.find(c => c.claimId === `causal_finding:${finding.findingId}`) ?? null;
+  const cited = claimSources(provenance, claim);
 
   // Infer the layer this finding's node sits in
   const layer: string | undefined =
@@ -140,6 +157,41 @@ export function EvidenceDrawer({ finding, nodeLayer, onClose }: EvidenceDrawerPr
             )}
           </section>
 
+          {/* ── Why do we believe this? ──────────────────────────── */}
+          {provenance && (
+            <section>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2 flex items-center gap-1.5">
+                <Link2 className="h-3 w-3" />
+                Why do we believe this?
+              </p>
+              {cited.length > 0 ? (
+                <ol className="space-y-2.5">
+                  {cited.map(({ source, citation }, i) => (
+                    <li key={source.sourceId} className="rounded-lg border border-slate-100 px-3 py-2.5">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="text-[10px] font-semibold text-slate-400">[{i + 1}]</span>
+                        <span className={`text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded border ${SOURCE_KIND_STYLE[source.kind]}`}>
+                          {SOURCE_KIND_LABEL[source.kind]}
+                        </span>
+                        <span className="text-[10px] text-slate-400 ml-auto" title="Share of the citing text found in this source">
+                          {Math.round(citation.strength * 100)}% match
+                        </span>
+                      </div>
+                      <p className={`text-sm text-slate-700 leading-relaxed ${isVerbatimSource(source) ? 'italic' : ''}`}>
+                        {isVerbatimSource(source) ? <>&ldquo;{source.excerpt}&rdquo;</> : source.excerpt}
+                      </p>
+                      <p className="text-xs text-slate-400 mt-0.5">{sourceAttribution(source)}</p>
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="text-xs text-amber-700 bg-amber-50 rounded-lg px-3 py-2">
+                  No source record could be matched to this finding — treat it as an interpretation, not an evidenced claim.
+                </p>
+              )}
+            </section>
+          )}
+
           {/* ── 3. What it connects to ───────────────────────────── */}
           {chain && (
             <section>
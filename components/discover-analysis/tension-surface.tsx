@@ -149,6 +149,22 @@ function TensionCard({
             </div>
           </div>
 
+          {/* Historical data evidence (perception vs. data tensions) */}
+          {tension.metricEvidence && tension.metricEvidence.evidence.length > 0 && (
+            <div className="mb-3">
+              <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1.5">
+                Data Evidence
+              </h4>
+              <ul className="space-y-1">
+                {tension.metricEvidence.evidence.map((line, i) => (
+                  <li key={i} className="text-xs text-slate-600">
+                    {line}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Affected actors */}
           {(tension.affectedActors ?? []).length > 0 && (
             <div className="mb-3">
@@ -1,8 +1,10 @@
 'use client';
 
-import { FileText, ImageIcon, Table2, Presentation, ChevronDown, ChevronUp, Trash2, Loader2, AlertCircle } from 'lucide-react';
-import { useState } from 'react';
-import type { NormalisedEvidenceDocument, NormalisedEvidenceFinding, EvidenceMetric } from '@/lib/evidence/types';
+import { FileText, ImageIcon, Table2, Presentation, Mic, Video, Play, ChevronDown, ChevronUp, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import { useRef, useState } from 'react';
+import type { NormalisedEvidenceDocument, NormalisedEvidenceFinding, EvidenceMetric, EvidenceTimestamp } from '@/lib/evidence/types';
+import { AUDIO_EXTENSIONS, VIDEO_EXTENSIONS, isMediaFile } from '@/lib/evidence/extractor';
+import { formatTimestamp, speakerLabel } from '@/lib/evidence/media';
 
 const SIGNAL_CONFIG = {
   red:   { bg: 'bg-red-50',    border: 'border-red-200',   text: 'text-red-700',   dot: 'bg-red-500',   label: 'Negative signals' },
@@ -23,6 +25,8 @@ function fileIcon(name: string) {
   if (['png', 'jpg', 'jpeg', 'webp', 'gif'].includes(ext)) return <ImageIcon className="h-5 w-5" />;
   if (['xls', 'xlsx', 'csv'].includes(ext)) return <Table2 className="h-5 w-5" />;
   if (['ppt', 'pptx'].includes(ext)) return <Presentation className="h-5 w-5" />;
+  if (VIDEO_EXTENSIONS.includes(ext)) return <Video className="h-5 w-5" />;
+  if (AUDIO_EXTENSIONS.includes(ext)) return <Mic className="h-5 w-5" />;
   return <FileText className="h-5 w-5" />;
 }
 
@@ -60,6 +64,7 @@ export function EvidenceDocumentCard({ doc, onDelete }: EvidenceDocumentCardProp
   const [expanded, setExpanded] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [deleteError, setDeleteError] = useState<string | null>(null);
+  const playerRef = useRef<HTMLVideoElement & HTMLAudioElement>(null);
 
   const isProcessing = doc.status === 'uploading' || doc.status === 'processing';
   const isFailed = doc.status === 'failed';
@@ -67,6 +72,19 @@ export function EvidenceDocumentCard({ doc, onDelete }: EvidenceDocumentCardProp
 
   const sig = isReady ? (SIGNAL_CONFIG[doc.signalDirection] ?? SIGNAL_CONFIG.mixed) : null;
 
+  // Recordings: findings deep-link to the moment they were said
+  const isRecording = isMediaFile(doc.mimeType, doc.originalFileName);
+  const isVideo = doc.mimeType.startsWith('video/');
+  const mediaUrl = `/api/admin/workshops/${doc.workshopId}/evidence/${doc.id}/media`;
+
+  const seekTo = (e: React.MouseEvent, at: EvidenceTimestamp) => {
+    const player = playerRef.current;
+    if (!player) return; // no inline player — let the link open the recording
+    e.preventDefault();
+    player.currentTime = at.startMs / 1000;
+    void player.play().catch(() => {});
+  };
+
   const handleDelete = async () => {
     if (!confirm(`Remove "${doc.originalFileName}" from evidence? This cannot be undone.`)) return;
     setDeleting(true);
@@ -193,6 +211,13 @@ export function EvidenceDocumentCard({ doc, onDelete }: EvidenceDocumentCardProp
       {/* Expanded detail */}
       {expanded && isReady && (
         <div className="border-t border-slate-100 px-4 py-4 space-y-4">
+          {/* Recording */}
+          {isRecording && (isVideo ? (
+            <video ref={playerRef} src={mediaUrl} controls preload="metadata" className="w-full rounded-lg bg-black" />
+          ) : (
+            <audio ref={playerRef} src={mediaUrl} controls preload="metadata" className="w-full" />
+          ))}
+
           {/* Key findings */}
           {doc.findings.length > 0 && (
             <div>
@@ -208,6 +233,20 @@ export function EvidenceDocumentCard({ doc, onDelete }: EvidenceDocumentCardProp
                       {f.sourceExcerpt && (
                         <p className="mt-0.5 text-xs italic text-slate-400">"{f.sourceExcerpt.slice(0, 120)}"</p>
                       )}
+                      {f.sourceTimestamp && (
+                        <a
+                          href={`${mediaUrl}?t=${Math.floor(f.sourceTimestamp.startMs / 1000)}`}
+                          target="_blank"
+                          rel="noreferrer"
+                          onClick={(e) => seekTo(e, f.sourceTimestamp!)}
+                          className="mt-1 inline-flex items-center gap-1 rounded bg-slate-100 px-1.5 py-0.5 text-xs font-medium text-slate-600 hover:bg-indigo-50 hover:text-indigo-700"
+                          title="Play from this moment"
+                        >
+                          <Play className="h-3 w-3" />
+                          {formatTimestamp(f.sourceTimestamp.startMs)}
+                          {f.sourceTimestamp.speakerId && ` · ${speakerLabel(f.sourceTimestamp.speakerId)}`}
+                        </a>
+                      )}
                     </div>
                   </li>
                 ))}
@@ -17,7 +17,7 @@ interface EvidenceUploadZoneProps {
 }
 
 // .ppt excluded — backend only supports OOXML .pptx; legacy binary .ppt is rejected by the API
-const ACCEPTED_EXTENSIONS = '.pdf,.docx,.xls,.xlsx,.csv,.pptx,.png,.jpg,.jpeg,.webp,.gif,.txt';
+const ACCEPTED_EXTENSIONS = '.pdf,.docx,.xls,.xlsx,.csv,.pptx,.png,.jpg,.jpeg,.webp,.gif,.txt,.mp3,.wav,.m4a,.aac,.ogg,.oga,.flac,.mp4,.mov,.webm,.m4v';
 
 function fileIcon(name: string) {
   const ext = name.split('.').pop()?.toLowerCase() ?? '';
@@ -126,7 +126,7 @@ export function EvidenceUploadZone({ workshopId, onUploadComplete, disabled }: E
           Drop files here or <span className="text-indigo-600">browse</span>
         </p>
         <p className="mt-1 text-xs text-slate-500">
-          PDF · Word · Excel · PowerPoint · CSV · Images · Screenshots
+          PDF · Word · Excel · PowerPoint · CSV · Images · Screenshots · Audio · Video
         </p>
         <p className="mt-0.5 text-xs text-slate-400">
           No formatting required — the system interprets the content automatically
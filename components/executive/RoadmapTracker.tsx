@@ -0,0 +1,257 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+
+const STATUSES = [
+  { value: 'not_started', label: 'Not started' },
+  { value: 'in_progress', label: 'In progress' },
+  { value: 'blocked',     label: 'Blocked' },
+  { value: 'done',        label: 'Done' },
+  { value: 'cancelled',   label: 'Cancelled' },
+] as const;
+
+const STATUS_COLOR: Record<string, string> = {
+  not_started: '#ffffff55',
+  in_progress: '#5cc6f2',
+  blocked:     '#f25c5c',
+  done:        '#5cf28e',
+  cancelled:   '#ffffff30',
+};
+
+export interface TrackedInitiative {
+  id: string;
+  workshopId: string;
+  workshop: { id: string; name: string };
+  phase: string;
+  title: string;
+  description: string | null;
+  outcome: string | null;
+  owner: string | null;
+  ownerEmail: string | null;
+  status: string;
+  dueDate: string | null;
+  progress: number;
+  dependsOnIds: string[];
+  rootCauses: string[];
+  constraints: string[];
+  overdue: boolean;
+  notes: Array<{ id: string; body: string; authorName: string; createdAt: string }>;
+}
+
+function InitiativeCard({
+  initiative,
+  siblings,
+  onSaved,
+}: {
+  initiative: TrackedInitiative;
+  siblings: TrackedInitiative[];
+  onSaved: (updated: TrackedInitiative) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [status, setStatus] = useState(initiative.status);
+  const [owner, setOwner] = useState(initiative.owner ?? '');
+  const [ownerEmail, setOwnerEmail] = useState(initiative.ownerEmail ?? '');
+  const [dueDate, setDueDate] = useState(initiative.dueDate?.slice(0, 10) ?? '');
+  const [progress, setProgress] = useState(initiative.progress);
+  const [dependsOnIds, setDependsOnIds] = useState<string[]>(initiative.dependsOnIds);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const titleById = new Map(siblings.map(s => [s.id, s.title]));
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/executive/roadmap/${initiative.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status,
+          owner: owner || null,
+          ownerEmail: ownerEmail || null,
+          dueDate: dueDate || null,
+          progress,
+          dependsOnIds,
+          note: note || null,
+        }),
+      });
+      const data = await res.json().catch(() => ({})) as { initiative?: TrackedInitiative; error?: string };
+      if (!res.ok || !data.initiative) {
+        setError(data.error ?? 'Could not save changes.');
+        return;
+      }
+      setNote('');
+      onSaved(data.initiative);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleDependency = (id: string) => {
+    setDependsOnIds(prev => (prev.includes(id) ? prev.filter(d => d !== id) : [...prev, id]));
+  };
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/[0.03] p-4">
+      <button className="w-full text-left" onClick={() => setOpen(o => !o)}>
+        <div className="flex items-start gap-3">
+          <div className="w-2 h-2 rounded-full mt-1.5 shrink-0" style={{ background: STATUS_COLOR[initiative.status] }} />
+          <div className="flex-1 min-w-0">
+            <p className="text-white/90 text-sm font-medium leading-snug">{initiative.title}</p>
+            <p className="text-xs text-white/30 mt-0.5">
+              {STATUSES.find(s => s.value === initiative.status)?.label}
+              {initiative.owner && ` · ${initiative.owner}`}
+              {initiative.dueDate && ` · Due ${new Date(initiative.dueDate).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })}`}
+            </p>
+          </div>
+          {initiative.overdue && (
+            <span className="text-[10px] uppercase tracking-wider text-[#f2c65c] border border-[#f2c65c]/30 rounded px-1.5 py-0.5">Overdue</span>
+          )}
+          <span className="text-xs text-white/40 w-10 text-right">{initiative.progress}%</span>
+        </div>
+        <div className="mt-3 h-1 rounded-full bg-white/5 overflow-hidden">
+          <div className="h-full rounded-full" style={{ width: `${initiative.progress}%`, background: STATUS_COLOR[initiative.status] }} />
+        </div>
+      </button>
+
+      {open && (
+        <div className="mt-4 space-y-4 text-xs">
+          {initiative.description && <p className="text-white/50 leading-relaxed">{initiative.description}</p>}
+          {initiative.outcome && <p className="text-white/40 leading-relaxed">Outcome: {initiative.outcome}</p>}
+
+          {(initiative.rootCauses.length > 0 || initiative.constraints.length > 0) && (
+            <div className="space-y-1">
+              {initiative.rootCauses.map(rc => (
+                <p key={rc} className="text-white/35">Root cause: <span className="text-white/60">{rc}</span></p>
+              ))}
+              {initiative.constraints.map(c => (
+                <p key={c} className="text-white/35">Constraint: <span className="text-white/60">{c}</span></p>
+              ))}
+            </div>
+          )}
+
+          <div className="grid sm:grid-cols-2 gap-3">
+            <label className="space-y-1">
+              <span className="text-white/40">Status</span>
+              <select value={status} onChange={e => setStatus(e.target.value)} className="w-full rounded-lg bg-white/5 border border-white/10 px-2 py-1.5 text-white">
+                {STATUSES.map(s => <option key={s.value} value={s.value} className="bg-[#0d0d0d]">{s.label}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="text-white/40">Due date</span>
+              <input type="date" value={dueDate} onChange={e => setDueDate(e.target.value)} className="w-full rounded-lg bg-white/5 border border-white/10 px-2 py-1.5 text-white" />
+            </label>
+            <label className="space-y-1">
+              <span className="text-white/40">Owner</span>
+              <input value={owner} onChange={e => setOwner(e.target.value)} className="w-full rounded-lg bg-white/5 border border-white/10 px-2 py-1.5 text-white" />
+            </label>
+            <label className="space-y-1">
+              <span className="text-white/40">Owner email (receives the weekly digest)</span>
+              <input type="email" value={ownerEmail} onChange={e => setOwnerEmail(e.target.value)} className="w-full rounded-lg bg-white/5 border border-white/10 px-2 py-1.5 text-white" />
+            </label>
+          </div>
+
+          <label className="block space-y-1">
+            <span className="text-white/40">Progress — {progress}%</span>
+            <input type="range" min={0} max={100} step={5} value={progress} onChange={e => setProgress(Number(e.target.value))} className="w-full" />
+          </label>
+
+          {siblings.length > 1 && (
+            <div className="space-y-1">
+              <p className="text-white/40">Depends on</p>
+              <div className="flex flex-wrap gap-1.5">
+                {siblings.filter(s => s.id !== initiative.id).map(s => (
+                  <button
+                    key={s.id}
+                    onClick={() => toggleDependency(s.id)}
+                    className={`rounded-full border px-2 py-0.5 ${dependsOnIds.includes(s.id) ? 'border-[#5cf28e]/50 text-[#5cf28e]' : 'border-white/10 text-white/40'}`}
+                  >
+                    {titleById.get(s.id)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <label className="block space-y-1">
+            <span className="text-white/40">Progress note</span>
+            <textarea value={note} onChange={e => setNote(e.target.value)} rows={2} className="w-full rounded-lg bg-white/5 border border-white/10 px-2 py-1.5 text-white" />
+          </label>
+
+          {error && <p className="text-[#f25c5c]">{error}</p>}
+          <button
+            onClick={save}
+            disabled={saving}
+            className="rounded-lg bg-[#5cf28e] text-black font-semibold px-4 py-1.5 disabled:opacity-50"
+          >
+            {saving ? 'Saving…' : 'Save'}
+          </button>
+
+          {initiative.notes.length > 0 && (
+            <div className="space-y-2 border-t border-white/5 pt-3">
+              {initiative.notes.map(n => (
+                <div key={n.id}>
+                  <p className="text-white/60 leading-relaxed">{n.body}</p>
+                  <p className="text-white/25 mt-0.5">{n.authorName} · {new Date(n.createdAt).toLocaleDateString('en-GB')}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function RoadmapTracker({ initialInitiatives }: { initialInitiatives: TrackedInitiative[] }) {
+  const [initiatives, setInitiatives] = useState(initialInitiatives);
+
+  const byWorkshop = useMemo(() => {
+    const groups = new Map<string, { name: string; phases: Map<string, TrackedInitiative[]> }>();
+    for (const i of initiatives) {
+      const group = groups.get(i.workshopId) ?? { name: i.workshop.name, phases: new Map() };
+      group.phases.set(i.phase, [...(group.phases.get(i.phase) ?? []), i]);
+      groups.set(i.workshopId, group);
+    }
+    return [...groups.entries()];
+  }, [initiatives]);
+
+  const attention = initiatives.filter(i => i.overdue || i.status === 'blocked').length;
+  const done = initiatives.filter(i => i.status === 'done').length;
+
+  const replace = (updated: TrackedInitiative) => {
+    setInitiatives(prev => prev.map(i => (i.id === updated.id ? updated : i)));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-6 text-sm">
+        <p className="text-white/50"><span className="text-white font-bold">{done}</span> of {initiatives.length} done</p>
+        {attention > 0 && (
+          <p className="text-[#f2c65c]"><span className="font-bold">{attention}</span> overdue or blocked</p>
+        )}
+      </div>
+
+      {byWorkshop.map(([workshopId, group]) => {
+        const siblings = initiatives.filter(i => i.workshopId === workshopId);
+        return (
+          <div key={workshopId} className="space-y-4">
+            {byWorkshop.length > 1 && <h2 className="text-sm font-bold text-white/70">{group.name}</h2>}
+            <div className="grid lg:grid-cols-3 gap-6">
+              {[...group.phases.entries()].map(([phase, items]) => (
+                <div key={phase} className="space-y-3">
+                  <h3 className="text-xs font-bold text-[#5cf28e]/80 uppercase tracking-wider">{phase}</h3>
+                  {items.map(i => (
+                    <InitiativeCard key={i.id} initiative={i} siblings={siblings} onSaved={replace} />
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -618,6 +618,7 @@ export function IntelligenceHub({ workshopId, initialStored, v2Output, workshopD
                           causalIntelligence={intelligence.causalIntelligence}
                           lensesUsed={stored?.lensesUsed ?? []}
                           workshopGoal={workshopDescription}
+                          provenance={intelligence.provenance}
                         />
                       </div>
                     </div>
@@ -16,7 +16,7 @@ import {
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { getDomainPack, type MetricReference } from '@/lib/domain-packs/registry';
+import { getDomainPack, packFromSnapshot, type MetricReference } from '@/lib/domain-packs/registry';
 import type { ParsedCsv } from '@/lib/historical-metrics/parse-csv';
 import { parseFile, parsePastedText, detectFormat, type SupportedFormat } from '@/lib/historical-metrics/parse-file';
 import { analyzeMetricTrends, type MetricTrend } from '@/lib/historical-metrics/summarize';
@@ -31,6 +31,8 @@ import { HistoricalEvidenceUploader, HISTORICAL_UPLOAD_ACCEPT } from '@/componen
 type Props = {
   workshopId: string;
   domainPack: string;
+  /** Workshop's resolved pack snapshot (may be a tenant pack version) */
+  domainPackConfig?: Record<string, unknown> | null;
   existingMetrics: HistoricalMetricsData | null;
   onMetricsUpdated: (metrics: HistoricalMetricsData) => void;
 };
@@ -75,6 +77,7 @@ function formatValue(value: number, unit: string): string {
 export default function HistoricalMetricsPanel({
   workshopId,
   domainPack,
+  domainPackConfig,
   existingMetrics,
   onMetricsUpdated,
 }: Props) {
@@ -83,9 +86,9 @@ export default function HistoricalMetricsPanel({
 
   // Domain pack metric references
   const metricRefs = useMemo<MetricReference[]>(() => {
-    const pack = getDomainPack(domainPack);
+    const pack = packFromSnapshot(domainPackConfig, domainPack) ?? getDomainPack(domainPack);
     return pack?.metricReferences ?? [];
-  }, [domainPack]);
+  }, [domainPack, domainPackConfig]);
 
   // Trends for existing data
   const trends = useMemo<MetricTrend[]>(() => {
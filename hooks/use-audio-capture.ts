@@ -5,10 +5,15 @@
  *
  * Extracted from live/page.tsx for reuse on the cognitive-guidance page.
  * Handles: getUserMedia → PCM resampling (16kHz) → CaptureAPIStream WS → ingest POST.
+ * When NEXT_PUBLIC_LOCAL_STT_URL is set, audio goes to the on-premise whisper
+ * server via LocalWhisperTranscriptionProvider instead of CaptureAPI.
  */
 
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { CaptureAPIStream, type StreamTranscript } from '@/lib/captureapi/client';
+import { createLocalSttEngine, localSttConfigFromEnv } from '@/lib/transcription/local/engines';
+import { LocalWhisperTranscriptionProvider } from '@/lib/transcription/providers/local-whisper-provider';
+import type { NormalizedTranscriptChunk } from '@/lib/transcription/types';
 
 // ── Types ────────────────────────────────────────────────
 export interface AudioCaptureOptions {
@@ -41,6 +46,30 @@ export interface AudioCaptureReturn {
   stopCapture: () => void;
 }
 
+// ── Helpers ──────────────────────────────────────────────
+/** A local whisper chunk in CaptureAPI's stream shape. Chunks are whole
+ *  segments, so each is final; there are no partials or SLM fields. */
+function localStreamTranscript(chunk: NormalizedTranscriptChunk, index: number): StreamTranscript {
+  const speaker = /^speaker_(\d+)$/.exec(chunk.speakerId ?? '');
+  return {
+    type: 'transcript',
+    speaker: speaker ? Number(speaker[1]) : null,
+    text: chunk.text,
+    rawText: chunk.text,
+    cleanText: chunk.text,
+    entities: [],
+    emotionalTone: '',
+    confidence: chunk.confidence ?? 0,
+    slmConfidence: 0,
+    slmUsed: false,
+    isFinal: true,
+    speechFinal: false,
+    chunk: index,
+    startTimeMs: chunk.startTime,
+    endTimeMs: chunk.endTime,
+  };
+}
+
 // ── Hook ─────────────────────────────────────────────────
 export function useAudioCapture({ workshopId, getDialoguePhase, onTranscriptStream }: AudioCaptureOptions): AudioCaptureReturn {
   // ── State ──
@@ -59,6 +88,10 @@ export function useAudioCapture({ workshopId, getDialoguePhase, onTranscriptStre
   const analyserRef = useRef<AnalyserNode | null>(null);
   const rafRef = useRef<number | null>(null);
   const captureWSRef = useRef<CaptureAPIStream | null>(null);
+  const localSttRef = useRef<LocalWhisperTranscriptionProvider | null>(null);
+  // Wall-clock time of the first sample pushed to the local provider, whose
+  // chunk times are relative to it
+  const localEpochRef = useRef<number | null>(null);
   const captureStreamRef = useRef<MediaStream | null>(null);
   const captureAudioCtxRef = useRef<AudioContext | null>(null);
   const captureRafRef = useRef<number | null>(null);
@@ -161,6 +194,10 @@ export function useAudioCapture({ workshopId, getDialoguePhase, onTranscriptStre
     captureAudioCtxRef.current = null;
     try { captureWSRef.current?.close(); } catch { /* ignore */ }
     captureWSRef.current = null;
+    // Flushes the last window in the background; its chunks still post to ingest
+    void localSttRef.current?.stop();
+    localSttRef.current = null;
+    localEpochRef.current = null;
     setCapturing(false);
     setAudioLevel(0);
   }, []);
@@ -170,63 +207,93 @@ export function useAudioCapture({ workshopId, getDialoguePhase, onTranscriptStre
     setCaptureError(null);
     await stopMicTest(); // Stop any running mic test
 
-    // 1. Connect CaptureAPI WebSocket
-    // Pass workshopId so Railway POSTs transcripts directly to DREAM
-    // server-to-server — browser is no longer the relay for persistence.
-    try {
-      const stream = new CaptureAPIStream({
-        workshopId,
-        dialoguePhase: getDialoguePhase(),
-        onTranscript: (msg: StreamTranscript) => {
-          const text = (msg.text?.trim() || msg.rawText?.trim() || msg.cleanText?.trim() || '');
-          if (!text) return;
-
-          // Stream ALL updates to the page for live hemisphere positioning.
-          onTranscriptStream?.(msg);
-
-          // Browser-relay fallback: POST final transcripts directly to DREAM.
-          // Railway handles this server-to-server when DREAM_API_URL is configured.
-          // If Railway is not configured, the browser relay ensures nothing is lost.
-          // The transcript route deduplicates on (workshopId, text, source) so
-          // double-posting when both paths are active is safe.
-          if (msg.isFinal === false) return;
-
-          const speakerId = msg.speaker !== null ? `speaker_${msg.speaker}` : null;
-          const now = Date.now();
-          fetch(ingestUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              speakerId,
-              startTime: msg.startTimeMs ?? now - 5000,
-              endTime: msg.endTimeMs ?? now,
-              text,
-              rawText: msg.rawText,
-              confidence: msg.confidence,
-              source: 'deepgram' as const,
-              dialoguePhase: getDialoguePhase(),
-              flush: false,
-              slmMetadata: {
-                entities: msg.entities,
-                emotionalTone: msg.emotionalTone,
-                slmConfidence: msg.slmConfidence,
-                slmUsed: msg.slmUsed,
-              },
-            }),
-          }).catch(() => {
-            // Non-fatal — Railway server-to-server may have already handled it
-          });
-        },
+    // 1a. On-premise STT — audio only goes to the local whisper server
+    const localStt = localSttConfigFromEnv();
+    if (localStt) {
+      const provider = new LocalWhisperTranscriptionProvider({
+        engine: createLocalSttEngine(localStt),
         onError: (err) => {
-          setCaptureError(`CaptureAPI stream error — ${err}`);
+          setCaptureError(`Local transcription error — ${err instanceof Error ? err.message : String(err)}`);
         },
       });
+      let chunkIndex = 0;
+      provider.onChunk((relative) => {
+        // Absolute wall-clock times, like CaptureAPI's startTimeMs / endTimeMs
+        const epoch = localEpochRef.current ?? Date.now();
+        const chunk = { ...relative, startTime: epoch + relative.startTime, endTime: epoch + relative.endTime };
+        onTranscriptStream?.(localStreamTranscript(chunk, chunkIndex++));
+
+        fetch(ingestUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...chunk, dialoguePhase: getDialoguePhase(), flush: false }),
+        }).catch(() => {
+          // Non-fatal — the next chunk carries on
+        });
+      });
+      await provider.start();
+      localSttRef.current = provider;
+    }
 
-      await stream.connect();
-      captureWSRef.current = stream;
-    } catch (err) {
-      setCaptureError(`Cannot connect to CaptureAPI — ${err instanceof Error ? err.message : String(err)}`);
-      return;
+    // 1b. Otherwise connect CaptureAPI WebSocket
+    // Pass workshopId so Railway POSTs transcripts directly to DREAM
+    // server-to-server — browser is no longer the relay for persistence.
+    if (!localStt) {
+      try {
+        const stream = new CaptureAPIStream({
+          workshopId,
+          dialoguePhase: getDialoguePhase(),
+          onTranscript: (msg: StreamTranscript) => {
+            const text = (msg.text?.trim() || msg.rawText?.trim() || msg.cleanText?.trim() || '');
+            if (!text) return;
+
+            // Stream ALL updates to the page for live hemisphere positioning.
+            onTranscriptStream?.(msg);
+
+            // Browser-relay fallback: POST final transcripts directly to DREAM.
+            // Railway handles this server-to-server when DREAM_API_URL is configured.
+            // If Railway is not configured, the browser relay ensures nothing is lost.
+            // The transcript route deduplicates on (workshopId, text, source) so
+            // double-posting when both paths are active is safe.
+            if (msg.isFinal === false) return;
+
+            const speakerId = msg.speaker !== null ? `speaker_${msg.speaker}` : null;
+            const now = Date.now();
+            fetch(ingestUrl, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({
+                speakerId,
+                startTime: msg.startTimeMs ?? now - 5000,
+                endTime: msg.endTimeMs ?? now,
+                text,
+                rawText: msg.rawText,
+                confidence: msg.confidence,
+                source: 'deepgram' as const,
+                dialoguePhase: getDialoguePhase(),
+                flush: false,
+                slmMetadata: {
+                  entities: msg.entities,
+                  emotionalTone: msg.emotionalTone,
+                  slmConfidence: msg.slmConfidence,
+                  slmUsed: msg.slmUsed,
+                },
+              }),
+            }).catch(() => {
+              // Non-fatal — Railway server-to-server may have already handled it
+            });
+          },
+          onError: (err) => {
+            setCaptureError(`CaptureAPI stream error — ${err}`);
+          },
+        });
+
+        await stream.connect();
+        captureWSRef.current = stream;
+      } catch (err) {
+        setCaptureError(`Cannot connect to CaptureAPI — ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      }
     }
 
     // 2. Start audio capture
@@ -274,6 +341,14 @@ export function useAudioCapture({ workshopId, getDialoguePhase, onTranscriptStre
       const resampleRatio = nativeSR / targetSR;
 
       pcmProcessor.onaudioprocess = (e: AudioProcessingEvent) => {
+        const localProvider = localSttRef.current;
+        if (localProvider) {
+          // The first buffer was captured over the buffer's duration before this event
+          localEpochRef.current ??= Date.now() - (e.inputBuffer.length / nativeSR) * 1000;
+          localProvider.pushAudio(e.inputBuffer.getChannelData(0), nativeSR);
+          return;
+        }
+
         const ws = captureWSRef.current;
         if (!ws || !ws.isReady) return;
         const input = e.inputBuffer.getChannelData(0);
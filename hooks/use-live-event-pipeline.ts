@@ -97,6 +97,8 @@ export type JourneyCompletionPayload = {
 export interface LiveEventPipelineOptions {
   workshopId: string;
   enabled: boolean;
+  /** Breakout room this console runs; null/undefined = the plenary */
+  roomId?: string | null;
 
   // Transcript / hemisphere callbacks
   onDataPointCreated?: (payload: DataPointCreatedPayload) => void;
@@ -173,6 +175,7 @@ export function useLiveEventPipeline(
   const pollIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const lastOutboxCursorRef = useRef<string>(new Date().toISOString());
   const lastOutboxCursorIdRef = useRef<string>('');
+  const lastOutboxSeqRef = useRef<number | null>(null);
   const seenEventIdsRef = useRef<Set<string>>(new Set());
 
   // Stable callback refs (avoid stale closures)
@@ -184,6 +187,10 @@ export function useLiveEventPipeline(
 
   const dispatchEvent = useCallback(
     (eventId: string, type: string, payload: unknown) => {
+      // Breakout rooms share the workshop stream -- keep this session's events only
+      const eventRoomId = (payload as { roomId?: string } | null)?.roomId ?? null;
+      if (eventRoomId !== (callbacksRef.current.roomId ?? null)) return;
+
       // Idempotent dedup
       if (seenEventIdsRef.current.has(eventId)) return;
       seenEventIdsRef.current.add(eventId);
@@ -264,7 +271,7 @@ export function useLiveEventPipeline(
 
     const eventUrl = `/api/workshops/${encodeURIComponent(workshopId)}/events`;
 
-    // ---- SSE connection (best-effort, unreliable on Vercel) ----
+    // ---- SSE connection (resumes via Last-Event-ID; cross-instance when a shared bus is configured) ----
     try {
       const es = new EventSource(eventUrl);
       esRef.current = es;
@@ -319,10 +326,14 @@ export function useLiveEventPipeline(
     // ---- Outbox polling (primary, durable) ----
     const poll = async () => {
       try {
+        // Seq cursor once we have one; the timestamp cursor only seeds the first poll.
+        const cursor = lastOutboxSeqRef.current !== null
+          ? `?afterSeq=${lastOutboxSeqRef.current}`
+          : `?after=${encodeURIComponent(lastOutboxCursorRef.current)}` +
+            (lastOutboxCursorIdRef.current ? `&afterId=${encodeURIComponent(lastOutboxCursorIdRef.current)}` : '');
         const url = `/api/workshops/${encodeURIComponent(workshopId)}/events/poll` +
-          `?after=${encodeURIComponent(lastOutboxCursorRef.current)}` +
-          `&types=${POLL_TYPES}` +
-          (lastOutboxCursorIdRef.current ? `&afterId=${encodeURIComponent(lastOutboxCursorIdRef.current)}` : '');
+          cursor +
+          `&types=${POLL_TYPES}`;
 
         const res = await fetch(url);
         if (!res.ok) return;
@@ -335,7 +346,10 @@ export function useLiveEventPipeline(
           dispatchEvent(eventId, evt.type, evt.payload);
         }
 
-        // Advance composite cursor to last event (events ordered by [createdAt, id] ASC)
+        // The server only advances the seq cursor past settled events
+        if (typeof data?.nextAfterSeq === 'number') lastOutboxSeqRef.current = data.nextAfterSeq;
+
+        // Timestamp cursor seeds polls until there is a seq (events ordered by [createdAt, id] on the first poll)
         if (events.length > 0) {
           const last = events[events.length - 1];
           const ts =
@@ -1,5 +1,4 @@
-import OpenAI from 'openai';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+import { getLLMClient } from '@/lib/llm';
 import type { MeetingPlan } from '@/lib/sales/sales-analysis';
 
 /**
@@ -11,10 +10,12 @@ import type { MeetingPlan } from '@/lib/sales/sales-analysis';
  * as the DREAM workshop-analyst-agent but with sales-specific domains,
  * context, and intelligence.
  *
- * Per-utterance: GPT-4o-mini (fast, real-time)
- * End-of-call synthesis: GPT-4o (deep reasoning across full conversation)
+ * Per-utterance: 'fast' tier (real-time)
+ * End-of-call synthesis: 'standard' tier (deep reasoning across full conversation)
  */
 
+const llm = getLLMClient('sales-call');
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
@@ -231,12 +232,10 @@ export async function analyzeSalesUtteranceAgentically(params: {
   utteranceId: string;
   context: SalesAgenticContext;
 }): Promise<SalesAgenticAnalysis> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OpenAI API key not configured — cannot run sales agentic analysis');
+  if (!llm.isConfigured()) {
+    throw new Error('LLM provider not configured — cannot run sales agentic analysis');
   }
 
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
   const systemPrompt = buildSalesAgentSystemPrompt(params.context);
   const userPrompt = buildUtteranceAnalysisPrompt(
     params.utterance,
@@ -245,17 +244,17 @@ export async function analyzeSalesUtteranceAgentically(params: {
   );
 
   try {
-    const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const completion = await llm.chat({
+      tier: 'fast',
       temperature: 0.3,
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt },
       ],
-      response_format: { type: 'json_object' },
-    }));
+      responseFormat: 'json',
+    });
 
-    const raw = completion.choices?.[0]?.message?.content || '{}';
+    const raw = completion.message.content || '{}';
     const analysis = JSON.parse(raw) as Partial<SalesAgenticAnalysis>;
 
     // Validate and provide defaults
@@ -296,12 +295,10 @@ export async function synthesizeSalesCallAgentically(params: {
   meetingPlan: MeetingPlan | null;
   callDurationMs: number;
 }): Promise<SalesCallSynthesis> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OpenAI API key not configured');
+  if (!llm.isConfigured()) {
+    throw new Error('LLM provider not configured');
   }
 
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
   const planContext = params.meetingPlan ? buildCompactPlanContext(params.meetingPlan) : 'No meeting plan provided.';
   const callMinutes = Math.round(params.callDurationMs / 60000);
 
@@ -380,17 +377,17 @@ Produce a comprehensive JSON report with ALL of the following sections:
 Be thorough, be specific, and always cite evidence from the utterances.`;
 
   try {
-    const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-      model: 'gpt-4o',
+    const completion = await llm.chat({
+      tier: 'standard',
       temperature: 0.2,
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt },
       ],
-      response_format: { type: 'json_object' },
-    }));
+      responseFormat: 'json',
+    });
 
-    const raw = completion.choices?.[0]?.message?.content || '{}';
+    const raw = completion.message.content || '{}';
     return JSON.parse(raw) as SalesCallSynthesis;
   } catch (error) {
     console.error('Sales call synthesis failed:', error);
@@ -624,11 +621,10 @@ export type AgenticStrategyResult = {
 export async function generateAgenticStrategy(
   plan: MeetingPlan
 ): Promise<AgenticStrategyResult> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OpenAI API key not configured — cannot run agentic strategy generation');
+  if (!llm.isConfigured()) {
+    throw new Error('LLM provider not configured — cannot run agentic strategy generation');
   }
 
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
   const planContext = buildCompactPlanContext(plan);
 
   // -----------------------------------------------------------------------
@@ -662,17 +658,17 @@ Be specific about what's missing and why it matters for this particular call.`;
   let gapAnalysis: { gaps: AgenticStrategyResult['gapAnalysis']; overallReadiness: { score: number; summary: string }; reasoning: string };
 
   try {
-    const gapCompletion = await openAiBreaker.execute(() => openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const gapCompletion = await llm.chat({
+      tier: 'fast',
       temperature: 0.3,
       messages: [
         { role: 'system', content: gapSystemPrompt },
         { role: 'user', content: gapUserPrompt },
       ],
-      response_format: { type: 'json_object' },
-    }));
+      responseFormat: 'json',
+    });
 
-    const gapRaw = gapCompletion.choices?.[0]?.message?.content || '{}';
+    const gapRaw = gapCompletion.message.content || '{}';
     gapAnalysis = JSON.parse(gapRaw);
   } catch (error) {
     console.error('Gap analysis step failed:', error);
@@ -729,17 +725,17 @@ Return JSON with this exact structure:
 Max 5 talking points, max 5 questions, max 5 objection handlers, max 5 red flags. Quality over quantity.`;
 
   try {
-    const strategyCompletion = await openAiBreaker.execute(() => openai.chat.completions.create({
-      model: 'gpt-4o',
+    const strategyCompletion = await llm.chat({
+      tier: 'standard',
       temperature: 0.2,
       messages: [
         { role: 'system', content: strategySystemPrompt },
         { role: 'user', content: strategyUserPrompt },
       ],
-      response_format: { type: 'json_object' },
-    }));
+      responseFormat: 'json',
+    });
 
-    const strategyRaw = strategyCompletion.choices?.[0]?.message?.content || '{}';
+    const strategyRaw = strategyCompletion.message.content || '{}';
     const strategyResult = JSON.parse(strategyRaw);
 
     return {
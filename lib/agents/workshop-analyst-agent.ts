@@ -1,6 +1,4 @@
-import OpenAI from 'openai';
-import { env } from '@/lib/env';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+import { getLLMClient } from '@/lib/llm';
 
 /**
  * True Agentic Workshop Analyst
@@ -10,6 +8,8 @@ import { openAiBreaker } from '@/lib/circuit-breaker';
  * relying on hardcoded keyword patterns.
  */
 
+const llm = getLLMClient('workshop-analyst');
+
 type DataPointPrimaryType =
   | 'VISIONARY'
   | 'OPPORTUNITY'
@@ -224,12 +224,10 @@ export async function analyzeUtteranceAgentically(params: {
   utteranceId: string;
   context: AgenticContext;
 }): Promise<AgenticAnalysis> {
-  if (!env.OPENAI_API_KEY) {
-    throw new Error('OpenAI API key not configured - cannot run agentic analysis');
+  if (!llm.isConfigured()) {
+    throw new Error('LLM provider not configured - cannot run agentic analysis');
   }
 
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
-
   const systemPrompt = buildAgentSystemPrompt(params.context);
   const userPrompt = buildUtteranceAnalysisPrompt(
     params.utterance,
@@ -238,18 +236,18 @@ export async function analyzeUtteranceAgentically(params: {
   );
 
   try {
-    const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-      model: 'gpt-4o-mini', // Can upgrade to gpt-4o for better reasoning
+    const completion = await llm.chat({
+      tier: 'fast', // Can upgrade to standard for better reasoning
       temperature: 0.3, // Lower for more consistent analysis
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt },
       ],
-      response_format: { type: 'json_object' },
-    }));
+      responseFormat: 'json',
+    });
 
-    const raw = completion.choices?.[0]?.message?.content || '{}';
-    console.log('[Agentic Agent] OpenAI raw response length:', raw.length, 'first 500 chars:', raw.substring(0, 500));
+    const raw = completion.content || '{}';
+    console.log('[Agentic Agent] LLM raw response length:', raw.length, 'first 500 chars:', raw.substring(0, 500));
 
     const analysis = JSON.parse(raw) as Partial<AgenticAnalysis>;
 
@@ -308,12 +306,10 @@ export async function synthesizeThemesAgentically(params: {
   }>;
   agentReasoning: string;
 }> {
-  if (!env.OPENAI_API_KEY) {
-    throw new Error('OpenAI API key not configured');
+  if (!llm.isConfigured()) {
+    throw new Error('LLM provider not configured');
   }
 
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
-
   const systemPrompt = `You are synthesizing themes from a workshop conversation.
 
 You have access to ${params.utterances.length} utterances, each with your prior individual analysis.
@@ -350,17 +346,17 @@ Return JSON with:
 - agentReasoning: explain your synthesis process`;
 
   try {
-    const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-      model: 'gpt-4o', // Use stronger model for synthesis
+    const completion = await llm.chat({
+      tier: 'standard', // Use stronger model for synthesis
       temperature: 0.2,
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt },
       ],
-      response_format: { type: 'json_object' },
-    }));
+      responseFormat: 'json',
+    });
 
-    const raw = completion.choices?.[0]?.message?.content || '{}';
+    const raw = completion.content || '{}';
     return JSON.parse(raw) as any;
   } catch (error) {
     console.error('Agentic synthesis failed:', error);
@@ -29,6 +29,36 @@ export type AuditAction =
   | 'CREATE_USER'
   | 'UPDATE_USER'
   | 'DELETE_USER'
+  | 'CREATE_DOMAIN_PACK'
+  | 'PUBLISH_DOMAIN_PACK'
+  | 'ARCHIVE_DOMAIN_PACK'
+  | 'CREATE_PROGRAMME'
+  | 'UPDATE_PROGRAMME'
+  | 'DELETE_PROGRAMME'
+  | 'ROTATE_ENCRYPTION_KEY'
+  | 'DESTROY_ENCRYPTION_KEYS'
+  | 'UPDATE_RETENTION_POLICY'
+  | 'DELETE_RETENTION_POLICY'
+  | 'SET_LEGAL_HOLD'
+  | 'RELEASE_LEGAL_HOLD'
+  | 'UPDATE_PII_CONFIG'
+  | 'UPDATE_LLM_CONFIG'
+  | 'REVEAL_PII'
+  | 'UPDATE_WORKSHOP_PERMISSIONS'
+  | 'UPDATE_SSO_CONFIG'
+  | 'VERIFY_SSO_DOMAIN'
+  | 'CREATE_SCIM_TOKEN'
+  | 'REVOKE_SCIM_TOKEN'
+  | 'PROVISION_USER'
+  | 'DEPROVISION_USER'
+  | 'CREATE_WEBHOOK'
+  | 'UPDATE_WEBHOOK'
+  | 'DELETE_WEBHOOK'
+  | 'REPLAY_WEBHOOK'
+  | 'CREATE_API_KEY'
+  | 'REVOKE_API_KEY'
+  | 'UPDATE_PPTX_TEMPLATE'
+  | 'DELETE_PPTX_TEMPLATE'
   | 'SYSTEM_EVENT'
   // Legacy action names kept for backward compatibility
   | 'VIEW_WORKSHOP'
@@ -49,7 +79,11 @@ export type AuditResourceType =
   | 'Session'
   | 'User'
   | 'Scratchpad'
-  | 'DataPoint';
+  | 'DataPoint'
+  | 'DomainPack'
+  | 'Programme'
+  | 'Organization'
+  | 'RetentionPolicy';
 
 export interface AuditLogEntry {
   organizationId: string;
@@ -0,0 +1,193 @@
+/**
+ * Per-organisation SSO settings, stored in SsoConnection.
+ *
+ * One connection per organisation, speaking either OIDC or SAML 2.0. The
+ * protocol settings live in SsoConnection.settings; the OIDC client secret is
+ * encrypted at rest with lib/encryption.ts and never returned to the browser.
+ * Role mappings turn IdP groups into a platform role — first match wins, and
+ * users with no matching group get defaultRole (or are refused when null).
+ */
+
+import { z } from 'zod';
+import { decrypt, encrypt, isEncryptionEnabled } from '@/lib/encryption';
+
+// ══════════════════════════════════════════════════════════════
+// SCHEMA
+// ══════════════════════════════════════════════════════════════
+
+export const SSO_PROTOCOLS = ['oidc', 'saml'] as const;
+export type SsoProtocol = (typeof SSO_PROTOCOLS)[number];
+
+/** Roles an IdP can grant. EXECUTIVE provisions an ExecLicence, not a User. */
+export const PROVISIONED_ROLES = ['TENANT_ADMIN', 'TENANT_USER', 'EXECUTIVE'] as const;
+export type ProvisionedRole = (typeof PROVISIONED_ROLES)[number];
+
+export const OidcSettingsSchema = z.object({
+  /** Issuer URL; discovery is read from {issuer}/.well-known/openid-configuration */
+  issuer: z.string().url(),
+  clientId: z.string().trim().min(1).max(500),
+  /** Omit on update to keep the stored secret */
+  clientSecret: z.string().min(1).max(2000).optional(),
+  scopes: z.array(z.string().trim().min(1)).max(20).optional(),
+  /** id_token / userinfo claim that carries group names (default "groups") */
+  groupsClaim: z.string().trim().min(1).max(200).optional(),
+});
+
+export const SamlSettingsSchema = z.object({
+  /** IdP single sign-on URL (HTTP-Redirect binding) */
+  entryPoint: z.string().url(),
+  /** IdP entity ID; responses from any other issuer are rejected */
+  idpIssuer: z.string().trim().min(1).max(500),
+  /** IdP signing certificate(s), PEM or bare base64 */
+  idpCert: z.union([z.string().min(1), z.array(z.string().min(1)).min(1).max(5)]),
+  /** Attribute that carries group names (default "groups") */
+  groupsAttribute: z.string().trim().min(1).max(300).optional(),
+  /** Attribute for the user's email when the NameID is not an email */
+  emailAttribute: z.string().trim().min(1).max(300).optional(),
+  nameAttribute: z.string().trim().min(1).max(300).optional(),
+});
+
+const RoleMappingSchema = z.object({
+  group: z.string().trim().min(1).max(300),
+  role: z.enum(PROVISIONED_ROLES),
+});
+
+export const RoleMappingsSchema = z.array(RoleMappingSchema).max(100);
+export type RoleMapping = z.infer<typeof RoleMappingSchema>;
+
+export const DomainSchema = z.string().trim().toLowerCase()
+  .regex(/^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)+$/, { message: 'Invalid email domain' });
+
+const SharedFields = {
+  enabled: z.boolean(),
+  emailDomains: z.array(DomainSchema).max(50).default([]),
+  jitProvisioning: z.boolean().default(true),
+  defaultRole: z.enum(PROVISIONED_ROLES).nullable().default('TENANT_USER'),
+  roleMappings: RoleMappingsSchema.default([]),
+  enforceSso: z.boolean().default(false),
+  /** Trust the IdP's own MFA, so SSO sessions pass the MFA_REQUIRED gate */
+  idpEnforcesMfa: z.boolean().default(false),
+};
+
+export const SsoConnectionSchema = z.discriminatedUnion('protocol', [
+  z.object({ protocol: z.literal('oidc'), oidc: OidcSettingsSchema, ...SharedFields }),
+  z.object({ protocol: z.literal('saml'), saml: SamlSettingsSchema, ...SharedFields }),
+]);
+
+export type SsoConnectionInput = z.infer<typeof SsoConnectionSchema>;
+export type OidcSettings = z.infer<typeof OidcSettingsSchema>;
+export type SamlSettings = z.infer<typeof SamlSettingsSchema>;
+
+// ══════════════════════════════════════════════════════════════
+// STORED CONNECTION
+// ══════════════════════════════════════════════════════════════
+
+/** Shape of the SsoConnection row the SSO flows read */
+export interface SsoConnectionRecord {
+  id: string;
+  organizationId: string;
+  protocol: string;
+  enabled: boolean;
+  settings: unknown;
+  /** The organisation's verified SSO domains (SsoDomain) */
+  emailDomains: string[];
+  jitProvisioning: boolean;
+  defaultRole: string | null;
+  roleMappings: unknown;
+  enforceSso: boolean;
+}
+
+const StoredSettingsSchema = z.object({
+  oidc: OidcSettingsSchema.optional(),
+  saml: SamlSettingsSchema.optional(),
+  idpEnforcesMfa: z.boolean().optional(),
+});
+
+export interface ResolvedSsoConnection {
+  id: string;
+  organizationId: string;
+  protocol: SsoProtocol;
+  enabled: boolean;
+  /** Decrypted OIDC settings (client secret in plaintext) */
+  oidc: (OidcSettings & { clientSecret: string }) | null;
+  saml: SamlSettings | null;
+  /** Verified domains — the only addresses this IdP may speak for */
+  emailDomains: string[];
+  jitProvisioning: boolean;
+  defaultRole: ProvisionedRole | null;
+  roleMappings: RoleMapping[];
+  enforceSso: boolean;
+  idpEnforcesMfa: boolean;
+}
+
+export function encryptClientSecret(secret: string): string {
+  return isEncryptionEnabled() ? encrypt(secret) : secret;
+}
+
+function decryptClientSecret(stored: string): string {
+  return isEncryptionEnabled() ? decrypt(stored) : stored;
+}
+
+/**
+ * Parse a stored connection (untrusted JSON columns). Invalid settings yield
+ * null, never throw, so a broken connection simply behaves as disabled.
+ */
+export function readSsoConnection(row: SsoConnectionRecord): ResolvedSsoConnection | null {
+  const settings = StoredSettingsSchema.safeParse(row.settings);
+  const mappings = RoleMappingsSchema.safeParse(row.roleMappings ?? []);
+  if (!settings.success || !mappings.success) {
+    console.warn('[SSO] Ignoring invalid SSO connection for organization', row.organizationId);
+    return null;
+  }
+
+  const protocol = row.protocol as SsoProtocol;
+  const { oidc, saml } = settings.data;
+  const complete = protocol === 'oidc' ? !!oidc?.clientSecret : protocol === 'saml' && !!saml;
+  if (!complete) {
+    console.warn('[SSO] Incomplete SSO connection for organization', row.organizationId);
+    return null;
+  }
+
+  return {
+    id: row.id,
+    organizationId: row.organizationId,
+    protocol,
+    enabled: row.enabled,
+    oidc: protocol === 'oidc' && oidc?.clientSecret
+      ? { ...oidc, clientSecret: decryptClientSecret(oidc.clientSecret) }
+      : null,
+    saml: protocol === 'saml' && saml ? saml : null,
+    emailDomains: row.emailDomains,
+    jitProvisioning: row.jitProvisioning,
+    defaultRole: (PROVISIONED_ROLES as readonly string[]).includes(row.defaultRole ?? '')
+      ? (row.defaultRole as ProvisionedRole)
+      : null,
+    roleMappings: mappings.data,
+    enforceSso: row.enforceSso,
+    idpEnforcesMfa: settings.data.idpEnforcesMfa ?? false,
+  };
+}
+
+/**
+ * Role for a user in the given IdP groups: the first mapping whose group the
+ * user is in, else the connection's default (null = no access). Group names
+ * compare case-insensitively — IdPs disagree on casing.
+ */
+export function resolveProvisionedRole(
+  groups: readonly string[],
+  mappings: readonly RoleMapping[],
+  defaultRole: ProvisionedRole | null,
+): ProvisionedRole | null {
+  const held = new Set(groups.map((g) => g.toLowerCase()));
+  const match = mappings.find((m) => held.has(m.group.toLowerCase()));
+  return match?.role ?? defaultRole;
+}
+
+/** Public origin the IdP redirects back to (NEXT_PUBLIC_APP_URL) */
+export function ssoBaseUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+}
+
+export function emailDomain(email: string): string {
+  return email.trim().toLowerCase().split('@').pop() ?? '';
+}
@@ -0,0 +1,114 @@
+/**
+ * SSO email domain claims.
+ *
+ * Login routes users to an organisation's IdP by email domain, and JIT
+ * provisioning trusts the IdP for addresses in those domains — so a domain
+ * must be proven. An organisation claims a domain (one organisation per
+ * domain, enforced by a unique index) and publishes the claim's token as a
+ * DNS TXT record; only verified domains route logins or allow provisioning.
+ *
+ * An unverified claim lapses after CLAIM_EXPIRY_MS, so a squatted domain can
+ * be claimed by the organisation that actually owns it.
+ */
+
+import dns from 'dns/promises';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { randomToken } from './state';
+import { SsoError } from './types';
+
+const CLAIM_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000;
+const TXT_RECORD_PREFIX = '_dream-sso';
+const TXT_VALUE_PREFIX = 'dream-sso-verification=';
+
+export interface SsoDomainClaim {
+  domain: string;
+  verifiedAt: Date | null;
+  createdAt: Date;
+  /** The TXT record that proves the claim */
+  txtRecord: { name: string; value: string };
+}
+
+type ClaimRow = { domain: string; verificationToken: string; verifiedAt: Date | null; createdAt: Date };
+
+const CLAIM_SELECT = { domain: true, verificationToken: true, verifiedAt: true, createdAt: true } as const;
+
+function toClaim(row: ClaimRow): SsoDomainClaim {
+  return {
+    domain: row.domain,
+    verifiedAt: row.verifiedAt,
+    createdAt: row.createdAt,
+    txtRecord: { name: `${TXT_RECORD_PREFIX}.${row.domain}`, value: `${TXT_VALUE_PREFIX}${row.verificationToken}` },
+  };
+}
+
+export async function listSsoDomains(organizationId: string): Promise<SsoDomainClaim[]> {
+  const rows = await prisma.ssoDomain.findMany({
+    where: { organizationId },
+    orderBy: { domain: 'asc' },
+    select: CLAIM_SELECT,
+  });
+  return rows.map(toClaim);
+}
+
+/** Claim `domain`, taking over another organisation's claim only once it has lapsed */
+async function claimDomain(organizationId: string, domain: string): Promise<void> {
+  try {
+    await prisma.ssoDomain.create({ data: { organizationId, domain, verificationToken: randomToken(24) } });
+    return;
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') throw error;
+  }
+
+  const lapsed = await prisma.ssoDomain.deleteMany({
+    where: { domain, verifiedAt: null, createdAt: { lt: new Date(Date.now() - CLAIM_EXPIRY_MS) } },
+  });
+  if (lapsed.count === 0) {
+    throw new SsoError(`Email domain already claimed by another organisation: ${domain}`, 409);
+  }
+  try {
+    await prisma.ssoDomain.create({ data: { organizationId, domain, verificationToken: randomToken(24) } });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new SsoError(`Email domain already claimed by another organisation: ${domain}`, 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Make the organisation's claims match `domains`: new domains are claimed
+ * unverified, domains no longer listed are released. Throws SsoError (409)
+ * when another organisation holds a live claim.
+ */
+export async function setSsoDomains(organizationId: string, domains: string[]): Promise<SsoDomainClaim[]> {
+  const wanted = [...new Set(domains.map((d) => d.toLowerCase()))];
+  const existing = await prisma.ssoDomain.findMany({ where: { organizationId }, select: { domain: true } });
+  const held = new Set(existing.map((d) => d.domain));
+
+  for (const domain of wanted) {
+    if (!held.has(domain)) await claimDomain(organizationId, domain);
+  }
+  await prisma.ssoDomain.deleteMany({ where: { organizationId, domain: { notIn: wanted } } });
+  return listSsoDomains(organizationId);
+}
+
+/** Check the claim's TXT record and mark the domain verified when it is published */
+export async function verifySsoDomain(organizationId: string, domain: string): Promise<SsoDomainClaim> {
+  const row = await prisma.ssoDomain.findFirst({ where: { organizationId, domain }, select: CLAIM_SELECT });
+  if (!row) throw new SsoError('Email domain not claimed by this organisation', 404);
+  if (row.verifiedAt) return toClaim(row);
+
+  const claim = toClaim(row);
+  const records = await dns.resolveTxt(claim.txtRecord.name).catch(() => [] as string[][]);
+  if (!records.some((chunks) => chunks.join('') === claim.txtRecord.value)) {
+    throw new SsoError(`TXT record ${claim.txtRecord.name} not found or does not match`, 422);
+  }
+
+  const verified = await prisma.ssoDomain.update({
+    where: { domain },
+    data: { verifiedAt: new Date() },
+    select: CLAIM_SELECT,
+  });
+  return toClaim(verified);
+}
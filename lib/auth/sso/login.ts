@@ -0,0 +1,280 @@
+/**
+ * Starting and finishing an SSO login.
+ *
+ * startSsoLogin() seals the flow state and returns the IdP URL;
+ * finishSsoLogin() provisions the account and issues the same DB-backed
+ * session a password login would (or an exec-session for EXECUTIVE users).
+ *
+ * The session cookie is sameSite=strict, which the browser withholds on the
+ * cross-site navigation that brings the user back from the IdP. So instead of
+ * redirecting straight into the app, the callback answers with a tiny page
+ * that continues to the destination from our own origin.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { nanoid } from 'nanoid';
+import { prisma } from '@/lib/prisma';
+import { createSessionToken, type SessionPayload } from '@/lib/auth/session';
+import { createExecSessionToken, type ExecSessionPayload } from '@/lib/auth/exec-session';
+import { isMfaRequired, requiresMfa } from '@/lib/auth/mfa';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import { emailDomain, readSsoConnection, ssoBaseUrl, type ResolvedSsoConnection } from './config';
+import { buildOidcAuthorizeUrl } from './oidc';
+import { provisionSsoLogin } from './provisioning';
+import { buildSamlAuthorizeUrl, newSamlRequestId } from './saml';
+import {
+  SSO_BINDING_COOKIE,
+  SSO_STATE_TTL_SECONDS,
+  randomToken,
+  safeReturnTo,
+  sealSsoState,
+  type SsoFlowState,
+} from './state';
+import { SsoError, type SsoIdentity } from './types';
+
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+export function oidcRedirectUri(): string {
+  return `${ssoBaseUrl()}/api/auth/sso/oidc/callback`;
+}
+
+export function getIpAddress(request: NextRequest): string {
+  return (
+    request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+    request.headers.get('x-real-ip') ||
+    '127.0.0.1'
+  );
+}
+
+// ── Connections ──────────────────────────────────────────────────────
+
+const CONNECTION_SELECT = {
+  id: true,
+  organizationId: true,
+  protocol: true,
+  enabled: true,
+  settings: true,
+  jitProvisioning: true,
+  defaultRole: true,
+  roleMappings: true,
+  enforceSso: true,
+  organization: {
+    select: { ssoDomains: { where: { verifiedAt: { not: null } }, select: { domain: true } } },
+  },
+} as const;
+
+/** Enabled, valid connection by id, organisation or verified email domain */
+export async function findSsoConnection(
+  by: { id: string } | { organizationId: string } | { email: string },
+): Promise<ResolvedSsoConnection | null> {
+  const where = 'email' in by
+    ? { organization: { ssoDomains: { some: { domain: emailDomain(by.email), verifiedAt: { not: null } } } } }
+    : by;
+  const row = await prisma.ssoConnection.findFirst({ where: { ...where, enabled: true }, select: CONNECTION_SELECT });
+  if (!row) return null;
+  const { organization, ...rest } = row;
+  const connection = readSsoConnection({ ...rest, emailDomains: organization.ssoDomains.map((d) => d.domain) });
+  return connection?.enabled ? connection : null;
+}
+
+/** Whether password login is switched off for this organisation's tenant users */
+export async function isSsoEnforced(organizationId: string | null): Promise<boolean> {
+  if (!organizationId) return false;
+  const connection = await prisma.ssoConnection.findUnique({
+    where: { organizationId },
+    select: { enabled: true, enforceSso: true },
+  });
+  return !!connection?.enabled && connection.enforceSso;
+}
+
+// ── Start ────────────────────────────────────────────────────────────
+
+/**
+ * Build the IdP URL for a connection. The returned binding must be set on the
+ * response with setSsoBindingCookie(). `loginHint` pre-fills the IdP's
+ * username field where supported.
+ */
+export async function startSsoLogin(
+  connection: ResolvedSsoConnection,
+  options: { loginHint?: string; returnTo?: string } = {},
+): Promise<{ url: string; binding: string }> {
+  const binding = randomToken();
+  const base: SsoFlowState = {
+    connectionId: connection.id,
+    organizationId: connection.organizationId,
+    binding,
+    returnTo: safeReturnTo(options.returnTo),
+  };
+
+  if (connection.protocol === 'oidc') {
+    const nonce = randomToken();
+    const codeVerifier = randomToken(48);
+    const state = await sealSsoState({ ...base, nonce, codeVerifier });
+    const url = await buildOidcAuthorizeUrl(connection, {
+      state,
+      nonce,
+      codeVerifier,
+      redirectUri: oidcRedirectUri(),
+      loginHint: options.loginHint,
+    });
+    return { url, binding };
+  }
+
+  const requestId = newSamlRequestId();
+  const relayState = await sealSsoState({ ...base, requestId });
+  return { url: await buildSamlAuthorizeUrl(connection, { requestId, relayState }), binding };
+}
+
+export function setSsoBindingCookie(response: NextResponse, connection: ResolvedSsoConnection, binding: string): void {
+  // The SAML response arrives as a cross-site POST, which only carries
+  // SameSite=None cookies; the OIDC callback is a top-level GET, so Lax suffices
+  const crossSitePost = connection.protocol === 'saml';
+  response.cookies.set(SSO_BINDING_COOKIE, binding, {
+    httpOnly: true,
+    secure: crossSitePost || process.env.NODE_ENV === 'production',
+    sameSite: crossSitePost ? 'none' : 'lax',
+    maxAge: SSO_STATE_TTL_SECONDS,
+    path: '/api/auth/sso',
+  });
+}
+
+// ── Finish ───────────────────────────────────────────────────────────
+
+function continuePage(destination: string): string {
+  const href = destination.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><meta http-equiv="refresh" content="0;url=${href}"><title>Signing in…</title></head>
+<body><p>Signing you in… <a href="${href}">Continue</a></p></body></html>`;
+}
+
+/** Send the browser back to the login page with an error message */
+export function ssoErrorRedirect(message: string): NextResponse {
+  const url = new URL('/login', ssoBaseUrl());
+  url.searchParams.set('ssoError', message);
+  const response = NextResponse.redirect(url, 303);
+  response.cookies.delete({ name: SSO_BINDING_COOKIE, path: '/api/auth/sso' });
+  return response;
+}
+
+async function recordAttempt(request: NextRequest, email: string, success: boolean, failureReason?: string, userId?: string) {
+  await prisma.loginAttempt.create({
+    data: {
+      userId: userId ?? null,
+      email,
+      success,
+      ipAddress: getIpAddress(request),
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      failureReason: failureReason ?? null,
+    },
+  }).catch((err) => console.error('[SSO] Failed to record login attempt:', err));
+}
+
+/**
+ * Provision the IdP-verified identity and answer with a session cookie and
+ * the continue page — or a redirect back to /login when the login is refused.
+ */
+export async function finishSsoLogin(
+  request: NextRequest,
+  connection: ResolvedSsoConnection,
+  identity: SsoIdentity,
+  state: SsoFlowState,
+): Promise<NextResponse> {
+  const ipAddress = getIpAddress(request);
+  const userAgent = request.headers.get('user-agent') || 'unknown';
+
+  let result;
+  try {
+    result = await provisionSsoLogin(connection, identity);
+  } catch (error) {
+    if (!(error instanceof SsoError)) throw error;
+    await recordAttempt(request, identity.email, false, `SSO: ${error.message}`);
+    logAuditEvent({
+      organizationId: connection.organizationId,
+      userEmail: identity.email,
+      action: 'LOGIN_FAILED',
+      resourceType: 'session',
+      metadata: { method: 'sso', protocol: connection.protocol, reason: error.message, groups: identity.groups },
+      ipAddress,
+      userAgent,
+      success: false,
+    }).catch((err) => console.error('[audit] sso_login_failed:', err));
+    return ssoErrorRedirect(error.message);
+  }
+
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  let cookieName: string;
+  let jwt: string;
+  let destination: string;
+  let auditEntry: { userId: string; role: string };
+
+  if (result.kind === 'executive') {
+    const { licence } = result;
+    const session = await prisma.session.create({
+      data: { id: nanoid(), execLicenceId: licence.id, token: nanoid(32), userAgent, ipAddress, expiresAt },
+    });
+    const payload: ExecSessionPayload = {
+      sessionId: session.id,
+      execLicenceId: licence.id,
+      execEmail: licence.email,
+      execOrgId: licence.organizationId,
+      name: licence.name,
+      isExec: true,
+      createdAt: Date.now(),
+    };
+    cookieName = 'exec-session';
+    jwt = await createExecSessionToken(payload);
+    destination = '/executive';
+    auditEntry = { userId: licence.id, role: 'EXECUTIVE' };
+  } else {
+    const { user } = result;
+    // The platform's MFA gate only trusts SSO sessions when the IdP enforces MFA itself
+    if (isMfaRequired() && requiresMfa(user.role) && !connection.idpEnforcesMfa) {
+      await recordAttempt(request, user.email, false, 'SSO: MFA not enforced by IdP', user.id);
+      return ssoErrorRedirect('Administrators must use an identity provider that enforces MFA. Please contact your administrator.');
+    }
+
+    const sessionPayload: SessionPayload = {
+      sessionId: nanoid(),
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      organizationId: user.organizationId,
+      createdAt: Date.now(),
+      ...(connection.idpEnforcesMfa && { mfaVerified: true }),
+    };
+    jwt = await createSessionToken(sessionPayload);
+    await prisma.session.create({
+      data: { id: sessionPayload.sessionId, userId: user.id, token: jwt, userAgent, ipAddress, expiresAt },
+    });
+    cookieName = 'session';
+    destination = state.returnTo ?? '/admin';
+    auditEntry = { userId: user.id, role: user.role };
+  }
+
+  await recordAttempt(request, identity.email, true, undefined, result.kind === 'user' ? result.user.id : undefined);
+  logAuditEvent({
+    organizationId: connection.organizationId,
+    userId: auditEntry.userId,
+    userEmail: identity.email,
+    action: 'LOGIN_SUCCESS',
+    resourceType: 'session',
+    metadata: { method: 'sso', protocol: connection.protocol, role: auditEntry.role, provisioned: result.created },
+    ipAddress,
+    userAgent,
+    success: true,
+  }).catch((err) => console.error('[audit] sso_login:', err));
+
+  const response = new NextResponse(continuePage(destination), {
+    status: 200,
+    headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' },
+  });
+  response.cookies.set(cookieName, jwt, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: 60 * 60 * 24,
+    path: '/',
+  });
+  response.cookies.delete({ name: SSO_BINDING_COOKIE, path: '/api/auth/sso' });
+  return response;
+}
@@ -0,0 +1,196 @@
+/**
+ * OpenID Connect relying party.
+ *
+ * Authorization-code flow with PKCE (S256) against the organisation's IdP.
+ * The id_token is verified against the IdP's published JWKS (issuer,
+ * audience, expiry) and must echo the nonce from the flow state. Groups come
+ * from the id_token, or from userinfo when the IdP leaves them out of the
+ * token (Entra ID, Okta with large group counts).
+ *
+ * The issuer is tenant-supplied, so discovery and every endpoint it names go
+ * through the outbound URL guard (lib/outbound-url.ts) before being fetched.
+ */
+
+import crypto from 'crypto';
+import * as jose from 'jose';
+import { OutboundUrlError, assertPublicUrl, publicFetch } from '@/lib/outbound-url';
+import type { ResolvedSsoConnection } from './config';
+import { SsoError, type SsoIdentity } from './types';
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+type OidcConnection = Pick<ResolvedSsoConnection, 'oidc'>;
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_SCOPES = ['openid', 'email', 'profile'];
+
+const discoveryCache = new Map<string, { document: OidcDiscovery; expiresAt: number }>();
+const jwksCache = new Map<string, ReturnType<typeof jose.createRemoteJWKSet>>();
+
+function settingsOf(connection: OidcConnection) {
+  if (!connection.oidc) throw new SsoError('SSO connection is not configured for OIDC', 500);
+  return connection.oidc;
+}
+
+async function assertIdpUrl(url: string): Promise<void> {
+  try {
+    await assertPublicUrl(url, 'OIDC identity provider URLs');
+  } catch (error) {
+    if (error instanceof OutboundUrlError) throw new SsoError(error.message, 502);
+    throw error;
+  }
+}
+
+export async function discoverOidc(issuer: string): Promise<OidcDiscovery> {
+  const cached = discoveryCache.get(issuer);
+  if (cached && cached.expiresAt > Date.now()) return cached.document;
+
+  const url = `${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+  await assertIdpUrl(url);
+  const response = await publicFetch(url, { headers: { Accept: 'application/json' }, redirect: 'error' });
+  if (!response.ok) throw new SsoError(`OIDC discovery failed (${response.status})`, 502);
+
+  const document = (await response.json()) as OidcDiscovery;
+  if (!document.authorization_endpoint || !document.token_endpoint || !document.jwks_uri) {
+    throw new SsoError('OIDC discovery document is incomplete', 502);
+  }
+  // The platform calls these server-side; the authorization endpoint is only a browser redirect
+  for (const endpoint of [document.token_endpoint, document.jwks_uri, document.userinfo_endpoint]) {
+    if (endpoint) await assertIdpUrl(endpoint);
+  }
+  discoveryCache.set(issuer, { document, expiresAt: Date.now() + DISCOVERY_TTL_MS });
+  return document;
+}
+
+export function pkceChallenge(verifier: string): string {
+  return crypto.createHash('sha256').update(verifier).digest('base64url');
+}
+
+export async function buildOidcAuthorizeUrl(
+  connection: OidcConnection,
+  params: { state: string; nonce: string; codeVerifier: string; redirectUri: string; loginHint?: string },
+): Promise<string> {
+  const settings = settingsOf(connection);
+  const discovery = await discoverOidc(settings.issuer);
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', settings.clientId);
+  url.searchParams.set('redirect_uri', params.redirectUri);
+  url.searchParams.set('scope', [...new Set([...DEFAULT_SCOPES, ...(settings.scopes ?? [])])].join(' '));
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('code_challenge', pkceChallenge(params.codeVerifier));
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (params.loginHint) url.searchParams.set('login_hint', params.loginHint);
+  return url.toString();
+}
+
+function stringClaim(claims: Record<string, unknown>, key: string): string | undefined {
+  const value = claims[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function groupsClaim(claims: Record<string, unknown>, key: string): string[] | undefined {
+  const value = claims[key];
+  if (Array.isArray(value)) return value.filter((g): g is string => typeof g === 'string');
+  if (typeof value === 'string') return [value];
+  return undefined;
+}
+
+/** Exchange the authorization code, verify the id_token and read the user's identity */
+export async function completeOidcLogin(
+  connection: OidcConnection,
+  params: { code: string; nonce: string; codeVerifier: string; redirectUri: string },
+): Promise<SsoIdentity> {
+  const settings = settingsOf(connection);
+  const discovery = await discoverOidc(settings.issuer);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: params.code,
+    redirect_uri: params.redirectUri,
+    code_verifier: params.codeVerifier,
+  });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+  const methods = discovery.token_endpoint_auth_methods_supported;
+  if (methods && !methods.includes('client_secret_basic') && methods.includes('client_secret_post')) {
+    body.set('client_id', settings.clientId);
+    body.set('client_secret', settings.clientSecret);
+  } else {
+    const credentials = `${encodeURIComponent(settings.clientId)}:${encodeURIComponent(settings.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const tokenResponse = await publicFetch(discovery.token_endpoint, { method: 'POST', headers, body, redirect: 'error' });
+  if (!tokenResponse.ok) {
+    console.error('[SSO] OIDC token exchange failed:', tokenResponse.status, await tokenResponse.text().catch(() => ''));
+    throw new SsoError('The identity provider rejected the sign-in', 401);
+  }
+  const tokens = (await tokenResponse.json()) as { id_token?: string; access_token?: string };
+  if (!tokens.id_token) throw new SsoError('The identity provider did not return an id_token', 401);
+
+  let jwks = jwksCache.get(discovery.jwks_uri);
+  if (!jwks) {
+    jwks = jose.createRemoteJWKSet(new URL(discovery.jwks_uri), { [jose.customFetch]: publicFetch });
+    jwksCache.set(discovery.jwks_uri, jwks);
+  }
+
+  let claims: jose.JWTPayload;
+  try {
+    ({ payload: claims } = await jose.jwtVerify(tokens.id_token, jwks, {
+      issuer: discovery.issuer,
+      audience: settings.clientId,
+    }));
+  } catch (error) {
+    console.error('[SSO] OIDC id_token verification failed:', error);
+    throw new SsoError('The identity provider returned an invalid id_token', 401);
+  }
+  if (claims.nonce !== params.nonce) throw new SsoError('SSO nonce mismatch', 401);
+  if (!claims.sub) throw new SsoError('The id_token has no subject', 401);
+
+  const claimName = settings.groupsClaim ?? 'groups';
+  let allClaims: Record<string, unknown> = claims;
+  const needsUserinfo = !stringClaim(claims, 'email') || groupsClaim(claims, claimName) === undefined;
+  if (needsUserinfo && discovery.userinfo_endpoint && tokens.access_token) {
+    const userinfo = await publicFetch(discovery.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}`, Accept: 'application/json' },
+      redirect: 'error',
+    });
+    if (userinfo.ok) {
+      const info = (await userinfo.json()) as Record<string, unknown>;
+      // userinfo must describe the same subject as the verified id_token
+      if (info.sub === claims.sub) allClaims = { ...info, ...claims };
+    }
+  }
+
+  const email = stringClaim(allClaims, 'email')?.toLowerCase();
+  if (!email) throw new SsoError('The identity provider did not share an email address', 403);
+  if (allClaims.email_verified === false) throw new SsoError('Your email address is not verified with the identity provider', 403);
+
+  const fullName = stringClaim(allClaims, 'name')
+    ?? [stringClaim(allClaims, 'given_name'), stringClaim(allClaims, 'family_name')].filter(Boolean).join(' ');
+
+  return {
+    subject: claims.sub,
+    email,
+    name: fullName || email,
+    groups: groupsClaim(allClaims, claimName) ?? [],
+  };
+}
+
+/** Drop cached discovery documents and key sets (tests, IdP reconfiguration) */
+export function clearOidcCaches(): void {
+  discoveryCache.clear();
+  jwksCache.clear();
+}
@@ -0,0 +1,179 @@
+/**
+ * Just-in-time provisioning for SSO logins.
+ *
+ * The IdP vouches for who the user is; this decides what they become on the
+ * platform. Existing accounts are matched by their SSO subject, then by
+ * email, and must belong to the connection's organisation. Unknown users are
+ * created when the connection allows JIT provisioning, the organisation has
+ * verified the user's email domain (lib/auth/sso/domains.ts) and has a free
+ * seat (Organization.maxSeats counts active users; ExecLicence holders are
+ * licensed separately). When role mappings are configured the IdP's groups
+ * stay authoritative and an existing user's role follows them.
+ */
+
+import * as bcrypt from 'bcryptjs';
+import { nanoid } from 'nanoid';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { emailDomain, resolveProvisionedRole, type ResolvedSsoConnection } from './config';
+import { randomToken } from './state';
+import { SsoError, type SsoIdentity } from './types';
+
+export type SsoLoginResult =
+  | { kind: 'user'; created: boolean; user: { id: string; email: string; name: string; role: string; organizationId: string } }
+  | { kind: 'executive'; created: boolean; licence: { id: string; email: string; name: string; organizationId: string } };
+
+// ── Shared helpers ───────────────────────────────────────────────────
+
+export type SeatUsage = { used: number; max: number };
+
+/** Seats in use and the organisation's limit */
+export async function seatUsage(
+  organizationId: string,
+  db: Prisma.TransactionClient = prisma,
+): Promise<SeatUsage | null> {
+  const [org, used] = await Promise.all([
+    db.organization.findUnique({ where: { id: organizationId }, select: { maxSeats: true } }),
+    db.user.count({ where: { organizationId, isActive: true } }),
+  ]);
+  return org ? { used, max: org.maxSeats } : null;
+}
+
+/**
+ * Create or reactivate a user in one of the organisation's free seats. The
+ * organisation row stays locked from the count until `activate` has written,
+ * so concurrent first logins cannot go over maxSeats. When no seat is free
+ * the error from `noSeat` is thrown (usage is null if the organisation is
+ * gone).
+ */
+export async function withFreeSeat<T>(
+  organizationId: string,
+  noSeat: (usage: SeatUsage | null) => Error,
+  activate: (tx: Prisma.TransactionClient) => Promise<T>,
+): Promise<T> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT 1 FROM "organizations" WHERE "id" = ${organizationId} FOR UPDATE`;
+    const usage = await seatUsage(organizationId, tx);
+    if (!usage || usage.used >= usage.max) throw noSeat(usage);
+    return activate(tx);
+  });
+}
+
+/**
+ * Hash of a random secret nobody knows. SSO- and SCIM-provisioned accounts
+ * still need a password column; this one can only be replaced through a
+ * password reset.
+ */
+export function unusablePasswordHash(): Promise<string> {
+  return bcrypt.hash(randomToken(32), 10);
+}
+
+// ── Login ────────────────────────────────────────────────────────────
+
+/**
+ * New accounts take the IdP's word for a globally unique email, so they are
+ * only created for the organisation's verified domains.
+ */
+function assertCanProvision(connection: ResolvedSsoConnection, message: string): void {
+  if (!connection.jitProvisioning) throw new SsoError(message, 403);
+  if (connection.emailDomains.length === 0) {
+    throw new SsoError('Accounts are only created for a verified email domain. Please contact your administrator.', 403);
+  }
+}
+
+async function provisionExecutive(connection: ResolvedSsoConnection, identity: SsoIdentity): Promise<SsoLoginResult> {
+  const existing = await prisma.execLicence.findUnique({ where: { email: identity.email } });
+
+  if (existing) {
+    if (existing.organizationId !== connection.organizationId) {
+      throw new SsoError('This account belongs to another organisation', 403);
+    }
+    if (!existing.isActive || existing.revokedAt) {
+      throw new SsoError('Your executive licence has been revoked. Please contact your administrator.', 403);
+    }
+    const licence = await prisma.execLicence.update({
+      where: { id: existing.id },
+      data: { lastLoginAt: new Date() },
+    });
+    return { kind: 'executive', created: false, licence };
+  }
+
+  assertCanProvision(connection, 'No executive licence exists for this account. Please contact your administrator.');
+
+  const licence = await prisma.execLicence.create({
+    data: {
+      id: nanoid(),
+      organizationId: connection.organizationId,
+      email: identity.email,
+      hashedPassword: await unusablePasswordHash(),
+      name: identity.name,
+      lastLoginAt: new Date(),
+    },
+  });
+  return { kind: 'executive', created: true, licence };
+}
+
+/**
+ * Resolve an IdP-verified identity to a platform account, creating it when
+ * allowed. Throws SsoError when the login must be refused.
+ */
+export async function provisionSsoLogin(connection: ResolvedSsoConnection, identity: SsoIdentity): Promise<SsoLoginResult> {
+  const role = resolveProvisionedRole(identity.groups, connection.roleMappings, connection.defaultRole);
+  if (!role) {
+    throw new SsoError('Your account is not assigned to this application. Please contact your administrator.', 403);
+  }
+
+  // The IdP may only speak for its own domains — otherwise a tenant's IdP
+  // could claim addresses that belong to someone else
+  if (connection.emailDomains.length > 0 && !connection.emailDomains.includes(emailDomain(identity.email))) {
+    throw new SsoError('Your email domain is not allowed for this organisation', 403);
+  }
+
+  if (role === 'EXECUTIVE') return provisionExecutive(connection, identity);
+
+  const existing =
+    (await prisma.user.findFirst({ where: { organizationId: connection.organizationId, ssoSubject: identity.subject } }))
+    ?? (await prisma.user.findUnique({ where: { email: identity.email } }));
+
+  if (existing) {
+    if (existing.organizationId !== connection.organizationId || existing.role === 'PLATFORM_ADMIN') {
+      throw new SsoError('This account belongs to another organisation', 403);
+    }
+    if (!existing.isActive) {
+      throw new SsoError('Account is inactive. Please contact your administrator.', 403);
+    }
+
+    const user = await prisma.user.update({
+      where: { id: existing.id },
+      data: {
+        ssoSubject: identity.subject,
+        lastLoginAt: new Date(),
+        failedLoginCount: 0,
+        lockedUntil: null,
+        ...(connection.roleMappings.length > 0 && { role }),
+      },
+    });
+    return { kind: 'user', created: false, user: { ...user, organizationId: connection.organizationId } };
+  }
+
+  assertCanProvision(connection, 'No account exists for this email. Please contact your administrator.');
+  const password = await unusablePasswordHash();
+  const user = await withFreeSeat(
+    connection.organizationId,
+    () => new SsoError('Your organisation has no free seats. Please contact your administrator.', 403),
+    (tx) => tx.user.create({
+      data: {
+        id: nanoid(),
+        email: identity.email,
+        name: identity.name,
+        password,
+        role,
+        organizationId: connection.organizationId,
+        ssoSubject: identity.subject,
+        isActive: true,
+        lastLoginAt: new Date(),
+      },
+    }),
+  );
+  return { kind: 'user', created: true, user: { ...user, organizationId: connection.organizationId } };
+}
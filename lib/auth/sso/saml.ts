@@ -0,0 +1,140 @@
+/**
+ * SAML 2.0 service provider (SP-initiated, HTTP-Redirect request / HTTP-POST response).
+ *
+ * Each organisation is its own SP: the entity ID is the organisation's
+ * metadata URL, so an assertion issued for one tenant can never satisfy
+ * another's audience check. Assertions must be signed by the configured IdP
+ * certificate and answer the AuthnRequest this browser started — the request
+ * ID rides in the sealed RelayState and is checked as InResponseTo, which
+ * also rules out IdP-initiated (unsolicited) responses.
+ */
+
+import crypto from 'crypto';
+import {
+  SAML,
+  ValidateInResponseTo,
+  generateServiceProviderMetadata,
+  type CacheProvider,
+  type Profile,
+} from '@node-saml/node-saml';
+import { ssoBaseUrl, type ResolvedSsoConnection } from './config';
+import { SsoError, type SsoIdentity } from './types';
+
+type SamlConnection = Pick<ResolvedSsoConnection, 'organizationId' | 'saml'>;
+
+const CLOCK_SKEW_MS = 60 * 1000;
+const MAX_ASSERTION_AGE_MS = 10 * 60 * 1000;
+
+export function samlAcsUrl(): string {
+  return `${ssoBaseUrl()}/api/auth/sso/saml/acs`;
+}
+
+/** SP entity ID (and metadata URL) for an organisation */
+export function samlEntityId(organizationId: string): string {
+  return `${ssoBaseUrl()}/api/auth/sso/saml/metadata?organizationId=${encodeURIComponent(organizationId)}`;
+}
+
+/** XML IDs must not start with a digit */
+export function newSamlRequestId(): string {
+  return `_${crypto.randomBytes(20).toString('hex')}`;
+}
+
+/**
+ * Remembers only the one request ID this flow issued. node-saml reads the
+ * cached value as the request's issue time; the sealed state already expires
+ * after SSO_STATE_TTL_SECONDS, so the request is reported as issued now.
+ */
+function singleRequestCache(requestId: string | undefined): CacheProvider {
+  return {
+    saveAsync: async (_key, value) => ({ value, createdAt: Date.now() }),
+    getAsync: async (key) => (requestId && key === requestId ? new Date().toISOString() : null),
+    removeAsync: async (key) => key,
+  };
+}
+
+function createSaml(connection: SamlConnection, requestId?: string): SAML {
+  const settings = connection.saml;
+  if (!settings) throw new SsoError('SSO connection is not configured for SAML', 500);
+  const entityId = samlEntityId(connection.organizationId);
+
+  return new SAML({
+    callbackUrl: samlAcsUrl(),
+    entryPoint: settings.entryPoint,
+    issuer: entityId,
+    audience: entityId,
+    idpIssuer: settings.idpIssuer,
+    idpCert: settings.idpCert,
+    wantAssertionsSigned: true,
+    // Many IdPs sign only the assertion; the assertion signature is what we rely on
+    wantAuthnResponseSigned: false,
+    validateInResponseTo: ValidateInResponseTo.always,
+    cacheProvider: singleRequestCache(requestId),
+    generateUniqueId: () => requestId ?? newSamlRequestId(),
+    acceptedClockSkewMs: CLOCK_SKEW_MS,
+    maxAssertionAgeMs: MAX_ASSERTION_AGE_MS,
+    // Leave the authentication method (MFA, passkeys, ...) to the IdP
+    disableRequestedAuthnContext: true,
+  });
+}
+
+export async function buildSamlAuthorizeUrl(
+  connection: SamlConnection,
+  params: { requestId: string; relayState: string },
+): Promise<string> {
+  return createSaml(connection, params.requestId).getAuthorizeUrlAsync(params.relayState, undefined, {});
+}
+
+function attribute(profile: Profile, name: string | undefined): string[] {
+  if (!name) return [];
+  const attributes = (profile.attributes ?? {}) as Record<string, unknown>;
+  const value = attributes[name] ?? profile[name];
+  const values = Array.isArray(value) ? value : value == null ? [] : [value];
+  return values.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map((v) => v.trim());
+}
+
+/** Validate a POSTed SAMLResponse and read the user's identity */
+export async function completeSamlLogin(
+  connection: SamlConnection,
+  params: { samlResponse: string; requestId: string },
+): Promise<SsoIdentity> {
+  const settings = connection.saml;
+  let profile: Profile | null;
+  try {
+    ({ profile } = await createSaml(connection, params.requestId).validatePostResponseAsync({
+      SAMLResponse: params.samlResponse,
+    }));
+  } catch (error) {
+    console.error('[SSO] SAML response rejected:', error);
+    throw new SsoError('The identity provider returned an invalid SAML response', 401);
+  }
+  if (!profile?.nameID) throw new SsoError('The SAML assertion has no subject', 401);
+
+  const email = (
+    attribute(profile, settings?.emailAttribute)[0]
+    ?? profile.email
+    ?? profile.mail
+    ?? (profile.nameID.includes('@') ? profile.nameID : undefined)
+  )?.trim().toLowerCase();
+  if (!email) throw new SsoError('The identity provider did not share an email address', 403);
+
+  const name = attribute(profile, settings?.nameAttribute ?? 'displayName')[0] ?? email;
+
+  return {
+    subject: profile.nameID,
+    email,
+    name,
+    groups: attribute(profile, settings?.groupsAttribute ?? 'groups'),
+  };
+}
+
+/**
+ * SP metadata XML to hand to the client's identity team. Needs no IdP
+ * settings, so it can be shared before the connection is configured.
+ */
+export function samlServiceProviderMetadata(organizationId: string): string {
+  return generateServiceProviderMetadata({
+    issuer: samlEntityId(organizationId),
+    callbackUrl: samlAcsUrl(),
+    wantAssertionsSigned: true,
+  });
+}
@@ -0,0 +1,83 @@
+/**
+ * SSO flow state.
+ *
+ * Everything the callback needs to finish a login — which connection, the
+ * OIDC nonce and PKCE verifier, the SAML request ID — travels through the IdP
+ * as an encrypted JWT (OIDC `state`, SAML `RelayState`), so no server-side
+ * store is needed. It is bound to the browser that started the flow by a
+ * random value also held in the short-lived `sso-binding` cookie, which stops
+ * an attacker from completing their own login in a victim's browser.
+ */
+
+import crypto from 'crypto';
+import * as jose from 'jose';
+
+export const SSO_BINDING_COOKIE = 'sso-binding';
+
+/** How long a user has to finish signing in at the IdP */
+export const SSO_STATE_TTL_SECONDS = 10 * 60;
+
+export interface SsoFlowState {
+  connectionId: string;
+  organizationId: string;
+  /** Random value matched against the sso-binding cookie */
+  binding: string;
+  /** OIDC only */
+  nonce?: string;
+  codeVerifier?: string;
+  /** SAML only: AuthnRequest ID the response must answer */
+  requestId?: string;
+  /** Where to send the user after login (same-origin path) */
+  returnTo?: string;
+}
+
+// Derived so the JWE key differs from the HS256 session signing key
+const getStateKey = (): Uint8Array => {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret || secret.length < 32) throw new Error('SESSION_SECRET not set or too short');
+  return new Uint8Array(crypto.createHash('sha256').update(`sso-state:${secret}`).digest());
+};
+
+export function randomToken(bytes = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+export async function sealSsoState(state: SsoFlowState): Promise<string> {
+  return new jose.EncryptJWT({ ...state })
+    .setProtectedHeader({ alg: 'dir', enc: 'A256GCM' })
+    .setIssuedAt()
+    .setIssuer('dream-discovery')
+    .setAudience('sso-state')
+    .setExpirationTime(`${SSO_STATE_TTL_SECONDS}s`)
+    .encrypt(getStateKey());
+}
+
+/** Decrypt a state value; null when tampered with, expired or not ours */
+export async function openSsoState(token: string): Promise<SsoFlowState | null> {
+  try {
+    const { payload } = await jose.jwtDecrypt(token, getStateKey(), {
+      issuer: 'dream-discovery',
+      audience: 'sso-state',
+    });
+    if (typeof payload.connectionId !== 'string' || typeof payload.organizationId !== 'string' || typeof payload.binding !== 'string') {
+      return null;
+    }
+    return payload as unknown as SsoFlowState;
+  } catch {
+    return null;
+  }
+}
+
+/** Constant-time comparison of the state's binding with the cookie value */
+export function bindingMatches(state: SsoFlowState, cookieValue: string | undefined): boolean {
+  if (!cookieValue) return false;
+  const a = Buffer.from(state.binding);
+  const b = Buffer.from(cookieValue);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/** Only same-origin absolute paths survive as a post-login destination */
+export function safeReturnTo(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  return /^\/(?![/\\])/.test(value) ? value : undefined;
+}
@@ -0,0 +1,21 @@
+/**
+ * Shared SSO types.
+ */
+
+/** Who the IdP says signed in, normalised across OIDC and SAML */
+export interface SsoIdentity {
+  /** OIDC sub / SAML NameID */
+  subject: string;
+  /** Lower-cased */
+  email: string;
+  name: string;
+  groups: string[];
+}
+
+/** A sign-in the platform refuses; `status` is the HTTP status to report */
+export class SsoError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = 'SsoError';
+  }
+}
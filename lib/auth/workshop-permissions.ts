@@ -0,0 +1,136 @@
+/**
+ * Per-workshop permissions
+ *
+ * UserRole decides how far a user reaches across the organisation; permission
+ * sets decide what they may do inside a single workshop. A WorkshopShare
+ * grants one or more sets, and a user's permissions on the workshop are the
+ * union of the sets' permissions.
+ *
+ *   PLATFORM_ADMIN / TENANT_ADMIN (own org) → every permission
+ *   TENANT_USER who created the workshop   → every permission (owner)
+ *   TENANT_USER with a share               → union of the share's sets
+ *   anyone on an example workshop          → workshop:view
+ *
+ * requiredWorkshopPermission() maps each /api/admin/workshops/[id]/* route to
+ * the permission it needs; middleware.ts enforces it on every request.
+ */
+
+// ── Permissions ──────────────────────────────────────────────────────
+
+export const WORKSHOP_PERMISSIONS = [
+  'workshop:view',
+  'workshop:edit',
+  'workshop:facilitate',
+  'analysis:run',
+  'commercial:view',
+  'report:approve',
+  'workshop:manage',
+] as const;
+
+export type WorkshopPermission = (typeof WORKSHOP_PERMISSIONS)[number];
+
+export const WORKSHOP_PERMISSION_LABELS: Record<WorkshopPermission, string> = {
+  'workshop:view': 'View workshop, outputs and exports',
+  'workshop:edit': 'Edit setup, participants, evidence and scratchpad',
+  'workshop:facilitate': 'Run live sessions and field capture',
+  'analysis:run': 'Run synthesis and AI analysis',
+  'commercial:view': 'View and edit the commercial section',
+  'report:approve': 'Approve and publish the report',
+  'workshop:manage': 'Share, fork and delete the workshop',
+};
+
+// ── Permission sets ──────────────────────────────────────────────────
+
+export const PERMISSION_SET_IDS = [
+  'viewer',
+  'facilitator',
+  'analyst',
+  'commercial-viewer',
+  'report-approver',
+] as const;
+
+export type PermissionSetId = (typeof PERMISSION_SET_IDS)[number];
+
+export const PERMISSION_SETS: Record<PermissionSetId, { label: string; permissions: readonly WorkshopPermission[] }> = {
+  viewer: {
+    label: 'Viewer',
+    permissions: ['workshop:view'],
+  },
+  facilitator: {
+    label: 'Facilitator',
+    permissions: ['workshop:view', 'workshop:edit', 'workshop:facilitate', 'analysis:run'],
+  },
+  analyst: {
+    label: 'Analyst',
+    permissions: ['workshop:view', 'analysis:run'],
+  },
+  'commercial-viewer': {
+    label: 'Commercial viewer',
+    permissions: ['workshop:view', 'commercial:view'],
+  },
+  'report-approver': {
+    label: 'Report approver',
+    permissions: ['workshop:view', 'report:approve'],
+  },
+};
+
+export function isPermissionSetId(value: string): value is PermissionSetId {
+  return (PERMISSION_SET_IDS as readonly string[]).includes(value);
+}
+
+/** Union of the permissions in the given sets; unknown set ids are ignored */
+export function permissionsForSets(sets: readonly string[]): WorkshopPermission[] {
+  const granted = new Set<WorkshopPermission>();
+  for (const id of sets) {
+    if (!isPermissionSetId(id)) continue;
+    for (const permission of PERMISSION_SETS[id].permissions) granted.add(permission);
+  }
+  return WORKSHOP_PERMISSIONS.filter((p) => granted.has(p));
+}
+
+// ── Route map ────────────────────────────────────────────────────────
+
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'] as const;
+
+/**
+ * Routes whose permission differs from the default (reads need
+ * workshop:view, writes need workshop:edit). Matched against the path after
+ * /api/admin/workshops/[id]; first match wins. Rules with `methods` only
+ * apply to those methods.
+ */
+const ROUTE_RULES: Array<{ pattern: RegExp; permission: WorkshopPermission; methods?: readonly string[] }> = [
+  // Commercial section — replaces the shared scratchpad password
+  { pattern: /^\/scratchpad\/(verify-commercial|set-commercial-password)$/, permission: 'commercial:view' },
+  { pattern: /^\/scratchpad\/publish$/, permission: 'report:approve', methods: WRITE_METHODS },
+  // Original personal data — admins only, further checked by the route
+  { pattern: /^\/pii-vault$/, permission: 'workshop:manage' },
+  { pattern: /^\/(shares|fork)$/, permission: 'workshop:manage', methods: WRITE_METHODS },
+  { pattern: /^$/, permission: 'workshop:manage', methods: ['DELETE'] },
+  // Exports are reads even when POSTed
+  { pattern: /^\/(export-html|export-pdf|export-pptx|export-docx|export-journey|preview-report|example-report-pdf)$/, permission: 'workshop:view' },
+  { pattern: /^\/(live|capture-sessions|sessions|reset-sessions)(\/|$)/, permission: 'workshop:facilitate', methods: WRITE_METHODS },
+  {
+    pattern: /^\/(synthesize|generate-analysis|generate-reimagine-image|diagnostic-synthesis|discover-analysis|discovery-intelligence|discovery-search|hemisphere|output-intelligence|behavioural-interventions|participant-reports|prepare-scratchpad|report-conclusion|report-suggestions|report-summary|spider|summary|keywords|evidence\/synthesise|evidence\/cross-validate|evidence\/[^/]+\/cross-validate|findings\/sync-stream-a|scratchpad\/inquiry)(\/|$)/,
+    permission: 'analysis:run',
+    methods: WRITE_METHODS,
+  },
+];
+
+/** Permission a request to /api/admin/workshops/[id]{subpath} needs */
+export function requiredWorkshopPermission(subpath: string, method: string): WorkshopPermission {
+  const path = subpath.replace(/\/+$/, '');
+  const verb = method.toUpperCase();
+  for (const rule of ROUTE_RULES) {
+    if (rule.methods && !rule.methods.includes(verb)) continue;
+    if (rule.pattern.test(path)) return rule.permission;
+  }
+  return READ_METHODS.has(verb) ? 'workshop:view' : 'workshop:edit';
+}
+
+/** Split /api/admin/workshops/[id]/... into the workshop id and the rest, or null */
+export function parseWorkshopApiPath(pathname: string): { workshopId: string; subpath: string } | null {
+  const match = /^\/api\/admin\/workshops\/([^/]+)(\/.*)?$/.exec(pathname);
+  if (!match) return null;
+  return { workshopId: decodeURIComponent(match[1]), subpath: match[2] ?? '' };
+}
@@ -6,9 +6,11 @@
  * Depth is calibrated for a senior executive deliverable — not a template exercise.
  */
 
-import OpenAI from 'openai';
+import { getLLMClient } from '@/lib/llm';
 import type { BehaviouralInterventionsOutput, LensInterventions } from './types';
 
+const llm = getLLMClient('behavioural-interventions');
+
 const SYSTEM_PROMPT = `You are a Senior Organisational Development Consultant producing a board-level behavioural change analysis for a major transformation programme. This is a £20,000+ deliverable. Generic output is not acceptable.
 
 COM-B FRAMEWORK:
@@ -293,10 +295,7 @@ export async function generateBehaviouralInterventions(
     conclusionImpact?: string;
   }
 ): Promise<BehaviouralInterventionsOutput> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) throw new Error('OPENAI_API_KEY is not configured');
-
-  const openai = new OpenAI({ apiKey });
+  if (!llm.isConfigured()) throw new Error('LLM provider is not configured');
 
   const userPrompt = buildUserPrompt(workshopName, lenses, outputIntelligence, evidenceValidation);
 
@@ -305,22 +304,20 @@ export async function generateBehaviouralInterventions(
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 120_000);
     try {
-      const completion = await openai.chat.completions.create(
-        {
-          model: 'gpt-4o',
-          temperature: 0.2,
-          response_format: { type: 'json_object' },
-          max_tokens: 10000,
-          messages: [
-            { role: 'system', content: SYSTEM_PROMPT },
-            { role: 'user', content: userPrompt },
-          ],
-        },
-        { signal: controller.signal }
-      );
+      const completion = await llm.chat({
+        tier: 'standard',
+        temperature: 0.2,
+        responseFormat: 'json',
+        maxTokens: 10000,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: userPrompt },
+        ],
+        signal: controller.signal,
+      });
 
       clearTimeout(timeoutId);
-      const raw = completion.choices[0]?.message?.content ?? '{}';
+      const raw = completion.content || '{}';
       const parsed = JSON.parse(raw) as { behavioural_interventions?: LensInterventions[] };
 
       const interventions: LensInterventions[] = Array.isArray(parsed.behavioural_interventions)
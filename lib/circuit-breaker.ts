@@ -111,3 +111,10 @@ export const openAiBreaker = new CircuitBreaker('openai', {
   windowMs: 60_000,
   resetTimeoutMs: 60_000,
 });
+
+/** Wraps all Anthropic completion calls. Same thresholds as OpenAI. */
+export const anthropicBreaker = new CircuitBreaker('anthropic', {
+  failureThreshold: 5,
+  windowMs: 60_000,
+  resetTimeoutMs: 60_000,
+});
@@ -9,9 +9,7 @@
  * - New constraint/risk beliefs have been added since last run
  */
 
-import OpenAI from 'openai';
-import { env } from '@/lib/env';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+import { getLLMClient, type LLMMessage, type LLMModelTier, type LLMTool, type LLMToolChoice } from '@/lib/llm';
 import type { CognitiveState } from '../cognitive-state';
 import type { GuidanceState, ConstraintFlag } from '../guidance-state';
 import type { AgentConversationCallback, AgentReview, WorkshopPrepResearch } from './agent-types';
@@ -21,7 +19,8 @@ import { getDimensionNames } from '../workshop-dimensions';
 
 const MAX_ITERATIONS = 3;
 const LOOP_TIMEOUT_MS = 8_000;
-const MODEL = 'gpt-4o-mini';
+const MODEL_TIER: LLMModelTier = 'fast';
+const llm = getLLMClient('constraint');
 
 // ══════════════════════════════════════════════════════════════
 // TOOL DEFINITIONS
@@ -29,7 +28,7 @@ const MODEL = 'gpt-4o-mini';
 
 const DEFAULT_CONSTRAINT_DOMAINS = ['People', 'Organisation', 'Customer', 'Technology', 'Regulation'];
 
-function buildConstraintTools(dimensions?: string[]): OpenAI.Chat.Completions.ChatCompletionTool[] {
+function buildConstraintTools(dimensions?: string[]): LLMTool[] {
   const domainEnum = dimensions?.length ? dimensions : DEFAULT_CONSTRAINT_DOMAINS;
 
   return [
@@ -147,10 +146,9 @@ export async function runConstraintAgent(
   guidanceState: GuidanceState,
   onConversation?: AgentConversationCallback,
 ): Promise<ConstraintProposal[]> {
-  if (!env.OPENAI_API_KEY) return [];
+  if (!llm.isConfigured()) return [];
   if (guidanceState.dialoguePhase !== 'CONSTRAINTS') return [];
 
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
   const startMs = Date.now();
 
   const prep = guidanceState.prepContext;
@@ -176,7 +174,7 @@ Severity guide:
 
 Call map_constraints when ready. Cite sourceBeliefIds for every constraint.`;
 
-  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: systemPrompt },
     { role: 'user', content: 'Review the constraint and risk beliefs and map them.' },
   ];
@@ -186,19 +184,19 @@ Call map_constraints when ready. Cite sourceBeliefIds for every constraint.`;
       if (Date.now() - startMs > LOOP_TIMEOUT_MS) break;
 
       const isLastIteration = iteration === MAX_ITERATIONS - 1;
-      const toolChoice: OpenAI.Chat.Completions.ChatCompletionToolChoiceOption = isLastIteration
+      const toolChoice: LLMToolChoice = isLastIteration
         ? { type: 'function', function: { name: 'map_constraints' } }
         : 'auto';
 
-      const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: MODEL,
+      const completion = await llm.chat({
+        tier: MODEL_TIER,
         temperature: 0.3,
         messages,
         tools,
-        tool_choice: toolChoice,
-      }));
+        toolChoice,
+      });
 
-      const assistantMessage = completion.choices[0].message;
+      const assistantMessage = completion.message;
       messages.push(assistantMessage);
 
       if (assistantMessage.content?.trim()) {
@@ -275,7 +273,7 @@ Call map_constraints when ready. Cite sourceBeliefIds for every constraint.`;
 // Same tools, same reasoning, same agentic loop.
 // ══════════════════════════════════════════════════════════════
 
-const CONSTRAINT_SUBMIT_REVIEW_TOOL: OpenAI.Chat.Completions.ChatCompletionTool = {
+const CONSTRAINT_SUBMIT_REVIEW_TOOL: LLMTool = {
   type: 'function',
   function: {
     name: 'submit_review',
@@ -302,7 +300,7 @@ const CONSTRAINT_SUBMIT_REVIEW_TOOL: OpenAI.Chat.Completions.ChatCompletionTool
   },
 };
 
-function buildConstraintReviewTools(dimensions?: string[]): OpenAI.Chat.Completions.ChatCompletionTool[] {
+function buildConstraintReviewTools(dimensions?: string[]): LLMTool[] {
   const baseTools = buildConstraintTools(dimensions);
   return [baseTools[0], CONSTRAINT_SUBMIT_REVIEW_TOOL]; // query_constraint_beliefs, submit_review
 }
@@ -314,11 +312,10 @@ export async function reviewWithConstraintAgent(
   guidanceState: GuidanceState,
   onConversation?: AgentConversationCallback,
 ): Promise<AgentReview> {
-  if (!env.OPENAI_API_KEY) {
+  if (!llm.isConfigured()) {
     return { agent: 'Constraint Agent', stance: 'agree', feedback: 'Constraint Agent unavailable.' };
   }
 
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
   const prep = guidanceState.prepContext;
   const startMs = Date.now();
 
@@ -348,7 +345,7 @@ ${phaseInstruction}
 ${journeyCtx ? `JOURNEY CONTEXT:\n${journeyCtx}\nWhen reviewing proposals, check if specific journey stages have regulatory, technical, or organisational constraints that haven't been captured. If you spot a constraint at a journey stage, flag it as a "build" with the specific stage and constraint type.\n` : ''}
 REVIEW MODE: Use query_constraint_beliefs to check what constraints exist in the conversation, then assess whether the proposals are appropriate for this phase. Submit your review with submit_review.`;
 
-  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: systemPrompt },
     { role: 'user', content: `Review these proposals from the Facilitation Agent:\n\n${proposals}\n\nAre these appropriate for the ${phase} phase? Use your tools to check against known constraints.` },
   ];
@@ -358,19 +355,19 @@ REVIEW MODE: Use query_constraint_beliefs to check what constraints exist in the
       if (Date.now() - startMs > LOOP_TIMEOUT_MS) break;
 
       const isLastIteration = iteration === MAX_ITERATIONS - 1;
-      const toolChoice: OpenAI.Chat.Completions.ChatCompletionToolChoiceOption = isLastIteration
+      const toolChoice: LLMToolChoice = isLastIteration
         ? { type: 'function', function: { name: 'submit_review' } }
         : 'auto';
 
-      const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: MODEL,
+      const completion = await llm.chat({
+        tier: MODEL_TIER,
         temperature: 0.3,
         messages,
         tools: reviewTools,
-        tool_choice: toolChoice,
-      }));
+        toolChoice,
+      });
 
-      const assistantMessage = completion.choices[0].message;
+      const assistantMessage = completion.message;
       messages.push(assistantMessage);
 
       if (assistantMessage.content?.trim()) {
@@ -9,9 +9,8 @@
  * Same loop pattern as discovery-intelligence-agent.ts.
  */
 
-import OpenAI from 'openai';
+import { getLLMClient, type LLMMessage, type LLMModelTier, type LLMTool, type LLMToolChoice } from '@/lib/llm';
 import { nanoid } from 'nanoid';
-import { openAiBreaker } from '@/lib/circuit-breaker';
 import type {
   TensionEntry,
   TensionSurfaceData,
@@ -21,7 +20,8 @@ import type {
 
 const MAX_ITERATIONS = 5;
 const LOOP_TIMEOUT_MS = 40_000;
-const MODEL = 'gpt-4o';
+const MODEL_TIER: LLMModelTier = 'standard';
+const llm = getLLMClient('discover-analysis');
 
 // ── Types ────────────────────────────────────────────────────
 
@@ -51,7 +51,7 @@ type ProgressCallback = (message: string) => void;
 
 // ── Tools ────────────────────────────────────────────────────
 
-const tools: OpenAI.Chat.Completions.ChatCompletionTool[] = [
+const tools: LLMTool[] = [
   {
     type: 'function',
     function: {
@@ -163,11 +163,10 @@ export async function runDiscoverAnalysisAgent(
   input: AnalysisAgentInput,
   onProgress?: ProgressCallback,
 ): Promise<AnalysisAgentOutput> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OpenAI API key not configured');
+  if (!llm.isConfigured()) {
+    throw new Error('LLM provider not configured');
   }
 
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
   const startMs = Date.now();
 
   // State accumulated across tool calls
@@ -179,7 +178,7 @@ export async function runDiscoverAnalysisAgent(
   const systemPrompt = buildSystemPrompt(input);
   const userMessage = buildUserMessage(input);
 
-  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: systemPrompt },
     { role: 'user', content: userMessage },
   ];
@@ -192,18 +191,18 @@ export async function runDiscoverAnalysisAgent(
       }
 
       const isLastIteration = iteration === MAX_ITERATIONS - 1;
-      const toolChoice: OpenAI.Chat.Completions.ChatCompletionToolChoiceOption =
+      const toolChoice: LLMToolChoice =
         isLastIteration ? { type: 'function', function: { name: 'commit_analysis' } } : 'auto';
 
-      const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: MODEL,
+      const completion = await llm.chat({
+        tier: MODEL_TIER,
         temperature: 0.3,
         messages,
         tools,
-        tool_choice: toolChoice,
-      }));
+        toolChoice,
+      });
 
-      const assistantMessage = completion.choices[0].message;
+      const assistantMessage = completion.message;
       messages.push(assistantMessage);
 
       if (!assistantMessage.tool_calls?.length) break;
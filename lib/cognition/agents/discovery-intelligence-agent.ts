@@ -10,9 +10,7 @@
  * Runs after participants complete their interviews, before the workshop.
  */
 
-import OpenAI from 'openai';
-import { env } from '@/lib/env';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+import { getLLMClient, type LLMMessage, type LLMModelTier, type LLMTool, type LLMToolChoice } from '@/lib/llm';
 import { prisma } from '@/lib/prisma';
 import type {
   WorkshopIntelligence,
@@ -29,7 +27,8 @@ import { getDimensionNames } from '../workshop-dimensions';
 
 const MAX_ITERATIONS = 5;
 const LOOP_TIMEOUT_MS = 40_000; // 40s — synthesis is thorough
-const MODEL = 'gpt-4o-mini';
+const MODEL_TIER: LLMModelTier = 'fast';
+const llm = getLLMClient('discovery-intelligence');
 
 // ══════════════════════════════════════════════════════════════
 // TOOL DEFINITIONS
@@ -37,7 +36,7 @@ const MODEL = 'gpt-4o-mini';
 
 const DEFAULT_DISCOVERY_LENSES = ['People', 'Organisation', 'Customer', 'Technology', 'Regulation'];
 
-function buildDiscoveryTools(dimensions?: string[]): OpenAI.Chat.Completions.ChatCompletionTool[] {
+function buildDiscoveryTools(dimensions?: string[]): LLMTool[] {
   const lensEnum = dimensions?.length ? dimensions : DEFAULT_DISCOVERY_LENSES;
 
   return [
@@ -355,8 +354,8 @@ export async function runDiscoveryIntelligenceAgent(
   research: WorkshopPrepResearch | null,
   onConversation?: AgentConversationCallback,
 ): Promise<WorkshopIntelligence> {
-  if (!env.OPENAI_API_KEY) {
-    throw new Error('OpenAI API key not configured');
+  if (!llm.isConfigured()) {
+    throw new Error('LLM provider not configured');
   }
 
   // ── Early exit: no Discovery interviews → nothing to synthesize ──
@@ -379,7 +378,6 @@ export async function runDiscoveryIntelligenceAgent(
     };
   }
 
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
   const systemPrompt = buildDiscoverySystemPrompt(context);
   const startMs = Date.now();
 
@@ -389,7 +387,7 @@ export async function runDiscoveryIntelligenceAgent(
     : getDimensionNames(research);
   const tools = buildDiscoveryTools(dims);
 
-  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: systemPrompt },
     { role: 'user', content: 'Please synthesize the Discovery interview data into a workshop briefing.' },
   ];
@@ -399,19 +397,19 @@ export async function runDiscoveryIntelligenceAgent(
       if (Date.now() - startMs > LOOP_TIMEOUT_MS) break;
 
       const isLastIteration = iteration === MAX_ITERATIONS - 1;
-      const toolChoice: OpenAI.Chat.Completions.ChatCompletionToolChoiceOption = isLastIteration
+      const toolChoice: LLMToolChoice = isLastIteration
         ? { type: 'function', function: { name: 'commit_briefing' } }
         : 'auto';
 
-      const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: MODEL,
+      const completion = await llm.chat({
+        tier: MODEL_TIER,
         temperature: 0.3,
         messages,
         tools,
-        tool_choice: toolChoice,
-      }));
+        toolChoice,
+      });
 
-      const assistantMessage = completion.choices[0].message;
+      const assistantMessage = completion.message;
       messages.push(assistantMessage);
 
       if (assistantMessage.content?.trim()) {
@@ -569,7 +567,7 @@ function fallbackIntelligence(): WorkshopIntelligence {
 const LIVE_REVIEW_TIMEOUT_MS = 8_000;
 const LIVE_REVIEW_ITERATIONS = 3;
 
-const DISCOVERY_REVIEW_TOOLS: OpenAI.Chat.Completions.ChatCompletionTool[] = [
+const DISCOVERY_REVIEW_TOOLS: LLMTool[] = [
   {
     type: 'function',
     function: {
@@ -720,11 +718,10 @@ export async function reviewWithDiscoveryAgent(
   guidanceState: GuidanceState,
   onConversation?: AgentConversationCallback,
 ): Promise<AgentReview> {
-  if (!env.OPENAI_API_KEY) {
+  if (!llm.isConfigured()) {
     return { agent: 'Discovery Agent', stance: 'agree', feedback: 'Discovery Agent unavailable.' };
   }
 
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
   const prep = guidanceState.prepContext;
   const startMs = Date.now();
 
@@ -742,7 +739,7 @@ REVIEW MODE: Use get_discovery_briefing to recall what participants said. Use ch
 
 Submit your review with submit_review when you've assessed the proposals.`;
 
-  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: systemPrompt },
     { role: 'user', content: `Review these proposals from the Facilitation Agent:\n\n${proposals}\n\nDo these build on what participants told us, or are we retreading? Use your tools to check.` },
   ];
@@ -752,19 +749,19 @@ Submit your review with submit_review when you've assessed the proposals.`;
       if (Date.now() - startMs > LIVE_REVIEW_TIMEOUT_MS) break;
 
       const isLastIteration = iteration === LIVE_REVIEW_ITERATIONS - 1;
-      const toolChoice: OpenAI.Chat.Completions.ChatCompletionToolChoiceOption = isLastIteration
+      const toolChoice: LLMToolChoice = isLastIteration
         ? { type: 'function', function: { name: 'submit_review' } }
         : 'auto';
 
-      const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: MODEL,
+      const completion = await llm.chat({
+        tier: MODEL_TIER,
         temperature: 0.3,
         messages,
         tools: DISCOVERY_REVIEW_TOOLS,
-        tool_choice: toolChoice,
-      }));
+        toolChoice,
+      });
 
-      const assistantMessage = completion.choices[0].message;
+      const assistantMessage = completion.message;
       messages.push(assistantMessage);
 
       if (assistantMessage.content?.trim()) {
@@ -17,10 +17,8 @@
  * not generic templates.
  */
 
-import OpenAI from 'openai';
+import { getLLMClient, type LLMMessage, type LLMModelTier, type LLMTool, type LLMToolChoice } from '@/lib/llm';
 import { nanoid } from 'nanoid';
-import { env } from '@/lib/env';
-import { openAiBreaker } from '@/lib/circuit-breaker';
 import { prisma } from '@/lib/prisma';
 import type {
   WorkshopPrepResearch,
@@ -31,6 +29,7 @@ import type {
 import type { DomainPack } from '@/lib/domain-packs/registry';
 import { getDomainPack } from '@/lib/domain-packs/registry';
 import { resolveIndustryPack } from '@/lib/domain-packs/resolution';
+import { loadWorkshopDomainPacks } from '@/lib/domain-packs/tenant-packs';
 import type { WorkshopBlueprint } from '@/lib/workshop/blueprint';
 import { readBlueprintFromJson } from '@/lib/workshop/blueprint';
 import { getEngagementType } from '@/lib/domain-packs/engagement-types';
@@ -68,7 +67,8 @@ export type DiscoveryQuestionAgentOptions = {
 
 const MAX_ITERATIONS = 12;
 const LOOP_TIMEOUT_MS = 60_000;
-const MODEL = 'gpt-4o-mini';
+const MODEL_TIER: LLMModelTier = 'fast';
+const llm = getLLMClient('discovery-question');
 
 const VALID_TAGS = [
   'triple_rating',
@@ -87,7 +87,7 @@ const VALID_TAGS = [
 // TOOL DEFINITIONS
 // ══════════════════════════════════════════════════════════════
 
-const DISCOVERY_QUESTION_TOOLS: OpenAI.Chat.Completions.ChatCompletionTool[] = [
+const DISCOVERY_QUESTION_TOOLS: LLMTool[] = [
   {
     type: 'function',
     function: {
@@ -530,8 +530,8 @@ export async function runDiscoveryQuestionAgent(
   onConversationEntry?: (entry: { role: string; content: string }) => void,
   options?: DiscoveryQuestionAgentOptions,
 ): Promise<DiscoveryQuestionSet> {
-  if (!env.OPENAI_API_KEY) {
-    throw new Error('OpenAI API key not configured -- cannot run Discovery Question Agent');
+  if (!llm.isConfigured()) {
+    throw new Error('LLM provider not configured -- cannot run Discovery Question Agent');
   }
 
   // ── Load workshop data ──────────────────────────────────────
@@ -547,6 +547,8 @@ export async function runDiscoveryQuestionAgent(
       prepResearch: true,
       domainPack: true,
       domainPackConfig: true,
+      organizationId: true,
+      domainPackVersionId: true,
       engagementType: true,
       businessContext: true,
       description: true,
@@ -578,15 +580,15 @@ export async function runDiscoveryQuestionAgent(
   };
 
   const research = workshop.prepResearch as WorkshopPrepResearch | null;
-  const domainPack = resolveIndustryPack(workshop.industry, workshop.engagementType, workshop.dreamTrack)
-    ?? (workshop.domainPack ? getDomainPack(workshop.domainPack) : null);
+  const tenantPacks = await loadWorkshopDomainPacks(workshop);
+  const domainPack = resolveIndustryPack(workshop.industry, workshop.engagementType, workshop.dreamTrack, tenantPacks)
+    ?? (workshop.domainPack ? getDomainPack(workshop.domainPack, tenantPacks) : null);
 
   // Wrap callback to match AgentConversationCallback style
   const emitConversation = (message: string, type: string = 'info') => {
     onConversationEntry?.({ role: type, content: message });
   };
 
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
   const systemPrompt = buildDiscoverySystemPrompt(context, {
     blueprint,
     direction: options?.direction,
@@ -611,7 +613,7 @@ export async function runDiscoveryQuestionAgent(
     ? 'blueprint' : 'domain_pack';
   const lensListStr = lensNames.join(', ');
 
-  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: systemPrompt },
     {
       role: 'user',
@@ -630,22 +632,22 @@ export async function runDiscoveryQuestionAgent(
       }
 
       const isLastIteration = iteration === MAX_ITERATIONS - 1;
-      const toolChoice: OpenAI.Chat.Completions.ChatCompletionToolChoiceOption = isLastIteration
+      const toolChoice: LLMToolChoice = isLastIteration
         ? { type: 'function', function: { name: 'commit_discovery_questions' } }
         : 'auto';
 
       console.log(`[Discovery Question Agent] Iteration ${iteration}${isLastIteration ? ' (forced commit)' : ''}`);
 
-      const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: MODEL,
+      const completion = await llm.chat({
+        tier: MODEL_TIER,
         temperature: 0.4,
         messages,
         tools: DISCOVERY_QUESTION_TOOLS,
-        tool_choice: toolChoice,
-        parallel_tool_calls: true,
-      }));
+        toolChoice,
+        parallelToolCalls: true,
+      });
 
-      const assistantMessage = completion.choices[0].message;
+      const assistantMessage = completion.message;
       messages.push(assistantMessage);
 
       // Emit thinking/commentary
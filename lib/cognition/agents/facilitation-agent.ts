@@ -15,21 +15,20 @@
  * actual beliefs AND pre-workshop Discovery intelligence.
  */
 
-import OpenAI from 'openai';
-import { env } from '@/lib/env';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+import { getLLMClient, type LLMMessage, type LLMModelTier, type LLMTool, type LLMToolChoice } from '@/lib/llm';
 import type { CognitiveState } from '../cognitive-state';
 import type { GuidanceState } from '../guidance-state';
 import type { AgentConversationCallback, WorkshopPrepResearch } from './agent-types';
 import type { StickyPad, StickyPadType, Lens } from '@/lib/cognitive-guidance/pipeline';
 import { getDimensionNames } from '../workshop-dimensions';
-import { analyzeMetricTrends } from '@/lib/historical-metrics/summarize';
+import { analyzeMetricTrends, describeMetricAnalysis } from '@/lib/historical-metrics/summarize';
 
 // ── Constants ───────────────────────────────────────────────
 
 const MAX_ITERATIONS = 3;
 const LOOP_TIMEOUT_MS = 8_000;
-const MODEL = 'gpt-4o-mini';
+const MODEL_TIER: LLMModelTier = 'fast';
+const llm = getLLMClient('facilitation');
 
 // ══════════════════════════════════════════════════════════════
 // TOOL DEFINITIONS
@@ -38,7 +37,7 @@ const MODEL = 'gpt-4o-mini';
 const DEFAULT_FACILITATION_DOMAINS = ['People', 'Organisation', 'Customer', 'Technology', 'Regulation'];
 const DEFAULT_FACILITATION_LENSES = ['People', 'Organisation', 'Technology', 'Regulation', 'Customer'];
 
-function buildFacilitationTools(dimensions?: string[]): OpenAI.Chat.Completions.ChatCompletionTool[] {
+function buildFacilitationTools(dimensions?: string[]): LLMTool[] {
   const domainEnum = dimensions?.length ? dimensions : DEFAULT_FACILITATION_DOMAINS;
   const lensEnum = dimensions?.length ? dimensions : DEFAULT_FACILITATION_LENSES;
 
@@ -136,7 +135,7 @@ function buildFacilitationTools(dimensions?: string[]): OpenAI.Chat.Completions.
                 reasoning: { type: 'string', description: 'Why this pad is relevant now.' },
                 journeyGapId: { type: 'string', description: 'ID of the journey gap this pad addresses (if filling a journey gap).' },
                 padLabel: { type: 'string', description: 'Display label. Use "Journey Mapping" for general journey pads or "Journey: {stage name}" for stage-specific journey pads. Leave empty for non-journey pads.' },
-                metricEvidence: { type: 'string', description: 'For METRIC_CHALLENGE pads: cite the specific metric data that contradicts the participant claim. E.g. "AHT: 245s, increasing +8%"' },
+                metricEvidence: { type: 'string', description: 'For METRIC_CHALLENGE pads: cite the specific metric data that contradicts the participant claim. Quote the evidence line with its period and annotation. E.g. "AHT jumped 18.2% in Mar 2025 (240s → 284s), annotated \'new CRM go-live\'"' },
               },
               required: ['type', 'prompt', 'sourceBeliefIds', 'reasoning'],
             },
@@ -299,6 +298,7 @@ function executeFacilitationTool(
             latestPeriod: t.latestPeriod,
             trend: t.trend,
             changePercent: t.changePercent,
+            evidence: describeMetricAnalysis(t),
           })),
         }),
         summary: `Historical metrics: ${trends.length} metrics from ${metrics.domainPack} pack`,
@@ -359,11 +359,13 @@ STYLE RULES, THIS IS CRITICAL:
 - If a signal shows a MISSING DIMENSION, ask about it naturally: "We've heard a lot about Operations, has anyone thought about how Regulation fits in?"
 - If a signal shows a REPEATED THEME, go deeper: "X keeps coming up, what's driving that?"
 - If a signal shows CATEGORY IMBALANCE (lots of constraints, few enablers), flip it: "We've identified several blockers in Y, who's working on solutions?"
-- If a signal shows a METRIC CONTRADICTION (participant claim vs historical data), probe gently: "You mentioned handle times are good -- the data shows AHT has been climbing, what's driving that?"
+- If a signal shows a METRIC CONTRADICTION (participant claim vs historical data), probe gently with the specific evidence: "You mentioned handle times are good -- the data shows AHT jumped in March after the system change, what's happened since?"
 ${guidanceState.historicalMetrics
   ? `
 HISTORICAL PERFORMANCE DATA AVAILABLE. Use get_historical_metrics() to check participant claims against real baselines.
 If someone makes a claim that contradicts the data, probe it constructively -- not accusatively.
+Each metric includes evidence lines (change points, outliers, seasonal cycles, expected range) with the uploader's annotations -- cite those, not just the direction.
+Seasonal peaks are expected: do not challenge a claim with a movement the seasonal cycle explains.
 Use METRIC_CHALLENGE pad type for data-backed probes. Include metricEvidence in the pad.`
   : ''}
 
@@ -412,9 +414,8 @@ export async function runFacilitationAgent(
   onConversation?: AgentConversationCallback,
   deliberation?: DeliberationContext,
 ): Promise<PadProposal[]> {
-  if (!env.OPENAI_API_KEY) return [];
+  if (!llm.isConfigured()) return [];
 
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
   const systemPrompt = buildFacilitationSystemPrompt(cogState, guidanceState);
   const startMs = Date.now();
 
@@ -438,7 +439,7 @@ export async function runFacilitationAgent(
     ? `Here's what's happening in the room:\n\n${deliberationBrief}\n\nGenerate facilitation questions that follow the conversation's breadcrumbs. Reference specific things participants said. Address any signal gaps.`
     : 'Generate facilitation prompts based on the current beliefs. Call get_recent_speech first to see what participants said.';
 
-  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: systemPrompt },
     { role: 'user', content: userContent },
   ];
@@ -448,19 +449,19 @@ export async function runFacilitationAgent(
       if (Date.now() - startMs > LOOP_TIMEOUT_MS) break;
 
       const isLastIteration = iteration === MAX_ITERATIONS - 1;
-      const toolChoice: OpenAI.Chat.Completions.ChatCompletionToolChoiceOption = isLastIteration
+      const toolChoice: LLMToolChoice = isLastIteration
         ? { type: 'function', function: { name: 'generate_pads' } }
         : 'auto';
 
-      const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: MODEL,
+      const completion = await llm.chat({
+        tier: MODEL_TIER,
         temperature: 0.4,
         messages,
         tools,
-        tool_choice: toolChoice,
-      }));
+        toolChoice,
+      });
 
-      const assistantMessage = completion.choices[0].message;
+      const assistantMessage = completion.message;
       messages.push(assistantMessage);
 
       if (assistantMessage.content?.trim()) {
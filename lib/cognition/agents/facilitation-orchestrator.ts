@@ -17,9 +17,7 @@
  * - Low latency (5-10s cycles, not 45-60s)
  */
 
-import OpenAI from 'openai';
-import { env } from '@/lib/env';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+import { getLLMClient, type LLMMessage, type LLMModelTier, type LLMTool, type LLMToolChoice } from '@/lib/llm';
 import type { CognitiveState } from '../cognitive-state';
 import {
   getOrCreateGuidanceState,
@@ -29,7 +27,7 @@ import { runFacilitationAgent, type DeliberationContext, type PadProposal } from
 import { validateReferences } from './guardian-agent';
 import type { StickyPad } from '@/lib/cognitive-guidance/pipeline';
 import type { AgentConversationCallback } from './agent-types';
-import { buildMetricsSummary, analyzeMetricTrends } from '@/lib/historical-metrics/summarize';
+import { buildMetricsSummary, analyzeMetricTrends, describeMetricAnalysis, primaryMovement } from '@/lib/historical-metrics/summarize';
 
 // ── Constants ───────────────────────────────────────────────
 
@@ -39,7 +37,8 @@ const DEFAULT_MIN_EMISSION_INTERVAL_MS = 120_000;
 const DEFAULT_PAD_GENERATION_INTERVAL_MS = 45_000;
 const DEFAULT_PAD_UTTERANCE_THRESHOLD = 6;
 
-const ORCHESTRATOR_MODEL = 'gpt-4o-mini';
+const ORCHESTRATOR_MODEL_TIER: LLMModelTier = 'fast';
+const llm = getLLMClient('facilitation-orchestrator');
 const MAX_ORCHESTRATOR_ITERATIONS = 4;       // assess -> facilitation -> verify -> emit
 const ORCHESTRATOR_TIMEOUT_MS = 30_000;      // 30s hard cap
 
@@ -174,17 +173,20 @@ function detectBeliefSignals(cogState: CognitiveState, gs: GuidanceState): Sessi
   // 4. Metric contradictions --beliefs that conflict with historical trend data
   // Only in CONSTRAINTS and DEFINE_APPROACH phases (not REIMAGINE -- preserve creative freedom)
   if (gs.historicalMetrics && gs.dialoguePhase !== 'REIMAGINE' && gs.dialoguePhase !== 'SYNTHESIS') {
-    const trends = analyzeMetricTrends(gs.historicalMetrics);
-    const significantTrends = trends.filter(
-      (t) => t.trend !== 'stable' && t.trend !== 'insufficient_data' && t.changePercent !== null && Math.abs(t.changePercent) > 5
-    );
+    // Lead with the latest change point or segment trend rather than the last two points
+    const significantTrends = analyzeMetricTrends(gs.historicalMetrics).flatMap((trend) => {
+      const movement = primaryMovement(trend);
+      return movement?.changePercent != null && Math.abs(movement.changePercent) > 5
+        ? [{ trend, movement, changePercent: movement.changePercent }]
+        : [];
+    });
 
     // Positive-claim keywords
     const positivePatterns = /\b(great|good|excellent|strong|improving|best|low|fast|quick|efficient|high satisfaction)\b/i;
     // Negative-claim keywords
     const negativePatterns = /\b(bad|poor|terrible|slow|high|rising|increasing|worst|declining|struggling|failing)\b/i;
 
-    for (const trend of significantTrends) {
+    for (const { trend, movement, changePercent } of significantTrends) {
       const metricLabel = trend.metricLabel.toLowerCase();
       const metricKey = trend.metricKey.toLowerCase();
 
@@ -199,20 +201,23 @@ function detectBeliefSignals(cogState: CognitiveState, gs: GuidanceState): Sessi
 
         // Contradiction: positive claim + increasing bad metric OR negative claim + improving metric
         const isContradiction =
-          (hasPositiveClaim && trend.trend === 'increasing' && trend.changePercent !== null && trend.changePercent > 5) ||
-          (hasPositiveClaim && trend.trend === 'decreasing' && trend.changePercent !== null && trend.changePercent < -5) ||
-          (hasNegativeClaim && trend.trend === 'decreasing' && trend.changePercent !== null && trend.changePercent < -5) ||
-          (hasNegativeClaim && trend.trend === 'increasing' && trend.changePercent !== null && trend.changePercent > 5);
+          (hasPositiveClaim && movement.direction === 'increasing' && changePercent > 5) ||
+          (hasPositiveClaim && movement.direction === 'decreasing' && changePercent < -5) ||
+          (hasNegativeClaim && movement.direction === 'decreasing' && changePercent < -5) ||
+          (hasNegativeClaim && movement.direction === 'increasing' && changePercent > 5);
 
         if (isContradiction) {
-          const directionWord = trend.trend === 'increasing' ? 'rising' : 'falling';
-          const changeStr = trend.changePercent !== null ? `${Math.abs(trend.changePercent).toFixed(1)}%` : '';
+          const directionWord = movement.direction === 'increasing' ? 'rising' : 'falling';
+          const changeStr = `${Math.abs(changePercent).toFixed(1)}%`;
+          const evidence = describeMetricAnalysis(trend);
           signals.push({
             type: 'metric_contradiction',
             description: `Someone said "${b.label.substring(0, 60)}" but ${trend.metricLabel} has been ${directionWord} ${changeStr} -- worth probing`,
             lens: null,
-            strength: Math.min(1.0, Math.abs(trend.changePercent || 0) / 20),
-            metricEvidence: `${trend.metricLabel}: ${trend.latestValue} ${trend.unit} (${trend.trend} ${changeStr})`,
+            strength: Math.min(1.0, Math.abs(changePercent) / 20),
+            metricEvidence: evidence.length > 0
+              ? evidence.join('; ')
+              : `${trend.metricLabel}: ${trend.latestValue} ${trend.unit} (${trend.trend} ${changeStr})`,
           });
           break; // One signal per trend is enough
         }
@@ -264,7 +269,7 @@ function buildStickyPadFromSuggestion(
 // ORCHESTRATOR TOOL DEFINITIONS --4 tools
 // ══════════════════════════════════════════════════════════════
 
-const ORCHESTRATOR_TOOLS: OpenAI.Chat.Completions.ChatCompletionTool[] = [
+const ORCHESTRATOR_TOOLS: LLMTool[] = [
   {
     type: 'function',
     function: {
@@ -387,7 +392,7 @@ async function executeOrchestratorTool(
 
       // Store for downstream Facilitation Agent
       state.deliberation.signals = signals.length > 0
-        ? signals.map((s) => `${s.type}: ${s.description}`).join('\n')
+        ? signals.map((s) => `${s.type}: ${s.description}${s.metricEvidence ? ` [evidence: ${s.metricEvidence}]` : ''}`).join('\n')
         : null;
       state.deliberation.recentUtterances = recentSpeech.length > 0
         ? recentSpeech.join('\n')
@@ -541,7 +546,7 @@ export async function runFacilitationOrchestrator(
   const guidanceState = getOrCreateGuidanceState(workshopId);
 
   if (guidanceState.freeflowMode) return;
-  if (!env.OPENAI_API_KEY) return;
+  if (!llm.isConfigured()) return;
 
   // Pre-LLM gates for pad generation
   if (cogState.beliefs.size < 3) return;
@@ -555,7 +560,6 @@ export async function runFacilitationOrchestrator(
   guidanceState.lastPadGenerationAtMs = Date.now();
   guidanceState.utterancesSinceLastPad = 0;
 
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
   const systemPrompt = buildOrchestratorSystemPrompt(cogState, guidanceState);
   const startMs = Date.now();
 
@@ -565,7 +569,7 @@ export async function runFacilitationOrchestrator(
     proposals: [] as PadProposal[],
   };
 
-  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: systemPrompt },
     {
       role: 'user',
@@ -595,21 +599,21 @@ export async function runFacilitationOrchestrator(
       }
 
       const isLastIteration = iteration === MAX_ORCHESTRATOR_ITERATIONS - 1;
-      const toolChoice: OpenAI.Chat.Completions.ChatCompletionToolChoiceOption = isLastIteration
+      const toolChoice: LLMToolChoice = isLastIteration
         ? { type: 'function', function: { name: 'verify_and_emit' } }
         : 'auto';
 
       console.log(`[Orchestrator] Iteration ${iteration}${isLastIteration ? ' (forced commit)' : ''}`);
 
-      const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: ORCHESTRATOR_MODEL,
+      const completion = await llm.chat({
+        tier: ORCHESTRATOR_MODEL_TIER,
         temperature: 0.3,
         messages,
         tools: ORCHESTRATOR_TOOLS,
-        tool_choice: toolChoice,
-      }));
+        toolChoice,
+      });
 
-      const assistantMessage = completion.choices[0].message;
+      const assistantMessage = completion.message;
       messages.push(assistantMessage);
 
       if (assistantMessage.content?.trim()) {
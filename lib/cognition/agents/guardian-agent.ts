@@ -14,9 +14,7 @@
  * Adds ~1-2s latency per verification.
  */
 
-import OpenAI from 'openai';
-import { env } from '@/lib/env';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+import { getLLMClient, type LLMMessage, type LLMModelTier, type LLMTool, type LLMToolChoice } from '@/lib/llm';
 import type { CognitiveState } from '../cognitive-state';
 import type { DialoguePhase } from '@/lib/cognitive-guidance/pipeline';
 import type { AgentConversationCallback } from './agent-types';
@@ -25,7 +23,8 @@ import type { AgentConversationCallback } from './agent-types';
 
 const MAX_ITERATIONS = 2;
 const LOOP_TIMEOUT_MS = 5_000;
-const MODEL = 'gpt-4o-mini';
+const MODEL_TIER: LLMModelTier = 'fast';
+const llm = getLLMClient('guardian');
 
 // ══════════════════════════════════════════════════════════════
 // TYPES
@@ -49,7 +48,7 @@ export type GuardianInput = {
 // TOOL DEFINITIONS
 // ══════════════════════════════════════════════════════════════
 
-const GUARDIAN_TOOLS: OpenAI.Chat.Completions.ChatCompletionTool[] = [
+const GUARDIAN_TOOLS: LLMTool[] = [
   {
     type: 'function',
     function: {
@@ -146,12 +145,11 @@ export async function runGuardianAgent(
   cogState: CognitiveState,
   onConversation?: AgentConversationCallback,
 ): Promise<GuardianVerdict> {
-  if (!env.OPENAI_API_KEY) {
-    // If no API key, approve by default (don't block)
+  if (!llm.isConfigured()) {
+    // If no LLM provider is configured, approve by default (don't block)
     return { verdict: 'approve', reasoning: 'Guardian unavailable — approved by default' };
   }
 
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
   const startMs = Date.now();
 
   // Resolve source beliefs for the system prompt
@@ -184,7 +182,7 @@ IMPORTANT:
 
 Call render_verdict when ready.`;
 
-  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: systemPrompt },
     {
       role: 'user',
@@ -197,19 +195,19 @@ Call render_verdict when ready.`;
       if (Date.now() - startMs > LOOP_TIMEOUT_MS) break;
 
       const isLastIteration = iteration === MAX_ITERATIONS - 1;
-      const toolChoice: OpenAI.Chat.Completions.ChatCompletionToolChoiceOption = isLastIteration
+      const toolChoice: LLMToolChoice = isLastIteration
         ? { type: 'function', function: { name: 'render_verdict' } }
         : 'auto';
 
-      const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: MODEL,
+      const completion = await llm.chat({
+        tier: MODEL_TIER,
         temperature: 0.1, // Low temperature for verification
         messages,
         tools: GUARDIAN_TOOLS,
-        tool_choice: toolChoice,
-      }));
+        toolChoice,
+      });
 
-      const assistantMessage = completion.choices[0].message;
+      const assistantMessage = completion.message;
       messages.push(assistantMessage);
 
       if (!assistantMessage.tool_calls?.length) break;
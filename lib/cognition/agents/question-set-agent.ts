@@ -15,10 +15,8 @@
  * facilitator through the live workshop session.
  */
 
-import OpenAI from 'openai';
+import { getLLMClient, type LLMMessage, type LLMModelTier, type LLMTool, type LLMToolChoice } from '@/lib/llm';
 import { nanoid } from 'nanoid';
-import { env } from '@/lib/env';
-import { openAiBreaker } from '@/lib/circuit-breaker';
 import { hasDiscoveryData } from './agent-types';
 import type {
   WorkshopQuestionSet,
@@ -31,13 +29,14 @@ import type {
   DataConfidence,
 } from './agent-types';
 import type { WorkshopBlueprint } from '@/lib/workshop/blueprint';
-import { analyzeMetricTrends } from '@/lib/historical-metrics/summarize';
+import { analyzeMetricTrends, describeMetricAnalysis } from '@/lib/historical-metrics/summarize';
 
 // ── Constants ───────────────────────────────────────────────
 
 const MAX_ITERATIONS = 9;
 const LOOP_TIMEOUT_MS = 55_000;
-const MODEL = 'gpt-4o-mini';
+const MODEL_TIER: LLMModelTier = 'fast';
+const llm = getLLMClient('question-set');
 
 /**
  * Get lens order for a phase.
@@ -74,7 +73,7 @@ const PHASE_GUIDANCE: Record<WorkshopPhase, string> = {
 // TOOL DEFINITIONS
 // ══════════════════════════════════════════════════════════════
 
-const QUESTION_SET_TOOLS: OpenAI.Chat.Completions.ChatCompletionTool[] = [
+const QUESTION_SET_TOOLS: LLMTool[] = [
   {
     type: 'function',
     function: {
@@ -401,14 +400,27 @@ function executeQuestionSetTool(
         const changeStr = t.changePercent !== null
           ? ` (${t.trend}, ${t.changePercent > 0 ? '+' : ''}${t.changePercent.toFixed(1)}%)`
           : ` (${t.trend})`;
-        return `  - ${t.metricLabel}: ${t.latestValue} ${t.unit} as of ${t.latestPeriod}${changeStr}`;
+        const evidence = describeMetricAnalysis(t).map((line) => `\n      ${line}`).join('');
+        return `  - ${t.metricLabel}: ${t.latestValue} ${t.unit} as of ${t.latestPeriod}${changeStr}${evidence}`;
       });
       return {
         result: JSON.stringify({
           available: true,
           domainPack: context.historicalMetrics.domainPack,
           sourceCount: context.historicalMetrics.sources.length,
-          metrics: trends,
+          // Evidence sentences instead of the raw analysis -- the band is one entry per period
+          metrics: trends.map((t) => ({
+            metricKey: t.metricKey,
+            metricLabel: t.metricLabel,
+            unit: t.unit,
+            latestValue: t.latestValue,
+            latestPeriod: t.latestPeriod,
+            previousValue: t.previousValue,
+            trend: t.trend,
+            changePercent: t.changePercent,
+            dataPointCount: t.dataPointCount,
+            evidence: describeMetricAnalysis(t),
+          })),
         }),
         summary: `**Historical metrics:** ${trends.length} metrics from ${context.historicalMetrics.domainPack} pack.\n${trendLines.join('\n')}`,
       };
@@ -745,18 +757,17 @@ export async function runQuestionSetAgent(
   onConversation?: AgentConversationCallback,
   discoveryBriefing?: Record<string, unknown> | null,
 ): Promise<WorkshopQuestionSet> {
-  if (!env.OPENAI_API_KEY) {
-    throw new Error('OpenAI API key not configured \u2014 cannot run Question Set Agent');
+  if (!llm.isConfigured()) {
+    throw new Error('LLM provider not configured \u2014 cannot run Question Set Agent');
   }
 
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
   const systemPrompt = buildQuestionSetSystemPrompt(context, research, discoveryBriefing);
   const startMs = Date.now();
 
   // Track designed phases as they come in
   const designedPhases = new Map<WorkshopPhase, FacilitationQuestion[]>();
 
-  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: systemPrompt },
     {
       role: 'user',
@@ -771,22 +782,22 @@ export async function runQuestionSetAgent(
       }
 
       const isLastIteration = iteration === MAX_ITERATIONS - 1;
-      const toolChoice: OpenAI.Chat.Completions.ChatCompletionToolChoiceOption = isLastIteration
+      const toolChoice: LLMToolChoice = isLastIteration
         ? { type: 'function', function: { name: 'commit_question_set' } }
         : 'auto';
 
       console.log(`[Question Set Agent] Iteration ${iteration}${isLastIteration ? ' (forced commit)' : ''}`);
 
-      const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: MODEL,
+      const completion = await llm.chat({
+        tier: MODEL_TIER,
         temperature: 0.4,
         messages,
         tools: QUESTION_SET_TOOLS,
-        tool_choice: toolChoice,
-        parallel_tool_calls: true,
-      }));
+        toolChoice,
+        parallelToolCalls: true,
+      });
 
-      const assistantMessage = completion.choices[0].message;
+      const assistantMessage = completion.message;
       messages.push(assistantMessage);
 
       // Emit thinking/commentary
@@ -953,7 +964,7 @@ export async function runQuestionSetAgent(
 }
 
 // Helper to extract all commit args from the committed message
-function fnArgs_extract_full(messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[]): {
+function fnArgs_extract_full(messages: LLMMessage[]): {
   designRationale: string;
   dataConfidence: string;
   dataSufficiencyNotes: string[];
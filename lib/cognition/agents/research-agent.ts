@@ -12,9 +12,8 @@
  * parametric knowledge (clearly labelled as such).
  */
 
-import OpenAI from 'openai';
+import { getLLMClient, type LLMMessage, type LLMModelTier, type LLMTool, type LLMToolChoice } from '@/lib/llm';
 import { env } from '@/lib/env';
-import { openAiBreaker } from '@/lib/circuit-breaker';
 import type { WorkshopPrepResearch, PrepContext, AgentConversationCallback, AgentReview } from './agent-types';
 import type { GuidanceState } from '../guidance-state';
 import { getEngagementType } from '@/lib/domain-packs/engagement-types';
@@ -43,8 +42,9 @@ export class ResearchClarificationNeededError extends Error {
 
 const MAX_ITERATIONS = 20;        // Enough for thorough 4-phase research + synthesis pass
 const LOOP_TIMEOUT_MS = 300_000;  // 5 minutes — GPT-4o + Tavily takes ~15-20s per iteration; 8-10 searches needs room
-const MODEL = 'gpt-4o';           // Full model — research synthesis quality matters here
-const LIVE_REVIEW_MODEL = 'gpt-4o-mini';  // Keep fast for latency-sensitive live reviews
+const MODEL_TIER: LLMModelTier = 'standard';           // Full model — research synthesis quality matters here
+const LIVE_REVIEW_MODEL_TIER: LLMModelTier = 'fast';  // Keep fast for latency-sensitive live reviews
+const llm = getLLMClient('research');
 const MIN_SEARCHES_BEFORE_COMMIT = 8;
 const MIN_SEARCHES_DOMAIN_TRACK = 10;
 
@@ -66,7 +66,7 @@ const BANNED_SOURCE_DOMAINS = [
 // TOOL DEFINITIONS
 // ══════════════════════════════════════════════════════════════
 
-const RESEARCH_TOOLS: OpenAI.Chat.Completions.ChatCompletionTool[] = [
+const RESEARCH_TOOLS: LLMTool[] = [
   // ── STEP 0 — must be called FIRST ───────────────────────────
   {
     type: 'function',
@@ -524,7 +524,6 @@ const hasTavily = () => Boolean(env.TAVILY_API_KEY);
  * - Without: falls back to GPT-4o-mini parametric knowledge (labelled)
  */
 async function executeResearchTool(
-  openai: OpenAI,
   toolName: string,
   args: Record<string, unknown>,
   context: PrepContext,
@@ -633,10 +632,10 @@ async function executeResearchTool(
       }
 
       // ── PARAMETRIC FALLBACK ──
-      const res = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: MODEL,
+      const res = await llm.chat({
+        tier: MODEL_TIER,
         temperature: 0.3,
-        max_tokens: 2000,
+        maxTokens: 2000,
         messages: [
           {
             role: 'system',
@@ -647,9 +646,9 @@ async function executeResearchTool(
             content: `Research query about ${context.clientName || 'the company'} (${context.industry || 'unknown industry'}${context.companyWebsite ? `, website: ${context.companyWebsite}` : ''}):\n\nQuery: ${query}\nFocus: ${focus}\n\nProvide a detailed, thorough response with specific facts, numbers, and evidence. If this is a well-known company, provide comprehensive details. If not well-known, provide detailed industry context and note what would need further investigation.`,
           },
         ],
-      }));
+      });
 
-      const content = res.choices[0]?.message?.content || 'No information found.';
+      const content = res.message.content || 'No information found.';
       return {
         result: JSON.stringify({ query, focus, source: 'parametric_knowledge', findings: content }),
         summary: `**Researched: ${focus}** ⚠️ (parametric knowledge — no web search API configured)\n${content}`,
@@ -684,10 +683,10 @@ async function executeResearchTool(
       }
 
       // ── PARAMETRIC FALLBACK ──
-      const res = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: MODEL,
+      const res = await llm.chat({
+        tier: MODEL_TIER,
         temperature: 0.3,
-        max_tokens: 1500,
+        maxTokens: 1500,
         messages: [
           {
             role: 'system',
@@ -698,9 +697,9 @@ async function executeResearchTool(
             content: `Industry analysis for: ${industry}\nFocus area: ${focus}\n\nProvide a detailed, multi-paragraph analysis of current trends, challenges, disruption forces, and outlook. Include specific examples and evidence.`,
           },
         ],
-      }));
+      });
 
-      const content = res.choices[0]?.message?.content || 'No trends data available.';
+      const content = res.message.content || 'No trends data available.';
       return {
         result: JSON.stringify({ industry, focus, source: 'parametric_knowledge', analysis: content }),
         summary: `**Industry Trends: ${industry}** ⚠️ (parametric knowledge — no web search API configured)\n${content}`,
@@ -736,10 +735,10 @@ async function executeResearchTool(
       }
 
       // ── PARAMETRIC FALLBACK ──
-      const res = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: MODEL,
+      const res = await llm.chat({
+        tier: MODEL_TIER,
         temperature: 0.3,
-        max_tokens: 1500,
+        maxTokens: 1500,
         messages: [
           {
             role: 'system',
@@ -750,9 +749,9 @@ async function executeResearchTool(
             content: `Domain: ${domain}\nIndustry: ${industry}\nQuestion: ${question}\n\nProvide a detailed, multi-paragraph analysis covering: specific challenges, common pain points, best practices from leading organisations, emerging trends, and strategic considerations for this domain within this industry.`,
           },
         ],
-      }));
+      });
 
-      const content = res.choices[0]?.message?.content || 'No domain insights available.';
+      const content = res.message.content || 'No domain insights available.';
       return {
         result: JSON.stringify({ domain, industry, source: 'parametric_knowledge', insights: content }),
         summary: `**Domain Deep-Dive: ${domain} in ${industry}** ⚠️ (parametric knowledge — no web search API configured)\n${content}`,
@@ -787,10 +786,10 @@ async function executeResearchTool(
       }
 
       // ── PARAMETRIC FALLBACK ──
-      const res = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: MODEL,
+      const res = await llm.chat({
+        tier: MODEL_TIER,
         temperature: 0.3,
-        max_tokens: 2000,
+        maxTokens: 2000,
         messages: [
           {
             role: 'system',
@@ -801,9 +800,9 @@ async function executeResearchTool(
             content: `Map the typical ${clientType} journey in ${industry}.\nFocus: ${focus}\n\nProvide 6-12 key lifecycle stages in chronological order. For each stage provide a detailed description and 3-5 specific touchpoints. Be industry-specific, not generic.`,
           },
         ],
-      }));
+      });
 
-      const content = res.choices[0]?.message?.content || 'No journey data available.';
+      const content = res.message.content || 'No journey data available.';
       return {
         result: JSON.stringify({ industry, clientType, focus, source: 'parametric_knowledge', analysis: content }),
         summary: `**Customer Journey: ${clientType} in ${industry}** ⚠️ (parametric knowledge — no web search API configured)\n${content}`,
@@ -837,10 +836,10 @@ async function executeResearchTool(
       }
 
       // ── PARAMETRIC FALLBACK ──
-      const res = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: MODEL,
+      const res = await llm.chat({
+        tier: MODEL_TIER,
         temperature: 0.3,
-        max_tokens: 2000,
+        maxTokens: 2000,
         messages: [
           {
             role: 'system',
@@ -851,9 +850,9 @@ async function executeResearchTool(
             content: `Identify the 4-6 most important strategic dimensions for the ${industry} industry.\nFocus: ${focus}\n\nFor each dimension, provide:\n- A clear name\n- A detailed description of what it covers and why it matters\n- 10-20 keywords that would indicate someone is talking about this dimension\n\nBe specific to this industry — generic dimensions like "People" or "Technology" are too broad.`,
           },
         ],
-      }));
+      });
 
-      const content = res.choices[0]?.message?.content || 'No dimension data available.';
+      const content = res.message.content || 'No dimension data available.';
       return {
         result: JSON.stringify({ industry, focus, source: 'parametric_knowledge', analysis: content }),
         summary: `**Industry Dimensions: ${industry}** ⚠️ (parametric knowledge — no web search API configured)\n${content}`,
@@ -891,10 +890,10 @@ async function executeResearchTool(
       }
 
       // ── PARAMETRIC FALLBACK ──
-      const res = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: MODEL,
+      const res = await llm.chat({
+        tier: MODEL_TIER,
         temperature: 0.3,
-        max_tokens: 2000,
+        maxTokens: 2000,
         messages: [
           {
             role: 'system',
@@ -923,9 +922,9 @@ For each role provide:
 - Department or functional area`,
           },
         ],
-      }));
+      });
 
-      const content = res.choices[0]?.message?.content || 'No actor data available.';
+      const content = res.message.content || 'No actor data available.';
       return {
         result: JSON.stringify({ industry, domain, clientType, source: 'parametric_knowledge', analysis: content }),
         summary: `**Actor Roles: ${industry}${domain ? ` (${domain})` : ''}** (parametric knowledge)\n${content}`,
@@ -1191,15 +1190,14 @@ export async function runResearchAgent(
   context: PrepContext,
   onConversation?: AgentConversationCallback,
 ): Promise<WorkshopPrepResearch> {
-  if (!env.OPENAI_API_KEY) {
-    throw new Error('OpenAI API key not configured — cannot run Research Agent');
+  if (!llm.isConfigured()) {
+    throw new Error('LLM provider not configured — cannot run Research Agent');
   }
 
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
   const systemPrompt = buildResearchSystemPrompt(context);
   const startMs = Date.now();
 
-  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: systemPrompt },
     {
       role: 'user',
@@ -1242,23 +1240,22 @@ Remember: every fact must be cited. Every challenge and development must end wit
         ? RESEARCH_TOOLS
         : RESEARCH_TOOLS.filter(t => t.type === 'function' && t.function.name !== 'commit_research');
 
-      const toolChoice: OpenAI.Chat.Completions.ChatCompletionToolChoiceOption =
+      const toolChoice: LLMToolChoice =
         (isLastIteration && hasMinSearches)
           ? { type: 'function', function: { name: 'commit_research' } }
           : 'auto';
 
       console.log(`[Research Agent] Iteration ${iteration}, searches=${searchCount}/${minSearches}${isLastIteration ? ' (last)' : ''}${!hasMinSearches ? ' [commit locked]' : ''}`);
 
-      const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: MODEL,
+      const completion = await llm.chat({
+        tier: MODEL_TIER,
         temperature: 0.3,
         messages,
         tools: availableTools,
-        tool_choice: toolChoice,
-      }));
+        toolChoice,
+      });
 
-      const choice = completion.choices[0];
-      const assistantMessage = choice.message;
+      const assistantMessage = completion.message;
       messages.push(assistantMessage);
 
       // Emit thinking text as conversation entry
@@ -1467,7 +1464,7 @@ Remember: every fact must be cited. Every challenge and development must end wit
           if (fnName !== 'verify_company') {
             searchCount++;
           }
-          const toolResult = await executeResearchTool(openai, fnName, fnArgs, context);
+          const toolResult = await executeResearchTool(fnName, fnArgs, context);
 
           onConversation?.({
             timestampMs: Date.now(),
@@ -1498,7 +1495,7 @@ Remember: every fact must be cited. Every challenge and development must end wit
 
     // If loop ended without commit, force one
     console.log('[Research Agent] Loop ended without commit — forcing');
-    return await forceResearchCommit(openai, messages, context);
+    return await forceResearchCommit(messages, context);
   } catch (error) {
     console.error('[Research Agent] Failed:', error instanceof Error ? error.message : error);
 
@@ -1554,20 +1551,19 @@ function normaliseResearchOutput(args: Record<string, unknown>): WorkshopPrepRes
 }
 
 async function forceResearchCommit(
-  openai: OpenAI,
-  messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+  messages: LLMMessage[],
   context: PrepContext,
 ): Promise<WorkshopPrepResearch> {
   try {
-    const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-      model: MODEL,
+    const completion = await llm.chat({
+      tier: MODEL_TIER,
       temperature: 0.3,
       messages,
       tools: RESEARCH_TOOLS,
-      tool_choice: { type: 'function', function: { name: 'commit_research' } },
-    }));
+      toolChoice: { type: 'function', function: { name: 'commit_research' } },
+    });
 
-    const toolCalls = completion.choices[0]?.message?.tool_calls;
+    const toolCalls = completion.message.tool_calls;
     const fnCall = toolCalls?.find((tc) => tc.type === 'function');
     if (fnCall && fnCall.type === 'function') {
       const args = JSON.parse(fnCall.function.arguments) as Record<string, unknown>;
@@ -1654,7 +1650,7 @@ function fallbackResearch(context: PrepContext): WorkshopPrepResearch {
 const LIVE_REVIEW_TIMEOUT_MS = 8_000;
 const LIVE_REVIEW_ITERATIONS = 3;
 
-const RESEARCH_REVIEW_TOOLS: OpenAI.Chat.Completions.ChatCompletionTool[] = [
+const RESEARCH_REVIEW_TOOLS: LLMTool[] = [
   {
     type: 'function',
     function: {
@@ -1767,11 +1763,10 @@ export async function reviewWithResearchAgent(
   guidanceState: GuidanceState,
   onConversation?: AgentConversationCallback,
 ): Promise<AgentReview> {
-  if (!env.OPENAI_API_KEY) {
+  if (!llm.isConfigured()) {
     return { agent: 'Research Agent', stance: 'agree', feedback: 'Research Agent unavailable.' };
   }
 
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
   const prep = guidanceState.prepContext;
   const startMs = Date.now();
 
@@ -1788,7 +1783,7 @@ REVIEW MODE: Use get_research_findings to recall what you know, then use check_i
 
 Submit your review with submit_review when you've assessed the proposals.`;
 
-  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: systemPrompt },
     { role: 'user', content: `Review these proposals from the Facilitation Agent:\n\n${proposals}\n\nAre these grounded in what you know about the company and industry? Use your tools to check.` },
   ];
@@ -1798,19 +1793,19 @@ Submit your review with submit_review when you've assessed the proposals.`;
       if (Date.now() - startMs > LIVE_REVIEW_TIMEOUT_MS) break;
 
       const isLastIteration = iteration === LIVE_REVIEW_ITERATIONS - 1;
-      const toolChoice: OpenAI.Chat.Completions.ChatCompletionToolChoiceOption = isLastIteration
+      const toolChoice: LLMToolChoice = isLastIteration
         ? { type: 'function', function: { name: 'submit_review' } }
         : 'auto';
 
-      const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: LIVE_REVIEW_MODEL,
+      const completion = await llm.chat({
+        tier: LIVE_REVIEW_MODEL_TIER,
         temperature: 0.3,
         messages,
         tools: RESEARCH_REVIEW_TOOLS,
-        tool_choice: toolChoice,
-      }));
+        toolChoice,
+      });
 
-      const assistantMessage = completion.choices[0].message;
+      const assistantMessage = completion.message;
       messages.push(assistantMessage);
 
       if (assistantMessage.content?.trim()) {
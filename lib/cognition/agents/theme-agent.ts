@@ -10,9 +10,7 @@
  * - Domain focus has shifted
  */
 
-import OpenAI from 'openai';
-import { env } from '@/lib/env';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+import { getLLMClient, type LLMMessage, type LLMModelTier, type LLMTool, type LLMToolChoice } from '@/lib/llm';
 import type { CognitiveState } from '../cognitive-state';
 import type { GuidanceState, GuidedTheme } from '../guidance-state';
 import type { AgentConversationCallback, AgentReview, WorkshopPrepResearch } from './agent-types';
@@ -23,7 +21,8 @@ import { getDimensionNames } from '../workshop-dimensions';
 
 const MAX_ITERATIONS = 3;
 const LOOP_TIMEOUT_MS = 8_000;
-const MODEL = 'gpt-4o-mini';
+const MODEL_TIER: LLMModelTier = 'fast';
+const llm = getLLMClient('theme');
 
 // ══════════════════════════════════════════════════════════════
 // TOOL DEFINITIONS
@@ -32,7 +31,7 @@ const MODEL = 'gpt-4o-mini';
 const DEFAULT_THEME_DOMAINS = ['People', 'Organisation', 'Customer', 'Technology', 'Regulation'];
 const DEFAULT_THEME_LENSES = ['People', 'Organisation', 'Technology', 'Regulation', 'Customer'];
 
-function buildThemeTools(dimensions?: string[]): OpenAI.Chat.Completions.ChatCompletionTool[] {
+function buildThemeTools(dimensions?: string[]): LLMTool[] {
   const domainEnum = dimensions?.length ? dimensions : DEFAULT_THEME_DOMAINS;
   const lensEnum = dimensions?.length ? dimensions : DEFAULT_THEME_LENSES;
 
@@ -264,9 +263,8 @@ export async function runThemeAgent(
   guidanceState: GuidanceState,
   onConversation?: AgentConversationCallback,
 ): Promise<ThemeProposal> {
-  if (!env.OPENAI_API_KEY) return null;
+  if (!llm.isConfigured()) return null;
 
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
   const systemPrompt = buildThemeSystemPrompt(cogState, guidanceState);
   const startMs = Date.now();
 
@@ -275,7 +273,7 @@ export async function runThemeAgent(
   const dims = getDimensionNames(research);
   const tools = buildThemeTools(dims);
 
-  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: systemPrompt },
     {
       role: 'user',
@@ -288,19 +286,19 @@ export async function runThemeAgent(
       if (Date.now() - startMs > LOOP_TIMEOUT_MS) break;
 
       const isLastIteration = iteration === MAX_ITERATIONS - 1;
-      const toolChoice: OpenAI.Chat.Completions.ChatCompletionToolChoiceOption = isLastIteration
+      const toolChoice: LLMToolChoice = isLastIteration
         ? { type: 'function', function: { name: 'suggest_theme' } }
         : 'auto';
 
-      const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: MODEL,
+      const completion = await llm.chat({
+        tier: MODEL_TIER,
         temperature: 0.3,
         messages,
         tools,
-        tool_choice: toolChoice,
-      }));
+        toolChoice,
+      });
 
-      const assistantMessage = completion.choices[0].message;
+      const assistantMessage = completion.message;
       messages.push(assistantMessage);
 
       if (assistantMessage.content?.trim()) {
@@ -390,7 +388,7 @@ export async function runThemeAgent(
 // Same tools, same reasoning, same agentic loop.
 // ══════════════════════════════════════════════════════════════
 
-const SUBMIT_REVIEW_TOOL: OpenAI.Chat.Completions.ChatCompletionTool = {
+const SUBMIT_REVIEW_TOOL: LLMTool = {
     type: 'function',
     function: {
       name: 'submit_review',
@@ -417,7 +415,7 @@ const SUBMIT_REVIEW_TOOL: OpenAI.Chat.Completions.ChatCompletionTool = {
     },
   };
 
-function buildThemeReviewTools(dimensions?: string[]): OpenAI.Chat.Completions.ChatCompletionTool[] {
+function buildThemeReviewTools(dimensions?: string[]): LLMTool[] {
   const baseTools = buildThemeTools(dimensions);
   return [baseTools[0], baseTools[1], SUBMIT_REVIEW_TOOL]; // query_beliefs, list_all_beliefs, submit_review
 }
@@ -428,11 +426,10 @@ export async function reviewWithThemeAgent(
   guidanceState: GuidanceState,
   onConversation?: AgentConversationCallback,
 ): Promise<AgentReview> {
-  if (!env.OPENAI_API_KEY) {
+  if (!llm.isConfigured()) {
     return { agent: 'Theme Agent', stance: 'agree', feedback: 'Theme Agent unavailable.' };
   }
 
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
   const basePrompt = buildThemeSystemPrompt(cogState, guidanceState);
   const startMs = Date.now();
 
@@ -450,7 +447,7 @@ REVIEW MODE: You are being asked to review proposals from the Facilitation Agent
 ${journeyCtx ? `JOURNEY CONTEXT:\n${journeyCtx}\nWhen reviewing proposals, notice if journey stages cluster into themes. If you see emerging thematic patterns across journey stages (e.g., "digital self-service" across multiple stages), flag them as a "build" suggestion.\n` : ''}
 Use query_beliefs and get_coverage_summary to ground your assessment, then submit_review with your verdict.`;
 
-  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: systemPrompt },
     { role: 'user', content: `Review these proposals from the Facilitation Agent:\n\n${proposals}\n\nDo these align with the conversational direction? Use your tools to check.` },
   ];
@@ -460,19 +457,19 @@ Use query_beliefs and get_coverage_summary to ground your assessment, then submi
       if (Date.now() - startMs > LOOP_TIMEOUT_MS) break;
 
       const isLastIteration = iteration === MAX_ITERATIONS - 1;
-      const toolChoice: OpenAI.Chat.Completions.ChatCompletionToolChoiceOption = isLastIteration
+      const toolChoice: LLMToolChoice = isLastIteration
         ? { type: 'function', function: { name: 'submit_review' } }
         : 'auto';
 
-      const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: MODEL,
+      const completion = await llm.chat({
+        tier: MODEL_TIER,
         temperature: 0.3,
         messages,
         tools: reviewTools,
-        tool_choice: toolChoice,
-      }));
+        toolChoice,
+      });
 
-      const assistantMessage = completion.choices[0].message;
+      const assistantMessage = completion.message;
       messages.push(assistantMessage);
 
       if (assistantMessage.content?.trim()) {
@@ -9,9 +9,7 @@
  * the reasoning process through self-directed tool use.
  */
 
-import OpenAI from 'openai';
-import { env } from '@/lib/env';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+import { getLLMClient, type LLMChatResponse, type LLMMessage, type LLMModelTier, type LLMToolChoice } from '@/lib/llm';
 import type { CognitiveState, ReasoningEntry } from '../cognitive-state';
 import type {
   CognitiveReasoningEngine,
@@ -29,7 +27,9 @@ import { COGNITIVE_TOOLS, buildCognitiveTools, executeTool } from './tools';
 
 const MAX_ITERATIONS = 4;       // Max tool-calling rounds
 const LOOP_TIMEOUT_MS = 5_000;  // Hard timeout for entire loop
-const MODEL = 'gpt-4o-mini';
+const MODEL_TIER: LLMModelTier = 'fast';
+
+const llm = getLLMClient('cognitive-engine');
 
 // ── Safe type parsers (reused from original) ────────────────
 
@@ -95,13 +95,11 @@ function safeTrajectory(v: unknown): ValidTrajectory {
 
 export class GPT4oMiniEngine implements CognitiveReasoningEngine {
   readonly engineName = 'gpt-4o-mini-agentic';
-  private openai: OpenAI;
 
   constructor() {
-    if (!env.OPENAI_API_KEY) {
-      throw new Error('OpenAI API key not configured — cannot create GPT-4o-mini engine');
+    if (!llm.isConfigured()) {
+      throw new Error('LLM provider not configured — cannot create the agentic engine');
     }
-    this.openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
   }
 
   async processUtterance(
@@ -114,7 +112,7 @@ export class GPT4oMiniEngine implements CognitiveReasoningEngine {
     const deliberation: string[] = [];
     const startMs = Date.now();
 
-    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+    const messages: LLMMessage[] = [
       { role: 'system', content: systemPrompt },
       { role: 'user', content: userMessage },
     ];
@@ -130,7 +128,7 @@ export class GPT4oMiniEngine implements CognitiveReasoningEngine {
 
         // On the final iteration, force commit_analysis
         const isLastIteration = iteration === MAX_ITERATIONS - 1;
-        const toolChoice: OpenAI.Chat.Completions.ChatCompletionToolChoiceOption = isLastIteration
+        const toolChoice: LLMToolChoice = isLastIteration
           ? { type: 'function', function: { name: 'commit_analysis' } }
           : 'auto';
 
@@ -142,27 +140,22 @@ export class GPT4oMiniEngine implements CognitiveReasoningEngine {
 
         const callController = new AbortController();
         const callTimeoutId = setTimeout(() => callController.abort(), 8_000);
-        let completion: OpenAI.Chat.Completions.ChatCompletion;
+        let completion: LLMChatResponse;
         try {
-          completion = await openAiBreaker.execute(() =>
-            this.openai.chat.completions.create(
-              {
-                model: MODEL,
-                temperature: 0.3,
-                messages,
-                tools,
-                tool_choice: toolChoice,
-                parallel_tool_calls: true,
-              },
-              { signal: callController.signal },
-            )
-          );
+          completion = await llm.chat({
+            tier: MODEL_TIER,
+            temperature: 0.3,
+            messages,
+            tools,
+            toolChoice,
+            parallelToolCalls: true,
+            signal: callController.signal,
+          });
         } finally {
           clearTimeout(callTimeoutId);
         }
 
-        const choice = completion.choices[0];
-        const assistantMessage = choice.message;
+        const assistantMessage = completion.message;
 
         // Append assistant message to conversation
         messages.push(assistantMessage);
@@ -285,7 +278,7 @@ export class GPT4oMiniEngine implements CognitiveReasoningEngine {
   // ── Force a final commit when the loop exits without one ────
 
   private async forceCommit(
-    messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+    messages: LLMMessage[],
     deliberation: string[],
     customDimensionNames?: string[],
   ): Promise<CognitiveStateUpdate> {
@@ -294,25 +287,22 @@ export class GPT4oMiniEngine implements CognitiveReasoningEngine {
 
       const commitController = new AbortController();
       const commitTimeoutId = setTimeout(() => commitController.abort(), 8_000);
-      let completion: OpenAI.Chat.Completions.ChatCompletion;
+      let completion: LLMChatResponse;
       try {
-        completion = await this.openai.chat.completions.create(
-          {
-            model: MODEL,
-            temperature: 0.3,
-            messages,
-            tools,
-            tool_choice: { type: 'function', function: { name: 'commit_analysis' } },
-          },
-          { signal: commitController.signal }
-        );
+        completion = await llm.chat({
+          tier: MODEL_TIER,
+          temperature: 0.3,
+          messages,
+          tools,
+          toolChoice: { type: 'function', function: { name: 'commit_analysis' } },
+          signal: commitController.signal,
+        });
       } finally {
         clearTimeout(commitTimeoutId);
       }
 
-      const toolCalls = completion.choices[0]?.message?.tool_calls;
-      const firstFnCall = toolCalls?.find(tc => tc.type === 'function');
-      if (firstFnCall && firstFnCall.type === 'function') {
+      const firstFnCall = completion.toolCalls[0];
+      if (firstFnCall) {
         const args = JSON.parse(firstFnCall.function.arguments);
         deliberation.push('Forced commit after loop exhaustion');
         return this.normaliseCommitArgs(args, deliberation, customDimensionNames);
@@ -6,7 +6,7 @@
  * tools to call and in what order — this is what makes it agentic.
  */
 
-import type OpenAI from 'openai';
+import type { LLMTool } from '@/lib/llm';
 import type { CognitiveState, Domain, BeliefCategory } from '../cognitive-state';
 import { semanticSignature, jaccardSimilarity } from '../cognitive-state';
 
@@ -22,12 +22,12 @@ export type ToolResult = {
 };
 
 // ══════════════════════════════════════════════════════════════
-// TOOL DEFINITIONS (OpenAI function-calling format)
+// TOOL DEFINITIONS (function-calling format, see lib/llm/types.ts)
 // ══════════════════════════════════════════════════════════════
 
 const DEFAULT_COGNITIVE_DOMAINS = ['People', 'Operations', 'Customer', 'Technology', 'Regulation'];
 
-export function buildCognitiveTools(dimensions?: string[]): OpenAI.Chat.Completions.ChatCompletionTool[] {
+export function buildCognitiveTools(dimensions?: string[]): LLMTool[] {
   const domainEnum = dimensions?.length ? dimensions : DEFAULT_COGNITIVE_DOMAINS;
 
   return [
@@ -1,5 +1,5 @@
 /**
- * Guidance State Store --globalThis-backed in-memory persistence
+ * Guidance State Store --globalThis-backed cache with write-through persistence
  *
  * Mirrors the CognitiveState store pattern. Tracks facilitator-side state
  * that agents need to know: active theme, theme queue, journey data,
@@ -7,12 +7,21 @@
  *
  * The cognitive guidance page PUTs to the guidance-state API when
  * the facilitator takes action, and agents read this before invoking.
+ * Changes are written through to live_cognition_states so another
+ * instance can recover the session (see live-state-persistence.ts).
  */
 
 import type { DialoguePhase, Lens } from '@/lib/cognitive-guidance/pipeline';
 import type { WorkshopPrepResearch, WorkshopIntelligence } from './agents/agent-types';
 import type { WorkshopBlueprint } from '@/lib/workshop/blueprint';
 import type { HistoricalMetricsData } from '@/lib/historical-metrics/types';
+import {
+  LiveStateConflictError,
+  LIVE_STATE_TTL_MS,
+  deleteLiveState,
+  loadLiveState,
+  saveLiveState,
+} from './live-state-persistence';
 
 // ══════════════════════════════════════════════════════════
 // GUIDED THEME --agent-suggested or facilitator-created themes
@@ -144,6 +153,10 @@ export type GuidanceState = {
 
 type GuidanceStore = {
   stateByWorkshop: Map<string, GuidanceState>;
+  // Persisted version each cached state corresponds to (absent = never persisted)
+  versionByWorkshop: Map<string, number>;
+  recovering: Map<string, Promise<GuidanceState | null>>;
+  writes: Map<string, Promise<boolean>>;
 };
 
 function getStore(): GuidanceStore {
@@ -151,6 +164,9 @@ function getStore(): GuidanceStore {
   if (!g.__dreamGuidanceStore) {
     g.__dreamGuidanceStore = {
       stateByWorkshop: new Map(),
+      versionByWorkshop: new Map(),
+      recovering: new Map(),
+      writes: new Map(),
     };
   }
   return g.__dreamGuidanceStore;
@@ -219,8 +235,125 @@ export function updateGuidanceState(
   return state;
 }
 
+/** Drop the cached guidance state in this process only (persisted copy survives). */
 export function removeGuidanceState(workshopId: string): void {
-  getStore().stateByWorkshop.delete(workshopId);
+  const store = getStore();
+  store.stateByWorkshop.delete(workshopId);
+  store.versionByWorkshop.delete(workshopId);
+}
+
+/** Remove the guidance state for a workshop everywhere (cache + persisted). */
+export async function discardGuidanceState(workshopId: string): Promise<void> {
+  removeGuidanceState(workshopId);
+  await deleteLiveState(workshopId, 'guidance');
+}
+
+// ══════════════════════════════════════════════════════════
+// PERSISTENCE --crash recovery + write-through
+// ══════════════════════════════════════════════════════════
+
+const MAX_PERSIST_ATTEMPTS = 3;
+
+function cachePersisted(workshopId: string, state: GuidanceState, version: number): GuidanceState {
+  const store = getStore();
+  store.stateByWorkshop.set(workshopId, state);
+  store.versionByWorkshop.set(workshopId, version);
+  return state;
+}
+
+async function loadPersisted(workshopId: string): Promise<GuidanceState | null> {
+  try {
+    const persisted = await loadLiveState<GuidanceState>(workshopId, 'guidance');
+    const cached = getStore().stateByWorkshop.get(workshopId);
+    if (cached) return cached;
+    return persisted ? cachePersisted(workshopId, persisted.state, persisted.version) : null;
+  } catch (error) {
+    console.error('[GuidanceStore] Recovery failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Get the guidance state for a workshop, restoring it from the persisted
+ * copy if this process has not seen the session yet.
+ */
+export async function recoverGuidanceState(workshopId: string): Promise<GuidanceState | null> {
+  const store = getStore();
+  const cached = store.stateByWorkshop.get(workshopId);
+  if (cached) return cached;
+
+  let pending = store.recovering.get(workshopId);
+  if (!pending) {
+    pending = loadPersisted(workshopId).finally(() => store.recovering.delete(workshopId));
+    store.recovering.set(workshopId, pending);
+  }
+  return pending;
+}
+
+/**
+ * Write the cached guidance state through to the database. On a conflict the
+ * newer persisted state is adopted and `reapply` (if given) re-runs this
+ * caller's change on it before retrying; otherwise the other write wins.
+ */
+export function persistGuidanceState(
+  workshopId: string,
+  reapply?: (latest: GuidanceState) => void,
+): Promise<boolean> {
+  const store = getStore();
+  const previous = store.writes.get(workshopId) ?? Promise.resolve(true);
+  const write = previous.then(() => writeThrough(workshopId, reapply));
+  store.writes.set(workshopId, write);
+  void write.finally(() => {
+    if (store.writes.get(workshopId) === write) store.writes.delete(workshopId);
+  });
+  return write;
+}
+
+async function writeThrough(
+  workshopId: string,
+  reapply?: (latest: GuidanceState) => void,
+): Promise<boolean> {
+  const store = getStore();
+
+  for (let attempt = 0; attempt < MAX_PERSIST_ATTEMPTS; attempt++) {
+    const state = store.stateByWorkshop.get(workshopId);
+    if (!state) return false;
+
+    try {
+      const version = await saveLiveState(workshopId, 'guidance', state, {
+        expectedVersion: store.versionByWorkshop.get(workshopId) ?? 0,
+        // Agents bump pad counters without touching lastUpdatedAtMs; any write is activity
+        lastActivityMs: Date.now(),
+      });
+      store.versionByWorkshop.set(workshopId, version);
+      return true;
+    } catch (error) {
+      if (!(error instanceof LiveStateConflictError)) {
+        console.error('[GuidanceStore] Persist failed:', error);
+        return false;
+      }
+
+      try {
+        const latest = await loadLiveState<GuidanceState>(workshopId, 'guidance');
+        if (!latest) {
+          store.versionByWorkshop.delete(workshopId);
+          continue;
+        }
+        const fresh = cachePersisted(workshopId, latest.state, latest.version);
+        if (!reapply) {
+          console.warn(`[GuidanceStore] ${workshopId}: newer state from instance ${latest.instanceId} kept`);
+          return false;
+        }
+        reapply(fresh);
+      } catch (reloadError) {
+        console.error('[GuidanceStore] Reload after conflict failed:', reloadError);
+        return false;
+      }
+    }
+  }
+
+  console.warn(`[GuidanceStore] ${workshopId}: gave up after ${MAX_PERSIST_ATTEMPTS} conflicting writes`);
+  return false;
 }
 
 // ══════════════════════════════════════════════════════════
@@ -383,7 +516,7 @@ export function getSeedThemes(
 }
 
 // ── Periodic Cleanup ────────────────────────────────────────
-const STALE_THRESHOLD_MS = 2 * 60 * 60 * 1000;
+const STALE_THRESHOLD_MS = LIVE_STATE_TTL_MS;
 const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
 
 if (typeof setInterval !== 'undefined') {
@@ -393,6 +526,7 @@ if (typeof setInterval !== 'undefined') {
     for (const [id, state] of store.stateByWorkshop.entries()) {
       if (now - state.lastUpdatedAtMs > STALE_THRESHOLD_MS) {
         store.stateByWorkshop.delete(id);
+        store.versionByWorkshop.delete(id);
       }
     }
   }, CLEANUP_INTERVAL_MS);
@@ -0,0 +1,184 @@
+/**
+ * Live State Persistence — write-through DB copy of the in-memory stores
+ *
+ * state-store.ts (CognitiveState) and guidance-state.ts (GuidanceState) keep
+ * the hot copy in process memory. Every change is also written to
+ * live_cognition_states so a cold start, or a second instance, can recover
+ * the session on first access instead of starting from nothing.
+ *
+ * Concurrency is optimistic: each row carries a version and a write only
+ * lands if the writer saw the latest one. The loser gets a
+ * LiveStateConflictError and must reload before retrying.
+ *
+ * Rows expire LIVE_STATE_TTL_MS after their last activity — the same window
+ * the in-memory stores use for stale sessions.
+ *
+ * Sessions are addressed by session key: the workshop ID for the plenary, or
+ * liveSessionKey(workshopId, roomId) for a breakout room, which gets rows of
+ * its own under the same workshop.
+ */
+
+import { nanoid } from 'nanoid';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+export type LiveStateKind = 'cognitive' | 'guidance';
+
+export const LIVE_STATE_TTL_MS = 2 * 60 * 60 * 1000;
+
+/** Identifies this process on the rows it writes (see listLiveStates). */
+export const LIVE_STATE_INSTANCE_ID = nanoid(10);
+
+const ROOM_SEPARATOR = '~room:';
+
+/** Session key for a workshop's plenary (no room) or one of its breakout rooms. */
+export function liveSessionKey(workshopId: string, roomId?: string | null): string {
+  return roomId ? `${workshopId}${ROOM_SEPARATOR}${roomId}` : workshopId;
+}
+
+export function parseLiveSessionKey(sessionKey: string): { workshopId: string; roomId: string | null } {
+  const at = sessionKey.indexOf(ROOM_SEPARATOR);
+  if (at < 0) return { workshopId: sessionKey, roomId: null };
+  return { workshopId: sessionKey.slice(0, at), roomId: sessionKey.slice(at + ROOM_SEPARATOR.length) || null };
+}
+
+/** Row columns for a session key — the plenary is stored with roomId '' */
+function rowKey(sessionKey: string) {
+  const { workshopId, roomId } = parseLiveSessionKey(sessionKey);
+  return { workshopId, roomId: roomId ?? '' };
+}
+
+export class LiveStateConflictError extends Error {
+  constructor(
+    public readonly sessionKey: string,
+    public readonly kind: LiveStateKind,
+    public readonly expectedVersion: number,
+  ) {
+    super(`Live ${kind} state for session ${sessionKey} was written by another instance (expected version ${expectedVersion})`);
+    this.name = 'LiveStateConflictError';
+  }
+}
+
+export type PersistedLiveState<T> = {
+  state: T;
+  version: number;
+  instanceId: string | null;
+  lastActivityAt: Date;
+};
+
+export type LiveStateSummary = {
+  workshopId: string;
+  /** Breakout room, or null for the plenary session */
+  roomId: string | null;
+  kind: LiveStateKind;
+  version: number;
+  instanceId: string | null;
+  lastActivityAt: Date;
+};
+
+// ══════════════════════════════════════════════════════════════
+// READ
+// ══════════════════════════════════════════════════════════════
+
+/**
+ * Load the persisted state for a session. An expired row is evicted on the
+ * way out so the next write can start again from version 1.
+ */
+export async function loadLiveState<T>(
+  sessionKey: string,
+  kind: LiveStateKind,
+): Promise<PersistedLiveState<T> | null> {
+  const { workshopId, roomId } = rowKey(sessionKey);
+  const row = await prisma.liveCognitionState.findUnique({
+    where: { workshopId_kind_roomId: { workshopId, kind, roomId } },
+  });
+  if (!row) return null;
+
+  if (row.expiresAt.getTime() <= Date.now()) {
+    await prisma.liveCognitionState.deleteMany({ where: { workshopId, kind, roomId, version: row.version } });
+    return null;
+  }
+
+  return {
+    state: row.state as unknown as T,
+    version: row.version,
+    instanceId: row.instanceId,
+    lastActivityAt: row.lastActivityAt,
+  };
+}
+
+/**
+ * Persisted version of a session, or null if it has no unexpired row. Cheap
+ * enough to call before trusting a cached copy.
+ */
+export async function loadLiveStateVersion(sessionKey: string, kind: LiveStateKind): Promise<number | null> {
+  const { workshopId, roomId } = rowKey(sessionKey);
+  const row = await prisma.liveCognitionState.findUnique({
+    where: { workshopId_kind_roomId: { workshopId, kind, roomId } },
+    select: { version: true, expiresAt: true },
+  });
+  return row && row.expiresAt.getTime() > Date.now() ? row.version : null;
+}
+
+/** Unexpired sessions of one kind across every instance, most recent first. */
+export async function listLiveStates(kind: LiveStateKind): Promise<LiveStateSummary[]> {
+  const rows = await prisma.liveCognitionState.findMany({
+    where: { kind, expiresAt: { gt: new Date() } },
+    select: { workshopId: true, roomId: true, version: true, instanceId: true, lastActivityAt: true },
+    orderBy: { lastActivityAt: 'desc' },
+  });
+  return rows.map((row) => ({ ...row, roomId: row.roomId || null, kind }));
+}
+
+// ══════════════════════════════════════════════════════════════
+// WRITE
+// ══════════════════════════════════════════════════════════════
+
+/**
+ * Write `state` if the persisted row is still at `expectedVersion` (0 = no row
+ * yet). Returns the new version; throws LiveStateConflictError otherwise.
+ */
+export async function saveLiveState(
+  sessionKey: string,
+  kind: LiveStateKind,
+  state: unknown,
+  params: { expectedVersion: number; lastActivityMs: number },
+): Promise<number> {
+  const { workshopId, roomId } = rowKey(sessionKey);
+  const data = {
+    state: state as Prisma.InputJsonValue,
+    instanceId: LIVE_STATE_INSTANCE_ID,
+    lastActivityAt: new Date(params.lastActivityMs),
+    expiresAt: new Date(params.lastActivityMs + LIVE_STATE_TTL_MS),
+  };
+
+  if (params.expectedVersion === 0) {
+    const { count } = await prisma.liveCognitionState.createMany({
+      data: [{ workshopId, kind, roomId, version: 1, ...data }],
+      skipDuplicates: true,
+    });
+    if (count === 0) throw new LiveStateConflictError(sessionKey, kind, 0);
+    return 1;
+  }
+
+  const { count } = await prisma.liveCognitionState.updateMany({
+    where: { workshopId, kind, roomId, version: params.expectedVersion },
+    data: { ...data, version: { increment: 1 } },
+  });
+  if (count === 0) throw new LiveStateConflictError(sessionKey, kind, params.expectedVersion);
+  return params.expectedVersion + 1;
+}
+
+export async function deleteLiveState(sessionKey: string, kind?: LiveStateKind): Promise<void> {
+  await prisma.liveCognitionState.deleteMany({
+    where: { ...rowKey(sessionKey), ...(kind ? { kind } : {}) },
+  });
+}
+
+/** TTL eviction — called from the session cleanup cron. */
+export async function evictExpiredLiveStates(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.liveCognitionState.deleteMany({
+    where: { expiresAt: { lt: now } },
+  });
+  return count;
+}
@@ -43,6 +43,9 @@ export type SerializedCognitiveState = {
 
   processedUtteranceCount: number;
   lastProcessedAtMs: number | null;
+  // Optional so snapshots written before these fields existed still load
+  recentUtterances?: CognitiveState['recentUtterances'];
+  customDimensions?: CognitiveState['customDimensions'];
   createdAtMs: number;
   lastActivityMs: number;
 };
@@ -79,6 +82,8 @@ export function serializeCognitiveState(state: CognitiveState): SerializedCognit
 
     processedUtteranceCount: state.processedUtteranceCount,
     lastProcessedAtMs: state.lastProcessedAtMs,
+    recentUtterances: [...state.recentUtterances],
+    customDimensions: state.customDimensions,
     createdAtMs: state.createdAtMs,
     lastActivityMs: state.lastActivityMs,
   };
@@ -131,6 +136,8 @@ export function deserializeCognitiveState(data: SerializedCognitiveState): Cogni
   // Restore counters
   state.processedUtteranceCount = data.processedUtteranceCount;
   state.lastProcessedAtMs = data.lastProcessedAtMs;
+  state.recentUtterances = data.recentUtterances ?? [];
+  state.customDimensions = data.customDimensions ?? null;
   state.createdAtMs = data.createdAtMs;
   state.lastActivityMs = data.lastActivityMs;
 
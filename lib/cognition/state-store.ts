@@ -1,19 +1,51 @@
 /**
- * Cognitive State Store — globalThis-backed in-memory persistence
+ * Cognitive State Store — globalThis-backed cache with write-through persistence
  *
- * Same pattern as workshop-events.ts SSE store. Each workshop session
- * gets its own CognitiveState that persists across requests while the
- * serverless function stays warm.
+ * Each workshop session gets its own CognitiveState, held in memory while
+ * the serverless function stays warm. Changes are written through to
+ * live_cognition_states (live-state-persistence.ts), so a cold start or a
+ * second instance recovers beliefs, contradictions and stabilisation
+ * history on first access instead of starting over mid-workshop.
  *
- * On Vercel, a single live session routes to the same isolate during
- * active streaming, so this works for real-time capture.
+ * The synchronous accessors only see this process's cache; use
+ * recoverCognitiveState / loadOrCreateCognitiveState on request paths. Those
+ * re-check the persisted version at most every CACHE_FRESHNESS_MS and reload
+ * the cached copy when another instance has written since.
+ *
+ * Breakout rooms are separate sessions: pass liveSessionKey(workshopId,
+ * roomId) wherever a workshop ID is taken below.
  */
 
 import { CognitiveState, createCognitiveState } from './cognitive-state';
+import {
+  deserializeCognitiveState,
+  serializeCognitiveState,
+  type SerializedCognitiveState,
+} from './serialization';
+import {
+  LiveStateConflictError,
+  LIVE_STATE_INSTANCE_ID,
+  LIVE_STATE_TTL_MS,
+  deleteLiveState,
+  listLiveStates,
+  liveSessionKey,
+  loadLiveState,
+  loadLiveStateVersion,
+  parseLiveSessionKey,
+  saveLiveState,
+} from './live-state-persistence';
 
 // ── Store Shape ─────────────────────────────────────────────
 type CognitiveStore = {
   stateByWorkshop: Map<string, CognitiveState>;
+  // Persisted version each cached state corresponds to (absent = never persisted)
+  versionByWorkshop: Map<string, number>;
+  // When each cached state was last known to match the persisted version
+  checkedAt: Map<string, number>;
+  // In-flight recoveries, so concurrent first accesses share one DB read
+  recovering: Map<string, Promise<CognitiveState | null>>;
+  // Per-workshop write chain — in-process writes never race each other
+  writes: Map<string, Promise<boolean>>;
 };
 
 // ── Singleton Access ────────────────────────────────────────
@@ -22,6 +54,10 @@ function getStore(): CognitiveStore {
   if (!g.__dreamCognitiveStore) {
     g.__dreamCognitiveStore = {
       stateByWorkshop: new Map(),
+      versionByWorkshop: new Map(),
+      checkedAt: new Map(),
+      recovering: new Map(),
+      writes: new Map(),
     };
   }
   return g.__dreamCognitiveStore;
@@ -32,7 +68,9 @@ function getStore(): CognitiveStore {
 // ══════════════════════════════════════════════════════════════
 
 /**
- * Get the cognitive state for a workshop. Returns null if none exists.
+ * Get this process's cached cognitive state for a workshop, or null. No
+ * freshness check — use recoverCognitiveState where another instance may
+ * have written.
  */
 export function getCognitiveState(workshopId: string): CognitiveState | null {
   return getStore().stateByWorkshop.get(workshopId) ?? null;
@@ -62,28 +100,245 @@ export function getOrCreateCognitiveState(
 
 /**
  * Replace the cognitive state for a workshop (e.g. from snapshot restore).
+ * Call persistCognitiveState afterwards to make the replacement durable.
  */
 export function setCognitiveState(workshopId: string, state: CognitiveState): void {
   getStore().stateByWorkshop.set(workshopId, state);
 }
 
 /**
- * Remove the cognitive state for a workshop (cleanup).
+ * Drop the cached cognitive state for a workshop in this process only.
+ * The persisted copy survives — use discardCognitiveState to end the session.
  */
 export function removeCognitiveState(workshopId: string): void {
-  getStore().stateByWorkshop.delete(workshopId);
+  const store = getStore();
+  store.stateByWorkshop.delete(workshopId);
+  store.versionByWorkshop.delete(workshopId);
+  store.checkedAt.delete(workshopId);
 }
 
 /**
- * List all active workshop IDs with cognitive state.
+ * Remove the cognitive state for a workshop everywhere (cache + persisted).
  */
-export function listActiveSessions(): string[] {
-  return Array.from(getStore().stateByWorkshop.keys());
+export async function discardCognitiveState(workshopId: string): Promise<void> {
+  removeCognitiveState(workshopId);
+  await deleteLiveState(workshopId, 'cognitive');
+}
+
+export type ActiveCognitiveSession = {
+  workshopId: string;
+  /** Breakout room, or null for the plenary session */
+  roomId: string | null;
+  lastActivityMs: number;
+  /** Instance that last wrote the session (null if never persisted). */
+  instanceId: string | null;
+  /** True when this process also holds the session in memory. */
+  cachedLocally: boolean;
+};
+
+/**
+ * List active sessions across every instance: persisted sessions plus any
+ * held only in this process's memory (e.g. persistence unavailable).
+ * Served to platform admins by /api/admin/platform/live-sessions.
+ */
+export async function listActiveSessions(): Promise<ActiveCognitiveSession[]> {
+  const store = getStore();
+  const sessions = new Map<string, ActiveCognitiveSession>();
+
+  try {
+    for (const row of await listLiveStates('cognitive')) {
+      const key = liveSessionKey(row.workshopId, row.roomId);
+      sessions.set(key, {
+        workshopId: row.workshopId,
+        roomId: row.roomId,
+        lastActivityMs: row.lastActivityAt.getTime(),
+        instanceId: row.instanceId,
+        cachedLocally: store.stateByWorkshop.has(key),
+      });
+    }
+  } catch (error) {
+    console.error('[CognitiveStore] Failed to list persisted sessions:', error);
+  }
+
+  for (const [key, state] of store.stateByWorkshop.entries()) {
+    const persisted = sessions.get(key);
+    if (persisted) {
+      persisted.lastActivityMs = Math.max(persisted.lastActivityMs, state.lastActivityMs);
+    } else {
+      sessions.set(key, {
+        ...parseLiveSessionKey(key),
+        lastActivityMs: state.lastActivityMs,
+        instanceId: store.versionByWorkshop.has(key) ? LIVE_STATE_INSTANCE_ID : null,
+        cachedLocally: true,
+      });
+    }
+  }
+
+  return Array.from(sessions.values()).sort((a, b) => b.lastActivityMs - a.lastActivityMs);
+}
+
+// ══════════════════════════════════════════════════════════════
+// PERSISTENCE — crash recovery + write-through
+// ══════════════════════════════════════════════════════════════
+
+const MAX_PERSIST_ATTEMPTS = 3;
+/** How long a cached state is trusted before its persisted version is re-checked */
+const CACHE_FRESHNESS_MS = 2_000;
+
+function cachePersisted(workshopId: string, data: SerializedCognitiveState, version: number): CognitiveState {
+  const store = getStore();
+  const state = deserializeCognitiveState(data);
+  store.stateByWorkshop.set(workshopId, state);
+  store.versionByWorkshop.set(workshopId, version);
+  store.checkedAt.set(workshopId, Date.now());
+  return state;
+}
+
+async function loadPersisted(workshopId: string): Promise<CognitiveState | null> {
+  try {
+    const persisted = await loadLiveState<SerializedCognitiveState>(workshopId, 'cognitive');
+    // A fresh state may have been created while the read was in flight; keep it
+    // — its first write will conflict and pick up the persisted one.
+    const cached = getStore().stateByWorkshop.get(workshopId);
+    if (cached) return cached;
+    return persisted ? cachePersisted(workshopId, persisted.state, persisted.version) : null;
+  } catch (error) {
+    console.error('[CognitiveStore] Recovery failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Replace the cached state if another instance has persisted a newer version.
+ * Skipped while this process has a write in flight: that write's conflict
+ * handling reconciles the two, and reloading now would drop its change.
+ */
+async function refreshCached(workshopId: string, cached: CognitiveState): Promise<CognitiveState | null> {
+  const store = getStore();
+  try {
+    const version = await loadLiveStateVersion(workshopId, 'cognitive');
+    const cachedVersion = store.versionByWorkshop.get(workshopId) ?? 0;
+    if (version === null || version <= cachedVersion || store.writes.has(workshopId)) {
+      store.checkedAt.set(workshopId, Date.now());
+      return store.stateByWorkshop.get(workshopId) ?? null;
+    }
+    const latest = await loadLiveState<SerializedCognitiveState>(workshopId, 'cognitive');
+    if (!latest || store.stateByWorkshop.get(workshopId) !== cached || store.writes.has(workshopId)) {
+      return store.stateByWorkshop.get(workshopId) ?? null;
+    }
+    return cachePersisted(workshopId, latest.state, latest.version);
+  } catch (error) {
+    console.error('[CognitiveStore] Freshness check failed:', error);
+    return cached;
+  }
+}
+
+/**
+ * Get the cognitive state for a workshop, restoring it from the persisted
+ * copy if this process has not seen the session yet (cold start, failover)
+ * or another instance has written since it was cached.
+ */
+export async function recoverCognitiveState(workshopId: string): Promise<CognitiveState | null> {
+  const store = getStore();
+  const cached = store.stateByWorkshop.get(workshopId);
+  if (cached && Date.now() - (store.checkedAt.get(workshopId) ?? 0) < CACHE_FRESHNESS_MS) return cached;
+
+  let pending = store.recovering.get(workshopId);
+  if (!pending) {
+    pending = (cached ? refreshCached(workshopId, cached) : loadPersisted(workshopId))
+      .finally(() => store.recovering.delete(workshopId));
+    store.recovering.set(workshopId, pending);
+  }
+  return pending;
+}
+
+/**
+ * getOrCreateCognitiveState with crash recovery on first access.
+ */
+export async function loadOrCreateCognitiveState(
+  workshopId: string,
+  workshopGoal: string,
+  currentPhase: CognitiveState['currentPhase'] = 'REIMAGINE'
+): Promise<CognitiveState> {
+  await recoverCognitiveState(workshopId);
+  return getOrCreateCognitiveState(workshopId, workshopGoal, currentPhase);
+}
+
+/**
+ * Write the cached state for a workshop through to the database.
+ *
+ * If another instance wrote first, its state replaces the cached one and
+ * `reapply` re-runs this caller's change on top before retrying. Without
+ * `reapply` the other instance's write wins. Resolves false if nothing was
+ * written (conflict, retries exhausted or persistence unavailable).
+ */
+export function persistCognitiveState(
+  workshopId: string,
+  reapply?: (latest: CognitiveState) => void,
+): Promise<boolean> {
+  const store = getStore();
+  const previous = store.writes.get(workshopId) ?? Promise.resolve(true);
+  const write = previous.then(() => writeThrough(workshopId, reapply));
+  store.writes.set(workshopId, write);
+  void write.finally(() => {
+    if (store.writes.get(workshopId) === write) store.writes.delete(workshopId);
+  });
+  return write;
+}
+
+async function writeThrough(
+  workshopId: string,
+  reapply?: (latest: CognitiveState) => void,
+): Promise<boolean> {
+  const store = getStore();
+
+  for (let attempt = 0; attempt < MAX_PERSIST_ATTEMPTS; attempt++) {
+    const state = store.stateByWorkshop.get(workshopId);
+    if (!state) return false;
+
+    try {
+      const version = await saveLiveState(workshopId, 'cognitive', serializeCognitiveState(state), {
+        expectedVersion: store.versionByWorkshop.get(workshopId) ?? 0,
+        lastActivityMs: state.lastActivityMs,
+      });
+      store.versionByWorkshop.set(workshopId, version);
+      store.checkedAt.set(workshopId, Date.now());
+      return true;
+    } catch (error) {
+      if (!(error instanceof LiveStateConflictError)) {
+        console.error('[CognitiveStore] Persist failed:', error);
+        return false;
+      }
+
+      try {
+        const latest = await loadLiveState<SerializedCognitiveState>(workshopId, 'cognitive');
+        if (!latest) {
+          // Row expired or was discarded — write ours as a fresh session
+          store.versionByWorkshop.delete(workshopId);
+          store.checkedAt.delete(workshopId);
+          continue;
+        }
+        const fresh = cachePersisted(workshopId, latest.state, latest.version);
+        if (!reapply) {
+          console.warn(`[CognitiveStore] ${workshopId}: newer state from instance ${latest.instanceId} kept`);
+          return false;
+        }
+        reapply(fresh);
+      } catch (reloadError) {
+        console.error('[CognitiveStore] Reload after conflict failed:', reloadError);
+        return false;
+      }
+    }
+  }
+
+  console.warn(`[CognitiveStore] ${workshopId}: gave up after ${MAX_PERSIST_ATTEMPTS} conflicting writes`);
+  return false;
 }
 
 // ── Periodic Cleanup ────────────────────────────────────────
-// Remove stale sessions (no activity for 2 hours)
-const STALE_THRESHOLD_MS = 2 * 60 * 60 * 1000;
+// Remove stale sessions from memory (no activity within the persistence TTL).
+// Persisted rows expire on the same schedule — see evictExpiredLiveStates.
+const STALE_THRESHOLD_MS = LIVE_STATE_TTL_MS;
 const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
 
 if (typeof setInterval !== 'undefined') {
@@ -93,6 +348,8 @@ if (typeof setInterval !== 'undefined') {
     for (const [id, state] of store.stateByWorkshop.entries()) {
       if (now - state.lastActivityMs > STALE_THRESHOLD_MS) {
         store.stateByWorkshop.delete(id);
+        store.versionByWorkshop.delete(id);
+        store.checkedAt.delete(id);
       }
     }
   }, CLEANUP_INTERVAL_MS);
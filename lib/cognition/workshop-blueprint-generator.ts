@@ -166,7 +166,7 @@ function resolveJourneyTemplate(input: GeneratorInput): JourneyStageEntry[] | nu
   if (packKey && DOMAIN_JOURNEY_TEMPLATES[packKey]) return DOMAIN_JOURNEY_TEMPLATES[packKey];
   // Industry auto-resolve — only when no legacy pack key is set
   if (!input.domainPack) {
-    const industryPack = resolveIndustryPack(input.industry, input.engagementType, input.dreamTrack);
+    const industryPack = resolveIndustryPack(input.industry, input.engagementType, input.dreamTrack, input.tenantPacks);
     if (industryPack?.journeyStages?.length) {
       return industryPack.journeyStages.map((s) => ({
         name: s.label,
@@ -403,7 +403,7 @@ export function generateBlueprint(input: GeneratorInput): WorkshopBlueprint {
   // domainPack is null for all industry-pack workshops, so !input.domainPack is a
   // clean discriminator — no heuristics needed.
   const hasIndustryOverride = isAirlineContactCentreContext(input)
-    || (!input.domainPack && !!resolveIndustryPack(input.industry, input.engagementType, input.dreamTrack)?.journeyStages?.length);
+    || (!input.domainPack && !!resolveIndustryPack(input.industry, input.engagementType, input.dreamTrack, input.tenantPacks)?.journeyStages?.length);
 
   // Layer 2: Domain-specific journey stages (baseline for the domain pack)
   const journeyTemplate = resolveJourneyTemplate(input);
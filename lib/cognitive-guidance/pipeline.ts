@@ -201,6 +201,8 @@ export type Signal = {
   strength: number;
   nodeIds: string[];
   lenses: Lens[];
+  /** For metric_contradiction: evidence lines from the historical metrics analysis */
+  metricEvidence?: string[];
 };
 
 export type StickyPadType =
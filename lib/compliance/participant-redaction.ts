@@ -0,0 +1,225 @@
+/**
+ * Participant Redaction
+ *
+ * The single redaction layer every participant-derived output goes through
+ * (hemisphere, actor journeys, findings, participant reports, HTML/PDF/PPTX
+ * exports). It honours WorkshopParticipant.attributionPreference:
+ *
+ *   - ANONYMOUS participants are shown under a stable pseudonym built from
+ *     their role, e.g. "Operations Manager #2". Numbering follows the order
+ *     participants were added, so the same person gets the same pseudonym in
+ *     every output of a workshop.
+ *   - Their names are replaced by the pseudonym wherever they appear inside
+ *     free text, and participant email addresses are never shown.
+ *   - A role is only shown (as a label or a breakdown) when at least
+ *     minCohortSize() participants hold it, unless everyone in it chose to
+ *     be named. Smaller cohorts fall back to "Participant".
+ *
+ * The minimum cohort defaults to 3 and can be set per deployment with
+ * REPORT_MIN_COHORT_SIZE.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { decryptTenantRecords } from '@/lib/workshop-encryption';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RedactionParticipant {
+  id: string;
+  name: string;
+  email: string;
+  role: string | null;
+  department?: string | null;
+  attributionPreference: 'NAMED' | 'ANONYMOUS';
+}
+
+export interface ParticipantRedactor {
+  /** True when at least one participant asked to be anonymous */
+  readonly hasAnonymousParticipants: boolean;
+  /** Name to show for a participant: real name, or pseudonym when anonymous */
+  displayName(participantId: string | null | undefined): string;
+  /** Role label to show, or null when the role's cohort is too small */
+  roleLabel(role: string | null | undefined): string | null;
+  /** Role-level breakdown with under-sized cohorts merged into "Participant" */
+  roleBreakdown<T extends { role: string | null; count: number }>(rows: T[]): Array<{ role: string; count: number }>;
+  /** Replace anonymous participants' names and all email addresses in free text */
+  scrubText(text: string): string;
+  /**
+   * Deep-copy a JSON value with every string scrubbed. participantName,
+   * participantRole, roleCoverage and roleDistribution fields are mapped
+   * through displayName / roleLabel / roleBreakdown.
+   */
+  redact<T>(value: T): T;
+}
+
+export const ANONYMOUS_LABEL = 'Participant';
+export const EMAIL_PLACEHOLDER = '[email removed]';
+
+const DEFAULT_MIN_COHORT_SIZE = 3;
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+
+/** Name parts shorter than this are too ambiguous to scrub on their own */
+const MIN_NAME_PART_LENGTH = 3;
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** Smallest role cohort that may be shown, honouring REPORT_MIN_COHORT_SIZE */
+export function minCohortSize(): number {
+  const value = Number(process.env.REPORT_MIN_COHORT_SIZE);
+  return Number.isInteger(value) && value >= 1 ? value : DEFAULT_MIN_COHORT_SIZE;
+}
+
+// ---------------------------------------------------------------------------
+// Redactor
+// ---------------------------------------------------------------------------
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function roleKey(role: string | null | undefined): string {
+  return (role ?? '').trim().toLowerCase();
+}
+
+/**
+ * Build a redactor for one workshop's participants. Participants must be in
+ * the order they were added (createdAt asc) for pseudonyms to stay stable.
+ */
+export function createParticipantRedactor(
+  participants: RedactionParticipant[],
+  options: { minCohortSize?: number } = {},
+): ParticipantRedactor {
+  const minCohort = options.minCohortSize ?? minCohortSize();
+
+  // Cohorts per role: size, and whether anyone in it is anonymous
+  const cohorts = new Map<string, { size: number; anonymous: boolean }>();
+  for (const p of participants) {
+    const key = roleKey(p.role);
+    if (!key) continue;
+    const cohort = cohorts.get(key) ?? { size: 0, anonymous: false };
+    cohort.size += 1;
+    cohort.anonymous ||= p.attributionPreference === 'ANONYMOUS';
+    cohorts.set(key, cohort);
+  }
+
+  const isReportable = (role: string | null | undefined): boolean => {
+    const cohort = cohorts.get(roleKey(role));
+    if (!cohort) return false;
+    return cohort.size >= minCohort || !cohort.anonymous;
+  };
+
+  const roleLabel = (role: string | null | undefined): string | null => {
+    const trimmed = (role ?? '').trim();
+    if (!trimmed) return null;
+    // Roles not held by any participant (e.g. actors named by the AI) are not a cohort
+    if (!cohorts.has(roleKey(trimmed))) return trimmed;
+    return isReportable(trimmed) ? trimmed : null;
+  };
+
+  // Pseudonyms — numbered per label in participant order
+  const displayNames = new Map<string, string>();
+  const labelCounters = new Map<string, number>();
+  const nameReplacements: Array<{ pattern: RegExp; replacement: string }> = [];
+  for (const p of participants) {
+    if (p.attributionPreference !== 'ANONYMOUS') {
+      displayNames.set(p.id, p.name);
+      continue;
+    }
+    const label = roleLabel(p.role) ?? ANONYMOUS_LABEL;
+    const n = (labelCounters.get(label) ?? 0) + 1;
+    labelCounters.set(label, n);
+    const pseudonym = `${label} #${n}`;
+    displayNames.set(p.id, pseudonym);
+
+    const fullName = p.name.trim();
+    if (!fullName) continue;
+    nameReplacements.push({
+      pattern: new RegExp(`\\b${escapeRegExp(fullName)}\\b`, 'gi'),
+      replacement: pseudonym,
+    });
+    // Single name parts only match capitalised, so "Will" is scrubbed but "will" is not
+    for (const part of fullName.split(/\s+/)) {
+      if (part.length < MIN_NAME_PART_LENGTH || part === fullName) continue;
+      nameReplacements.push({
+        pattern: new RegExp(`\\b${escapeRegExp(part)}\\b`, 'g'),
+        replacement: pseudonym,
+      });
+    }
+  }
+  // Longest names first so "Sam Patel" wins over "Sam"
+  nameReplacements.sort((a, b) => b.pattern.source.length - a.pattern.source.length);
+
+  const byName = new Map<string, string>();
+  for (const p of participants) {
+    const display = displayNames.get(p.id);
+    if (display && p.name.trim()) byName.set(p.name.trim().toLowerCase(), display);
+  }
+
+  const scrubText = (text: string): string => {
+    let out = text.replace(EMAIL_PATTERN, EMAIL_PLACEHOLDER);
+    for (const { pattern, replacement } of nameReplacements) {
+      out = out.replace(pattern, replacement);
+    }
+    return out;
+  };
+
+  const displayName = (participantId: string | null | undefined): string =>
+    (participantId && displayNames.get(participantId)) || ANONYMOUS_LABEL;
+
+  const roleBreakdown = <T extends { role: string | null; count: number }>(rows: T[]) => {
+    const merged = new Map<string, number>();
+    for (const row of rows) {
+      const label = roleLabel(row.role) ?? ANONYMOUS_LABEL;
+      merged.set(label, (merged.get(label) ?? 0) + row.count);
+    }
+    return [...merged.entries()].map(([role, count]) => ({ role, count }));
+  };
+
+  const redactValue = (value: unknown, key?: string): unknown => {
+    if (typeof value === 'string') {
+      if (key === 'participantName') return byName.get(value.trim().toLowerCase()) ?? scrubText(value);
+      if (key === 'participantRole') return roleLabel(value);
+      return scrubText(value);
+    }
+    if (Array.isArray(value)) {
+      if (key === 'roleCoverage') {
+        return value.filter((r) => typeof r !== 'string' || roleLabel(r) !== null);
+      }
+      return value.map((item) => redactValue(item));
+    }
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      if (key === 'roleDistribution') {
+        const rows = Object.entries(value).map(([role, count]) => ({ role, count: Number(count) || 0 }));
+        return Object.fromEntries(roleBreakdown(rows).map((r) => [r.role, r.count]));
+      }
+      const out: Record<string, unknown> = {};
+      for (const [k, v] of Object.entries(value)) out[k] = redactValue(v, k);
+      return out;
+    }
+    return value;
+  };
+
+  return {
+    hasAnonymousParticipants: participants.some((p) => p.attributionPreference === 'ANONYMOUS'),
+    displayName,
+    roleLabel,
+    roleBreakdown,
+    scrubText,
+    redact: <T>(value: T) => redactValue(value) as T,
+  };
+}
+
+/** Load a workshop's participants and build its redactor */
+export async function loadParticipantRedactor(workshopId: string): Promise<ParticipantRedactor> {
+  const participants = await prisma.workshopParticipant.findMany({
+    where: { workshopId },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, name: true, email: true, role: true, department: true, attributionPreference: true },
+  });
+  return createParticipantRedactor(await decryptTenantRecords('workshopParticipant', participants));
+}
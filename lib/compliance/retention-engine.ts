@@ -0,0 +1,639 @@
+/**
+ * Retention Engine
+ *
+ * Applies retention policies (./retention-policies.ts) to every workshop's
+ * personal data: transcript chunks, capture audio in storage, evidence files,
+ * document chunks / embeddings and the realtime event outbox, plus
+ * platform-wide analytics events.
+ *
+ * Each workshop and data type resolves to a cutoff and an action:
+ *   - delete    — rows (and their storage objects) are removed
+ *   - anonymise — identifying content is replaced with a redaction marker;
+ *                 the row and its non-personal fields remain for analytics
+ *
+ * Only workshops whose organisation has a retention policy are considered;
+ * tenant data without a workshop or organisation rule is never touched.
+ *
+ * Workshops under legal hold (or in an organisation under legal hold) are
+ * reported but never touched. A dry run returns the same per-workshop report
+ * without changing anything. A real run is evidenced by one retention
+ * certificate per organisation — see issueRetentionCertificates().
+ *
+ * The cron drives a daily RetentionRun through advanceRetentionRun(), a
+ * bounded batch of workshops per invocation, so one request never has to
+ * purge every tenant. Each batch's entries are kept on the run, and the
+ * certificates are issued once the run completes.
+ *
+ * Conversation sessions and audit logs remain with enforceRetentionPolicy()
+ * in ./data-retention.ts.
+ */
+
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { deleteCaptureAudio } from '@/lib/storage';
+import { deleteEvidenceFile } from '@/lib/evidence/storage';
+import {
+  RETENTION_DATA_TYPES,
+  RETENTION_DATA_TYPE_SPECS,
+  resolveEffectivePolicy,
+  type EffectivePolicy,
+  type PolicyRule,
+  type RetentionAction,
+  type RetentionDataType,
+} from './retention-policies';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RetentionReportEntry {
+  organizationId: string | null;
+  workshopId: string | null;
+  dataType: RetentionDataType;
+  action: RetentionAction;
+  retentionDays: number;
+  policySource: EffectivePolicy['source'];
+  cutoff: string;
+  /** Rows past the cutoff — affected in a real run, would be in a dry run */
+  records: number;
+  /** Storage objects removed (real run) */
+  storageObjects: number;
+  held: boolean;
+  holdReason: string | null;
+  /** SHA-256 over the affected row ids, in processing order (real run only) */
+  recordDigest: string | null;
+}
+
+export interface RetentionEngineResult {
+  runId: string;
+  runAt: string;
+  dryRun: boolean;
+  /** Last workshop of a bounded batch — pass as afterWorkshopId to continue; null when done */
+  nextWorkshopId: string | null;
+  entries: RetentionReportEntry[];
+  totals: {
+    records: number;
+    heldRecords: number;
+    byDataType: Record<RetentionDataType, number>;
+  };
+  errors: string[];
+}
+
+export interface RetentionEngineOptions {
+  dryRun?: boolean;
+  /** Limit the run to one organisation (platform-scoped data is then skipped) */
+  organizationId?: string;
+  now?: Date;
+  /** Reuse an existing run's id, e.g. for each batch of a RetentionRun */
+  runId?: string;
+  /** Continue after this workshop; platform-scoped data only runs in the first batch */
+  afterWorkshopId?: string | null;
+  /** Stop after this many workshops and return nextWorkshopId */
+  maxWorkshops?: number;
+}
+
+export interface RetentionCertificateBody {
+  runId: string;
+  organizationId: string | null;
+  runAt: string;
+  entries: Array<Omit<RetentionReportEntry, 'held' | 'holdReason'>>;
+  totalRecords: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const BATCH_SIZE = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Workshops each cron invocation advances a RetentionRun by */
+const WORKSHOPS_PER_INVOCATION = 25;
+/** UTC hour from which each day's run may start */
+const RUN_HOUR_UTC = 2;
+
+/** Replaces personal content when a policy anonymises instead of deleting */
+export const REDACTED = '[redacted]';
+const ANONYMISED_ID = 'anonymised';
+
+// ---------------------------------------------------------------------------
+// Per data type handlers
+// ---------------------------------------------------------------------------
+
+interface PurgeOutcome {
+  records: number;
+  storageObjects: number;
+}
+
+interface DataTypeHandler {
+  /** Rows past the cutoff still to be processed by `action` */
+  where(workshopId: string | null, cutoff: Date, action: RetentionAction): Record<string, unknown>;
+  count(where: Record<string, unknown>): Promise<number>;
+  findIds(where: Record<string, unknown>, afterId: string | null): Promise<string[]>;
+  /** Apply the action to a batch; returns the ids actually processed */
+  apply(ids: string[], action: RetentionAction, errors: string[]): Promise<{ done: string[]; storageObjects: number }>;
+}
+
+/** Shared id-cursor pagination so rows skipped after a failure are not refetched */
+function idPage(where: Record<string, unknown>, afterId: string | null) {
+  return {
+    where: afterId ? { AND: [where, { id: { gt: afterId } }] } : where,
+    select: { id: true },
+    orderBy: { id: 'asc' as const },
+    take: BATCH_SIZE,
+  };
+}
+
+const HANDLERS: Record<RetentionDataType, DataTypeHandler> = {
+  transcript_chunks: {
+    where: (workshopId, cutoff, action) => ({
+      workshopId,
+      createdAt: { lt: cutoff },
+      ...(action === 'anonymise' ? { NOT: { text: { startsWith: REDACTED } } } : {}),
+    }),
+    count: (where) => prisma.transcriptChunk.count({ where }),
+    findIds: async (where, afterId) => (await prisma.transcriptChunk.findMany(idPage(where, afterId))).map((r) => r.id),
+    apply: async (ids, action) => {
+      if (action === 'delete') {
+        // Data points copy the chunk text — they go with it
+        await prisma.$transaction([
+          prisma.dataPoint.deleteMany({ where: { transcriptChunkId: { in: ids } } }),
+          prisma.transcriptChunk.deleteMany({ where: { id: { in: ids } } }),
+        ]);
+      } else {
+        await prisma.$transaction([
+          prisma.dataPoint.updateMany({
+            where: { transcriptChunkId: { in: ids } },
+            data: { rawText: REDACTED, originalText: null, speakerId: null },
+          }),
+          // The id suffix keeps (workshopId, startTimeMs, text) unique
+          ...ids.map((id) =>
+            prisma.transcriptChunk.update({
+              where: { id },
+              data: { text: `${REDACTED} ${id}`, speakerId: null, metadata: Prisma.DbNull },
+            }),
+          ),
+        ]);
+      }
+      return { done: ids, storageObjects: 0 };
+    },
+  },
+
+  capture_audio: {
+    where: (workshopId, cutoff) => ({
+      captureSession: { workshopId },
+      audioReference: { not: null },
+      createdAt: { lt: cutoff },
+    }),
+    count: (where) => prisma.captureSegment.count({ where }),
+    findIds: async (where, afterId) => (await prisma.captureSegment.findMany(idPage(where, afterId))).map((r) => r.id),
+    apply: async (ids, _action, errors) => {
+      const segments = await prisma.captureSegment.findMany({
+        where: { id: { in: ids } },
+        select: { id: true, audioReference: true },
+      });
+      const done: string[] = [];
+      for (const segment of segments) {
+        try {
+          await deleteCaptureAudio(segment.audioReference!);
+        } catch (error) {
+          // Keep the reference so the next run retries the object
+          errors.push(`capture_audio ${segment.id}: ${error instanceof Error ? error.message : String(error)}`);
+          continue;
+        }
+        done.push(segment.id);
+      }
+      if (done.length > 0) {
+        await prisma.captureSegment.updateMany({ where: { id: { in: done } }, data: { audioReference: null } });
+      }
+      return { done, storageObjects: done.length };
+    },
+  },
+
+  evidence_documents: {
+    where: (workshopId, cutoff, action) => ({
+      workshopId,
+      createdAt: { lt: cutoff },
+      ...(action === 'anonymise' ? { NOT: { originalFileName: REDACTED } } : {}),
+    }),
+    count: (where) => prisma.evidenceDocument.count({ where }),
+    findIds: async (where, afterId) => (await prisma.evidenceDocument.findMany(idPage(where, afterId))).map((r) => r.id),
+    apply: async (ids, action, errors) => {
+      const docs = await prisma.evidenceDocument.findMany({
+        where: { id: { in: ids } },
+        select: { id: true, workshopId: true, storageKey: true },
+      });
+      const done: string[] = [];
+      let storageObjects = 0;
+      for (const doc of docs) {
+        try {
+          if (doc.storageKey) {
+            await deleteEvidenceFile(doc.storageKey);
+            storageObjects++;
+          }
+        } catch (error) {
+          errors.push(`evidence_documents ${doc.id}: ${error instanceof Error ? error.message : String(error)}`);
+          continue;
+        }
+        // Extracted text chunks hold the raw document content
+        await prisma.documentChunk.deleteMany({
+          where: { workshopId: doc.workshopId, storageKey: `evidence/${doc.workshopId}/${doc.id}` },
+        });
+        if (action === 'delete') {
+          await prisma.evidenceDocument.delete({ where: { id: doc.id } });
+        } else {
+          await prisma.evidenceDocument.update({
+            where: { id: doc.id },
+            data: { originalFileName: REDACTED, storageKey: '', excerpts: Prisma.DbNull },
+          });
+        }
+        done.push(doc.id);
+      }
+      return { done, storageObjects };
+    },
+  },
+
+  document_chunks: {
+    where: (workshopId, cutoff, action) => ({
+      workshopId,
+      createdAt: { lt: cutoff },
+      ...(action === 'anonymise' ? { NOT: { content: REDACTED } } : {}),
+    }),
+    count: (where) => prisma.documentChunk.count({ where }),
+    findIds: async (where, afterId) => (await prisma.documentChunk.findMany(idPage(where, afterId))).map((r) => r.id),
+    apply: async (ids, action) => {
+      if (action === 'delete') {
+        await prisma.documentChunk.deleteMany({ where: { id: { in: ids } } });
+      } else {
+        // embedding is an Unsupported("vector") column — not writable through the client
+        await prisma.$executeRaw`
+          UPDATE document_chunks SET content = ${REDACTED}, embedding = NULL
+          WHERE id IN (${Prisma.join(ids)})
+        `;
+      }
+      return { done: ids, storageObjects: 0 };
+    },
+  },
+
+  analytics_events: {
+    where: (_workshopId, cutoff, action) => ({
+      createdAt: { lt: cutoff },
+      ...(action === 'anonymise' ? { NOT: { visitorId: ANONYMISED_ID } } : {}),
+    }),
+    count: (where) => prisma.analyticsEvent.count({ where }),
+    findIds: async (where, afterId) => (await prisma.analyticsEvent.findMany(idPage(where, afterId))).map((r) => r.id),
+    apply: async (ids, action) => {
+      if (action === 'delete') {
+        await prisma.analyticsEvent.deleteMany({ where: { id: { in: ids } } });
+      } else {
+        await prisma.analyticsEvent.updateMany({
+          where: { id: { in: ids } },
+          data: { visitorId: ANONYMISED_ID, sessionId: ANONYMISED_ID, referrer: null, country: null },
+        });
+      }
+      return { done: ids, storageObjects: 0 };
+    },
+  },
+
+  workshop_event_outbox: {
+    where: (workshopId, cutoff) => ({ workshopId, createdAt: { lt: cutoff } }),
+    count: (where) => prisma.workshopEventOutbox.count({ where }),
+    findIds: async (where, afterId) => (await prisma.workshopEventOutbox.findMany(idPage(where, afterId))).map((r) => r.id),
+    apply: async (ids) => {
+      await prisma.workshopEventOutbox.deleteMany({ where: { id: { in: ids } } });
+      return { done: ids, storageObjects: 0 };
+    },
+  },
+};
+
+async function purge(
+  handler: DataTypeHandler,
+  where: Record<string, unknown>,
+  action: RetentionAction,
+  errors: string[],
+): Promise<PurgeOutcome & { recordDigest: string }> {
+  const hash = crypto.createHash('sha256');
+  let records = 0;
+  let storageObjects = 0;
+  let afterId: string | null = null;
+
+  for (;;) {
+    const ids = await handler.findIds(where, afterId);
+    if (ids.length === 0) break;
+
+    const result = await handler.apply(ids, action, errors);
+    for (const id of result.done) hash.update(`${id}\n`);
+    records += result.done.length;
+    storageObjects += result.storageObjects;
+
+    afterId = ids[ids.length - 1];
+    if (ids.length < BATCH_SIZE) break;
+  }
+
+  return { records, storageObjects, recordDigest: hash.digest('hex') };
+}
+
+// ---------------------------------------------------------------------------
+// Engine
+// ---------------------------------------------------------------------------
+
+/**
+ * Run every retention policy. Returns one report entry per workshop and data
+ * type with records past the cutoff (held entries included).
+ */
+export async function runRetentionEngine(options: RetentionEngineOptions = {}): Promise<RetentionEngineResult> {
+  const dryRun = options.dryRun ?? false;
+  const now = options.now ?? new Date();
+  const runId = options.runId ?? crypto.randomUUID();
+  const afterWorkshopId = options.afterWorkshopId ?? null;
+  const entries: RetentionReportEntry[] = [];
+  const errors: string[] = [];
+
+  const rules = await prisma.retentionPolicy.findMany({
+    where: options.organizationId ? { organizationId: options.organizationId } : {},
+    select: { organizationId: true, workshopId: true, dataType: true, retentionDays: true, action: true },
+  });
+  const rulesByOrg = new Map<string, PolicyRule[]>();
+  for (const rule of rules) {
+    rulesByOrg.set(rule.organizationId, [...(rulesByOrg.get(rule.organizationId) ?? []), rule]);
+  }
+
+  const workshops = rulesByOrg.size === 0 ? [] : await prisma.workshop.findMany({
+    where: {
+      // Example workshops are shared demo content, not tenant personal data
+      isExample: false,
+      organizationId: { in: [...rulesByOrg.keys()] },
+      ...(afterWorkshopId ? { id: { gt: afterWorkshopId } } : {}),
+    },
+    select: {
+      id: true,
+      organizationId: true,
+      legalHoldAt: true,
+      legalHoldReason: true,
+      organization: { select: { legalHoldAt: true, legalHoldReason: true } },
+    },
+    orderBy: { id: 'asc' },
+    ...(options.maxWorkshops ? { take: options.maxWorkshops } : {}),
+  });
+  const nextWorkshopId =
+    options.maxWorkshops && workshops.length === options.maxWorkshops ? workshops[workshops.length - 1].id : null;
+
+  const targets: Array<{
+    organizationId: string | null;
+    workshopId: string | null;
+    dataType: RetentionDataType;
+    policy: EffectivePolicy;
+    holdReason: string | null;
+    held: boolean;
+  }> = [];
+
+  for (const workshop of workshops) {
+    const heldAt = workshop.legalHoldAt ?? workshop.organization.legalHoldAt;
+    const holdReason = workshop.legalHoldAt ? workshop.legalHoldReason : workshop.organization.legalHoldReason;
+    for (const dataType of RETENTION_DATA_TYPES) {
+      if (RETENTION_DATA_TYPE_SPECS[dataType].scope !== 'workshop') continue;
+      const policy = resolveEffectivePolicy(dataType, rulesByOrg.get(workshop.organizationId) ?? [], workshop.id);
+      if (!policy) continue;
+      targets.push({
+        organizationId: workshop.organizationId,
+        workshopId: workshop.id,
+        dataType,
+        policy,
+        held: heldAt !== null,
+        holdReason: heldAt !== null ? holdReason : null,
+      });
+    }
+  }
+  if (!options.organizationId && !afterWorkshopId) {
+    for (const dataType of RETENTION_DATA_TYPES) {
+      if (RETENTION_DATA_TYPE_SPECS[dataType].scope !== 'platform') continue;
+      const policy = resolveEffectivePolicy(dataType, [], null);
+      if (!policy) continue;
+      targets.push({ organizationId: null, workshopId: null, dataType, policy, held: false, holdReason: null });
+    }
+  }
+
+  for (const target of targets) {
+    const { policy } = target;
+    const handler = HANDLERS[target.dataType];
+    const cutoff = new Date(now.getTime() - policy.retentionDays * DAY_MS);
+    const where = handler.where(target.workshopId, cutoff, policy.action);
+
+    try {
+      const pending = await handler.count(where);
+      if (pending === 0) continue;
+
+      const entry: RetentionReportEntry = {
+        organizationId: target.organizationId,
+        workshopId: target.workshopId,
+        dataType: target.dataType,
+        action: policy.action,
+        retentionDays: policy.retentionDays,
+        policySource: policy.source,
+        cutoff: cutoff.toISOString(),
+        records: pending,
+        storageObjects: 0,
+        held: target.held,
+        holdReason: target.holdReason,
+        recordDigest: null,
+      };
+
+      if (!dryRun && !target.held) {
+        const outcome = await purge(handler, where, policy.action, errors);
+        entry.records = outcome.records;
+        entry.storageObjects = outcome.storageObjects;
+        entry.recordDigest = outcome.recordDigest;
+      }
+      entries.push(entry);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(`${target.dataType} ${target.workshopId ?? 'platform'}: ${message}`);
+      console.error(`[retention] ${target.dataType} failed for ${target.workshopId ?? 'platform'}:`, error);
+    }
+  }
+
+  const byDataType = Object.fromEntries(RETENTION_DATA_TYPES.map((t) => [t, 0])) as Record<RetentionDataType, number>;
+  let records = 0;
+  let heldRecords = 0;
+  for (const entry of entries) {
+    if (entry.held) {
+      heldRecords += entry.records;
+    } else {
+      records += entry.records;
+      byDataType[entry.dataType] += entry.records;
+    }
+  }
+
+  return {
+    runId,
+    runAt: now.toISOString(),
+    dryRun,
+    nextWorkshopId,
+    entries,
+    totals: { records, heldRecords, byDataType },
+    errors,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Runs
+// ---------------------------------------------------------------------------
+
+export type RetentionRun = Prisma.RetentionRunGetPayload<true>;
+
+/** Start of the current daily run window, RUN_HOUR_UTC today or yesterday */
+function currentRunWindow(now: Date): Date {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), RUN_HOUR_UTC));
+  return start > now ? new Date(start.getTime() - DAY_MS) : start;
+}
+
+/**
+ * The run this cron invocation should advance: the unfinished one, or a new
+ * one when none has started in the current daily window. Null when today's
+ * run is already complete.
+ */
+export async function claimRetentionRun(now = new Date()): Promise<{ run: RetentionRun; started: boolean } | null> {
+  const running = await prisma.retentionRun.findFirst({ where: { status: 'running' }, orderBy: { startedAt: 'asc' } });
+  if (running) return { run: running, started: false };
+
+  const latest = await prisma.retentionRun.findFirst({ orderBy: { startedAt: 'desc' }, select: { startedAt: true } });
+  if (latest && latest.startedAt >= currentRunWindow(now)) return null;
+
+  return { run: await prisma.retentionRun.create({ data: { startedAt: now } }), started: true };
+}
+
+type CertificateEntry = RetentionCertificateBody['entries'][number];
+
+/** Entries a certificate records: what a real run actually changed */
+function certificateEntries(result: RetentionEngineResult): CertificateEntry[] {
+  if (result.dryRun) return [];
+  return result.entries
+    .filter((entry) => !entry.held && entry.records > 0)
+    .map(({ held: _held, holdReason: _holdReason, ...rest }) => rest);
+}
+
+/**
+ * Apply retention to the run's next batch of workshops, move its cursor and
+ * add the batch's entries to the run for its certificates. Cutoffs are taken
+ * from the run's start, so every batch of a run purges up to the same point
+ * in time.
+ */
+export async function advanceRetentionRun(
+  run: RetentionRun,
+): Promise<{ run: RetentionRun; result: RetentionEngineResult }> {
+  const result = await runRetentionEngine({
+    now: run.startedAt,
+    runId: run.id,
+    afterWorkshopId: run.cursor,
+    maxWorkshops: WORKSHOPS_PER_INVOCATION,
+  });
+  const updated = await prisma.retentionRun.update({
+    where: { id: run.id },
+    data: {
+      cursor: result.nextWorkshopId,
+      recordsProcessed: { increment: result.totals.records },
+      entries: [
+        ...(run.entries as unknown as CertificateEntry[]),
+        ...certificateEntries(result),
+      ] as unknown as Prisma.InputJsonValue,
+      ...(result.nextWorkshopId === null ? { status: 'completed', completedAt: new Date() } : {}),
+    },
+  });
+  return { run: updated, result };
+}
+
+// ---------------------------------------------------------------------------
+// Certificates
+// ---------------------------------------------------------------------------
+
+/** JSON with object keys sorted — stable across the JSONB round trip */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function certificateDigest(body: RetentionCertificateBody, previousDigest: string | null): string {
+  return crypto.createHash('sha256').update(canonicalJson({ ...body, previousDigest })).digest('hex');
+}
+
+/**
+ * Persist one certificate per organisation for a completed run, covering all
+ * of its batches. Each certificate chains to the organisation's previous one
+ * by sequence, so a removed or edited certificate breaks verification of
+ * every later one. Organisations already certified for the run are skipped,
+ * so a retry after a partial failure does not issue twice.
+ */
+export async function issueRetentionCertificates(run: RetentionRun) {
+  if (run.status !== 'completed') return [];
+
+  const byOrg = new Map<string | null, CertificateEntry[]>();
+  for (const entry of run.entries as unknown as CertificateEntry[]) {
+    byOrg.set(entry.organizationId, [...(byOrg.get(entry.organizationId) ?? []), entry]);
+  }
+
+  const certificates = [];
+  for (const [organizationId, entries] of byOrg) {
+    const issued = await prisma.retentionCertificate.findFirst({
+      where: { runId: run.id, organizationId },
+      select: { id: true },
+    });
+    if (issued) continue;
+
+    const body: RetentionCertificateBody = {
+      runId: run.id,
+      organizationId,
+      runAt: run.startedAt.toISOString(),
+      entries,
+      totalRecords: entries.reduce((sum, e) => sum + e.records, 0),
+    };
+    const previous = await prisma.retentionCertificate.findFirst({
+      where: { organizationId },
+      orderBy: { sequence: 'desc' },
+      select: { digest: true, sequence: true },
+    });
+    const previousDigest = previous?.digest ?? null;
+
+    // (organizationId, sequence) is unique: a concurrent issuer fails here instead of forking the chain
+    certificates.push(
+      await prisma.retentionCertificate.create({
+        data: {
+          runId: body.runId,
+          organizationId,
+          sequence: (previous?.sequence ?? 0) + 1,
+          entries: body.entries as unknown as Prisma.InputJsonValue,
+          totalRecords: body.totalRecords,
+          digest: certificateDigest(body, previousDigest),
+          previousDigest,
+          issuedAt: run.startedAt,
+        },
+      }),
+    );
+  }
+  return certificates;
+}
+
+/** Recompute a stored certificate's digest — false means it was altered */
+export function verifyRetentionCertificate(certificate: {
+  runId: string;
+  organizationId: string | null;
+  entries: unknown;
+  totalRecords: number;
+  digest: string;
+  previousDigest: string | null;
+  issuedAt: Date;
+}): boolean {
+  const body: RetentionCertificateBody = {
+    runId: certificate.runId,
+    organizationId: certificate.organizationId,
+    runAt: certificate.issuedAt.toISOString(),
+    entries: certificate.entries as RetentionCertificateBody['entries'],
+    totalRecords: certificate.totalRecords,
+  };
+  return certificateDigest(body, certificate.previousDigest) === certificate.digest;
+}
@@ -0,0 +1,209 @@
+/**
+ * Retention Policies
+ *
+ * Per-organisation and per-workshop retention rules for each personal-data
+ * type the retention engine (./retention-engine.ts) purges. Resolution order
+ * for a workshop: workshop rule → organisation rule. Tenant data with neither
+ * is left alone — it stays under the contractual retention agreed with the
+ * tenant until an admin sets a policy.
+ *
+ * Platform-scoped data (no organisation) uses a platform default, which can be
+ * overridden per deployment with RETENTION_<DATA_TYPE>_DAYS, e.g.
+ * RETENTION_ANALYTICS_EVENTS_DAYS=365.
+ *
+ * Legal holds (Organization/Workshop.legalHoldAt) exempt data from every
+ * purge until released.
+ */
+
+import { prisma } from '@/lib/prisma';
+
+// ---------------------------------------------------------------------------
+// Data types
+// ---------------------------------------------------------------------------
+
+export const RETENTION_DATA_TYPES = [
+  'transcript_chunks',
+  'capture_audio',
+  'evidence_documents',
+  'document_chunks',
+  'analytics_events',
+  'workshop_event_outbox',
+] as const;
+
+export type RetentionDataType = (typeof RETENTION_DATA_TYPES)[number];
+
+export type RetentionAction = 'delete' | 'anonymise';
+
+export interface RetentionDataTypeSpec {
+  label: string;
+  /** Platform default — null for tenant data, which is only purged by a policy */
+  defaultDays: number | null;
+  /** Actions a policy may choose — some data cannot be meaningfully anonymised */
+  actions: readonly RetentionAction[];
+  /** 'platform' data has no organisation (marketing analytics) — defaults only */
+  scope: 'workshop' | 'platform';
+}
+
+export const RETENTION_DATA_TYPE_SPECS: Record<RetentionDataType, RetentionDataTypeSpec> = {
+  transcript_chunks: { label: 'Live transcript text', defaultDays: null, actions: ['delete', 'anonymise'], scope: 'workshop' },
+  capture_audio: { label: 'Field capture audio files', defaultDays: null, actions: ['delete'], scope: 'workshop' },
+  evidence_documents: { label: 'Uploaded evidence files', defaultDays: null, actions: ['delete', 'anonymise'], scope: 'workshop' },
+  document_chunks: { label: 'Document text and embeddings', defaultDays: null, actions: ['delete', 'anonymise'], scope: 'workshop' },
+  analytics_events: { label: 'Site analytics events', defaultDays: 730, actions: ['delete', 'anonymise'], scope: 'platform' },
+  // Cleared hourly by /api/cron/outbox-cleanup; a policy can only shorten that
+  workshop_event_outbox: { label: 'Realtime event outbox', defaultDays: null, actions: ['delete'], scope: 'workshop' },
+};
+
+export function isRetentionDataType(value: string): value is RetentionDataType {
+  return (RETENTION_DATA_TYPES as readonly string[]).includes(value);
+}
+
+/** Platform default in days, honouring RETENTION_<DATA_TYPE>_DAYS; null for tenant data */
+export function defaultRetentionDays(dataType: RetentionDataType): number | null {
+  if (RETENTION_DATA_TYPE_SPECS[dataType].scope !== 'platform') return null;
+  const value = process.env[`RETENTION_${dataType.toUpperCase()}_DAYS`];
+  if (value !== undefined) {
+    const parsed = Number(value);
+    if (Number.isInteger(parsed) && parsed > 0) return parsed;
+  }
+  return RETENTION_DATA_TYPE_SPECS[dataType].defaultDays;
+}
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+export class RetentionPolicyError extends Error {
+  constructor(message: string, readonly status: 400 | 404 = 400) {
+    super(message);
+    this.name = 'RetentionPolicyError';
+  }
+}
+
+export interface PolicyRule {
+  workshopId: string | null;
+  dataType: string;
+  retentionDays: number;
+  action: string;
+}
+
+export interface EffectivePolicy {
+  dataType: RetentionDataType;
+  retentionDays: number;
+  action: RetentionAction;
+  source: 'workshop' | 'organization' | 'default';
+}
+
+/**
+ * The policy that applies to `dataType` in a workshop, given the owning
+ * organisation's rules. Pass workshopId null for organisation-level data.
+ * Null means nothing applies and the data must not be touched.
+ */
+export function resolveEffectivePolicy(
+  dataType: RetentionDataType,
+  rules: PolicyRule[],
+  workshopId: string | null,
+): EffectivePolicy | null {
+  const forType = rules.filter((r) => r.dataType === dataType);
+  const workshopRule = workshopId ? forType.find((r) => r.workshopId === workshopId) : undefined;
+  const orgRule = forType.find((r) => r.workshopId === null);
+  const rule = workshopRule ?? orgRule;
+
+  if (!rule) {
+    const retentionDays = defaultRetentionDays(dataType);
+    return retentionDays === null ? null : { dataType, retentionDays, action: 'delete', source: 'default' };
+  }
+  return {
+    dataType,
+    retentionDays: rule.retentionDays,
+    action: rule.action === 'anonymise' ? 'anonymise' : 'delete',
+    source: workshopRule ? 'workshop' : 'organization',
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Policy CRUD
+// ---------------------------------------------------------------------------
+
+export async function listRetentionPolicies(organizationId: string) {
+  return prisma.retentionPolicy.findMany({
+    where: { organizationId },
+    orderBy: [{ workshopId: 'asc' }, { dataType: 'asc' }],
+    include: { workshop: { select: { id: true, name: true } } },
+  });
+}
+
+export async function upsertRetentionPolicy(
+  organizationId: string,
+  input: { workshopId?: string | null; dataType: string; retentionDays: number; action: RetentionAction },
+  createdById?: string,
+) {
+  if (!isRetentionDataType(input.dataType)) {
+    throw new RetentionPolicyError(`Unknown data type: ${input.dataType}`);
+  }
+  const spec = RETENTION_DATA_TYPE_SPECS[input.dataType];
+  if (spec.scope === 'platform') {
+    throw new RetentionPolicyError(`${spec.label} are not organisation data and use the platform default`);
+  }
+  if (!spec.actions.includes(input.action)) {
+    throw new RetentionPolicyError(`${spec.label} support: ${spec.actions.join(', ')}`);
+  }
+
+  const workshopId = input.workshopId ?? null;
+  if (workshopId) {
+    const workshop = await prisma.workshop.findFirst({
+      where: { id: workshopId, organizationId },
+      select: { id: true },
+    });
+    if (!workshop) throw new RetentionPolicyError('Workshop not found', 404);
+  }
+
+  const existing = await prisma.retentionPolicy.findFirst({
+    where: { organizationId, workshopId, dataType: input.dataType },
+    select: { id: true },
+  });
+  const data = { retentionDays: input.retentionDays, action: input.action };
+
+  if (existing) {
+    return prisma.retentionPolicy.update({ where: { id: existing.id }, data });
+  }
+  return prisma.retentionPolicy.create({
+    data: { organizationId, workshopId, dataType: input.dataType, createdById: createdById ?? null, ...data },
+  });
+}
+
+export async function deleteRetentionPolicy(organizationId: string, policyId: string): Promise<void> {
+  const result = await prisma.retentionPolicy.deleteMany({ where: { id: policyId, organizationId } });
+  if (result.count === 0) throw new RetentionPolicyError('Retention policy not found', 404);
+}
+
+// ---------------------------------------------------------------------------
+// Legal holds
+// ---------------------------------------------------------------------------
+
+/**
+ * Place or release a legal hold on an organisation, or on one of its
+ * workshops when workshopId is given.
+ */
+export async function setLegalHold(
+  organizationId: string,
+  input: { workshopId?: string | null; hold: boolean; reason?: string | null },
+): Promise<{ legalHoldAt: Date | null; legalHoldReason: string | null }> {
+  const data = input.hold
+    ? { legalHoldAt: new Date(), legalHoldReason: input.reason ?? null }
+    : { legalHoldAt: null, legalHoldReason: null };
+  const select = { legalHoldAt: true, legalHoldReason: true } as const;
+
+  if (input.workshopId) {
+    const result = await prisma.workshop.updateMany({
+      where: { id: input.workshopId, organizationId },
+      data,
+    });
+    if (result.count === 0) throw new RetentionPolicyError('Workshop not found', 404);
+    return data;
+  }
+
+  const org = await prisma.organization.findUnique({ where: { id: organizationId }, select: { id: true } });
+  if (!org) throw new RetentionPolicyError('Organization not found', 404);
+  return prisma.organization.update({ where: { id: organizationId }, data, select });
+}
@@ -0,0 +1,116 @@
+import type { DiscoveryLocalePack } from '@/lib/conversation/question-localisation';
+
+/**
+ * German discovery question pack.
+ *
+ * Index-aligned with FIXED_QUESTIONS — entry N of each phase translates
+ * question N, including its maturity scale. Uses the formal "Sie".
+ */
+export const DE: DiscoveryLocalePack = {
+  questions: {
+    intro: [
+      { text: 'Bitte beschreiben Sie Ihre Rolle, wie lange Sie schon in der Organisation sind und womit Sie den Großteil Ihrer Zeit verbringen.' },
+      { text: 'Was ist das Beste an der Arbeit hier? Was motiviert Sie?' },
+      { text: 'Und was ist das Frustrierendste?' },
+    ],
+    people: [
+      {
+        text:
+          'Bezogen speziell auf Menschen: Geben Sie an, wo das Unternehmen Ihrer Meinung nach heute steht, wo es stehen sollte und wo es stehen wird, wenn sich nichts ändert.\n\nBewerten Sie, wie gut Sie und Ihre Kollegen ausgestattet sind, um Ihre Arbeit effektiv zu erledigen',
+        maturityScale: [
+          'Überall Kompetenzlücken. Häufige Kündigungen. Teams reden nicht miteinander.',
+          'Rollen definiert, aber verwirrende Überschneidungen. Einige Schulungen vorhanden. Zusammenarbeit nur auf Druck.',
+          'Klare Erwartungen und Entwicklungspfade. Teamübergreifende Zusammenarbeit. Lernen wird gefördert.',
+          'Proaktive Kompetenzplanung. KI hilft bei Routinearbeit. Kontinuierliches Lernen ist normal.',
+          'Menschen und KI arbeiten nahtlos zusammen. Menschen konzentrieren sich auf Urteilsvermögen und Beziehungen.',
+        ],
+      },
+      { text: 'Was hilft Ihnen, hier Ihre beste Arbeit zu leisten? Denken Sie an eine konkrete Situation, in der alles zusammenpasste und die Arbeit gut lief.' },
+      { text: 'Wo fühlen Sie sich für das, was von Ihnen erwartet wird, nicht ausreichend unterstützt oder qualifiziert? Was fehlt?' },
+      { text: 'Wenn Sie eine Sache an der Zusammenarbeit hier ändern könnten, welche wäre das?' },
+      { text: 'Wie werden KI und Automatisierung Ihre Arbeit in den nächsten Jahren verändern? Welche Teile Ihrer Arbeit sollten menschlich bleiben?' },
+    ],
+    corporate: [
+      {
+        text:
+          'Bezogen speziell auf Unternehmen/Organisation: Geben Sie an, wo das Unternehmen Ihrer Meinung nach heute steht, wo es stehen sollte und wo es stehen wird, wenn sich nichts ändert.\n\nBewerten Sie, wie gut die Prozesse und Entscheidungswege der Organisation Sie bei Ihrer Arbeit unterstützen',
+        maturityScale: [
+          'Entscheidungen dauern ewig. Niemand weiß, wer wofür zuständig ist. Ständiges Feuerlöschen.',
+          'Etwas Struktur vorhanden, aber uneinheitlich angewendet. Freigaben sind Glückssache.',
+          'Klare Verantwortlichkeiten. Richtlinien sind sinnvoll. Entscheidungen fallen in angemessener Zeit.',
+          'Governance passt sich dem Kontext an. Entscheidungen mit Leitplanken. KI unterstützt Entscheidungen.',
+          'Die Organisation läuft reibungslos. Richtlinien entwickeln sich weiter. Hohes Vertrauen. Minimale Bürokratie.',
+        ],
+      },
+      { text: 'Beschreiben Sie etwas, das einfach sein sollte, es aber nicht ist. Was macht es schwieriger als nötig?' },
+      { text: 'Gibt es Regeln oder Prozesse, die Sie umgehen, um Dinge zu erledigen? Was sagt uns das?' },
+      { text: 'Wenn Sie eine Sache daran ändern könnten, wie Entscheidungen getroffen oder Arbeiten freigegeben werden, welche wäre das?' },
+    ],
+    customer: [
+      {
+        text:
+          'Bezogen speziell auf Kunden: Geben Sie an, wo das Unternehmen Ihrer Meinung nach heute steht, wo es stehen sollte und wo es stehen wird, wenn sich nichts ändert.\n\nBewerten Sie, wie gut die Organisation die Bedürfnisse und Erwartungen der Kunden erfüllt',
+        maturityScale: [
+          'Uneinheitliche Erlebnisse. Beschwerden häufen sich. Kein klarer Überblick über die Kundenhistorie.',
+          'Grundlegende Systeme vorhanden. Etwas Transparenz über Kanäle hinweg. Reaktive Fehlerbehebung.',
+          'Einheitliche Kundensicht. Konsistent über alle Kanäle. KI hilft bei häufigen Anfragen.',
+          'Kundenbedürfnisse werden vorhergesehen. Personalisierter Service. KI und Menschen arbeiten nahtlos zusammen.',
+          'Mühelose Erfahrung. Probleme sind gelöst, bevor sie auffallen. Kunden lieben uns.',
+        ],
+      },
+      { text: 'Denken Sie an eine Situation, in der ein Kunde eine großartige Erfahrung gemacht hat. Was hat dazu beigetragen?' },
+      { text: 'Denken Sie an eine Situation, in der ein Kunde eine schlechte Erfahrung gemacht hat. Was ist schiefgelaufen und warum?' },
+      { text: 'Was müssen Kunden tun, was sie eigentlich nicht tun müssten? Wo wird ihre Zeit oder Mühe verschwendet?' },
+      { text: 'Wenn Kunden ihr ideales Erlebnis mit uns in 18 Monaten beschreiben könnten, was würden sie sagen?' },
+    ],
+    technology: [
+      {
+        text:
+          'Bezogen speziell auf Technologie: Geben Sie an, wo das Unternehmen Ihrer Meinung nach heute steht, wo es stehen sollte und wo es stehen wird, wenn sich nichts ändert.\n\nBewerten Sie die Technologie, Systeme und Werkzeuge, die Sie nutzen, hinsichtlich Zuverlässigkeit und Benutzerfreundlichkeit',
+        maturityScale: [
+          'Überall Altsysteme. Ständige manuelle Workarounds. Unzuverlässige Daten.',
+          'Kernsysteme funktionieren, sind aber unflexibel. Etwas Automatisierung. Daten werden besser, sind aber lückenhaft.',
+          'Systeme sind miteinander vernetzt. Daten sind vertrauenswürdig. KI erledigt Routineaufgaben.',
+          'Moderne, flexible Systeme. KI unterstützt Entscheidungen. Self-Service funktioniert.',
+          'Technologie funktioniert einfach. KI bewältigt Komplexität. Schnelle Innovation.',
+        ],
+      },
+      { text: 'Welches System oder Werkzeug erleichtert Ihnen die Arbeit wirklich? Was funktioniert gut?' },
+      { text: 'Welche manuelle Aufgabe oder welcher Workaround kostet Sie am meisten Zeit? Wie oft müssen Sie das tun?' },
+      { text: 'Welche Informationen brauchen Sie, bekommen sie aber nur schwer? Was leidet darunter?' },
+      { text: 'Wenn Sie morgen eine Sache an Ihren Werkzeugen automatisieren oder verbessern könnten, was würde den größten Unterschied machen?' },
+    ],
+    regulation: [
+      {
+        text:
+          'Bezogen speziell auf Regulierung: Geben Sie an, wo das Unternehmen Ihrer Meinung nach heute steht, wo es stehen sollte und wo es stehen wird, wenn sich nichts ändert.\n\nBewerten Sie, wie gut die Organisation mit regulatorischen und Compliance-Anforderungen umgeht',
+        maturityScale: [
+          'Compliance ist reaktiv. Regulatorische Änderungen überraschen uns. Es kommt zu Bußgeldern.',
+          'Ein Rahmenwerk existiert. Etwas Beobachtung künftiger Vorschriften. Schulungen vorhanden, aber grundlegend.',
+          'Vorschriften werden systematisch verfolgt. Compliance ist in Prozesse integriert.',
+          'Änderungen werden antizipiert. Compliance wo möglich automatisiert.',
+          'Compliance ist unsichtbar und verankert. KI überwacht. Die Organisation gestaltet die Debatte mit.',
+        ],
+      },
+      { text: 'Erschweren Compliance- oder regulatorische Anforderungen Ihre Arbeit? Wie?' },
+      { text: 'Haben Sie erlebt, dass eine regulatorische Änderung die Organisation unvorbereitet getroffen hat? Was ist passiert?' },
+      { text: 'Gibt es eine Regel oder Compliance-Anforderung, die für Sie keinen Sinn ergibt? Welche und warum?' },
+    ],
+    prioritization: [
+      { text: 'Welcher der fünf Bereiche (Menschen, Prozesse, Kunden, Technologie, Regulierung) behindert Ihre Arbeit am meisten?' },
+      { text: 'Welcher Bereich würde, wenn er verbessert würde, den größten positiven Unterschied für Ihre Arbeit machen?' },
+      { text: 'Glauben Sie insgesamt, dass sich diese Organisation wirklich zum Besseren verändern kann? Was lässt Sie das denken?' },
+      { text: 'Hat die Organisation schon einmal versucht, Dinge zu verbessern, ohne dass es funktioniert hat? Was ist passiert und was sollten wir daraus lernen?' },
+      { text: 'Was sollten wir sonst noch wissen? Welche Frage hätten wir stellen sollen, haben es aber nicht getan?' },
+    ],
+    summary: [
+      { text: 'Vielen Dank, dass Sie Ihre Erfahrungen so offen geteilt haben. Ihre Beiträge fließen in die Gestaltung der Dream-Session ein, und Sie erhalten einen zusammenfassenden Bericht auf Grundlage Ihrer Antworten.' },
+    ],
+  },
+  followUpIntro: 'Nachfrage: Was hat sich seit der letzten Sitzung an Ihrer Rolle, Ihren Prioritäten oder der Organisation geändert?',
+  phrases: {
+    skipRegulation: 'Kein Problem – wir überspringen den Bereich Regulierung.',
+    continuePrompt: 'Um fortzufahren:',
+    answerLastQuestion: 'Bitte beantworten Sie die letzte Frage.',
+  },
+};
@@ -0,0 +1,116 @@
+import type { DiscoveryLocalePack } from '@/lib/conversation/question-localisation';
+
+/**
+ * Spanish discovery question pack.
+ *
+ * Index-aligned with FIXED_QUESTIONS — entry N of each phase translates
+ * question N, including its maturity scale. Uses the formal "usted".
+ */
+export const ES: DiscoveryLocalePack = {
+  questions: {
+    intro: [
+      { text: 'Describa su función, cuánto tiempo lleva en la organización y a qué dedica la mayor parte de su tiempo.' },
+      { text: '¿Qué es lo mejor de trabajar aquí? ¿Qué le motiva a seguir?' },
+      { text: '¿Y qué es lo que más le frustra?' },
+    ],
+    people: [
+      {
+        text:
+          'Centrándose específicamente en las Personas, indique dónde cree que se encuentra la empresa hoy, dónde debería estar y dónde estará si no cambia nada.\n\nValore en qué medida usted y sus compañeros están preparados para hacer su trabajo de forma eficaz',
+        maturityScale: [
+          'Carencias de competencias por todas partes. La gente se va con frecuencia. Los equipos no se comunican.',
+          'Funciones definidas pero con solapamientos confusos. Existe algo de formación. Se colabora cuando se presiona.',
+          'Expectativas y planes de desarrollo claros. Se trabaja entre equipos. Se fomenta el aprendizaje.',
+          'Planificación proactiva de competencias. La IA ayuda con el trabajo rutinario. El aprendizaje continuo es lo normal.',
+          'Personas e IA trabajan de forma fluida. Las personas se centran en el criterio y las relaciones.',
+        ],
+      },
+      { text: '¿Qué le ayuda a dar lo mejor de sí aquí? Piense en un momento concreto en el que todo encajó y el trabajo salió bien.' },
+      { text: '¿En qué aspectos se siente poco apoyado o poco preparado para lo que se espera de usted? ¿Qué falta?' },
+      { text: 'Si pudiera cambiar una cosa de cómo trabaja la gente en conjunto aquí, ¿qué sería?' },
+      { text: '¿Cómo cree que la IA y la automatización cambiarán su trabajo en los próximos años? ¿Qué partes de su trabajo deberían seguir siendo humanas?' },
+    ],
+    corporate: [
+      {
+        text:
+          'Centrándose específicamente en lo Corporativo/Organizativo, indique dónde cree que se encuentra la empresa hoy, dónde debería estar y dónde estará si no cambia nada.\n\nValore en qué medida los procesos y la toma de decisiones de la organización le ayudan a hacer su trabajo',
+        maturityScale: [
+          'Las decisiones tardan una eternidad. Nadie sabe quién es responsable de qué. Se apagan fuegos constantemente.',
+          'Existe cierta estructura pero se aplica de forma irregular. Las aprobaciones son aleatorias.',
+          'Responsabilidades claras. Las políticas tienen sentido. Las decisiones se toman a un ritmo razonable.',
+          'La gobernanza se adapta al contexto. Decisiones con salvaguardas. La IA orienta las decisiones.',
+          'La organización funciona con fluidez. Las políticas evolucionan. Alta confianza. Burocracia mínima.',
+        ],
+      },
+      { text: 'Describa algo que debería ser sencillo pero no lo es. ¿Qué lo hace más difícil de lo necesario?' },
+      { text: '¿Hay normas o procesos que sortea para sacar el trabajo adelante? ¿Qué nos dice eso?' },
+      { text: 'Si pudiera arreglar una cosa de cómo se toman las decisiones o se aprueba el trabajo, ¿qué sería?' },
+    ],
+    customer: [
+      {
+        text:
+          'Centrándose específicamente en el Cliente, indique dónde cree que se encuentra la empresa hoy, dónde debería estar y dónde estará si no cambia nada.\n\nValore en qué medida la organización satisface las necesidades y expectativas de los clientes',
+        maturityScale: [
+          'Experiencias incoherentes. Las quejas se acumulan. No hay una visión clara del historial del cliente.',
+          'Sistemas básicos implantados. Cierta visibilidad entre canales. Resolución de incidencias reactiva.',
+          'Visión única del cliente. Coherencia entre canales. La IA ayuda con las consultas habituales.',
+          'Se anticipan las necesidades del cliente. Servicio personalizado. IA y personas sin fisuras.',
+          'Experiencia sin esfuerzo. Los problemas se resuelven antes de notarse. Los clientes nos adoran.',
+        ],
+      },
+      { text: 'Piense en una ocasión en la que un cliente tuvo una experiencia excelente. ¿Qué hizo que funcionara?' },
+      { text: 'Piense en una ocasión en la que un cliente tuvo una mala experiencia. ¿Qué salió mal y por qué?' },
+      { text: '¿Qué tienen que hacer los clientes que no deberían tener que hacer? ¿Dónde se desperdicia su tiempo o esfuerzo?' },
+      { text: 'Si los clientes pudieran describir su experiencia ideal con nosotros dentro de 18 meses, ¿qué dirían?' },
+    ],
+    technology: [
+      {
+        text:
+          'Centrándose específicamente en la Tecnología, indique dónde cree que se encuentra la empresa hoy, dónde debería estar y dónde estará si no cambia nada.\n\nValore la tecnología, los sistemas y las herramientas que utiliza en cuanto a fiabilidad y facilidad de uso',
+        maturityScale: [
+          'Sistemas antiguos por todas partes. Soluciones manuales constantes. Datos poco fiables.',
+          'Los sistemas principales funcionan pero son rígidos. Algo de automatización. Los datos mejoran pero de forma irregular.',
+          'Los sistemas se comunican entre sí. Datos fiables. La IA se encarga de las tareas rutinarias.',
+          'Sistemas modernos y flexibles. La IA ayuda a decidir. El autoservicio funciona.',
+          'La tecnología simplemente funciona. La IA gestiona la complejidad. Innovación rápida.',
+        ],
+      },
+      { text: '¿Qué sistema o herramienta le facilita de verdad el trabajo? ¿Qué funciona bien?' },
+      { text: '¿Qué tarea manual o solución provisional le hace perder más tiempo? ¿Con qué frecuencia tiene que hacerla?' },
+      { text: '¿Qué información necesita pero le cuesta conseguir? ¿Qué se resiente como consecuencia?' },
+      { text: 'Si mañana pudiera automatizar o arreglar una cosa de sus herramientas, ¿qué marcaría la mayor diferencia?' },
+    ],
+    regulation: [
+      {
+        text:
+          'Centrándose específicamente en la Regulación, indique dónde cree que se encuentra la empresa hoy, dónde debería estar y dónde estará si no cambia nada.\n\nValore en qué medida la organización gestiona los requisitos regulatorios y de cumplimiento',
+        maturityScale: [
+          'Cumplimiento reactivo. Los cambios regulatorios nos pillan por sorpresa. Hay multas.',
+          'Existe un marco. Algo de vigilancia regulatoria. Formación disponible pero básica.',
+          'La normativa se sigue de forma sistemática. El cumplimiento está integrado en los procesos.',
+          'Los cambios se anticipan. Cumplimiento automatizado siempre que es posible.',
+          'Cumplimiento invisible e integrado. La IA supervisa. La organización influye en el debate.',
+        ],
+      },
+      { text: '¿Los requisitos de cumplimiento o regulatorios dificultan su trabajo? ¿Cómo?' },
+      { text: '¿Ha vivido alguna situación en la que un cambio regulatorio pillara desprevenida a la organización? ¿Qué ocurrió?' },
+      { text: '¿Hay alguna norma o requisito de cumplimiento que no tenga sentido para usted? ¿Cuál y por qué?' },
+    ],
+    prioritization: [
+      { text: 'De las cinco áreas (Personas, Procesos, Cliente, Tecnología, Regulación), ¿cuál obstaculiza más su trabajo?' },
+      { text: '¿Qué área, si se mejorara, supondría la mayor diferencia positiva en su capacidad para hacer su trabajo?' },
+      { text: 'En general, ¿cree que esta organización puede cambiar de verdad a mejor? ¿Qué le hace pensarlo?' },
+      { text: '¿Ha intentado antes la organización mejorar cosas sin éxito? ¿Qué ocurrió y qué deberíamos aprender de ello?' },
+      { text: '¿Qué más deberíamos saber? ¿Qué pregunta deberíamos haber hecho y no hicimos?' },
+    ],
+    summary: [
+      { text: 'Gracias por compartir sus experiencias con franqueza. Sus aportaciones ayudarán a dar forma a la sesión Dream y recibirá un informe resumen basado en lo que ha compartido.' },
+    ],
+  },
+  followUpIntro: 'Seguimiento: desde la última sesión, ¿qué ha cambiado en su función, sus prioridades o la organización?',
+  phrases: {
+    skipRegulation: 'No hay problema: omitimos la regulación.',
+    continuePrompt: 'Para continuar:',
+    answerLastQuestion: 'Por favor, responda a la última pregunta.',
+  },
+};
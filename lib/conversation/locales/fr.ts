@@ -0,0 +1,116 @@
+import type { DiscoveryLocalePack } from '@/lib/conversation/question-localisation';
+
+/**
+ * French discovery question pack.
+ *
+ * Index-aligned with FIXED_QUESTIONS — entry N of each phase translates
+ * question N, including its maturity scale. Uses the formal "vous".
+ */
+export const FR: DiscoveryLocalePack = {
+  questions: {
+    intro: [
+      { text: "Décrivez votre rôle, depuis combien de temps vous êtes dans l'organisation et à quoi vous consacrez la majeure partie de votre temps." },
+      { text: "Qu'est-ce qui vous plaît le plus dans votre travail ici ? Qu'est-ce qui vous motive ?" },
+      { text: 'Et quelle est la chose la plus frustrante ?' },
+    ],
+    people: [
+      {
+        text:
+          "En ce qui concerne spécifiquement les Personnes, indiquez où se situe selon vous l'entreprise aujourd'hui, où elle devrait se situer, et où elle se situera si rien ne change.\n\nÉvaluez dans quelle mesure vous et vos collègues êtes bien équipés pour faire votre travail efficacement",
+        maturityScale: [
+          'Lacunes de compétences partout. Départs fréquents. Les équipes ne se parlent pas.',
+          "Rôles définis mais chevauchements confus. Quelques formations. Collaboration quand on y est poussé.",
+          'Attentes et parcours de développement clairs. Travail transversal entre équipes. Apprentissage encouragé.',
+          "Planification proactive des compétences. L'IA aide pour les tâches routinières. L'apprentissage continu est la norme.",
+          "Les personnes et l'IA travaillent de concert. Les humains se concentrent sur le jugement et les relations.",
+        ],
+      },
+      { text: "Qu'est-ce qui vous aide à donner le meilleur de vous-même ici ? Pensez à un moment précis où tout s'est bien enchaîné et où le travail s'est bien passé." },
+      { text: "Dans quels domaines vous sentez-vous insuffisamment soutenu ou formé par rapport à ce que l'on attend de vous ? Qu'est-ce qui manque ?" },
+      { text: 'Si vous pouviez changer une chose dans la façon dont les gens travaillent ensemble ici, que changeriez-vous ?' },
+      { text: "Comment pensez-vous que l'IA et l'automatisation transformeront votre travail dans les prochaines années ? Quelles parties de votre travail devraient rester humaines ?" },
+    ],
+    corporate: [
+      {
+        text:
+          "En ce qui concerne spécifiquement l'Entreprise/l'Organisation, indiquez où se situe selon vous l'entreprise aujourd'hui, où elle devrait se situer, et où elle se situera si rien ne change.\n\nÉvaluez dans quelle mesure les processus et la prise de décision de l'organisation vous aident à faire votre travail",
+        maturityScale: [
+          'Les décisions prennent une éternité. Personne ne sait qui est responsable de quoi. On éteint des incendies en permanence.',
+          'Une certaine structure existe mais est appliquée de façon incohérente. Les validations sont aléatoires.',
+          'Responsabilités claires. Les règles ont du sens. Les décisions sont prises dans des délais raisonnables.',
+          "La gouvernance s'adapte au contexte. Décisions encadrées par des garde-fous. L'IA éclaire les choix.",
+          "L'organisation fonctionne sans accroc. Les règles évoluent. Confiance élevée. Bureaucratie minimale.",
+        ],
+      },
+      { text: "Décrivez quelque chose qui devrait être simple mais ne l'est pas. Qu'est-ce qui le rend plus compliqué que nécessaire ?" },
+      { text: "Y a-t-il des règles ou des processus que vous contournez pour avancer ? Qu'est-ce que cela nous apprend ?" },
+      { text: 'Si vous pouviez corriger une chose dans la façon dont les décisions sont prises ou le travail validé, que corrigeriez-vous ?' },
+    ],
+    customer: [
+      {
+        text:
+          "En ce qui concerne spécifiquement le Client, indiquez où se situe selon vous l'entreprise aujourd'hui, où elle devrait se situer, et où elle se situera si rien ne change.\n\nÉvaluez dans quelle mesure l'organisation répond aux besoins et aux attentes des clients",
+        maturityScale: [
+          "Expériences incohérentes. Les réclamations s'accumulent. Aucune vision claire de l'historique client.",
+          'Systèmes de base en place. Une certaine visibilité entre les canaux. Traitement des incidents réactif.',
+          "Vision unique du client. Cohérence entre les canaux. L'IA traite les demandes courantes.",
+          'Besoins des clients anticipés. Service personnalisé. IA et humains parfaitement coordonnés.',
+          "Expérience sans effort. Problèmes résolus avant d'être remarqués. Les clients nous adorent.",
+        ],
+      },
+      { text: "Pensez à un moment où un client a vécu une excellente expérience. Qu'est-ce qui a fait la différence ?" },
+      { text: "Pensez à un moment où un client a vécu une mauvaise expérience. Qu'est-ce qui n'a pas fonctionné et pourquoi ?" },
+      { text: "Que doivent faire les clients qu'ils ne devraient pas avoir à faire ? Où perdent-ils du temps ou de l'énergie ?" },
+      { text: 'Si les clients pouvaient décrire leur expérience idéale avec nous dans 18 mois, que diraient-ils ?' },
+    ],
+    technology: [
+      {
+        text:
+          "En ce qui concerne spécifiquement la Technologie, indiquez où se situe selon vous l'entreprise aujourd'hui, où elle devrait se situer, et où elle se situera si rien ne change.\n\nÉvaluez la technologie, les systèmes et les outils que vous utilisez en termes de fiabilité et de facilité d'utilisation",
+        maturityScale: [
+          'Systèmes obsolètes partout. Contournements manuels constants. Données peu fiables.',
+          "Les systèmes principaux fonctionnent mais sont rigides. Un peu d'automatisation. Données en progrès mais inégales.",
+          "Les systèmes communiquent entre eux. Données fiables. L'IA gère les tâches routinières.",
+          "Systèmes modernes et flexibles. L'IA aide à la décision. Le libre-service fonctionne.",
+          "La technologie fonctionne, tout simplement. L'IA gère la complexité. L'innovation est rapide.",
+        ],
+      },
+      { text: "Quel système ou outil vous facilite réellement le travail ? Qu'est-ce qui fonctionne bien ?" },
+      { text: 'Quelle tâche manuelle ou quel contournement vous fait perdre le plus de temps ? À quelle fréquence devez-vous le faire ?' },
+      { text: "De quelles informations avez-vous besoin mais avez-vous du mal à obtenir ? Qu'est-ce qui en pâtit ?" },
+      { text: "Si vous pouviez automatiser ou corriger une chose dans vos outils dès demain, qu'est-ce qui ferait la plus grande différence ?" },
+    ],
+    regulation: [
+      {
+        text:
+          "En ce qui concerne spécifiquement la Réglementation, indiquez où se situe selon vous l'entreprise aujourd'hui, où elle devrait se situer, et où elle se situera si rien ne change.\n\nÉvaluez dans quelle mesure l'organisation gère les exigences réglementaires et de conformité",
+        maturityScale: [
+          'Conformité réactive. Les évolutions réglementaires nous prennent par surprise. Des amendes tombent.',
+          'Un cadre existe. Un peu de veille réglementaire. Formations disponibles mais basiques.',
+          'Réglementations suivies de façon systématique. Conformité intégrée aux processus.',
+          'Évolutions anticipées. Conformité automatisée dans la mesure du possible.',
+          "Conformité invisible et intégrée. L'IA assure la surveillance. L'organisation influence le débat.",
+        ],
+      },
+      { text: 'Les exigences de conformité ou réglementaires compliquent-elles votre travail ? De quelle manière ?' },
+      { text: "Avez-vous vécu une situation où un changement réglementaire a pris l'organisation au dépourvu ? Que s'est-il passé ?" },
+      { text: "Y a-t-il une règle ou une exigence de conformité qui n'a pas de sens pour vous ? Laquelle et pourquoi ?" },
+    ],
+    prioritization: [
+      { text: 'Parmi les cinq domaines (Personnes, Processus, Client, Technologie, Réglementation), lequel entrave le plus votre travail ?' },
+      { text: "Quel domaine, s'il était amélioré, aurait l'impact le plus positif sur votre capacité à faire votre travail ?" },
+      { text: "Dans l'ensemble, pensez-vous que cette organisation peut réellement changer en mieux ? Qu'est-ce qui vous fait penser cela ?" },
+      { text: "L'organisation a-t-elle déjà tenté des améliorations qui n'ont pas fonctionné ? Que s'est-il passé et quelles leçons devrions-nous en tirer ?" },
+      { text: "Que devrions-nous savoir d'autre ? Quelle question aurions-nous dû poser sans l'avoir fait ?" },
+    ],
+    summary: [
+      { text: "Merci d'avoir partagé vos expériences avec franchise. Votre contribution aidera à préparer la session Dream, et vous recevrez un rapport de synthèse basé sur vos réponses." },
+    ],
+  },
+  followUpIntro: "Suivi : depuis la dernière session, qu'est-ce qui a changé dans votre rôle, vos priorités ou l'organisation ?",
+  phrases: {
+    skipRegulation: 'Pas de problème, nous passons la réglementation.',
+    continuePrompt: 'Pour continuer :',
+    answerLastQuestion: 'Veuillez répondre à la dernière question.',
+  },
+};
@@ -0,0 +1,290 @@
+/**
+ * Discovery question localisation.
+ *
+ * Questions are authored in the pivot language (fixed-questions.ts, domain
+ * packs, blueprints, tailored discovery sets). Participants see them in their
+ * session language:
+ *
+ *   1. Curated locale packs (lib/conversation/locales) cover the standard
+ *      question set, its maturity scales and the facilitator phrases.
+ *   2. Anything else — tailored or blueprint questions, other languages — is
+ *      machine-translated once and cached in QuestionPackTranslation.
+ *   3. With no LLM configured, the pivot text is shown unchanged.
+ *
+ * Localised question messages carry the pivot text in metadata.translation so
+ * analysis and reports never read the participant-facing wording.
+ */
+
+import { createHash } from 'crypto';
+
+import { prisma } from '@/lib/prisma';
+import { getLLMClient } from '@/lib/llm';
+import type { ConversationPhase } from '@/lib/types/conversation';
+import {
+  FIXED_QUESTIONS,
+  FIXED_QUESTIONS_V2,
+  type FixedQuestion,
+} from '@/lib/conversation/fixed-questions';
+import {
+  PIVOT_LANGUAGE,
+  normaliseLanguage,
+  readMessageTranslation,
+  translationMetadata,
+  type MessageTranslation,
+} from '@/lib/conversation/translation';
+import { DE } from '@/lib/conversation/locales/de';
+import { ES } from '@/lib/conversation/locales/es';
+import { FR } from '@/lib/conversation/locales/fr';
+
+// ══════════════════════════════════════════════════════════════
+// TYPES
+// ══════════════════════════════════════════════════════════════
+
+/** Facilitator phrases that wrap questions, in the pivot language. */
+export const DISCOVERY_PHRASES = {
+  skipRegulation: 'No problem -- skipping regulation.',
+  continuePrompt: 'To continue:',
+  answerLastQuestion: 'Please answer the last question.',
+} as const;
+
+export type DiscoveryPhraseKey = keyof typeof DISCOVERY_PHRASES;
+
+export interface LocalisedQuestionText {
+  text: string;
+  maturityScale?: string[];
+}
+
+/** A curated translation of the standard question set, index-aligned with FIXED_QUESTIONS. */
+export interface DiscoveryLocalePack {
+  questions: Record<ConversationPhase, LocalisedQuestionText[]>;
+  /** FIXED_QUESTIONS_V2 intro[0] */
+  followUpIntro: string;
+  phrases: Record<DiscoveryPhraseKey, string>;
+}
+
+export interface QuestionMessageData {
+  content: string;
+  metadata: {
+    kind: 'question';
+    tag: string;
+    index: number;
+    phase: string;
+    maturityScale?: string[];
+    translation?: MessageTranslation;
+  };
+}
+
+const LOCALE_PACKS: Record<string, DiscoveryLocalePack> = { fr: FR, de: DE, es: ES };
+
+/** Languages with a reviewed question pack; others fall back to machine translation. */
+export const CURATED_LANGUAGES = Object.keys(LOCALE_PACKS);
+
+const llm = getLLMClient('conversation');
+
+// ══════════════════════════════════════════════════════════════
+// CURATED LOOKUP
+// ══════════════════════════════════════════════════════════════
+
+const curatedLookups = new Map<string, Map<string, string>>();
+
+/**
+ * Pivot text → curated translation for one language. Keyed by text rather
+ * than position so tailored sets that reuse a standard question still hit.
+ */
+function curatedLookup(language: string): Map<string, string> | null {
+  const pack = LOCALE_PACKS[language];
+  if (!pack) return null;
+
+  const cached = curatedLookups.get(language);
+  if (cached) return cached;
+
+  const lookup = new Map<string, string>();
+  for (const [phase, questions] of Object.entries(FIXED_QUESTIONS) as [ConversationPhase, FixedQuestion[]][]) {
+    questions.forEach((q, i) => {
+      const localised = pack.questions[phase]?.[i];
+      if (!localised) return;
+      lookup.set(q.text, localised.text);
+      q.maturityScale?.forEach((level, j) => {
+        const localisedLevel = localised.maturityScale?.[j];
+        if (localisedLevel) lookup.set(level, localisedLevel);
+      });
+    });
+  }
+  lookup.set(FIXED_QUESTIONS_V2.intro[0].text, pack.followUpIntro);
+  for (const key of Object.keys(DISCOVERY_PHRASES) as DiscoveryPhraseKey[]) {
+    lookup.set(DISCOVERY_PHRASES[key], pack.phrases[key]);
+  }
+
+  curatedLookups.set(language, lookup);
+  return lookup;
+}
+
+// ══════════════════════════════════════════════════════════════
+// MACHINE TRANSLATION (CACHED)
+// ══════════════════════════════════════════════════════════════
+
+function sourceHash(texts: string[]): string {
+  return createHash('sha256').update(JSON.stringify(texts)).digest('hex');
+}
+
+function parseTranslations(value: unknown, expected: number): string[] | null {
+  if (!Array.isArray(value) || value.length !== expected) return null;
+  return value.every((v) => typeof v === 'string' && v.trim()) ? (value as string[]) : null;
+}
+
+async function machineTranslate(texts: string[], language: string): Promise<Map<string, string>> {
+  const result = new Map<string, string>();
+  const hash = sourceHash(texts);
+
+  try {
+    const cached = await prisma.questionPackTranslation.findUnique({
+      where: { sourceHash_language: { sourceHash: hash, language } },
+    });
+    const cachedTexts = cached ? parseTranslations(cached.texts, texts.length) : null;
+    if (cachedTexts) {
+      texts.forEach((t, i) => result.set(t, cachedTexts[i]));
+      return result;
+    }
+
+    if (!llm.isConfigured()) return result;
+
+    const completion = await llm.chat({
+      tier: 'fast',
+      temperature: 0,
+      responseFormat: 'json',
+      messages: [
+        {
+          role: 'system',
+          content:
+            `Translate each string in the JSON array "texts" from English to the language with ISO 639-1 code "${language}". ` +
+            'These are questions and rating-scale labels for a workplace discovery interview: address the reader formally, keep the same order and count, and preserve line breaks and numbers. ' +
+            'Return JSON: {"translations": ["..."]}',
+        },
+        { role: 'user', content: JSON.stringify({ texts }) },
+      ],
+    });
+
+    const parsed = JSON.parse(completion.content) as { translations?: unknown };
+    const translations = parseTranslations(parsed.translations, texts.length);
+    if (!translations) {
+      console.error(`[Localisation] Discarded malformed ${language} translation for ${texts.length} text(s)`);
+      return result;
+    }
+
+    texts.forEach((t, i) => result.set(t, translations[i]));
+    await prisma.questionPackTranslation.upsert({
+      where: { sourceHash_language: { sourceHash: hash, language } },
+      create: { sourceHash: hash, language, texts: translations, model: llm.modelFor('fast') },
+      update: { texts: translations, model: llm.modelFor('fast') },
+    }).catch((err) => console.error('[Localisation] Failed to cache translation:', err));
+  } catch (error) {
+    console.error(`[Localisation] Failed to translate questions to ${language}:`, error);
+  }
+
+  return result;
+}
+
+// ══════════════════════════════════════════════════════════════
+// PUBLIC API
+// ══════════════════════════════════════════════════════════════
+
+/**
+ * Localise pivot-language strings, index for index. Curated translations win;
+ * the remainder are machine-translated together; anything still untranslated
+ * is returned in the pivot language.
+ */
+export async function localiseTexts(texts: string[], language: string | null | undefined): Promise<string[]> {
+  const lang = normaliseLanguage(language);
+  if (lang === PIVOT_LANGUAGE || texts.length === 0) return texts;
+
+  const curated = curatedLookup(lang);
+  const misses = [...new Set(texts.filter((t) => t.trim() && !curated?.has(t)))];
+  const machine = misses.length > 0 ? await machineTranslate(misses, lang) : new Map<string, string>();
+
+  return texts.map((t) => curated?.get(t) ?? machine.get(t) ?? t);
+}
+
+export async function localiseQuestion(question: FixedQuestion, language: string | null | undefined): Promise<FixedQuestion> {
+  const scale = question.maturityScale ?? [];
+  const [text, ...localisedScale] = await localiseTexts([question.text, ...scale], language);
+  return {
+    ...question,
+    text,
+    ...(question.maturityScale ? { maturityScale: localisedScale } : {}),
+  };
+}
+
+export async function localisePhrase(key: DiscoveryPhraseKey, language: string | null | undefined): Promise<string> {
+  const [phrase] = await localiseTexts([DISCOVERY_PHRASES[key]], language);
+  return phrase;
+}
+
+/**
+ * Content and metadata for an AI question message in the session language,
+ * optionally preceded by a facilitator phrase. The pivot wording (and scale)
+ * rides along in metadata.translation.
+ */
+export async function buildQuestionMessage(
+  question: FixedQuestion,
+  position: { index: number; phase: string },
+  language: string | null | undefined,
+  lead?: DiscoveryPhraseKey,
+): Promise<QuestionMessageData> {
+  const leadText = lead ? DISCOVERY_PHRASES[lead] : '';
+  const [localisedLead, localisedText, ...localisedScale] = await localiseTexts(
+    [leadText, question.text, ...(question.maturityScale ?? [])],
+    language,
+  );
+
+  const pivotContent = leadText ? `${leadText}\n\n${question.text}` : question.text;
+  const content = localisedLead ? `${localisedLead}\n\n${localisedText}` : localisedText;
+
+  return {
+    content,
+    metadata: {
+      kind: 'question',
+      tag: question.tag,
+      index: position.index,
+      phase: position.phase,
+      maturityScale: question.maturityScale ? localisedScale : undefined,
+      ...translationMetadata(language ?? PIVOT_LANGUAGE, pivotContent, question.maturityScale),
+    },
+  };
+}
+
+/**
+ * Re-render a stored question message in another language (participant
+ * switched language before answering). Returns null for non-question messages.
+ */
+export async function relocaliseQuestionMessage(
+  content: string,
+  metadata: unknown,
+  language: string | null | undefined,
+): Promise<QuestionMessageData | null> {
+  const rec = metadata && typeof metadata === 'object' && !Array.isArray(metadata)
+    ? (metadata as Record<string, unknown>)
+    : null;
+  if (!rec || rec.kind !== 'question' || typeof rec.tag !== 'string' || typeof rec.phase !== 'string' || typeof rec.index !== 'number') {
+    return null;
+  }
+
+  const translation = readMessageTranslation(rec);
+  const pivotContent = translation?.en ?? content;
+  const pivotScale = translation
+    ? translation.maturityScale
+    : Array.isArray(rec.maturityScale) ? rec.maturityScale.filter((s): s is string => typeof s === 'string') : undefined;
+
+  const leadPrefix = `${DISCOVERY_PHRASES.skipRegulation}\n\n`;
+  const lead = pivotContent.startsWith(leadPrefix) ? 'skipRegulation' : undefined;
+
+  return buildQuestionMessage(
+    {
+      text: lead ? pivotContent.slice(leadPrefix.length) : pivotContent,
+      tag: rec.tag as FixedQuestion['tag'],
+      ...(pivotScale && pivotScale.length > 0 ? { maturityScale: pivotScale } : {}),
+    },
+    { index: rec.index, phase: rec.phase },
+    language,
+    lead,
+  );
+}
@@ -0,0 +1,160 @@
+/**
+ * Discovery translation helpers.
+ *
+ * Participants answer in their own language; everything downstream (tagging,
+ * ratings, report synthesis, hemisphere analysis) runs on a single pivot
+ * language. Conversation messages keep the participant's words as `content`
+ * and the pivot text in `metadata.translation`; DataPoints keep the pivot in
+ * `rawText` and the participant's words in `originalText`.
+ */
+
+import { getLLMClient } from '@/lib/llm';
+
+// ══════════════════════════════════════════════════════════════
+// TYPES
+// ══════════════════════════════════════════════════════════════
+
+/** Language all discovery analysis runs in. Also the metadata key below. */
+export const PIVOT_LANGUAGE = 'en';
+
+export type MessageTranslation = {
+  sourceLanguage: string;
+  en: string;
+  /** Pivot maturity scale, on localised triple-rating questions. */
+  maturityScale?: string[];
+};
+
+/** An answer as analysed (pivot) and as the participant wrote it. */
+export interface TranslatedAnswer {
+  pivot: string;
+  original: string;
+}
+
+const MAX_QUOTE_CHARS = 300;
+
+const llm = getLLMClient('conversation');
+
+// ══════════════════════════════════════════════════════════════
+// LANGUAGE CODES
+// ══════════════════════════════════════════════════════════════
+
+/** Normalise a session language ('fr-FR', ' DE ') to its ISO 639-1 code. */
+export function normaliseLanguage(language: string | null | undefined): string {
+  const code = (language || '').trim().toLowerCase().split(/[-_]/)[0];
+  return code || PIVOT_LANGUAGE;
+}
+
+export function isPivotLanguage(language: string | null | undefined): boolean {
+  return normaliseLanguage(language) === PIVOT_LANGUAGE;
+}
+
+// ══════════════════════════════════════════════════════════════
+// TRANSLATION
+// ══════════════════════════════════════════════════════════════
+
+/**
+ * Translate participant text into the pivot language. Returns the input
+ * unchanged when it is already in the pivot language or no LLM is
+ * configured, so callers can always store the result as rawText.
+ */
+export async function translateToPivot(params: {
+  text: string;
+  sourceLanguage: string;
+}): Promise<string> {
+  const text = (params.text || '').trim();
+  const sourceLanguage = normaliseLanguage(params.sourceLanguage);
+
+  if (!text) return '';
+  if (sourceLanguage === PIVOT_LANGUAGE) return text;
+  if (!llm.isConfigured()) return text;
+
+  const completion = await llm.chat({
+    tier: 'fast',
+    temperature: 0,
+    messages: [
+      {
+        role: 'system',
+        content:
+          'Translate the user text to English. Preserve meaning, intent, and any numbers/ratings exactly. Return ONLY the translated text (no quotes, no preface).',
+      },
+      {
+        role: 'user',
+        content: `Source language: ${sourceLanguage}\n\nText:\n${text}`,
+      },
+    ],
+  });
+
+  return completion.content.trim() || text;
+}
+
+// ══════════════════════════════════════════════════════════════
+// MESSAGE METADATA
+// ══════════════════════════════════════════════════════════════
+
+export function readMessageTranslation(metadata: unknown): MessageTranslation | null {
+  const rec = metadata && typeof metadata === 'object' && !Array.isArray(metadata)
+    ? (metadata as Record<string, unknown>)
+    : null;
+  const translation =
+    rec && rec.translation && typeof rec.translation === 'object' && !Array.isArray(rec.translation)
+      ? (rec.translation as Record<string, unknown>)
+      : null;
+  if (!translation || typeof translation.en !== 'string' || !translation.en.trim()) return null;
+  const maturityScale = Array.isArray(translation.maturityScale)
+    ? translation.maturityScale.filter((s): s is string => typeof s === 'string')
+    : null;
+  return {
+    sourceLanguage: typeof translation.sourceLanguage === 'string' ? translation.sourceLanguage : 'unknown',
+    en: translation.en,
+    ...(maturityScale ? { maturityScale } : {}),
+  };
+}
+
+/** Pivot-language text of a conversation message (questions and answers alike). */
+export function pivotText(content: string, metadata: unknown): string {
+  return readMessageTranslation(metadata)?.en ?? content;
+}
+
+/** `{ translation }` metadata fragment for non-pivot text; empty for pivot text. */
+export function translationMetadata(
+  sourceLanguage: string,
+  pivot: string,
+  maturityScale?: string[],
+): { translation?: MessageTranslation } {
+  const language = normaliseLanguage(sourceLanguage);
+  if (language === PIVOT_LANGUAGE) return {};
+  return { translation: { sourceLanguage: language, en: pivot, ...(maturityScale ? { maturityScale } : {}) } };
+}
+
+// ══════════════════════════════════════════════════════════════
+// ORIGINAL-LANGUAGE QUOTES
+// ══════════════════════════════════════════════════════════════
+
+function clipQuote(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > MAX_QUOTE_CHARS ? `${trimmed.slice(0, MAX_QUOTE_CHARS - 1).trimEnd()}…` : trimmed;
+}
+
+/**
+ * Map a quote taken from pivot text back to the participant's own words.
+ *
+ * Analysis quotes are either a whole pivot answer or an excerpt of one; we
+ * cannot align an excerpt inside a translation, so excerpts resolve to the
+ * (clipped) original answer they came from. Quotes that match no translated
+ * answer are returned unchanged.
+ */
+export function originalQuote(quote: string, answers: TranslatedAnswer[]): string {
+  const needle = quote.trim().toLowerCase();
+  if (!needle) return quote;
+
+  const exact = answers.find((a) => a.pivot.trim().toLowerCase() === needle);
+  if (exact) return exact.original;
+
+  const containing = answers.find((a) => a.pivot.toLowerCase().includes(needle));
+  return containing ? clipQuote(containing.original) : quote;
+}
+
+export function originalQuotes(quotes: string[], answers: TranslatedAnswer[]): string[] {
+  if (answers.length === 0) return quotes;
+  return quotes.map((q) => originalQuote(q, answers));
+}
@@ -17,6 +17,7 @@ interface AnalysisRow {
   actors: unknown;
   dataPoint: {
     rawText: string;
+    originalText: string | null;
     participant: { role: string | null } | null;
   };
 }
@@ -43,6 +44,7 @@ export async function computeAlignment(workshopId: string): Promise<AlignmentHea
       dataPoint: {
         select: {
           rawText: true,
+          originalText: true,
           participant: { select: { role: true } },
         },
       },
@@ -67,7 +69,8 @@ export async function computeAlignment(workshopId: string): Promise<AlignmentHea
     const themes = parseJsonArray<ThemeEntry>(a.themes);
     const actors = parseJsonArray<ActorEntry>(a.actors);
     const sentiment = normaliseSentiment(a.sentimentTone);
-    const quote = a.dataPoint.rawText?.slice(0, 200) || '';
+    // Sentiment and themes come from the pivot text; quotes stay in the speaker's own words
+    const quote = (a.dataPoint.originalText ?? a.dataPoint.rawText)?.slice(0, 200) || '';
 
     // Extract theme labels
     const themeLabels = themes
@@ -0,0 +1,143 @@
+/**
+ * Compute Metric Contradictions (perception vs. data)
+ *
+ * Checks the figures participants quoted in discovery — ConversationInsight
+ * text and live DataPoints — against the workshop's uploaded historical
+ * metrics, and turns each graded contradiction into a TensionEntry for the
+ * Tension Surface.
+ *
+ * Each tension cites both sides: the participants' own words, grouped by
+ * stakeholder group, and a "Historical data" viewpoint with the series
+ * evidence. Viewpoint sentiment marks which way the perception leans
+ * (overstated = positive, understated = negative, data = neutral) so the
+ * deterministic TensionIndex ranks these alongside the GPT tensions.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { getDomainPack, packFromSnapshot } from '@/lib/domain-packs/registry';
+import { readHistoricalMetricsFromJson } from '@/lib/historical-metrics/types';
+import { formatValue } from '@/lib/historical-metrics/summarize';
+import {
+  extractMetricClaims,
+  findMetricContradictions,
+  metricReferencesForSeries,
+  type ClaimSource,
+  type MetricContradiction,
+} from '@/lib/historical-metrics/claim-contradictions';
+import { groupRole } from './compute-alignment';
+import { scoreTensionEntry } from './compute-tensions';
+import type { TensionEntry, TensionViewpoint } from '@/lib/types/discover-analysis';
+
+/** Participant viewpoints shown per tension (one per stakeholder group) */
+const MAX_CLAIM_VIEWPOINTS = 3;
+
+const DATA_ACTOR = 'Historical data';
+
+/**
+ * Find perception-vs-data contradictions for a workshop.
+ *
+ * Returns scored (unranked) tensions — empty when no metrics are uploaded
+ * or nobody quoted a figure the data disagrees with.
+ */
+export async function computeMetricContradictions(workshopId: string): Promise<TensionEntry[]> {
+  const workshop = await prisma.workshop.findUnique({
+    where: { id: workshopId },
+    select: { domainPack: true, domainPackConfig: true, historicalMetrics: true },
+  });
+
+  const data = readHistoricalMetricsFromJson(workshop?.historicalMetrics);
+  if (!workshop || !data || data.series.length === 0) return [];
+
+  const pack = packFromSnapshot(workshop.domainPackConfig, workshop.domainPack)
+    ?? (workshop.domainPack ? getDomainPack(workshop.domainPack) : null);
+  const references = metricReferencesForSeries(data, pack?.metricReferences ?? []);
+
+  const [insights, dataPoints] = await Promise.all([
+    prisma.conversationInsight.findMany({
+      where: { workshopId },
+      select: { id: true, text: true, participantId: true, participant: { select: { role: true } } },
+    }),
+    prisma.dataPoint.findMany({
+      where: { workshopId },
+      select: { id: true, rawText: true, participantId: true, participant: { select: { role: true } } },
+    }),
+  ]);
+
+  const sources: ClaimSource[] = [
+    ...insights.map((i) => ({
+      kind: 'insight' as const,
+      id: i.id,
+      participantId: i.participantId,
+      actor: groupRole(i.participant?.role ?? null),
+      text: i.text,
+    })),
+    ...dataPoints.map((d) => ({
+      kind: 'data_point' as const,
+      id: d.id,
+      participantId: d.participantId,
+      actor: groupRole(d.participant?.role ?? null),
+      text: d.rawText,
+    })),
+  ].filter((s) => /\d/.test(s.text));
+
+  const claims = extractMetricClaims(sources, references);
+  return findMetricContradictions(claims, data).map(contradictionToTension);
+}
+
+/**
+ * Shape a contradiction as a tension: one viewpoint per stakeholder group
+ * that quoted a contradicted figure, then the data.
+ */
+export function contradictionToTension(contradiction: MetricContradiction): TensionEntry {
+  const { metricLabel, unit, claims } = contradiction;
+
+  const byActor = new Map<string, MetricContradiction['claims'][number]>();
+  for (const claim of claims) {
+    if (!byActor.has(claim.source.actor)) byActor.set(claim.source.actor, claim);
+  }
+
+  const viewpoints: TensionViewpoint[] = [...byActor.values()]
+    .slice(0, MAX_CLAIM_VIEWPOINTS)
+    .map((claim) => ({
+      actor: claim.source.actor,
+      position: `Puts ${metricLabel} at ${claim.statedAs}`,
+      sentiment: claim.value > contradiction.actualValue ? 'positive' : 'negative',
+      evidenceQuote: claim.quote,
+    }));
+
+  viewpoints.push({
+    actor: DATA_ACTOR,
+    position: contradiction.finding,
+    sentiment: 'neutral',
+    evidenceQuote: contradiction.evidence[0] ?? '',
+  });
+
+  const gapText = contradiction.gapUnit === 'points' ? `${contradiction.gap} points` : `${contradiction.gap}%`;
+
+  return scoreTensionEntry({
+    id: `metric-${contradiction.metricKey}`,
+    topic: `${metricLabel}: perceived ${formatValue(contradiction.claimedValue, unit)} vs. actual ${formatValue(contradiction.actualValue, unit)} (${contradiction.direction} by ${gapText})`,
+    rank: 0,
+    tensionIndex: 0,
+    severity: contradiction.grade,
+    viewpoints,
+    affectedActors: [...byActor.keys()],
+    relatedConstraints: [],
+    domain: 'Performance data',
+    metricEvidence: {
+      metricKey: contradiction.metricKey,
+      metricLabel,
+      unit,
+      claimedValue: contradiction.claimedValue,
+      actualValue: contradiction.actualValue,
+      actualPeriod: contradiction.actualPeriod,
+      expectedRange: contradiction.expectedRange,
+      gap: contradiction.gap,
+      gapUnit: contradiction.gapUnit,
+      direction: contradiction.direction,
+      lastMatchedPeriod: contradiction.lastMatchedPeriod,
+      sources: claims.map((c) => ({ kind: c.source.kind, id: c.source.id })),
+      evidence: contradiction.evidence,
+    },
+  });
+}
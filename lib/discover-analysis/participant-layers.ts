@@ -5,11 +5,10 @@
  * layers using GPT-4o-mini. Supports facilitator overrides.
  */
 
-import OpenAI from 'openai';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+import { getLLMClient } from '@/lib/llm';
 import type { NarrativeLayer, ParticipantLayerAssignment } from '@/lib/types/discover-analysis';
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+const llm = getLLMClient('participant-layers');
 
 export type ParticipantInput = {
   id: string;
@@ -63,7 +62,7 @@ export async function classifyParticipantLayers(
   // Build AI classifications (for those not overridden)
   const aiMap: ParticipantLayerMap = {};
 
-  if (process.env.OPENAI_API_KEY) {
+  if (llm.isConfigured()) {
     try {
       const participantList = participants.map((p) => ({
         id: p.id,
@@ -71,8 +70,8 @@ export async function classifyParticipantLayers(
         department: p.department || 'Unknown',
       }));
 
-      const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const completion = await llm.chat({
+        tier: 'fast',
         temperature: 0,
         messages: [
           {
@@ -97,10 +96,10 @@ Return ONLY valid JSON: an array of objects with { id, layer, confidence, reason
             content: `Classify these participants:\n\n${JSON.stringify(participantList, null, 2)}`,
           },
         ],
-        response_format: { type: 'json_object' },
-      }));
+        responseFormat: 'json',
+      });
 
-      const raw = completion.choices?.[0]?.message?.content || '{}';
+      const raw = completion.content || '{}';
       const parsed = JSON.parse(raw) as {
         classifications?: Array<{
           id: string;
@@ -16,6 +16,7 @@ export type {
   MetricReference,
   QuestionTemplate,
   DiagnosticOutputField,
+  TenantDomainPacks,
 } from './registry';
 
 export {
@@ -7,6 +7,10 @@
  *
  * Domain packs are resolved at workshop creation time and stored
  * as a JSON snapshot on the Workshop model (domainPackConfig).
+ *
+ * Tenants can author their own packs (lib/domain-packs/tenant-packs.ts).
+ * Lookups accept an optional TenantDomainPacks map; a tenant pack shadows
+ * the built-in pack with the same key.
  */
 
 import type { LensName } from '@/lib/cognition/agents/agent-types';
@@ -93,6 +97,16 @@ export interface DomainPack {
   diagnosticOutputFields: DiagnosticOutputField[];
   discoveryLenses: DiscoveryLens[];
   discoveryQuestionTemplates: DiscoveryQuestionTemplate[];
+  /** Semver of the tenant pack version this config came from (absent on built-in packs) */
+  version?: string;
+  /** TenantDomainPackVersion id, used to pin workshops to this exact version */
+  versionId?: string;
+}
+
+/** Latest published tenant packs for one organisation, keyed by pack key. */
+export interface TenantDomainPacks {
+  domain: Record<string, DomainPack>;
+  industry: Record<string, DomainPack>;
 }
 
 // ---------------------------------------------------------------------------
@@ -2564,19 +2578,35 @@ export const DOMAIN_PACKS: Record<string, DomainPack> = {
 };
 
 /**
- * Get a domain pack by key. Returns null if the key is unknown.
+ * Get a domain pack by key. Tenant packs win over built-ins.
+ * Returns null if the key is unknown.
+ */
+export function getDomainPack(key: string, tenantPacks?: TenantDomainPacks | null): DomainPack | null {
+  return tenantPacks?.domain[key] ?? DOMAIN_PACKS[key] ?? null;
+}
+
+/**
+ * A workshop's domainPackConfig snapshot, when it is the pack for `key`.
+ * Snapshots are resolved server-side with tenant packs, so client code should
+ * prefer them over a registry lookup.
  */
-export function getDomainPack(key: string): DomainPack | null {
-  return DOMAIN_PACKS[key] ?? null;
+export function packFromSnapshot(snapshot: unknown, key: string | null | undefined): DomainPack | null {
+  if (!snapshot || typeof snapshot !== 'object' || Array.isArray(snapshot)) return null;
+  const pack = snapshot as DomainPack;
+  return pack.key === key && Array.isArray(pack.lenses) ? pack : null;
 }
 
 /**
- * List all available domain pack keys with labels.
+ * List all available domain pack keys with labels, built-in and tenant.
  */
-export function listDomainPacks(): Array<{ key: string; label: string; category: string }> {
-  return Object.values(DOMAIN_PACKS).map((pack) => ({
+export function listDomainPacks(
+  tenantPacks?: TenantDomainPacks | null,
+): Array<{ key: string; label: string; category: string; version?: string }> {
+  const merged = { ...DOMAIN_PACKS, ...tenantPacks?.domain };
+  return Object.values(merged).map((pack) => ({
     key: pack.key,
     label: pack.label,
     category: pack.category,
+    ...(pack.version ? { version: pack.version } : {}),
   }));
 }
@@ -1,19 +1,21 @@
-import type { DomainPack, EngagementVariant } from './registry';
+import type { DomainPack, EngagementVariant, TenantDomainPacks } from './registry';
 import { INDUSTRY_PACKS } from './industry-packs';
 
 /**
  * Resolve the appropriate domain pack for a given industry + engagement type + dream track.
  * Returns the industry-specific pack if found, otherwise falls back to legacy packs.
+ * A tenant-authored industry pack with the same key replaces the built-in one.
  */
 export function resolveIndustryPack(
   industry: string | null | undefined,
   engagementType: string | null | undefined,
   dreamTrack: string | null | undefined,
+  tenantPacks?: TenantDomainPacks | null,
 ): DomainPack | null {
   if (!industry) return null;
 
   const key = industryToPackKey(industry);
-  const pack = INDUSTRY_PACKS[key];
+  const pack = tenantPacks?.industry[key] ?? INDUSTRY_PACKS[key];
   if (!pack) return null;
 
   // If engagement type has variant overrides, apply them
@@ -0,0 +1,155 @@
+/**
+ * Domain Pack Schema
+ *
+ * Zod schema mirroring the DomainPack interface in registry.ts. Tenant-authored
+ * packs are validated against it before a version is published, and the admin
+ * editor validates against the JSON Schema generated from it.
+ */
+
+import { z } from 'zod';
+
+import type { DomainPack } from './registry';
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+/** Pack keys double as registry keys and URL segments. */
+export const PACK_KEY_PATTERN = /^[a-z0-9]+(?:_[a-z0-9]+)*$/;
+
+const text = (max: number) => z.string().trim().min(1).max(max);
+const lensName = text(100);
+
+const ActorRoleSchema = z.object({
+  key: text(100),
+  label: text(200),
+  description: z.string().max(1000),
+});
+
+const MetricReferenceSchema = z.object({
+  key: text(100),
+  label: text(200),
+  unit: text(50),
+  description: z.string().max(1000),
+});
+
+const QuestionTemplateSchema = z.object({
+  lens: lensName,
+  text: text(2000),
+  purpose: z.string().max(1000),
+  captureTypes: z.array(text(100)),
+});
+
+const DiagnosticOutputFieldSchema = z.object({
+  key: text(100),
+  label: text(200),
+  lens: lensName,
+  description: z.string().max(1000),
+});
+
+const DiscoveryLensSchema = z.object({
+  key: text(100),
+  label: text(200),
+  description: z.string().max(1000),
+  objective: z.string().max(1000),
+  estimatedDuration: z.string().max(100),
+  minimumInsights: z.number().int().min(0).max(100),
+});
+
+const DiscoveryQuestionTemplateSchema = z.object({
+  lens: text(100),
+  text: text(2000),
+  tag: text(50),
+  maturityScale: z.array(text(500)).length(5).optional(),
+  purpose: z.string().max(1000),
+});
+
+const JourneyStageSchema = z.object({
+  stage: z.number().int().min(1),
+  label: text(200),
+  description: z.string().max(1000),
+});
+
+const EngagementVariantSchema = z.object({
+  lenses: z.array(lensName).optional(),
+  addLenses: z.array(lensName).optional(),
+  excludeLenses: z.array(lensName).optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+export const DomainPackSchema = z
+  .object({
+    key: z.string().regex(PACK_KEY_PATTERN, 'Use lowercase letters, digits and underscores').max(100),
+    label: text(200),
+    description: z.string().max(2000),
+    category: z.enum(['operational', 'strategic']),
+    lenses: z.array(lensName).max(20),
+    journeyStages: z.array(JourneyStageSchema).max(30).optional(),
+    engagementVariants: z.record(z.string(), EngagementVariantSchema).optional(),
+    actorTaxonomy: z.array(ActorRoleSchema).max(100),
+    metricReferences: z.array(MetricReferenceSchema).max(100),
+    questionTemplates: z.array(QuestionTemplateSchema).max(200),
+    diagnosticOutputFields: z.array(DiagnosticOutputFieldSchema).max(100),
+    discoveryLenses: z.array(DiscoveryLensSchema).max(20),
+    discoveryQuestionTemplates: z.array(DiscoveryQuestionTemplateSchema).max(200),
+  })
+  .strict()
+  .superRefine((pack, ctx) => {
+    const unique = (path: string, keys: string[]) => {
+      const seen = new Set<string>();
+      keys.forEach((key, i) => {
+        if (seen.has(key)) ctx.addIssue({ code: 'custom', path: [path, i, 'key'], message: `Duplicate key "${key}"` });
+        seen.add(key);
+      });
+    };
+    unique('actorTaxonomy', pack.actorTaxonomy.map((a) => a.key));
+    unique('metricReferences', pack.metricReferences.map((m) => m.key));
+    unique('diagnosticOutputFields', pack.diagnosticOutputFields.map((f) => f.key));
+    unique('discoveryLenses', pack.discoveryLenses.map((l) => l.key));
+
+    const discoveryKeys = new Set(pack.discoveryLenses.map((l) => l.key));
+    pack.discoveryQuestionTemplates.forEach((q, i) => {
+      if (!discoveryKeys.has(q.lens)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['discoveryQuestionTemplates', i, 'lens'],
+          message: `Unknown discovery lens "${q.lens}"`,
+        });
+      }
+    });
+  });
+
+/**
+ * JSON Schema (draft 2020-12) for the admin editor. Generated in "input" mode
+ * so optional fields are not listed as required.
+ */
+export const DOMAIN_PACK_JSON_SCHEMA = z.toJSONSchema(DomainPackSchema, { io: 'input' });
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+export type DomainPackValidation =
+  | { success: true; pack: DomainPack }
+  | { success: false; errors: Array<{ path: string; message: string }> };
+
+/**
+ * Validate an authored pack config. Version metadata is assigned on publish,
+ * so any `version` / `versionId` in the input is ignored.
+ */
+export function validateDomainPack(config: unknown): DomainPackValidation {
+  const input = config && typeof config === 'object' && !Array.isArray(config)
+    ? Object.fromEntries(Object.entries(config).filter(([k]) => k !== 'version' && k !== 'versionId'))
+    : config;
+
+  const result = DomainPackSchema.safeParse(input);
+  if (result.success) return { success: true, pack: result.data as DomainPack };
+
+  return {
+    success: false,
+    errors: result.error.issues.map((issue) => ({
+      path: issue.path.join('.') || '(root)',
+      message: issue.message,
+    })),
+  };
+}
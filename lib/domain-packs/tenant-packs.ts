@@ -0,0 +1,313 @@
+/**
+ * Tenant Domain Packs
+ *
+ * Organisation-authored domain and industry packs, stored in the database as
+ * immutable semver versions (TenantDomainPack / TenantDomainPackVersion).
+ *
+ * - A tenant pack shadows the built-in pack with the same key and kind for
+ *   that organisation only. "Fork" copies a built-in pack as version 1.0.0.
+ * - Lookups use the latest published version unless a workshop is pinned to
+ *   a specific version (Workshop.domainPackVersionId).
+ * - Every version is validated against DomainPackSchema before it is stored.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { DOMAIN_PACKS, type DomainPack, type TenantDomainPacks } from './registry';
+import { INDUSTRY_PACKS } from './industry-packs';
+import { validateDomainPack } from './schema';
+import {
+  INITIAL_VERSION,
+  bumpVersion,
+  compareSemver,
+  diffDomainPacks,
+  parseSemver,
+  type DomainPackDiff,
+  type SemverBump,
+} from './versioning';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type DomainPackKind = 'domain' | 'industry';
+
+export const DOMAIN_PACK_KINDS: DomainPackKind[] = ['domain', 'industry'];
+
+export class DomainPackError extends Error {
+  constructor(
+    message: string,
+    readonly status: 400 | 404 | 409 = 400,
+    readonly details?: Array<{ path: string; message: string }>,
+  ) {
+    super(message);
+    this.name = 'DomainPackError';
+  }
+}
+
+type VersionRow = { id: string; version: string; config: Prisma.JsonValue };
+
+// ---------------------------------------------------------------------------
+// Built-in packs
+// ---------------------------------------------------------------------------
+
+export function builtInPacks(kind: DomainPackKind): Record<string, DomainPack> {
+  return kind === 'industry' ? INDUSTRY_PACKS : DOMAIN_PACKS;
+}
+
+/** Config of a stored version, tagged with its version and id. */
+export function packFromVersion(row: VersionRow): DomainPack {
+  return { ...(row.config as unknown as DomainPack), version: row.version, versionId: row.id };
+}
+
+function emptyTenantPacks(): TenantDomainPacks {
+  return { domain: {}, industry: {} };
+}
+
+function asKind(kind: string): DomainPackKind {
+  return kind === 'industry' ? 'industry' : 'domain';
+}
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+/**
+ * Latest published version of every active tenant pack for an organisation.
+ * Falls back to no tenant packs (built-ins only) if the lookup fails.
+ */
+export async function loadTenantDomainPacks(organizationId: string | null | undefined): Promise<TenantDomainPacks> {
+  const packs = emptyTenantPacks();
+  if (!organizationId) return packs;
+
+  try {
+    const rows = await prisma.tenantDomainPack.findMany({
+      where: { organizationId, archivedAt: null },
+      select: {
+        key: true,
+        kind: true,
+        versions: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { id: true, version: true, config: true },
+        },
+      },
+    });
+    for (const row of rows) {
+      const latest = row.versions[0];
+      if (latest) packs[asKind(row.kind)][row.key] = packFromVersion(latest);
+    }
+  } catch (error) {
+    console.error('[DomainPacks] Failed to load tenant packs:', error);
+  }
+
+  return packs;
+}
+
+/** One stored version, scoped to the organisation that owns it. */
+export async function getTenantPackVersion(
+  organizationId: string,
+  versionId: string,
+): Promise<{ pack: DomainPack; kind: DomainPackKind } | null> {
+  const row = await prisma.tenantDomainPackVersion.findFirst({
+    where: { id: versionId, pack: { organizationId } },
+    select: { id: true, version: true, config: true, pack: { select: { kind: true } } },
+  });
+  return row ? { pack: packFromVersion(row), kind: asKind(row.pack.kind) } : null;
+}
+
+/**
+ * Tenant packs as seen by one workshop: the organisation's latest versions,
+ * with the workshop's pinned version (if any) in place of its pack's latest.
+ */
+export async function loadWorkshopDomainPacks(workshop: {
+  organizationId: string | null | undefined;
+  domainPackVersionId?: string | null;
+}): Promise<TenantDomainPacks> {
+  const packs = await loadTenantDomainPacks(workshop.organizationId);
+  if (!workshop.organizationId || !workshop.domainPackVersionId) return packs;
+
+  try {
+    const pinned = await getTenantPackVersion(workshop.organizationId, workshop.domainPackVersionId);
+    if (pinned) packs[pinned.kind][pinned.pack.key] = pinned.pack;
+  } catch (error) {
+    console.error('[DomainPacks] Failed to load pinned pack version:', error);
+  }
+  return packs;
+}
+
+// ---------------------------------------------------------------------------
+// Authoring
+// ---------------------------------------------------------------------------
+
+function validOrThrow(config: unknown): DomainPack {
+  const result = validateDomainPack(config);
+  if (!result.success) throw new DomainPackError('Domain pack failed validation', 400, result.errors);
+  return result.pack;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+/**
+ * Create a tenant pack at version 1.0.0, either from an authored config or
+ * by forking a built-in pack (optionally under a new key).
+ */
+export async function createTenantDomainPack(params: {
+  organizationId: string;
+  userId: string;
+  kind: DomainPackKind;
+  config?: unknown;
+  forkFrom?: string;
+  key?: string;
+  changelog?: string | null;
+}) {
+  let config = params.config;
+  if (params.forkFrom) {
+    const source = builtInPacks(params.kind)[params.forkFrom];
+    if (!source) throw new DomainPackError(`Unknown built-in ${params.kind} pack "${params.forkFrom}"`, 404);
+    config = { ...source, ...(params.key ? { key: params.key } : {}) };
+  }
+  if (!config) throw new DomainPackError('Provide a pack config or a built-in pack to fork');
+
+  const pack = validOrThrow(config);
+
+  try {
+    return await prisma.tenantDomainPack.create({
+      data: {
+        organizationId: params.organizationId,
+        key: pack.key,
+        kind: params.kind,
+        label: pack.label,
+        forkedFromKey: params.forkFrom ?? null,
+        latestVersion: INITIAL_VERSION,
+        createdById: params.userId,
+        versions: {
+          create: {
+            version: INITIAL_VERSION,
+            config: pack as unknown as Prisma.InputJsonValue,
+            changelog: params.changelog ?? (params.forkFrom ? `Forked from built-in pack "${params.forkFrom}"` : null),
+            createdById: params.userId,
+          },
+        },
+      },
+      include: { versions: { select: { id: true, version: true, changelog: true, createdAt: true } } },
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new DomainPackError(`A ${params.kind} pack with key "${pack.key}" already exists`, 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Publish a new immutable version. The version number is either given
+ * explicitly (must be greater than the latest) or bumped from the latest —
+ * by `bump`, or by the diff's suggested bump when omitted.
+ */
+export async function publishDomainPackVersion(params: {
+  organizationId: string;
+  packId: string;
+  userId: string;
+  config: unknown;
+  version?: string;
+  bump?: SemverBump;
+  changelog?: string | null;
+}) {
+  const existing = await prisma.tenantDomainPack.findFirst({
+    where: { id: params.packId, organizationId: params.organizationId },
+    select: {
+      id: true,
+      key: true,
+      versions: { orderBy: { createdAt: 'desc' }, take: 1, select: { id: true, version: true, config: true } },
+    },
+  });
+  if (!existing) throw new DomainPackError('Domain pack not found', 404);
+
+  const pack = validOrThrow(params.config);
+  if (pack.key !== existing.key) {
+    throw new DomainPackError(`Pack key cannot change between versions (expected "${existing.key}")`);
+  }
+
+  const latest = existing.versions[0] ? packFromVersion(existing.versions[0]) : null;
+  let version = params.version;
+  if (version) {
+    if (!parseSemver(version)) throw new DomainPackError(`"${version}" is not a valid semantic version (MAJOR.MINOR.PATCH)`);
+    if (latest?.version && compareSemver(version, latest.version) <= 0) {
+      throw new DomainPackError(`Version ${version} must be greater than the latest version ${latest.version}`, 409);
+    }
+  } else if (latest?.version) {
+    const diff = diffDomainPacks(latest, pack);
+    if (diff.changes.length === 0) throw new DomainPackError('No changes since the latest version', 409);
+    version = bumpVersion(latest.version, params.bump ?? diff.suggestedBump);
+  } else {
+    version = INITIAL_VERSION;
+  }
+
+  try {
+    const [created] = await prisma.$transaction([
+      prisma.tenantDomainPackVersion.create({
+        data: {
+          packId: existing.id,
+          version,
+          config: pack as unknown as Prisma.InputJsonValue,
+          changelog: params.changelog ?? null,
+          createdById: params.userId,
+        },
+        select: { id: true, version: true, changelog: true, createdAt: true },
+      }),
+      prisma.tenantDomainPack.update({
+        where: { id: existing.id },
+        data: { label: pack.label, latestVersion: version },
+      }),
+    ]);
+    return created;
+  } catch (error) {
+    if (isUniqueViolation(error)) throw new DomainPackError(`Version ${version} already exists`, 409);
+    throw error;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+/**
+ * Diff two versions of a tenant pack. `from` may also be "builtin" to compare
+ * against the built-in pack it was forked from (or shadows).
+ */
+export async function diffTenantPackVersions(params: {
+  organizationId: string;
+  packId: string;
+  from: string;
+  to: string;
+}): Promise<DomainPackDiff & { from: string; to: string }> {
+  const existing = await prisma.tenantDomainPack.findFirst({
+    where: { id: params.packId, organizationId: params.organizationId },
+    select: {
+      key: true,
+      kind: true,
+      forkedFromKey: true,
+      versions: {
+        where: { version: { in: [params.from, params.to] } },
+        select: { id: true, version: true, config: true },
+      },
+    },
+  });
+  if (!existing) throw new DomainPackError('Domain pack not found', 404);
+
+  const resolve = (version: string): DomainPack => {
+    if (version === 'builtin') {
+      const builtIn = builtInPacks(asKind(existing.kind))[existing.forkedFromKey ?? existing.key];
+      if (!builtIn) throw new DomainPackError('This pack has no built-in counterpart', 404);
+      return builtIn;
+    }
+    const row = existing.versions.find((v) => v.version === version);
+    if (!row) throw new DomainPackError(`Version ${version} not found`, 404);
+    return packFromVersion(row);
+  };
+
+  return { from: params.from, to: params.to, ...diffDomainPacks(resolve(params.from), resolve(params.to)) };
+}
@@ -0,0 +1,149 @@
+/**
+ * Domain Pack Versioning
+ *
+ * Semantic version helpers and a structural diff between two DomainPack
+ * configs. Pure functions — used by the tenant pack store and the admin
+ * editor's version comparison view.
+ */
+
+import type { DomainPack } from './registry';
+
+// ---------------------------------------------------------------------------
+// Semantic versions
+// ---------------------------------------------------------------------------
+
+export type SemverBump = 'major' | 'minor' | 'patch';
+
+export const INITIAL_VERSION = '1.0.0';
+
+const SEMVER_PATTERN = /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)$/;
+
+/** Parse "MAJOR.MINOR.PATCH". Pre-release and build suffixes are not supported. */
+export function parseSemver(version: string): [number, number, number] | null {
+  const match = SEMVER_PATTERN.exec(version.trim());
+  if (!match) return null;
+  return [Number(match[1]), Number(match[2]), Number(match[3])];
+}
+
+/** Negative if a < b, positive if a > b, 0 if equal. Throws on invalid input. */
+export function compareSemver(a: string, b: string): number {
+  const pa = parseSemver(a);
+  const pb = parseSemver(b);
+  if (!pa || !pb) throw new Error(`Invalid semantic version: ${!pa ? a : b}`);
+  for (let i = 0; i < 3; i++) {
+    if (pa[i] !== pb[i]) return pa[i] - pb[i];
+  }
+  return 0;
+}
+
+export function bumpVersion(version: string, bump: SemverBump): string {
+  const parsed = parseSemver(version);
+  if (!parsed) throw new Error(`Invalid semantic version: ${version}`);
+  const [major, minor, patch] = parsed;
+  if (bump === 'major') return `${major + 1}.0.0`;
+  if (bump === 'minor') return `${major}.${minor + 1}.0`;
+  return `${major}.${minor}.${patch + 1}`;
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+export type DomainPackChange = {
+  /** Dotted path, e.g. "metricReferences.aht" or "lenses.Customer" */
+  path: string;
+  change: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+};
+
+export type DomainPackDiff = {
+  changes: DomainPackChange[];
+  /** Smallest semver bump that describes the changes */
+  suggestedBump: SemverBump;
+};
+
+type PackField = Exclude<keyof DomainPack, 'version' | 'versionId'>;
+
+const SCALAR_FIELDS: PackField[] = ['key', 'label', 'description', 'category'];
+
+type ListItem = Record<string, unknown>;
+
+/** List fields compared item by item, and how each item is identified. */
+const KEYED_LIST_FIELDS: Array<[PackField, (item: ListItem) => string]> = [
+  ['actorTaxonomy', (a) => String(a.key)],
+  ['metricReferences', (m) => String(m.key)],
+  ['diagnosticOutputFields', (f) => String(f.key)],
+  ['discoveryLenses', (l) => String(l.key)],
+  ['journeyStages', (s) => String(s.stage)],
+  ['questionTemplates', (q) => `${q.lens}: ${q.text}`],
+  ['discoveryQuestionTemplates', (q) => `${q.lens}: ${q.text}`],
+];
+
+/** Removing these breaks workshops and metrics that reference them by key. */
+const BREAKING_REMOVALS = new Set<string>(['lenses', 'metricReferences', 'discoveryLenses', 'actorTaxonomy']);
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffKeyed(
+  path: string,
+  before: Map<string, unknown>,
+  after: Map<string, unknown>,
+  changes: DomainPackChange[],
+): void {
+  for (const [key, value] of before) {
+    if (!after.has(key)) changes.push({ path: `${path}.${key}`, change: 'removed', before: value });
+    else if (!same(value, after.get(key))) {
+      changes.push({ path: `${path}.${key}`, change: 'changed', before: value, after: after.get(key) });
+    }
+  }
+  for (const [key, value] of after) {
+    if (!before.has(key)) changes.push({ path: `${path}.${key}`, change: 'added', after: value });
+  }
+}
+
+/**
+ * Structural diff from `from` to `to`. Keyed lists are matched by key (or
+ * stage / lens + text), so reordering alone is not reported as a change.
+ */
+export function diffDomainPacks(from: DomainPack, to: DomainPack): DomainPackDiff {
+  const changes: DomainPackChange[] = [];
+
+  for (const field of SCALAR_FIELDS) {
+    if (!same(from[field], to[field])) {
+      changes.push({ path: field, change: 'changed', before: from[field], after: to[field] });
+    }
+  }
+
+  diffKeyed(
+    'lenses',
+    new Map(from.lenses.map((l) => [l, l])),
+    new Map(to.lenses.map((l) => [l, l])),
+    changes,
+  );
+
+  for (const [field, keyOf] of KEYED_LIST_FIELDS) {
+    const toMap = (pack: DomainPack) =>
+      new Map(((pack[field] as unknown as ListItem[] | undefined) ?? []).map((item) => [keyOf(item), item]));
+    diffKeyed(field, toMap(from), toMap(to), changes);
+  }
+
+  diffKeyed(
+    'engagementVariants',
+    new Map(Object.entries(from.engagementVariants ?? {})),
+    new Map(Object.entries(to.engagementVariants ?? {})),
+    changes,
+  );
+
+  const breaking = changes.some(
+    (c) => (c.change === 'removed' && BREAKING_REMOVALS.has(c.path.split('.')[0])) || c.path === 'key',
+  );
+  const additive = changes.some((c) => c.change === 'added' || c.change === 'removed');
+
+  return {
+    changes,
+    suggestedBump: breaking ? 'major' : additive ? 'minor' : 'patch',
+  };
+}
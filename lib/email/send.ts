@@ -8,6 +8,9 @@ import {
   welcomeEmailText,
   tenantOnboardingTemplate,
   tenantOnboardingText,
+  roadmapDigestTemplate,
+  roadmapDigestText,
+  type RoadmapDigestItem,
 } from './templates';
 
 let _resend: Resend | null = null;
@@ -213,3 +216,35 @@ export async function sendTenantOnboarding(params: {
     throw error;
   }
 }
+
+export async function sendRoadmapDigest(params: {
+  to: string;
+  recipientName: string;
+  organizationName: string;
+  roadmapUrl: string;
+  items: RoadmapDigestItem[];
+}) {
+  const templateData = {
+    recipientName: params.recipientName,
+    organizationName: params.organizationName,
+    roadmapUrl: params.roadmapUrl,
+    items: params.items,
+  };
+  const html = roadmapDigestTemplate(templateData);
+  const text = roadmapDigestText(templateData);
+
+  const { data, error } = await getResend().emails.send({
+    from: orgFromEmail(params.organizationName),
+    to: [params.to],
+    subject: `${params.organizationName} — ${params.items.length} roadmap initiative${params.items.length === 1 ? '' : 's'} overdue or blocked`,
+    html,
+    text,
+  });
+
+  if (error) {
+    console.error('Failed to send roadmap digest:', error);
+    throw new Error(error.message);
+  }
+
+  return { success: true, emailId: data?.id };
+}
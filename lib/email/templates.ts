@@ -461,3 +461,109 @@ export function tenantOnboardingTemplate(data: TenantOnboardingData): string {
 </html>
   `.trim();
 }
+
+// ─── Roadmap Digest Email ──────────────────────────────────────────────────
+
+export interface RoadmapDigestItem {
+  title: string;
+  workshopName: string;
+  phase: string;
+  owner: string | null;
+  status: string;
+  dueDate: string | null;
+  overdue: boolean;
+  blocked: boolean;
+  latestNote: string | null;
+}
+
+interface RoadmapDigestData {
+  recipientName: string;
+  organizationName: string;
+  roadmapUrl: string;
+  items: RoadmapDigestItem[];
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function digestFlags(item: RoadmapDigestItem): string {
+  return [item.blocked && 'Blocked', item.overdue && `Overdue (due ${item.dueDate})`].filter(Boolean).join(' · ');
+}
+
+export function roadmapDigestTemplate(data: RoadmapDigestData): string {
+  const rows = data.items.map((item) => `
+      <div style="border: 1px solid #E5E7EB; border-left: 4px solid ${item.blocked ? '#EF4444' : '#F59E0B'}; border-radius: 6px; padding: 12px 14px; margin-bottom: 10px; background: #FFFFFF;">
+        <p style="color: #111827; margin: 0 0 4px 0; font-size: 15px; font-weight: 600;">${escapeHtml(item.title)}</p>
+        <p style="color: ${item.blocked ? '#B91C1C' : '#B45309'}; margin: 0 0 4px 0; font-size: 13px; font-weight: 600;">${escapeHtml(digestFlags(item))}</p>
+        <p style="color: #6B7280; margin: 0; font-size: 13px;">${escapeHtml(item.workshopName)} · ${escapeHtml(item.phase)}${item.owner ? ` · Owner: ${escapeHtml(item.owner)}` : ' · No owner'}</p>
+        ${item.latestNote ? `<p style="color: #374151; margin: 6px 0 0 0; font-size: 13px; font-style: italic;">“${escapeHtml(item.latestNote)}”</p>` : ''}
+      </div>`).join('');
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Roadmap Digest</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 40px 20px;">
+
+    <!-- Header -->
+    <div style="text-align: center; margin-bottom: 40px;">
+      <h1 style="color: #4F46E5; margin: 0 0 10px 0; font-size: 28px;">DREAM Discovery</h1>
+      <p style="color: #6B7280; margin: 0; font-size: 14px;">${escapeHtml(data.organizationName)} · Roadmap Digest</p>
+    </div>
+
+    <!-- Main Content -->
+    <div style="background: #F9FAFB; border-radius: 12px; padding: 30px; margin-bottom: 30px;">
+      <h2 style="color: #111827; margin: 0 0 20px 0; font-size: 22px;">Hi ${escapeHtml(data.recipientName)},</h2>
+
+      <p style="color: #374151; line-height: 1.6; margin: 0 0 20px 0; font-size: 16px;">
+        ${data.items.length} roadmap initiative${data.items.length === 1 ? ' needs' : 's need'} attention:
+      </p>
+
+      ${rows}
+
+      <!-- CTA Button -->
+      <div style="text-align: center; margin: 30px 0 0 0;">
+        <a href="${data.roadmapUrl}" style="display: inline-block; background: #4F46E5; color: #FFFFFF; text-decoration: none; padding: 14px 32px; border-radius: 8px; font-weight: 600; font-size: 16px;">
+          Update the Roadmap
+        </a>
+      </div>
+    </div>
+
+    <!-- Footer -->
+    <div style="text-align: center; padding-top: 20px; border-top: 1px solid #E5E7EB;">
+      <p style="color: #9CA3AF; font-size: 12px; margin: 0;">
+        © ${new Date().getFullYear()} ${escapeHtml(data.organizationName)} · Powered by DREAM Discovery
+      </p>
+    </div>
+
+  </div>
+</body>
+</html>
+  `.trim();
+}
+
+export function roadmapDigestText(data: RoadmapDigestData): string {
+  return [
+    `Hi ${data.recipientName},`,
+    '',
+    `${data.items.length} roadmap initiative${data.items.length === 1 ? ' needs' : 's need'} attention:`,
+    '',
+    ...data.items.flatMap((item) => [
+      `- ${item.title} [${digestFlags(item)}]`,
+      `  ${item.workshopName} · ${item.phase} · ${item.owner ? `Owner: ${item.owner}` : 'No owner'}`,
+      ...(item.latestNote ? [`  Latest note: ${item.latestNote}`] : []),
+    ]),
+    '',
+    'Update the roadmap here:',
+    data.roadmapUrl,
+    '',
+    '---',
+    `© ${new Date().getFullYear()} ${data.organizationName} · Powered by DREAM Discovery`,
+  ].join('\n').trim();
+}
@@ -3,7 +3,7 @@
  *
  * Core embedding utilities.
  *
- * - generateEmbedding(text)    — calls text-embedding-3-small via openAiBreaker
+ * - generateEmbedding(text)    — calls the configured embedding provider (lib/llm)
  * - embedAndStore(table, id, text) — generates + writes to DB column
  * - embedAsync(table, id, text)   — fire-and-forget, never blocks caller
  *
@@ -11,15 +11,12 @@
  * The vector value is pure numbers so safe to interpolate; id is parameterised.
  */
 
-import OpenAI from 'openai';
-import { env } from '@/lib/env';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+import { getLLMClient } from '@/lib/llm';
 import { prisma } from '@/lib/prisma';
 
-const openai = env.OPENAI_API_KEY ? new OpenAI({ apiKey: env.OPENAI_API_KEY }) : null;
+const llm = getLLMClient('embeddings');
 
-const EMBEDDING_MODEL = 'text-embedding-3-small';
-// 32,000 chars ≈ 8,000 tokens — safe ceiling for this model
+// 32,000 chars ≈ 8,000 tokens — safe ceiling for text-embedding-3-small
 const MAX_CHARS = 32_000;
 
 export type EmbeddableTable =
@@ -68,19 +65,16 @@ export function buildEmbedText(
 
 /**
  * Generate a 1536-dimensional embedding vector for the given text.
- * Throws if OpenAI is unavailable or returns an unexpected response.
+ * Throws if the embedding provider is unavailable or returns an unexpected response.
  */
 export async function generateEmbedding(text: string): Promise<number[]> {
-  if (!openai) {
-    throw new Error('[embeddings] OPENAI_API_KEY not configured');
+  if (!llm.isEmbeddingConfigured()) {
+    throw new Error('[embeddings] Embedding provider not configured');
   }
   const input = text.slice(0, MAX_CHARS);
-  const resp = await openAiBreaker.execute(() =>
-    openai!.embeddings.create({ model: EMBEDDING_MODEL, input })
-  );
-  const vector = resp.data?.[0]?.embedding;
+  const [vector] = await llm.embed(input);
   if (!Array.isArray(vector) || vector.length === 0) {
-    throw new Error('[embeddings] Empty embedding returned from OpenAI');
+    throw new Error('[embeddings] Empty embedding returned from provider');
   }
   return vector;
 }
@@ -1,7 +1,8 @@
 /**
  * lib/embeddings/interpret-artefact.ts
  *
- * Converts non-text artefacts into embeddable text descriptions via GPT-4o Vision.
+ * Converts non-text artefacts into embeddable text descriptions via a vision
+ * model (standard tier of the LLM provider layer).
  *
  * All artefact types produce text output that goes into the same 1536-dim
  * embedding space as every other knowledge source.
@@ -14,11 +15,9 @@
  *   - Diagrams → structure and flow explained
  */
 
-import OpenAI from 'openai';
-import { env } from '@/lib/env';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+import { getLLMClient } from '@/lib/llm';
 
-const openai = env.OPENAI_API_KEY ? new OpenAI({ apiKey: env.OPENAI_API_KEY }) : null;
+const llm = getLLMClient('interpret-artefact');
 
 export type ArtefactType = 'whiteboard' | 'sticky_notes' | 'diagram' | 'photo' | 'handwritten';
 
@@ -63,7 +62,7 @@ const DETAIL: Record<ArtefactType, 'high' | 'low'> = {
 };
 
 /**
- * Interpret an image artefact via GPT-4o Vision and return a structured
+ * Interpret an image artefact via a vision model and return a structured
  * text description ready for embedding.
  *
  * @param imageUrl  Publicly accessible URL or base64 data URL (data:image/...)
@@ -74,38 +73,36 @@ export async function interpretImageArtefact(
   imageUrl: string,
   artefactType: ArtefactType
 ): Promise<string> {
-  if (!openai) {
-    throw new Error('[embeddings] OPENAI_API_KEY not configured');
+  if (!llm.isConfigured()) {
+    throw new Error('[embeddings] No LLM provider configured');
   }
 
   const prompt = PROMPTS[artefactType];
   const detail = DETAIL[artefactType];
 
-  const response = await openAiBreaker.execute(() =>
-    openai!.chat.completions.create({
-      model: 'gpt-4o',
-      max_tokens: 1024,
-      messages: [
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'image_url',
-              image_url: { url: imageUrl, detail },
-            },
-            {
-              type: 'text',
-              text: prompt,
-            },
-          ],
-        },
-      ],
-    })
-  );
+  const response = await llm.chat({
+    tier: 'standard',
+    maxTokens: 1024,
+    messages: [
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'image_url',
+            image_url: { url: imageUrl, detail },
+          },
+          {
+            type: 'text',
+            text: prompt,
+          },
+        ],
+      },
+    ],
+  });
 
-  const description = response.choices[0]?.message?.content?.trim();
+  const description = response.content.trim();
   if (!description) {
-    throw new Error('[embeddings] GPT-4o Vision returned empty description');
+    throw new Error('[embeddings] Vision model returned empty description');
   }
 
   return description;
@@ -18,6 +18,7 @@
 
 import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import { decryptForTenant, isTenantCiphertext } from '@/lib/tenant-encryption';
 import { generateEmbedding, type EmbeddableTable } from './embed';
 
 export interface RetrievalOptions {
@@ -176,6 +177,25 @@ function mapRows(source: EmbeddableTable, rows: RawRow[]): RetrievedChunk[] {
   }));
 }
 
+/**
+ * Message, transcript and capture segment text may be stored under the
+ * organisation's data key (lib/workshop-encryption.ts). Rows that cannot be
+ * decrypted (e.g. shredded keys) are dropped rather than returned as ciphertext.
+ */
+async function decryptRowText(rows: RawRow[]): Promise<RawRow[]> {
+  const decrypted = await Promise.all(
+    rows.map(async (r) => {
+      if (!isTenantCiphertext(r.text)) return r;
+      try {
+        return { ...r, text: await decryptForTenant(r.text) };
+      } catch {
+        return null;
+      }
+    })
+  );
+  return decrypted.filter((r): r is RawRow => r !== null);
+}
+
 /**
  * Build optional workshop filter clauses for tables whose workshopId column is
  * camelCase (no @map on the field). Do NOT use for document_chunks which has
@@ -244,7 +264,7 @@ async function queryConversationMessages(v: string, opts: QueryOpts): Promise<Re
     ORDER  BY cm.embedding <=> ${v}::vector
     LIMIT  ${opts.topK}
   `);
-  return mapRows('conversation_messages', rows);
+  return mapRows('conversation_messages', await decryptRowText(rows));
 }
 
 async function queryDiscoveryThemes(v: string, opts: QueryOpts): Promise<RetrievedChunk[]> {
@@ -284,7 +304,7 @@ async function queryTranscriptChunks(v: string, opts: QueryOpts): Promise<Retrie
     ORDER  BY tc.embedding <=> ${v}::vector
     LIMIT  ${opts.topK}
   `);
-  return mapRows('transcript_chunks', rows);
+  return mapRows('transcript_chunks', await decryptRowText(rows));
 }
 
 async function queryDataPoints(v: string, opts: QueryOpts): Promise<RetrievedChunk[]> {
@@ -359,7 +379,7 @@ async function queryCaptureSegments(v: string, opts: QueryOpts): Promise<Retriev
     ORDER  BY seg.embedding <=> ${v}::vector
     LIMIT  ${opts.topK}
   `);
-  return mapRows('capture_segments', rows);
+  return mapRows('capture_segments', await decryptRowText(rows));
 }
 
 async function queryDocumentChunks(v: string, opts: QueryOpts): Promise<RetrievedChunk[]> {
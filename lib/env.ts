@@ -16,6 +16,21 @@ const envSchema = z.object({
   OPENAI_API_KEY: z.string().optional(),
   DEEPGRAM_API_KEY: z.string().optional(),
   ANTHROPIC_API_KEY: z.string().optional(),
+  AZURE_OPENAI_API_KEY: z.string().optional(),
+  AZURE_OPENAI_ENDPOINT: z.string().url().optional(),
+  AZURE_OPENAI_API_VERSION: z.string().optional(),
+  // LLM provider selection — see lib/llm/config.ts for resolution order
+  LLM_PROVIDER: z.enum(['openai', 'azure-openai', 'anthropic', 'fixture']).optional(),
+  LLM_MODEL_STANDARD: z.string().optional(),
+  LLM_MODEL_FAST: z.string().optional(),
+  LLM_EMBEDDING_MODEL: z.string().optional(),
+  LLM_CONFIG: z.string().optional(),
+  LLM_FIXTURE_DIR: z.string().optional(),
+  // Realtime event bus backend — see lib/realtime/event-bus.ts (default: memory)
+  REALTIME_BUS: z.enum(['memory', 'postgres', 'redis']).optional(),
+  // Master-key provider for tenant data keys — see lib/kms (default: local)
+  KMS_PROVIDER: z.enum(['local']).optional(),
+  LOCAL_KMS_KEY_FILE: z.string().optional(),
   RESEND_API_KEY: z.string().optional(),
   FROM_EMAIL: fromEmailSchema.optional(),
   NEXT_PUBLIC_APP_URL: z.string().url().default('http://localhost:3000'),
@@ -13,7 +13,9 @@
  */
 
 import type { NormalisedEvidenceDocument, CrossDocSynthesis } from './types';
-import { env } from '@/lib/env';
+import { getLLMClient } from '@/lib/llm';
+
+const llm = getLLMClient('evidence-cross-doc-synthesis');
 
 // ── Agent ──────────────────────────────────────────────────────────────────
 
@@ -24,13 +26,10 @@ import { env } from '@/lib/env';
 export async function runCrossDocSynthesis(
   docs: NormalisedEvidenceDocument[],
 ): Promise<CrossDocSynthesis> {
-  if (!env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY not configured');
+  if (!llm.isConfigured()) {
+    throw new Error('LLM provider not configured');
   }
 
-  const OpenAI = (await import('openai')).default;
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
-
   const docSummaries = docs.map((d) => ({
     id: d.id,
     name: d.originalFileName,
@@ -102,14 +101,14 @@ Respond ONLY with valid JSON matching this exact schema:
   "workshopLevelSummary": "string — 2-4 sentence narrative"
 }`;
 
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o',
+  const response = await llm.chat({
+    tier: 'standard',
     temperature: 0.1,
-    response_format: { type: 'json_object' },
+    responseFormat: 'json',
     messages: [{ role: 'user', content: prompt }],
   });
 
-  const raw = response.choices[0]?.message?.content ?? '{}';
+  const raw = response.content || '{}';
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const parsed = JSON.parse(raw) as Record<string, any>;
 
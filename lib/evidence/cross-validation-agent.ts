@@ -17,10 +17,11 @@
  *   3. Automatically when new documents are added to an existing set
  */
 
-import OpenAI from 'openai';
-import { env } from '@/lib/env';
+import { getLLMClient } from '@/lib/llm';
 import type { CrossValidationResult, NormalisedEvidenceDocument } from './types';
 
+const llm = getLLMClient('evidence-cross-validation');
+
 export interface DiscoverySnapshot {
   /** Top-level themes from discovery analysis */
   themes: string[];
@@ -249,8 +250,8 @@ export async function runCrossValidation(
   discovery: DiscoverySnapshot,
   docs: NormalisedEvidenceDocument[],
 ): Promise<CrossValidationResult> {
-  if (!env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY not configured');
+  if (!llm.isConfigured()) {
+    throw new Error('LLM provider not configured');
   }
 
   const readyDocs = docs.filter(d => d.status === 'ready');
@@ -269,19 +270,17 @@ export async function runCrossValidation(
     };
   }
 
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
-
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o',
+  const response = await llm.chat({
+    tier: 'standard',
     temperature: 0.1,
-    response_format: { type: 'json_object' },
+    responseFormat: 'json',
     messages: [
       { role: 'system', content: SYSTEM_PROMPT },
       { role: 'user', content: buildPrompt(discovery, readyDocs) },
     ],
   });
 
-  const raw = response.choices[0]?.message?.content;
+  const raw = response.content;
   if (!raw) throw new Error('No response from cross-validation agent');
 
   let parsed: Omit<CrossValidationResult, 'generatedAt'>;
@@ -10,9 +10,11 @@
  *   XLSX   → xlsx (rows as readable text)
  *   CSV    → xlsx (same path)
  *   PPTX   → officeparser (slide text)
- *   Images → OpenAI Vision API (gpt-4o)
+ *   Images → vision model via the LLM provider layer (standard tier)
  *   Screenshots → same as images
  *   TXT    → direct read
+ *   Audio / video → transcription provider (lib/transcription/providers/file-transcription.ts),
+ *            segmented by speaker and topic with timestamps (lib/evidence/media.ts)
  */
 
 import type { RawFileExtraction } from './types';
@@ -129,20 +131,18 @@ async function extractPptx(buffer: Buffer): Promise<RawFileExtraction> {
 }
 
 async function extractImage(buffer: Buffer, mimeType: string, fileName: string): Promise<RawFileExtraction> {
-  const { env } = await import('@/lib/env');
-  if (!env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY not configured — cannot extract image content');
+  const { getLLMClient } = await import('@/lib/llm');
+  const llm = getLLMClient('evidence-extraction');
+  if (!llm.isConfigured()) {
+    throw new Error('No LLM provider configured — cannot extract image content');
   }
 
-  const OpenAI = (await import('openai')).default;
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
-
   const base64 = buffer.toString('base64');
   const dataUrl = `data:${mimeType};base64,${base64}`;
 
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o',
-    max_tokens: 2000,
+  const response = await llm.chat({
+    tier: 'standard',
+    maxTokens: 2000,
     messages: [
       {
         role: 'user',
@@ -168,12 +168,36 @@ If this is a screenshot, describe every panel and metric visible.`,
   });
 
   return {
-    text: response.choices[0]?.message?.content ?? '',
+    text: response.content,
     extractionMethod: 'vision',
     mimeType,
   };
 }
 
+async function extractMedia(buffer: Buffer, mimeType: string, fileName: string): Promise<RawFileExtraction> {
+  const { createFileTranscriber } = await import('@/lib/transcription/providers/file-transcription');
+  const { formatTranscript, segmentTranscript } = await import('./media');
+
+  const transcriber = createFileTranscriber();
+  if (!transcriber) {
+    throw new Error('No transcription provider configured (DEEPGRAM_API_KEY or OPENAI_API_KEY) — cannot transcribe recordings');
+  }
+
+  const chunks = await transcriber.transcribe({ buffer, mimeType, fileName });
+  const mediaSegments = segmentTranscript(chunks);
+  if (mediaSegments.length === 0) {
+    throw new Error(`No speech found in ${fileName}`);
+  }
+
+  return {
+    text: formatTranscript(mediaSegments),
+    durationMs: mediaSegments[mediaSegments.length - 1].endMs,
+    mediaSegments,
+    extractionMethod: 'transcription',
+    mimeType,
+  };
+}
+
 async function extractText(buffer: Buffer, mimeType: string): Promise<RawFileExtraction> {
   return {
     text: buffer.toString('utf-8'),
@@ -187,11 +211,16 @@ async function extractText(buffer: Buffer, mimeType: string): Promise<RawFileExt
 /**
  * Extract readable content from any supported file type.
  * Dispatches by MIME type. No user mapping required.
+ *
+ * Pass `vision: false` when the image must not leave the platform unredacted
+ * (PII redaction on) — images are then refused rather than sent to the
+ * Vision API.
  */
 export async function extractFileContent(
   buffer: Buffer,
   mimeType: string,
   fileName: string,
+  options: { vision?: boolean } = {},
 ): Promise<RawFileExtraction> {
   const mime = mimeType.toLowerCase();
   const ext = fileName.split('.').pop()?.toLowerCase() ?? '';
@@ -235,9 +264,17 @@ export async function extractFileContent(
     mime.startsWith('image/') ||
     ['png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp', 'tiff'].includes(ext)
   ) {
+    if (options.vision === false) {
+      throw new Error('Images cannot be processed while PII redaction is enabled — upload the content as a document instead');
+    }
     return extractImage(buffer, mimeType, fileName);
   }
 
+  // Audio & video recordings (town halls, call samples, training videos)
+  if (isMediaFile(mime, fileName)) {
+    return extractMedia(buffer, mimeType, fileName);
+  }
+
   // Plain text
   if (mime === 'text/plain' || mime === 'text/markdown' || ext === 'txt' || ext === 'md') {
     return extractText(buffer, mimeType);
@@ -259,6 +296,8 @@ export function fileTypeLabel(mimeType: string, fileName: string): string {
   if (ext === 'csv') return 'CSV Data';
   if (ext === 'pptx' || ext === 'ppt') return 'PowerPoint Presentation';
   if (mime.startsWith('image/')) return 'Image / Screenshot';
+  if (mime.startsWith('video/') || VIDEO_EXTENSIONS.includes(ext)) return 'Video Recording';
+  if (mime.startsWith('audio/') || AUDIO_EXTENSIONS.includes(ext)) return 'Audio Recording';
   if (ext === 'txt') return 'Text File';
   return 'Document';
 }
@@ -268,6 +307,7 @@ export function fileTypeLabel(mimeType: string, fileName: string): string {
  */
 export function maxFileSizeForType(mimeType: string): number {
   if (mimeType.startsWith('image/')) return 10 * 1024 * 1024;   // 10 MB
+  if (mimeType.startsWith('audio/') || mimeType.startsWith('video/')) return 200 * 1024 * 1024; // 200 MB
   if (mimeType === 'application/pdf') return 50 * 1024 * 1024;  // 50 MB
   return 25 * 1024 * 1024;                                       // 25 MB default
 }
@@ -288,4 +328,28 @@ export const ACCEPTED_EVIDENCE_MIME_TYPES = [
   'image/webp',
   'image/gif',
   'text/plain',
+  'audio/mpeg',
+  'audio/mp3',
+  'audio/wav',
+  'audio/x-wav',
+  'audio/mp4',
+  'audio/x-m4a',
+  'audio/aac',
+  'audio/ogg',
+  'audio/webm',
+  'audio/flac',
+  'video/mp4',
+  'video/quicktime',
+  'video/webm',
 ] as const;
+
+export const AUDIO_EXTENSIONS = ['mp3', 'wav', 'm4a', 'aac', 'ogg', 'oga', 'flac'];
+export const VIDEO_EXTENSIONS = ['mp4', 'mov', 'webm', 'm4v'];
+
+/** Whether a file is an audio or video recording (transcribed rather than parsed) */
+export function isMediaFile(mimeType: string, fileName: string): boolean {
+  const mime = mimeType.toLowerCase();
+  const ext = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return mime.startsWith('audio/') || mime.startsWith('video/')
+    || AUDIO_EXTENSIONS.includes(ext) || VIDEO_EXTENSIONS.includes(ext);
+}
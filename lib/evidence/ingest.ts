@@ -0,0 +1,169 @@
+/**
+ * Evidence upload ingestion shared by the admin evidence route and the public API.
+ *
+ * Each file gets an EvidenceDocument row, is stored in the private bucket and
+ * runs through the extraction pipeline. Once any file lands, the workshop's
+ * cross-validation and evidence synthesis are cleared because the document
+ * set they were computed from has changed. Callers handle auth and auditing.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { runEvidencePipeline } from './pipeline';
+import { deleteEvidenceFile, ensureEvidenceBucket, uploadEvidenceFile } from './storage';
+import { ACCEPTED_EVIDENCE_MIME_TYPES, AUDIO_EXTENSIONS, VIDEO_EXTENSIONS, maxFileSizeForType } from './extractor';
+
+export interface EvidenceIngestResult {
+  id: string;
+  fileName: string;
+  status: string;
+  error?: string;
+}
+
+/** Returns a client-facing error for the first unacceptable file, or null */
+export function validateEvidenceFiles(files: File[]): string | null {
+  if (!files || files.length === 0) return 'No files provided';
+
+  const acceptedSet = new Set<string>(ACCEPTED_EVIDENCE_MIME_TYPES);
+  for (const file of files) {
+    const ext = file.name.split('.').pop()?.toLowerCase() ?? '';
+    const mimeOk = acceptedSet.has(file.type) || isAcceptedByExtension(ext);
+    if (!mimeOk) {
+      return `Unsupported file type: ${file.name} (${file.type || `.${ext}`})`;
+    }
+    // When the browser doesn't send a MIME type, derive it from the extension so
+    // the size cap is computed correctly (not capped at the 25MB default).
+    const effectiveMime = file.type || guessMimeFromName(file.name);
+    const maxSize = maxFileSizeForType(effectiveMime);
+    if (file.size > maxSize) {
+      return `File too large: ${file.name} (max ${Math.round(maxSize / 1024 / 1024)}MB)`;
+    }
+  }
+  return null;
+}
+
+/** Store and process validated files; per-file failures are reported, not thrown */
+export async function ingestEvidenceFiles(workshopId: string, files: File[]): Promise<EvidenceIngestResult[]> {
+  await ensureEvidenceBucket();
+
+  // Process all files concurrently so total request time is bounded by the
+  // slowest single file rather than growing linearly with file count.
+  const ingestFile = async (file: File): Promise<EvidenceIngestResult> => {
+    // 1. Create DB record immediately (status: uploading)
+    const doc = await prisma.evidenceDocument.create({
+      data: {
+        workshopId,
+        originalFileName: file.name,
+        mimeType: file.type || guessMimeFromName(file.name),
+        fileSizeBytes: file.size,
+        storageKey: '',
+        status: 'uploading',
+      },
+    });
+
+    try {
+      // 2. Upload to private Supabase Storage — store path, not public URL
+      const buffer = Buffer.from(await file.arrayBuffer());
+      const mime = file.type || guessMimeFromName(file.name);
+      const storagePath = await uploadEvidenceFile(buffer, workshopId, doc.id, file.name, mime);
+
+      await prisma.evidenceDocument.update({
+        where: { id: doc.id },
+        data: { storageKey: storagePath },
+      });
+
+      // 3. Run ingestion pipeline (extract → normalise → embed)
+      await runEvidencePipeline(doc.id, workshopId, buffer, file.name, mime, file.size);
+
+      return { id: doc.id, fileName: file.name, status: 'ready' };
+    } catch (err) {
+      console.error(`[evidence] Pipeline failed for ${file.name}:`, err);
+      // Delete the orphaned storage object so the bucket doesn't accumulate failed blobs
+      const currentKey = (await prisma.evidenceDocument.findUnique({
+        where: { id: doc.id },
+        select: { storageKey: true },
+      }))?.storageKey ?? '';
+      if (currentKey) {
+        deleteEvidenceFile(currentKey).catch(storageErr =>
+          console.error('[evidence] Failed to clean up storage object after ingest failure:', storageErr),
+        );
+      }
+      return {
+        id: doc.id,
+        fileName: file.name,
+        status: 'failed',
+        error: err instanceof Error ? err.message : 'Processing failed',
+      };
+    }
+  };
+
+  const settled = await Promise.allSettled(files.map(ingestFile));
+  const results = settled.map(r =>
+    r.status === 'fulfilled'
+      ? r.value
+      : { id: '', fileName: '', status: 'failed', error: 'Unexpected ingest error' },
+  );
+
+  // 4. Invalidate stale CV and synthesis once — after all files are processed.
+  if (results.some(r => r.status === 'ready')) {
+    await invalidateEvidenceDerivatives(workshopId);
+  }
+
+  return results;
+}
+
+/** Clear cross-validation results on all ready docs and the workshop-level synthesis. */
+export async function invalidateEvidenceDerivatives(workshopId: string) {
+  await Promise.all([
+    prisma.evidenceDocument.updateMany({
+      where: { workshopId, status: 'ready' },
+      data: { crossValidation: Prisma.JsonNull },
+    }),
+    prisma.workshop.update({
+      where: { id: workshopId },
+      data: { evidenceSynthesis: Prisma.JsonNull },
+    }),
+  ]);
+}
+
+function isAcceptedByExtension(ext: string): boolean {
+  // .doc excluded — mammoth only supports .docx (OOXML), not legacy binary .doc
+  // .ppt excluded — officeparser only handles .pptx (OOXML), not legacy binary .ppt
+  return [
+    'pdf', 'docx', 'xlsx', 'xls', 'csv', 'pptx',
+    'png', 'jpg', 'jpeg', 'webp', 'gif', 'txt', 'md',
+    ...AUDIO_EXTENSIONS, ...VIDEO_EXTENSIONS,
+  ].includes(ext);
+}
+
+function guessMimeFromName(name: string): string {
+  const ext = name.split('.').pop()?.toLowerCase() ?? '';
+  const map: Record<string, string> = {
+    pdf: 'application/pdf',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    xls: 'application/vnd.ms-excel',
+    csv: 'text/csv',
+    pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    // ppt (legacy binary) intentionally excluded — officeparser cannot process it
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+    gif: 'image/gif',
+    txt: 'text/plain',
+    md: 'text/markdown',
+    mp3: 'audio/mpeg',
+    wav: 'audio/wav',
+    m4a: 'audio/mp4',
+    aac: 'audio/aac',
+    ogg: 'audio/ogg',
+    oga: 'audio/ogg',
+    flac: 'audio/flac',
+    mp4: 'video/mp4',
+    m4v: 'video/mp4',
+    mov: 'video/quicktime',
+    webm: 'video/webm',
+  };
+  return map[ext] ?? 'application/octet-stream';
+}
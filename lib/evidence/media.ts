@@ -0,0 +1,230 @@
+/**
+ * lib/evidence/media.ts
+ *
+ * Audio/video evidence: turns a timestamped transcript into something the
+ * normalisation agent can read and findings can point back into.
+ *
+ *   1. buildSpeakerTurns — merge transcript chunks into turns per speaker
+ *   2. segmentTranscript — group turns into topic segments, cutting where the
+ *      vocabulary shifts between neighbouring turns or at long silences
+ *   3. formatTranscript  — segment headers and [m:ss] markers for the agent
+ *   4. timestampFindings — pin every finding to the turn it came from, by its
+ *      verbatim excerpt, else the time the agent cited, else its wording
+ */
+
+import type { NormalizedTranscriptChunk } from '@/lib/transcription/types';
+import type { EvidenceTimestamp, MediaSegment, MediaTurn, NormalisedEvidenceFinding } from './types';
+
+/** Same-speaker chunks closer than this belong to one turn */
+const TURN_GAP_MS = 1_500;
+/** Monologues (and undiarised transcripts) are split into turns no longer than this */
+const MAX_TURN_MS = 30_000;
+/** Silence this long always starts a new segment */
+const TOPIC_PAUSE_MS = 8_000;
+/** Topic shifts inside shorter segments are ignored */
+const MIN_SEGMENT_MS = 45_000;
+/** Longer segments are cut at the next turn */
+const MAX_SEGMENT_MS = 300_000;
+/** Turns compared either side of a candidate boundary */
+const WINDOW_TURNS = 3;
+/** Share of an excerpt's words a turn must contain to be its source */
+const EXCERPT_MATCH = 0.6;
+/** Looser bar for the finding's own (paraphrased) wording */
+const WORDING_MATCH = 0.3;
+
+const STOPWORDS = new Set([
+  'about', 'after', 'again', 'also', 'because', 'been', 'before', 'being', 'could', 'does', 'doing',
+  'from', 'have', 'having', 'here', 'into', 'just', 'know', 'like', 'mean', 'more', 'much', 'only',
+  'other', 'really', 'right', 'some', 'such', 'that', 'their', 'them', 'then', 'there', 'these',
+  'they', 'thing', 'things', 'think', 'this', 'those', 'very', 'want', 'well', 'were', 'what',
+  'when', 'where', 'which', 'while', 'will', 'with', 'would', 'yeah', 'your',
+]);
+
+// ── Formatting ─────────────────────────────────────────────────────────────
+
+/** 83_000 → "1:23", 3_723_000 → "1:02:03" */
+export function formatTimestamp(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+/** "1:23" / "01:02:03" → milliseconds, or null */
+export function parseTimestamp(text: string): number | null {
+  const match = text.match(/\b(?:(\d{1,2}):)?(\d{1,2}):(\d{2})\b/);
+  if (!match) return null;
+  const [, h, m, s] = match;
+  return ((Number(h ?? 0) * 60 + Number(m)) * 60 + Number(s)) * 1000;
+}
+
+/** `speaker_0` → "Speaker 1"; other labels pass through */
+export function speakerLabel(speakerId: string | null): string | null {
+  if (!speakerId) return null;
+  const n = speakerId.match(/^speaker_(\d+)$/);
+  return n ? `Speaker ${Number(n[1]) + 1}` : speakerId;
+}
+
+// ── Turns & Segments ───────────────────────────────────────────────────────
+
+export function buildSpeakerTurns(chunks: NormalizedTranscriptChunk[]): MediaTurn[] {
+  const turns: MediaTurn[] = [];
+  for (const chunk of [...chunks].sort((a, b) => a.startTime - b.startTime)) {
+    const text = chunk.text.trim();
+    if (!text) continue;
+    const last = turns[turns.length - 1];
+    const continues = last
+      && last.speakerId === chunk.speakerId
+      && chunk.startTime - last.endMs < TURN_GAP_MS
+      && chunk.endTime - last.startMs <= MAX_TURN_MS;
+    if (last && continues) {
+      last.text = `${last.text} ${text}`;
+      last.endMs = Math.max(last.endMs, chunk.endTime);
+    } else {
+      turns.push({ speakerId: chunk.speakerId, startMs: chunk.startTime, endMs: chunk.endTime, text });
+    }
+  }
+  return turns;
+}
+
+function tokens(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z][a-z']{3,}/g) ?? []).filter((w) => !STOPWORDS.has(w));
+}
+
+function bag(turns: MediaTurn[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const turn of turns) {
+    for (const word of tokens(turn.text)) counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [word, count] of a) dot += count * (b.get(word) ?? 0);
+  const norm = (m: Map<string, number>) => Math.sqrt([...m.values()].reduce((s, v) => s + v * v, 0));
+  const denom = norm(a) * norm(b);
+  return denom > 0 ? dot / denom : 0;
+}
+
+/**
+ * Topic boundaries: turn indices where the vocabulary either side is least
+ * alike — local minima of similarity, below the recording's mean by half a
+ * standard deviation.
+ */
+function topicBoundaries(turns: MediaTurn[]): Set<number> {
+  const similarity: number[] = [];
+  for (let i = 1; i < turns.length; i++) {
+    similarity[i] = cosine(bag(turns.slice(Math.max(0, i - WINDOW_TURNS), i)), bag(turns.slice(i, i + WINDOW_TURNS)));
+  }
+  const values = similarity.slice(1);
+  if (values.length < 3) return new Set();
+
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  const sd = Math.sqrt(values.reduce((s, v) => s + (v - mean) ** 2, 0) / values.length);
+  const cutoff = mean - sd / 2;
+
+  const boundaries = new Set<number>();
+  for (let i = 1; i < turns.length; i++) {
+    const left = similarity[i - 1] ?? Infinity;
+    const right = similarity[i + 1] ?? Infinity;
+    if (similarity[i] < cutoff && similarity[i] <= left && similarity[i] <= right) boundaries.add(i);
+  }
+  return boundaries;
+}
+
+/** Group speaker turns into topic segments. */
+export function segmentTranscript(chunks: NormalizedTranscriptChunk[]): MediaSegment[] {
+  const turns = buildSpeakerTurns(chunks);
+  if (turns.length === 0) return [];
+
+  const boundaries = topicBoundaries(turns);
+  const groups: MediaTurn[][] = [[turns[0]]];
+
+  for (let i = 1; i < turns.length; i++) {
+    const current = groups[groups.length - 1];
+    const duration = turns[i - 1].endMs - current[0].startMs;
+    const pause = turns[i].startMs - turns[i - 1].endMs;
+    // A topic cut needs room on both sides — a short tail is not a new topic
+    const remaining = turns[turns.length - 1].endMs - turns[i].startMs;
+    const cut = pause >= TOPIC_PAUSE_MS
+      || duration >= MAX_SEGMENT_MS
+      || (boundaries.has(i) && duration >= MIN_SEGMENT_MS && remaining >= MIN_SEGMENT_MS);
+    if (cut) groups.push([turns[i]]);
+    else current.push(turns[i]);
+  }
+
+  return groups.map((group, index) => ({
+    index,
+    startMs: group[0].startMs,
+    endMs: group[group.length - 1].endMs,
+    speakers: [...new Set(group.map((t) => t.speakerId).filter((id): id is string => !!id))],
+    turns: group,
+  }));
+}
+
+/**
+ * Transcript text for the normalisation agent: a header per segment and a
+ * [m:ss] marker on every turn, so it can cite where things were said.
+ */
+export function formatTranscript(segments: MediaSegment[]): string {
+  return segments.map((segment) => {
+    const speakers = segment.speakers.map(speakerLabel).join(', ');
+    const header = `## Segment ${segment.index + 1} [${formatTimestamp(segment.startMs)}–${formatTimestamp(segment.endMs)}]`
+      + (speakers ? ` — ${speakers}` : '');
+    const lines = segment.turns.map((turn) => {
+      const speaker = speakerLabel(turn.speakerId);
+      return `[${formatTimestamp(turn.startMs)}] ${speaker ? `${speaker}: ` : ''}${turn.text}`;
+    });
+    return [header, ...lines].join('\n');
+  }).join('\n\n');
+}
+
+// ── Finding Timestamps ─────────────────────────────────────────────────────
+
+function toTimestamp(turn: MediaTurn, segmentIndex: number): EvidenceTimestamp {
+  return { startMs: turn.startMs, endMs: turn.endMs, speakerId: turn.speakerId, segmentIndex };
+}
+
+/** Turn containing most of the text's words, if enough of them */
+function bestTurn(text: string, turns: Array<{ turn: MediaTurn; segmentIndex: number }>, minScore: number) {
+  const words = tokens(text);
+  if (words.length === 0) return null;
+  let best: { turn: MediaTurn; segmentIndex: number; score: number } | null = null;
+  for (const entry of turns) {
+    const vocabulary = new Set(tokens(entry.turn.text));
+    const score = words.filter((w) => vocabulary.has(w)).length / words.length;
+    if (!best || score > best.score) best = { ...entry, score };
+  }
+  return best && best.score >= minScore ? best : null;
+}
+
+/**
+ * Attach a timestamp to every finding. The verbatim excerpt is trusted over
+ * the agent's cited time, which is trusted over a wording match; a finding
+ * nothing matches points at the start of the recording.
+ */
+export function timestampFindings(
+  findings: NormalisedEvidenceFinding[],
+  segments: MediaSegment[],
+): NormalisedEvidenceFinding[] {
+  const turns = segments.flatMap((segment) => segment.turns.map((turn) => ({ turn, segmentIndex: segment.index })));
+  if (turns.length === 0) return findings;
+
+  return findings.map((finding) => {
+    const cited = finding.sourcePage ? parseTimestamp(finding.sourcePage) : null;
+    const located = (finding.sourceExcerpt ? bestTurn(finding.sourceExcerpt, turns, EXCERPT_MATCH) : null)
+      ?? (cited !== null && cited <= turns[turns.length - 1].turn.endMs
+        ? [...turns].reverse().find((t) => t.turn.startMs <= cited) ?? turns[0]
+        : null)
+      ?? bestTurn(finding.text, turns, WORDING_MATCH)
+      ?? turns[0];
+
+    return {
+      ...finding,
+      sourcePage: formatTimestamp(located.turn.startMs),
+      sourceTimestamp: toTimestamp(located.turn, located.segmentIndex),
+    };
+  });
+}
@@ -15,11 +15,14 @@
  *  5. Assigns signal direction and confidence
  *  6. Maps to DREAM lenses, actors, and journey stages
  *  7. Selects best verbatim excerpts
+ *
+ * For audio/video transcripts every finding is then pinned to the moment in
+ * the recording it came from (lib/evidence/media.ts).
  */
 
-import OpenAI from 'openai';
-import { env } from '@/lib/env';
+import { getLLMClient } from '@/lib/llm';
 import type { RawFileExtraction } from './types';
+import { formatTimestamp, timestampFindings } from './media';
 import type {
   NormalisedEvidenceDocument,
   NormalisedEvidenceFinding,
@@ -28,6 +31,8 @@ import type {
   SignalDirection,
 } from './types';
 
+const llm = getLLMClient('evidence-normalisation');
+
 const MAX_INPUT_CHARS = 40_000; // ~10k tokens — enough for large docs
 
 /** Truncate extraction text to avoid context overflow */
@@ -80,6 +85,7 @@ Extraction method: ${extraction.extractionMethod}
 ${extraction.pageCount ? `Pages: ${extraction.pageCount}` : ''}
 ${extraction.slideCount ? `Slides: ${extraction.slideCount}` : ''}
 ${extraction.rowCount ? `Data rows: ${extraction.rowCount}` : ''}
+${extraction.durationMs ? `Recording length: ${formatTimestamp(extraction.durationMs)} (transcript — segments by topic, [m:ss] marks when each speaker starts)` : ''}
 
 EXTRACTED CONTENT:
 ${truncateText(extraction.text)}
@@ -107,7 +113,7 @@ Produce a JSON object with this exact structure:
       "relevantLenses": ["Technology"],
       "relevantJourneyStages": [],
       "sourceExcerpt": "<verbatim quote from document, max 150 chars>",
-      "sourcePage": "<'page 3' or 'slide 7' or null>"
+      "sourcePage": "<'page 3' or 'slide 7' or, for recordings, the [m:ss] timestamp it was said at, or null>"
     }
   ],
   "metrics": [
@@ -135,23 +141,21 @@ export async function normaliseEvidence(
   fileName: string,
   extraction: RawFileExtraction,
 ): Promise<NormalisationAgentOutput> {
-  if (!env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY not configured');
+  if (!llm.isConfigured()) {
+    throw new Error('LLM provider not configured');
   }
 
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
-
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o',
+  const response = await llm.chat({
+    tier: 'standard',
     temperature: 0.1,
-    response_format: { type: 'json_object' },
+    responseFormat: 'json',
     messages: [
       { role: 'system', content: SYSTEM_PROMPT },
       { role: 'user', content: buildUserPrompt(fileName, extraction) },
     ],
   });
 
-  const raw = response.choices[0]?.message?.content;
+  const raw = response.content;
   if (!raw) throw new Error('No response from normalisation agent');
 
   let parsed: NormalisationAgentOutput;
@@ -174,7 +178,10 @@ export async function normaliseEvidence(
     sourcePage: f.sourcePage,
   }));
 
-  return { ...parsed, findings };
+  return {
+    ...parsed,
+    findings: extraction.mediaSegments ? timestampFindings(findings, extraction.mediaSegments) : findings,
+  };
 }
 
 /**
@@ -3,7 +3,10 @@
  *
  * Orchestrates the full evidence ingestion pipeline for a single uploaded file:
  *
- *   1. Extract raw text/content from the file buffer
+ *   1. Extract raw text/content from the file buffer, then redact PII when
+ *      the organisation has it enabled (lib/pii) — nothing downstream sees
+ *      the original values. Recording transcripts are redacted turn by turn;
+ *      images are refused, since Vision would see them unredacted
  *   2. Run normalisation agent → structured EvidenceDocument fields
  *   3. Chunk text and embed into DocumentChunk (for semantic retrieval)
  *   4. Persist results to EvidenceDocument record
@@ -15,8 +18,12 @@
 
 import { prisma } from '@/lib/prisma';
 import { extractFileContent } from './extractor';
+import { formatTranscript } from './media';
 import { normaliseEvidence } from './normalisation-agent';
 import { embedAndStore } from '@/lib/embeddings/embed';
+import { decryptTenantRecords, encryptTenantFields } from '@/lib/workshop-encryption';
+import { loadWorkshopPiiRedactor, type WorkshopPiiRedactor } from '@/lib/pii/vault';
+import type { RawFileExtraction } from './types';
 
 // Max chars per chunk for embedding (≈ 512 tokens)
 const CHUNK_SIZE = 2000;
@@ -37,6 +44,25 @@ function chunkText(text: string): string[] {
   return chunks.filter(c => c.length > 50); // discard tiny chunks
 }
 
+/**
+ * Replace PII in everything extracted from a file. For recordings the
+ * speaker turns are redacted too — findings are timestamped against them —
+ * and the transcript text is rebuilt from the redacted turns.
+ */
+async function redactExtraction(extraction: RawFileExtraction, redactor: WorkshopPiiRedactor): Promise<RawFileExtraction> {
+  if (!extraction.mediaSegments) {
+    return { ...extraction, text: await redactor.redact(extraction.text) };
+  }
+
+  const mediaSegments = [];
+  for (const segment of extraction.mediaSegments) {
+    const turns = [];
+    for (const turn of segment.turns) turns.push({ ...turn, text: await redactor.redact(turn.text) });
+    mediaSegments.push({ ...segment, turns });
+  }
+  return { ...extraction, mediaSegments, text: formatTranscript(mediaSegments) };
+}
+
 /**
  * Run the full ingestion pipeline for a single evidence document.
  *
@@ -63,7 +89,9 @@ export async function runEvidencePipeline(
 
   try {
     // ── Step 1: Extract raw content ─────────────────────────────────────
-    const extraction = await extractFileContent(buffer, mimeType, fileName);
+    const redactor = await loadWorkshopPiiRedactor(workshopId);
+    const extracted = await extractFileContent(buffer, mimeType, fileName, { vision: !redactor });
+    const extraction = redactor ? await redactExtraction(extracted, redactor) : extracted;
 
     // ── Step 2: Normalise with GPT-4o ───────────────────────────────────
     const normalised = await normaliseEvidence(fileName, extraction);
@@ -71,7 +99,7 @@ export async function runEvidencePipeline(
     // ── Step 3: Persist structured evidence ─────────────────────────────
     await prisma.evidenceDocument.update({
       where: { id: docId },
-      data: {
+      data: await encryptTenantFields('evidenceDocument', { workshopId }, {
         status: 'ready',
         sourceCategory: normalised.sourceCategory,
         summary: normalised.summary,
@@ -85,7 +113,7 @@ export async function runEvidencePipeline(
         relevantLenses: normalised.relevantLenses as unknown as object,
         relevantActors: normalised.relevantActors as unknown as object,
         relevantJourneyStages: normalised.relevantJourneyStages as unknown as object,
-      },
+      }),
     });
 
     // ── Step 4: Chunk and embed ────────────────────────────────────────────
@@ -107,7 +135,9 @@ export async function runEvidencePipeline(
             chunkIndex: i,
             totalChunks: chunks.length,
             content: chunk,
-            artefactType: 'document',
+            artefactType: extraction.extractionMethod !== 'transcription'
+              ? 'document'
+              : mimeType.startsWith('video/') ? 'video' : 'transcript',
           },
         });
         embedPromises.push(
@@ -142,9 +172,9 @@ export async function runEvidencePipeline(
  * Build an aggregate summary across all ready evidence documents for a workshop.
  */
 export async function buildEvidenceSummary(workshopId: string) {
-  const docs = await prisma.evidenceDocument.findMany({
+  const docs = await decryptTenantRecords('evidenceDocument', await prisma.evidenceDocument.findMany({
     where: { workshopId, status: 'ready' },
-  });
+  }));
 
   if (docs.length === 0) return null;
 
@@ -0,0 +1,85 @@
+/**
+ * lib/evidence/storage.ts
+ *
+ * Supabase Storage access for uploaded evidence files. Used by the evidence
+ * upload route and by retention purges (lib/compliance/retention-engine.ts).
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+// Private bucket — evidence files are not publicly accessible
+const EVIDENCE_BUCKET = 'evidence-documents';
+
+function getStorageAdmin() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) throw new Error('Supabase credentials not configured');
+  return createClient(url, key);
+}
+
+// Auto-create the private evidence bucket if it doesn't exist yet.
+// Called once per POST — Supabase listBuckets is cheap.
+let bucketEnsured = false;
+export async function ensureEvidenceBucket() {
+  if (bucketEnsured) return;
+  const admin = getStorageAdmin();
+  const { data } = await admin.storage.listBuckets();
+  if (!data?.find(b => b.name === EVIDENCE_BUCKET)) {
+    await admin.storage.createBucket(EVIDENCE_BUCKET, { public: false });
+  }
+  bucketEnsured = true;
+}
+
+export async function uploadEvidenceFile(
+  buffer: Buffer,
+  workshopId: string,
+  docId: string,
+  fileName: string,
+  mimeType: string,
+): Promise<string> {
+  const admin = getStorageAdmin();
+  // Store path only — NOT a public URL. Use signed URLs if download is ever needed.
+  const storagePath = `workshops/${workshopId}/evidence/${docId}/${encodeURIComponent(fileName)}`;
+  const { error } = await admin.storage
+    .from(EVIDENCE_BUCKET)
+    .upload(storagePath, buffer, { contentType: mimeType, upsert: true });
+  if (error) throw new Error(`Storage upload failed: ${error.message}`);
+  return storagePath;
+}
+
+/** Short-lived URL for streaming a stored evidence file, e.g. a recording in the browser player */
+export async function createEvidenceSignedUrl(storageKey: string, expiresInSeconds = 3600): Promise<string> {
+  // Legacy rows stored a public URL
+  if (storageKey.startsWith('http')) return storageKey;
+  const admin = getStorageAdmin();
+  const { data, error } = await admin.storage
+    .from(EVIDENCE_BUCKET)
+    .createSignedUrl(storageKey, expiresInSeconds);
+  if (error || !data?.signedUrl) throw new Error(`Signed URL failed: ${error?.message ?? 'no URL returned'}`);
+  return data.signedUrl;
+}
+
+export async function deleteEvidenceFile(storageKey: string): Promise<void> {
+  if (!storageKey) return;
+  const admin = getStorageAdmin();
+  // storageKey is either a plain path (new) or a legacy public URL (old rows).
+  // Handle both formats during the transition window.
+  let filePath = storageKey;
+  const bucketMarker = `/${EVIDENCE_BUCKET}/`;
+  if (storageKey.startsWith('http')) {
+    // Legacy: full public URL from old workshop-images bucket — best-effort delete
+    const legacyMarker = '/workshop-images/';
+    const idx = storageKey.indexOf(legacyMarker);
+    if (idx !== -1) {
+      const legacyPath = storageKey.slice(idx + legacyMarker.length);
+      const legacyAdmin = getStorageAdmin();
+      await legacyAdmin.storage.from('workshop-images').remove([legacyPath]).catch(() => {});
+    }
+    return;
+  }
+  // New format: plain path in evidence-documents bucket
+  if (filePath.includes(bucketMarker)) {
+    filePath = filePath.slice(filePath.indexOf(bucketMarker) + bucketMarker.length);
+  }
+  await admin.storage.from(EVIDENCE_BUCKET).remove([filePath]);
+}
@@ -58,6 +58,35 @@ export interface NormalisedEvidenceFinding {
   sourceExcerpt?: string
   /** Page number, slide number, or row range */
   sourcePage?: string
+  /** Moment in the recording this was said — audio/video evidence only */
+  sourceTimestamp?: EvidenceTimestamp
+}
+
+// ── Recorded Media ─────────────────────────────────────────────────────────
+
+/** Consecutive speech by one speaker in an audio/video transcript */
+export interface MediaTurn {
+  speakerId: string | null
+  startMs: number
+  endMs: number
+  text: string
+}
+
+/** A stretch of a recording about one topic — findings are timestamped against these */
+export interface MediaSegment {
+  index: number
+  startMs: number
+  endMs: number
+  /** Speaker IDs in order of first appearance */
+  speakers: string[]
+  turns: MediaTurn[]
+}
+
+export interface EvidenceTimestamp {
+  startMs: number
+  endMs: number
+  speakerId: string | null
+  segmentIndex: number
 }
 
 // ── Extracted Metric ───────────────────────────────────────────────────────
@@ -254,6 +283,8 @@ export interface RawFileExtraction {
   pageCount?: number        // For PDFs
   slideCount?: number       // For PPTX
   rowCount?: number         // For XLSX/CSV
-  extractionMethod: 'text' | 'vision' | 'ocr' | 'structured'
+  durationMs?: number       // For audio/video
+  mediaSegments?: MediaSegment[]  // For audio/video — speaker turns grouped by topic
+  extractionMethod: 'text' | 'vision' | 'ocr' | 'structured' | 'transcription'
   mimeType: string
 }
@@ -7,6 +7,8 @@
 
 import { prisma } from '@/lib/prisma';
 import type { CaptureType, CaptureSessionStatus } from '@prisma/client';
+import { decryptTenantFields, decryptTenantRecords, encryptTenantFields } from '@/lib/workshop-encryption';
+import { redactPii } from '@/lib/pii/vault';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -33,6 +35,7 @@ export interface UpdateSessionParams {
 }
 
 export interface CreateSegmentParams {
+  workshopId: string;
   captureSessionId: string;
   segmentIndex: number;
   startTimeMs?: bigint;
@@ -72,13 +75,15 @@ export async function createCaptureSession(params: CreateSessionParams) {
 }
 
 export async function getCaptureSession(sessionId: string) {
-  return prisma.captureSession.findUnique({
+  const session = await prisma.captureSession.findUnique({
     where: { id: sessionId },
     include: {
       segments: { orderBy: { segmentIndex: 'asc' } },
       findings: true,
     },
   });
+  if (!session) return null;
+  return { ...session, segments: await decryptTenantRecords('captureSegment', session.segments) };
 }
 
 export async function listCaptureSessions(workshopId: string, filters?: {
@@ -91,7 +96,7 @@ export async function listCaptureSessions(workshopId: string, filters?: {
   if (filters?.status) where.status = filters.status;
   if (filters?.actorRole) where.actorRole = filters.actorRole;
 
-  return prisma.captureSession.findMany({
+  const sessions = await prisma.captureSession.findMany({
     where,
     include: {
       segments: { orderBy: { segmentIndex: 'asc' } },
@@ -99,6 +104,12 @@ export async function listCaptureSessions(workshopId: string, filters?: {
     },
     orderBy: { createdAt: 'desc' },
   });
+  return Promise.all(
+    sessions.map(async (session) => ({
+      ...session,
+      segments: await decryptTenantRecords('captureSegment', session.segments),
+    })),
+  );
 }
 
 export async function updateCaptureSession(sessionId: string, params: UpdateSessionParams) {
@@ -110,11 +121,12 @@ export async function updateCaptureSession(sessionId: string, params: UpdateSess
   if (params.participantName !== undefined) data.participantName = params.participantName;
   if (params.consentFlag !== undefined) data.consentFlag = params.consentFlag;
 
-  return prisma.captureSession.update({
+  const session = await prisma.captureSession.update({
     where: { id: sessionId },
     data,
     include: { segments: { orderBy: { segmentIndex: 'asc' } } },
   });
+  return { ...session, segments: await decryptTenantRecords('captureSegment', session.segments) };
 }
 
 export async function deleteCaptureSession(sessionId: string) {
@@ -126,31 +138,36 @@ export async function deleteCaptureSession(sessionId: string) {
 // ---------------------------------------------------------------------------
 
 export async function createSegment(params: CreateSegmentParams) {
-  return prisma.captureSegment.create({
-    data: {
+  const segment = await prisma.captureSegment.create({
+    data: await encryptTenantFields('captureSegment', { workshopId: params.workshopId }, {
       captureSessionId: params.captureSessionId,
       segmentIndex: params.segmentIndex,
       startTimeMs: params.startTimeMs ?? null,
       endTimeMs: params.endTimeMs ?? null,
       audioReference: params.audioReference ?? null,
       transcriptReference: params.transcriptReference ?? null,
-      transcript: params.transcript ?? null,
+      transcript: params.transcript ? await redactPii(params.workshopId, params.transcript) : null,
       status: params.status ?? 'pending',
-    },
+    }),
   });
+  return decryptTenantFields('captureSegment', segment);
 }
 
-export async function updateSegment(segmentId: string, data: {
+export async function updateSegment(workshopId: string, segmentId: string, data: {
   endTimeMs?: bigint;
   audioReference?: string;
   transcriptReference?: string;
   transcript?: string;
   status?: string;
 }) {
-  return prisma.captureSegment.update({
+  const segment = await prisma.captureSegment.update({
     where: { id: segmentId },
-    data,
+    data: await encryptTenantFields('captureSegment', { workshopId }, {
+      ...data,
+      ...(data.transcript && { transcript: await redactPii(workshopId, data.transcript) }),
+    }),
   });
+  return decryptTenantFields('captureSegment', segment);
 }
 
 // ---------------------------------------------------------------------------
@@ -10,10 +10,8 @@
  * an organisational diagnostician over that summary.
  */
 
-import OpenAI from 'openai';
+import { getLLMClient, type LLMMessage, type LLMModelTier, type LLMTool } from '@/lib/llm';
 import { prisma } from '@/lib/prisma';
-import { env } from '@/lib/env';
-import { openAiBreaker } from '@/lib/circuit-breaker';
 import type { FindingType, SourceStream } from '@prisma/client';
 
 // ---------------------------------------------------------------------------
@@ -258,7 +256,8 @@ function buildAnalysisSummary(
 // Tool definitions
 // ---------------------------------------------------------------------------
 
-const MODEL = 'gpt-4o';
+const llm = getLLMClient('csv-analysis');
+const MODEL_TIER: LLMModelTier = 'standard';
 const MAX_ITERATIONS = 4;
 
 function buildSystemPrompt(lensNames: string[]): string {
@@ -294,7 +293,7 @@ Guidelines:
 - Avoid generic observations — every finding must be grounded in the data summary provided`;
 }
 
-function buildTools(lensNames: string[]): OpenAI.ChatCompletionTool[] {
+function buildTools(lensNames: string[]): LLMTool[] {
   return [
   {
     type: 'function',
@@ -355,7 +354,7 @@ export async function analyseCsvAndExtractFindings(params: {
   userContext?: string;
   lensNames?: string[];
 }): Promise<CsvImportResult> {
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
+  if (!llm.isConfigured()) throw new Error('LLM provider is not configured');
 
   const { headers, rows } = parseCsv(params.csvText);
   if (rows.length === 0) {
@@ -369,7 +368,7 @@ export async function analyseCsvAndExtractFindings(params: {
     params.userContext ?? '',
   );
 
-  const messages: OpenAI.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: buildSystemPrompt(params.lensNames ?? []) },
     {
       role: 'user',
@@ -381,21 +380,18 @@ export async function analyseCsvAndExtractFindings(params: {
   let dataInterpretation = '';
 
   for (let i = 0; i < MAX_ITERATIONS; i++) {
-    const response = await openAiBreaker.execute(() => openai.chat.completions.create({
-      model: MODEL,
+    const response = await llm.chat({
+      tier: MODEL_TIER,
       messages,
       tools: buildTools(params.lensNames ?? []),
-      tool_choice: i === 0 ? { type: 'function', function: { name: 'submit_findings' } } : 'auto',
-    }));
-
-    const choice = response.choices[0];
-    if (!choice?.message) break;
+      toolChoice: i === 0 ? { type: 'function', function: { name: 'submit_findings' } } : 'auto',
+    });
 
-    messages.push(choice.message);
+    messages.push(response.message);
 
-    if (choice.message.tool_calls?.length) {
-      for (const toolCall of choice.message.tool_calls as any[]) {
-        if (toolCall.function?.name === 'submit_findings') {
+    if (response.toolCalls.length) {
+      for (const toolCall of response.toolCalls) {
+        if (toolCall.function.name === 'submit_findings') {
           try {
             const parsed = JSON.parse(toolCall.function.arguments);
             extractedFindings = parsed.findings ?? [];
@@ -413,7 +409,7 @@ export async function analyseCsvAndExtractFindings(params: {
       }
     }
 
-    if (choice.finish_reason === 'stop' || extractedFindings.length > 0) break;
+    if (response.finishReason === 'stop' || extractedFindings.length > 0) break;
   }
 
   // Map to Prisma enums and persist
@@ -9,10 +9,10 @@
  * Creates Finding records with source_stream = STREAM_B.
  */
 
-import OpenAI from 'openai';
+import { getLLMClient, type LLMMessage, type LLMModelTier, type LLMTool } from '@/lib/llm';
 import { prisma } from '@/lib/prisma';
-import { env } from '@/lib/env';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+import { decryptTenantRecords } from '@/lib/workshop-encryption';
+import { publishWorkshopLifecycleEvent } from '@/lib/webhooks/dispatch';
 import type { FindingType, SourceStream } from '@prisma/client';
 
 // ---------------------------------------------------------------------------
@@ -46,7 +46,8 @@ interface ExtractedFinding {
 // Constants
 // ---------------------------------------------------------------------------
 
-const MODEL = 'gpt-4o-mini';
+const llm = getLLMClient('field-extraction');
+const MODEL_TIER: LLMModelTier = 'fast';
 const MAX_ITERATIONS = 4;
 
 function buildSystemPrompt(lensNames: string[]): string {
@@ -79,7 +80,7 @@ Guidelines:
 // Tool definitions
 // ---------------------------------------------------------------------------
 
-function buildTools(lensNames: string[]): OpenAI.ChatCompletionTool[] {
+function buildTools(lensNames: string[]): LLMTool[] {
   return [
   {
     type: 'function',
@@ -134,14 +135,14 @@ export async function extractFindings(params: {
   area: string | null;
   lensNames?: string[];
 }): Promise<ExtractionResult> {
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
+  if (!llm.isConfigured()) throw new Error('LLM provider is not configured');
 
   // Gather all transcript segments for this session
-  const segments = await prisma.captureSegment.findMany({
+  const segments = await decryptTenantRecords('captureSegment', await prisma.captureSegment.findMany({
     where: { captureSessionId: params.sessionId },
     orderBy: { segmentIndex: 'asc' },
     select: { segmentIndex: true, transcript: true },
-  });
+  }));
 
   const fullTranscript = segments
     .filter((s) => s.transcript)
@@ -158,7 +159,7 @@ export async function extractFindings(params: {
     params.area ? `Area/Department: ${params.area}` : null,
   ].filter(Boolean).join('\n');
 
-  const messages: OpenAI.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     { role: 'system', content: buildSystemPrompt(params.lensNames ?? []) },
     {
       role: 'user',
@@ -170,21 +171,18 @@ export async function extractFindings(params: {
   let extractedFindings: ExtractedFinding[] = [];
 
   for (let i = 0; i < MAX_ITERATIONS; i++) {
-    const response = await openAiBreaker.execute(() => openai.chat.completions.create({
-      model: MODEL,
+    const response = await llm.chat({
+      tier: MODEL_TIER,
       messages,
       tools: buildTools(params.lensNames ?? []),
-      tool_choice: i === 0 ? { type: 'function', function: { name: 'submit_findings' } } : 'auto',
-    }));
-
-    const choice = response.choices[0];
-    if (!choice?.message) break;
+      toolChoice: i === 0 ? { type: 'function', function: { name: 'submit_findings' } } : 'auto',
+    });
 
-    messages.push(choice.message);
+    messages.push(response.message);
 
-    if (choice.message.tool_calls?.length) {
-      for (const toolCall of choice.message.tool_calls as any[]) {
-        const fnName = toolCall.function?.name;
+    if (response.toolCalls.length) {
+      for (const toolCall of response.toolCalls) {
+        const fnName = toolCall.function.name;
         if (fnName === 'submit_findings') {
           try {
             const parsed = JSON.parse(toolCall.function.arguments);
@@ -202,7 +200,7 @@ export async function extractFindings(params: {
       }
     }
 
-    if (choice.finish_reason === 'stop' || extractedFindings.length > 0) break;
+    if (response.finishReason === 'stop' || extractedFindings.length > 0) break;
   }
 
   // Persist findings to database
@@ -256,6 +254,12 @@ export async function extractFindings(params: {
     data: { status: 'ANALYSED' },
   });
 
+  await publishWorkshopLifecycleEvent(params.workshopId, 'capture_session.analysed', {
+    sessionId: params.sessionId,
+    captureType: params.captureType,
+    findingsCreated: createdFindings.length,
+  });
+
   return {
     sessionId: params.sessionId,
     findingsCreated: createdFindings.length,
@@ -0,0 +1,479 @@
+/**
+ * Metric Claim Contradictions -- perception vs. data
+ *
+ * Pure functions that find the figures participants quote about their own
+ * performance ("our first-contact resolution is about 80%") and check them
+ * against the uploaded historical series:
+ *   1. extractMetricClaims() pulls quantitative claims out of free text and
+ *      maps each to a domain-pack MetricReference by label, key or acronym
+ *   2. findMetricContradictions() compares the claims with the latest value
+ *      and confidence band of each series and grades the gap
+ *
+ * Extraction is deliberately conservative: targets, past levels and relative
+ * changes ("down 10%", "target of 80%") are not claims about current
+ * performance, and a number must sit close to the metric it describes in the
+ * same sentence. Missing a claim is cheaper than inventing a contradiction.
+ */
+
+import type { MetricReference } from '@/lib/domain-packs/registry';
+import type { HistoricalMetricsData } from './types';
+import {
+  analyzeMetricTrends,
+  describeMetricAnalysis,
+  formatPeriod,
+  formatValue,
+  type MetricTrend,
+} from './summarize';
+
+// ============================================================
+// Types
+// ============================================================
+
+/** A piece of participant text a claim can be quoted from */
+export interface ClaimSource {
+  kind: 'insight' | 'data_point';
+  /** ConversationInsight or DataPoint id */
+  id: string;
+  participantId: string | null;
+  /** Stakeholder group the speaker belongs to */
+  actor: string;
+  text: string;
+}
+
+/** How the participant hedged the figure */
+export type ClaimQualifier = 'approximately' | 'at_least' | 'at_most' | 'exact';
+
+export interface MetricClaim {
+  metricKey: string;
+  metricLabel: string;
+  /** Claimed value converted to the metric's unit */
+  value: number;
+  unit: string;
+  /** The figure as the participant put it, e.g. "about 80%" */
+  statedAs: string;
+  qualifier: ClaimQualifier;
+  /** The sentence the claim was found in */
+  quote: string;
+  source: ClaimSource;
+}
+
+export type ContradictionGrade = 'critical' | 'significant' | 'moderate';
+
+export interface MetricContradiction {
+  metricKey: string;
+  metricLabel: string;
+  unit: string;
+  /** Worst grade across the contradicted claims */
+  grade: ContradictionGrade;
+  /** Whether participants put the metric above or below the data */
+  direction: 'overstated' | 'understated';
+  /** Median of the contradicted claims */
+  claimedValue: number;
+  actualValue: number;
+  actualPeriod: string;
+  /** 95% band at the latest period. Null for series too short to analyse. */
+  expectedRange: { lower: number; upper: number } | null;
+  /** Distance from claim to data: percentage points for % metrics, else percent of the actual */
+  gap: number;
+  gapUnit: 'points' | 'percent';
+  /** Most recent earlier period where the data matched the claim, if any */
+  lastMatchedPeriod: string | null;
+  /** Contradicted claims, largest gap first */
+  claims: MetricClaim[];
+  /** Claims about the same metric that the data supports */
+  corroboratingClaims: number;
+  /** One-line statement of what the data shows */
+  finding: string;
+  /** Series evidence from describeMetricAnalysis() */
+  evidence: string[];
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+/** Smallest gap treated as a contradiction for % metrics (percentage points) */
+const MIN_TOLERANCE_POINTS = 3;
+
+/** Smallest gap treated as a contradiction for other metrics (percent of actual) */
+const MIN_TOLERANCE_PERCENT = 5;
+
+/** Grade thresholds -- percentage points for % metrics */
+const POINT_GRADES = { critical: 15, significant: 8 };
+
+/** Grade thresholds -- percent of the actual value for other metrics */
+const PERCENT_GRADES = { critical: 40, significant: 20 };
+
+/** Max characters between a metric mention and the number it describes */
+const MAX_DISTANCE = 60;
+
+/** Unitless numbers must follow the mention closely ("NPS is 40") */
+const MAX_BARE_DISTANCE = 25;
+
+const GRADE_ORDER: Record<ContradictionGrade, number> = { critical: 3, significant: 2, moderate: 1 };
+
+/** Seconds per duration unit, for claims and for series units */
+const DURATION_SECONDS: Record<string, number> = {
+  seconds: 1,
+  minutes: 60,
+  hours: 3600,
+  days: 86400,
+  weeks: 604800,
+};
+
+const SCALES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  million: 1e6,
+  bn: 1e9,
+  billion: 1e9,
+};
+
+const NUMBER_PATTERN = new RegExp(
+  '(?<![\\w.])(?<currency>[£$€]\\s?)?(?<num>\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?)'
+  + '(?:\\s?(?<scale>k|m|bn|thousand|million|billion)\\b)?'
+  + '(?:\\s?(?<unit>%|per\\s?cent\\b|percent\\b|s(?:ec(?:ond)?s?)?\\b|min(?:ute)?s?\\b|h(?:(?:ou)?rs?)?\\b|days?\\b|w(?:ee)?ks?\\b))?',
+  'gi',
+);
+
+const QUALIFIERS: Array<{ qualifier: ClaimQualifier; pattern: RegExp }> = [
+  { qualifier: 'approximately', pattern: /(?:about|around|roughly|approximately|approx\.?|circa|nearly|almost|close to|~)\s*$/i },
+  { qualifier: 'at_least', pattern: /(?:over|more than|above|at least|upwards of|north of|in excess of)\s*$/i },
+  { qualifier: 'at_most', pattern: /(?:under|less than|below|at most|fewer than|barely|south of)\s*$/i },
+];
+
+/** Figures framed as goals, forecasts or the past are not claims about now */
+const NOT_CURRENT = /\b(?:target|goal|aim(?:ing)?|should|want|would like|hope|sla|benchmark|industry average|budget|forecast|plan(?:ned)?|used to|previously|back in|last year|years ago)\b/i;
+
+/** Relative changes ("down 10%", "a 5% drop") rather than levels */
+const CHANGE_BEFORE = /\b(?:by|up|down|plus|minus|(?:increase|decrease|drop|fall|rise|reduction|improvement) of)\s*$/i;
+const CHANGE_AFTER = /^\s*(?:increase|decrease|drop|rise|fall|higher|lower|more|less|fewer|up\b|down\b|improvement|reduction|better|worse|year|month|week|day|times|x\b|people|staff|agents|sites|teams)/i;
+
+const ACRONYM_STOPWORDS = new Set(['of', 'and', 'per', 'to', 'the', 'a', 'in', 'on', 'for']);
+
+// ============================================================
+// Claim Extraction
+// ============================================================
+
+interface MetricMention {
+  reference: MetricReference;
+  start: number;
+  end: number;
+}
+
+interface ParsedNumber {
+  start: number;
+  end: number;
+  value: number;
+  kind: 'percent' | 'duration' | 'currency' | 'bare';
+  raw: string;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Search terms for a metric: its label, the label without "average"/"rate"/
+ * "score", its key, and the label's acronym (AHT, FCR, NPS).
+ */
+function metricTerms(reference: MetricReference): string[] {
+  const label = reference.label.toLowerCase().trim();
+  const terms = new Set<string>([label]);
+
+  const stripped = label
+    .replace(/^(?:average|avg\.?|mean)\s+/, '')
+    .replace(/\s+(?:rate|score|%)$/, '')
+    .trim();
+  if (stripped.length >= 3) terms.add(stripped);
+
+  const key = reference.key.toLowerCase().replace(/_/g, ' ');
+  if (key.length >= 3) terms.add(key);
+
+  const words = label.split(/[\s/-]+/).filter((w) => w && !ACRONYM_STOPWORDS.has(w));
+  if (words.length >= 3) terms.add(words.map((w) => w[0]).join(''));
+
+  return [...terms];
+}
+
+function mentionPatterns(references: MetricReference[]): Array<{ reference: MetricReference; pattern: RegExp }> {
+  return references.flatMap((reference) =>
+    metricTerms(reference).map((term) => ({
+      reference,
+      pattern: new RegExp(`(?<![\\w])${term.split(/\s+/).map(escapeRegExp).join('[\\s-]+')}(?![\\w])`, 'gi'),
+    })),
+  );
+}
+
+/** Metric mentions in a sentence -- the longest match wins where terms overlap */
+function findMentions(sentence: string, patterns: Array<{ reference: MetricReference; pattern: RegExp }>): MetricMention[] {
+  const found: MetricMention[] = [];
+  for (const { reference, pattern } of patterns) {
+    for (const match of sentence.matchAll(pattern)) {
+      found.push({ reference, start: match.index, end: match.index + match[0].length });
+    }
+  }
+  found.sort((a, b) => (b.end - b.start) - (a.end - a.start));
+  const kept: MetricMention[] = [];
+  for (const mention of found) {
+    if (!kept.some((k) => mention.start < k.end && k.start < mention.end)) kept.push(mention);
+  }
+  return kept;
+}
+
+function parseNumbers(sentence: string): ParsedNumber[] {
+  const numbers: ParsedNumber[] = [];
+  for (const match of sentence.matchAll(NUMBER_PATTERN)) {
+    const groups = match.groups ?? {};
+    const scaleKey = groups.scale?.toLowerCase();
+    const unit = groups.unit?.toLowerCase().replace(/\s/g, '');
+    // "5m" is minutes or millions -- only trust it next to a currency symbol
+    if (scaleKey === 'm' && !groups.currency) continue;
+
+    let value = parseFloat(groups.num.replace(/,/g, '')) * (scaleKey ? SCALES[scaleKey] : 1);
+    let kind: ParsedNumber['kind'] = groups.currency ? 'currency' : 'bare';
+
+    if (unit === '%' || unit?.startsWith('per')) {
+      kind = 'percent';
+    } else if (unit) {
+      const durationUnit = unit.startsWith('s') ? 'seconds'
+        : unit.startsWith('min') ? 'minutes'
+        : unit.startsWith('h') ? 'hours'
+        : unit.startsWith('d') ? 'days'
+        : 'weeks';
+      value *= DURATION_SECONDS[durationUnit];
+      kind = 'duration';
+    }
+
+    // Bare years are dates, not metric values
+    if (kind === 'bare' && !scaleKey && Number.isInteger(value) && value >= 1900 && value <= 2100) continue;
+
+    numbers.push({ start: match.index, end: match.index + match[0].length, value, kind, raw: match[0] });
+  }
+  return numbers;
+}
+
+/** Convert a parsed number into the metric's unit. Null when the units are incompatible. */
+function toMetricUnit(number: ParsedNumber, unit: string): number | null {
+  const seriesSeconds = DURATION_SECONDS[unit];
+  switch (number.kind) {
+    case 'percent':
+      return unit === '%' ? number.value : null;
+    case 'duration':
+      return seriesSeconds ? number.value / seriesSeconds : null;
+    case 'currency':
+      return unit.startsWith('currency') ? number.value : null;
+    case 'bare':
+      return number.value;
+  }
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter((s) => /\d/.test(s));
+}
+
+/**
+ * Extract quantitative claims about the given metrics from participant text.
+ *
+ * Each mention of a metric takes the nearest compatible number in the same
+ * sentence, so "AHT is about 4 minutes and FCR is 80%" yields two claims.
+ */
+export function extractMetricClaims(sources: ClaimSource[], references: MetricReference[]): MetricClaim[] {
+  if (references.length === 0) return [];
+  const patterns = mentionPatterns(references);
+  const claims: MetricClaim[] = [];
+
+  for (const source of sources) {
+    for (const sentence of splitSentences(source.text)) {
+      const mentions = findMentions(sentence, patterns);
+      if (mentions.length === 0) continue;
+      const numbers = parseNumbers(sentence);
+      const used = new Set<ParsedNumber>();
+
+      for (const mention of mentions.sort((a, b) => a.start - b.start)) {
+        let best: { number: ParsedNumber; value: number; distance: number } | null = null;
+
+        for (const number of numbers) {
+          if (used.has(number)) continue;
+          const after = number.start >= mention.end;
+          if (!after && number.end > mention.start) continue;
+          // Numbers usually follow the metric; one before it has to be much closer
+          const distance = after ? number.start - mention.end : (mention.start - number.end) * 2;
+          if (distance > (number.kind === 'bare' ? MAX_BARE_DISTANCE : MAX_DISTANCE)) continue;
+          if (number.kind === 'bare' && !after) continue;
+
+          const value = toMetricUnit(number, mention.reference.unit);
+          if (value === null) continue;
+
+          const lo = Math.min(mention.start, number.start);
+          const hi = Math.max(mention.end, number.end);
+          if (NOT_CURRENT.test(sentence.slice(Math.max(0, lo - 30), hi))) continue;
+          if (CHANGE_BEFORE.test(sentence.slice(0, number.start))) continue;
+          if (CHANGE_AFTER.test(sentence.slice(number.end))) continue;
+
+          if (!best || distance < best.distance) best = { number, value, distance };
+        }
+        if (!best) continue;
+        used.add(best.number);
+
+        const before = sentence.slice(0, best.number.start);
+        const hedge = QUALIFIERS.map(({ qualifier, pattern }) => ({ qualifier, match: before.match(pattern) }))
+          .find((q) => q.match);
+
+        claims.push({
+          metricKey: mention.reference.key,
+          metricLabel: mention.reference.label,
+          value: best.value,
+          unit: mention.reference.unit,
+          statedAs: ((hedge?.match?.[0] ?? '') + best.number.raw).trim(),
+          qualifier: hedge?.qualifier ?? 'exact',
+          quote: sentence,
+          source,
+        });
+      }
+    }
+  }
+
+  return claims;
+}
+
+// ============================================================
+// Comparison
+// ============================================================
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function minTolerance(unit: string, actual: number): number {
+  return unit === '%' ? MIN_TOLERANCE_POINTS : Math.abs(actual) * (MIN_TOLERANCE_PERCENT / 100);
+}
+
+/** Whether the data value bears the claim out, allowing for its hedge */
+function consistent(claim: { value: number; qualifier: ClaimQualifier }, lower: number, upper: number): boolean {
+  switch (claim.qualifier) {
+    case 'at_least':
+      return upper >= claim.value;
+    case 'at_most':
+      return lower <= claim.value;
+    default:
+      return lower <= claim.value && claim.value <= upper;
+  }
+}
+
+function gapOf(claimed: number, actual: number, unit: string): number | null {
+  if (unit === '%') return Math.abs(claimed - actual);
+  return actual !== 0 ? (Math.abs(claimed - actual) / Math.abs(actual)) * 100 : null;
+}
+
+function gradeOf(gap: number, unit: string): ContradictionGrade {
+  const thresholds = unit === '%' ? POINT_GRADES : PERCENT_GRADES;
+  return gap >= thresholds.critical ? 'critical' : gap >= thresholds.significant ? 'significant' : 'moderate';
+}
+
+function compareWithSeries(claims: MetricClaim[], trend: MetricTrend, series: HistoricalMetricsData['series'][number]): MetricContradiction | null {
+  const { unit, latestValue: actual, latestPeriod } = trend;
+  const tolerance = minTolerance(unit, actual);
+  const band = trend.analysis.band[trend.analysis.band.length - 1] ?? null;
+  const lower = Math.min(band?.lower ?? actual, actual - tolerance);
+  const upper = Math.max(band?.upper ?? actual, actual + tolerance);
+
+  const contradicted: Array<{ claim: MetricClaim; gap: number }> = [];
+  let corroborating = 0;
+  for (const claim of claims) {
+    if (consistent(claim, lower, upper)) {
+      corroborating++;
+      continue;
+    }
+    const gap = gapOf(claim.value, actual, unit);
+    if (gap !== null) contradicted.push({ claim, gap });
+  }
+  if (contradicted.length === 0) return null;
+
+  contradicted.sort((a, b) => b.gap - a.gap);
+  const claimedValue = median(contradicted.map((c) => c.claim.value));
+  const gap = gapOf(claimedValue, actual, unit) ?? contradicted[0].gap;
+
+  // When did the data last look the way participants describe it?
+  const matchTolerance = minTolerance(unit, claimedValue);
+  const earlier = series.dataPoints.slice(0, -1).reverse();
+  const lastMatched = earlier.find((p) => Math.abs(p.value - claimedValue) <= matchTolerance) ?? null;
+
+  const fmt = (value: number) => formatValue(round1(value), unit);
+  const finding = `Data shows ${fmt(actual)} in ${formatPeriod(latestPeriod)}`
+    + (band ? ` (expected range ${fmt(band.lower)}–${fmt(band.upper)})` : '')
+    + (lastMatched ? `; ${fmt(lastMatched.value)} was last seen in ${formatPeriod(lastMatched.period)}` : '');
+
+  return {
+    metricKey: trend.metricKey,
+    metricLabel: trend.metricLabel,
+    unit,
+    grade: contradicted.reduce<ContradictionGrade>(
+      (worst, c) => (GRADE_ORDER[gradeOf(c.gap, unit)] > GRADE_ORDER[worst] ? gradeOf(c.gap, unit) : worst),
+      'moderate',
+    ),
+    direction: claimedValue > actual ? 'overstated' : 'understated',
+    claimedValue: round1(claimedValue),
+    actualValue: actual,
+    actualPeriod: latestPeriod,
+    expectedRange: band ? { lower: round1(band.lower), upper: round1(band.upper) } : null,
+    gap: round1(gap),
+    gapUnit: unit === '%' ? 'points' : 'percent',
+    lastMatchedPeriod: lastMatched?.period ?? null,
+    claims: contradicted.map((c) => c.claim),
+    corroboratingClaims: corroborating,
+    finding,
+    evidence: describeMetricAnalysis(trend),
+  };
+}
+
+/**
+ * Metric references to search for: the pack's reference for every uploaded
+ * series (with the series' own label and unit, which the values are stored
+ * in), plus series the pack does not know about.
+ */
+export function metricReferencesForSeries(data: HistoricalMetricsData, packReferences: MetricReference[]): MetricReference[] {
+  return data.series.map((series) => {
+    const reference = packReferences.find((r) => r.key === series.metricKey);
+    return {
+      key: series.metricKey,
+      label: series.metricLabel,
+      unit: series.unit,
+      description: reference?.description ?? '',
+    };
+  });
+}
+
+/**
+ * Compare claims with the uploaded series and return one graded
+ * contradiction per metric where participants' figures and the data
+ * disagree, worst first.
+ */
+export function findMetricContradictions(claims: MetricClaim[], data: HistoricalMetricsData): MetricContradiction[] {
+  const byMetric = new Map<string, MetricClaim[]>();
+  for (const claim of claims) {
+    byMetric.set(claim.metricKey, [...(byMetric.get(claim.metricKey) ?? []), claim]);
+  }
+
+  const trends = new Map(analyzeMetricTrends(data).map((t) => [t.metricKey, t]));
+  const contradictions: MetricContradiction[] = [];
+  for (const [metricKey, metricClaims] of byMetric) {
+    const trend = trends.get(metricKey);
+    const series = data.series.find((s) => s.metricKey === metricKey);
+    if (!trend || !series || trend.dataPointCount === 0) continue;
+    const contradiction = compareWithSeries(metricClaims, trend, series);
+    if (contradiction) contradictions.push(contradiction);
+  }
+
+  return contradictions.sort((a, b) =>
+    GRADE_ORDER[b.grade] - GRADE_ORDER[a.grade] || b.claims.length - a.claims.length || b.gap - a.gap,
+  );
+}
@@ -42,4 +42,34 @@ export { mergeMetricSeries, subtractSeries } from './merge-series';
 
 // Summarization and trend analysis
 export type { MetricTrend } from './summarize';
-export { analyzeMetricTrends, buildMetricsSummary } from './summarize';
+export {
+  analyzeMetricTrends,
+  buildMetricsSummary,
+  describeMetricAnalysis,
+  primaryMovement,
+} from './summarize';
+
+// Time-series analysis
+export type {
+  SeriesDirection,
+  SeasonalComponent,
+  ChangePoint,
+  MetricOutlier,
+  ConfidenceBandPoint,
+  SeriesAnalysis,
+} from './time-series';
+export { analyzeSeries, inferGranularity } from './time-series';
+
+// Participant claims vs. series
+export type {
+  ClaimSource,
+  ClaimQualifier,
+  MetricClaim,
+  ContradictionGrade,
+  MetricContradiction,
+} from './claim-contradictions';
+export {
+  extractMetricClaims,
+  findMetricContradictions,
+  metricReferencesForSeries,
+} from './claim-contradictions';
@@ -11,9 +11,14 @@
  * Trend direction is raw (increasing/decreasing/stable) rather than
  * interpreted (improving/declining). Agents have domain knowledge to
  * determine whether "increasing AHT" is good or bad.
+ *
+ * Each trend also carries the full time-series analysis (seasonality,
+ * change points, outliers, confidence band -- see time-series.ts) and
+ * describeMetricAnalysis() turns it into citable evidence sentences.
  */
 
 import type { HistoricalMetricsData, MetricSeries } from './types';
+import { analyzeSeries, type SeriesAnalysis } from './time-series';
 
 // ============================================================
 // Metric Trend
@@ -30,6 +35,8 @@ export interface MetricTrend {
   /** Percentage change from previous to latest. Null if insufficient data. */
   changePercent: number | null;
   dataPointCount: number;
+  /** Seasonality, change points, outliers and confidence band */
+  analysis: SeriesAnalysis;
 }
 
 // ============================================================
@@ -49,6 +56,7 @@ const STABLE_THRESHOLD_PERCENT = 2;
 function analyzeSingleSeries(series: MetricSeries): MetricTrend {
   const { metricKey, metricLabel, unit, dataPoints } = series;
   const count = dataPoints.length;
+  const analysis = analyzeSeries(series);
 
   if (count < 2) {
     return {
@@ -61,6 +69,7 @@ function analyzeSingleSeries(series: MetricSeries): MetricTrend {
       trend: 'insufficient_data',
       changePercent: null,
       dataPointCount: count,
+      analysis,
     };
   }
 
@@ -100,6 +109,7 @@ function analyzeSingleSeries(series: MetricSeries): MetricTrend {
     trend,
     changePercent: changePercent !== null ? Math.round(changePercent * 10) / 10 : null,
     dataPointCount: count,
+    analysis,
   };
 }
 
@@ -111,13 +121,13 @@ export function analyzeMetricTrends(data: HistoricalMetricsData): MetricTrend[]
 }
 
 // ============================================================
-// Summary Builder
+// Formatting
 // ============================================================
 
 /**
  * Format a value with its unit for display.
  */
-function formatValue(value: number, unit: string): string {
+export function formatValue(value: number, unit: string): string {
   switch (unit) {
     case '%':
       return `${value}%`;
@@ -145,7 +155,7 @@ function formatValue(value: number, unit: string): string {
 /**
  * Format a period string for display (YYYY-MM-DD to "Jan 2025" etc.).
  */
-function formatPeriod(period: string): string {
+export function formatPeriod(period: string): string {
   const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
   const parts = period.split('-');
   if (parts.length >= 2) {
@@ -157,6 +167,104 @@ function formatPeriod(period: string): string {
   return period;
 }
 
+// ============================================================
+// Evidence
+// ============================================================
+
+/** Cycle names by granularity and cycle length */
+const CYCLE_NAMES: Record<string, string> = {
+  'daily:7': 'weekly',
+  'weekly:52': 'yearly',
+  'weekly:13': 'quarterly',
+  'weekly:4': 'monthly',
+  'monthly:12': 'yearly',
+  'monthly:3': 'quarterly',
+  'quarterly:4': 'yearly',
+};
+
+const oneDecimal = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * The movement a facilitator should lead with: the latest change point,
+ * else the current segment's trend, else the last period-on-period change.
+ * Null when the metric is flat or has too little data.
+ */
+export function primaryMovement(trend: MetricTrend): {
+  direction: 'increasing' | 'decreasing';
+  changePercent: number | null;
+  period: string;
+} | null {
+  const { changePoints, recentTrend } = trend.analysis;
+  const lastChange = changePoints[changePoints.length - 1];
+  if (lastChange) {
+    return { direction: lastChange.direction, changePercent: lastChange.changePercent, period: lastChange.period };
+  }
+  if (recentTrend && recentTrend.direction !== 'stable') {
+    return { direction: recentTrend.direction, changePercent: recentTrend.changePercent, period: recentTrend.since };
+  }
+  if (trend.trend === 'increasing' || trend.trend === 'decreasing') {
+    return { direction: trend.trend, changePercent: trend.changePercent, period: trend.latestPeriod };
+  }
+  return null;
+}
+
+/**
+ * Evidence sentences a facilitator can cite, e.g.
+ * `Average Handle Time jumped 18.2% in Mar 2025 (240s → 284s), annotated "new CRM go-live"`.
+ * Empty for series too short to analyse.
+ */
+export function describeMetricAnalysis(trend: MetricTrend): string[] {
+  const { metricLabel: label, unit, analysis } = trend;
+  const fmt = (value: number) => formatValue(oneDecimal(value), unit);
+  const lines: string[] = [];
+
+  for (const cp of analysis.changePoints) {
+    const size = cp.changePercent !== null ? Math.abs(cp.changePercent) : null;
+    const verb = cp.direction === 'increasing'
+      ? (size !== null && size >= 10 ? 'jumped' : 'rose')
+      : (size !== null && size >= 10 ? 'dropped' : 'fell');
+    lines.push(
+      `${label} ${verb}${size !== null ? ` ${size.toFixed(1)}%` : ''} in ${formatPeriod(cp.period)} (${fmt(cp.before)} → ${fmt(cp.after)})`
+      + (cp.explanation ? `, annotated "${cp.explanation}"` : ''),
+    );
+  }
+
+  const recent = analysis.recentTrend;
+  if (recent && recent.direction !== 'stable' && recent.changePercent !== null) {
+    lines.push(
+      `${label} has been ${recent.direction === 'increasing' ? 'rising' : 'falling'} since ${formatPeriod(recent.since)} `
+      + `(${recent.changePercent > 0 ? '+' : ''}${recent.changePercent.toFixed(1)}%)`,
+    );
+  }
+
+  const seasonality = analysis.seasonality;
+  if (seasonality) {
+    const cycle = CYCLE_NAMES[`${analysis.granularity}:${seasonality.period}`] ?? `${seasonality.period}-period`;
+    lines.push(`${label} follows a ${cycle} cycle, highest around ${formatPeriod(seasonality.peakPeriod)} and lowest around ${formatPeriod(seasonality.troughPeriod)}`);
+  }
+
+  for (const o of analysis.outliers) {
+    lines.push(
+      `${label} ${o.direction === 'spike' ? 'spiked' : 'dipped'} to ${fmt(o.value)} in ${formatPeriod(o.period)} (expected ~${fmt(o.expected)})`
+      + (o.explanation ? `, annotated "${o.explanation}"` : ', no annotation'),
+    );
+  }
+
+  const latestBand = analysis.band[analysis.band.length - 1];
+  if (latestBand) {
+    const position = trend.latestValue > latestBand.upper ? 'above'
+      : trend.latestValue < latestBand.lower ? 'below'
+      : 'within';
+    lines.push(`Latest ${fmt(trend.latestValue)} is ${position} the expected range ${fmt(latestBand.lower)}–${fmt(latestBand.upper)}`);
+  }
+
+  return lines;
+}
+
+// ============================================================
+// Summary Builder
+// ============================================================
+
 /**
  * Build a human-readable text summary of historical metrics
  * suitable for injection into LLM prompts.
@@ -184,7 +292,8 @@ export function buildMetricsSummary(data: HistoricalMetricsData): string {
       ? `, ${t.trend} ${t.changePercent > 0 ? '+' : ''}${t.changePercent.toFixed(1)}% vs prior period`
       : `, ${t.trend}`;
 
-    return `  - ${t.metricLabel}: latest ${val} (${period})${changeStr}`;
+    const evidence = describeMetricAnalysis(t).map((line) => `\n      ${line}`).join('');
+    return `  - ${t.metricLabel}: latest ${val} (${period})${changeStr}${evidence}`;
   });
 
   return [
@@ -0,0 +1,470 @@
+/**
+ * Time-Series Analysis -- seasonality, change points, outliers, bands
+ *
+ * Pure statistics over a single MetricSeries, so facilitators can cite
+ * "AHT jumped 18% in Mar 2025, annotated 'new CRM go-live'" instead of
+ * "AHT is increasing":
+ *
+ *   1. Seasonality   -- classical additive decomposition (centred moving
+ *                       average) for the cycles natural to the granularity,
+ *                       kept only when the cycle explains enough variance
+ *   2. Outliers      -- robust z-score against the neighbours on both
+ *                       sides, explained by the data point's own note
+ *   3. Change points -- binary segmentation of the de-seasonalised, cleaned
+ *                       series into linear segments, BIC-style penalty
+ *   4. Bands         -- segment fit + seasonal offset ± 1.96 σ
+ *
+ * No dependencies and no I/O; deterministic for a given series.
+ */
+
+import type { MetricDataPoint, MetricSeries, PeriodGranularity } from './types';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type SeriesDirection = 'increasing' | 'decreasing' | 'stable';
+
+export interface SeasonalComponent {
+  /** Cycle length in periods (12 = yearly cycle in monthly data) */
+  period: number;
+  /** 0-1 share of the de-trended variance explained by the cycle, adjusted for its length */
+  strength: number;
+  /** Additive offset per cycle position; index 0 is the first data point's position */
+  offsets: number[];
+  /** Latest periods at the top and bottom of the cycle */
+  peakPeriod: string;
+  troughPeriod: string;
+}
+
+export interface ChangePoint {
+  /** First period at the new level */
+  period: string;
+  index: number;
+  /** Fitted value at the end of the previous segment */
+  before: number;
+  /** Fitted value at the start of the new segment */
+  after: number;
+  /** Percentage change from before to after. Null if before is 0. */
+  changePercent: number | null;
+  direction: 'increasing' | 'decreasing';
+  /** Note on the change period or the one before it (e.g. "new CRM go-live") */
+  explanation: string | null;
+}
+
+export interface MetricOutlier {
+  period: string;
+  index: number;
+  value: number;
+  /** Value the segment fit and seasonal cycle predicted */
+  expected: number;
+  /** Percentage deviation from expected. Null if expected is 0. */
+  deviationPercent: number | null;
+  direction: 'spike' | 'dip';
+  /** The data point's own note, when the uploader recorded one */
+  explanation: string | null;
+}
+
+export interface ConfidenceBandPoint {
+  period: string;
+  expected: number;
+  lower: number;
+  upper: number;
+}
+
+export interface SeriesAnalysis {
+  /** Inferred from the spacing of periods. Null with fewer than 2 points. */
+  granularity: PeriodGranularity | null;
+  seasonality: SeasonalComponent | null;
+  changePoints: ChangePoint[];
+  outliers: MetricOutlier[];
+  /** 95% band around the fitted series, one entry per data point */
+  band: ConfidenceBandPoint[];
+  /** Trend of the current segment (since the last change point). Null if too short. */
+  recentTrend: {
+    direction: SeriesDirection;
+    /** First period of the segment */
+    since: string;
+    /** Fitted change across the segment. Null if the start is 0. */
+    changePercent: number | null;
+  } | null;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+/** Below this many points no analysis is attempted */
+const MIN_POINTS = 4;
+
+/** Shortest segment either side of a change point */
+const MIN_SEGMENT = 4;
+
+const MAX_CHANGE_POINTS = 3;
+
+/** Multiplier on the BIC penalty (3 ln n σ²) — higher means fewer, surer change points */
+const CHANGE_POINT_PENALTY = 2;
+
+/** Modified z-score above which a point is an outlier (Iglewicz & Hoaglin) */
+const OUTLIER_Z = 3.5;
+
+/** Minimum seasonal strength (adjusted for cycle length) for a cycle to be kept */
+const SEASONAL_STRENGTH_THRESHOLD = 0.6;
+
+/** Residual degrees of freedom a decomposition needs before its strength is trusted */
+const MIN_SEASONAL_DOF = 6;
+
+/** A change point must move the level by at least this much, unless the trend reverses */
+const MIN_SHIFT_PERCENT = 5;
+
+/** Fitted change across a segment below this is "stable" (matches summarize.ts) */
+const STABLE_THRESHOLD_PERCENT = 2;
+
+const BAND_Z = 1.96;
+
+/** Candidate cycle lengths per granularity, longest first */
+const SEASONAL_PERIODS: Record<PeriodGranularity, number[]> = {
+  daily: [7],
+  weekly: [52, 13, 4],
+  monthly: [12, 3],
+  quarterly: [4],
+  yearly: [],
+};
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+}
+
+function median(values: number[]): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function variance(values: number[]): number {
+  const m = mean(values);
+  return mean(values.map((v) => (v - m) ** 2));
+}
+
+/** Robust standard deviation: 1.4826 × MAD, falling back to the mean absolute deviation */
+function robustScale(values: number[]): number {
+  const med = median(values);
+  const deviations = values.map((v) => Math.abs(v - med));
+  const mad = median(deviations);
+  return mad > 0 ? 1.4826 * mad : 1.2533 * mean(deviations);
+}
+
+function percentChange(from: number, to: number): number | null {
+  return from !== 0 ? Math.round(((to - from) / Math.abs(from)) * 1000) / 10 : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function noteOf(point: MetricDataPoint | undefined): string | null {
+  const note = point?.note?.trim();
+  return note ? note : null;
+}
+
+interface LinearFit {
+  start: number;
+  end: number; // exclusive
+  slope: number;
+  intercept: number;
+  rss: number;
+}
+
+/** Least-squares line over values[start, end) with x = index */
+function fitLine(values: number[], start: number, end: number): LinearFit {
+  const n = end - start;
+  let sx = 0, sy = 0, sxx = 0, sxy = 0;
+  for (let i = start; i < end; i++) {
+    sx += i; sy += values[i]; sxx += i * i; sxy += i * values[i];
+  }
+  const denom = n * sxx - sx * sx;
+  const slope = denom !== 0 ? (n * sxy - sx * sy) / denom : 0;
+  const intercept = (sy - slope * sx) / n;
+  let rss = 0;
+  for (let i = start; i < end; i++) rss += (values[i] - (intercept + slope * i)) ** 2;
+  return { start, end, slope, intercept, rss };
+}
+
+const at = (fit: LinearFit, i: number) => fit.intercept + fit.slope * i;
+
+/**
+ * Infer the granularity from the median gap between periods.
+ */
+export function inferGranularity(periods: string[]): PeriodGranularity | null {
+  const times = periods.map((p) => Date.parse(p)).filter((t) => !Number.isNaN(t));
+  if (times.length < 2) return null;
+  const gaps = times.slice(1).map((t, i) => (t - times[i]) / 86_400_000);
+  const days = median(gaps);
+  if (days <= 1.5) return 'daily';
+  if (days <= 10) return 'weekly';
+  if (days <= 45) return 'monthly';
+  if (days <= 120) return 'quarterly';
+  return 'yearly';
+}
+
+// ============================================================
+// Seasonal Decomposition
+// ============================================================
+
+/**
+ * Centred moving average of length `period` (2×m MA for even periods).
+ * Undefined for the first and last floor(period/2) points.
+ */
+function centredMovingAverage(values: number[], period: number): Array<number | null> {
+  const half = Math.floor(period / 2);
+  return values.map((_, i) => {
+    if (i < half || i >= values.length - half) return null;
+    if (period % 2) return mean(values.slice(i - half, i + half + 1));
+    let sum = (values[i - half] + values[i + half]) / 2;
+    for (let j = i - half + 1; j < i + half; j++) sum += values[j];
+    return sum / period;
+  });
+}
+
+/**
+ * Seasonal offsets and strength. Strength is the adjusted R² of the cycle
+ * positions on the de-trended values, so noise alone scores around 0 rather
+ * than rising with the number of positions. Null when a position has fewer
+ * than two de-trended values or too few remain to judge the fit.
+ */
+function decompose(values: number[], period: number): { offsets: number[]; strength: number } | null {
+  const trend = centredMovingAverage(values, period);
+  const byPosition: number[][] = Array.from({ length: period }, () => []);
+  trend.forEach((t, i) => { if (t !== null) byPosition[i % period].push(values[i] - t); });
+  const defined = byPosition.reduce((sum, group) => sum + group.length, 0);
+  if (byPosition.some((group) => group.length < 2) || defined - period < MIN_SEASONAL_DOF) return null;
+
+  const raw = byPosition.map(mean);
+  const level = mean(raw);
+  const offsets = raw.map((v) => v - level);
+
+  const remainder: number[] = [];
+  const seasonalPlusRemainder: number[] = [];
+  trend.forEach((t, i) => {
+    if (t === null) return;
+    remainder.push(values[i] - t - offsets[i % period]);
+    seasonalPlusRemainder.push(values[i] - t);
+  });
+  const total = variance(seasonalPlusRemainder);
+  const n = remainder.length;
+  const r2 = total > 0 ? 1 - variance(remainder) / total : 0;
+  const strength = Math.max(0, 1 - (1 - r2) * (n - 1) / (n - period));
+  return { offsets, strength };
+}
+
+function detectSeasonality(points: MetricDataPoint[], granularity: PeriodGranularity | null): SeasonalComponent | null {
+  if (!granularity) return null;
+  const values = points.map((p) => p.value);
+
+  let best: SeasonalComponent | null = null;
+  for (const period of SEASONAL_PERIODS[granularity]) {
+    const decomposition = decompose(values, period);
+    if (!decomposition) continue;
+    const { offsets, strength } = decomposition;
+    if (strength < SEASONAL_STRENGTH_THRESHOLD || (best && strength <= best.strength)) continue;
+
+    // Peak and trough of the latest complete cycle
+    const last = points.length - period;
+    let peak = last, trough = last;
+    for (let i = last; i < points.length; i++) {
+      if (offsets[i % period] > offsets[peak % period]) peak = i;
+      if (offsets[i % period] < offsets[trough % period]) trough = i;
+    }
+    best = {
+      period,
+      strength: round(strength),
+      offsets: offsets.map(round),
+      peakPeriod: points[peak].period,
+      troughPeriod: points[trough].period,
+    };
+  }
+  return best;
+}
+
+// ============================================================
+// Outliers
+// ============================================================
+
+/**
+ * Indices that stand apart from the neighbours on both sides. Each point is
+ * compared with the median of up to three neighbours to its left and to its
+ * right, keeping the smaller deviation -- so the first point after a level
+ * shift, which matches its right-hand side, is not an outlier. The scale
+ * comes from residuals against all six neighbours (the point itself is left
+ * out so residuals are never zero by construction, which would shrink the MAD).
+ */
+function detectOutlierIndices(values: number[]): { indices: Set<number>; smoothed: number[] } {
+  const sides = values.map((_, i) => ({
+    left: values.slice(Math.max(0, i - 3), i),
+    right: values.slice(i + 1, i + 4),
+  }));
+  const smoothed = sides.map(({ left, right }) => median([...left, ...right]));
+  const residuals = values.map((v, i) => v - smoothed[i]);
+  const centre = median(residuals);
+  const scale = robustScale(residuals);
+
+  const indices = new Set<number>();
+  if (scale > 0) {
+    values.forEach((v, i) => {
+      const { left, right } = sides[i];
+      const deviations = [left, right].filter((side) => side.length).map((side) => v - median(side));
+      // Above one side and below the other: between levels, not an outlier
+      if (deviations.length === 2 && Math.sign(deviations[0]) !== Math.sign(deviations[1])) return;
+      const deviation = Math.min(...deviations.map((d) => Math.abs(d - centre)));
+      if (deviation / scale > OUTLIER_Z) indices.add(i);
+    });
+  }
+  return { indices, smoothed };
+}
+
+// ============================================================
+// Change Points
+// ============================================================
+
+/**
+ * Binary segmentation into linear segments. A split is kept when the drop
+ * in residual sum of squares, in units of the noise variance, beats a BIC
+ * penalty for the three extra parameters (two for the line, one for the
+ * location) and the level shift is material.
+ */
+function segment(values: number[]): LinearFit[] {
+  const n = values.length;
+  const diffs = values.slice(1).map((v, i) => v - values[i]);
+  // Noise from first differences is robust to level shifts and slow trends
+  const noise = Math.max(robustScale(diffs) / Math.SQRT2, 1e-9 * (Math.abs(mean(values)) + 1));
+  const penalty = CHANGE_POINT_PENALTY * 3 * Math.log(n) * noise ** 2;
+
+  let segments = [fitLine(values, 0, n)];
+  while (segments.length <= MAX_CHANGE_POINTS) {
+    let bestGain = penalty;
+    let bestSplit: { index: number; left: LinearFit; right: LinearFit } | null = null;
+    let bestSegment = -1;
+
+    segments.forEach((seg, s) => {
+      for (let k = seg.start + MIN_SEGMENT; k <= seg.end - MIN_SEGMENT; k++) {
+        const left = fitLine(values, seg.start, k);
+        const right = fitLine(values, k, seg.end);
+        const gain = seg.rss - left.rss - right.rss;
+        if (gain <= bestGain) continue;
+
+        const before = at(left, k - 1);
+        const after = at(right, k);
+        const shift = Math.abs(after - before) / Math.max(Math.abs(before), 1e-9) * 100;
+        const reversal = Math.sign(left.slope) !== Math.sign(right.slope)
+          && Math.abs(left.slope - right.slope) * MIN_SEGMENT > 2 * noise;
+        if (shift < MIN_SHIFT_PERCENT && !reversal) continue;
+
+        bestGain = gain;
+        bestSplit = { index: k, left, right };
+        bestSegment = s;
+      }
+    });
+
+    if (!bestSplit) break;
+    const { left, right } = bestSplit;
+    segments = [...segments.slice(0, bestSegment), left, right, ...segments.slice(bestSegment + 1)];
+  }
+  return segments;
+}
+
+// ============================================================
+// Analysis
+// ============================================================
+
+/**
+ * Analyse one metric series. Data points must be sorted by period ascending
+ * (as produced by mergeMetricSeries). Short series return an empty analysis.
+ */
+export function analyzeSeries(series: MetricSeries, granularity?: PeriodGranularity | null): SeriesAnalysis {
+  const points = series.dataPoints;
+  const resolvedGranularity = granularity ?? inferGranularity(points.map((p) => p.period));
+  const empty: SeriesAnalysis = {
+    granularity: resolvedGranularity,
+    seasonality: null,
+    changePoints: [],
+    outliers: [],
+    band: [],
+    recentTrend: null,
+  };
+  if (points.length < MIN_POINTS) return empty;
+
+  const seasonality = detectSeasonality(points, resolvedGranularity);
+  const seasonal = points.map((_, i) => (seasonality ? seasonality.offsets[i % seasonality.period] : 0));
+  const deseasonalised = points.map((p, i) => p.value - seasonal[i]);
+
+  const { indices: outlierIndices, smoothed } = detectOutlierIndices(deseasonalised);
+  const cleaned = deseasonalised.map((v, i) => (outlierIndices.has(i) ? smoothed[i] : v));
+
+  const segments = segment(cleaned);
+  const fitted = points.map((_, i) => {
+    const seg = segments.find((s) => i >= s.start && i < s.end)!;
+    return at(seg, i) + seasonal[i];
+  });
+
+  const rss = segments.reduce((s, seg) => s + seg.rss, 0);
+  const dof = Math.max(1, points.length - 2 * segments.length);
+  const sigma = Math.sqrt(rss / dof);
+
+  const changePoints: ChangePoint[] = segments.slice(1).map((seg, s) => {
+    const before = at(segments[s], seg.start - 1);
+    const after = at(seg, seg.start);
+    return {
+      period: points[seg.start].period,
+      index: seg.start,
+      before: round(before),
+      after: round(after),
+      changePercent: percentChange(before, after),
+      direction: after >= before ? 'increasing' : 'decreasing',
+      explanation: noteOf(points[seg.start]) ?? noteOf(points[seg.start - 1]),
+    };
+  });
+
+  const outliers: MetricOutlier[] = [...outlierIndices].sort((a, b) => a - b).map((i) => ({
+    period: points[i].period,
+    index: i,
+    value: points[i].value,
+    expected: round(fitted[i]),
+    deviationPercent: percentChange(fitted[i], points[i].value),
+    direction: points[i].value >= fitted[i] ? 'spike' : 'dip',
+    explanation: noteOf(points[i]),
+  }));
+
+  const band = points.map((p, i) => ({
+    period: p.period,
+    expected: round(fitted[i]),
+    lower: round(fitted[i] - BAND_Z * sigma),
+    upper: round(fitted[i] + BAND_Z * sigma),
+  }));
+
+  const last = segments[segments.length - 1];
+  const startLevel = at(last, last.start);
+  const endLevel = at(last, last.end - 1);
+  const segmentChange = percentChange(startLevel, endLevel);
+  // The slope must also be distinguishable from noise within the segment
+  const m = last.end - last.start;
+  const sxx = (m * (m * m - 1)) / 12;
+  const slopeError = m > 2 ? Math.sqrt(last.rss / (m - 2) / sxx) : Infinity;
+  const significant = slopeError === 0 ? last.slope !== 0 : Math.abs(last.slope / slopeError) > 2;
+  const direction: SeriesDirection = !significant || segmentChange === null || Math.abs(segmentChange) <= STABLE_THRESHOLD_PERCENT
+    ? 'stable'
+    : segmentChange > 0 ? 'increasing' : 'decreasing';
+
+  return {
+    ...empty,
+    seasonality,
+    changePoints,
+    outliers,
+    band,
+    recentTrend: { direction, since: points[last.start].period, changePercent: segmentChange },
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * lib/kms/index.ts
+ * Resolves the KMS provider that wraps tenant data keys (KMS_PROVIDER, default 'local').
+ */
+
+import { env } from '@/lib/env';
+import { LocalFileKms } from './local-file-kms';
+import type { KmsProvider, KmsProviderName } from './types';
+
+let provider: KmsProvider | null = null;
+
+export function getKmsProvider(): KmsProvider {
+  if (provider) return provider;
+
+  const name: KmsProviderName = env.KMS_PROVIDER ?? 'local';
+  switch (name) {
+    case 'local':
+      provider = new LocalFileKms();
+      break;
+  }
+  return provider;
+}
+
+/** Swap the provider (tests, or a managed KMS registered at startup). Pass null to reset. */
+export function setKmsProvider(next: KmsProvider | null): void {
+  provider = next;
+}
+
+export { LocalFileKms } from './local-file-kms';
+export { KMS_PROVIDER_NAMES, KmsError } from './types';
+export type { KmsContext, KmsProvider, KmsProviderName, WrappedKey } from './types';
@@ -0,0 +1,118 @@
+/**
+ * File-backed stand-in for a cloud KMS (KMS_PROVIDER=local).
+ *
+ * Master keys live in a JSON file (LOCAL_KMS_KEY_FILE, default
+ * .kms/master-keys.json) outside the database, so a database dump alone does
+ * not expose tenant data. The file is created with a fresh key on first use.
+ * Suitable for development, single-host and air-gapped deployments; hosted
+ * deployments should plug in a managed KMS behind the same interface.
+ *
+ * File format: { "currentKeyId": "mk-1", "keys": { "mk-1": "<base64 32 bytes>" } }
+ */
+
+import crypto from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { KmsError, type KmsContext, type KmsProvider, type WrappedKey } from './types';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+interface MasterKeyFile {
+  currentKeyId: string;
+  keys: Record<string, string>;
+}
+
+export class LocalFileKms implements KmsProvider {
+  readonly name = 'local' as const;
+  private readonly path: string;
+  private cached: MasterKeyFile | null = null;
+
+  constructor(path = process.env.LOCAL_KMS_KEY_FILE || '.kms/master-keys.json') {
+    this.path = resolve(path);
+  }
+
+  private load(): MasterKeyFile {
+    if (this.cached) return this.cached;
+
+    try {
+      this.cached = JSON.parse(readFileSync(this.path, 'utf8')) as MasterKeyFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new KmsError(`Cannot read master key file ${this.path}`);
+      }
+      const initial: MasterKeyFile = {
+        currentKeyId: 'mk-1',
+        keys: { 'mk-1': crypto.randomBytes(KEY_LENGTH).toString('base64') },
+      };
+      mkdirSync(dirname(this.path), { recursive: true });
+      try {
+        // 'wx' so a concurrent process that created the file first wins
+        writeFileSync(this.path, JSON.stringify(initial, null, 2), { mode: 0o600, flag: 'wx' });
+        this.cached = initial;
+      } catch {
+        this.cached = JSON.parse(readFileSync(this.path, 'utf8')) as MasterKeyFile;
+      }
+    }
+
+    if (!this.cached?.keys?.[this.cached.currentKeyId]) {
+      throw new KmsError(`Master key file ${this.path} has no current key`);
+    }
+    return this.cached;
+  }
+
+  private masterKey(keyId: string): Buffer {
+    const encoded = this.load().keys[keyId];
+    if (!encoded) throw new KmsError(`Unknown master key ${keyId}`);
+    return Buffer.from(encoded, 'base64');
+  }
+
+  async currentKeyId(): Promise<string> {
+    return this.load().currentKeyId;
+  }
+
+  async wrapKey(plaintextKey: Buffer, context: KmsContext): Promise<WrappedKey> {
+    const keyId = this.load().currentKeyId;
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.masterKey(keyId), iv);
+    cipher.setAAD(Buffer.from(`org:${context.organizationId}`, 'utf8'));
+    const encrypted = Buffer.concat([cipher.update(plaintextKey), cipher.final()]);
+
+    return {
+      ciphertext: Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64'),
+      keyId,
+    };
+  }
+
+  async unwrapKey(wrapped: WrappedKey, context: KmsContext): Promise<Buffer> {
+    const packed = Buffer.from(wrapped.ciphertext, 'base64');
+    try {
+      const decipher = crypto.createDecipheriv(ALGORITHM, this.masterKey(wrapped.keyId), packed.subarray(0, IV_LENGTH));
+      decipher.setAAD(Buffer.from(`org:${context.organizationId}`, 'utf8'));
+      decipher.setAuthTag(packed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+      return Buffer.concat([decipher.update(packed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+    } catch (error) {
+      if (error instanceof KmsError) throw error;
+      throw new KmsError('Failed to unwrap data key');
+    }
+  }
+
+  /**
+   * Add a new master key and make it current. Existing wraps stay readable
+   * under their old key id; rewrapTenantKeys() moves them onto the new one.
+   */
+  rotateMasterKey(): string {
+    const file = this.load();
+    const next = Math.max(0, ...Object.keys(file.keys).map((id) => parseInt(id.replace(/^mk-/, ''), 10) || 0)) + 1;
+    const keyId = `mk-${next}`;
+    const updated: MasterKeyFile = {
+      currentKeyId: keyId,
+      keys: { ...file.keys, [keyId]: crypto.randomBytes(KEY_LENGTH).toString('base64') },
+    };
+    writeFileSync(this.path, JSON.stringify(updated, null, 2), { mode: 0o600 });
+    this.cached = updated;
+    return keyId;
+  }
+}
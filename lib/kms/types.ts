@@ -0,0 +1,41 @@
+/**
+ * Key management service abstraction.
+ *
+ * Tenant data keys (lib/tenant-encryption.ts) never reach the database in the
+ * clear — they are wrapped by a master key held in a KMS. Providers implement
+ * wrap/unwrap only; the master key itself never leaves the provider.
+ */
+
+export const KMS_PROVIDER_NAMES = ['local'] as const;
+
+export type KmsProviderName = (typeof KMS_PROVIDER_NAMES)[number];
+
+/**
+ * Bound into every wrap as additional authenticated data, so a wrapped key
+ * copied onto another organisation's row fails to unwrap.
+ */
+export interface KmsContext {
+  organizationId: string;
+}
+
+export interface WrappedKey {
+  /** Opaque provider ciphertext of the data key */
+  ciphertext: string;
+  /** Master key (version) that wrapped it — needed to unwrap */
+  keyId: string;
+}
+
+export interface KmsProvider {
+  readonly name: KmsProviderName;
+  /** Master key id that new wraps will use */
+  currentKeyId(): Promise<string>;
+  wrapKey(plaintextKey: Buffer, context: KmsContext): Promise<WrappedKey>;
+  unwrapKey(wrapped: WrappedKey, context: KmsContext): Promise<Buffer>;
+}
+
+export class KmsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KmsError';
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Breakout Merge — plenary view across breakout rooms
+ *
+ * Each breakout room builds its own belief set. For the plenary the beliefs
+ * of every room are clustered into shared themes by label wording, and each
+ * theme is classed by how the rooms that raised it see it:
+ *
+ *   converged — two or more rooms, all on the same side
+ *   diverged  — two or more rooms, one treating it as an opportunity or
+ *               enabler and another as a constraint or risk
+ *   distinct  — raised in one room only (its strongest few per room)
+ *
+ * Pure and deterministic — safe to import from client components.
+ */
+
+import { jaccardSimilarity, semanticSignature, type BeliefCategory } from '@/lib/cognition/cognitive-state';
+import type { StickyPad } from '@/lib/cognitive-guidance/pipeline';
+
+/** Word overlap for two rooms' beliefs to count as the same theme */
+const THEME_MATCH = 0.34;
+/** Room-only themes listed per room */
+const MAX_DISTINCT_PER_ROOM = 3;
+
+export type BreakoutStance = 'for' | 'against' | 'neutral';
+
+const CATEGORY_STANCE: Record<BeliefCategory, BreakoutStance> = {
+  aspiration: 'for',
+  opportunity: 'for',
+  enabler: 'for',
+  action: 'for',
+  constraint: 'against',
+  risk: 'against',
+  insight: 'neutral',
+};
+
+export type BreakoutBelief = {
+  id: string;
+  label: string;
+  category: BeliefCategory;
+  confidence: number;
+  evidenceCount: number;
+  stabilised: boolean;
+};
+
+/** One room's state as loaded for the plenary */
+export type BreakoutRoomState = {
+  roomId: string;
+  name: string;
+  closed: boolean;
+  beliefs: BreakoutBelief[];
+  pads: StickyPad[];
+  utteranceCount: number;
+  lastActivityMs: number | null;
+};
+
+export type PlenaryThemeRoom = {
+  roomId: string;
+  roomName: string;
+  stance: BreakoutStance;
+  beliefs: BreakoutBelief[];
+};
+
+export type PlenaryTheme = {
+  themeId: string;
+  /** Wording of the best-evidenced belief in the theme */
+  label: string;
+  rooms: PlenaryThemeRoom[];
+  evidenceCount: number;
+};
+
+export type PlenaryRoomSummary = {
+  roomId: string;
+  name: string;
+  closed: boolean;
+  beliefCount: number;
+  padCount: number;
+  utteranceCount: number;
+  lastActivityMs: number | null;
+};
+
+export type PlenaryMerge = {
+  rooms: PlenaryRoomSummary[];
+  converged: PlenaryTheme[];
+  diverged: PlenaryTheme[];
+  distinct: PlenaryTheme[];
+};
+
+// ── Clustering ────────────────────────────────────────────────────────────────
+
+/** Content words with plurals folded, so "systems" meets "system" across rooms */
+function themeWords(label: string): Set<string> {
+  return new Set(
+    semanticSignature(label)
+      .split(' ')
+      .filter(Boolean)
+      .map((w) => (w.length > 4 && w.endsWith('s') && !w.endsWith('ss') ? w.slice(0, -1) : w)),
+  );
+}
+
+type Entry = { room: BreakoutRoomState; belief: BreakoutBelief; words: Set<string> };
+
+/**
+ * Greedy clustering, best-evidenced beliefs first: each belief joins the
+ * theme holding its closest match, or starts a new one.
+ */
+function clusterBeliefs(rooms: BreakoutRoomState[]): Entry[][] {
+  const entries: Entry[] = rooms
+    .flatMap((room) => room.beliefs.map((belief) => ({ room, belief, words: themeWords(belief.label) })))
+    .filter((e) => e.words.size > 0)
+    .sort((a, b) => b.belief.evidenceCount - a.belief.evidenceCount || b.belief.confidence - a.belief.confidence);
+
+  const clusters: Entry[][] = [];
+  for (const entry of entries) {
+    let best: { cluster: Entry[]; score: number } | null = null;
+    for (const cluster of clusters) {
+      const score = Math.max(...cluster.map((member) => jaccardSimilarity(member.words, entry.words)));
+      if (score >= THEME_MATCH && (!best || score > best.score)) best = { cluster, score };
+    }
+    if (best) best.cluster.push(entry);
+    else clusters.push([entry]);
+  }
+  return clusters;
+}
+
+/** A room's side on a theme — the stance carrying most of its evidence */
+function roomStance(beliefs: BreakoutBelief[]): BreakoutStance {
+  const weight: Record<BreakoutStance, number> = { for: 0, against: 0, neutral: 0 };
+  for (const b of beliefs) weight[CATEGORY_STANCE[b.category] ?? 'neutral'] += Math.max(1, b.evidenceCount);
+  if (weight.for === 0 && weight.against === 0) return 'neutral';
+  return weight.for >= weight.against ? 'for' : 'against';
+}
+
+function toTheme(cluster: Entry[], index: number): PlenaryTheme {
+  const byRoom = new Map<string, PlenaryThemeRoom>();
+  for (const { room, belief } of cluster) {
+    const entry = byRoom.get(room.roomId) ?? { roomId: room.roomId, roomName: room.name, stance: 'neutral', beliefs: [] };
+    entry.beliefs.push(belief);
+    byRoom.set(room.roomId, entry);
+  }
+  const rooms = [...byRoom.values()].map((r) => ({ ...r, stance: roomStance(r.beliefs) }));
+  return {
+    themeId: `theme:${index}`,
+    label: cluster[0].belief.label,
+    rooms,
+    evidenceCount: cluster.reduce((sum, e) => sum + e.belief.evidenceCount, 0),
+  };
+}
+
+// ── Merge ─────────────────────────────────────────────────────────────────────
+
+export function isDivergent(theme: PlenaryTheme): boolean {
+  const stances = new Set(theme.rooms.map((r) => r.stance));
+  return stances.has('for') && stances.has('against');
+}
+
+export function mergeBreakoutRooms(rooms: BreakoutRoomState[]): PlenaryMerge {
+  const themes = clusterBeliefs(rooms).map(toTheme);
+  const byStrength = (a: PlenaryTheme, b: PlenaryTheme) =>
+    b.rooms.length - a.rooms.length || b.evidenceCount - a.evidenceCount;
+
+  const shared = themes.filter((t) => t.rooms.length > 1).sort(byStrength);
+  const distinct = rooms.flatMap((room) =>
+    themes
+      .filter((t) => t.rooms.length === 1 && t.rooms[0].roomId === room.roomId)
+      .sort(byStrength)
+      .slice(0, MAX_DISTINCT_PER_ROOM),
+  );
+
+  return {
+    rooms: rooms.map((room) => ({
+      roomId: room.roomId,
+      name: room.name,
+      closed: room.closed,
+      beliefCount: room.beliefs.length,
+      padCount: room.pads.length,
+      utteranceCount: room.utteranceCount,
+      lastActivityMs: room.lastActivityMs,
+    })),
+    converged: shared.filter((t) => !isDivergent(t)),
+    diverged: shared.filter(isDivergent),
+    distinct,
+  };
+}
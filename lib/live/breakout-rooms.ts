@@ -0,0 +1,195 @@
+/**
+ * Breakout Rooms — parallel groups inside one live workshop
+ *
+ * A room is a separate live session under the same workshop: its capture
+ * stream posts to the transcript endpoint with ?room=<id>, and its
+ * CognitiveState, GuidanceState and facilitation cycle are keyed by
+ * liveSessionKey(workshopId, roomId). Events the room emits carry its roomId
+ * so each console only renders its own canvas.
+ *
+ * The plenary (the live page without a room) merges the rooms' states via
+ * breakout-merge.ts and can pull any room's pad onto the main canvas.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { persistAndEmit } from '@/lib/realtime/workshop-events';
+import { recoverCognitiveState } from '@/lib/cognition/state-store';
+import { liveSessionKey } from '@/lib/cognition/live-state-persistence';
+import type { StickyPad } from '@/lib/cognitive-guidance/pipeline';
+import { mergeBreakoutRooms, type BreakoutRoomState, type PlenaryMerge } from './breakout-merge';
+
+export const MAX_BREAKOUT_ROOMS = 12;
+/** Most recent pads per room offered to the plenary */
+const MAX_ROOM_PADS = 40;
+
+export class BreakoutRoomError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BreakoutRoomError';
+  }
+}
+
+export type BreakoutRoom = {
+  id: string;
+  name: string;
+  position: number;
+  closedAt: Date | null;
+  createdAt: Date;
+};
+
+const ROOM_SELECT = { id: true, name: true, position: true, closedAt: true, createdAt: true } as const;
+
+// ══════════════════════════════════════════════════════════════
+// ROOMS
+// ══════════════════════════════════════════════════════════════
+
+export async function listBreakoutRooms(workshopId: string): Promise<BreakoutRoom[]> {
+  return prisma.workshopBreakoutRoom.findMany({
+    where: { workshopId },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    select: ROOM_SELECT,
+  });
+}
+
+export async function findBreakoutRoom(workshopId: string, roomId: string): Promise<BreakoutRoom | null> {
+  return prisma.workshopBreakoutRoom.findFirst({
+    where: { id: roomId, workshopId },
+    select: ROOM_SELECT,
+  });
+}
+
+/** Add rooms after the existing ones, e.g. ["Table 1", "Table 2"]. */
+export async function createBreakoutRooms(workshopId: string, names: string[]): Promise<BreakoutRoom[]> {
+  const existing = await listBreakoutRooms(workshopId);
+  if (existing.length + names.length > MAX_BREAKOUT_ROOMS) {
+    throw new BreakoutRoomError(`A workshop can have at most ${MAX_BREAKOUT_ROOMS} breakout rooms`);
+  }
+  const next = existing.reduce((max, r) => Math.max(max, r.position + 1), 0);
+  return prisma.$transaction(
+    names.map((name, i) =>
+      prisma.workshopBreakoutRoom.create({
+        data: { workshopId, name, position: next + i },
+        select: ROOM_SELECT,
+      }),
+    ),
+  );
+}
+
+export async function updateBreakoutRoom(
+  workshopId: string,
+  roomId: string,
+  changes: { name?: string; closed?: boolean },
+): Promise<BreakoutRoom> {
+  const room = await findBreakoutRoom(workshopId, roomId);
+  if (!room) throw new BreakoutRoomError('Breakout room not found');
+  return prisma.workshopBreakoutRoom.update({
+    where: { id: roomId },
+    data: {
+      ...(changes.name ? { name: changes.name } : {}),
+      ...(changes.closed === undefined ? {} : { closedAt: changes.closed ? room.closedAt ?? new Date() : null }),
+    },
+    select: ROOM_SELECT,
+  });
+}
+
+/**
+ * Diarisation labels restart at speaker_0 in every room's capture stream;
+ * scoping them keeps table 1's speaker_0 apart from table 2's in the
+ * workshop speaker registry.
+ */
+export function roomSpeakerId(roomId: string, speakerId: string | null): string | null {
+  return speakerId ? `${speakerId}@${roomId}` : null;
+}
+
+// ══════════════════════════════════════════════════════════════
+// PLENARY
+// ══════════════════════════════════════════════════════════════
+
+function padFromPayload(payload: unknown): StickyPad | null {
+  const pad = (payload as { pad?: StickyPad } | null)?.pad;
+  return pad && typeof pad.id === 'string' && typeof pad.prompt === 'string' ? pad : null;
+}
+
+/** Pads a room's facilitation cycle has generated, newest first */
+export async function loadRoomPads(workshopId: string, roomId: string): Promise<StickyPad[]> {
+  const rows = await prisma.workshopEventOutbox.findMany({
+    where: { workshopId, stream: 'workshop', type: 'pad.generated', payload: { path: ['roomId'], equals: roomId } },
+    orderBy: { seq: 'desc' },
+    take: MAX_ROOM_PADS,
+    select: { payload: true },
+  });
+  return rows.map((row) => padFromPayload(row.payload)).filter((pad): pad is StickyPad => pad !== null);
+}
+
+async function loadRoomState(workshopId: string, room: BreakoutRoom, utteranceCount: number): Promise<BreakoutRoomState> {
+  const [cognitive, pads] = await Promise.all([
+    recoverCognitiveState(liveSessionKey(workshopId, room.id)),
+    loadRoomPads(workshopId, room.id),
+  ]);
+  return {
+    roomId: room.id,
+    name: room.name,
+    closed: room.closedAt !== null,
+    beliefs: cognitive
+      ? [...cognitive.beliefs.values()].map((b) => ({
+          id: b.id,
+          label: b.label,
+          category: b.category,
+          confidence: b.confidence,
+          evidenceCount: b.evidenceCount,
+          stabilised: b.stabilised,
+        }))
+      : [],
+    pads,
+    utteranceCount,
+    lastActivityMs: cognitive?.lastActivityMs ?? null,
+  };
+}
+
+/** Every room's state, merged into converged / diverged / room-only themes */
+export async function loadPlenary(workshopId: string): Promise<{ merge: PlenaryMerge; rooms: BreakoutRoomState[] }> {
+  const rooms = await listBreakoutRooms(workshopId);
+  const counts = rooms.length
+    ? await prisma.dataPoint.groupBy({
+        by: ['breakoutRoomId'],
+        where: { workshopId, breakoutRoomId: { in: rooms.map((r) => r.id) } },
+        _count: { _all: true },
+      })
+    : [];
+  const countByRoom = new Map(counts.map((c) => [c.breakoutRoomId, c._count._all]));
+
+  const states = await Promise.all(rooms.map((room) => loadRoomState(workshopId, room, countByRoom.get(room.id) ?? 0)));
+  return { merge: mergeBreakoutRooms(states), rooms: states };
+}
+
+/**
+ * Copy one of a room's pads onto the main canvas. The copy has a stable ID,
+ * so pulling the same pad twice leaves one pad on the canvas.
+ */
+export async function pullPadToPlenary(workshopId: string, roomId: string, padId: string): Promise<StickyPad> {
+  const room = await findBreakoutRoom(workshopId, roomId);
+  if (!room) throw new BreakoutRoomError('Breakout room not found');
+
+  const pad = (await loadRoomPads(workshopId, roomId)).find((p) => p.id === padId);
+  if (!pad) throw new BreakoutRoomError('Pad not found in this breakout room');
+
+  const pulled: StickyPad = {
+    ...pad,
+    id: `breakout:${room.id}:${pad.id}`,
+    createdAtMs: Date.now(),
+    status: 'active',
+    snoozedUntilMs: null,
+    coveragePercent: 0,
+    coverageState: 'active',
+    // Joins whichever main question the plenary is on
+    mainQuestionIndex: null,
+    padLabel: pad.padLabel ? `${room.name} · ${pad.padLabel}` : room.name,
+  };
+
+  await persistAndEmit(workshopId, {
+    type: 'pad.generated',
+    createdAt: Date.now(),
+    payload: { pad: pulled, pulledFrom: { roomId: room.id, roomName: room.name } },
+  });
+  return pulled;
+}
@@ -0,0 +1,315 @@
+/**
+ * Record-and-replay cassettes for LLM traffic.
+ *
+ * A cassette is a JSON file holding every prompt/response pair from one run,
+ * keyed by agent, model and prompt hash. Recording wraps the real provider
+ * adapters; replaying swaps every adapter for one that answers only from the
+ * cassette and throws CassetteMissError on anything it has not seen — so a
+ * change in prompt construction fails loudly instead of silently hitting the
+ * network or a fixture default.
+ *
+ *   const { cassette } = await recordLLMCassette('jo-air-oi', () => runIntelligencePipeline(signals));
+ *   saveLLMCassette('__tests__/fixtures/cassettes/jo-air-oi.json', cassette);
+ *
+ *   const result = await replayLLMCassette(loadLLMCassette(path), () => runIntelligencePipeline(signals));
+ *
+ * Providers are swapped process-wide via setLLMProvider(), so record/replay
+ * one run at a time (scripts and vitest files, not request handlers).
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { getLLMProvider, setLLMProvider } from './client';
+import { hashEmbeddingInput, hashLLMPrompt } from './prompt-hash';
+import {
+  LLM_PROVIDER_NAMES,
+  type LLMAssistantMessage,
+  type LLMChatRequest,
+  type LLMChatResponse,
+  type LLMEmbeddingRequest,
+  type LLMFinishReason,
+  type LLMProvider,
+  type LLMProviderName,
+  type LLMProviderRequest,
+  type LLMToolCall,
+} from './types';
+
+export const LLM_CASSETTE_VERSION = 1;
+
+// ══════════════════════════════════════════════════════════════
+// FORMAT
+// ══════════════════════════════════════════════════════════════
+
+export type LLMCassetteChatEntry = {
+  kind: 'chat';
+  agent: string;
+  provider: LLMProviderName;
+  model: string;
+  promptHash: string;
+  /** Kept so cassette diffs show what changed in the prompt. */
+  request: Pick<LLMChatRequest, 'messages' | 'tools' | 'toolChoice' | 'responseFormat' | 'temperature'>;
+  response: {
+    content: string | null;
+    toolCalls: LLMToolCall[];
+    finishReason: LLMFinishReason;
+  };
+};
+
+export type LLMCassetteEmbedEntry = {
+  kind: 'embed';
+  agent: string;
+  provider: LLMProviderName;
+  model: string;
+  promptHash: string;
+  vectors: number[][];
+};
+
+export type LLMCassetteEntry = LLMCassetteChatEntry | LLMCassetteEmbedEntry;
+
+export type LLMCassette = {
+  version: typeof LLM_CASSETTE_VERSION;
+  name: string;
+  recordedAt: string;
+  /** Optional pipeline input (e.g. WorkshopSignals) so the run replays without a database. */
+  input?: unknown;
+  entries: LLMCassetteEntry[];
+};
+
+export function createLLMCassette(name: string, input?: unknown): LLMCassette {
+  return { version: LLM_CASSETTE_VERSION, name, recordedAt: new Date().toISOString(), input, entries: [] };
+}
+
+export function loadLLMCassette(path: string): LLMCassette {
+  const parsed = JSON.parse(readFileSync(path, 'utf-8')) as LLMCassette;
+  if (parsed?.version !== LLM_CASSETTE_VERSION || !Array.isArray(parsed.entries)) {
+    throw new Error(`[LLM:cassette] ${path} is not a v${LLM_CASSETTE_VERSION} cassette`);
+  }
+  return parsed;
+}
+
+export function saveLLMCassette(path: string, cassette: LLMCassette): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(path, JSON.stringify(cassette, null, 2) + '\n', 'utf-8');
+}
+
+export class CassetteMissError extends Error {
+  constructor(
+    readonly agent: string,
+    readonly model: string,
+    readonly promptHash: string,
+    readonly cassetteName: string,
+  ) {
+    super(
+      `[LLM:cassette] "${cassetteName}" has no ${agent} exchange for model ${model} with prompt ${promptHash}. ` +
+        'The prompt changed since recording — fix the regression or re-record the cassette.',
+    );
+    this.name = 'CassetteMissError';
+  }
+}
+
+function entryKey(agent: string, model: string | null, promptHash: string): string {
+  return model === null ? `${agent}|${promptHash}` : `${agent}|${model}|${promptHash}`;
+}
+
+// ══════════════════════════════════════════════════════════════
+// RECORDING
+// ══════════════════════════════════════════════════════════════
+
+/** Pass-through wrapper that appends every exchange to a cassette. */
+export class RecordingLLMProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+
+  constructor(
+    private readonly inner: LLMProvider,
+    private readonly cassette: LLMCassette,
+  ) {
+    this.name = inner.name;
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured();
+  }
+
+  private recordChat(request: LLMProviderRequest, response: Pick<LLMChatResponse, 'message' | 'finishReason'>): void {
+    this.cassette.entries.push({
+      kind: 'chat',
+      agent: request.agent,
+      provider: this.name,
+      model: request.model,
+      promptHash: hashLLMPrompt(request),
+      request: {
+        messages: request.messages,
+        tools: request.tools,
+        toolChoice: request.toolChoice,
+        responseFormat: request.responseFormat,
+        temperature: request.temperature,
+      },
+      response: {
+        content: response.message.content,
+        toolCalls: response.message.tool_calls ?? [],
+        finishReason: response.finishReason,
+      },
+    });
+  }
+
+  async chat(request: LLMProviderRequest): Promise<LLMChatResponse> {
+    const response = await this.inner.chat(request);
+    this.recordChat(request, response);
+    return response;
+  }
+
+  async *stream(request: LLMProviderRequest): AsyncIterable<string> {
+    let content = '';
+    for await (const delta of this.inner.stream(request)) {
+      content += delta;
+      yield delta;
+    }
+    this.recordChat(request, { message: { role: 'assistant', content }, finishReason: 'stop' });
+  }
+
+  async embed(request: LLMEmbeddingRequest): Promise<number[][]> {
+    const vectors = await this.inner.embed(request);
+    this.cassette.entries.push({
+      kind: 'embed',
+      agent: request.agent,
+      provider: this.name,
+      model: request.model,
+      promptHash: hashEmbeddingInput(request.input),
+      vectors,
+    });
+    return vectors;
+  }
+}
+
+// ══════════════════════════════════════════════════════════════
+// REPLAY
+// ══════════════════════════════════════════════════════════════
+
+export type ReplayOptions = {
+  /**
+   * Require the resolved model to match the recorded one. Turn off to replay
+   * a cassette under a different provider config. Default true.
+   */
+  matchModel?: boolean;
+};
+
+/**
+ * Answers strictly from a cassette. Identical requests recorded more than once
+ * replay in recorded order; once exhausted the last answer repeats. One
+ * instance stands in for every provider name, so responses report the
+ * provider that was recorded rather than this adapter's name.
+ */
+export class ReplayLLMProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'fixture';
+  private readonly byKey = new Map<string, LLMCassetteEntry[]>();
+  private readonly cursors = new Map<string, number>();
+  private readonly used = new Set<LLMCassetteEntry>();
+  private readonly matchModel: boolean;
+
+  constructor(
+    private readonly cassette: LLMCassette,
+    options: ReplayOptions = {},
+  ) {
+    this.matchModel = options.matchModel ?? true;
+    for (const entry of cassette.entries) {
+      const key = `${entry.kind}:${entryKey(entry.agent, this.matchModel ? entry.model : null, entry.promptHash)}`;
+      const list = this.byKey.get(key) ?? [];
+      list.push(entry);
+      this.byKey.set(key, list);
+    }
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  private take<K extends LLMCassetteEntry['kind']>(
+    kind: K,
+    agent: string,
+    model: string,
+    promptHash: string,
+  ): Extract<LLMCassetteEntry, { kind: K }> {
+    const key = `${kind}:${entryKey(agent, this.matchModel ? model : null, promptHash)}`;
+    const list = this.byKey.get(key);
+    if (!list?.length) throw new CassetteMissError(agent, model, promptHash, this.cassette.name);
+    const cursor = this.cursors.get(key) ?? 0;
+    const entry = list[Math.min(cursor, list.length - 1)];
+    this.cursors.set(key, cursor + 1);
+    this.used.add(entry);
+    return entry as Extract<LLMCassetteEntry, { kind: K }>;
+  }
+
+  async chat(request: LLMProviderRequest): Promise<LLMChatResponse> {
+    const entry = this.take('chat', request.agent, request.model, hashLLMPrompt(request));
+    const message: LLMAssistantMessage = { role: 'assistant', content: entry.response.content };
+    if (entry.response.toolCalls.length) message.tool_calls = entry.response.toolCalls;
+    return {
+      message,
+      content: message.content ?? '',
+      toolCalls: entry.response.toolCalls,
+      finishReason: entry.response.finishReason,
+      model: entry.model,
+      provider: entry.provider,
+      usage: null,
+    };
+  }
+
+  async *stream(request: LLMProviderRequest): AsyncIterable<string> {
+    const { content } = await this.chat(request);
+    for (const piece of content.match(/\S+\s*/g) ?? []) yield piece;
+  }
+
+  async embed(request: LLMEmbeddingRequest): Promise<number[][]> {
+    return this.take('embed', request.agent, request.model, hashEmbeddingInput(request.input)).vectors;
+  }
+
+  /** Recorded exchanges the replayed run never asked for — usually a dropped agent call. */
+  unusedEntries(): LLMCassetteEntry[] {
+    return this.cassette.entries.filter((e) => !this.used.has(e));
+  }
+}
+
+// ══════════════════════════════════════════════════════════════
+// RUN HELPERS
+// ══════════════════════════════════════════════════════════════
+
+function swapProviders(make: (name: LLMProviderName) => LLMProvider): () => void {
+  for (const name of LLM_PROVIDER_NAMES) setLLMProvider(name, make(name));
+  return () => {
+    for (const name of LLM_PROVIDER_NAMES) setLLMProvider(name, null);
+  };
+}
+
+/** Run `fn` against the real providers, capturing every exchange. */
+export async function recordLLMCassette<T>(
+  name: string,
+  fn: () => Promise<T>,
+  options: { input?: unknown } = {},
+): Promise<{ result: T; cassette: LLMCassette }> {
+  const cassette = createLLMCassette(name, options.input);
+  const real = new Map(LLM_PROVIDER_NAMES.map((n) => [n, getLLMProvider(n)] as const));
+  const restore = swapProviders((n) => new RecordingLLMProvider(real.get(n)!, cassette));
+  try {
+    const result = await fn();
+    return { result, cassette };
+  } finally {
+    restore();
+  }
+}
+
+/** Run `fn` with every provider answering from `cassette` only. */
+export async function replayLLMCassette<T>(
+  cassette: LLMCassette,
+  fn: () => Promise<T>,
+  options: ReplayOptions = {},
+): Promise<{ result: T; unused: LLMCassetteEntry[] }> {
+  const replayer = new ReplayLLMProvider(cassette, options);
+  const restore = swapProviders(() => replayer);
+  try {
+    const result = await fn();
+    return { result, unused: replayer.unusedEntries() };
+  } finally {
+    restore();
+  }
+}
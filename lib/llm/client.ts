@@ -0,0 +1,112 @@
+/**
+ * Agent-facing entry point: getLLMClient(agent).
+ *
+ * Provider adapters are singletons (they hold SDK clients and breakers); the
+ * LLMClient is a thin per-call handle that resolves the agent's provider and
+ * tier → model mapping from the active config at call time, so a client
+ * obtained outside withLLMConfig() still honours a scope entered later.
+ */
+
+import { resolveLLMSettings } from './config';
+import { AnthropicProvider } from './providers/anthropic-provider';
+import { FixtureLLMProvider } from './providers/fixture-provider';
+import { AzureOpenAIProvider, OpenAIProvider } from './providers/openai-provider';
+import {
+  LLMProviderError,
+  type LLMChatRequest,
+  type LLMClient,
+  type LLMModelTier,
+  type LLMProvider,
+  type LLMProviderName,
+  type LLMProviderRequest,
+} from './types';
+
+// ══════════════════════════════════════════════════════════════
+// PROVIDER REGISTRY
+// ══════════════════════════════════════════════════════════════
+
+const factories: Record<LLMProviderName, () => LLMProvider> = {
+  openai: () => new OpenAIProvider(),
+  'azure-openai': () => new AzureOpenAIProvider(),
+  anthropic: () => new AnthropicProvider(),
+  fixture: () => new FixtureLLMProvider(),
+};
+
+const instances = new Map<LLMProviderName, LLMProvider>();
+
+export function getLLMProvider(name: LLMProviderName): LLMProvider {
+  let provider = instances.get(name);
+  if (!provider) {
+    provider = factories[name]();
+    instances.set(name, provider);
+  }
+  return provider;
+}
+
+/** The shared fixture provider — register fixtures on it in tests. */
+export function getFixtureProvider(): FixtureLLMProvider {
+  return getLLMProvider('fixture') as FixtureLLMProvider;
+}
+
+/**
+ * Replace the adapter used for `name` (e.g. a recording wrapper), or restore
+ * the default when `provider` is null.
+ */
+export function setLLMProvider(name: LLMProviderName, provider: LLMProvider | null): void {
+  if (provider) instances.set(name, provider);
+  else instances.delete(name);
+}
+
+// ══════════════════════════════════════════════════════════════
+// CLIENT
+// ══════════════════════════════════════════════════════════════
+
+function toProviderRequest(agent: string, request: LLMChatRequest, model: string): LLMProviderRequest {
+  const { tier: _tier, model: _model, ...rest } = request;
+  return { ...rest, model, agent };
+}
+
+/**
+ * Get an LLM handle for a named agent. The name keys per-agent overrides in
+ * the LLM config and fixture matching, so keep it stable (kebab-case, e.g.
+ * 'root-cause', 'facilitation-orchestrator').
+ */
+export function getLLMClient(agent: string): LLMClient {
+  const settings = () => resolveLLMSettings(agent);
+  const modelFor = (tier: LLMModelTier = 'standard') => settings().models[tier];
+
+  return {
+    agent,
+    get provider() {
+      return settings().provider;
+    },
+    isConfigured() {
+      return getLLMProvider(settings().provider).isConfigured();
+    },
+    isEmbeddingConfigured() {
+      const { embeddingProvider, embeddingModel } = settings();
+      return !!embeddingModel && getLLMProvider(embeddingProvider).isConfigured();
+    },
+    modelFor,
+    chat(request) {
+      const { provider } = settings();
+      return getLLMProvider(provider).chat(toProviderRequest(agent, request, request.model ?? modelFor(request.tier)));
+    },
+    stream(request) {
+      const { provider } = settings();
+      return getLLMProvider(provider).stream(toProviderRequest(agent, request, request.model ?? modelFor(request.tier)));
+    },
+    async embed(input, options) {
+      const { embeddingProvider, embeddingModel } = settings();
+      if (!embeddingModel) {
+        throw new LLMProviderError(embeddingProvider, 'No embedding model configured');
+      }
+      return getLLMProvider(embeddingProvider).embed({
+        input: Array.isArray(input) ? input : [input],
+        model: embeddingModel,
+        agent,
+        signal: options?.signal,
+      });
+    },
+  };
+}
@@ -0,0 +1,170 @@
+/**
+ * LLM provider configuration and resolution.
+ *
+ * Resolution order (later wins):
+ *   1. Built-in provider defaults (PROVIDER_DEFAULT_MODELS)
+ *   2. Deployment env — LLM_PROVIDER, LLM_MODEL_STANDARD, LLM_MODEL_FAST,
+ *      LLM_EMBEDDING_MODEL, or a full JSON document in LLM_CONFIG
+ *   3. The active scope — usually an organisation's Organization.llmConfig,
+ *      installed with withLLMConfig() around a request
+ *   4. Per-agent overrides inside whichever config is active (config.agents[agent])
+ *
+ * The scope uses AsyncLocalStorage so that agents deep inside a pipeline pick
+ * up the organisation's choice without threading it through every signature.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { z } from 'zod';
+import { env } from '@/lib/env';
+import { LLM_PROVIDER_NAMES, type LLMModelTier, type LLMProviderName } from './types';
+
+// ══════════════════════════════════════════════════════════════
+// SCHEMA
+// ══════════════════════════════════════════════════════════════
+
+const ProviderNameSchema = z.enum(LLM_PROVIDER_NAMES);
+
+const TierModelsSchema = z.object({
+  standard: z.string().min(1).optional(),
+  fast: z.string().min(1).optional(),
+});
+
+export const LLMAgentOverrideSchema = z.object({
+  provider: ProviderNameSchema.optional(),
+  models: TierModelsSchema.optional(),
+});
+
+export const LLMConfigSchema = z.object({
+  provider: ProviderNameSchema.optional(),
+  models: TierModelsSchema.optional(),
+  /** Anthropic has no embeddings API — point embeddings elsewhere. */
+  embeddingProvider: ProviderNameSchema.optional(),
+  embeddingModel: z.string().min(1).optional(),
+  agents: z.record(z.string(), LLMAgentOverrideSchema).optional(),
+});
+
+export type LLMAgentOverride = z.infer<typeof LLMAgentOverrideSchema>;
+export type LLMConfig = z.infer<typeof LLMConfigSchema>;
+
+/** Parse untrusted JSON (env var, DB column). Invalid input yields null, never throws. */
+export function readLLMConfig(raw: unknown): LLMConfig | null {
+  if (raw == null) return null;
+  let value = raw;
+  if (typeof raw === 'string') {
+    try { value = JSON.parse(raw); } catch { return null; }
+  }
+  const parsed = LLMConfigSchema.safeParse(value);
+  if (!parsed.success) {
+    console.warn('[LLM] Ignoring invalid LLM config:', parsed.error.issues.map((i) => i.message).join('; '));
+    return null;
+  }
+  return parsed.data;
+}
+
+// ══════════════════════════════════════════════════════════════
+// DEFAULTS
+// ══════════════════════════════════════════════════════════════
+
+export const PROVIDER_DEFAULT_MODELS: Record<LLMProviderName, Record<LLMModelTier, string>> = {
+  openai: { standard: 'gpt-4o', fast: 'gpt-4o-mini' },
+  // Azure addresses models by deployment name; these match the usual deployment naming.
+  'azure-openai': { standard: 'gpt-4o', fast: 'gpt-4o-mini' },
+  anthropic: { standard: 'claude-sonnet-4-5', fast: 'claude-haiku-4-5' },
+  fixture: { standard: 'fixture-standard', fast: 'fixture-fast' },
+};
+
+export const PROVIDER_DEFAULT_EMBEDDING_MODELS: Record<LLMProviderName, string | null> = {
+  openai: 'text-embedding-3-small',
+  'azure-openai': 'text-embedding-3-small',
+  anthropic: null,
+  fixture: 'fixture-embedding',
+};
+
+function envConfig(): LLMConfig {
+  const fromJson = readLLMConfig(env.LLM_CONFIG) ?? {};
+  return mergeLLMConfig(fromJson, {
+    provider: env.LLM_PROVIDER,
+    models: {
+      standard: env.LLM_MODEL_STANDARD || undefined,
+      fast: env.LLM_MODEL_FAST || undefined,
+    },
+    embeddingModel: env.LLM_EMBEDDING_MODEL || undefined,
+  });
+}
+
+// ══════════════════════════════════════════════════════════════
+// MERGE & SCOPE
+// ══════════════════════════════════════════════════════════════
+
+function definedOnly<T extends Record<string, unknown>>(obj: T | undefined): Partial<T> {
+  if (!obj) return {};
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+/** Shallow-merge two configs; `override` wins field by field, agent maps merge per agent. */
+export function mergeLLMConfig(base: LLMConfig, override: LLMConfig | null | undefined): LLMConfig {
+  if (!override) return base;
+  const agents: Record<string, LLMAgentOverride> = { ...(base.agents ?? {}) };
+  for (const [agent, o] of Object.entries(override.agents ?? {})) {
+    const prev = agents[agent] ?? {};
+    agents[agent] = {
+      ...prev,
+      ...definedOnly(o),
+      models: { ...(prev.models ?? {}), ...definedOnly(o.models) },
+    };
+  }
+  return {
+    ...base,
+    ...definedOnly(override),
+    models: { ...(base.models ?? {}), ...definedOnly(override.models) },
+    agents,
+  };
+}
+
+const scope = new AsyncLocalStorage<LLMConfig>();
+
+/**
+ * Run `fn` with `config` layered over the deployment config. Nested scopes
+ * merge, so a per-request agent override can sit on top of the org config.
+ */
+export function withLLMConfig<T>(config: LLMConfig | null | undefined, fn: () => T): T {
+  if (!config) return fn();
+  const outer = scope.getStore();
+  return scope.run(outer ? mergeLLMConfig(outer, config) : config, fn);
+}
+
+/** The config currently in effect: env plus any active scope. */
+export function getActiveLLMConfig(): LLMConfig {
+  return mergeLLMConfig(envConfig(), scope.getStore());
+}
+
+// ══════════════════════════════════════════════════════════════
+// RESOLUTION
+// ══════════════════════════════════════════════════════════════
+
+export type ResolvedLLMSettings = {
+  provider: LLMProviderName;
+  models: Record<LLMModelTier, string>;
+  embeddingProvider: LLMProviderName;
+  embeddingModel: string | null;
+};
+
+/**
+ * Resolve provider and models for one agent. Model overrides only carry over
+ * when they were set alongside the same provider — switching an agent to
+ * Anthropic must not leave it asking Anthropic for "gpt-4o".
+ */
+export function resolveLLMSettings(agent: string, config: LLMConfig = getActiveLLMConfig()): ResolvedLLMSettings {
+  const override = config.agents?.[agent];
+  const globalProvider = config.provider ?? 'openai';
+  const provider = override?.provider ?? globalProvider;
+
+  const defaults = PROVIDER_DEFAULT_MODELS[provider];
+  const globalModels = provider === globalProvider ? definedOnly(config.models) : {};
+  const models = { ...defaults, ...globalModels, ...definedOnly(override?.models) };
+
+  const embeddingProvider = config.embeddingProvider ?? (globalProvider === 'anthropic' ? 'openai' : globalProvider);
+  const embeddingModel = config.embeddingModel ?? PROVIDER_DEFAULT_EMBEDDING_MODELS[embeddingProvider];
+
+  return { provider, models, embeddingProvider, embeddingModel };
+}
@@ -0,0 +1,60 @@
+/**
+ * lib/llm/index.ts
+ * Barrel export for the pluggable LLM provider layer.
+ */
+
+export { getLLMClient, getLLMProvider, getFixtureProvider, setLLMProvider } from './client';
+
+export {
+  LLMConfigSchema,
+  readLLMConfig,
+  mergeLLMConfig,
+  withLLMConfig,
+  getActiveLLMConfig,
+  resolveLLMSettings,
+  PROVIDER_DEFAULT_MODELS,
+} from './config';
+export type { LLMConfig, LLMAgentOverride, ResolvedLLMSettings } from './config';
+
+export { hashLLMPrompt, hashEmbeddingInput } from './prompt-hash';
+
+export {
+  LLM_CASSETTE_VERSION,
+  CassetteMissError,
+  RecordingLLMProvider,
+  ReplayLLMProvider,
+  createLLMCassette,
+  loadLLMCassette,
+  saveLLMCassette,
+  recordLLMCassette,
+  replayLLMCassette,
+} from './cassette';
+export type {
+  LLMCassette,
+  LLMCassetteEntry,
+  LLMCassetteChatEntry,
+  LLMCassetteEmbedEntry,
+  ReplayOptions,
+} from './cassette';
+
+export { FixtureLLMProvider, deterministicVector } from './providers/fixture-provider';
+export type { LLMFixture, LLMFixtureToolCall } from './providers/fixture-provider';
+
+export { LLM_PROVIDER_NAMES, LLMProviderError } from './types';
+export type {
+  LLMProviderName,
+  LLMModelTier,
+  LLMMessage,
+  LLMContentPart,
+  LLMAssistantMessage,
+  LLMTool,
+  LLMToolCall,
+  LLMToolChoice,
+  LLMChatRequest,
+  LLMChatResponse,
+  LLMProviderRequest,
+  LLMEmbeddingRequest,
+  LLMFinishReason,
+  LLMProvider,
+  LLMClient,
+} from './types';
@@ -0,0 +1,33 @@
+/**
+ * Per-organisation LLM selection, stored in Organization.llmConfig.
+ *
+ * Kept out of the lib/llm barrel so agents importing the client do not pull
+ * in Prisma. Route handlers wrap their work with withOrganizationLLMConfig().
+ */
+
+import { prisma } from '@/lib/prisma';
+import { readLLMConfig, withLLMConfig, type LLMConfig } from './config';
+
+export async function loadOrganizationLLMConfig(organizationId: string | null | undefined): Promise<LLMConfig | null> {
+  if (!organizationId) return null;
+  try {
+    const org = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { llmConfig: true },
+    });
+    return readLLMConfig(org?.llmConfig);
+  } catch (err) {
+    // Never block a request on config lookup — fall back to the deployment default.
+    console.error('[LLM] Failed to load organisation LLM config:', err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+/** Run `fn` with the organisation's LLM config in scope (no-op when none is set). */
+export async function withOrganizationLLMConfig<T>(
+  organizationId: string | null | undefined,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const config = await loadOrganizationLLMConfig(organizationId);
+  return withLLMConfig(config, fn);
+}
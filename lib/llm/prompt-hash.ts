@@ -0,0 +1,37 @@
+/**
+ * Stable hash of an LLM request's prompt content.
+ *
+ * Covers what determines the model's answer — messages, tools, tool choice,
+ * response format — and deliberately excludes the model id, temperature and
+ * abort signal so the same prompt matches across providers and tiers.
+ */
+
+import { createHash } from 'crypto';
+import type { LLMChatRequest } from './types';
+
+type HashableRequest = Pick<LLMChatRequest, 'messages' | 'tools' | 'toolChoice' | 'responseFormat'>;
+
+/** JSON.stringify with sorted object keys, so key order never changes the hash. */
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+}
+
+export function hashLLMPrompt(request: HashableRequest): string {
+  const payload = canonicalJson({
+    messages: request.messages,
+    tools: request.tools ?? null,
+    toolChoice: request.toolChoice ?? null,
+    responseFormat: request.responseFormat ?? 'text',
+  });
+  return createHash('sha256').update(payload).digest('hex').slice(0, 32);
+}
+
+/** Same idea for embeddings: the ordered input texts are the whole prompt. */
+export function hashEmbeddingInput(input: string[]): string {
+  return createHash('sha256').update(canonicalJson(input)).digest('hex').slice(0, 32);
+}
@@ -0,0 +1,236 @@
+/**
+ * Anthropic adapter.
+ *
+ * Translates the chat-completions message shape used by the agents into the
+ * Messages API:
+ *   - system messages are hoisted into the `system` parameter
+ *   - assistant tool_calls become tool_use blocks; tool messages become
+ *     tool_result blocks on a user turn
+ *   - consecutive same-role turns are merged (the API requires alternation)
+ *   - image_url parts become image blocks (base64 for `data:` URLs)
+ *
+ * There is no native JSON mode, so 'json' requests get an explicit instruction
+ * and any code fence around the reply is stripped. Anthropic has no embeddings
+ * endpoint — resolveLLMSettings routes embeddings to another provider.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { env } from '@/lib/env';
+import { anthropicBreaker } from '@/lib/circuit-breaker';
+import {
+  LLMProviderError,
+  type LLMAssistantMessage,
+  type LLMChatResponse,
+  type LLMContentPart,
+  type LLMEmbeddingRequest,
+  type LLMFinishReason,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMProviderName,
+  type LLMProviderRequest,
+  type LLMToolCall,
+  type LLMToolChoice,
+} from '../types';
+
+const DEFAULT_MAX_TOKENS = 4096;
+const JSON_INSTRUCTION = 'Respond with a single valid JSON object only. No prose, no code fences.';
+
+type ContentBlock = Anthropic.Messages.ContentBlockParam;
+type Turn = { role: 'user' | 'assistant'; content: ContentBlock[] };
+
+function parseArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(args);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+const DATA_URL = /^data:(image\/(?:jpeg|png|gif|webp));base64,([A-Za-z0-9+/=]+)$/;
+
+function toContentBlocks(content: string | LLMContentPart[]): ContentBlock[] {
+  if (typeof content === 'string') return content ? [{ type: 'text', text: content }] : [];
+  return content.map((part): ContentBlock => {
+    if (part.type === 'text') return { type: 'text', text: part.text };
+    const data = part.image_url.url.match(DATA_URL);
+    return data
+      ? {
+          type: 'image',
+          source: { type: 'base64', media_type: data[1] as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp', data: data[2] },
+        }
+      : { type: 'image', source: { type: 'url', url: part.image_url.url } };
+  });
+}
+
+/** Exported for unit tests — pure translation, no network. */
+export function toAnthropicMessages(
+  messages: LLMMessage[],
+  json: boolean,
+): { system: string | undefined; messages: Anthropic.Messages.MessageParam[] } {
+  const systemParts: string[] = [];
+  const turns: Turn[] = [];
+
+  const push = (role: Turn['role'], blocks: ContentBlock[]) => {
+    if (blocks.length === 0) return;
+    const last = turns[turns.length - 1];
+    if (last && last.role === role) last.content.push(...blocks);
+    else turns.push({ role, content: blocks });
+  };
+
+  for (const m of messages) {
+    switch (m.role) {
+      case 'system':
+        systemParts.push(m.content);
+        break;
+      case 'user':
+        push('user', toContentBlocks(m.content));
+        break;
+      case 'assistant': {
+        const blocks: ContentBlock[] = [];
+        if (m.content) blocks.push({ type: 'text', text: m.content });
+        for (const tc of m.tool_calls ?? []) {
+          blocks.push({ type: 'tool_use', id: tc.id, name: tc.function.name, input: parseArguments(tc.function.arguments) });
+        }
+        push('assistant', blocks);
+        break;
+      }
+      case 'tool':
+        push('user', [{ type: 'tool_result', tool_use_id: m.tool_call_id, content: m.content }]);
+        break;
+    }
+  }
+
+  if (json) systemParts.push(JSON_INSTRUCTION);
+  return {
+    system: systemParts.length ? systemParts.join('\n\n') : undefined,
+    messages: turns,
+  };
+}
+
+function toToolChoice(choice: LLMToolChoice | undefined): Anthropic.Messages.ToolChoice | undefined {
+  if (!choice) return undefined;
+  if (choice === 'auto') return { type: 'auto' };
+  if (choice === 'none') return { type: 'none' };
+  if (choice === 'required') return { type: 'any' };
+  return { type: 'tool', name: choice.function.name };
+}
+
+function toFinishReason(reason: string | null | undefined): LLMFinishReason {
+  switch (reason) {
+    case 'end_turn':
+    case 'stop_sequence':
+      return 'stop';
+    case 'max_tokens':
+      return 'length';
+    case 'tool_use':
+      return 'tool_calls';
+    case 'refusal':
+      return 'content_filter';
+    default:
+      return 'unknown';
+  }
+}
+
+function stripCodeFence(text: string): string {
+  const m = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return m ? m[1] : text;
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'anthropic';
+  private client: Anthropic | null = null;
+
+  private apiKey(): string | undefined {
+    return env.ANTHROPIC_API_KEY || process.env.ANTHROPIC_API_KEY;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey();
+  }
+
+  private getClient(): Anthropic {
+    if (!this.isConfigured()) {
+      throw new LLMProviderError(this.name, 'API key not configured');
+    }
+    this.client ??= new Anthropic({ apiKey: this.apiKey() });
+    return this.client;
+  }
+
+  private buildParams(request: LLMProviderRequest): Anthropic.Messages.MessageCreateParamsNonStreaming {
+    const json = request.responseFormat === 'json';
+    const { system, messages } = toAnthropicMessages(request.messages, json);
+    const params: Anthropic.Messages.MessageCreateParamsNonStreaming = {
+      model: request.model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      messages,
+    };
+    if (system) params.system = system;
+    if (request.temperature !== undefined) params.temperature = request.temperature;
+    if (request.tools?.length) {
+      params.tools = request.tools.map((t) => ({
+        name: t.function.name,
+        description: t.function.description,
+        input_schema: (t.function.parameters ?? { type: 'object', properties: {} }) as Anthropic.Messages.Tool.InputSchema,
+      }));
+      let toolChoice = toToolChoice(request.toolChoice);
+      if (request.parallelToolCalls === false && toolChoice?.type !== 'none') {
+        toolChoice = { ...(toolChoice ?? { type: 'auto' }), disable_parallel_tool_use: true };
+      }
+      if (toolChoice) params.tool_choice = toolChoice;
+    }
+    return params;
+  }
+
+  async chat(request: LLMProviderRequest): Promise<LLMChatResponse> {
+    const client = this.getClient();
+    const response = await anthropicBreaker.execute(() =>
+      client.messages.create(this.buildParams(request), { signal: request.signal }),
+    );
+
+    let text = '';
+    const toolCalls: LLMToolCall[] = [];
+    for (const block of response.content) {
+      if (block.type === 'text') text += block.text;
+      else if (block.type === 'tool_use') {
+        toolCalls.push({
+          id: block.id,
+          type: 'function',
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+        });
+      }
+    }
+    if (request.responseFormat === 'json') text = stripCodeFence(text);
+
+    const message: LLMAssistantMessage = { role: 'assistant', content: text || null };
+    if (toolCalls.length) message.tool_calls = toolCalls;
+
+    return {
+      message,
+      content: text,
+      toolCalls,
+      finishReason: toFinishReason(response.stop_reason),
+      model: response.model ?? request.model,
+      provider: this.name,
+      usage: response.usage
+        ? { promptTokens: response.usage.input_tokens, completionTokens: response.usage.output_tokens }
+        : null,
+    };
+  }
+
+  async *stream(request: LLMProviderRequest): AsyncIterable<string> {
+    const client = this.getClient();
+    const stream = await anthropicBreaker.execute(() =>
+      client.messages.create({ ...this.buildParams(request), stream: true }, { signal: request.signal }),
+    );
+    for await (const event of stream) {
+      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        yield event.delta.text;
+      }
+    }
+  }
+
+  async embed(_request: LLMEmbeddingRequest): Promise<number[][]> {
+    throw new LLMProviderError(this.name, 'Embeddings are not supported — set embeddingProvider in the LLM config');
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Offline, deterministic stand-in provider.
+ *
+ * Used by vitest and by air-gapped deployments (LLM_PROVIDER=fixture). Never
+ * touches the network. Replies come from, in order:
+ *   1. Registered fixtures — matched on agent, prompt hash and/or a substring
+ *      of the last user/tool message
+ *   2. JSON fixture files in LLM_FIXTURE_DIR, one `<agent>.json` array per agent
+ *   3. A deterministic default: forced tool_choice → that tool with `{}`,
+ *      JSON mode → `{}`, otherwise a fixed placeholder string
+ *
+ * Embeddings are pseudo-random unit vectors seeded from the input text, so
+ * identical text always embeds identically and similarity search still works.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { env } from '@/lib/env';
+import { hashLLMPrompt } from '../prompt-hash';
+import type {
+  LLMAssistantMessage,
+  LLMChatResponse,
+  LLMEmbeddingRequest,
+  LLMProvider,
+  LLMProviderName,
+  LLMProviderRequest,
+  LLMToolCall,
+} from '../types';
+
+export const FIXTURE_EMBEDDING_DIMENSIONS = 1536;
+
+export type LLMFixtureToolCall = {
+  name: string;
+  /** Object or pre-serialised JSON string. */
+  arguments: Record<string, unknown> | string;
+};
+
+export type LLMFixture = {
+  /** Only match requests from this agent. */
+  agent?: string;
+  /** Only match this exact prompt (see hashLLMPrompt). */
+  promptHash?: string;
+  /** Only match when the latest user/tool message contains this text. */
+  match?: string;
+  response: {
+    content?: string | null;
+    toolCalls?: LLMFixtureToolCall[];
+  };
+  /** Consume the fixture after the first match. Default false. */
+  once?: boolean;
+};
+
+function lastInputText(request: LLMProviderRequest): string {
+  for (let i = request.messages.length - 1; i >= 0; i--) {
+    const m = request.messages[i];
+    if (m.role === 'tool') return m.content;
+    if (m.role === 'user') {
+      return typeof m.content === 'string'
+        ? m.content
+        : m.content.map((part) => (part.type === 'text' ? part.text : '')).join('\n');
+    }
+  }
+  return '';
+}
+
+function matches(fixture: LLMFixture, request: LLMProviderRequest, promptHash: string): boolean {
+  if (fixture.agent && fixture.agent !== request.agent) return false;
+  if (fixture.promptHash && fixture.promptHash !== promptHash) return false;
+  if (fixture.match && !lastInputText(request).includes(fixture.match)) return false;
+  return true;
+}
+
+export class FixtureLLMProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'fixture';
+  private fixtures: LLMFixture[] = [];
+  private fileFixtures = new Map<string, LLMFixture[]>();
+  private callCounter = 0;
+
+  constructor(private readonly fixtureDir: string | undefined = env.LLM_FIXTURE_DIR) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  register(...fixtures: LLMFixture[]): void {
+    this.fixtures.push(...fixtures);
+  }
+
+  /** Drop all registered fixtures and cached fixture files (call between tests). */
+  reset(): void {
+    this.fixtures = [];
+    this.fileFixtures.clear();
+    this.callCounter = 0;
+  }
+
+  private loadFileFixtures(agent: string): LLMFixture[] {
+    if (!this.fixtureDir) return [];
+    const cached = this.fileFixtures.get(agent);
+    if (cached) return cached;
+    const path = join(this.fixtureDir, `${agent}.json`);
+    let loaded: LLMFixture[] = [];
+    if (existsSync(path)) {
+      try {
+        const parsed = JSON.parse(readFileSync(path, 'utf-8'));
+        loaded = Array.isArray(parsed) ? parsed : [];
+      } catch (err) {
+        console.warn(`[LLM:fixture] Could not read ${path}:`, err instanceof Error ? err.message : err);
+      }
+    }
+    this.fileFixtures.set(agent, loaded);
+    return loaded;
+  }
+
+  private findFixture(request: LLMProviderRequest): LLMFixture | null {
+    const promptHash = hashLLMPrompt(request);
+    const idx = this.fixtures.findIndex((f) => matches(f, request, promptHash));
+    if (idx >= 0) {
+      const fixture = this.fixtures[idx];
+      if (fixture.once) this.fixtures.splice(idx, 1);
+      return fixture;
+    }
+    return this.loadFileFixtures(request.agent).find((f) => matches(f, request, promptHash)) ?? null;
+  }
+
+  private defaultResponse(request: LLMProviderRequest): LLMFixture['response'] {
+    const choice = request.toolChoice;
+    if (request.tools?.length && choice && typeof choice === 'object') {
+      return { content: null, toolCalls: [{ name: choice.function.name, arguments: {} }] };
+    }
+    if (request.responseFormat === 'json') return { content: '{}' };
+    return { content: `[fixture:${request.agent}] No fixture matched this prompt.` };
+  }
+
+  async chat(request: LLMProviderRequest): Promise<LLMChatResponse> {
+    const reply = this.findFixture(request)?.response ?? this.defaultResponse(request);
+
+    const toolCalls: LLMToolCall[] = (reply.toolCalls ?? []).map((tc) => ({
+      id: `call_fixture_${++this.callCounter}`,
+      type: 'function',
+      function: {
+        name: tc.name,
+        arguments: typeof tc.arguments === 'string' ? tc.arguments : JSON.stringify(tc.arguments),
+      },
+    }));
+
+    const message: LLMAssistantMessage = { role: 'assistant', content: reply.content ?? null };
+    if (toolCalls.length) message.tool_calls = toolCalls;
+
+    return {
+      message,
+      content: message.content ?? '',
+      toolCalls,
+      finishReason: toolCalls.length ? 'tool_calls' : 'stop',
+      model: request.model,
+      provider: this.name,
+      usage: null,
+    };
+  }
+
+  async *stream(request: LLMProviderRequest): AsyncIterable<string> {
+    const { content } = await this.chat(request);
+    // Word-sized deltas so consumers exercise their incremental paths.
+    for (const piece of content.match(/\S+\s*/g) ?? []) yield piece;
+  }
+
+  async embed(request: LLMEmbeddingRequest): Promise<number[][]> {
+    return request.input.map((text) => deterministicVector(text, FIXTURE_EMBEDDING_DIMENSIONS));
+  }
+}
+
+/** Unit vector derived from sha256 chains over `text`. */
+export function deterministicVector(text: string, dimensions: number): number[] {
+  const values: number[] = [];
+  let block = createHash('sha256').update(text).digest();
+  while (values.length < dimensions) {
+    for (let i = 0; i + 1 < block.length && values.length < dimensions; i += 2) {
+      values.push(block.readUInt16BE(i) / 32767.5 - 1);
+    }
+    block = createHash('sha256').update(block).digest();
+  }
+  const norm = Math.sqrt(values.reduce((s, v) => s + v * v, 0)) || 1;
+  return values.map((v) => v / norm);
+}
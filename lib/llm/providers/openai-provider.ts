@@ -0,0 +1,160 @@
+/**
+ * OpenAI and Azure OpenAI adapters.
+ *
+ * Both speak the chat-completions wire format natively, so translation is
+ * limited to naming (maxTokens → max_tokens, toolChoice → tool_choice) and
+ * normalising the first choice into an LLMChatResponse. Azure addresses
+ * models by deployment name — the resolved model id is passed through as-is.
+ *
+ * Clients are constructed lazily so importing this module never needs a key.
+ */
+
+import OpenAI, { AzureOpenAI } from 'openai';
+import { env } from '@/lib/env';
+import { openAiBreaker } from '@/lib/circuit-breaker';
+import {
+  LLMProviderError,
+  type LLMAssistantMessage,
+  type LLMChatResponse,
+  type LLMEmbeddingRequest,
+  type LLMFinishReason,
+  type LLMProvider,
+  type LLMProviderName,
+  type LLMProviderRequest,
+  type LLMToolCall,
+} from '../types';
+
+type ChatCompletionParams = OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming;
+
+function toFinishReason(reason: string | null | undefined): LLMFinishReason {
+  switch (reason) {
+    case 'stop':
+    case 'length':
+    case 'tool_calls':
+    case 'content_filter':
+      return reason;
+    case 'function_call':
+      return 'tool_calls';
+    default:
+      return 'unknown';
+  }
+}
+
+function buildParams(request: LLMProviderRequest): ChatCompletionParams {
+  const params: ChatCompletionParams = {
+    model: request.model,
+    messages: request.messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+  };
+  if (request.temperature !== undefined) params.temperature = request.temperature;
+  if (request.maxTokens !== undefined) params.max_tokens = request.maxTokens;
+  if (request.responseFormat === 'json') params.response_format = { type: 'json_object' };
+  if (request.tools?.length) {
+    params.tools = request.tools as OpenAI.Chat.Completions.ChatCompletionTool[];
+    if (request.toolChoice) params.tool_choice = request.toolChoice;
+    if (request.parallelToolCalls !== undefined) params.parallel_tool_calls = request.parallelToolCalls;
+  }
+  return params;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'openai';
+  private client: OpenAI | null = null;
+
+  protected apiKey(): string | undefined {
+    return env.OPENAI_API_KEY || process.env.OPENAI_API_KEY;
+  }
+
+  protected createClient(): OpenAI {
+    return new OpenAI({ apiKey: this.apiKey() });
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey();
+  }
+
+  protected getClient(): OpenAI {
+    if (!this.isConfigured()) {
+      throw new LLMProviderError(this.name, 'API key not configured');
+    }
+    this.client ??= this.createClient();
+    return this.client;
+  }
+
+  async chat(request: LLMProviderRequest): Promise<LLMChatResponse> {
+    const client = this.getClient();
+    const completion = await openAiBreaker.execute(() =>
+      client.chat.completions.create(buildParams(request), { signal: request.signal }),
+    );
+
+    const choice = completion.choices?.[0];
+    const raw = choice?.message;
+    const toolCalls: LLMToolCall[] = (raw?.tool_calls ?? [])
+      .filter((tc) => tc.type === 'function')
+      .map((tc) => ({
+        id: tc.id,
+        type: 'function' as const,
+        function: { name: tc.function.name, arguments: tc.function.arguments },
+      }));
+
+    const message: LLMAssistantMessage = { role: 'assistant', content: raw?.content ?? null };
+    if (toolCalls.length) message.tool_calls = toolCalls;
+
+    return {
+      message,
+      content: message.content ?? '',
+      toolCalls,
+      finishReason: toFinishReason(choice?.finish_reason),
+      model: completion.model ?? request.model,
+      provider: this.name,
+      usage: completion.usage
+        ? { promptTokens: completion.usage.prompt_tokens, completionTokens: completion.usage.completion_tokens }
+        : null,
+    };
+  }
+
+  async *stream(request: LLMProviderRequest): AsyncIterable<string> {
+    const client = this.getClient();
+    const stream = await openAiBreaker.execute(() =>
+      client.chat.completions.create({ ...buildParams(request), stream: true }, { signal: request.signal }),
+    );
+    for await (const chunk of stream) {
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+
+  async embed(request: LLMEmbeddingRequest): Promise<number[][]> {
+    const client = this.getClient();
+    const resp = await openAiBreaker.execute(() =>
+      client.embeddings.create({ model: request.model, input: request.input }, { signal: request.signal }),
+    );
+    const vectors = (resp.data ?? [])
+      .slice()
+      .sort((a, b) => a.index - b.index)
+      .map((d) => d.embedding);
+    if (vectors.length !== request.input.length || vectors.some((v) => !Array.isArray(v) || v.length === 0)) {
+      throw new LLMProviderError(this.name, 'Empty or partial embedding response');
+    }
+    return vectors;
+  }
+}
+
+export class AzureOpenAIProvider extends OpenAIProvider {
+  readonly name: LLMProviderName = 'azure-openai';
+
+  protected apiKey(): string | undefined {
+    return env.AZURE_OPENAI_API_KEY || process.env.AZURE_OPENAI_API_KEY;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey() && !!(env.AZURE_OPENAI_ENDPOINT || process.env.AZURE_OPENAI_ENDPOINT);
+  }
+
+  protected createClient(): OpenAI {
+    return new AzureOpenAI({
+      apiKey: this.apiKey(),
+      endpoint: env.AZURE_OPENAI_ENDPOINT || process.env.AZURE_OPENAI_ENDPOINT,
+      apiVersion: env.AZURE_OPENAI_API_VERSION || process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+    });
+  }
+}
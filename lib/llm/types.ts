@@ -0,0 +1,156 @@
+/**
+ * Shared types for the DREAM LLM provider layer.
+ *
+ * Every agent talks to a model through an LLMClient rather than a vendor SDK.
+ * Messages and tools keep the OpenAI chat-completions shape because the
+ * agentic loops were written against it (tool_calls are pushed straight back
+ * into the transcript). Adapters translate to and from their own wire format.
+ */
+
+// ══════════════════════════════════════════════════════════════
+// PROVIDERS & MODELS
+// ══════════════════════════════════════════════════════════════
+
+export const LLM_PROVIDER_NAMES = ['openai', 'azure-openai', 'anthropic', 'fixture'] as const;
+
+export type LLMProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+/**
+ * Agents ask for a capability tier, not a model id.
+ *   standard — synthesis quality matters (was gpt-4o)
+ *   fast     — latency-sensitive loops and verification (was gpt-4o-mini)
+ */
+export type LLMModelTier = 'standard' | 'fast';
+
+// ══════════════════════════════════════════════════════════════
+// MESSAGES & TOOLS
+// ══════════════════════════════════════════════════════════════
+
+export type LLMToolCall = {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+};
+
+/** Part of a multimodal user turn. Images are an https or `data:` URL. */
+export type LLMContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'low' | 'high' | 'auto' } };
+
+export type LLMSystemMessage = { role: 'system'; content: string };
+export type LLMUserMessage = { role: 'user'; content: string | LLMContentPart[] };
+export type LLMAssistantMessage = {
+  role: 'assistant';
+  content: string | null;
+  tool_calls?: LLMToolCall[];
+};
+export type LLMToolMessage = { role: 'tool'; tool_call_id: string; content: string };
+
+export type LLMMessage = LLMSystemMessage | LLMUserMessage | LLMAssistantMessage | LLMToolMessage;
+
+export type LLMTool = {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+  };
+};
+
+export type LLMToolChoice =
+  | 'auto'
+  | 'none'
+  | 'required'
+  | { type: 'function'; function: { name: string } };
+
+// ══════════════════════════════════════════════════════════════
+// REQUESTS & RESPONSES
+// ══════════════════════════════════════════════════════════════
+
+/** What an agent passes to LLMClient.chat / LLMClient.stream. */
+export type LLMChatRequest = {
+  messages: LLMMessage[];
+  /** Defaults to 'standard'. Ignored when `model` is set. */
+  tier?: LLMModelTier;
+  /** Explicit model id — escape hatch; prefer tiers so config can swap models. */
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** 'json' asks the provider for a single JSON object in `content`. */
+  responseFormat?: 'text' | 'json';
+  tools?: LLMTool[];
+  toolChoice?: LLMToolChoice;
+  /** Allow several tool calls in one turn (provider default when unset). */
+  parallelToolCalls?: boolean;
+  signal?: AbortSignal;
+};
+
+/** What an adapter receives — tier already resolved to a concrete model. */
+export type LLMProviderRequest = Omit<LLMChatRequest, 'tier' | 'model'> & {
+  model: string;
+  agent: string;
+};
+
+export type LLMFinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter' | 'unknown';
+
+export type LLMUsage = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+export type LLMChatResponse = {
+  /** Ready to push back onto the message list in agentic loops. */
+  message: LLMAssistantMessage;
+  /** Convenience: message.content ?? ''. */
+  content: string;
+  toolCalls: LLMToolCall[];
+  finishReason: LLMFinishReason;
+  model: string;
+  provider: LLMProviderName;
+  usage: LLMUsage | null;
+};
+
+export type LLMEmbeddingRequest = {
+  input: string[];
+  model: string;
+  agent: string;
+  signal?: AbortSignal;
+};
+
+// ══════════════════════════════════════════════════════════════
+// PROVIDER CONTRACT
+// ══════════════════════════════════════════════════════════════
+
+/** Vendor adapter. One instance per provider, shared across agents. */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  /** False when credentials are missing — callers fall back instead of throwing. */
+  isConfigured(): boolean;
+  chat(request: LLMProviderRequest): Promise<LLMChatResponse>;
+  /** Yields content deltas. Tool calls are not streamed. */
+  stream(request: LLMProviderRequest): AsyncIterable<string>;
+  embed(request: LLMEmbeddingRequest): Promise<number[][]>;
+}
+
+/** Agent-facing handle returned by getLLMClient(agent). */
+export interface LLMClient {
+  readonly agent: string;
+  readonly provider: LLMProviderName;
+  isConfigured(): boolean;
+  isEmbeddingConfigured(): boolean;
+  /** Concrete model id the tier resolves to for this agent. */
+  modelFor(tier?: LLMModelTier): string;
+  chat(request: LLMChatRequest): Promise<LLMChatResponse>;
+  stream(request: LLMChatRequest): AsyncIterable<string>;
+  embed(input: string | string[], options?: { signal?: AbortSignal }): Promise<number[][]>;
+}
+
+export class LLMProviderError extends Error {
+  constructor(
+    readonly provider: LLMProviderName,
+    message: string,
+  ) {
+    super(`[LLM:${provider}] ${message}`);
+    this.name = 'LLMProviderError';
+  }
+}
@@ -3,10 +3,22 @@
  *
  *   PLATFORM_ADMIN  → can access any workshop (cross-org super-admin)
  *   TENANT_ADMIN    → can access any workshop in their own organisation
- *   TENANT_USER     → can only access workshops they personally created
+ *   TENANT_USER     → can only access workshops they created or were shared
+ *
+ * A valid result also carries the user's permissions on the workshop (see
+ * lib/auth/workshop-permissions.ts); shared users get only what their
+ * share's permission sets grant.
  */
 
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import {
+  WORKSHOP_PERMISSIONS,
+  parseWorkshopApiPath,
+  permissionsForSets,
+  requiredWorkshopPermission,
+  type WorkshopPermission,
+} from '@/lib/auth/workshop-permissions';
 
 export interface WorkshopAccessValidation {
   valid: boolean;
@@ -17,8 +29,12 @@ export interface WorkshopAccessValidation {
   error?: string;
   /** True when the accessed workshop is a platform-level example (cross-org, read-only) */
   isExample?: boolean;
+  /** The user's permissions on this workshop */
+  permissions?: WorkshopPermission[];
 }
 
+const ALL_PERMISSIONS: WorkshopPermission[] = [...WORKSHOP_PERMISSIONS];
+
 /**
  * Validates that a user can access a workshop.
  *
@@ -51,7 +67,7 @@ export async function validateWorkshopAccess(
     if (!workshop) {
       return { valid: false, error: 'Workshop not found' };
     }
-    return { valid: true, workshop, isExample: workshop.isExample };
+    return { valid: true, workshop, isExample: workshop.isExample, permissions: ALL_PERMISSIONS };
   }
 
   // ── Example workshop fast-path ─────────────────────────────────────────────
@@ -66,7 +82,7 @@ export async function validateWorkshopAccess(
     return { valid: false, error: 'Workshop not found' };
   }
   if (workshopBase.isExample) {
-    return { valid: true, workshop: workshopBase, isExample: true };
+    return { valid: true, workshop: workshopBase, isExample: true, permissions: ['workshop:view'] };
   }
 
   if (userRole === 'TENANT_ADMIN') {
@@ -77,7 +93,7 @@ export async function validateWorkshopAccess(
     if (workshopBase.organizationId !== userOrganizationId) {
       return { valid: false, error: 'Workshop belongs to a different organization' };
     }
-    return { valid: true, workshop: workshopBase };
+    return { valid: true, workshop: workshopBase, permissions: ALL_PERMISSIONS };
   }
 
   if (userRole === 'TENANT_USER') {
@@ -88,22 +104,58 @@ export async function validateWorkshopAccess(
     if (workshopBase.organizationId !== userOrganizationId) {
       return { valid: false, error: 'Workshop belongs to a different organization' };
     }
-    if (workshopBase.createdById !== userId) {
-      // Check for explicit share
-      const share = await prisma.workshopShare.findUnique({
-        where: { workshopId_userId: { workshopId, userId } },
-        select: { id: true },
-      });
-      if (!share) {
-        return { valid: false, error: 'You do not own this workshop' };
-      }
+    if (workshopBase.createdById === userId) {
+      return { valid: true, workshop: workshopBase, permissions: ALL_PERMISSIONS };
+    }
+    // Check for explicit share
+    const share = await prisma.workshopShare.findUnique({
+      where: { workshopId_userId: { workshopId, userId } },
+      select: { id: true, permissionSets: true },
+    });
+    if (!share) {
+      return { valid: false, error: 'You do not own this workshop' };
     }
-    return { valid: true, workshop: workshopBase };
+    return { valid: true, workshop: workshopBase, permissions: permissionsForSets(share.permissionSets) };
   }
 
   return { valid: false, error: 'Invalid user role' };
 }
 
+/** True when a validated access result includes `permission` */
+export function hasWorkshopPermission(access: WorkshopAccessValidation, permission: WorkshopPermission): boolean {
+  return access.valid && !!access.permissions?.includes(permission);
+}
+
+/**
+ * Enforce the per-workshop permission for an /api/admin/workshops/[id]/*
+ * request. Called from middleware.ts once the session is verified; returns
+ * a 403/404 response to short-circuit with, or null to let the request
+ * through. Paths outside that namespace always pass.
+ */
+export async function enforceWorkshopRoutePermission(
+  pathname: string,
+  method: string,
+  session: { userId: string; role: string; organizationId: string | null },
+): Promise<NextResponse | null> {
+  const target = parseWorkshopApiPath(pathname);
+  if (!target) return null;
+
+  const access = await validateWorkshopAccess(target.workshopId, session.organizationId, session.role, session.userId);
+  if (!access.valid) {
+    const status = access.error === 'Workshop not found' ? 404 : 403;
+    return NextResponse.json({ error: access.error }, { status });
+  }
+
+  const required = requiredWorkshopPermission(target.subpath, method);
+  if (!hasWorkshopPermission(access, required)) {
+    return NextResponse.json(
+      { error: `You do not have the ${required} permission on this workshop`, requiredPermission: required },
+      { status: 403 },
+    );
+  }
+  return null;
+}
+
 /**
  * Validates that a user can access a participant
  * Enforces organization-level isolation through workshop relationship
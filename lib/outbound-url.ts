@@ -0,0 +1,103 @@
+/**
+ * Outbound URL guard
+ *
+ * Server-side requests to tenant-supplied URLs (webhook endpoints, OIDC
+ * issuers) must not reach cloud metadata or internal services. URLs must be
+ * https, carry no credentials, and in production must not resolve to private,
+ * loopback or link-local addresses.
+ *
+ * Checking a hostname and then letting fetch resolve it again would let a
+ * rebinding DNS server answer with a public address for the check and a
+ * private one for the connection, so requests go through publicFetch(),
+ * whose connections use the address that passed the check.
+ */
+
+import dns from 'dns/promises';
+import { lookup as lookupCallback } from 'dns';
+import net from 'net';
+import { Agent } from 'undici';
+
+export class OutboundUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutboundUrlError';
+  }
+}
+
+const PRIVATE_RANGES = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4],
+] as const) {
+  PRIVATE_RANGES.addSubnet(address, prefix, 'ipv4');
+}
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges by BlockList itself
+for (const [address, prefix] of [['::1', 128], ['::', 128], ['fc00::', 7], ['fe80::', 10]] as const) {
+  PRIVATE_RANGES.addSubnet(address, prefix, 'ipv6');
+}
+
+export function isPrivateAddress(address: string, family: number): boolean {
+  return PRIVATE_RANGES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Parse and check a tenant-supplied URL. `label` names the URLs in error
+ * messages, e.g. "Webhook URLs".
+ */
+export async function assertPublicUrl(raw: string, label = 'URLs'): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new OutboundUrlError(`Invalid URL: ${raw}`);
+  }
+  const production = process.env.NODE_ENV === 'production';
+  if (url.protocol !== 'https:' && (production || url.protocol !== 'http:')) {
+    throw new OutboundUrlError(`${label} must use https`);
+  }
+  if (url.username || url.password) throw new OutboundUrlError(`${label} must not contain credentials`);
+
+  if (production) {
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    const addresses = net.isIP(host)
+      ? [{ address: host, family: net.isIP(host) }]
+      : await dns.lookup(host, { all: true }).catch(() => {
+          throw new OutboundUrlError(`Cannot resolve ${host}`);
+        });
+    for (const { address, family } of addresses) {
+      if (isPrivateAddress(address, family)) {
+        throw new OutboundUrlError(`${label} must not point at private or internal addresses`);
+      }
+    }
+  }
+  return url;
+}
+
+/**
+ * DNS lookup for outbound connections: the socket connects to the address
+ * returned here, so checking it here leaves no window between check and use.
+ */
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+    if (
+      process.env.NODE_ENV === 'production' &&
+      addresses.some(({ address, family }) => isPrivateAddress(address, family))
+    ) {
+      return callback(new OutboundUrlError(`${hostname} resolves to a private or internal address`), '', 0);
+    }
+    if (options.all) return (callback as (err: null, all: typeof addresses) => void)(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+let dispatcher: Agent | null = null;
+
+/**
+ * fetch() for tenant-supplied URLs that have passed assertPublicUrl(). The
+ * connection re-checks the address it actually connects to.
+ */
+export function publicFetch(url: string | URL, init: RequestInit = {}): Promise<Response> {
+  dispatcher ??= new Agent({ connect: { lookup: guardedLookup } });
+  return fetch(url, { ...init, dispatcher } as RequestInit);
+}
@@ -20,12 +20,11 @@
  * - Weak/WEAK-tier nodes are never elevated to findings.
  */
 
-import OpenAI from 'openai';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+import { getLLMClient } from '@/lib/llm';
 import type { WorkshopSignals, CausalFinding, CausalIntelligence } from '../types';
 import type { GraphIntelligence, CausalChain } from '@/lib/output/relationship-graph';
-// OpenAI client constructed lazily inside enrichFindings() — never at module load.
-// process.env is used directly to avoid @/lib/env's Zod throw when DATABASE_URL is absent.
+
+const llm = getLLMClient('causal-synthesis');
 
 // ── Gating constants ──────────────────────────────────────────────────────────
 
@@ -224,9 +223,7 @@ async function enrichFindings(
   findings: CausalFinding[],
   signals: WorkshopSignals,
 ): Promise<Map<string, EnrichedFinding>> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  const openai = apiKey ? new OpenAI({ apiKey }) : null;
-  if (!openai || findings.length === 0) return new Map();
+  if (!llm.isConfigured() || findings.length === 0) return new Map();
 
   const clientName = signals.context.clientName || 'the organisation';
 
@@ -300,27 +297,23 @@ Return a JSON object with a "findings" array, one entry per finding:
   try {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 60_000);
-    const response = await openAiBreaker.execute(() =>
-      openai!.chat.completions.create(
+    const response = await llm.chat({
+      tier: 'fast',
+      responseFormat: 'json',
+      messages: [
         {
-          model: 'gpt-4o-mini',
-          response_format: { type: 'json_object' },
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a strategic advisor. Return valid JSON only — an object with a "findings" array.',
-            },
-            { role: 'user', content: prompt },
-          ],
-          temperature: 0.3,
-          max_tokens: 3000,
+          role: 'system',
+          content: 'You are a strategic advisor. Return valid JSON only — an object with a "findings" array.',
         },
-        { signal: controller.signal },
-      ),
-    );
+        { role: 'user', content: prompt },
+      ],
+      temperature: 0.3,
+      maxTokens: 3000,
+      signal: controller.signal,
+    });
     clearTimeout(timeoutId);
 
-    const raw = response.choices[0]?.message?.content ?? '{}';
+    const raw = response.message.content ?? '{}';
     const parsed = JSON.parse(raw) as { findings?: EnrichedFinding[] };
     const arr = Array.isArray(parsed.findings) ? parsed.findings : [];
 
@@ -5,10 +5,10 @@
  * with concrete initiatives, capabilities, dependencies, and risks.
  */
 
-import OpenAI from 'openai';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+import { getLLMClient } from '@/lib/llm';
 import type { WorkshopSignals, ExecutionRoadmap } from '../types';
-// OpenAI client constructed lazily inside runExecutionRoadmapAgent() — never at module load.
+
+const llm = getLLMClient('execution-roadmap');
 
 const SCHEMA = `{
   "phases": [
@@ -176,31 +176,27 @@ ROI estimation rules (roiSummary):
 Return JSON matching this schema exactly:
 ${SCHEMA}`;
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  const openai = apiKey ? new OpenAI({ apiKey }) : null;
-  if (!openai) throw new Error('OPENAI_API_KEY is not configured');
+  if (!llm.isConfigured()) throw new Error('LLM provider is not configured');
 
   let lastError: Error | null = null;
   for (let attempt = 0; attempt < 3; attempt++) {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 100_000);
     try {
-      const response = await openAiBreaker.execute(() => openai.chat.completions.create(
-        {
-          model: 'gpt-4o-mini',
-          response_format: { type: 'json_object' },
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userMessage },
-          ],
-          temperature: 0.3,
-          max_tokens: 4000,
-        },
-        { signal: controller.signal }
-      ));
+      const response = await llm.chat({
+        tier: 'fast',
+        responseFormat: 'json',
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userMessage },
+        ],
+        temperature: 0.3,
+        maxTokens: 4000,
+        signal: controller.signal,
+      });
 
       clearTimeout(timeoutId);
-      const raw = response.choices[0]?.message?.content ?? '{}';
+      const raw = response.message.content ?? '{}';
       const parsed = JSON.parse(raw) as ExecutionRoadmap;
       onProgress?.('Execution Roadmap: complete ✓');
       return parsed;
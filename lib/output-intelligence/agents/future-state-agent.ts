@@ -6,10 +6,11 @@
  * supporting themes (3), vision alignment, horizon vision, and technical model detail.
  */
 
-import OpenAI from 'openai';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+import { getLLMClient } from '@/lib/llm';
 import type { WorkshopSignals, FutureStateDesign } from '../types';
 
+const llm = getLLMClient('future-state');
+
 const SCHEMA = `{
   "targetOperatingModel": "string — 2-3 paragraph description of what the organisation becomes",
   "narrative": "string — 1 paragraph strategic narrative",
@@ -347,31 +348,27 @@ Every field must be grounded in specific workshop evidence using the participant
 Return JSON matching this schema exactly:
 ${SCHEMA}`;
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  const openai = apiKey ? new OpenAI({ apiKey }) : null;
-  if (!openai) throw new Error('OPENAI_API_KEY is not configured');
+  if (!llm.isConfigured()) throw new Error('LLM provider is not configured');
 
   let lastError: Error | null = null;
   for (let attempt = 0; attempt < 3; attempt++) {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 120_000);
     try {
-      const response = await openAiBreaker.execute(() => openai.chat.completions.create(
-        {
-          model: 'gpt-4o-mini',
-          response_format: { type: 'json_object' },
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userMessage },
-          ],
-          temperature: 0.4,
-          max_tokens: 7000,
-        },
-        { signal: controller.signal }
-      ));
+      const response = await llm.chat({
+        tier: 'fast',
+        responseFormat: 'json',
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userMessage },
+        ],
+        temperature: 0.4,
+        maxTokens: 7000,
+        signal: controller.signal,
+      });
 
       clearTimeout(timeoutId);
-      const raw = response.choices[0]?.message?.content ?? '{}';
+      const raw = response.message.content ?? '{}';
       const parsed = JSON.parse(raw) as FutureStateDesign;
       onProgress?.('Future State Design: complete ✓');
       return parsed;
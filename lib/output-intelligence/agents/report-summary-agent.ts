@@ -10,10 +10,10 @@
  * All evidence is pre-existing; this agent synthesises the narrative layer only.
  */
 
-import OpenAI from 'openai';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+import { getLLMClient } from '@/lib/llm';
 import type { WorkshopOutputIntelligence, WorkshopSignals, ReportSummary } from '../types';
-// OpenAI client constructed lazily inside runReportSummaryAgent() — never at module load.
+
+const llm = getLLMClient('report-summary');
 
 // ── Schema sent to the model ──────────────────────────────────────────────────
 
@@ -384,7 +384,6 @@ function buildContextDump(
 // specificity rubric. Fast (~500 tokens), low temperature for reliable judgement.
 
 async function runValidationPass(
-  client: OpenAI,
   summary: ReportSummary,
   lenses: string[]
 ): Promise<{ passed: boolean; gaps: string[] }> {
@@ -426,19 +425,17 @@ Return JSON: { "passed": boolean, "gaps": string[] }
 
   const validationController = new AbortController();
   const validationTimeoutId = setTimeout(() => validationController.abort(), 30_000);
-  const response = await client.chat.completions.create(
-    {
-      model: 'gpt-4o-mini',
-      response_format: { type: 'json_object' },
-      messages: [{ role: 'user', content: validationPrompt }],
-      temperature: 0.1,
-      max_tokens: 600,
-    },
-    { signal: validationController.signal },
-  );
+  const response = await llm.chat({
+    tier: 'fast',
+    responseFormat: 'json',
+    messages: [{ role: 'user', content: validationPrompt }],
+    temperature: 0.1,
+    maxTokens: 600,
+    signal: validationController.signal,
+  });
   clearTimeout(validationTimeoutId);
 
-  const raw = response.choices[0]?.message?.content ?? '{"passed":true,"gaps":[]}';
+  const raw = response.message.content ?? '{"passed":true,"gaps":[]}';
   const result = JSON.parse(raw) as { passed: boolean; gaps: string[] };
   return {
     passed: result.passed === true,
@@ -494,31 +491,27 @@ Based on ALL the above pre-generated intelligence, write the report summary.
 Return JSON matching this schema exactly:
 ${SCHEMA}`;
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  const openai = apiKey ? new OpenAI({ apiKey }) : null;
-  if (!openai) throw new Error('OPENAI_API_KEY is not configured');
+  if (!llm.isConfigured()) throw new Error('LLM provider is not configured');
 
   let lastError: Error | null = null;
   for (let attempt = 0; attempt < 3; attempt++) {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 100_000);
     try {
-      const response = await openAiBreaker.execute(() => openai.chat.completions.create(
-        {
-          model: 'gpt-4o',
-          response_format: { type: 'json_object' },
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userMessage },
-          ],
-          temperature: 0.2,
-          max_tokens: 6000,
-        },
-        { signal: controller.signal },
-      ));
+      const response = await llm.chat({
+        tier: 'standard',
+        responseFormat: 'json',
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userMessage },
+        ],
+        temperature: 0.2,
+        maxTokens: 6000,
+        signal: controller.signal,
+      });
       clearTimeout(timeoutId);
 
-      const raw = response.choices[0]?.message?.content ?? '{}';
+      const raw = response.message.content ?? '{}';
       const parsed = JSON.parse(raw) as ReportSummary;
       parsed.generatedAtMs = Date.now();
 
@@ -528,7 +521,7 @@ ${SCHEMA}`;
       // validation — the generating model always says it passed.
       onProgress?.('Report Summary: validating quality…');
       try {
-        const validationResult = await runValidationPass(openai, parsed, signals.context.lenses);
+        const validationResult = await runValidationPass(parsed, signals.context.lenses);
         parsed.validationPassed = validationResult.passed;
         parsed.validationGaps = validationResult.gaps;
       } catch (validationErr) {
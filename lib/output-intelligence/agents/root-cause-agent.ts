@@ -6,10 +6,11 @@
  * constraint to whether the reimagined vision addresses it.
  */
 
-import OpenAI from 'openai';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+import { getLLMClient } from '@/lib/llm';
 import type { WorkshopSignals, RootCauseIntelligence } from '../types';
 
+const llm = getLLMClient('root-cause');
+
 const SCHEMA = `{
   "forceFieldHeadline": "string — one memorable sentence capturing the essential tension e.g. 'A willing organisation held back by its own infrastructure'",
   "systemicPattern": "string — 1-2 paragraph diagnosis of the deeper structural pattern. Write with authority. Name the pattern, not the symptoms.",
@@ -279,31 +280,27 @@ Use ONLY signals provided. Output MUST be valid JSON. No commentary outside JSON
 Return JSON matching this schema exactly:
 ${SCHEMA}`;
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  const openai = apiKey ? new OpenAI({ apiKey }) : null;
-  if (!openai) throw new Error('OPENAI_API_KEY is not configured');
+  if (!llm.isConfigured()) throw new Error('LLM provider is not configured');
 
   let lastError: Error | null = null;
   for (let attempt = 0; attempt < 3; attempt++) {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 100_000);
     try {
-      const response = await openAiBreaker.execute(() => openai.chat.completions.create(
-        {
-          model: 'gpt-4o',
-          response_format: { type: 'json_object' },
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userMessage },
-          ],
-          temperature: 0.3,
-          max_tokens: 8000,
-        },
-        { signal: controller.signal }
-      ));
+      const response = await llm.chat({
+        tier: 'standard',
+        responseFormat: 'json',
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userMessage },
+        ],
+        temperature: 0.3,
+        maxTokens: 8000,
+        signal: controller.signal,
+      });
 
       clearTimeout(timeoutId);
-      const raw = response.choices[0]?.message?.content ?? '{}';
+      const raw = response.message.content ?? '{}';
       const parsed = JSON.parse(raw) as RootCauseIntelligence;
       onProgress?.('Root Cause Intelligence: complete ✓');
       return parsed;
@@ -0,0 +1,255 @@
+/**
+ * Provenance Engine — Deterministic, citation-level traceability
+ *
+ * Links every generated claim in WorkshopOutputIntelligence back to the
+ * source records it rests on, without any LLM call:
+ *
+ *   participant_quote  — ConversationInsight / DataPoint text
+ *   finding            — field-discovery Finding (title, description, quotes)
+ *   evidence_document  — a finding from an uploaded document, with its page
+ *   metric             — an uploaded historical metric series
+ *
+ * Agents paraphrase, so each claim is matched on its own wording and on each
+ * of its evidence lines: a source is cited when it contains most of the
+ * terms of one of them. Metrics are cited when a claim names them.
+ *
+ * The lookup and attribution helpers at the bottom are safe to import from
+ * client components.
+ */
+
+import type {
+  WorkshopOutputIntelligence,
+  CausalFinding,
+  ProvenanceGraph,
+  ProvenanceClaim,
+  ProvenanceClaimKind,
+  ProvenanceCitation,
+  ProvenanceSource,
+  ProvenanceSourceKind,
+} from '@/lib/output-intelligence/types';
+
+/** A record that could be cited, with everything it says for matching */
+export interface ProvenanceCandidate {
+  source: ProvenanceSource;
+  /** May be longer than the stored excerpt, e.g. a finding's title and all its quotes */
+  matchText: string;
+}
+
+/** Share of a citing text's terms the source must contain */
+const CITE_MATCH = 0.5;
+/** ...and never fewer than this many terms in common */
+const MIN_SHARED_TERMS = 2;
+const MAX_CITATIONS = 4;
+
+const STOPWORDS = new Set([
+  'about', 'across', 'after', 'also', 'among', 'and', 'are', 'because', 'been', 'being', 'between',
+  'but', 'can', 'could', 'does', 'for', 'from', 'has', 'have', 'into', 'its', 'lack', 'more', 'most',
+  'not', 'only', 'other', 'our', 'over', 'participants', 'per', 'some', 'such', 'than', 'that', 'the',
+  'their', 'them', 'there', 'these', 'they', 'this', 'those', 'through', 'very', 'was', 'were',
+  'what', 'when', 'where', 'which', 'while', 'who', 'will', 'with', 'within', 'workshop', 'would', 'you',
+]);
+
+// ── Matching ──────────────────────────────────────────────────────────────────
+
+function terms(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[a-z0-9][a-z0-9'%]{2,}/g) ?? [];
+  return new Set(
+    words
+      .filter((w) => !STOPWORDS.has(w))
+      // Crude plural folding — "systems" cites "system"
+      .map((w) => (w.length > 4 && w.endsWith('s') && !w.endsWith('ss') ? w.slice(0, -1) : w)),
+  );
+}
+
+/** Whether the text names a metric by label, acronym or key */
+function namesMetric(text: string, source: ProvenanceSource): boolean {
+  const label = source.title ?? '';
+  if (label && text.toLowerCase().includes(label.toLowerCase())) return true;
+
+  const initials = label.split(/\s+/).filter(Boolean).map((w) => w[0]).join('').toUpperCase();
+  const aliases = [initials.length >= 2 ? initials : null, /^[a-z]{2,5}$/i.test(source.recordId) ? source.recordId.toUpperCase() : null];
+  return aliases.some((alias) => alias && new RegExp(`\\b${alias}\\b`).test(text));
+}
+
+interface ClaimDraft {
+  claimId: string;
+  kind: ProvenanceClaimKind;
+  text: string;
+  /** Evidence lines the agent gave for the claim */
+  evidence: string[];
+}
+
+function causalClaims(intelligence: WorkshopOutputIntelligence): ClaimDraft[] {
+  const ci = intelligence.causalIntelligence;
+  if (!ci) return [];
+  const findings: CausalFinding[] = [
+    ...(ci.organisationalIssues ?? []),
+    ...(ci.reinforcedFindings ?? []),
+    ...(ci.emergingPatterns ?? []),
+    ...(ci.contradictions ?? []),
+    ...(ci.evidenceGaps ?? []),
+  ];
+  return findings.map((f) => ({
+    claimId: `causal_finding:${f.findingId}`,
+    kind: 'causal_finding' as const,
+    text: f.issueTitle,
+    evidence: [...(f.evidenceQuotes ?? []).map((q) => q.text), f.evidenceBasis],
+  }));
+}
+
+/** Every claim the reports and panels present as a finding of fact */
+function collectClaims(intelligence: WorkshopOutputIntelligence): ClaimDraft[] {
+  const { discoveryValidation: dv, rootCause: rc, strategicImpact: si } = intelligence;
+  const draft = (kind: ProvenanceClaimKind, items: Array<{ text: string; evidence: Array<string | undefined> }>): ClaimDraft[] =>
+    items.map((item, i) => ({
+      claimId: `${kind}:${i}`,
+      kind,
+      text: item.text,
+      evidence: item.evidence.filter((e): e is string => !!e),
+    }));
+
+  return [
+    ...draft('confirmed_issue', (dv?.confirmedIssues ?? []).map((c) => ({ text: c.issue, evidence: [c.workshopEvidence, c.discoverySignal] }))),
+    ...draft('new_issue', (dv?.newIssues ?? []).map((n) => ({ text: n.issue, evidence: [n.workshopEvidence] }))),
+    ...draft('root_cause', (rc?.rootCauses ?? []).map((r) => ({ text: r.cause, evidence: r.evidence ?? [] }))),
+    ...draft('workshop_constraint', (rc?.workshopConstraints ?? []).map((w) => ({ text: w.title, evidence: [w.participantVoice] }))),
+    ...draft('efficiency_gain', (si?.efficiencyGains ?? []).map((g) => ({ text: `${g.metric}: ${g.estimated}`, evidence: [g.basis] }))),
+    ...draft('experience_improvement', (si?.experienceImprovements ?? []).map((e) => ({ text: `${e.dimension}: ${e.impact}`, evidence: [e.currentState] }))),
+    ...causalClaims(intelligence),
+  ];
+}
+
+type Match = ProvenanceCitation & { candidate: ProvenanceCandidate };
+
+function matchClaim(claim: ClaimDraft, candidates: Array<ProvenanceCandidate & { terms: Set<string> }>): Match[] {
+  const probes = [claim.text, ...claim.evidence]
+    .map((text) => ({ text, terms: terms(text) }))
+    .filter((p) => p.terms.size >= MIN_SHARED_TERMS);
+
+  const matches: Match[] = [];
+  for (const candidate of candidates) {
+    let best: Match | null = null;
+
+    if (candidate.source.kind === 'metric') {
+      const probe = [claim.text, ...claim.evidence].find((text) => namesMetric(text, candidate.source));
+      if (probe) best = { sourceId: candidate.source.sourceId, strength: 1, via: probe, candidate };
+    } else {
+      for (const probe of probes) {
+        let shared = 0;
+        for (const term of probe.terms) if (candidate.terms.has(term)) shared++;
+        const strength = shared / probe.terms.size;
+        if (shared >= MIN_SHARED_TERMS && strength >= CITE_MATCH && (!best || strength > best.strength)) {
+          best = { sourceId: candidate.source.sourceId, strength, via: probe.text, candidate };
+        }
+      }
+    }
+
+    if (best) matches.push(best);
+  }
+  return matches;
+}
+
+/**
+ * Strongest citations first, but one of each kind of source before a second
+ * of any — a claim backed by a quote and a document beats one backed by two
+ * quotes saying the same thing.
+ */
+function pickCitations(matches: Match[]): Match[] {
+  const ranked = [...matches].sort((a, b) => b.strength - a.strength);
+  const picked: Match[] = [];
+  const excerpts = new Set<string>();
+  const take = (m: Match) => {
+    const excerpt = m.candidate.source.excerpt.trim().toLowerCase();
+    if (picked.length >= MAX_CITATIONS || picked.includes(m) || excerpts.has(excerpt)) return;
+    picked.push(m);
+    excerpts.add(excerpt);
+  };
+
+  const kinds = new Set<ProvenanceSourceKind>();
+  for (const m of ranked) {
+    if (!kinds.has(m.candidate.source.kind)) { kinds.add(m.candidate.source.kind); take(m); }
+  }
+  for (const m of ranked) take(m);
+
+  return picked.sort((a, b) => b.strength - a.strength);
+}
+
+// ── Graph ─────────────────────────────────────────────────────────────────────
+
+export function buildProvenanceGraph(
+  intelligence: WorkshopOutputIntelligence,
+  candidates: ProvenanceCandidate[],
+  builtAtMs: number = Date.now(),
+): ProvenanceGraph {
+  const indexed = candidates.map((c) => ({ ...c, terms: terms(c.matchText) }));
+  const cited = new Map<string, ProvenanceSource>();
+
+  const claims: ProvenanceClaim[] = collectClaims(intelligence).map((claim) => {
+    const citations = pickCitations(matchClaim(claim, indexed)).map(({ candidate, sourceId, strength, via }) => {
+      cited.set(sourceId, candidate.source);
+      return { sourceId, strength: Math.round(strength * 100) / 100, via };
+    });
+    return { claimId: claim.claimId, kind: claim.kind, text: claim.text, citations };
+  });
+
+  return { version: 1, sources: [...cited.values()], claims, builtAtMs };
+}
+
+// ── Lookup & attribution ─────────────────────────────────────────────────────
+
+export const SOURCE_KIND_LABEL: Record<ProvenanceSourceKind, string> = {
+  participant_quote: 'Participant quote',
+  finding: 'Workshop finding',
+  evidence_document: 'Evidence document',
+  metric: 'Historical metric',
+};
+
+/**
+ * The claim as rendered — by kind and wording, because renderers dedupe and
+ * filter the arrays the claim IDs index into.
+ */
+export function findProvenanceClaim(
+  graph: ProvenanceGraph | undefined,
+  kind: ProvenanceClaimKind,
+  text: string,
+): ProvenanceClaim | null {
+  return graph?.claims.find((c) => c.kind === kind && c.text === text) ?? null;
+}
+
+/** A claim's citations joined to their sources, strongest first */
+export function claimSources(
+  graph: ProvenanceGraph | undefined,
+  claim: ProvenanceClaim | null,
+): Array<{ source: ProvenanceSource; citation: ProvenanceCitation }> {
+  if (!graph || !claim) return [];
+  const byId = new Map(graph.sources.map((s) => [s.sourceId, s]));
+  return claim.citations.flatMap((citation) => {
+    const source = byId.get(citation.sourceId);
+    return source ? [{ source, citation }] : [];
+  });
+}
+
+function locatorText(locator: string): string {
+  if (/^\d+$/.test(locator)) return `p. ${locator}`;
+  if (/^\d{1,2}(:\d{2}){1,2}$/.test(locator)) return `at ${locator}`;
+  return locator;
+}
+
+/** Who or what said it, e.g. "Operations Manager · People" or "Q3 report.pdf, p. 4" */
+export function sourceAttribution(source: ProvenanceSource): string {
+  switch (source.kind) {
+    case 'participant_quote':
+      return [source.participantRole || 'Participant', source.lens].filter(Boolean).join(' · ');
+    case 'finding':
+      return [`Finding: ${source.title ?? ''}`, source.lens].filter(Boolean).join(' · ');
+    case 'evidence_document':
+      return [source.title, source.locator ? locatorText(source.locator) : null].filter(Boolean).join(', ');
+    case 'metric':
+      return [`${source.title ?? source.recordId} (historical data)`, source.locator].filter(Boolean).join(', ');
+  }
+}
+
+/** Whether the excerpt is a participant's own words and should be quoted */
+export function isVerbatimSource(source: ProvenanceSource): boolean {
+  return source.kind === 'participant_quote';
+}
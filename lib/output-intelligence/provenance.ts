@@ -0,0 +1,157 @@
+/**
+ * DREAM Output Intelligence — Provenance
+ *
+ * Loads the workshop's citable records (participant quotes, field findings,
+ * evidence document findings, historical metrics) and builds the provenance
+ * graph for a freshly generated WorkshopOutputIntelligence.
+ *
+ * Participant names never enter the graph — quotes carry the participant's
+ * role only, under `participantRole`, so export redaction applies to it.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { decryptTenantRecords } from '@/lib/workshop-encryption';
+import { readHistoricalMetricsFromJson } from '@/lib/historical-metrics/types';
+import { formatPeriod, formatValue } from '@/lib/historical-metrics/summarize';
+import { buildProvenanceGraph, type ProvenanceCandidate } from './engines/provenance-engine';
+import type { ProvenanceGraph, WorkshopOutputIntelligence } from './types';
+
+/** Most recent participant quotes considered, per table */
+const MAX_QUOTES = 500;
+
+const CATEGORY_LENS: Record<string, string> = {
+  BUSINESS: 'Organisation',
+  TECHNOLOGY: 'Technology',
+  PEOPLE: 'People',
+  CUSTOMER: 'Customer',
+  REGULATION: 'Regulation',
+};
+
+type EvidenceFindingJson = { id?: string; text?: string; sourceExcerpt?: string; sourcePage?: string; relevantLenses?: string[] };
+
+function quoteTexts(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((q) => (typeof q === 'string' ? q : (q as { text?: string } | null)?.text ?? ''))
+    .filter((s) => s.length > 0);
+}
+
+export async function loadProvenanceCandidates(workshopId: string): Promise<ProvenanceCandidate[]> {
+  const [workshop, insights, dataPoints, findings, documents] = await Promise.all([
+    prisma.workshop.findUnique({ where: { id: workshopId }, select: { historicalMetrics: true } }),
+    prisma.conversationInsight.findMany({
+      where: { workshopId },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_QUOTES,
+      select: { id: true, text: true, category: true, participant: { select: { role: true } } },
+    }),
+    prisma.dataPoint.findMany({
+      where: { workshopId },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_QUOTES,
+      select: { id: true, rawText: true, participant: { select: { role: true } } },
+    }),
+    prisma.finding.findMany({
+      where: { workshopId },
+      select: { id: true, title: true, description: true, lens: true, supportingQuotes: true },
+    }),
+    prisma.evidenceDocument.findMany({
+      where: { workshopId, status: 'ready' },
+      select: { id: true, originalFileName: true, findings: true },
+    }).then((rows) => decryptTenantRecords('evidenceDocument', rows)),
+  ]);
+
+  const candidates: ProvenanceCandidate[] = [];
+
+  for (const i of insights) {
+    candidates.push({
+      source: {
+        sourceId: `insight:${i.id}`,
+        kind: 'participant_quote',
+        recordId: i.id,
+        title: null,
+        excerpt: i.text,
+        participantRole: i.participant?.role ?? null,
+        lens: i.category ? CATEGORY_LENS[i.category] ?? null : null,
+      },
+      matchText: i.text,
+    });
+  }
+
+  for (const d of dataPoints) {
+    candidates.push({
+      source: {
+        sourceId: `datapoint:${d.id}`,
+        kind: 'participant_quote',
+        recordId: d.id,
+        title: null,
+        excerpt: d.rawText,
+        participantRole: d.participant?.role ?? null,
+      },
+      matchText: d.rawText,
+    });
+  }
+
+  for (const f of findings) {
+    const quotes = quoteTexts(f.supportingQuotes);
+    candidates.push({
+      source: {
+        sourceId: `finding:${f.id}`,
+        kind: 'finding',
+        recordId: f.id,
+        title: f.title,
+        excerpt: quotes[0] ?? f.description,
+        lens: f.lens,
+      },
+      matchText: [f.title, f.description, ...quotes].join('\n'),
+    });
+  }
+
+  for (const doc of documents) {
+    const docFindings = Array.isArray(doc.findings) ? (doc.findings as EvidenceFindingJson[]) : [];
+    docFindings.forEach((f, index) => {
+      if (!f.text) return;
+      candidates.push({
+        source: {
+          sourceId: `evidence:${doc.id}:${f.id ?? index}`,
+          kind: 'evidence_document',
+          recordId: doc.id,
+          title: doc.originalFileName,
+          excerpt: f.sourceExcerpt || f.text,
+          lens: f.relevantLenses?.[0] ?? null,
+          locator: f.sourcePage ?? null,
+        },
+        matchText: [f.text, f.sourceExcerpt].filter(Boolean).join('\n'),
+      });
+    });
+  }
+
+  const metrics = readHistoricalMetricsFromJson(workshop?.historicalMetrics);
+  for (const series of metrics?.series ?? []) {
+    const points = [...series.dataPoints].sort((a, b) => a.period.localeCompare(b.period));
+    const latest = points[points.length - 1];
+    if (!latest) continue;
+    candidates.push({
+      source: {
+        sourceId: `metric:${series.metricKey}`,
+        kind: 'metric',
+        recordId: series.metricKey,
+        title: series.metricLabel,
+        excerpt: `${formatValue(latest.value, series.unit)} in ${formatPeriod(latest.period)}`,
+        locator: points.length > 1 ? `${formatPeriod(points[0].period)} – ${formatPeriod(latest.period)}` : null,
+      },
+      matchText: series.metricLabel,
+    });
+  }
+
+  return candidates;
+}
+
+/** Provenance graph for intelligence just generated for this workshop */
+export async function buildWorkshopProvenance(
+  workshopId: string,
+  intelligence: WorkshopOutputIntelligence,
+): Promise<ProvenanceGraph> {
+  const candidates = await loadProvenanceCandidates(workshopId);
+  return buildProvenanceGraph(intelligence, candidates);
+}
@@ -9,6 +9,7 @@
 
 import { createHash } from 'crypto';
 import { prisma } from '@/lib/prisma';
+import { decryptTenantRecords } from '@/lib/workshop-encryption';
 import type { WorkshopSignals } from './types';
 import { retrieveRelevant } from '@/lib/embeddings/retrieve';
 import { groupRole } from '@/lib/discover-analysis/compute-alignment';
@@ -114,7 +115,7 @@ export async function aggregateWorkshopSignals(workshopId: string): Promise<Work
         crossValidation: true,
         relevantLenses: true,
       },
-    }),
+    }).then((rows) => decryptTenantRecords('evidenceDocument', rows)),
   ]);
 
   if (!workshop) {
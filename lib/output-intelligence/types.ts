@@ -518,6 +518,64 @@ export interface TransformationLogicMap {
   interpretationSummary: string;
 }
 
+// ── Provenance (citation-level traceability) ──────────────────────────────────
+//
+// A bipartite graph linking each generated claim to the source records it
+// rests on. Built deterministically after the agents run — agents paraphrase,
+// so their evidence lines are matched back to the records, never trusted as-is.
+
+export type ProvenanceSourceKind = 'participant_quote' | 'finding' | 'evidence_document' | 'metric';
+
+/** A source record a claim can cite. Only cited sources are stored. */
+export interface ProvenanceSource {
+  /** Unique within the graph, e.g. "insight:<id>", "evidence:<docId>:<findingId>" */
+  sourceId: string;
+  kind: ProvenanceSourceKind;
+  /** ID of the underlying record — ConversationInsight, DataPoint, Finding, EvidenceDocument — or the metric key */
+  recordId: string;
+  /** Finding title, document file name or metric label; null for participant quotes */
+  title: string | null;
+  /** What the source says — a verbatim quote or excerpt where one exists */
+  excerpt: string;
+  /** Mapped through the participant redactor on export */
+  participantRole?: string | null;
+  lens?: string | null;
+  /** Page, slide, recording timestamp or metric period */
+  locator?: string | null;
+}
+
+export type ProvenanceClaimKind =
+  | 'confirmed_issue'
+  | 'new_issue'
+  | 'root_cause'
+  | 'workshop_constraint'
+  | 'efficiency_gain'
+  | 'experience_improvement'
+  | 'causal_finding';
+
+export interface ProvenanceCitation {
+  sourceId: string;
+  /** 0-1 share of the citing text found in the source */
+  strength: number;
+  /** The part of the claim that matched — its own wording or one of its evidence lines */
+  via: string;
+}
+
+export interface ProvenanceClaim {
+  /** `<kind>:<index>`, or `causal_finding:<findingId>` */
+  claimId: string;
+  kind: ProvenanceClaimKind;
+  text: string;
+  citations: ProvenanceCitation[];
+}
+
+export interface ProvenanceGraph {
+  version: 1;
+  sources: ProvenanceSource[];
+  claims: ProvenanceClaim[];
+  builtAtMs: number;
+}
+
 // ── Master Output ────────────────────────────────────────────────────────────
 
 export interface WorkshopOutputIntelligence {
@@ -538,6 +596,11 @@ export interface WorkshopOutputIntelligence {
    * Optional — absent when graphIntelligence has no meaningful coverage.
    */
   transformationLogicMap?: TransformationLogicMap;
+  /**
+   * Citations from each claim to its source records. Optional — absent on
+   * intelligence generated before provenance was tracked.
+   */
+  provenance?: ProvenanceGraph;
   generatedAtMs: number;
   lensesUsed: string[];
 }
@@ -628,6 +691,8 @@ export function defaultReportLayout(): ReportLayout {
     sections: [
       // ── Executive Summary — ALWAYS FIRST ─────────────────────────────────
       { id: 'executive_summary',       type: 'builtin',  title: 'Executive Summary',           enabled: true,  collapsed: false, excludedItems: [] },
+      // Only rendered for follow-up workshops in a programme
+      { id: 'programme_changes',       type: 'builtin',  title: 'What Changed Since Last Time', enabled: true, collapsed: false, excludedItems: [] },
       // ── Chapter 1: Discovery Diagnostic ──────────────────────────────────
       { id: 'ch_discovery',            type: 'chapter',  title: 'Discovery Diagnostic',        enabled: true,  collapsed: false, excludedItems: [] },
       { id: 'discovery_diagnostic',    type: 'builtin',  title: 'Discovery Diagnostic',        enabled: true,  collapsed: false, excludedItems: [] },
@@ -17,12 +17,10 @@
  * left unchanged; only signals with empty themeLabels are enriched.
  */
 
-import OpenAI from 'openai';
-import { openAiBreaker } from '@/lib/circuit-breaker';
 import type { RawSignal } from './evidence-clustering';
-// NOTE: OpenAI client is constructed lazily inside refineTopicsWithLLM.
-// process.env is read directly (not via @/lib/env) so that importing this module
-// never triggers the Zod env validation which throws when DATABASE_URL is absent.
+// NOTE: the LLM layer is imported lazily inside refineTopicsWithLLM. It reads
+// @/lib/env, and importing this module must never trigger the Zod env
+// validation, which throws when DATABASE_URL is absent.
 
 // ── Stop words ────────────────────────────────────────────────────────────────
 // Comprehensive English stop-word list biased toward workshop language.
@@ -485,13 +483,11 @@ export async function refineTopicsWithLLM(
   signals: RawSignal[],
   context: LLMRefinementContext = {},
 ): Promise<Map<string, string>> {
-  // Construct client lazily — not at module load time — so importing this file
-  // is safe in test/jsdom/browser-like environments.
-  // Read directly from process.env to avoid importing @/lib/env (which throws at
-  // module evaluation time when DATABASE_URL or other required vars are absent).
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) return new Map();
-  const openai = new OpenAI({ apiKey });
+  // Load the LLM layer lazily — not at module load time — so importing this
+  // file is safe in test/jsdom/browser-like environments.
+  const { getLLMClient } = await import('@/lib/llm');
+  const llm = getLLMClient('topic-refinement');
+  if (!llm.isConfigured()) return new Map();
 
   // Collect unique cluster labels + a representative example signal for each
   const clusterSamples = new Map<string, string>();
@@ -541,24 +537,20 @@ Return JSON only — an object with key "merges": { "old_label": "canonical_labe
   try {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 45_000);
-    const response = await openAiBreaker.execute(() =>
-      openai!.chat.completions.create(
-        {
-          model: 'gpt-4o-mini',
-          response_format: { type: 'json_object' },
-          messages: [
-            { role: 'system', content: 'Return valid JSON only with key "merges".' },
-            { role: 'user', content: prompt },
-          ],
-          temperature: 0.1,
-          max_tokens: 1200,
-        },
-        { signal: controller.signal },
-      ),
-    );
+    const response = await llm.chat({
+      tier: 'fast',
+      responseFormat: 'json',
+      messages: [
+        { role: 'system', content: 'Return valid JSON only with key "merges".' },
+        { role: 'user', content: prompt },
+      ],
+      temperature: 0.1,
+      maxTokens: 1200,
+      signal: controller.signal,
+    });
     clearTimeout(timeoutId);
 
-    const raw = response.choices[0]?.message?.content ?? '{}';
+    const raw = response.content || '{}';
     const parsed = JSON.parse(raw) as { merges?: Record<string, string> };
     const merges = parsed.merges ?? {};
 
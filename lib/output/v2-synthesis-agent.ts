@@ -8,10 +8,9 @@
  * so GPT-4o can cite actual evidence rather than inventing it.
  */
 
-import OpenAI from 'openai';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+import { getLLMClient } from '@/lib/llm';
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+const llm = getLLMClient('v2-synthesis');
 
 // ── Raw Signal Types ────────────────────────────────────────────────────────
 
@@ -481,15 +480,15 @@ export async function runV2SynthesisAgent(
 
   console.log(`[v2-synthesis] Prompt: ${(prompt.length / 1000).toFixed(1)}KB · ${rawSignals.totalNodes} nodes · ${rawSignals.nodesByPhase.DISCOVERY.length}Disc/${rawSignals.nodesByPhase.REIMAGINE.length}R/${rawSignals.nodesByPhase.CONSTRAINTS.length}C/${rawSignals.nodesByPhase.DEFINE_APPROACH.length}D phase texts`);
 
-  const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-    model: 'gpt-4o',
+  const completion = await llm.chat({
+    tier: 'standard',
     messages: [{ role: 'user', content: prompt }],
     temperature: 0.2,
-    max_tokens: 16000,
-    response_format: { type: 'json_object' },
-  }));
+    maxTokens: 16000,
+    responseFormat: 'json',
+  });
 
-  const raw = completion.choices[0]?.message?.content;
+  const raw = completion.content;
   if (!raw) {
     console.error('[v2-synthesis] Empty response from GPT');
     return null;
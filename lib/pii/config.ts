@@ -0,0 +1,121 @@
+/**
+ * Per-organisation PII settings, stored in Organization.piiConfig.
+ *
+ * Redaction is opt-in: with no config (or enabled: false) transcripts and
+ * evidence flow through unchanged. When enabled, every built-in entity type
+ * is redacted unless entityTypes narrows the set. The dictionary adds known
+ * names (customers, account holders) on top of the workshop's participants;
+ * customRules add organisation-specific patterns such as policy numbers.
+ */
+
+import { z } from 'zod';
+import { PII_ENTITY_TYPES } from './types';
+
+// ══════════════════════════════════════════════════════════════
+// SCHEMA
+// ══════════════════════════════════════════════════════════════
+
+const EntityTypeSchema = z.enum(PII_ENTITY_TYPES);
+
+/**
+ * Whether a pattern can backtrack catastrophically on hostile input. Custom
+ * rules run over every transcript on the event loop and JavaScript regexes
+ * cannot be interrupted, so reject the constructs behind exponential
+ * matching: backreferences and a group repeated without bound that itself
+ * contains a quantifier, e.g. `(a+)+` or `(\w+\s?)*`. Bounded repeats such
+ * as `(\d{3}-){2}` stay allowed.
+ */
+export function isUnsafeRegex(source: string): boolean {
+  // One frame per open group: does it contain a quantified element?
+  const groups: boolean[] = [false];
+  let i = 0;
+
+  const quantifierAt = (at: number): { length: number; unbounded: boolean } => {
+    const c = source[at];
+    if (c === '*' || c === '+') return { length: 1, unbounded: true };
+    if (c === '?') return { length: 1, unbounded: false };
+    const brace = /^\{\d+(,\d*)?\}/.exec(source.slice(at));
+    if (!brace) return { length: 0, unbounded: false };
+    return { length: brace[0].length, unbounded: brace[1] === ',' };
+  };
+
+  while (i < source.length) {
+    const c = source[i];
+    let quantifiedGroup = false;
+
+    if (c === '\\') {
+      if (/[1-9k]/.test(source[i + 1] ?? '')) return true;
+      i += 2;
+    } else if (c === '[') {
+      i++;
+      while (i < source.length && source[i] !== ']') i += source[i] === '\\' ? 2 : 1;
+      i++;
+    } else if (c === '(') {
+      groups.push(false);
+      i++;
+      continue;
+    } else if (c === ')') {
+      quantifiedGroup = groups.pop() ?? false;
+      if (groups.length === 0) groups.push(false);
+      i++;
+    } else {
+      i++;
+      if (c === '|') continue;
+    }
+
+    const { length, unbounded } = quantifierAt(i);
+    if (length > 0) {
+      if (quantifiedGroup && unbounded) return true;
+      groups[groups.length - 1] = true;
+      i += length;
+      if (source[i] === '?') i++;
+    } else if (quantifiedGroup) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+/** Rejects patterns that do not compile or may backtrack catastrophically */
+const RegexSourceSchema = z.string().min(1).max(300).refine((source) => {
+  try {
+    new RegExp(source, 'g');
+  } catch {
+    return false;
+  }
+  return true;
+}, { message: 'Invalid regular expression' }).refine((source) => !isUnsafeRegex(source), {
+  message: 'Regular expression may backtrack catastrophically (nested quantifiers or backreferences)',
+});
+
+export const PiiConfigSchema = z.object({
+  enabled: z.boolean(),
+  entityTypes: z.array(EntityTypeSchema).min(1).optional(),
+  /** Treat the workshop participants' names as NAME entities (default true) */
+  includeParticipantNames: z.boolean().optional(),
+  dictionary: z.array(z.object({
+    term: z.string().trim().min(2).max(200),
+    type: EntityTypeSchema.default('NAME'),
+  })).max(5000).optional(),
+  customRules: z.array(z.object({
+    name: z.string().trim().min(1).max(100),
+    type: EntityTypeSchema,
+    pattern: RegexSourceSchema,
+    caseInsensitive: z.boolean().optional(),
+  })).max(50).optional(),
+  /** Run the registered NER detector as well (no-op when none is registered) */
+  useNer: z.boolean().optional(),
+});
+
+export type PiiConfig = z.infer<typeof PiiConfigSchema>;
+
+/** Parse untrusted JSON (DB column). Invalid input yields null, never throws. */
+export function readPiiConfig(raw: unknown): PiiConfig | null {
+  if (raw == null) return null;
+  const parsed = PiiConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.warn('[PII] Ignoring invalid PII config:', parsed.error.issues.map((i) => i.message).join('; '));
+    return null;
+  }
+  return parsed.data;
+}
@@ -0,0 +1,106 @@
+/**
+ * Built-in regex rules for structured PII.
+ *
+ * Tuned for UK and international call-centre exports: email addresses,
+ * phone numbers, card / IBAN / sort-code account numbers and postal
+ * addresses. Rules err towards recall — a false positive only costs a
+ * placeholder, a miss leaks the value to the LLM.
+ */
+
+import type { PiiDetector, PiiEntityType, PiiMatch } from './types';
+
+export interface PiiRule {
+  name: string;
+  type: PiiEntityType;
+  pattern: RegExp;
+  /** Extra check on a candidate, e.g. a Luhn checksum */
+  validate?: (value: string) => boolean;
+}
+
+/** Luhn checksum — filters order numbers and timestamps out of card matches */
+export function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+export const BUILT_IN_PII_RULES: readonly PiiRule[] = [
+  {
+    name: 'email',
+    type: 'EMAIL',
+    pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
+  },
+  {
+    name: 'card_number',
+    type: 'ACCOUNT_NUMBER',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: passesLuhn,
+  },
+  {
+    name: 'iban',
+    type: 'ACCOUNT_NUMBER',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+  },
+  {
+    name: 'sort_code_account',
+    type: 'ACCOUNT_NUMBER',
+    pattern: /\b\d{2}-\d{2}-\d{2}(?:[ ,/]+\d{8})?\b/g,
+  },
+  {
+    name: 'labelled_account_number',
+    type: 'ACCOUNT_NUMBER',
+    // Only the number is replaced — the label stays as context for the LLM
+    pattern: /(?<=\b(?:account|acct|a\/c|policy|customer|membership)\s*(?:number|no\.?|#|ref(?:erence)?)?\s*[:#]?\s*)[A-Z]{0,3}\d{6,12}\b/gi,
+  },
+  {
+    name: 'phone_international',
+    type: 'PHONE',
+    pattern: /\+\d{1,3}[ .-]?\(?\d{1,4}\)?(?:[ .-]?\d{2,4}){2,4}\b/g,
+  },
+  {
+    name: 'phone_uk',
+    type: 'PHONE',
+    pattern: /\b0\d{2,4}[ -]?\d{3,4}[ -]?\d{3,4}\b/g,
+  },
+  {
+    name: 'phone_us',
+    type: 'PHONE',
+    pattern: /\(\d{3}\)\s?\d{3}-\d{4}\b/g,
+  },
+  {
+    name: 'uk_postcode',
+    type: 'ADDRESS',
+    pattern: /\b[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}\b/g,
+  },
+  {
+    name: 'street_address',
+    type: 'ADDRESS',
+    pattern: /\b\d{1,5}[A-Za-z]?\s+(?:[A-Z][a-z]+\s+){1,3}(?:Street|St|Road|Rd|Avenue|Ave|Lane|Ln|Drive|Dr|Close|Way|Court|Ct|Crescent|Place|Terrace|Gardens|Boulevard|Blvd)\b\.?/g,
+  },
+];
+
+/** Wrap a regex rule as a detector */
+export function ruleDetector(rule: PiiRule): PiiDetector {
+  return {
+    name: rule.name,
+    detect(text: string): PiiMatch[] {
+      const matches: PiiMatch[] = [];
+      const pattern = new RegExp(rule.pattern.source, rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`);
+      for (const m of text.matchAll(pattern)) {
+        const value = m[0];
+        if (!value.trim() || (rule.validate && !rule.validate(value))) continue;
+        matches.push({ type: rule.type, start: m.index!, end: m.index! + value.length, value, detector: rule.name });
+      }
+      return matches;
+    },
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * PII scanner.
+ *
+ * Runs the enabled detectors over a text, merges overlapping matches (the
+ * longest span wins) and replaces each match with a placeholder. Detectors:
+ *
+ *   - Built-in regex rules (./rules.ts) plus the organisation's customRules
+ *   - A dictionary of known names: the workshop's participants and the
+ *     organisation's dictionary terms
+ *   - An optional NER model for free-form names and addresses, registered
+ *     at startup with setNerDetector() and enabled per organisation (useNer)
+ */
+
+import type { PiiConfig } from './config';
+import { BUILT_IN_PII_RULES, ruleDetector } from './rules';
+import type { PiiDetector, PiiEntityType, PiiMatch } from './types';
+import { PII_ENTITY_TYPES } from './types';
+
+/** Name parts shorter than this are too ambiguous to match on their own */
+const MIN_NAME_PART_LENGTH = 3;
+
+// ── NER slot ─────────────────────────────────────────────────────────
+
+let nerDetector: PiiDetector | null = null;
+
+/** Register the NER detector (e.g. a hosted model) at startup. Pass null to reset. */
+export function setNerDetector(next: PiiDetector | null): void {
+  nerDetector = next;
+}
+
+export function getNerDetector(): PiiDetector | null {
+  return nerDetector;
+}
+
+// ── Dictionary ───────────────────────────────────────────────────────
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export interface DictionaryTerm {
+  term: string;
+  type: PiiEntityType;
+  /** Also match each part of a multi-word name on its own (capitalised only) */
+  matchParts?: boolean;
+}
+
+/** Whole-word matches of known terms; full terms match case-insensitively */
+export function dictionaryDetector(terms: DictionaryTerm[]): PiiDetector {
+  const patterns: Array<{ pattern: RegExp; type: PiiEntityType }> = [];
+  const seen = new Set<string>();
+  const add = (source: string, flags: string, type: PiiEntityType) => {
+    const key = `${flags}:${source}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    patterns.push({ pattern: new RegExp(`\\b${source}\\b`, flags), type });
+  };
+
+  for (const { term, type, matchParts } of terms) {
+    const trimmed = term.trim();
+    if (!trimmed) continue;
+    add(escapeRegExp(trimmed).replace(/\s+/g, '\\s+'), 'gi', type);
+    if (!matchParts) continue;
+    for (const part of trimmed.split(/\s+/)) {
+      if (part.length < MIN_NAME_PART_LENGTH || part === trimmed) continue;
+      add(escapeRegExp(part), 'g', type);
+    }
+  }
+
+  return {
+    name: 'dictionary',
+    detect(text: string): PiiMatch[] {
+      const matches: PiiMatch[] = [];
+      for (const { pattern, type } of patterns) {
+        for (const m of text.matchAll(pattern)) {
+          matches.push({ type, start: m.index!, end: m.index! + m[0].length, value: m[0], detector: 'dictionary' });
+        }
+      }
+      return matches;
+    },
+  };
+}
+
+// ── Detector set ─────────────────────────────────────────────────────
+
+/** The detectors an organisation's config enables, given its workshop's participant names */
+export function buildPiiDetectors(config: PiiConfig, participantNames: string[] = []): PiiDetector[] {
+  const detectors: PiiDetector[] = BUILT_IN_PII_RULES.map(ruleDetector);
+
+  for (const rule of config.customRules ?? []) {
+    detectors.push(ruleDetector({
+      name: `custom:${rule.name}`,
+      type: rule.type,
+      pattern: new RegExp(rule.pattern, rule.caseInsensitive ? 'gi' : 'g'),
+    }));
+  }
+
+  const terms: DictionaryTerm[] = (config.dictionary ?? []).map((d) => ({ term: d.term, type: d.type }));
+  if (config.includeParticipantNames !== false) {
+    for (const name of participantNames) terms.push({ term: name, type: 'NAME', matchParts: true });
+  }
+  if (terms.length > 0) detectors.push(dictionaryDetector(terms));
+
+  if (config.useNer && nerDetector) detectors.push(nerDetector);
+  return detectors;
+}
+
+// ── Scan + replace ───────────────────────────────────────────────────
+
+/** Sort by position and drop matches that overlap an earlier, longer one */
+export function mergePiiMatches(matches: PiiMatch[]): PiiMatch[] {
+  const sorted = [...matches].sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  const merged: PiiMatch[] = [];
+  for (const match of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && match.start < last.end) {
+      if (match.end - match.start > last.end - last.start) merged[merged.length - 1] = match;
+      continue;
+    }
+    merged.push(match);
+  }
+  return merged;
+}
+
+export async function scanPii(
+  text: string,
+  detectors: PiiDetector[],
+  entityTypes: readonly PiiEntityType[] = PII_ENTITY_TYPES,
+): Promise<PiiMatch[]> {
+  if (!text) return [];
+  const enabled = new Set(entityTypes);
+  const results = await Promise.all(detectors.map(async (detector) => {
+    try {
+      return await detector.detect(text);
+    } catch (error) {
+      // A failing NER model must not block ingestion — regex and dictionary still ran
+      console.error(`[PII] Detector ${detector.name} failed:`, error instanceof Error ? error.message : error);
+      return [];
+    }
+  }));
+  return mergePiiMatches(results.flat().filter((m) => enabled.has(m.type) && m.end > m.start));
+}
+
+/** Replace merged, non-overlapping matches with the placeholder tokenFor() returns */
+export async function replacePiiMatches(
+  text: string,
+  matches: PiiMatch[],
+  tokenFor: (match: PiiMatch) => string | Promise<string>,
+): Promise<string> {
+  let out = '';
+  let cursor = 0;
+  for (const match of matches) {
+    out += text.slice(cursor, match.start) + await tokenFor(match);
+    cursor = match.end;
+  }
+  return out + text.slice(cursor);
+}
@@ -0,0 +1,28 @@
+/**
+ * PII detection types.
+ *
+ * A detector finds spans of personal data in a piece of text. The scanner
+ * (./scanner.ts) runs the built-in regex rules, the workshop's name
+ * dictionary and — when one is registered — an NER model, then merges their
+ * matches. Matches are replaced with typed placeholders such as [EMAIL_3]
+ * whose original values live in the PII vault (./vault.ts).
+ */
+
+export const PII_ENTITY_TYPES = ['EMAIL', 'PHONE', 'ACCOUNT_NUMBER', 'NAME', 'ADDRESS'] as const;
+
+export type PiiEntityType = (typeof PII_ENTITY_TYPES)[number];
+
+export interface PiiMatch {
+  type: PiiEntityType;
+  /** Offsets into the scanned text, end exclusive */
+  start: number;
+  end: number;
+  value: string;
+  /** Rule, dictionary or NER detector that produced the match */
+  detector: string;
+}
+
+export interface PiiDetector {
+  readonly name: string;
+  detect(text: string): PiiMatch[] | Promise<PiiMatch[]>;
+}
@@ -0,0 +1,159 @@
+/**
+ * PII vault.
+ *
+ * Each distinct value found in a workshop gets a typed, numbered placeholder
+ * ([EMAIL_1], [NAME_4], ...) that is stable for the life of the workshop, so
+ * the same customer reads as the same token across transcripts, segments and
+ * evidence. The original values are stored tenant-encrypted (deterministic,
+ * see lib/workshop-encryption.ts) and can be restored by authorised
+ * facilitators with revealPii(). Vault rows go with the workshop on delete,
+ * and crypto-shredding the organisation's keys makes them unreadable.
+ */
+
+import { Prisma } from '@prisma/client';
+import type { CaptureAPIResponse } from '@/lib/captureapi/client';
+import { prisma } from '@/lib/prisma';
+import { decryptTenantRecords, encryptTenantFields, encryptTenantValueCandidates } from '@/lib/workshop-encryption';
+import { readPiiConfig } from './config';
+import { buildPiiDetectors, replacePiiMatches, scanPii } from './scanner';
+import { PII_ENTITY_TYPES, type PiiEntityType, type PiiMatch } from './types';
+
+const TOKEN_PATTERN = new RegExp(`\\[(?:${PII_ENTITY_TYPES.join('|')})_\\d+\\]`, 'g');
+
+/** Attempts at allocating the next token number when writers race */
+const MAX_TOKEN_ATTEMPTS = 5;
+
+export interface WorkshopPiiRedactor {
+  /** Replace PII in `text` with vault placeholders */
+  redact(text: string): Promise<string>;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+// ── Tokens ───────────────────────────────────────────────────────────
+
+/**
+ * The value's existing token. Entries keep the key version they were written
+ * under until a rotation job reaches them, so match the value under every
+ * live version, not just the active one.
+ */
+async function findToken(workshopId: string, entityType: PiiEntityType, value: string): Promise<string | null> {
+  const entry = await prisma.piiVaultEntry.findFirst({
+    where: {
+      workshopId,
+      entityType,
+      value: { in: await encryptTenantValueCandidates('piiVaultEntry', 'value', { workshopId }, value) },
+    },
+    orderBy: { createdAt: 'asc' },
+    select: { token: true },
+  });
+  return entry?.token ?? null;
+}
+
+/** Placeholder for a value — existing token, or the next free number for its type */
+export async function tokenForValue(workshopId: string, match: Pick<PiiMatch, 'type' | 'value' | 'detector'>): Promise<string> {
+  const value = match.value.trim();
+  const existing = await findToken(workshopId, match.type, value);
+  if (existing) return existing;
+
+  for (let attempt = 0; attempt < MAX_TOKEN_ATTEMPTS; attempt++) {
+    const count = await prisma.piiVaultEntry.count({ where: { workshopId, entityType: match.type } });
+    const token = `[${match.type}_${count + 1 + attempt}]`;
+    try {
+      await prisma.piiVaultEntry.create({
+        data: await encryptTenantFields('piiVaultEntry', { workshopId }, {
+          workshopId,
+          entityType: match.type,
+          token,
+          value,
+          detector: match.detector,
+        }),
+      });
+      return token;
+    } catch (error) {
+      if (!isUniqueViolation(error)) throw error;
+      // Either another writer stored this value, or took this token number
+      const raced = await findToken(workshopId, match.type, value);
+      if (raced) return raced;
+    }
+  }
+  throw new Error(`Could not allocate a PII token for ${match.type} in workshop ${workshopId}`);
+}
+
+// ── Redaction ────────────────────────────────────────────────────────
+
+/**
+ * Build the redactor for a workshop from its organisation's piiConfig, or
+ * null when redaction is off. Load once per request and reuse it for every
+ * text in that request.
+ */
+export async function loadWorkshopPiiRedactor(workshopId: string): Promise<WorkshopPiiRedactor | null> {
+  const workshop = await prisma.workshop.findUnique({
+    where: { id: workshopId },
+    select: {
+      organization: { select: { piiConfig: true } },
+      participants: { select: { name: true } },
+    },
+  });
+  const config = readPiiConfig(workshop?.organization?.piiConfig);
+  if (!workshop || !config?.enabled) return null;
+
+  const detectors = buildPiiDetectors(config, workshop.participants.map((p) => p.name));
+  return {
+    async redact(text: string): Promise<string> {
+      const matches = await scanPii(text, detectors, config.entityTypes);
+      if (matches.length === 0) return text;
+      return replacePiiMatches(text, matches, (match) => tokenForValue(workshopId, match));
+    },
+  };
+}
+
+/** One-off redaction of a single text; returns it unchanged when redaction is off */
+export async function redactPii(workshopId: string, text: string): Promise<string> {
+  const redactor = await loadWorkshopPiiRedactor(workshopId);
+  return redactor ? redactor.redact(text) : text;
+}
+
+/** Redact a CaptureAPI result in place: both transcripts and the extracted entities */
+export async function redactCaptureResult(workshopId: string, result: CaptureAPIResponse): Promise<void> {
+  const redactor = await loadWorkshopPiiRedactor(workshopId);
+  if (!redactor) return;
+  result.transcription.rawText = await redactor.redact(result.transcription.rawText);
+  result.transcription.cleanText = await redactor.redact(result.transcription.cleanText);
+  for (const entity of result.analysis?.entities ?? []) {
+    entity.value = await redactor.redact(entity.value);
+  }
+}
+
+// ── Reveal ───────────────────────────────────────────────────────────
+
+/** Vault entries for a workshop with their original values */
+export async function listPiiVaultEntries(workshopId: string) {
+  const entries = await prisma.piiVaultEntry.findMany({
+    where: { workshopId },
+    orderBy: [{ entityType: 'asc' }, { createdAt: 'asc' }],
+    select: { token: true, entityType: true, value: true, detector: true, createdAt: true },
+  });
+  return decryptTenantRecords('piiVaultEntry', entries);
+}
+
+/**
+ * Restore the original values behind the placeholders in `text`. Callers
+ * must check the facilitator is authorised and audit the reveal.
+ */
+export async function revealPii(workshopId: string, text: string): Promise<{ text: string; revealed: number }> {
+  const tokens = [...new Set(text.match(TOKEN_PATTERN) ?? [])];
+  if (tokens.length === 0) return { text, revealed: 0 };
+
+  const entries = await decryptTenantRecords('piiVaultEntry', await prisma.piiVaultEntry.findMany({
+    where: { workshopId, token: { in: tokens } },
+    select: { token: true, value: true },
+  }));
+  const values = new Map(entries.map((e) => [e.token, e.value]));
+  return {
+    text: text.replace(TOKEN_PATTERN, (token) => values.get(token) ?? token),
+    revealed: values.size,
+  };
+}
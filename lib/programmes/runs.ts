@@ -0,0 +1,110 @@
+/**
+ * Programme Runs — Loading
+ *
+ * Builds a ProgrammeRun for each workshop in a programme: the Discovery
+ * (BASELINE) hemisphere diagnostic plus constraints and roadmap initiatives
+ * from stored output intelligence. Deterministic — no LLM calls.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { buildGraphFromSessions } from '@/lib/hemisphere-diagnostic/build-hemisphere-graph';
+import { computeDiagnostic } from '@/lib/hemisphere-diagnostic/compute-diagnostic';
+import { getDimensionNames } from '@/lib/cognition/workshop-dimensions';
+import type { WorkshopPrepResearch } from '@/lib/cognition/agents/agent-types';
+import type { StoredOutputIntelligence } from '@/lib/output-intelligence/types';
+import { buildWhatChanged } from './trends';
+import type { ProgrammeRun, ProgrammeWhatChanged } from './types';
+
+const RUN_SELECT = {
+  id: true,
+  name: true,
+  scheduledDate: true,
+  createdAt: true,
+  prepResearch: true,
+  outputIntelligence: true,
+} as const;
+
+type RunWorkshop = {
+  id: string;
+  name: string;
+  scheduledDate: Date | null;
+  createdAt: Date;
+  prepResearch: unknown;
+  outputIntelligence: unknown;
+};
+
+function runDate(workshop: Pick<RunWorkshop, 'scheduledDate' | 'createdAt'>): Date {
+  return workshop.scheduledDate ?? workshop.createdAt;
+}
+
+async function buildRun(workshop: RunWorkshop): Promise<ProgrammeRun> {
+  const prepResearch = workshop.prepResearch as WorkshopPrepResearch | null;
+  const industryDimensions = Array.isArray(prepResearch?.industryDimensions)
+    ? (prepResearch!.industryDimensions as Array<{ name: string }>).map((d) => d.name)
+    : null;
+
+  let diagnostic: ProgrammeRun['diagnostic'] = null;
+  try {
+    const graph = await buildGraphFromSessions(workshop.id, 'BASELINE', industryDimensions);
+    if (graph.nodes.length > 0) {
+      diagnostic = computeDiagnostic(graph.nodes, graph.edges, workshop.id, null, getDimensionNames(prepResearch));
+    }
+  } catch (error) {
+    console.warn(`[Programmes] Failed to build diagnostic for workshop ${workshop.id}:`, error);
+  }
+
+  const intelligence = (workshop.outputIntelligence as StoredOutputIntelligence | null)?.intelligence;
+
+  return {
+    workshopId: workshop.id,
+    workshopName: workshop.name,
+    runDate: runDate(workshop).toISOString(),
+    diagnostic,
+    constraints: (intelligence?.rootCause?.workshopConstraints ?? []).map((c) => ({
+      title: c.title,
+      severity: c.severity,
+    })),
+    initiatives: (intelligence?.roadmap?.phases ?? []).flatMap((p) =>
+      (p.initiatives ?? []).map((i) => ({ title: i.title, phase: p.phase })),
+    ),
+  };
+}
+
+/** Every run in a programme, oldest first. */
+export async function loadProgrammeRuns(programmeId: string): Promise<ProgrammeRun[]> {
+  const workshops = await prisma.workshop.findMany({
+    where: { programmeId },
+    select: RUN_SELECT,
+  });
+  workshops.sort((a, b) => runDate(a).getTime() - runDate(b).getTime());
+
+  // Sequential — each diagnostic reads every completed session for its workshop
+  const runs: ProgrammeRun[] = [];
+  for (const workshop of workshops) runs.push(await buildRun(workshop));
+  return runs;
+}
+
+/**
+ * "What changed since last time" for one workshop: a comparison with the
+ * programme run immediately before it. Null when the workshop is not in a
+ * programme or is its first run.
+ */
+export async function loadWhatChangedForWorkshop(workshopId: string): Promise<ProgrammeWhatChanged | null> {
+  const current = await prisma.workshop.findUnique({
+    where: { id: workshopId },
+    select: { ...RUN_SELECT, programmeId: true },
+  });
+  if (!current?.programmeId) return null;
+
+  const siblings = await prisma.workshop.findMany({
+    where: { programmeId: current.programmeId, id: { not: workshopId } },
+    select: RUN_SELECT,
+  });
+  const previous = siblings
+    .filter((w) => runDate(w).getTime() < runDate(current).getTime())
+    .sort((a, b) => runDate(b).getTime() - runDate(a).getTime())[0];
+  if (!previous) return null;
+
+  const [previousRun, currentRun] = [await buildRun(previous), await buildRun(current)];
+  return buildWhatChanged(previousRun, currentRun);
+}
@@ -0,0 +1,104 @@
+/**
+ * Programme Store
+ *
+ * Programme CRUD and workshop membership. A workshop belongs to at most one
+ * programme, and only workshops in the programme's organisation can join.
+ */
+
+import { prisma } from '@/lib/prisma';
+
+export class ProgrammeError extends Error {
+  constructor(message: string, readonly status: 400 | 404 = 400) {
+    super(message);
+    this.name = 'ProgrammeError';
+  }
+}
+
+const PROGRAMME_WORKSHOP_SELECT = {
+  id: true,
+  name: true,
+  status: true,
+  scheduledDate: true,
+  createdAt: true,
+} as const;
+
+export async function listProgrammes(organizationId: string) {
+  return prisma.programme.findMany({
+    where: { organizationId },
+    orderBy: { updatedAt: 'desc' },
+    include: { workshops: { select: PROGRAMME_WORKSHOP_SELECT } },
+  });
+}
+
+export async function getProgramme(organizationId: string, programmeId: string) {
+  return prisma.programme.findFirst({
+    where: { id: programmeId, organizationId },
+    include: { workshops: { select: PROGRAMME_WORKSHOP_SELECT } },
+  });
+}
+
+async function assignWorkshops(organizationId: string, programmeId: string | null, workshopIds: string[]) {
+  if (workshopIds.length === 0) return;
+  const ids = [...new Set(workshopIds)];
+  const { count } = await prisma.workshop.updateMany({
+    where: { id: { in: ids }, organizationId },
+    data: { programmeId },
+  });
+  if (count !== ids.length) throw new ProgrammeError('One or more workshops were not found', 404);
+}
+
+export async function createProgramme(params: {
+  organizationId: string;
+  userId: string;
+  name: string;
+  clientName?: string | null;
+  description?: string | null;
+  workshopIds?: string[];
+}) {
+  const programme = await prisma.programme.create({
+    data: {
+      organizationId: params.organizationId,
+      name: params.name,
+      clientName: params.clientName ?? null,
+      description: params.description ?? null,
+      createdById: params.userId,
+    },
+  });
+  await assignWorkshops(params.organizationId, programme.id, params.workshopIds ?? []);
+  return (await getProgramme(params.organizationId, programme.id))!;
+}
+
+export async function updateProgramme(params: {
+  organizationId: string;
+  programmeId: string;
+  name?: string;
+  clientName?: string | null;
+  description?: string | null;
+  addWorkshopIds?: string[];
+  removeWorkshopIds?: string[];
+}) {
+  const existing = await getProgramme(params.organizationId, params.programmeId);
+  if (!existing) throw new ProgrammeError('Programme not found', 404);
+
+  await prisma.programme.update({
+    where: { id: existing.id },
+    data: {
+      ...(params.name !== undefined && { name: params.name }),
+      ...(params.clientName !== undefined && { clientName: params.clientName }),
+      ...(params.description !== undefined && { description: params.description }),
+    },
+  });
+
+  await assignWorkshops(params.organizationId, existing.id, params.addWorkshopIds ?? []);
+
+  const removable = (params.removeWorkshopIds ?? []).filter((id) => existing.workshops.some((w) => w.id === id));
+  await assignWorkshops(params.organizationId, null, removable);
+
+  return (await getProgramme(params.organizationId, existing.id))!;
+}
+
+/** Delete a programme. Its workshops are unlinked, not deleted. */
+export async function deleteProgramme(organizationId: string, programmeId: string) {
+  const { count } = await prisma.programme.deleteMany({ where: { id: programmeId, organizationId } });
+  if (count === 0) throw new ProgrammeError('Programme not found', 404);
+}
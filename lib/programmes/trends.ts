@@ -0,0 +1,258 @@
+/**
+ * Programme Trends — Run-over-Run Comparison
+ *
+ * Pure functions over ProgrammeRun snapshots (oldest first). Constraints and
+ * roadmap initiatives are LLM-worded per run, so they are matched across runs
+ * by title similarity rather than exact text.
+ */
+
+import { computeDiagnosticDelta } from '@/lib/hemisphere-diagnostic/compute-delta';
+import { similarity } from '@/lib/report/dedup-utils';
+import type {
+  ConstraintPersistence,
+  InitiativeRunStatus,
+  InitiativeTrend,
+  LensChange,
+  LensMaturityTrend,
+  ProgrammeRun,
+  ProgrammeRunConstraint,
+  ProgrammeRunInitiative,
+  ProgrammeTrends,
+  ProgrammeWhatChanged,
+  SentimentTrendPoint,
+} from './types';
+
+// ── Constants ────────────────────────────────────────────────
+
+/**
+ * Title similarity at or above which two items are treated as the same
+ * constraint / initiative. Looser than report dedup (0.72) because the same
+ * issue is re-worded between workshops months apart.
+ */
+export const MATCH_THRESHOLD = 0.5;
+
+/** Lens movements smaller than this are not called out as headlines */
+const LENS_HEADLINE_THRESHOLD = 5;
+
+// ── Matching ─────────────────────────────────────────────────
+
+interface Track<T> {
+  title: string;
+  items: Array<T | null>;
+}
+
+/**
+ * Group items across runs into tracks. Each item joins the most similar
+ * track not already matched in its run, or starts a new one.
+ */
+function trackAcrossRuns<T extends { title: string }>(runs: T[][]): Track<T>[] {
+  const tracks: Track<T>[] = [];
+
+  runs.forEach((items, runIndex) => {
+    const matched = new Set<Track<T>>();
+    for (const item of items) {
+      let best: Track<T> | null = null;
+      let bestScore = MATCH_THRESHOLD;
+      for (const track of tracks) {
+        if (matched.has(track)) continue;
+        const score = similarity(track.title, item.title);
+        if (score >= bestScore) {
+          best = track;
+          bestScore = score;
+        }
+      }
+      if (best) {
+        best.items[runIndex] = item;
+        best.title = item.title;
+        matched.add(best);
+      } else {
+        const track: Track<T> = { title: item.title, items: new Array(runs.length).fill(null) };
+        track.items[runIndex] = item;
+        tracks.push(track);
+        matched.add(track);
+      }
+    }
+  });
+
+  return tracks;
+}
+
+// ── Lens maturity ────────────────────────────────────────────
+
+function lensScores(run: ProgrammeRun): Map<string, number> {
+  return new Map((run.diagnostic?.multiLens.lenses ?? []).map((l) => [l.lens, l.score]));
+}
+
+export function buildLensMaturityTrends(runs: ProgrammeRun[]): LensMaturityTrend[] {
+  const perRun = runs.map(lensScores);
+  const lenses = [...new Set(perRun.flatMap((m) => [...m.keys()]))];
+
+  return lenses.map((lens) => {
+    const scores = perRun.map((m) => m.get(lens) ?? null);
+    const scored = scores.filter((s): s is number => s !== null);
+    return {
+      lens,
+      scores,
+      change: scored.length >= 2 ? round1(scored[scored.length - 1] - scored[0]) : null,
+    };
+  });
+}
+
+// ── Constraint persistence ───────────────────────────────────
+
+export function buildConstraintPersistence(runs: ProgrammeRun[]): ConstraintPersistence[] {
+  const last = runs.length - 1;
+
+  return trackAcrossRuns(runs.map((r) => r.constraints))
+    .map((track) => {
+      const present = track.items.map((c) => c !== null);
+      const firstSeenRun = present.indexOf(true);
+      const lastSeenRun = present.lastIndexOf(true);
+      const occurrences = present.filter(Boolean).length;
+      const continuous = occurrences === lastSeenRun - firstSeenRun + 1;
+
+      let status: ConstraintPersistence['status'];
+      if (lastSeenRun < last) status = 'resolved';
+      else if (firstSeenRun === last) status = 'new';
+      else status = continuous ? 'persistent' : 'recurring';
+
+      return {
+        title: track.title,
+        present,
+        severities: track.items.map((c) => c?.severity ?? null),
+        firstSeenRun,
+        lastSeenRun,
+        occurrences,
+        status,
+      };
+    })
+    .sort((a, b) => b.occurrences - a.occurrences || a.firstSeenRun - b.firstSeenRun);
+}
+
+// ── Sentiment index ──────────────────────────────────────────
+
+export function buildSentimentTrend(runs: ProgrammeRun[]): SentimentTrendPoint[] {
+  return runs.map((run) => ({
+    workshopId: run.workshopId,
+    overallCreative: run.diagnostic?.sentimentIndex.overallCreative ?? null,
+    overallConstraint: run.diagnostic?.sentimentIndex.overallConstraint ?? null,
+    balanceLabel: run.diagnostic?.sentimentIndex.balanceLabel ?? null,
+  }));
+}
+
+// ── Roadmap initiatives ──────────────────────────────────────
+
+export function buildInitiativeTrends(runs: ProgrammeRun[]): InitiativeTrend[] {
+  return trackAcrossRuns(runs.map((r) => r.initiatives)).map((track) => {
+    const statuses: InitiativeRunStatus[] = track.items.map((item, i) => {
+      const before = i > 0 ? track.items[i - 1] : null;
+      if (item) return before ? 'carried' : 'new';
+      return before ? 'dropped' : 'absent';
+    });
+    const latest = [...track.items].reverse().find((i): i is ProgrammeRunInitiative => i !== null);
+    return { title: track.title, statuses, phase: latest?.phase ?? '' };
+  });
+}
+
+// ── Programme trends ─────────────────────────────────────────
+
+/** All trend views for a programme. `runs` must be ordered oldest first. */
+export function buildProgrammeTrends(runs: ProgrammeRun[]): ProgrammeTrends {
+  return {
+    runs: runs.map(({ workshopId, workshopName, runDate }) => ({ workshopId, workshopName, runDate })),
+    lensMaturity: buildLensMaturityTrends(runs),
+    constraintPersistence: buildConstraintPersistence(runs),
+    sentiment: buildSentimentTrend(runs),
+    initiatives: buildInitiativeTrends(runs),
+  };
+}
+
+// ── What changed since last time ─────────────────────────────
+
+function splitPair<T extends { title: string }>(before: T[], after: T[]) {
+  const tracks = trackAcrossRuns([before, after]);
+  return {
+    gone: tracks.filter((t) => t.items[0] && !t.items[1]).map((t) => t.items[0]!),
+    kept: tracks.filter((t) => t.items[0] && t.items[1]).map((t) => t.items[1]!),
+    added: tracks.filter((t) => !t.items[0] && t.items[1]).map((t) => t.items[1]!),
+  };
+}
+
+/** Compare a run with the one before it. */
+export function buildWhatChanged(previous: ProgrammeRun, current: ProgrammeRun): ProgrammeWhatChanged {
+  const lensChanges: LensChange[] = buildLensMaturityTrends([previous, current])
+    .map(({ lens, scores: [before, after] }) => ({
+      lens,
+      before,
+      after,
+      delta: before !== null && after !== null ? round1(after - before) : null,
+    }))
+    .sort((a, b) => Math.abs(b.delta ?? -1) - Math.abs(a.delta ?? -1));
+
+  const sentimentDelta = previous.diagnostic && current.diagnostic
+    ? computeDiagnosticDelta(previous.diagnostic, current.diagnostic)
+    : null;
+
+  const constraints = splitPair<ProgrammeRunConstraint>(previous.constraints, current.constraints);
+  const initiatives = splitPair<ProgrammeRunInitiative>(previous.initiatives, current.initiatives);
+
+  const result: ProgrammeWhatChanged = {
+    previous: { workshopId: previous.workshopId, workshopName: previous.workshopName, runDate: previous.runDate },
+    current: { workshopId: current.workshopId, workshopName: current.workshopName, runDate: current.runDate },
+    lensChanges,
+    sentimentDelta,
+    constraints: { resolved: constraints.gone, persisting: constraints.kept, emerged: constraints.added },
+    initiatives: { carried: initiatives.kept, dropped: initiatives.gone, added: initiatives.added },
+    headlines: [],
+  };
+  result.headlines = buildHeadlines(result, previous, current);
+  return result;
+}
+
+function buildHeadlines(
+  changed: ProgrammeWhatChanged,
+  previous: ProgrammeRun,
+  current: ProgrammeRun,
+): string[] {
+  const headlines: string[] = [];
+
+  const moved = changed.lensChanges.filter((c) => c.delta !== null && Math.abs(c.delta) >= LENS_HEADLINE_THRESHOLD);
+  for (const c of moved.slice(0, 3)) {
+    const direction = c.delta! > 0 ? 'up' : 'down';
+    headlines.push(`${c.lens} maturity ${direction} ${Math.abs(c.delta!)} points (${c.before} → ${c.after}).`);
+  }
+
+  if (previous.constraints.length > 0) {
+    const { resolved, persisting, emerged } = changed.constraints;
+    headlines.push(
+      `${resolved.length} of ${previous.constraints.length} constraints from last time no longer surfaced; ` +
+      `${persisting.length} persist and ${emerged.length} are new.`,
+    );
+  }
+
+  const before = previous.diagnostic?.sentimentIndex;
+  const after = current.diagnostic?.sentimentIndex;
+  if (before && after && changed.sentimentDelta) {
+    const d = changed.sentimentDelta.overallConstraintDelta;
+    const constraintMove = d === 0 ? 'unchanged' : `${d < 0 ? 'down' : 'up'} ${Math.abs(d)} points`;
+    const balance = before.balanceLabel === after.balanceLabel
+      ? `balance remains ${before.balanceLabel}`
+      : `balance moved from ${before.balanceLabel} to ${after.balanceLabel}`;
+    headlines.push(`Constraint density ${constraintMove}; ${balance}.`);
+  }
+
+  if (previous.initiatives.length > 0 || current.initiatives.length > 0) {
+    const { carried, dropped, added } = changed.initiatives;
+    headlines.push(
+      `${carried.length} roadmap initiatives carried forward, ${dropped.length} dropped and ${added.length} added.`,
+    );
+  }
+
+  return headlines;
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
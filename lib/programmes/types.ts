@@ -0,0 +1,114 @@
+/**
+ * Programme Types
+ *
+ * A programme links the repeat workshops run for one client (a baseline and
+ * its follow-ups). Each workshop contributes one ProgrammeRun — a compact
+ * snapshot of the signals that are compared run over run.
+ */
+
+import type { DiagnosticDelta, HemisphereDiagnostic, SentimentIndex } from '@/lib/types/hemisphere-diagnostic';
+import type { WorkshopConstraint } from '@/lib/output-intelligence/types';
+
+// ── Runs ─────────────────────────────────────────────────────
+
+export interface ProgrammeRunConstraint {
+  title: string;
+  severity: WorkshopConstraint['severity'];
+}
+
+export interface ProgrammeRunInitiative {
+  title: string;
+  /** Roadmap phase the initiative sits in for this run */
+  phase: string;
+}
+
+export interface ProgrammeRun {
+  workshopId: string;
+  workshopName: string;
+  /** scheduledDate, falling back to createdAt — runs are ordered by this */
+  runDate: string;
+  /** Discovery (BASELINE) diagnostic — null until sessions have completed */
+  diagnostic: HemisphereDiagnostic | null;
+  /** Workshop constraints from output intelligence (empty until synthesised) */
+  constraints: ProgrammeRunConstraint[];
+  /** Roadmap initiatives from output intelligence (empty until synthesised) */
+  initiatives: ProgrammeRunInitiative[];
+}
+
+// ── Trends ───────────────────────────────────────────────────
+
+export interface LensMaturityTrend {
+  lens: string;
+  /** One score per run, in run order; null where the lens was not scored */
+  scores: Array<number | null>;
+  /** Last scored value minus first scored value */
+  change: number | null;
+}
+
+export interface ConstraintPersistence {
+  /** Title as worded in the most recent run it appeared in */
+  title: string;
+  /** Whether the constraint appeared in each run, in run order */
+  present: boolean[];
+  severities: Array<ProgrammeRunConstraint['severity'] | null>;
+  firstSeenRun: number;
+  lastSeenRun: number;
+  /** Runs it has appeared in */
+  occurrences: number;
+  status: 'persistent' | 'resolved' | 'new' | 'recurring';
+}
+
+export interface SentimentTrendPoint {
+  workshopId: string;
+  overallCreative: number | null;
+  overallConstraint: number | null;
+  balanceLabel: SentimentIndex['balanceLabel'] | null;
+}
+
+export type InitiativeRunStatus = 'new' | 'carried' | 'dropped' | 'absent';
+
+export interface InitiativeTrend {
+  title: string;
+  /** Status in each run, in run order */
+  statuses: InitiativeRunStatus[];
+  /** Phase in the latest run it appeared in */
+  phase: string;
+}
+
+export interface ProgrammeTrends {
+  runs: Array<{ workshopId: string; workshopName: string; runDate: string }>;
+  lensMaturity: LensMaturityTrend[];
+  constraintPersistence: ConstraintPersistence[];
+  sentiment: SentimentTrendPoint[];
+  initiatives: InitiativeTrend[];
+}
+
+// ── What changed since last time ─────────────────────────────
+
+export interface LensChange {
+  lens: string;
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+}
+
+export interface ProgrammeWhatChanged {
+  previous: { workshopId: string; workshopName: string; runDate: string };
+  current: { workshopId: string; workshopName: string; runDate: string };
+  /** Biggest movements first */
+  lensChanges: LensChange[];
+  /** Null unless both runs have a sentiment index */
+  sentimentDelta: DiagnosticDelta | null;
+  constraints: {
+    resolved: ProgrammeRunConstraint[];
+    persisting: ProgrammeRunConstraint[];
+    emerged: ProgrammeRunConstraint[];
+  };
+  initiatives: {
+    carried: ProgrammeRunInitiative[];
+    dropped: ProgrammeRunInitiative[];
+    added: ProgrammeRunInitiative[];
+  };
+  /** Plain-English headline bullets for the report */
+  headlines: string[];
+}
@@ -0,0 +1,72 @@
+/**
+ * Request handling shared by every /api/v1 route: API key authentication,
+ * per-key rate limiting and one JSON error shape ({ error, details? }).
+ *
+ * Each key gets PUBLIC_API_RATE_LIMIT requests a minute (default 120)
+ * through lib/rate-limit.ts, so the limit holds across instances when
+ * Upstash is configured. Every response carries X-RateLimit-* headers.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimit } from '@/lib/rate-limit';
+import { ApiError, type ApiPrincipal, authenticateApiKey } from './keys';
+import type { ApiKeyScope } from './scopes';
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const DEFAULT_REQUESTS_PER_MINUTE = 120;
+
+const apiKeyLimiter = rateLimit({
+  interval: RATE_LIMIT_WINDOW_MS,
+  uniqueTokenPerInterval: 1000,
+});
+
+export function apiRequestsPerMinute(): number {
+  const configured = Number(process.env.PUBLIC_API_RATE_LIMIT);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_REQUESTS_PER_MINUTE;
+}
+
+export function apiErrorResponse(message: string, status: number, headers?: Record<string, string>): NextResponse {
+  return NextResponse.json({ error: message }, { status, headers });
+}
+
+/**
+ * Authenticate the request for `scope`, apply the key's rate limit, then run
+ * the action. ApiErrors become JSON errors; anything else is logged and 500s.
+ */
+export async function handleApiRequest(
+  request: NextRequest,
+  scope: ApiKeyScope,
+  action: (principal: ApiPrincipal) => Promise<NextResponse>,
+): Promise<NextResponse> {
+  try {
+    const principal = await authenticateApiKey(request, scope);
+
+    const limit = apiRequestsPerMinute();
+    const result = await apiKeyLimiter.check(limit, `api-key:${principal.keyId}`);
+    const rateHeaders = {
+      'X-RateLimit-Limit': limit.toString(),
+      'X-RateLimit-Remaining': result.remaining.toString(),
+      'X-RateLimit-Reset': result.reset.toString(),
+    };
+    if (!result.success) {
+      return apiErrorResponse('Rate limit exceeded', 429, {
+        ...rateHeaders,
+        'Retry-After': Math.max(1, Math.ceil((result.reset - Date.now()) / 1000)).toString(),
+      });
+    }
+
+    let response: NextResponse;
+    try {
+      response = await action(principal);
+    } catch (error) {
+      if (!(error instanceof ApiError)) throw error;
+      response = apiErrorResponse(error.message, error.status);
+    }
+    for (const [name, value] of Object.entries(rateHeaders)) response.headers.set(name, value);
+    return response;
+  } catch (error) {
+    if (error instanceof ApiError) return apiErrorResponse(error.message, error.status);
+    console.error('[API v1] Request failed:', error);
+    return apiErrorResponse('Internal error', 500);
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Public API keys.
+ *
+ * A key belongs to one organisation, carries a set of scopes and acts as a
+ * fixed user of that organisation (the creator of API-created workshops, the
+ * actor in the audit log). Keys are shown once at creation; only their
+ * SHA-256 is stored, plus a short prefix so admins can tell keys apart.
+ *
+ * A key is only as good as its acting user: it stops working while that user
+ * is deactivated, leaves the organisation or loses admin rights, and is
+ * deleted with them.
+ */
+
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { type ApiKeyScope, isApiKeyScope } from './scopes';
+
+const KEY_PREFIX = 'dk_live_';
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+/** Roles a key may act as — the roles allowed to issue keys */
+const ACTING_ROLES = new Set(['PLATFORM_ADMIN', 'TENANT_ADMIN']);
+
+export class ApiError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/** Key fields safe to return to admins (everything but the hash) */
+export const API_KEY_SELECT = {
+  id: true,
+  name: true,
+  keyPrefix: true,
+  scopes: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+export function generateApiKey(): { key: string; keyPrefix: string; keyHash: string } {
+  const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return { key, keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashApiKey(key) };
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * The user requests made with a new key act as: the issuing admin when they
+ * belong to the organisation, otherwise its longest-standing active tenant
+ * admin. Null when the organisation has nobody to act as.
+ */
+export async function resolveActingUserId(
+  organizationId: string,
+  issuer: { userId: string; organizationId: string | null },
+): Promise<string | null> {
+  if (issuer.organizationId === organizationId) return issuer.userId;
+  const admin = await prisma.user.findFirst({
+    where: { organizationId, role: 'TENANT_ADMIN', isActive: true },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+  });
+  return admin?.id ?? null;
+}
+
+export interface ApiPrincipal {
+  keyId: string;
+  organizationId: string;
+  actingUserId: string;
+  scopes: ApiKeyScope[];
+}
+
+/**
+ * Resolve the request's API key (Authorization: Bearer or X-API-Key) and
+ * check it grants `scope`. Throws 401 for a missing, unknown, revoked or
+ * expired key or one whose acting user can no longer act for the
+ * organisation, and 403 for a missing scope.
+ */
+export async function authenticateApiKey(request: NextRequest, scope: ApiKeyScope): Promise<ApiPrincipal> {
+  const bearer = /^Bearer\s+(\S+)$/i.exec(request.headers.get('authorization') ?? '')?.[1];
+  const presented = bearer ?? request.headers.get('x-api-key')?.trim();
+  if (!presented || !presented.startsWith(KEY_PREFIX)) {
+    throw new ApiError('API key required', 401);
+  }
+
+  const key = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(presented) },
+    select: {
+      id: true,
+      organizationId: true,
+      actingUserId: true,
+      scopes: true,
+      expiresAt: true,
+      revokedAt: true,
+      actingUser: { select: { isActive: true, role: true, organizationId: true } },
+    },
+  });
+  if (!key || key.revokedAt || (key.expiresAt && key.expiresAt <= new Date())) {
+    throw new ApiError('Invalid, revoked or expired API key', 401);
+  }
+  const actor = key.actingUser;
+  if (!actor.isActive || !ACTING_ROLES.has(actor.role) || actor.organizationId !== key.organizationId) {
+    throw new ApiError('The user this API key acts as is no longer active or authorised', 401);
+  }
+  if (!key.scopes.includes(scope)) {
+    throw new ApiError(`API key lacks the ${scope} scope`, 403);
+  }
+
+  prisma.apiKey.update({ where: { id: key.id }, data: { lastUsedAt: new Date() } })
+    .catch((err) => console.error('[API] Failed to record key use:', err));
+
+  return {
+    keyId: key.id,
+    organizationId: key.organizationId,
+    actingUserId: key.actingUserId,
+    scopes: key.scopes.filter(isApiKeyScope),
+  };
+}
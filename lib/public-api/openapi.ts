@@ -0,0 +1,250 @@
+/**
+ * OpenAPI 3.1 document for /api/v1, served at /api/v1/openapi.json.
+ *
+ * Request bodies are generated from the same zod schemas in
+ * lib/validation/schemas.ts that the routes validate with, so the spec
+ * cannot drift from what the API accepts. Response shapes are described
+ * with zod here for the same reason.
+ */
+
+import { z } from 'zod';
+import {
+  BulkCreateParticipantsSchema,
+  CreateWorkshopSchema,
+  MAX_BULK_PARTICIPANTS,
+} from '@/lib/validation/schemas';
+import { API_KEY_SCOPE_LABELS, type ApiKeyScope } from './scopes';
+import { apiRequestsPerMinute } from './handler';
+
+export const API_VERSION = '1.0.0';
+
+// ══════════════════════════════════════════════════════════════
+// RESPONSE SHAPES
+// ══════════════════════════════════════════════════════════════
+
+const timestamp = z.string().datetime();
+
+const ErrorResponse = z.object({
+  error: z.string(),
+  details: z.record(z.string(), z.array(z.string())).optional().describe('Field errors for invalid input'),
+});
+
+const WorkshopSummary = z.object({
+  id: z.string(),
+  name: z.string(),
+  workshopType: z.string(),
+  status: z.string(),
+  clientName: z.string().nullable(),
+  industry: z.string().nullable(),
+  scheduledDate: timestamp.nullable(),
+  responseDeadline: timestamp.nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+const WorkshopList = z.object({
+  workshops: z.array(WorkshopSummary.extend({ participantCount: z.number().int() })),
+  pagination: z.object({
+    page: z.number().int(),
+    limit: z.number().int(),
+    total: z.number().int(),
+    hasMore: z.boolean(),
+  }),
+});
+
+const WorkshopDetail = WorkshopSummary.extend({
+  description: z.string().nullable(),
+  businessContext: z.string().nullable(),
+  participantCount: z.number().int(),
+  completedCount: z.number().int().describe('Participants who finished their discovery conversation'),
+});
+
+const Participant = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.string(),
+  role: z.string().nullable(),
+  department: z.string().nullable(),
+  responseCompletedAt: timestamp.nullable(),
+  createdAt: timestamp,
+  discoveryUrl: z.string().describe("The participant's personal discovery conversation link"),
+});
+
+const BulkParticipantsResult = z.object({
+  created: z.array(Participant),
+  skipped: z.array(z.object({ email: z.string(), reason: z.literal('duplicate') })),
+});
+
+const WorkshopOutputs = z.object({
+  workshopId: z.string(),
+  outputIntelligence: z.record(z.string(), z.unknown()).nullable()
+    .describe('Output intelligence (strategic impact, discovery validation, roadmap, …); null until generated'),
+  v2Output: z.record(z.string(), z.unknown()).nullable()
+    .describe('Synthesised output: discover, reimagine, constraints, pathForward, outcomes, futureView'),
+  scratchpad: z.object({
+    status: z.string(),
+    publishedAt: timestamp.nullable(),
+    updatedAt: timestamp,
+  }).nullable(),
+});
+
+const EvidenceUploadResult = z.object({
+  documents: z.array(z.object({
+    id: z.string(),
+    fileName: z.string(),
+    status: z.enum(['ready', 'failed']),
+    error: z.string().optional(),
+  })),
+});
+
+// ══════════════════════════════════════════════════════════════
+// DOCUMENT
+// ══════════════════════════════════════════════════════════════
+
+type JsonSchema = Record<string, unknown>;
+
+function toSchema(schema: z.ZodType, io: 'input' | 'output'): JsonSchema {
+  const { $schema: _ignored, ...jsonSchema } = z.toJSONSchema(schema, { io, unrepresentable: 'any' }) as JsonSchema;
+  return jsonSchema;
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+function json(schemaName: string, description: string) {
+  return { description, content: { 'application/json': { schema: ref(schemaName) } } };
+}
+
+const ERROR_RESPONSES = {
+  400: json('Error', 'Invalid input'),
+  401: json('Error', 'Missing, invalid, revoked or expired API key'),
+  403: json('Error', 'The API key lacks the required scope'),
+  429: {
+    ...json('Error', 'Rate limit exceeded'),
+    headers: { 'Retry-After': { schema: { type: 'integer' }, description: 'Seconds until the window resets' } },
+  },
+};
+
+const NOT_FOUND = { 404: json('Error', 'Workshop not found in this organisation') };
+
+const workshopIdParam = {
+  name: 'workshopId',
+  in: 'path',
+  required: true,
+  schema: { type: 'string' },
+};
+
+function operation(scope: ApiKeyScope, spec: JsonSchema): JsonSchema {
+  return {
+    ...spec,
+    description: `${spec.description ?? ''}\n\nRequires the \`${scope}\` scope (${API_KEY_SCOPE_LABELS[scope]}).`.trim(),
+    security: [{ apiKey: [scope] }],
+    'x-required-scope': scope,
+  };
+}
+
+export function buildOpenApiDocument(serverUrl: string): JsonSchema {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'DREAM Discovery API',
+      version: API_VERSION,
+      description: [
+        'Create workshops, load participants, upload evidence and pull workshop outputs.',
+        '',
+        'Authenticate with an organisation API key: `Authorization: Bearer dk_live_…` (or `X-API-Key`).',
+        'Keys are issued by organisation admins and carry scopes; each operation lists the scope it needs.',
+        `Each key may make ${apiRequestsPerMinute()} requests a minute. Every response carries`,
+        '`X-RateLimit-Limit`, `X-RateLimit-Remaining` and `X-RateLimit-Reset` (epoch ms).',
+        '',
+        'Participant-derived outputs are redacted according to each participant\'s attribution preference.',
+      ].join('\n'),
+    },
+    servers: [{ url: `${serverUrl.replace(/\/+$/, '')}/api/v1` }],
+    paths: {
+      '/workshops': {
+        get: operation('workshops:read', {
+          operationId: 'listWorkshops',
+          summary: "List the organisation's workshops",
+          parameters: [
+            { name: 'page', in: 'query', schema: { type: 'integer', minimum: 1, default: 1 } },
+            { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 } },
+          ],
+          responses: { 200: json('WorkshopList', 'A page of workshops'), ...ERROR_RESPONSES },
+        }),
+        post: operation('workshops:write', {
+          operationId: 'createWorkshop',
+          summary: 'Create a workshop',
+          description: 'The domain pack and runtime blueprint are resolved from industry, engagement type and DREAM track, as in the admin UI.',
+          requestBody: { required: true, content: { 'application/json': { schema: ref('CreateWorkshop') } } },
+          responses: { 201: json('WorkshopDetail', 'The created workshop'), ...ERROR_RESPONSES },
+        }),
+      },
+      '/workshops/{workshopId}': {
+        get: operation('workshops:read', {
+          operationId: 'getWorkshop',
+          summary: 'Get a workshop',
+          parameters: [workshopIdParam],
+          responses: { 200: json('WorkshopDetail', 'The workshop'), ...ERROR_RESPONSES, ...NOT_FOUND },
+        }),
+      },
+      '/workshops/{workshopId}/participants': {
+        post: operation('participants:write', {
+          operationId: 'bulkAddParticipants',
+          summary: 'Add participants in bulk',
+          description: `Up to ${MAX_BULK_PARTICIPANTS} participants per request. Emails already in the workshop are skipped, so a batch can be re-sent safely.`,
+          parameters: [workshopIdParam],
+          requestBody: { required: true, content: { 'application/json': { schema: ref('BulkCreateParticipants') } } },
+          responses: { 200: json('BulkParticipantsResult', 'Created and skipped participants'), ...ERROR_RESPONSES, ...NOT_FOUND },
+        }),
+      },
+      '/workshops/{workshopId}/outputs': {
+        get: operation('outputs:read', {
+          operationId: 'getWorkshopOutputs',
+          summary: 'Get output intelligence and the synthesised v2 output',
+          parameters: [workshopIdParam],
+          responses: { 200: json('WorkshopOutputs', 'Workshop outputs'), ...ERROR_RESPONSES, ...NOT_FOUND },
+        }),
+      },
+      '/workshops/{workshopId}/evidence': {
+        post: operation('evidence:write', {
+          operationId: 'uploadEvidence',
+          summary: 'Upload evidence documents',
+          description: 'PDF, Office (docx, xlsx, pptx), CSV, text and image files. Each file is extracted and indexed before the response returns.',
+          parameters: [workshopIdParam],
+          requestBody: {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  properties: { files: { type: 'array', items: { type: 'string', format: 'binary' } } },
+                  required: ['files'],
+                },
+              },
+            },
+          },
+          responses: { 200: json('EvidenceUploadResult', 'Per-file ingestion results'), ...ERROR_RESPONSES, ...NOT_FOUND },
+        }),
+      },
+    },
+    components: {
+      securitySchemes: {
+        apiKey: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'Organisation API key (dk_live_…). Also accepted in the X-API-Key header.',
+        },
+      },
+      schemas: {
+        CreateWorkshop: toSchema(CreateWorkshopSchema, 'input'),
+        BulkCreateParticipants: toSchema(BulkCreateParticipantsSchema, 'input'),
+        Error: toSchema(ErrorResponse, 'output'),
+        WorkshopList: toSchema(WorkshopList, 'output'),
+        WorkshopDetail: toSchema(WorkshopDetail, 'output'),
+        BulkParticipantsResult: toSchema(BulkParticipantsResult, 'output'),
+        WorkshopOutputs: toSchema(WorkshopOutputs, 'output'),
+        EvidenceUploadResult: toSchema(EvidenceUploadResult, 'output'),
+      },
+    },
+  };
+}
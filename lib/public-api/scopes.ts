@@ -0,0 +1,26 @@
+/**
+ * Scopes an organisation can grant a public API key. Each /api/v1 operation
+ * requires exactly one; a key with no matching scope gets a 403.
+ */
+
+export const API_KEY_SCOPES = [
+  'workshops:read',
+  'workshops:write',
+  'participants:write',
+  'outputs:read',
+  'evidence:write',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  'workshops:read': 'Read workshops',
+  'workshops:write': 'Create workshops',
+  'participants:write': 'Add participants',
+  'outputs:read': 'Read outputs (intelligence and synthesis)',
+  'evidence:write': 'Upload evidence',
+};
+
+export function isApiKeyScope(value: string): value is ApiKeyScope {
+  return (API_KEY_SCOPES as readonly string[]).includes(value);
+}
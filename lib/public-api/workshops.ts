@@ -0,0 +1,170 @@
+/**
+ * Workshop data for the public API.
+ *
+ * Every lookup is scoped to the key's organisation; a workshop of another
+ * organisation (including the shared example workshops) is a 404, never a
+ * 403, so ids cannot be probed. Outputs go through the participant
+ * redaction layer exactly as the admin exports do.
+ */
+
+import type { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { loadParticipantRedactor } from '@/lib/compliance/participant-redaction';
+import { decryptTenantRecords, decryptWorkshopData, encryptParticipantData } from '@/lib/workshop-encryption';
+import type { CreateParticipantSchema } from '@/lib/validation/schemas';
+import { ApiError, type ApiPrincipal } from './keys';
+
+const MAX_PAGE_SIZE = 100;
+
+const WORKSHOP_SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  workshopType: true,
+  status: true,
+  clientName: true,
+  industry: true,
+  scheduledDate: true,
+  responseDeadline: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+const PARTICIPANT_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  department: true,
+  discoveryToken: true,
+  responseCompletedAt: true,
+  createdAt: true,
+} as const;
+
+function appUrl(): string {
+  return (
+    process.env.NEXT_PUBLIC_APP_URL ||
+    (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'http://localhost:3000')
+  ).replace(/\/+$/, '');
+}
+
+/** Throws a 404 ApiError unless the workshop belongs to the key's organisation */
+export async function requireApiWorkshop(principal: ApiPrincipal, workshopId: string): Promise<{ id: string }> {
+  const workshop = await prisma.workshop.findFirst({
+    where: { id: workshopId, organizationId: principal.organizationId },
+    select: { id: true },
+  });
+  if (!workshop) throw new ApiError('Workshop not found', 404);
+  return workshop;
+}
+
+export async function listApiWorkshops(principal: ApiPrincipal, options: { page?: number; limit?: number } = {}) {
+  const page = Math.max(1, Math.floor(options.page || 1));
+  const limit = Math.min(Math.max(1, Math.floor(options.limit || 20)), MAX_PAGE_SIZE);
+  const where = { organizationId: principal.organizationId };
+
+  const [total, workshops] = await Promise.all([
+    prisma.workshop.count({ where }),
+    prisma.workshop.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+      select: { ...WORKSHOP_SUMMARY_SELECT, _count: { select: { participants: true } } },
+    }),
+  ]);
+
+  return {
+    workshops: workshops.map(({ _count, ...workshop }) => ({ ...workshop, participantCount: _count.participants })),
+    pagination: { page, limit, total, hasMore: page * limit < total },
+  };
+}
+
+export async function getApiWorkshop(principal: ApiPrincipal, workshopId: string) {
+  const workshop = await prisma.workshop.findFirst({
+    where: { id: workshopId, organizationId: principal.organizationId },
+    select: { ...WORKSHOP_SUMMARY_SELECT, description: true, businessContext: true },
+  });
+  if (!workshop) throw new ApiError('Workshop not found', 404);
+
+  const [participantCount, completedCount] = await Promise.all([
+    prisma.workshopParticipant.count({ where: { workshopId } }),
+    prisma.workshopParticipant.count({ where: { workshopId, responseCompletedAt: { not: null } } }),
+  ]);
+
+  return { ...(await decryptWorkshopData(workshop)), participantCount, completedCount };
+}
+
+type ParticipantInput = z.infer<typeof CreateParticipantSchema>;
+
+function toApiParticipant(
+  workshopId: string,
+  participant: { id: string; name: string; email: string; role: string | null; department: string | null; discoveryToken: string; responseCompletedAt: Date | null; createdAt: Date },
+) {
+  const { discoveryToken, ...rest } = participant;
+  return { ...rest, discoveryUrl: `${appUrl()}/discovery/${workshopId}/${discoveryToken}` };
+}
+
+/**
+ * Add participants in one transaction. Emails already in the workshop, or
+ * repeated within the batch, are skipped rather than failing the batch, so a
+ * client can safely re-send a list after a timeout.
+ */
+export async function bulkAddApiParticipants(workshopId: string, participants: ParticipantInput[]) {
+  const existing = await prisma.workshopParticipant.findMany({
+    where: { workshopId },
+    select: { email: true },
+  });
+  // Emails may be encrypted at rest, so compare decrypted values
+  const seen = new Set(
+    (await decryptTenantRecords('workshopParticipant', existing)).map((p) => p.email.toLowerCase()),
+  );
+
+  const toCreate: ParticipantInput[] = [];
+  const skipped: Array<{ email: string; reason: 'duplicate' }> = [];
+  for (const participant of participants) {
+    const key = participant.email.toLowerCase();
+    if (seen.has(key)) {
+      skipped.push({ email: participant.email, reason: 'duplicate' });
+      continue;
+    }
+    seen.add(key);
+    toCreate.push(participant);
+  }
+
+  const rows = await Promise.all(toCreate.map(({ name, email, role, department }) =>
+    encryptParticipantData({
+      workshopId,
+      name,
+      email,
+      role: role || null,
+      department: department || null,
+    }, { workshopId }),
+  ));
+  const created = rows.length > 0
+    ? await prisma.$transaction(rows.map((data) => prisma.workshopParticipant.create({ data, select: PARTICIPANT_SELECT })))
+    : [];
+
+  const decrypted = await decryptTenantRecords('workshopParticipant', created);
+  return { created: decrypted.map((p) => toApiParticipant(workshopId, p)), skipped };
+}
+
+/** Output intelligence and the synthesised v2 output, redacted for participants */
+export async function getApiWorkshopOutputs(workshopId: string) {
+  const [workshop, scratchpad, redactor] = await Promise.all([
+    prisma.workshop.findUnique({ where: { id: workshopId }, select: { outputIntelligence: true } }),
+    prisma.workshopScratchpad.findUnique({
+      where: { workshopId },
+      select: { v2Output: true, status: true, publishedAt: true, updatedAt: true },
+    }),
+    loadParticipantRedactor(workshopId),
+  ]);
+
+  return {
+    workshopId,
+    outputIntelligence: workshop?.outputIntelligence ? redactor.redact(workshop.outputIntelligence) : null,
+    v2Output: scratchpad?.v2Output ? redactor.redact(scratchpad.v2Output) : null,
+    scratchpad: scratchpad
+      ? { status: scratchpad.status, publishedAt: scratchpad.publishedAt, updatedAt: scratchpad.updatedAt }
+      : null,
+  };
+}
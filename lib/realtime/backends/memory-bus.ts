@@ -0,0 +1,89 @@
+/**
+ * In-process bus and the local fan-out shared by every backend.
+ *
+ * Remote backends deliver to local subscribers immediately on publish and
+ * again when their own message echoes back from Postgres / Redis, so the
+ * fan-out drops event ids it has delivered recently.
+ */
+
+import type {
+  RealtimeBusBackend,
+  RealtimeBusEvent,
+  RealtimeBusName,
+  RealtimeListener,
+  RealtimeStream,
+} from '../event-bus';
+
+const RECENT_ID_LIMIT = 2_000;
+
+export function channelKey(stream: RealtimeStream, workshopId: string): string {
+  return `${stream}:${workshopId}`;
+}
+
+export class LocalFanout {
+  private readonly listeners = new Map<string, Set<RealtimeListener>>();
+  private readonly recentIds = new Set<string>();
+
+  /** Returns true when this is the first subscriber for the channel. */
+  add(key: string, listener: RealtimeListener): boolean {
+    const set = this.listeners.get(key) ?? new Set<RealtimeListener>();
+    const first = set.size === 0;
+    set.add(listener);
+    this.listeners.set(key, set);
+    return first;
+  }
+
+  /** Returns true when the channel has no subscribers left. */
+  remove(key: string, listener: RealtimeListener): boolean {
+    const set = this.listeners.get(key);
+    if (!set) return true;
+    set.delete(listener);
+    if (set.size > 0) return false;
+    this.listeners.delete(key);
+    return true;
+  }
+
+  has(key: string): boolean {
+    return this.listeners.has(key);
+  }
+
+  get size(): number {
+    return this.listeners.size;
+  }
+
+  emit(event: RealtimeBusEvent): void {
+    if (this.recentIds.has(event.id)) return;
+    this.recentIds.add(event.id);
+    if (this.recentIds.size > RECENT_ID_LIMIT) {
+      // Sets iterate in insertion order — drop the oldest id.
+      this.recentIds.delete(this.recentIds.values().next().value as string);
+    }
+
+    const set = this.listeners.get(channelKey(event.stream, event.workshopId));
+    if (!set || set.size === 0) return;
+    for (const listener of set) {
+      try {
+        listener(event);
+      } catch {
+        // ignore listener errors
+      }
+    }
+  }
+}
+
+export class MemoryRealtimeBus implements RealtimeBusBackend {
+  readonly name: RealtimeBusName = 'memory';
+  private readonly local = new LocalFanout();
+
+  async publish(event: RealtimeBusEvent): Promise<void> {
+    this.local.emit(event);
+  }
+
+  subscribe(stream: RealtimeStream, workshopId: string, listener: RealtimeListener): () => void {
+    const key = channelKey(stream, workshopId);
+    this.local.add(key, listener);
+    return () => {
+      this.local.remove(key, listener);
+    };
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Postgres LISTEN/NOTIFY bus.
+ *
+ * Publish runs pg_notify through Prisma. Each instance holds one dedicated
+ * `pg` connection that LISTENs while it has subscribers — LISTEN needs a
+ * session-level connection, so it uses DIRECT_DATABASE_URL when set (a
+ * transaction-mode pooler such as PgBouncer drops notifications).
+ *
+ * NOTIFY payloads are capped at 8000 bytes. Larger durable events are sent as
+ * a seq reference and re-read from the outbox by the receiving instance.
+ */
+
+import { Client } from 'pg';
+import { env } from '@/lib/env';
+import { prisma } from '@/lib/prisma';
+import { readOutboxEvent } from '../outbox';
+import { LocalFanout, channelKey } from './memory-bus';
+import type {
+  RealtimeBusBackend,
+  RealtimeBusEvent,
+  RealtimeBusName,
+  RealtimeListener,
+  RealtimeStream,
+} from '../event-bus';
+
+export const PG_NOTIFY_CHANNEL = 'dream_realtime';
+
+const MAX_NOTIFY_BYTES = 7_500;
+const RECONNECT_DELAY_MS = 2_000;
+
+type NotifyMessage = RealtimeBusEvent | { ref: true; seq: number; id: string };
+
+export class PostgresRealtimeBus implements RealtimeBusBackend {
+  readonly name: RealtimeBusName = 'postgres';
+  private readonly local = new LocalFanout();
+  private client: Client | null = null;
+  private connecting: Promise<void> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  async publish(event: RealtimeBusEvent): Promise<void> {
+    this.local.emit(event);
+
+    let message: NotifyMessage = event;
+    let body = JSON.stringify(message);
+    if (Buffer.byteLength(body) > MAX_NOTIFY_BYTES) {
+      if (event.seq === null) {
+        console.warn('[RealtimeBus:postgres] Ephemeral event too large to NOTIFY, delivered locally only:', event.type);
+        return;
+      }
+      message = { ref: true, seq: event.seq, id: event.id };
+      body = JSON.stringify(message);
+    }
+    await prisma.$executeRaw`SELECT pg_notify(${PG_NOTIFY_CHANNEL}, ${body})`;
+  }
+
+  subscribe(stream: RealtimeStream, workshopId: string, listener: RealtimeListener): () => void {
+    const key = channelKey(stream, workshopId);
+    this.local.add(key, listener);
+    void this.ensureListening();
+    return () => {
+      this.local.remove(key, listener);
+      if (this.local.size === 0) void this.stopListening();
+    };
+  }
+
+  private async handleNotification(raw: string | undefined): Promise<void> {
+    if (!raw) return;
+    let message: NotifyMessage;
+    try {
+      message = JSON.parse(raw) as NotifyMessage;
+    } catch {
+      return;
+    }
+
+    if ('ref' in message) {
+      const event = await readOutboxEvent(message.seq).catch(() => null);
+      if (event && this.local.has(channelKey(event.stream, event.workshopId))) this.local.emit(event);
+      return;
+    }
+    this.local.emit(message);
+  }
+
+  private ensureListening(): Promise<void> {
+    if (this.client) return Promise.resolve();
+    this.connecting ??= this.connect().finally(() => {
+      this.connecting = null;
+    });
+    return this.connecting;
+  }
+
+  private async connect(): Promise<void> {
+    const client = new Client({ connectionString: env.DIRECT_DATABASE_URL || env.DATABASE_URL });
+    client.on('notification', (msg) => {
+      if (msg.channel === PG_NOTIFY_CHANNEL) void this.handleNotification(msg.payload);
+    });
+    client.on('error', (err) => {
+      console.error('[RealtimeBus:postgres] LISTEN connection error:', err.message);
+      this.dropClient(client);
+      this.scheduleReconnect();
+    });
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${PG_NOTIFY_CHANNEL}`);
+      this.client = client;
+    } catch (err) {
+      console.error('[RealtimeBus:postgres] LISTEN failed:', err instanceof Error ? err.message : err);
+      this.dropClient(client);
+      this.scheduleReconnect();
+    }
+  }
+
+  private dropClient(client: Client): void {
+    if (this.client === client) this.client = null;
+    client.removeAllListeners();
+    void client.end().catch(() => {});
+  }
+
+  private scheduleReconnect(): void {
+    // SSE streams back-fill from the outbox, so a short gap here loses nothing durable.
+    if (this.reconnectTimer || this.local.size === 0) return;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.local.size > 0) void this.ensureListening();
+    }, RECONNECT_DELAY_MS);
+  }
+
+  private async stopListening(): Promise<void> {
+    await this.connecting;
+    if (this.local.size > 0 || !this.client) return;
+    const client = this.client;
+    this.client = null;
+    try {
+      await client.query(`UNLISTEN ${PG_NOTIFY_CHANNEL}`);
+    } catch {
+      // connection already gone
+    }
+    this.dropClient(client);
+  }
+}
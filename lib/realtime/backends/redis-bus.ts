@@ -0,0 +1,82 @@
+/**
+ * Redis pub/sub bus over Upstash.
+ *
+ * One Redis channel per workshop stream; an instance subscribes to a channel
+ * only while it has local subscribers for it. Uses the same
+ * UPSTASH_REDIS_REST_URL / UPSTASH_REDIS_REST_TOKEN pair as lib/rate-limit.ts.
+ */
+
+import { Redis } from '@upstash/redis';
+import { LocalFanout, channelKey } from './memory-bus';
+import type {
+  RealtimeBusBackend,
+  RealtimeBusEvent,
+  RealtimeBusName,
+  RealtimeListener,
+  RealtimeStream,
+} from '../event-bus';
+
+const CHANNEL_PREFIX = 'dream:realtime:';
+
+type Subscription = ReturnType<Redis['subscribe']>;
+
+export class RedisRealtimeBus implements RealtimeBusBackend {
+  readonly name: RealtimeBusName = 'redis';
+  private readonly local = new LocalFanout();
+  private readonly subscriptions = new Map<string, Subscription>();
+  private redis: Redis | null = null;
+
+  private getRedis(): Redis {
+    if (!this.redis) {
+      const url = process.env.UPSTASH_REDIS_REST_URL;
+      const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+      if (!url || !token) {
+        throw new Error('[RealtimeBus:redis] UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN are required');
+      }
+      this.redis = new Redis({ url, token });
+    }
+    return this.redis;
+  }
+
+  async publish(event: RealtimeBusEvent): Promise<void> {
+    this.local.emit(event);
+    await this.getRedis().publish(CHANNEL_PREFIX + channelKey(event.stream, event.workshopId), JSON.stringify(event));
+  }
+
+  subscribe(stream: RealtimeStream, workshopId: string, listener: RealtimeListener): () => void {
+    const key = channelKey(stream, workshopId);
+    if (this.local.add(key, listener)) this.openSubscription(key);
+    return () => {
+      if (this.local.remove(key, listener)) this.closeSubscription(key);
+    };
+  }
+
+  private openSubscription(key: string): void {
+    try {
+      const sub = this.getRedis().subscribe<string | RealtimeBusEvent>([CHANNEL_PREFIX + key]);
+      sub.on('message', ({ message }) => {
+        try {
+          const event = typeof message === 'string' ? (JSON.parse(message) as RealtimeBusEvent) : message;
+          this.local.emit(event);
+        } catch {
+          // malformed message
+        }
+      });
+      sub.on('error', (err) => {
+        console.error('[RealtimeBus:redis] Subscription error:', err.message);
+      });
+      this.subscriptions.set(key, sub);
+    } catch (err) {
+      // Local delivery still works; SSE streams back-fill remote events from the outbox.
+      console.error('[RealtimeBus:redis] Subscribe failed:', err instanceof Error ? err.message : err);
+    }
+  }
+
+  private closeSubscription(key: string): void {
+    const sub = this.subscriptions.get(key);
+    if (!sub) return;
+    this.subscriptions.delete(key);
+    sub.removeAllListeners();
+    void sub.unsubscribe().catch(() => {});
+  }
+}
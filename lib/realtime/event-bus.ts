@@ -0,0 +1,140 @@
+/**
+ * Realtime event bus for workshop and sales events.
+ *
+ * Events fan out to SSE subscribers through a pluggable backend so every
+ * instance sees every event, whichever instance emitted it:
+ *   memory   — single process; the original globalThis listener map (dev, tests)
+ *   postgres — NOTIFY on publish, LISTEN on one dedicated connection per instance
+ *   redis    — Upstash pub/sub (UPSTASH_REDIS_REST_URL / UPSTASH_REDIS_REST_TOKEN)
+ *
+ * Durable events are written to workshop_event_outbox before they are
+ * published. The outbox seq travels with the event and is the SSE event id,
+ * so a reconnecting client resumes from Last-Event-ID and the stream
+ * back-fills anything pub/sub dropped. Delivery is at-least-once — consumers
+ * dedupe on event id.
+ */
+
+import { nanoid } from 'nanoid';
+import { env } from '@/lib/env';
+import { appendOutboxEvent } from './outbox';
+import { MemoryRealtimeBus } from './backends/memory-bus';
+import { PostgresRealtimeBus } from './backends/postgres-bus';
+import { RedisRealtimeBus } from './backends/redis-bus';
+
+// ══════════════════════════════════════════════════════════════
+// TYPES
+// ══════════════════════════════════════════════════════════════
+
+export type RealtimeStream = 'workshop' | 'sales';
+
+export const REALTIME_BUS_NAMES = ['memory', 'postgres', 'redis'] as const;
+export type RealtimeBusName = (typeof REALTIME_BUS_NAMES)[number];
+
+export type RealtimeBusEvent = {
+  id: string;
+  /** Outbox cursor; null for ephemeral (non-durable) events. */
+  seq: number | null;
+  stream: RealtimeStream;
+  workshopId: string;
+  type: string;
+  createdAt: number;
+  payload: unknown;
+};
+
+export type RealtimeListener = (event: RealtimeBusEvent) => void;
+
+export interface RealtimeBusBackend {
+  readonly name: RealtimeBusName;
+  /** Delivers to local subscribers synchronously, then to other instances. */
+  publish(event: RealtimeBusEvent): Promise<void>;
+  subscribe(stream: RealtimeStream, workshopId: string, listener: RealtimeListener): () => void;
+}
+
+// ══════════════════════════════════════════════════════════════
+// BACKEND SELECTION
+// ══════════════════════════════════════════════════════════════
+
+const globalBus = globalThis as typeof globalThis & { __realtimeBus?: RealtimeBusBackend };
+
+function createBus(name: RealtimeBusName): RealtimeBusBackend {
+  switch (name) {
+    case 'postgres':
+      return new PostgresRealtimeBus();
+    case 'redis':
+      return new RedisRealtimeBus();
+    default:
+      return new MemoryRealtimeBus();
+  }
+}
+
+/** The process-wide bus, chosen by REALTIME_BUS (default memory). */
+export function getRealtimeBus(): RealtimeBusBackend {
+  globalBus.__realtimeBus ??= createBus(env.REALTIME_BUS ?? 'memory');
+  return globalBus.__realtimeBus;
+}
+
+/** Swap the bus (tests) or reset to the env-selected backend with null. */
+export function setRealtimeBus(bus: RealtimeBusBackend | null): void {
+  globalBus.__realtimeBus = bus ?? undefined;
+}
+
+// ══════════════════════════════════════════════════════════════
+// PUBLISH / SUBSCRIBE
+// ══════════════════════════════════════════════════════════════
+
+export type PublishInput = {
+  id?: string;
+  type: string;
+  createdAt?: number;
+  payload: unknown;
+};
+
+/**
+ * Publish an event. Durable events (the default) are written to the outbox
+ * first; if that write fails the event is still published, without a seq.
+ * Ephemeral events skip the outbox and reach local subscribers synchronously.
+ */
+export async function publishRealtimeEvent(
+  stream: RealtimeStream,
+  workshopId: string,
+  input: PublishInput,
+  options: { durable?: boolean } = {},
+): Promise<RealtimeBusEvent> {
+  const durable = options.durable ?? true;
+  const id = input.id || nanoid();
+  const event: RealtimeBusEvent = {
+    id,
+    seq: null,
+    stream,
+    workshopId,
+    type: input.type,
+    createdAt: input.createdAt ?? Date.now(),
+    payload: input.payload,
+  };
+
+  if (durable) {
+    try {
+      const row = await appendOutboxEvent(event);
+      event.seq = row.seq;
+      event.createdAt = row.createdAt;
+    } catch (e) {
+      console.error('[EventOutbox] Failed to persist:', input.type, e instanceof Error ? e.message : e);
+    }
+  }
+
+  try {
+    await getRealtimeBus().publish(event);
+  } catch (e) {
+    // Durable events are still recoverable from the outbox on the next catch-up.
+    console.error('[RealtimeBus] Publish failed:', input.type, e instanceof Error ? e.message : e);
+  }
+  return event;
+}
+
+export function subscribeRealtimeEvents(
+  stream: RealtimeStream,
+  workshopId: string,
+  listener: RealtimeListener,
+): () => void {
+  return getRealtimeBus().subscribe(stream, workshopId, listener);
+}
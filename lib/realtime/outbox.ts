@@ -0,0 +1,110 @@
+/**
+ * workshop_event_outbox access for the realtime bus.
+ *
+ * The outbox is the source of truth: seq is a global monotonic cursor, so
+ * "everything for this workshop stream after seq N" is one indexed range scan
+ * on (workshopId, stream, seq).
+ *
+ * seqs are allocated before commit, so a lower seq can become visible after a
+ * higher one. createdAt is the database clock at insert, and a reader only
+ * moves its cursor past rows older than OUTBOX_SETTLE_MS.
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { Prisma } from '@prisma/client';
+import type { RealtimeBusEvent, RealtimeStream } from './event-bus';
+
+export const OUTBOX_PAGE_SIZE = 200;
+export const OUTBOX_SETTLE_MS = 5_000;
+
+type OutboxRow = {
+  id: string;
+  seq: number;
+  workshopId: string;
+  stream: string;
+  type: string;
+  payload: Prisma.JsonValue;
+  createdAt: Date;
+};
+
+function toBusEvent(row: OutboxRow): RealtimeBusEvent {
+  return {
+    id: row.id,
+    seq: row.seq,
+    stream: row.stream as RealtimeStream,
+    workshopId: row.workshopId,
+    type: row.type,
+    createdAt: row.createdAt.getTime(),
+    payload: row.payload,
+  };
+}
+
+/** Insert the event; createdAt is left to the database default so it tracks seq allocation. */
+export async function appendOutboxEvent(event: RealtimeBusEvent): Promise<{ seq: number; createdAt: number }> {
+  const row = await prisma.workshopEventOutbox.create({
+    data: {
+      id: event.id,
+      workshopId: event.workshopId,
+      stream: event.stream,
+      type: event.type,
+      payload: (event.payload ?? null) as Prisma.InputJsonValue,
+    },
+    select: { seq: true, createdAt: true },
+  });
+  return { seq: row.seq, createdAt: row.createdAt.getTime() };
+}
+
+/**
+ * The cursor a reader can resume after once it has seen `events`: the highest
+ * seq among settled rows, never below `afterSeq`. Unsettled rows are still
+ * delivered, so readers dedup by event id.
+ */
+export function settledOutboxCursor(
+  events: Array<Pick<RealtimeBusEvent, 'seq' | 'createdAt'>>,
+  afterSeq: number,
+  now = Date.now(),
+): number {
+  const settledBefore = now - OUTBOX_SETTLE_MS;
+  let cursor = afterSeq;
+  for (const event of events) {
+    if (event.seq !== null && event.seq > cursor && event.createdAt <= settledBefore) cursor = event.seq;
+  }
+  return cursor;
+}
+
+/** Events on a workshop stream with seq > afterSeq, oldest first. */
+export async function readOutboxEvents(params: {
+  stream: RealtimeStream;
+  workshopId: string;
+  afterSeq: number;
+  types?: string[];
+  limit?: number;
+}): Promise<RealtimeBusEvent[]> {
+  const rows = await prisma.workshopEventOutbox.findMany({
+    where: {
+      workshopId: params.workshopId,
+      stream: params.stream,
+      seq: { gt: params.afterSeq },
+      ...(params.types?.length ? { type: { in: params.types } } : {}),
+    },
+    orderBy: { seq: 'asc' },
+    take: Math.min(params.limit ?? OUTBOX_PAGE_SIZE, OUTBOX_PAGE_SIZE),
+  });
+  return rows.map(toBusEvent);
+}
+
+/** Highest seq on a workshop stream, or 0 when it has no events yet. */
+export async function latestOutboxSeq(stream: RealtimeStream, workshopId: string): Promise<number> {
+  const row = await prisma.workshopEventOutbox.findFirst({
+    where: { workshopId, stream },
+    orderBy: { seq: 'desc' },
+    select: { seq: true },
+  });
+  return row?.seq ?? 0;
+}
+
+/** A single event by seq — used when a pub/sub message only carried a reference. */
+export async function readOutboxEvent(seq: number): Promise<RealtimeBusEvent | null> {
+  const row = await prisma.workshopEventOutbox.findUnique({ where: { seq } });
+  return row ? toBusEvent(row) : null;
+}
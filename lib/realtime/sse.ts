@@ -0,0 +1,165 @@
+/**
+ * Resumable SSE over the realtime bus.
+ *
+ * Durable events carry `id: <outbox seq>`, so EventSource sends Last-Event-ID
+ * when it reconnects and the stream replays the outbox from there before
+ * going live. Live events that arrive during the replay are buffered and
+ * de-duplicated against it.
+ *
+ * Pub/sub is best-effort, so the stream also re-reads the outbox on every
+ * heartbeat and sends anything it has not delivered yet. Rows younger than
+ * OUTBOX_SETTLE_MS do not advance the catch-up cursor: seqs are allocated
+ * before commit, so a lower seq can still become visible after a higher one.
+ * For the same reason an `id:` line never goes past that cursor. Live events
+ * are sent without one, and once the cursor has settled past them an id-only
+ * frame (no data, so nothing is dispatched) moves Last-Event-ID forward.
+ */
+
+import { latestOutboxSeq, readOutboxEvents, settledOutboxCursor } from './outbox';
+import { subscribeRealtimeEvents, type RealtimeBusEvent, type RealtimeStream } from './event-bus';
+
+const HEARTBEAT_MS = 15_000;
+const RETRY_MS = 3_000;
+const SENT_ID_LIMIT = 5_000;
+
+/** Last-Event-ID header (EventSource reconnect) or ?lastEventId= (first connect). */
+export function readLastEventId(request: Request): number | null {
+  const raw = request.headers.get('last-event-id') ?? new URL(request.url).searchParams.get('lastEventId');
+  if (!raw) return null;
+  const seq = Number.parseInt(raw, 10);
+  return Number.isFinite(seq) && seq >= 0 ? seq : null;
+}
+
+export type RealtimeEventStreamOptions = {
+  stream: RealtimeStream;
+  workshopId: string;
+  /** Resume after this outbox seq; null starts live-only. */
+  lastEventId: number | null;
+  signal: AbortSignal;
+  /** Data for the initial `open` event. */
+  openPayload?: unknown;
+  /** Shape of each event's `data:` JSON. Defaults to { id, seq, type, createdAt, payload }. */
+  serialize?: (event: RealtimeBusEvent) => unknown;
+};
+
+const defaultSerialize = (e: RealtimeBusEvent) => ({
+  id: e.id,
+  seq: e.seq,
+  type: e.type,
+  createdAt: e.createdAt,
+  payload: e.payload,
+});
+
+export function createRealtimeEventStream(options: RealtimeEventStreamOptions): ReadableStream<Uint8Array> {
+  const { stream, workshopId, lastEventId, signal } = options;
+  const serialize = options.serialize ?? defaultSerialize;
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const write = (text: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          closed = true;
+        }
+      };
+
+      const sentIds = new Set<string>();
+      let cursor = lastEventId;
+      /** Highest seq written as an `id:` line; never past the settled cursor. */
+      let announced = lastEventId ?? 0;
+      let replaying = true;
+      const buffered: RealtimeBusEvent[] = [];
+
+      /** `settledThrough` is the cursor the event may be announced up to. */
+      const send = (event: RealtimeBusEvent, settledThrough = 0) => {
+        if (sentIds.has(event.id)) return;
+        sentIds.add(event.id);
+        if (sentIds.size > SENT_ID_LIMIT) sentIds.delete(sentIds.values().next().value as string);
+        let idLine = '';
+        if (event.seq !== null && event.seq > announced && event.seq <= settledThrough) {
+          idLine = `id: ${event.seq}\n`;
+          announced = event.seq;
+        }
+        write(`${idLine}event: ${event.type}\ndata: ${JSON.stringify(serialize(event))}\n\n`);
+      };
+
+      /** Send outbox rows after `cursor`; advance it only past settled rows. */
+      const readFromCursor = async () => {
+        if (cursor === null) return;
+        const now = Date.now();
+        for (;;) {
+          const page = await readOutboxEvents({ stream, workshopId, afterSeq: cursor });
+          const next = settledOutboxCursor(page, cursor, now);
+          for (const event of page) send(event, next);
+          const advanced = next > cursor;
+          cursor = next;
+          if (page.length === 0 || !advanced || closed) break;
+        }
+        // Rows already sent live (or de-duplicated above) went out without an id.
+        if (cursor > announced) {
+          write(`id: ${cursor}\n\n`);
+          announced = cursor;
+        }
+      };
+
+      // Heartbeats must not overlap the replay or each other: both move `cursor`.
+      let inFlight: Promise<void> | null = null;
+      const catchUp = () => {
+        inFlight ??= readFromCursor().finally(() => {
+          inFlight = null;
+        });
+        return inFlight;
+      };
+
+      const unsubscribe = subscribeRealtimeEvents(stream, workshopId, (event) => {
+        if (replaying) buffered.push(event);
+        else send(event);
+      });
+
+      const heartbeat = setInterval(() => {
+        // Comment line keeps some proxies from closing the connection.
+        write(`: ping\n\n`);
+        void catchUp().catch((err) => {
+          console.warn('[RealtimeSSE] Outbox catch-up failed:', err instanceof Error ? err.message : err);
+        });
+      }, HEARTBEAT_MS);
+
+      const onAbort = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        closed = true;
+        try {
+          controller.close();
+        } catch {
+          // ignore
+        }
+      };
+
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort);
+
+      // Initial event so the client knows the stream is alive.
+      write(`retry: ${RETRY_MS}\n`);
+      write(`event: open\ndata: ${JSON.stringify(options.openPayload ?? {})}\n\n`);
+
+      try {
+        // A fresh (live-only) stream catches up from the current head of the outbox.
+        // The head may not be settled yet, so it is not announced as an id.
+        if (cursor === null) cursor = announced = await latestOutboxSeq(stream, workshopId);
+        await catchUp();
+      } catch (err) {
+        console.warn('[RealtimeSSE] Replay failed:', err instanceof Error ? err.message : err);
+      }
+
+      replaying = false;
+      for (const event of buffered.splice(0)) send(event);
+    },
+  });
+}
@@ -0,0 +1,649 @@
+/**
+ * lib/report/docx-renderers.ts
+ *
+ * Word (DOCX) export of the Download Report, for client governance teams who
+ * comment on the report and merge it into their own papers.
+ *
+ * Walks the same ReportLayout / ReportSectionConfig model as buildReportHtml —
+ * order, enabled sections, excluded items and custom sections all carry over —
+ * but builds a native document with the docx package:
+ *   - Word heading styles (chapters Heading 1, sections Heading 1/2,
+ *     sub-blocks Heading 3) and a table of contents over them
+ *   - native tables for the roadmap, ROI, root causes and constraints
+ *   - chart images rendered by the caller from the PDF's SVG charts
+ *   - participant evidence quotes as footnotes
+ *   - organisation colours, fonts and logo (lib/report/pptx-template.ts theme)
+ *
+ * Track changes is switched on, so edits made by reviewers stay visible.
+ * Sections with no document layout are reported back in `skippedSections`.
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  FootnoteReferenceRun,
+  Header,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  PageBreak,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableOfContents,
+  TableRow,
+  TextRun,
+  WidthType,
+  type ParagraphChild,
+} from 'docx';
+import type { ReportSectionConfig } from '@/lib/output-intelligence/types';
+import type { DeckTheme } from './pptx-template';
+import { dedupeBy, dedupeStrings } from './dedup-utils';
+import {
+  isExcluded,
+  renderPdfRoadmapGantt,
+  renderTLMGraph,
+  type ReportHtmlBody,
+} from './html-renderers';
+
+// A4 with 2cm margins: 9638 twips (~6.7") of text width; images are sized in px at 96dpi
+const TEXT_WIDTH_TWIPS = 9638;
+const MAX_IMAGE_W = 600;
+
+export type DocxChartId = 'roadmap_gantt' | 'tlm_graph';
+
+export interface DocxImage {
+  data: Buffer;
+  type: 'png' | 'jpg';
+  /** Natural size in px */
+  width: number;
+  height: number;
+}
+
+export interface DocxReportOptions {
+  theme: DeckTheme;
+  logo?: DocxImage | null;
+  /** PNG renders of the chart fragments from docxChartFragments() */
+  charts?: Partial<Record<DocxChartId, DocxImage>>;
+}
+
+export interface DocxReport {
+  buffer: Buffer;
+  /** Enabled sections with no document layout, by title */
+  skippedSections: string[];
+}
+
+type Block = Paragraph | Table;
+type CellContent = string | ParagraphChild[];
+
+interface DocxContext {
+  theme: DeckTheme;
+  charts: Partial<Record<DocxChartId, DocxImage>>;
+  /** Adds a footnote and returns its reference mark */
+  cite: (quote: string, source?: string) => FootnoteReferenceRun;
+}
+
+// ── Charts ────────────────────────────────────────────────────────────────────
+
+/**
+ * HTML fragments (the PDF's own SVG charts) that the caller should render to
+ * PNG and pass back as `charts`. Only charts of enabled sections are listed.
+ */
+export function docxChartFragments(body: ReportHtmlBody): Array<{ id: DocxChartId; html: string }> {
+  const enabled = new Set(body.layout.sections.filter((s) => s.enabled).map((s) => s.id));
+  const fragments: Array<{ id: DocxChartId; html: string }> = [];
+  if (enabled.has('way_forward') && body.intelligence.roadmap) {
+    const html = renderPdfRoadmapGantt(body.intelligence.roadmap);
+    if (html) fragments.push({ id: 'roadmap_gantt', html });
+  }
+  if (enabled.has('transformation_priorities')) {
+    const html = renderTLMGraph(body.intelligence.transformationLogicMap);
+    if (html) fragments.push({ id: 'tlm_graph', html });
+  }
+  return fragments;
+}
+
+/** Pixel size of a PNG or JPEG, or null for anything else */
+export function readImageSize(data: Buffer): { type: 'png' | 'jpg'; width: number; height: number } | null {
+  if (data.length > 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { type: 'png', width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+  if (data.length > 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { type: 'jpg', width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+  }
+  return null;
+}
+
+/** Decode a data: URI image (custom sections); remote images are not fetched */
+function imageFromDataUri(uri: string | undefined): DocxImage | null {
+  const match = uri ? /^data:image\/[a-z+]+;base64,(.+)$/i.exec(uri) : null;
+  if (!match) return null;
+  const data = Buffer.from(match[1], 'base64');
+  const size = readImageSize(data);
+  return size ? { data, ...size } : null;
+}
+
+function image(img: DocxImage, name: string, maxWidth = MAX_IMAGE_W): Paragraph {
+  const width = Math.min(img.width, maxWidth);
+  const height = Math.round(img.height * (width / img.width));
+  return new Paragraph({
+    alignment: AlignmentType.CENTER,
+    spacing: { before: 120, after: 200 },
+    children: [new ImageRun({
+      type: img.type,
+      data: img.data,
+      transformation: { width, height },
+      altText: { name, title: name, description: name },
+    })],
+  });
+}
+
+// ── Building blocks ───────────────────────────────────────────────────────────
+
+function para(text: string, opts: { bold?: boolean; italic?: boolean; color?: string } = {}): Paragraph {
+  return new Paragraph({ spacing: { after: 120 }, children: [new TextRun({ text, ...opts })] });
+}
+
+function labelled(ctx: DocxContext, label: string, text: string | undefined): Paragraph[] {
+  if (!text) return [];
+  return [new Paragraph({
+    spacing: { after: 120 },
+    children: [new TextRun({ text: `${label}: `, bold: true, color: ctx.theme.primary }), new TextRun(text)],
+  })];
+}
+
+function heading(text: string, level: (typeof HeadingLevel)[keyof typeof HeadingLevel], pageBreakBefore = false): Paragraph {
+  return new Paragraph({ text, heading: level, pageBreakBefore });
+}
+
+function bulletList(items: Array<string | ParagraphChild[]>, numbered = false): Paragraph[] {
+  return items.map((item) => new Paragraph({
+    ...(numbered ? { numbering: { reference: 'report-numbered', level: 0 } } : { bullet: { level: 0 } }),
+    spacing: { after: 80 },
+    children: typeof item === 'string' ? [new TextRun(item)] : item,
+  }));
+}
+
+function cell(content: CellContent, opts: { header?: boolean; theme: DeckTheme; width: number }): TableCell {
+  const children = typeof content === 'string' ? [new TextRun({ text: content, bold: opts.header, color: opts.header ? 'FFFFFF' : undefined })] : content;
+  return new TableCell({
+    width: { size: opts.width, type: WidthType.DXA },
+    margins: { top: 60, bottom: 60, left: 100, right: 100 },
+    shading: opts.header ? { type: ShadingType.CLEAR, color: 'auto', fill: opts.theme.primary } : undefined,
+    children: [new Paragraph({ children })],
+  });
+}
+
+/** Native table with a repeating, brand-shaded header row; widths are percentages */
+function table(ctx: DocxContext, headers: string[], rows: CellContent[][], percentages: number[]): Table {
+  const widths = percentages.map((p) => Math.round((TEXT_WIDTH_TWIPS * p) / 100));
+  const border = { style: BorderStyle.SINGLE, size: 4, color: 'E2E8F0' };
+  return new Table({
+    width: { size: TEXT_WIDTH_TWIPS, type: WidthType.DXA },
+    columnWidths: widths,
+    borders: { top: border, bottom: border, left: border, right: border, insideHorizontal: border, insideVertical: border },
+    rows: [
+      new TableRow({
+        tableHeader: true,
+        children: headers.map((h, i) => cell(h, { header: true, theme: ctx.theme, width: widths[i] })),
+      }),
+      ...rows.map((row) => new TableRow({
+        cantSplit: true,
+        children: row.map((c, i) => cell(c, { theme: ctx.theme, width: widths[i] })),
+      })),
+    ],
+  });
+}
+
+/** Table text followed by footnote marks for its evidence quotes */
+function withQuotes(ctx: DocxContext, text: string, quotes: Array<{ quote: string; source?: string }>): ParagraphChild[] {
+  return [new TextRun(text), ...quotes.filter((q) => q.quote).map((q) => ctx.cite(q.quote, q.source))];
+}
+
+const spacer = () => new Paragraph({ spacing: { after: 120 }, children: [] });
+
+// ── Sections ──────────────────────────────────────────────────────────────────
+
+type SectionRenderer = (ctx: DocxContext, body: ReportHtmlBody, cfg: ReportSectionConfig) => Block[];
+
+const H3 = HeadingLevel.HEADING_3;
+
+const renderExecutiveSummary: SectionRenderer = (ctx, { reportSummary }, cfg) => {
+  const es = reportSummary.executiveSummary;
+  const findings = (es.whatWeFound ?? []).filter((_, i) => !isExcluded(cfg, `finding:${i}`));
+  const lenses = (es.lensFindings ?? []).filter((lf) => !isExcluded(cfg, `lens:${lf.lens}`));
+  const decision = es.decisionAsk;
+  return [
+    ...labelled(ctx, 'The ask', es.theAsk || reportSummary.workshopAsk),
+    ...labelled(ctx, 'The answer', es.theAnswer || reportSummary.keyInsight),
+    ...(findings.length ? [heading('What We Found', H3), ...bulletList(findings, true)] : []),
+    ...(es.whatWeFoundPositive?.length ? [heading('What Is Working', H3), ...bulletList(es.whatWeFoundPositive)] : []),
+    ...(lenses.length ? [heading('Findings by Lens', H3), table(ctx, ['Lens', 'Finding'], lenses.map((lf) => [lf.lens, lf.finding]), [22, 78]), spacer()] : []),
+    ...(es.whyItMatters ? [heading('Why It Matters', H3), para(es.whyItMatters)] : []),
+    ...labelled(ctx, 'Opportunity or risk', es.opportunityOrRisk),
+    ...labelled(ctx, 'Why now', es.urgency),
+    ...(decision?.statement ? [
+      heading('The Decision', H3),
+      para(decision.statement),
+      ...bulletList((decision.options ?? []).map((o) => [new TextRun({ text: `${o.label}: `, bold: true }), new TextRun(o.description)])),
+      ...labelled(ctx, 'Recommendation', decision.recommendation),
+      ...labelled(ctx, 'If no action is taken', decision.ifNoAction),
+    ] : []),
+  ];
+};
+
+const renderProgrammeChanges: SectionRenderer = (ctx, { programmeChanges: changes }, cfg) => {
+  if (!changes) return [];
+  const fmt = (n: number | null) => (n === null ? '—' : String(Math.round(n)));
+  const lensChanges = changes.lensChanges.filter((c) => !isExcluded(cfg, `lens:${c.lens}`));
+  return [
+    para(`Compared with ${changes.previous.workshopName} (${new Date(changes.previous.runDate).toLocaleDateString('en-GB')}).`, { italic: true }),
+    ...bulletList(changes.headlines),
+    ...(lensChanges.length ? [
+      heading('Lens Scores', H3),
+      table(ctx, ['Lens', 'Before', 'After', 'Change'], lensChanges.map((c) => [
+        c.lens, fmt(c.before), fmt(c.after), c.delta === null ? '—' : `${c.delta > 0 ? '+' : ''}${c.delta}`,
+      ]), [40, 20, 20, 20]),
+      spacer(),
+    ] : []),
+  ];
+};
+
+const renderSupportingEvidence: SectionRenderer = (ctx, { intelligence }, cfg) => {
+  const dv = intelligence.discoveryValidation;
+  if (!dv) return [];
+  const confirmed = dedupeBy(dv.confirmedIssues ?? [], (ci) => ci.issue).filter((_, i) => !isExcluded(cfg, `confirmed:${i}`));
+  const newIssues = dedupeBy(dv.newIssues ?? [], (ni) => ni.issue).filter((_, i) => !isExcluded(cfg, `new:${i}`));
+  return [
+    ...(dv.summary ? [para(dv.summary)] : []),
+    ...(dv.hypothesisAccuracy != null ? labelled(ctx, 'Hypothesis accuracy', `${dv.hypothesisAccuracy}%`) : []),
+    ...(confirmed.length ? [
+      heading('Confirmed Issues', H3),
+      table(ctx, ['Issue', 'Discovery signal', 'Confidence'], confirmed.map((ci) => [
+        withQuotes(ctx, ci.issue, [{ quote: ci.workshopEvidence, source: 'Workshop evidence' }]),
+        ci.discoverySignal,
+        ci.confidence,
+      ]), [50, 35, 15]),
+      spacer(),
+    ] : []),
+    ...(newIssues.length ? [
+      heading('New Issues — Surfaced in Workshop', H3),
+      table(ctx, ['Issue', 'Significance'], newIssues.map((ni) => [
+        withQuotes(ctx, ni.issue, [{ quote: ni.workshopEvidence, source: 'Workshop evidence' }]),
+        ni.significance,
+      ]), [50, 50]),
+      spacer(),
+    ] : []),
+  ];
+};
+
+const renderRootCauses: SectionRenderer = (ctx, { intelligence }, cfg) => {
+  const rc = intelligence.rootCause;
+  if (!rc) return [];
+  const causes = (rc.rootCauses ?? []).filter((c) => !isExcluded(cfg, `cause:${c.rank}`));
+  const constraints = rc.workshopConstraints ?? [];
+  return [
+    ...(rc.forceFieldHeadline ? [para(rc.forceFieldHeadline, { bold: true })] : []),
+    ...(rc.systemicPattern ? [para(rc.systemicPattern)] : []),
+    ...(causes.length ? [
+      table(ctx, ['#', 'Root cause', 'Category', 'Severity', 'Lenses'], causes.map((c) => [
+        String(c.rank),
+        withQuotes(ctx, c.cause, dedupeStrings(c.evidence ?? []).slice(0, 2).map((quote) => ({ quote }))),
+        c.category,
+        c.severity,
+        (c.affectedLenses ?? []).join(', '),
+      ]), [6, 44, 18, 14, 18]),
+      spacer(),
+    ] : []),
+    ...(constraints.length ? [
+      heading('Constraints Raised by Participants', H3),
+      table(ctx, ['Constraint', 'Type', 'Severity', 'Resolution'], constraints.map((c) => [
+        withQuotes(ctx, c.title, [{ quote: c.participantVoice, source: 'Participant' }]),
+        c.type,
+        c.severity,
+        c.resolutionStatus,
+      ]), [44, 16, 14, 26]),
+      spacer(),
+    ] : []),
+  ];
+};
+
+const renderSolutionDirection: SectionRenderer = (ctx, { reportSummary, intelligence }, cfg) => {
+  const ss = reportSummary.solutionSummary;
+  if (!ss) return [];
+  const changes = (ss.whatMustChange ?? []).filter((_, i) => !isExcluded(cfg, `step:${i}`));
+  const tom = intelligence.futureState?.targetOperatingModel;
+  return [
+    ...(ss.direction ? [para(ss.direction, { bold: true, color: ctx.theme.primary })] : []),
+    ...(ss.rationale ? [para(ss.rationale)] : []),
+    ...(changes.length ? [
+      heading('What Must Change', H3),
+      table(ctx, ['Area', "Today's reality", 'Required change'], changes.map((c) => [c.area, c.currentState ?? '', c.requiredChange ?? '']), [20, 40, 40]),
+      spacer(),
+    ] : []),
+    ...(tom ? [heading('Target Operating Model', H3), para(tom)] : []),
+    ...labelled(ctx, 'Where to start', ss.startingPoint),
+    ...(ss.successIndicators?.length ? [heading('Success Indicators', H3), ...bulletList(ss.successIndicators)] : []),
+  ];
+};
+
+const renderStrategicImpact: SectionRenderer = (ctx, { intelligence }, cfg) => {
+  const si = intelligence.strategicImpact;
+  if (!si) return [];
+  const mix = [
+    { id: 'automation', label: 'Automation potential', bucket: si.automationPotential },
+    { id: 'ai_assisted', label: 'AI-assisted work', bucket: si.aiAssistedWork },
+    { id: 'human_only', label: 'Human-only work', bucket: si.humanOnlyWork },
+  ].filter((m) => m.bucket && !isExcluded(cfg, m.id));
+  return [
+    ...(si.businessCaseSummary ? [para(si.businessCaseSummary)] : []),
+    ...(si.confidenceScore != null ? labelled(ctx, 'Confidence', `${si.confidenceScore}%`) : []),
+    ...(mix.length ? [
+      heading('Work Mix', H3),
+      table(ctx, ['Category', 'Share', 'What it covers'], mix.map((m) => [m.label, `${m.bucket!.percentage}%`, m.bucket!.description]), [28, 12, 60]),
+      spacer(),
+    ] : []),
+    ...(si.efficiencyGains?.length ? [
+      heading('Efficiency Gains', H3),
+      table(ctx, ['Metric', 'Estimated', 'Basis'], si.efficiencyGains.map((g) => [g.metric, g.estimated, g.basis]), [30, 20, 50]),
+      spacer(),
+    ] : []),
+    ...(si.experienceImprovements?.length ? [
+      heading('Experience Improvements', H3),
+      table(ctx, ['Dimension', 'Today', 'Future', 'Impact'], si.experienceImprovements.map((e) => [e.dimension, e.currentState, e.futureState, e.impact]), [19, 27, 27, 27]),
+      spacer(),
+    ] : []),
+  ];
+};
+
+const renderStructuralTensions: SectionRenderer = (ctx, { discoverAnalysis }) => {
+  const tensions = dedupeBy(
+    [...(discoverAnalysis?.tensions?.tensions ?? [])].sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0)),
+    (t) => t.topic,
+  ).slice(0, 8);
+  if (!tensions.length) return [];
+  return [
+    para('Ranked unresolved tensions — competing perspectives slowing transformation.', { italic: true }),
+    table(ctx, ['#', 'Tension', 'Domain', 'Severity', 'Competing views'], tensions.map((t, i) => [
+      String(i + 1),
+      t.topic,
+      t.domain,
+      t.severity,
+      dedupeBy(t.viewpoints, (vp) => vp.position).slice(0, 2).flatMap((vp, j) => [
+        ...(j > 0 ? [new TextRun({ text: '', break: 1 })] : []),
+        new TextRun({ text: `${vp.actor}: `, bold: true }),
+        new TextRun(vp.position),
+        ...(vp.evidenceQuote ? [ctx.cite(vp.evidenceQuote, vp.actor)] : []),
+      ]),
+    ]), [6, 26, 14, 12, 42]),
+    spacer(),
+  ];
+};
+
+const SEVERITY_RANK: Record<string, number> = { critical: 3, significant: 2, moderate: 1 };
+
+const renderStructuralBarriers: SectionRenderer = (ctx, { discoverAnalysis }) => {
+  const barriers = dedupeBy([...(discoverAnalysis?.constraints?.constraints ?? [])], (c) => c.description)
+    .sort((a, b) => (SEVERITY_RANK[b.severity] ?? 0) - (SEVERITY_RANK[a.severity] ?? 0) || b.weight - a.weight)
+    .slice(0, 10);
+  if (!barriers.length) return [];
+  return [
+    para('Weighted constraints ranked by severity and frequency.', { italic: true }),
+    table(ctx, ['Barrier', 'Domain', 'Severity', 'Weight'], barriers.map((c) => [c.description, c.domain, c.severity, String(c.weight)]), [56, 18, 14, 12]),
+    spacer(),
+  ];
+};
+
+const renderWayForward: SectionRenderer = (ctx, { intelligence }, cfg) => {
+  const roadmap = intelligence.roadmap;
+  if (!roadmap) return [];
+  const phases = (roadmap.phases ?? []).filter((_, i) => !isExcluded(cfg, `phase:${i}`));
+  const roi = roadmap.roiSummary;
+  const gantt = ctx.charts.roadmap_gantt;
+  return [
+    ...(gantt ? [image(gantt, 'Roadmap timeline and cumulative cost/benefit')] : []),
+    ...(phases.length ? [
+      heading('Roadmap', H3),
+      table(ctx, ['Phase', 'Timeframe', 'Initiatives', 'Capabilities', 'Dependencies'], phases.map((p) => [
+        p.phase,
+        p.timeframe ?? '',
+        (p.initiatives ?? []).flatMap((init, i) => [
+          ...(i > 0 ? [new TextRun({ text: '', break: 1 })] : []),
+          new TextRun({ text: init.title, bold: true }),
+          ...(init.outcome ? [new TextRun(` — ${init.outcome}`)] : []),
+        ]),
+        (p.capabilities ?? []).join(', '),
+        (p.dependencies ?? []).join(', '),
+      ]), [18, 12, 40, 15, 15]),
+      spacer(),
+    ] : []),
+    ...labelled(ctx, 'Critical path', roadmap.criticalPath),
+    ...(roi ? [
+      heading('Business Case', H3),
+      ...(roi.narrative ? [para(roi.narrative)] : []),
+      ...(roi.phases?.length ? [
+        table(ctx, ['Phase', 'Cost', 'Annual benefit', 'Break-even', 'ROI', 'Confidence'], roi.phases.map((p) => [
+          p.phase, p.estimatedCost, p.estimatedAnnualBenefit, p.breakEvenTimeline, p.roiMultiple, p.confidenceLevel,
+        ]), [16, 18, 20, 18, 12, 16]),
+        spacer(),
+      ] : []),
+      ...labelled(ctx, 'Total programme cost', roi.totalProgrammeCost),
+      ...labelled(ctx, 'Three-year benefit', roi.totalThreeYearBenefit),
+      ...labelled(ctx, 'Payback', roi.paybackPeriod),
+      ...(roi.keyAssumptions?.length ? [para('Key assumptions', { bold: true }), ...bulletList(roi.keyAssumptions)] : []),
+    ] : []),
+    ...(roadmap.keyRisks?.length ? [heading('Key Risks', H3), ...bulletList(roadmap.keyRisks)] : []),
+  ];
+};
+
+const renderTransformationPriorities: SectionRenderer = (ctx, { intelligence }, cfg) => {
+  const tlm = intelligence.transformationLogicMap;
+  if (!tlm) return [];
+  const points = [...(tlm.coalescencePoints ?? [])].sort((a, b) => b.compositeScore - a.compositeScore).slice(0, 10);
+  const chains = (tlm.strongestChains ?? []).filter((c) => !isExcluded(cfg, c.chainId));
+  const graph = ctx.charts.tlm_graph;
+  return [
+    ...(tlm.interpretationSummary ? [para(tlm.interpretationSummary)] : []),
+    ...labelled(ctx, 'Constraints with a complete path', `${Math.round(tlm.coverageScore ?? 0)}%`),
+    ...(graph ? [image(graph, 'Transformation logic map')] : []),
+    ...(points.length ? [
+      heading('Where Pressure Converges', H3),
+      table(ctx, ['Node', 'Layer', 'Links out', 'Affected', 'Score'], points.map((p) => [
+        p.label, p.layer, String(p.outDegree), String(p.affectedCount), (Math.round(p.compositeScore * 100) / 100).toString(),
+      ]), [44, 18, 12, 12, 14]),
+      spacer(),
+    ] : []),
+    ...(chains.length ? [
+      heading('Strongest Transformation Chains', H3),
+      table(ctx, ['Constraint', 'Enabler', 'Reimagined future', 'Strength'], chains.map((c) => [
+        c.constraintLabel, c.enablerLabel, c.reimaginationLabel, `${Math.round(c.chainStrength * 100)}%`,
+      ]), [30, 30, 28, 12]),
+      spacer(),
+    ] : []),
+  ];
+};
+
+const renderConclusion: SectionRenderer = (ctx, { reportSummary }, cfg) => {
+  const conclusion = reportSummary.reportConclusion;
+  if (!conclusion) return [];
+  const steps = (conclusion.nextSteps ?? []).filter((s) => !isExcluded(cfg, s.id));
+  return [
+    ...(conclusion.summary ? [para(conclusion.summary)] : []),
+    ...(steps.length ? [
+      heading('Next Steps', H3),
+      ...bulletList(steps.map((s) => [new TextRun({ text: s.title, bold: true }), new TextRun(s.description ? ` — ${s.description}` : '')]), true),
+    ] : []),
+  ];
+};
+
+const renderFacilitatorContact: SectionRenderer = (ctx, { reportSummary }) => {
+  const contact = reportSummary.facilitatorContact;
+  if (!contact?.name) return [];
+  return [
+    para(contact.name, { bold: true }),
+    ...(contact.companyName ? [para(contact.companyName)] : []),
+    ...labelled(ctx, 'Email', contact.email),
+    ...labelled(ctx, 'Phone', contact.phone),
+  ];
+};
+
+const renderCustom: SectionRenderer = (ctx, _body, cfg) => {
+  const content = cfg.customContent ?? {};
+  const img = imageFromDataUri(content.imageUrl);
+  return [
+    ...(content.text ?? '').split(/\n{2,}/).filter((p) => p.trim()).map((p) => para(p.trim())),
+    ...(img ? [image(img, content.imageAlt || cfg.title)] : []),
+    ...(content.commentary ? [para(content.commentary, { italic: true, color: ctx.theme.mutedText })] : []),
+  ];
+};
+
+const SECTION_RENDERERS: Record<string, SectionRenderer> = {
+  executive_summary: renderExecutiveSummary,
+  programme_changes: renderProgrammeChanges,
+  supporting_evidence: renderSupportingEvidence,
+  root_causes: renderRootCauses,
+  solution_direction: renderSolutionDirection,
+  strategic_impact: renderStrategicImpact,
+  structural_tensions: renderStructuralTensions,
+  structural_barriers: renderStructuralBarriers,
+  way_forward: renderWayForward,
+  transformation_priorities: renderTransformationPriorities,
+  report_conclusion: renderConclusion,
+  facilitator_contact: renderFacilitatorContact,
+};
+
+// ── Document ──────────────────────────────────────────────────────────────────
+
+function cover(ctx: DocxContext, body: ReportHtmlBody, logo: DocxImage | null | undefined): Paragraph[] {
+  const date = new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+  return [
+    ...(logo ? [image(logo, `${body.orgName ?? ''} logo`.trim(), 220)] : []),
+    new Paragraph({ spacing: { before: 2400, after: 200 }, children: [
+      new TextRun({ text: 'DISCOVERY & TRANSFORMATION REPORT', bold: true, color: ctx.theme.primary, size: 20, characterSpacing: 40 }),
+    ] }),
+    new Paragraph({ heading: HeadingLevel.TITLE, text: body.workshopName ?? 'Workshop' }),
+    new Paragraph({ spacing: { after: 600 }, children: [new TextRun({ text: body.orgName ?? '', size: 32, color: ctx.theme.mutedText })] }),
+    new Paragraph({ children: [new TextRun({ text: `Prepared ${date} · DREAM Discovery Platform`, color: ctx.theme.mutedText })] }),
+  ];
+}
+
+/**
+ * Build the report document. Chapters become Heading 1; a section is
+ * Heading 2 inside a chapter and Heading 1 before the first one.
+ */
+export async function buildReportDocx(body: ReportHtmlBody, options: DocxReportOptions): Promise<DocxReport> {
+  const { theme } = options;
+  const footnotes: Record<number, { children: Paragraph[] }> = {};
+  let nextFootnote = 1;
+
+  const ctx: DocxContext = {
+    theme,
+    charts: options.charts ?? {},
+    cite: (quote, source) => {
+      const id = nextFootnote++;
+      footnotes[id] = {
+        children: [new Paragraph({ children: [
+          new TextRun({ text: `“${quote.trim()}”`, italics: true }),
+          ...(source ? [new TextRun(` — ${source}`)] : []),
+        ] })],
+      };
+      return new FootnoteReferenceRun(id);
+    },
+  };
+
+  // "What changed" only applies to follow-up runs in a programme
+  const sections = body.layout.sections.filter((s) => s.enabled && (s.id !== 'programme_changes' || body.programmeChanges));
+
+  const content: Block[] = [];
+  const tocEntries: Array<{ title: string; level: number }> = [];
+  const skippedSections: string[] = [];
+  let inChapter = false;
+
+  for (const cfg of sections) {
+    if (cfg.type === 'chapter') {
+      inChapter = true;
+      content.push(heading(cfg.title, HeadingLevel.HEADING_1, true));
+      tocEntries.push({ title: cfg.title, level: 1 });
+      continue;
+    }
+
+    const render = cfg.type === 'custom' ? renderCustom : SECTION_RENDERERS[cfg.id];
+    if (!render) { skippedSections.push(cfg.title); continue; }
+    const blocks = render(ctx, body, cfg);
+    if (!blocks.length) continue;
+
+    const level = inChapter ? 2 : 1;
+    content.push(heading(cfg.title, level === 1 ? HeadingLevel.HEADING_1 : HeadingLevel.HEADING_2, level === 1), ...blocks);
+    tocEntries.push({ title: cfg.title, level });
+  }
+
+  const headingRun = { font: theme.headingFont, color: theme.primary, bold: true };
+  const footerText = [body.workshopName, body.orgName].filter(Boolean).join(' — ');
+
+  const doc = new Document({
+    creator: 'DREAM Discovery Platform',
+    title: body.workshopName ?? 'Discovery & Transformation Report',
+    subject: 'Discovery & Transformation Report',
+    features: { updateFields: true, trackRevisions: true },
+    footnotes,
+    numbering: {
+      config: [{
+        reference: 'report-numbered',
+        levels: [{ level: 0, format: 'decimal', text: '%1.', alignment: AlignmentType.START, style: { paragraph: { indent: { left: 360, hanging: 360 } } } }],
+      }],
+    },
+    styles: {
+      default: {
+        document: { run: { font: theme.bodyFont, size: 21, color: theme.text } },
+        title: { run: { font: theme.headingFont, size: 56, bold: true, color: theme.text } },
+        heading1: { run: { ...headingRun, size: 34 }, paragraph: { spacing: { before: 360, after: 160 } } },
+        heading2: { run: { ...headingRun, size: 28 }, paragraph: { spacing: { before: 320, after: 120 } } },
+        heading3: { run: { ...headingRun, size: 23, color: theme.secondary }, paragraph: { spacing: { before: 240, after: 100 } } },
+      },
+    },
+    sections: [{
+      properties: {
+        titlePage: true,
+        page: { margin: { top: 1134, bottom: 1134, left: 1134, right: 1134 } },
+      },
+      headers: {
+        first: new Header({ children: [] }),
+        default: new Header({ children: [new Paragraph({
+          alignment: AlignmentType.RIGHT,
+          children: [new TextRun({ text: body.orgName ?? '', size: 16, color: theme.mutedText })],
+        })] }),
+      },
+      footers: {
+        first: new Footer({ children: [] }),
+        default: new Footer({ children: [new Paragraph({
+          border: { top: { style: BorderStyle.SINGLE, size: 4, color: 'E5E7EB', space: 4 } },
+          children: [
+            new TextRun({ text: footerText, size: 16, color: theme.mutedText }),
+            new TextRun({ children: ['\tPage ', PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES], size: 16, color: theme.mutedText }),
+          ],
+          tabStops: [{ type: 'right', position: TEXT_WIDTH_TWIPS }],
+        })] }),
+      },
+      children: [
+        ...cover(ctx, body, options.logo),
+        new Paragraph({ children: [new PageBreak()] }),
+        new TableOfContents('Contents', { hyperlink: true, headingStyleRange: '1-2', cachedEntries: tocEntries }),
+        ...content,
+      ],
+    }],
+  });
+
+  return { buffer: await Packer.toBuffer(doc), skippedSections };
+}
@@ -4,6 +4,7 @@
  * Shared HTML section renderer functions used by:
  *   - export-pdf  (renders full HTML → Puppeteer → PDF)
  *   - export-pptx (renders per-section HTML → Puppeteer screenshot → slide image)
+ *   - export-docx (renders the SVG charts → Puppeteer screenshot → Word image)
  */
 
 import type {
@@ -15,6 +16,9 @@ import type {
   CausalIntelligence,
   CausalFinding,
   ExecutionRoadmap,
+  ProvenanceGraph,
+  ProvenanceClaimKind,
+  ProvenanceSource,
 } from '@/lib/output-intelligence/types';
 import {
   computePriorityNodes,
@@ -23,8 +27,17 @@ import {
   formatLabel,
   type WayForwardPhase,
 } from '@/lib/output-intelligence/engines/priority-engine';
+import {
+  SOURCE_KIND_LABEL,
+  claimSources,
+  findProvenanceClaim,
+  isVerbatimSource,
+  sourceAttribution,
+} from '@/lib/output-intelligence/engines/provenance-engine';
 import type { LiveJourneyData } from '@/lib/cognitive-guidance/pipeline';
 import type { DiscoverAnalysis } from '@/lib/types/discover-analysis';
+import type { ProgrammeWhatChanged } from '@/lib/programmes/types';
+import type { ParticipantRedactor } from '@/lib/compliance/participant-redaction';
 import { dedupeBy, dedupeStrings, dedupeByWithMeta } from './dedup-utils';
 
 // ── Shared body type ──────────────────────────────────────────────────────────
@@ -41,6 +54,23 @@ export interface ReportHtmlBody {
   discoveryOutput?: any;
   discoverAnalysis?: DiscoverAnalysis;
   houseImages?: { old: string | null; refreshed: string | null; ideal: string | null };
+  /** Comparison with the previous run when the workshop is part of a programme */
+  programmeChanges?: ProgrammeWhatChanged | null;
+}
+
+// ── Participant redaction ─────────────────────────────────────────────────────
+
+/**
+ * Run a report body through the participant redactor before rendering.
+ * Every route that renders these sections (PDF, PPTX, preview) must call it.
+ * The facilitator's contact details are deliberately shown, so they are kept.
+ */
+export function redactReportBody<T extends Pick<ReportHtmlBody, 'reportSummary'>>(body: T, redactor: ParticipantRedactor): T {
+  const redacted = redactor.redact(body);
+  return {
+    ...redacted,
+    reportSummary: { ...redacted.reportSummary, facilitatorContact: body.reportSummary.facilitatorContact },
+  };
 }
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
@@ -55,6 +85,57 @@ export function isExcluded(config: ReportSectionConfig, id: string): boolean {
 
 // ── Section intro helper ──────────────────────────────────────────────────────
 
+// ── Provenance footnotes ──────────────────────────────────────────────────────
+
+/** Longest source excerpt printed in a footnote */
+const FOOTNOTE_EXCERPT_CHARS = 240;
+
+/**
+ * Numbered citations for report claims. buildReportHtml shares one instance
+ * across the report so numbers run on between sections and a source cited
+ * twice keeps its number; each section lists the notes it introduced.
+ */
+export interface ReportFootnotes {
+  /** Superscript marks for the claim's sources — '' when it has none */
+  cite(kind: ProvenanceClaimKind, text: string): string;
+  /** Notes introduced since the last flush, for the foot of a section */
+  flush(): string;
+}
+
+export function createReportFootnotes(provenance: ProvenanceGraph | undefined): ReportFootnotes {
+  const numbers = new Map<string, number>();
+  let pending: Array<{ n: number; source: ProvenanceSource }> = [];
+
+  return {
+    cite(kind, text) {
+      const sources = claimSources(provenance, findProvenanceClaim(provenance, kind, text));
+      if (sources.length === 0) return '';
+      const marks = sources.map(({ source }) => {
+        let n = numbers.get(source.sourceId);
+        if (n === undefined) {
+          n = numbers.size + 1;
+          numbers.set(source.sourceId, n);
+          pending.push({ n, source });
+        }
+        return n;
+      });
+      return `<sup class="fn-ref">${marks.join(',')}</sup>`;
+    },
+    flush() {
+      if (pending.length === 0) return '';
+      const items = pending.map(({ n, source }) => {
+        const excerpt = source.excerpt.length > FOOTNOTE_EXCERPT_CHARS
+          ? `${source.excerpt.slice(0, FOOTNOTE_EXCERPT_CHARS).trimEnd()}…`
+          : source.excerpt;
+        const body = isVerbatimSource(source) ? `“${esc(excerpt)}”` : esc(excerpt);
+        return `<li value="${n}"><span class="fn-kind">${esc(SOURCE_KIND_LABEL[source.kind])}</span> ${body} — ${esc(sourceAttribution(source))}</li>`;
+      }).join('');
+      pending = [];
+      return `<ol class="footnotes">${items}</ol>`;
+    },
+  };
+}
+
 function sectionIntro(text: string): string {
   return `<div class="section-intro"><span class="section-intro-label">Section Overview</span><p>${esc(text)}</p></div>`;
 }
@@ -70,6 +151,7 @@ function sectionAction(what: string, action: string): string {
 
 const TOC_DESCRIPTIONS: Record<string, string> = {
   executive_summary:         'The ask, the answer, what we found, and the recommended direction',
+  programme_changes:         'Movement in maturity, constraints, sentiment and roadmap since the previous workshop',
   discovery_diagnostic:      'Operational reality, leadership alignment, and systemic friction signals',
   discovery_signals:         'Sentiment by domain, agreement levels, and tension areas',
   discovery_signal_map:      'Visual distribution of workshop signals across themes and lenses',
@@ -105,7 +187,7 @@ const TOC_PHASE_GROUPS: TocPhaseGroup[] = [
   {
     name: 'Executive Summary',
     desc: 'The ask, the answer, and what the workshop revealed',
-    sectionIds: ['executive_summary'],
+    sectionIds: ['executive_summary', 'programme_changes'],
   },
   {
     name: 'Discovery Diagnostic',
@@ -327,7 +409,11 @@ export function renderExecutiveSummary(summary: ReportSummary, intelligence: Wor
     </section>`;
 }
 
-export function renderSupportingEvidence(intelligence: WorkshopOutputIntelligence, cfg: ReportSectionConfig): string {
+export function renderSupportingEvidence(
+  intelligence: WorkshopOutputIntelligence,
+  cfg: ReportSectionConfig,
+  notes: ReportFootnotes = createReportFootnotes(intelligence.provenance),
+): string {
   const { discoveryValidation } = intelligence;
 
   const confirmed = dedupeBy(discoveryValidation.confirmedIssues ?? [], ci => ci.issue)
@@ -336,7 +422,7 @@ export function renderSupportingEvidence(intelligence: WorkshopOutputIntelligenc
       <div class="evidence-row">
         <span class="confidence-badge ${ci.confidence}">${esc(ci.confidence)}</span>
         <div>
-          <div class="evidence-issue">${esc(ci.issue)}</div>
+          <div class="evidence-issue">${esc(ci.issue)}${notes.cite('confirmed_issue', ci.issue)}</div>
           <div class="evidence-ev">${esc(ci.workshopEvidence)}</div>
         </div>
       </div>`).join('');
@@ -347,7 +433,7 @@ export function renderSupportingEvidence(intelligence: WorkshopOutputIntelligenc
       <div class="evidence-row">
         <span class="confidence-badge new">new</span>
         <div>
-          <div class="evidence-issue">${esc(ni.issue)}</div>
+          <div class="evidence-issue">${esc(ni.issue)}${notes.cite('new_issue', ni.issue)}</div>
           <div class="evidence-ev">${esc(ni.workshopEvidence)}</div>
           <div class="evidence-sig">→ ${esc(ni.significance)}</div>
         </div>
@@ -371,10 +457,15 @@ export function renderSupportingEvidence(intelligence: WorkshopOutputIntelligenc
         <div class="evidence-header new">New Issues — Surfaced in Workshop</div>
         ${newIssues}
       </div>` : ''}
+      ${notes.flush()}
     </section>`;
 }
 
-export function renderRootCauses(intelligence: WorkshopOutputIntelligence, cfg: ReportSectionConfig): string {
+export function renderRootCauses(
+  intelligence: WorkshopOutputIntelligence,
+  cfg: ReportSectionConfig,
+  notes: ReportFootnotes = createReportFootnotes(intelligence.provenance),
+): string {
   const { rootCause } = intelligence;
 
   const allCauses = (rootCause.rootCauses ?? [])
@@ -407,7 +498,7 @@ export function renderRootCauses(intelligence: WorkshopOutputIntelligence, cfg:
             <span class="sig-tag">${esc(sig)}</span>
           </div>
           <div class="cause-body">
-            <div class="cause-title">${esc(rc.cause)}</div>
+            <div class="cause-title">${esc(rc.cause)}${notes.cite('root_cause', rc.cause)}</div>
             <div class="cause-cat">${esc(rc.category)}</div>
             ${dedupeStrings(rc.evidence ?? []).slice(0, 2).map(e => `<div class="cause-ev">· ${esc(e)}</div>`).join('')}
             ${lenses ? `<div class="cause-lenses">${lenses}</div>` : ''}
@@ -425,6 +516,81 @@ export function renderRootCauses(intelligence: WorkshopOutputIntelligence, cfg:
       ${sectionAction('Root causes ranked by severity — not symptoms, but the structural reasons the problems exist. The systemic pattern at the top describes how they connect.', 'Critical root causes ranked #1 and #2 must be in Phase 1 of your programme. Fixing symptoms without resolving these causes regression. Present this section to the executive sponsor to justify programme scope and investment.')}
       ${rootCause.systemicPattern ? `<div class="narrative-lead">${esc(rootCause.systemicPattern)}</div>` : ''}
       <div class="cause-list">${causes}</div>
+      ${notes.flush()}
+    </section>`;
+}
+
+// ── What Changed Since Last Time (programme runs) ───────────────────────────
+
+export function renderProgrammeChanges(changes: ProgrammeWhatChanged | null | undefined, cfg: ReportSectionConfig): string {
+  if (!changes) return '';
+
+  const fmtDate = (iso: string) => new Date(iso).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+  const fmtScore = (n: number | null) => (n === null ? '—' : String(Math.round(n)));
+
+  const headlines = changes.headlines.map(h => `<div class="cause-ev">· ${esc(h)}</div>`).join('');
+
+  const lensRows = changes.lensChanges
+    .filter(c => !isExcluded(cfg, `lens:${c.lens}`))
+    .map(c => {
+      const color = c.delta === null || c.delta === 0 ? '#6b7280' : c.delta > 0 ? '#065f46' : '#b91c1c';
+      const delta = c.delta === null ? '—' : `${c.delta > 0 ? '+' : ''}${c.delta}`;
+      return `<tr>
+        <td class="struct-td">${esc(c.lens)}</td>
+        <td class="struct-td-muted">${fmtScore(c.before)}</td>
+        <td class="struct-td-muted">${fmtScore(c.after)}</td>
+        <td class="struct-td-score" style="color:${color}">${delta}</td>
+      </tr>`;
+    }).join('');
+
+  const listRows = (
+    label: string,
+    color: string,
+    items: Array<{ title: string; severity?: string; phase?: string }>,
+  ) => items.map(item => `<tr>
+      <td class="struct-td">${esc(item.title)}</td>
+      <td class="struct-td-muted">${esc(item.severity ?? item.phase ?? '')}</td>
+      <td class="struct-td-score"><span class="struct-sev" style="color:${color}">${label}</span></td>
+    </tr>`).join('');
+
+  const constraintRows =
+    listRows('Persisting', '#b45309', changes.constraints.persisting) +
+    listRows('New', '#b91c1c', changes.constraints.emerged) +
+    listRows('No longer surfaced', '#065f46', changes.constraints.resolved);
+
+  const initiativeRows =
+    listRows('Carried forward', '#6366f1', changes.initiatives.carried) +
+    listRows('Added', '#065f46', changes.initiatives.added) +
+    listRows('Dropped', '#6b7280', changes.initiatives.dropped);
+
+  const table = (headers: string[], rows: string) => `
+      <div class="struct-table-wrap">
+        <table class="struct-table">
+          <thead>
+            <tr class="struct-thead">
+              ${headers.map((h, i) => `<th class="${i === headers.length - 1 ? 'struct-th-right' : 'struct-th'}">${h}</th>`).join('')}
+            </tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>
+      </div>`;
+
+  const balance = changes.sentimentDelta?.domainDeltas
+    .filter(d => d.direction !== 'stable')
+    .slice(0, 5)
+    .map(d => `<div class="cause-ev">· ${esc(d.domain)}: ${d.direction === 'more-creative' ? 'more creative' : 'more constrained'} (creative ${d.creativeDelta > 0 ? '+' : ''}${d.creativeDelta}, constraint ${d.constraintDelta > 0 ? '+' : ''}${d.constraintDelta})</div>`)
+    .join('') ?? '';
+
+  return `
+    <section class="report-section">
+      <div class="section-title-bar"><div class="section-accent"></div><div class="section-title">${esc(cfg.title || 'What Changed Since Last Time')}</div></div>
+      ${sectionIntro(`Compares this workshop with the previous run in the programme — ${changes.previous.workshopName} (${fmtDate(changes.previous.runDate)}).`)}
+      ${sectionAction('Movement in lens maturity, constraints, sentiment and roadmap initiatives between the two runs.', 'Constraints that persist across runs are structural — escalate them to the executive sponsor. Dropped initiatives need an explicit decision, not silent attrition.')}
+      ${headlines ? `<div class="narrative-lead">${headlines}</div>` : ''}
+      ${lensRows ? `<p class="struct-subtitle">Lens maturity (0-100)</p>${table(['Lens', 'Previous', 'Now', 'Change'], lensRows)}` : ''}
+      ${balance ? `<p class="struct-subtitle">Sentiment shifts by domain</p>${balance}` : ''}
+      ${constraintRows ? `<p class="struct-subtitle">Constraints</p>${table(['Constraint', 'Severity', 'Status'], constraintRows)}` : ''}
+      ${initiativeRows ? `<p class="struct-subtitle">Roadmap initiatives</p>${table(['Initiative', 'Phase', 'Status'], initiativeRows)}` : ''}
     </section>`;
 }
 
@@ -733,7 +899,11 @@ export function renderJourneyMap(journey: LiveJourneyData, intro: string | undef
     </section>`;
 }
 
-export function renderStrategicImpact(intelligence: WorkshopOutputIntelligence, cfg: ReportSectionConfig): string {
+export function renderStrategicImpact(
+  intelligence: WorkshopOutputIntelligence,
+  cfg: ReportSectionConfig,
+  notes: ReportFootnotes = createReportFootnotes(intelligence.provenance),
+): string {
   const si = intelligence.strategicImpact;
 
   const statBoxes = [
@@ -744,7 +914,7 @@ export function renderStrategicImpact(intelligence: WorkshopOutputIntelligence,
 
   const gainRows = si.efficiencyGains.map(g => `
     <tr>
-      <td class="gain-metric">${esc(g.metric)}</td>
+      <td class="gain-metric">${esc(g.metric)}${notes.cite('efficiency_gain', `${g.metric}: ${g.estimated}`)}</td>
       <td class="gain-est">${esc(g.estimated)}</td>
       <td class="gain-basis">${esc(g.basis)}</td>
     </tr>`).join('');
@@ -770,6 +940,7 @@ export function renderStrategicImpact(intelligence: WorkshopOutputIntelligence,
         </tr></thead>
         <tbody>${gainRows}</tbody>
       </table>` : ''}
+      ${notes.flush()}
     </section>`;
 }
 
@@ -1835,6 +2006,7 @@ export function renderWayForward(
 export function renderConnectedModel(
   causal: CausalIntelligence | undefined,
   cfg: ReportSectionConfig,
+  notes: ReportFootnotes = createReportFootnotes(undefined),
 ): string {
   if (!causal) return '';
 
@@ -1875,7 +2047,7 @@ export function renderConnectedModel(
           <span class="cm-rank">${i + 1}</span>
           <div class="cm-card-meta">
             <div class="cm-badge" style="background:${c.bg};color:${c.text};border:1px solid ${c.border}">${catLabel[f.category] ?? f.category}</div>
-            <div class="cm-title">${esc(f.issueTitle)}</div>
+            <div class="cm-title">${esc(f.issueTitle)}${notes.cite('causal_finding', f.issueTitle)}</div>
           </div>
         </div>
         ${f.whyItMatters  ? `<p class="cm-why">${esc(f.whyItMatters)}</p>` : ''}
@@ -1893,6 +2065,7 @@ export function renderConnectedModel(
       ${sectionIntro('How the root causes, enablers, and outcomes connect — the causal chain showing how current constraints block the vision, and what pathways exist to resolve them.')}
       <p class="cm-intro">Causal chains, bottlenecks and unlock paths derived from the hemisphere graph — ${allFindings.length} finding${allFindings.length !== 1 ? 's' : ''}.</p>
       <div class="cm-cards">${cards}</div>
+      ${notes.flush()}
     </section>`;
 }
 
@@ -2082,6 +2255,10 @@ export const PDF_STYLES = `
   .cause-title { font-size: 10.5pt; font-weight: 600; color: #111827; margin-bottom: 3px; }
   .cause-cat { font-size: 8.5pt; color: #9ca3af; margin-bottom: 6px; }
   .cause-ev { font-size: 9pt; color: #6b7280; padding: 2px 0; line-height: 1.5; }
+  .fn-ref { font-size: 6.5pt; font-weight: 600; color: #6366f1; margin-left: 2px; vertical-align: super; line-height: 0; }
+  .footnotes { margin: 18px 0 0; padding: 10px 0 0 18px; border-top: 1px solid #e5e7eb; font-size: 7.5pt; color: #6b7280; line-height: 1.5; }
+  .footnotes li { margin-bottom: 3px; }
+  .fn-kind { font-weight: 600; color: #475569; text-transform: uppercase; font-size: 6.5pt; letter-spacing: 0.04em; margin-right: 3px; }
   .cause-lenses { display: flex; flex-wrap: wrap; gap: 4px; margin-top: 7px; }
   .cause-lens { font-size: 7.5pt; color: #64748b; background: #f1f5f9; border: 1px solid #e2e8f0; border-radius: 20px; padding: 1px 7px; }
 
@@ -2500,9 +2677,10 @@ export function buildReportHtml(
   clientLogoBase64: string | null,
 ): string {
   void tenantLogoBase64; // reserved for future use
-  const { reportSummary, intelligence, layout, liveJourneyData, workshopName, orgName, discoveryOutput, discoverAnalysis, houseImages } = body;
+  const { reportSummary, intelligence, layout, liveJourneyData, workshopName, orgName, discoveryOutput, discoverAnalysis, houseImages, programmeChanges } = body;
 
-  const enabledSections = layout.sections.filter(s => s.enabled);
+  // "What changed" only applies to follow-up runs in a programme — keep it out of the TOC otherwise
+  const enabledSections = layout.sections.filter(s => s.enabled && (s.id !== 'programme_changes' || programmeChanges));
 
   // ── 2-column TOC: grouped by workshop phase ──────────────────────────────────
   // Assign enabled sections to phase groups; preserve layout ordering within phases.
@@ -2554,16 +2732,19 @@ export function buildReportHtml(
   // Strategy: for each content section ID in TOC_PHASE_GROUPS order, render it if enabled.
   // Chapters are inserted before whichever content section immediately follows them
   // in the original layout (so they stay semantically attached to what they introduce).
+  // Footnote numbers run on across sections in body order
+  const notes = createReportFootnotes(intelligence.provenance);
   const renderOneCfg = (cfg: ReportSectionConfig): string => {
     if (cfg.type === 'chapter') return renderChapter(cfg);
     if (cfg.type === 'custom')  return renderCustomSection(cfg);
     switch (cfg.id) {
       case 'executive_summary':    return renderExecutiveSummary(reportSummary, intelligence, cfg, orgName, workshopName);
-      case 'supporting_evidence':  return renderSupportingEvidence(intelligence, cfg);
-      case 'root_causes':          return renderRootCauses(intelligence, cfg);
+      case 'programme_changes':    return renderProgrammeChanges(programmeChanges, cfg);
+      case 'supporting_evidence':  return renderSupportingEvidence(intelligence, cfg, notes);
+      case 'root_causes':          return renderRootCauses(intelligence, cfg, notes);
       case 'solution_direction':   return renderSolutionDirection(reportSummary, intelligence, cfg, houseImages);
       case 'journey_map':          return liveJourneyData ? renderJourneyMap(liveJourneyData, reportSummary.journeyIntro, cfg) : '';
-      case 'strategic_impact':     return renderStrategicImpact(intelligence, cfg);
+      case 'strategic_impact':     return renderStrategicImpact(intelligence, cfg, notes);
       case 'discovery_diagnostic': return renderDiscoveryDiagnostic(discoveryOutput);
       case 'discovery_signals':    return renderDiscoverySignals(discoveryOutput);
       case 'insight_summary':      return renderInsightSummary(intelligence);
@@ -2577,7 +2758,7 @@ export function buildReportHtml(
       case 'report_conclusion':          return renderConclusion(reportSummary);
       case 'transformation_priorities':  return renderTransformationPriorities(intelligence.transformationLogicMap);
       case 'way_forward':                return renderWayForward(intelligence.transformationLogicMap, intelligence);
-      case 'connected_model':            return renderConnectedModel(intelligence.causalIntelligence, cfg);
+      case 'connected_model':            return renderConnectedModel(intelligence.causalIntelligence, cfg, notes);
       default: return '';
     }
   };
@@ -0,0 +1,600 @@
+/**
+ * lib/report/pptx-native.ts
+ *
+ * Editable PowerPoint export. Builds the report as native pptxgenjs text,
+ * shapes, tables and charts — rather than screenshots of the HTML renderers —
+ * so a consultant can restyle and edit the deck in PowerPoint.
+ *
+ * Draws from ReportSummary, ExecutionRoadmap, StrategicImpact and the
+ * TransformationLogicMap. Sections without a native builder (journey map,
+ * structural analysis, signal map, …) are left out and reported back in
+ * `skippedSections`; the screenshot export still covers those.
+ *
+ * Colours, fonts and background artwork come from the organisation's deck
+ * theme (lib/report/pptx-template.ts).
+ */
+
+import PptxGenJS from 'pptxgenjs';
+import type {
+  ExecutionRoadmap,
+  ReportLayout,
+  ReportSectionConfig,
+  ReportSummary,
+  StrategicImpact,
+  TransformationLogicMap,
+  WorkshopOutputIntelligence,
+} from '@/lib/output-intelligence/types';
+import { isExcluded } from './html-renderers';
+import type { DeckTheme } from './pptx-template';
+
+// ── Slide geometry (widescreen 13.33" × 7.5" = 16:9) ─────────────────────────
+const SW = 13.33;
+const SH = 7.5;
+const MX = 0.6;          // horizontal margin
+const CW = SW - MX * 2;  // content width
+const BODY_Y = 1.35;     // top of the content area below the slide title
+const BODY_H = 5.6;
+
+const CONTENT_MASTER = 'DREAM_CONTENT';
+const TITLE_MASTER = 'DREAM_TITLE';
+
+const BORDER = { type: 'solid' as const, pt: 0.5, color: 'E2E8F0' };
+
+export interface NativeDeckInput {
+  reportSummary: ReportSummary;
+  intelligence: WorkshopOutputIntelligence;
+  layout: ReportLayout;
+  workshopName: string;
+  orgName: string;
+  theme: DeckTheme;
+  /** Data URIs — remote images are fetched by the caller */
+  clientLogoData?: string | null;
+  backgroundData?: string | null;
+  titleBackgroundData?: string | null;
+}
+
+export interface NativeDeck {
+  buffer: Buffer;
+  /** Enabled sections with no native builder, by title */
+  skippedSections: string[];
+}
+
+interface DeckContext {
+  pptx: PptxGenJS;
+  theme: DeckTheme;
+}
+
+type Slide = PptxGenJS.Slide;
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function clip(text: string | null | undefined, max: number): string {
+  const s = (text ?? '').trim();
+  return s.length > max ? `${s.slice(0, max - 1).trimEnd()}…` : s;
+}
+
+function contentSlide(ctx: DeckContext, title: string, eyebrow?: string): Slide {
+  const slide = ctx.pptx.addSlide({ masterName: CONTENT_MASTER });
+  if (eyebrow) {
+    slide.addText(eyebrow.toUpperCase(), {
+      x: MX, y: 0.35, w: CW, h: 0.3,
+      fontSize: 10, bold: true, charSpacing: 2, color: ctx.theme.primary,
+    });
+  }
+  slide.addText(title, {
+    x: MX, y: eyebrow ? 0.6 : 0.45, w: CW, h: 0.65,
+    fontFace: ctx.theme.headingFont, fontSize: 26, bold: true, color: ctx.theme.text, fit: 'shrink',
+  });
+  return slide;
+}
+
+function bullets(items: string[], color: string, max = 220): PptxGenJS.TextProps[] {
+  return items.map((item) => ({
+    text: clip(item, max),
+    options: { bullet: true, color, breakLine: true, paraSpaceAfter: 6 },
+  }));
+}
+
+function labelled(ctx: DeckContext, slide: Slide, label: string, body: string, box: { x: number; y: number; w: number; h: number }) {
+  slide.addText([
+    { text: label.toUpperCase(), options: { fontSize: 10, bold: true, color: ctx.theme.primary, breakLine: true, paraSpaceAfter: 4 } },
+    { text: body, options: { fontSize: 13, color: ctx.theme.text } },
+  ], { ...box, valign: 'top', fit: 'shrink' });
+}
+
+function headerRow(ctx: DeckContext, labels: string[]): PptxGenJS.TableRow {
+  return labels.map((label) => ({
+    text: label,
+    options: { bold: true, color: 'FFFFFF', fill: { color: ctx.theme.primary }, fontSize: 11 },
+  }));
+}
+
+function addTable(ctx: DeckContext, slide: Slide, rows: PptxGenJS.TableRow[], opts: { y: number; h?: number; colW: number[] }) {
+  slide.addTable(rows, {
+    x: MX, y: opts.y, w: CW, colW: opts.colW,
+    fontFace: ctx.theme.bodyFont, fontSize: 11, color: ctx.theme.text,
+    border: BORDER, valign: 'top', margin: 0.06,
+    autoPage: true, autoPageRepeatHeader: true, autoPageHeaderRows: 1,
+  });
+}
+
+/** Rounded card with a coloured heading and body copy */
+function card(
+  ctx: DeckContext,
+  slide: Slide,
+  box: { x: number; y: number; w: number; h: number },
+  heading: string,
+  body: PptxGenJS.TextProps[],
+  accent: string,
+) {
+  slide.addShape(ctx.pptx.ShapeType.roundRect, {
+    ...box, rectRadius: 0.08, fill: { color: 'F8FAFC' }, line: { color: accent, width: 1.25 },
+  });
+  slide.addShape(ctx.pptx.ShapeType.rect, { x: box.x, y: box.y + 0.1, w: 0.07, h: 0.45, fill: { color: accent }, line: { color: accent } });
+  slide.addText([
+    { text: heading, options: { bold: true, fontSize: 13, color: accent, breakLine: true, paraSpaceAfter: 6 } },
+    ...body,
+  ], { x: box.x + 0.15, y: box.y + 0.05, w: box.w - 0.25, h: box.h - 0.1, valign: 'top', fontSize: 11, color: ctx.theme.text, fit: 'shrink' });
+}
+
+function statBox(ctx: DeckContext, slide: Slide, box: { x: number; y: number; w: number; h: number }, value: string, label: string, color: string) {
+  slide.addShape(ctx.pptx.ShapeType.roundRect, { ...box, rectRadius: 0.08, fill: { color }, line: { color } });
+  slide.addText([
+    { text: value, options: { fontSize: 24, bold: true, color: 'FFFFFF', breakLine: true } },
+    { text: label, options: { fontSize: 11, color: 'FFFFFF' } },
+  ], { ...box, align: 'center', valign: 'middle', fit: 'shrink' });
+}
+
+// ── Masters & cover ───────────────────────────────────────────────────────────
+
+function defineMasters(ctx: DeckContext, input: NativeDeckInput) {
+  const { pptx, theme } = ctx;
+  const footer = [input.orgName, input.workshopName].filter(Boolean).join(' · ');
+
+  pptx.defineSlideMaster({
+    title: CONTENT_MASTER,
+    background: input.backgroundData ? { data: input.backgroundData } : { color: theme.background },
+    margin: [0.5, MX, 0.5, MX],
+    slideNumber: { x: SW - MX - 0.6, y: SH - 0.45, w: 0.6, h: 0.3, fontSize: 9, color: theme.mutedText, align: 'right' },
+    objects: [
+      ...(input.backgroundData ? [] : [{ rect: { x: 0, y: 0, w: SW, h: 0.08, fill: { color: theme.primary } } }]),
+      { text: { text: footer, options: { x: MX, y: SH - 0.45, w: CW - 0.8, h: 0.3, fontSize: 9, color: theme.mutedText } } },
+    ],
+  });
+
+  const titleBackground = input.titleBackgroundData ?? input.backgroundData;
+  pptx.defineSlideMaster({
+    title: TITLE_MASTER,
+    background: titleBackground ? { data: titleBackground } : { color: theme.text },
+    objects: titleBackground ? [] : [
+      { rect: { x: 0, y: 0, w: SW, h: 0.1, fill: { color: theme.primary } } },
+      { rect: { x: 0, y: SH - 0.1, w: SW, h: 0.1, fill: { color: theme.secondary } } },
+    ],
+  });
+}
+
+/** Title-slide text colour — white on the default dark master, theme text on artwork */
+function titleTextColor(ctx: DeckContext, input: NativeDeckInput): string {
+  return input.titleBackgroundData ?? input.backgroundData ? ctx.theme.text : 'FFFFFF';
+}
+
+function addCover(ctx: DeckContext, input: NativeDeckInput) {
+  const slide = ctx.pptx.addSlide({ masterName: TITLE_MASTER });
+  const color = titleTextColor(ctx, input);
+  const date = new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+
+  if (input.clientLogoData) {
+    slide.addImage({ data: input.clientLogoData, x: MX, y: 0.6, w: 2.6, h: 0.9, sizing: { type: 'contain', w: 2.6, h: 0.9 } });
+  }
+  slide.addText('DISCOVERY & TRANSFORMATION REPORT', {
+    x: MX, y: 2.5, w: CW, h: 0.4, fontSize: 12, bold: true, charSpacing: 3, color: ctx.theme.primary,
+  });
+  slide.addText(input.workshopName, {
+    x: MX, y: 2.95, w: CW, h: 1.5, fontFace: ctx.theme.headingFont, fontSize: 44, bold: true, color, valign: 'top', fit: 'shrink',
+  });
+  if (input.orgName) {
+    slide.addText(input.orgName, { x: MX, y: 4.5, w: CW, h: 0.6, fontSize: 22, color, transparency: 30 });
+  }
+  slide.addText(`Prepared ${date} · DREAM Discovery Platform`, {
+    x: MX, y: SH - 1.0, w: CW, h: 0.4, fontSize: 11, color, transparency: 40,
+  });
+}
+
+function addChapter(ctx: DeckContext, input: NativeDeckInput, cfg: ReportSectionConfig) {
+  const slide = ctx.pptx.addSlide({ masterName: TITLE_MASTER });
+  slide.addShape(ctx.pptx.ShapeType.rect, { x: MX, y: 3.0, w: 0.9, h: 0.08, fill: { color: ctx.theme.secondary }, line: { color: ctx.theme.secondary } });
+  slide.addText(cfg.title, {
+    x: MX, y: 3.2, w: CW, h: 1.2, fontFace: ctx.theme.headingFont, fontSize: 40, bold: true, color: titleTextColor(ctx, input),
+  });
+}
+
+// ── Sections ──────────────────────────────────────────────────────────────────
+
+function addCustom(ctx: DeckContext, cfg: ReportSectionConfig) {
+  const content = cfg.customContent ?? {};
+  const slide = contentSlide(ctx, cfg.title);
+  const hasImage = !!content.imageUrl?.startsWith('data:');
+  const textW = hasImage ? CW / 2 - 0.2 : CW;
+
+  const paragraphs: PptxGenJS.TextProps[] = [];
+  if (content.text) paragraphs.push({ text: content.text, options: { fontSize: 14, color: ctx.theme.text, breakLine: true, paraSpaceAfter: 10 } });
+  if (content.commentary) paragraphs.push({ text: content.commentary, options: { fontSize: 12, italic: true, color: ctx.theme.mutedText } });
+  if (paragraphs.length) slide.addText(paragraphs, { x: MX, y: BODY_Y, w: textW, h: BODY_H, valign: 'top', fit: 'shrink' });
+
+  if (hasImage) {
+    const box = { x: MX + CW / 2 + 0.2, y: BODY_Y, w: CW / 2 - 0.2, h: BODY_H };
+    slide.addImage({ data: content.imageUrl!, ...box, altText: content.imageAlt, sizing: { type: 'contain', w: box.w, h: box.h } });
+  }
+}
+
+function addExecutiveSummary(ctx: DeckContext, reportSummary: ReportSummary, cfg: ReportSectionConfig) {
+  const es = reportSummary.executiveSummary;
+  const { theme } = ctx;
+
+  const slide = contentSlide(ctx, cfg.title, 'Executive Summary');
+  labelled(ctx, slide, 'The Ask', clip(es.theAsk || reportSummary.workshopAsk, 300), { x: MX, y: BODY_Y, w: CW / 2 - 0.15, h: 1.0 });
+  labelled(ctx, slide, 'The Answer', clip(es.theAnswer || reportSummary.keyInsight, 300), { x: MX + CW / 2 + 0.15, y: BODY_Y, w: CW / 2 - 0.15, h: 1.0 });
+
+  const findings = (es.whatWeFound ?? []).filter((_, i) => !isExcluded(cfg, `finding:${i}`)).slice(0, 8);
+  const positives = (es.whatWeFoundPositive ?? []).slice(0, 4);
+  const colY = BODY_Y + 1.2;
+  if (findings.length) {
+    card(ctx, slide, { x: MX, y: colY, w: positives.length ? CW * 0.62 : CW, h: BODY_H - 1.2 }, 'What We Found', bullets(findings, theme.text, 200), theme.primary);
+  }
+  if (positives.length) {
+    const x = findings.length ? MX + CW * 0.62 + 0.25 : MX;
+    card(ctx, slide, { x, y: colY, w: SW - MX - x, h: BODY_H - 1.2 }, 'What Is Working', bullets(positives, theme.text, 200), theme.secondary);
+  }
+
+  const lenses = (es.lensFindings ?? []).filter((lf) => !isExcluded(cfg, `lens:${lf.lens}`));
+  const decision = es.decisionAsk;
+  if (!lenses.length && !es.whyItMatters && !decision) return;
+
+  const detail = contentSlide(ctx, 'Why It Matters', 'Executive Summary');
+  let y = BODY_Y;
+  if (es.whyItMatters || es.urgency) {
+    labelled(ctx, detail, 'Why It Matters', clip([es.whyItMatters, es.urgency].filter(Boolean).join(' '), 600), { x: MX, y, w: CW, h: 1.1 });
+    y += 1.2;
+  }
+  if (decision?.statement) {
+    card(ctx, detail, { x: MX, y, w: CW, h: 1.1 }, 'The Decision', [
+      { text: clip(decision.statement, 260), options: { breakLine: true } },
+      ...(decision.recommendation ? [{ text: `Recommendation: ${clip(decision.recommendation, 200)}`, options: { bold: true } }] : []),
+    ], theme.secondary);
+    y += 1.25;
+  }
+  if (lenses.length) {
+    addTable(ctx, detail, [
+      headerRow(ctx, ['Lens', 'Finding']),
+      ...lenses.map((lf) => [{ text: lf.lens, options: { bold: true } }, { text: clip(lf.finding, 260) }]),
+    ], { y, colW: [2.4, CW - 2.4] });
+  }
+}
+
+function addSolutionDirection(ctx: DeckContext, reportSummary: ReportSummary, cfg: ReportSectionConfig) {
+  const ss = reportSummary.solutionSummary;
+  if (!ss) return;
+  const { theme } = ctx;
+
+  const slide = contentSlide(ctx, cfg.title, 'Solution Direction');
+  if (ss.direction) {
+    slide.addText(clip(ss.direction, 220), {
+      shape: ctx.pptx.ShapeType.roundRect, rectRadius: 0.08,
+      x: MX, y: BODY_Y, w: CW, h: 1.0, fill: { color: theme.primary },
+      fontFace: theme.headingFont, fontSize: 18, bold: true, color: 'FFFFFF', margin: 0.2, valign: 'middle', fit: 'shrink',
+    });
+  }
+  const lowerY = BODY_Y + 1.25;
+  const halfW = CW / 2 - 0.15;
+  if (ss.rationale || ss.startingPoint) {
+    slide.addText([
+      ...(ss.rationale ? [
+        { text: 'THE RATIONALE', options: { fontSize: 10, bold: true, color: theme.primary, breakLine: true, paraSpaceAfter: 4 } },
+        { text: clip(ss.rationale, 500), options: { fontSize: 12, color: theme.text, breakLine: true, paraSpaceAfter: 12 } },
+      ] : []),
+      ...(ss.startingPoint ? [
+        { text: 'WHERE TO START', options: { fontSize: 10, bold: true, color: theme.primary, breakLine: true, paraSpaceAfter: 4 } },
+        { text: clip(ss.startingPoint, 500), options: { fontSize: 12, color: theme.text } },
+      ] : []),
+    ], { x: MX, y: lowerY, w: halfW, h: BODY_H - 1.25, valign: 'top', fit: 'shrink' });
+  }
+  if (ss.successIndicators?.length) {
+    card(ctx, slide, { x: MX + halfW + 0.3, y: lowerY, w: halfW, h: BODY_H - 1.25 }, 'Success Indicators', bullets(ss.successIndicators.slice(0, 6), theme.text), theme.secondary);
+  }
+
+  const changes = (ss.whatMustChange ?? []).filter((_, i) => !isExcluded(cfg, `step:${i}`));
+  if (changes.length) {
+    const table = contentSlide(ctx, 'What Must Change', 'Solution Direction');
+    addTable(ctx, table, [
+      headerRow(ctx, ['Area', "Today's Reality", 'Required Change']),
+      ...changes.map((c) => [
+        { text: c.area, options: { bold: true } },
+        { text: clip(c.currentState, 300) },
+        { text: clip(c.requiredChange, 300), options: { color: theme.text, fill: { color: 'F0FDF4' } } },
+      ]),
+    ], { y: BODY_Y, colW: [2.6, (CW - 2.6) / 2, (CW - 2.6) / 2] });
+  }
+}
+
+function addStrategicImpact(ctx: DeckContext, si: StrategicImpact | undefined, cfg: ReportSectionConfig) {
+  if (!si) return;
+  const { pptx, theme } = ctx;
+
+  const buckets = [
+    { id: 'automation', label: 'Automation Potential', bucket: si.automationPotential },
+    { id: 'ai_assisted', label: 'AI-Assisted Work', bucket: si.aiAssistedWork },
+    { id: 'human_only', label: 'Human-Only Work', bucket: si.humanOnlyWork },
+  ].filter((b) => b.bucket && typeof b.bucket.percentage === 'number' && !isExcluded(cfg, b.id));
+
+  const slide = contentSlide(ctx, cfg.title, 'Strategic Impact');
+  const chartW = buckets.length ? 5.2 : 0;
+  if (buckets.length) {
+    slide.addChart(pptx.ChartType.doughnut, [{
+      name: 'Work mix',
+      labels: buckets.map((b) => b.label),
+      values: buckets.map((b) => b.bucket!.percentage),
+    }], {
+      x: MX, y: BODY_Y, w: chartW, h: 4.2,
+      chartColors: theme.accents.slice(0, buckets.length), holeSize: 55,
+      showPercent: false, showValue: true, dataLabelFormatCode: '0"%"', dataLabelColor: 'FFFFFF',
+      showLegend: true, legendPos: 'b', legendFontSize: 11,
+    });
+  }
+
+  const textX = MX + chartW + (chartW ? 0.3 : 0);
+  const textW = SW - MX - textX;
+  if (si.businessCaseSummary) {
+    labelled(ctx, slide, 'Business Case', clip(si.businessCaseSummary, 700), { x: textX, y: BODY_Y, w: textW, h: 2.6 });
+  }
+  if (buckets.length) {
+    slide.addText(buckets.map((b) => ({
+      text: `${b.label} (${b.bucket!.percentage}%): ${clip(b.bucket!.description, 160)}`,
+      options: { bullet: true, breakLine: true, paraSpaceAfter: 4 },
+    })), { x: textX, y: BODY_Y + 2.7, w: textW, h: 2.0, fontSize: 11, color: theme.text, valign: 'top', fit: 'shrink' });
+  }
+  if (si.confidenceScore !== null && si.confidenceScore !== undefined) {
+    statBox(ctx, slide, { x: MX, y: BODY_Y + 4.4, w: 2.4, h: 1.0 }, `${si.confidenceScore}%`, 'Confidence', theme.secondary);
+  }
+
+  const gains = si.efficiencyGains ?? [];
+  const experience = si.experienceImprovements ?? [];
+  if (!gains.length && !experience.length) return;
+
+  const detail = contentSlide(ctx, 'Efficiency & Experience', 'Strategic Impact');
+  let y = BODY_Y;
+  if (gains.length) {
+    addTable(ctx, detail, [
+      headerRow(ctx, ['Metric', 'Estimated', 'Basis']),
+      ...gains.map((g) => [{ text: g.metric, options: { bold: true } }, { text: g.estimated }, { text: clip(g.basis, 220) }]),
+    ], { y, colW: [3.2, 2.2, CW - 5.4] });
+    y += Math.min(0.4 * (gains.length + 1) + 0.3, 2.8);
+  }
+  if (experience.length) {
+    addTable(ctx, detail, [
+      headerRow(ctx, ['Dimension', 'Today', 'Future', 'Impact']),
+      ...experience.map((e) => [
+        { text: e.dimension, options: { bold: true } },
+        { text: clip(e.currentState, 160) },
+        { text: clip(e.futureState, 160) },
+        { text: clip(e.impact, 160) },
+      ]),
+    ], { y, colW: [2.4, (CW - 2.4) / 3, (CW - 2.4) / 3, (CW - 2.4) / 3] });
+  }
+}
+
+function addWayForward(ctx: DeckContext, roadmap: ExecutionRoadmap | undefined, cfg: ReportSectionConfig) {
+  const phases = (roadmap?.phases ?? []).filter((_, i) => !isExcluded(cfg, `phase:${i}`));
+  if (!roadmap || (!phases.length && !roadmap.roiSummary)) return;
+  const { pptx, theme } = ctx;
+
+  if (phases.length) {
+    const slide = contentSlide(ctx, cfg.title, 'Execution Roadmap');
+    const gap = 0.35;
+    const colW = (CW - gap * (phases.length - 1)) / phases.length;
+    const colH = roadmap.criticalPath ? BODY_H - 1.1 : BODY_H - 0.2;
+
+    phases.forEach((phase, i) => {
+      const x = MX + i * (colW + gap);
+      const color = theme.accents[i % theme.accents.length];
+      slide.addText([
+        { text: phase.phase, options: { bold: true, breakLine: true } },
+        { text: phase.timeframe ?? '', options: { fontSize: 10 } },
+      ], {
+        shape: pptx.ShapeType.chevron, x, y: BODY_Y, w: colW, h: 0.8,
+        fill: { color }, color: 'FFFFFF', fontSize: 12, align: 'center', valign: 'middle', fit: 'shrink',
+      });
+      card(ctx, slide, { x, y: BODY_Y + 0.95, w: colW, h: colH - 0.95 }, 'Initiatives', [
+        ...(phase.initiatives ?? []).slice(0, 5).map((init) => ({
+          text: init.outcome ? `${init.title} — ${clip(init.outcome, 90)}` : init.title,
+          options: { bullet: true, breakLine: true, paraSpaceAfter: 4 },
+        })),
+        ...(phase.capabilities?.length
+          ? [{ text: `Capabilities: ${phase.capabilities.slice(0, 4).join(', ')}`, options: { italic: true, color: theme.mutedText } }]
+          : []),
+      ], color);
+    });
+
+    if (roadmap.criticalPath) {
+      labelled(ctx, slide, 'Critical Path', clip(roadmap.criticalPath, 320), { x: MX, y: BODY_Y + colH + 0.1, w: CW, h: 0.9 });
+    }
+  }
+
+  const roi = roadmap.roiSummary;
+  if (!roi && !roadmap.keyRisks?.length) return;
+
+  const slide = contentSlide(ctx, 'Business Case & Risks', 'Execution Roadmap');
+  let y = BODY_Y;
+  if (roi) {
+    const stats = [
+      { value: roi.totalProgrammeCost, label: 'Programme investment' },
+      { value: roi.totalThreeYearBenefit, label: '3-year benefit' },
+      { value: roi.paybackPeriod, label: 'Payback' },
+    ].filter((s) => s.value);
+    const statW = (CW - 0.3 * (stats.length - 1)) / Math.max(stats.length, 1);
+    stats.forEach((s, i) => statBox(ctx, slide, { x: MX + i * (statW + 0.3), y, w: statW, h: 1.0 }, s.value, s.label, theme.accents[i % theme.accents.length]));
+    y += stats.length ? 1.2 : 0;
+
+    if (roi.phases?.length) {
+      addTable(ctx, slide, [
+        headerRow(ctx, ['Phase', 'Cost', 'Annual Benefit', 'Break-even', 'ROI', 'Confidence']),
+        ...roi.phases.map((p) => [
+          { text: p.phase, options: { bold: true } },
+          { text: p.estimatedCost }, { text: p.estimatedAnnualBenefit }, { text: p.breakEvenTimeline },
+          { text: p.roiMultiple }, { text: p.confidenceLevel },
+        ]),
+      ], { y, colW: [2.3, 2.1, 2.3, 1.8, 1.2, CW - 9.7] });
+      y += 0.4 * (roi.phases.length + 1) + 0.25;
+    }
+  }
+  const notes = [
+    ...(roi?.narrative ? [{ text: clip(roi.narrative, 300), options: { breakLine: true, paraSpaceAfter: 8 } }] : []),
+    ...(roadmap.keyRisks?.length
+      ? [{ text: 'KEY RISKS', options: { fontSize: 10, bold: true, color: theme.primary, breakLine: true, paraSpaceAfter: 4 } },
+        ...bullets(roadmap.keyRisks.slice(0, 5), theme.text, 160)]
+      : []),
+  ];
+  if (notes.length && y < SH - 1.2) {
+    slide.addText(notes, { x: MX, y, w: CW, h: SH - 0.6 - y, fontSize: 12, color: theme.text, valign: 'top', fit: 'shrink' });
+  }
+}
+
+function addTransformationLogic(ctx: DeckContext, tlm: TransformationLogicMap | undefined, cfg: ReportSectionConfig) {
+  if (!tlm) return;
+  const { pptx, theme } = ctx;
+
+  const points = [...(tlm.coalescencePoints ?? [])]
+    .sort((a, b) => b.compositeScore - a.compositeScore)
+    .slice(0, 8);
+
+  const slide = contentSlide(ctx, cfg.title, 'Transformation Logic');
+  const chartW = points.length ? CW * 0.6 : 0;
+  if (points.length) {
+    // Horizontal bars are drawn bottom-up, so reverse to put the highest score on top
+    const bars = [...points].reverse();
+    slide.addChart(pptx.ChartType.bar, [{
+      name: 'Coalescence score',
+      labels: bars.map((p) => clip(p.label, 40)),
+      values: bars.map((p) => Math.round(p.compositeScore * 100) / 100),
+    }], {
+      x: MX, y: BODY_Y, w: chartW, h: BODY_H - 0.2,
+      barDir: 'bar', chartColors: [theme.primary],
+      catAxisLabelFontSize: 10, valAxisLabelFontSize: 9, showValue: true, dataLabelFontSize: 9,
+      showTitle: true, title: 'Where transformation pressure converges', titleFontSize: 12, titleColor: theme.text,
+    });
+  }
+  const sideX = MX + chartW + (chartW ? 0.3 : 0);
+  const sideW = SW - MX - sideX;
+  statBox(ctx, slide, { x: sideX, y: BODY_Y, w: sideW, h: 1.1 }, `${Math.round(tlm.coverageScore ?? 0)}%`, 'Constraints with a complete path', theme.secondary);
+  const orphans = tlm.orphanSummary;
+  slide.addText([
+    ...(tlm.interpretationSummary ? [{ text: clip(tlm.interpretationSummary, 450), options: { breakLine: true, paraSpaceAfter: 10 } }] : []),
+    ...(orphans ? [
+      { text: 'UNCONNECTED', options: { fontSize: 10, bold: true, color: theme.primary, breakLine: true, paraSpaceAfter: 4 } },
+      ...bullets([
+        `${orphans.constraintOrphans} constraints with no transformation plan`,
+        `${orphans.enablerOrphans} enablers with no purpose`,
+        `${orphans.visionOrphans} vision items with no execution path`,
+      ], theme.text),
+    ] : []),
+  ], { x: sideX, y: BODY_Y + 1.3, w: sideW, h: BODY_H - 1.5, fontSize: 12, color: theme.text, valign: 'top', fit: 'shrink' });
+
+  const chains = (tlm.strongestChains ?? []).filter((c) => !isExcluded(cfg, c.chainId)).slice(0, 5);
+  if (!chains.length) return;
+
+  const chainSlide = contentSlide(ctx, 'Strongest Transformation Chains', 'Transformation Logic');
+  const labels = ['Constraint', 'Enabler', 'Reimagined Future'];
+  const boxW = 3.3;
+  const arrowW = 0.55;
+  const rowH = Math.min(0.95, (BODY_H - 0.5) / chains.length - 0.12);
+  labels.forEach((label, i) => {
+    chainSlide.addText(label.toUpperCase(), {
+      x: MX + i * (boxW + arrowW + 0.15), y: BODY_Y, w: boxW, h: 0.3, fontSize: 10, bold: true, color: theme.mutedText, align: 'center',
+    });
+  });
+
+  chains.forEach((chain, row) => {
+    const y = BODY_Y + 0.4 + row * (rowH + 0.12);
+    const steps = [chain.constraintLabel, chain.enablerLabel, chain.reimaginationLabel];
+    steps.forEach((step, i) => {
+      const x = MX + i * (boxW + arrowW + 0.15);
+      const color = theme.accents[i % theme.accents.length];
+      chainSlide.addText(clip(step, 90), {
+        shape: pptx.ShapeType.roundRect, rectRadius: 0.08, x, y, w: boxW, h: rowH,
+        fill: { color: 'F8FAFC' }, line: { color, width: 1.5 }, fontSize: 11, color: theme.text,
+        align: 'center', valign: 'middle', fit: 'shrink',
+      });
+      if (i < steps.length - 1) {
+        chainSlide.addShape(pptx.ShapeType.rightArrow, {
+          x: x + boxW + 0.075, y: y + rowH / 2 - 0.15, w: arrowW, h: 0.3, fill: { color: theme.mutedText }, line: { color: theme.mutedText },
+        });
+      }
+    });
+    chainSlide.addText(`${Math.round(chain.chainStrength * 100)}%`, {
+      x: SW - MX - 0.9, y, w: 0.9, h: rowH, fontSize: 14, bold: true, color: theme.primary, align: 'right', valign: 'middle',
+    });
+  });
+}
+
+function addConclusion(ctx: DeckContext, reportSummary: ReportSummary, cfg: ReportSectionConfig) {
+  const conclusion = reportSummary.reportConclusion;
+  if (!conclusion?.summary && !conclusion?.nextSteps?.length) return;
+  const { theme } = ctx;
+
+  const slide = contentSlide(ctx, cfg.title);
+  const steps = (conclusion.nextSteps ?? []).filter((s) => !isExcluded(cfg, s.id)).slice(0, 6);
+  let y = BODY_Y;
+  if (conclusion.summary) {
+    slide.addText(clip(conclusion.summary, 600), { x: MX, y, w: CW, h: 1.3, fontSize: 14, color: theme.text, valign: 'top', fit: 'shrink' });
+    y += 1.45;
+  }
+  if (!steps.length) return;
+
+  const cols = Math.min(steps.length, 3);
+  const rows = Math.ceil(steps.length / cols);
+  const gap = 0.3;
+  const w = (CW - gap * (cols - 1)) / cols;
+  const h = (SH - 0.7 - y - gap * (rows - 1)) / rows;
+  steps.forEach((step, i) => {
+    const box = { x: MX + (i % cols) * (w + gap), y: y + Math.floor(i / cols) * (h + gap), w, h };
+    card(ctx, slide, box, `${i + 1}. ${step.title}`, [{ text: clip(step.description, 240) }], theme.accents[i % theme.accents.length]);
+  });
+}
+
+// ── Deck ──────────────────────────────────────────────────────────────────────
+
+/**
+ * Builds the editable deck. Returns a section-by-section rendering of the
+ * enabled layout; sections without source data produce no slide.
+ */
+export async function buildNativeDeck(input: NativeDeckInput): Promise<NativeDeck> {
+  const { reportSummary, intelligence, layout, theme } = input;
+
+  const pptx = new PptxGenJS();
+  pptx.layout  = 'LAYOUT_WIDE';   // 13.33" × 7.5"
+  pptx.title   = input.workshopName;
+  pptx.subject = 'Discovery & Transformation Report';
+  pptx.author  = 'DREAM Discovery Platform';
+  pptx.theme   = { headFontFace: theme.headingFont, bodyFontFace: theme.bodyFont };
+
+  const ctx: DeckContext = { pptx, theme };
+  defineMasters(ctx, input);
+  addCover(ctx, input);
+
+  const skippedSections: string[] = [];
+  for (const cfg of layout.sections.filter((s) => s.enabled)) {
+    if (cfg.type === 'chapter') { addChapter(ctx, input, cfg); continue; }
+    if (cfg.type === 'custom')  { addCustom(ctx, cfg); continue; }
+    switch (cfg.id) {
+      case 'executive_summary':         addExecutiveSummary(ctx, reportSummary, cfg); break;
+      case 'solution_direction':        addSolutionDirection(ctx, reportSummary, cfg); break;
+      case 'strategic_impact':          addStrategicImpact(ctx, intelligence.strategicImpact, cfg); break;
+      case 'way_forward':               addWayForward(ctx, intelligence.roadmap, cfg); break;
+      case 'transformation_priorities': addTransformationLogic(ctx, intelligence.transformationLogicMap, cfg); break;
+      case 'report_conclusion':         addConclusion(ctx, reportSummary, cfg); break;
+      default: skippedSections.push(cfg.title);
+    }
+  }
+
+  const data = await pptx.write({ outputType: 'nodebuffer' });
+  return { buffer: Buffer.from(data as ArrayBuffer), skippedSections };
+}
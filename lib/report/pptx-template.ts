@@ -0,0 +1,248 @@
+/**
+ * Organisation PowerPoint master templates for the editable deck export.
+ *
+ * pptxgenjs cannot build on top of an existing .pptx, so an uploaded template
+ * is read for what a deck inherits from its master: the theme colour scheme,
+ * the heading/body fonts and the background artwork of the slide master and
+ * its title layout. Those are stored on Organization.pptxTemplate and applied
+ * to the slide masters lib/report/pptx-native.ts defines.
+ *
+ * The deck theme falls back to the organisation's brand colours, then to the
+ * DREAM palette, for anything the template does not provide.
+ */
+
+import JSZip from 'jszip';
+import path from 'path';
+
+export const PPTX_TEMPLATE_MAX_BYTES = 20 * 1024 * 1024;
+
+const THEME_COLOR_SLOTS = [
+  'dk1', 'lt1', 'dk2', 'lt2',
+  'accent1', 'accent2', 'accent3', 'accent4', 'accent5', 'accent6',
+] as const;
+
+export type ThemeColorSlot = (typeof THEME_COLOR_SLOTS)[number];
+
+/** What is kept on Organization.pptxTemplate */
+export interface StoredPptxTemplate {
+  fileName: string;
+  uploadedAt: string;
+  /** 6-digit hex, no leading # */
+  colors: Partial<Record<ThemeColorSlot, string>>;
+  fonts: { heading: string | null; body: string | null };
+  backgroundUrl: string | null;
+  titleBackgroundUrl: string | null;
+}
+
+export interface TemplateImage {
+  data: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+export interface ParsedPptxTemplate {
+  colors: Partial<Record<ThemeColorSlot, string>>;
+  fonts: { heading: string | null; body: string | null };
+  background: TemplateImage | null;
+  titleBackground: TemplateImage | null;
+}
+
+export class PptxTemplateError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = 'PptxTemplateError';
+  }
+}
+
+// ══════════════════════════════════════════════════════════════
+// PARSING
+// ══════════════════════════════════════════════════════════════
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+};
+
+/** Relationship id → resolved zip path for a part's .rels file */
+async function readRelationships(zip: JSZip, partPath: string): Promise<Map<string, { type: string; target: string }>> {
+  const relsPath = path.posix.join(path.posix.dirname(partPath), '_rels', `${path.posix.basename(partPath)}.rels`);
+  const xml = await zip.file(relsPath)?.async('string');
+  const rels = new Map<string, { type: string; target: string }>();
+  if (!xml) return rels;
+  for (const match of xml.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    const attrs = match[1];
+    const id = /\bId="([^"]+)"/.exec(attrs)?.[1];
+    const type = /\bType="([^"]+)"/.exec(attrs)?.[1] ?? '';
+    const target = /\bTarget="([^"]+)"/.exec(attrs)?.[1];
+    if (!id || !target || /\bTargetMode="External"/.test(attrs)) continue;
+    rels.set(id, { type, target: path.posix.normalize(path.posix.join(path.posix.dirname(partPath), target)) });
+  }
+  return rels;
+}
+
+function readThemeColors(themeXml: string): Partial<Record<ThemeColorSlot, string>> {
+  const colors: Partial<Record<ThemeColorSlot, string>> = {};
+  for (const slot of THEME_COLOR_SLOTS) {
+    const block = new RegExp(`<a:${slot}>([\\s\\S]*?)</a:${slot}>`).exec(themeXml)?.[1];
+    if (!block) continue;
+    const hex = /<a:srgbClr\s+val="([0-9A-Fa-f]{6})"/.exec(block)?.[1]
+      ?? /<a:sysClr\b[^>]*\blastClr="([0-9A-Fa-f]{6})"/.exec(block)?.[1];
+    if (hex) colors[slot] = hex.toUpperCase();
+  }
+  return colors;
+}
+
+function readThemeFont(themeXml: string, kind: 'majorFont' | 'minorFont'): string | null {
+  const block = new RegExp(`<a:${kind}>([\\s\\S]*?)</a:${kind}>`).exec(themeXml)?.[1];
+  const typeface = block ? /<a:latin\s+typeface="([^"]*)"/.exec(block)?.[1] : undefined;
+  // "+mj-lt"-style references point back into the theme and are not font names
+  return typeface && !typeface.startsWith('+') ? typeface : null;
+}
+
+/** The picture fill of a part's <p:bg>, if it has one */
+async function readBackgroundImage(zip: JSZip, partPath: string, partXml: string): Promise<TemplateImage | null> {
+  const bg = /<p:bg>([\s\S]*?)<\/p:bg>/.exec(partXml)?.[1];
+  const embedId = bg ? /<a:blip\b[^>]*\br:embed="([^"]+)"/.exec(bg)?.[1] : undefined;
+  if (!embedId) return null;
+
+  const rel = (await readRelationships(zip, partPath)).get(embedId);
+  const extension = rel ? path.posix.extname(rel.target).slice(1).toLowerCase() : '';
+  const contentType = IMAGE_TYPES[extension];
+  const file = rel ? zip.file(rel.target) : null;
+  if (!contentType || !file) return null;
+  return { data: await file.async('nodebuffer'), contentType, extension };
+}
+
+/**
+ * Read a .pptx/.potx template. Throws a PptxTemplateError when the file is
+ * not a PowerPoint package.
+ */
+export async function parsePptxTemplate(buffer: Buffer): Promise<ParsedPptxTemplate> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new PptxTemplateError('Template must be a .pptx or .potx file');
+  }
+
+  const masterPath = Object.keys(zip.files)
+    .filter((name) => /^ppt\/slideMasters\/slideMaster\d+\.xml$/.test(name))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))[0];
+  if (!masterPath) throw new PptxTemplateError('Template has no slide master');
+
+  const masterXml = await zip.file(masterPath)!.async('string');
+  const masterRels = await readRelationships(zip, masterPath);
+
+  const themePath = [...masterRels.values()].find((r) => r.type.endsWith('/theme'))?.target ?? 'ppt/theme/theme1.xml';
+  const themeXml = await zip.file(themePath)?.async('string') ?? '';
+
+  let titleBackground: TemplateImage | null = null;
+  for (const rel of masterRels.values()) {
+    if (!rel.type.endsWith('/slideLayout')) continue;
+    const layoutXml = await zip.file(rel.target)?.async('string');
+    if (layoutXml && /<p:sldLayout\b[^>]*\btype="title"/.test(layoutXml)) {
+      titleBackground = await readBackgroundImage(zip, rel.target, layoutXml);
+      break;
+    }
+  }
+
+  return {
+    colors: readThemeColors(themeXml),
+    fonts: { heading: readThemeFont(themeXml, 'majorFont'), body: readThemeFont(themeXml, 'minorFont') },
+    background: await readBackgroundImage(zip, masterPath, masterXml),
+    titleBackground,
+  };
+}
+
+/** Organization.pptxTemplate as stored, or null when unset or malformed */
+export function readStoredPptxTemplate(value: unknown): StoredPptxTemplate | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const raw = value as Partial<StoredPptxTemplate>;
+  if (typeof raw.fileName !== 'string') return null;
+  return {
+    fileName: raw.fileName,
+    uploadedAt: typeof raw.uploadedAt === 'string' ? raw.uploadedAt : '',
+    colors: raw.colors && typeof raw.colors === 'object' ? raw.colors : {},
+    fonts: {
+      heading: typeof raw.fonts?.heading === 'string' ? raw.fonts.heading : null,
+      body: typeof raw.fonts?.body === 'string' ? raw.fonts.body : null,
+    },
+    backgroundUrl: typeof raw.backgroundUrl === 'string' ? raw.backgroundUrl : null,
+    titleBackgroundUrl: typeof raw.titleBackgroundUrl === 'string' ? raw.titleBackgroundUrl : null,
+  };
+}
+
+// ══════════════════════════════════════════════════════════════
+// DECK THEME
+// ══════════════════════════════════════════════════════════════
+
+/** Colours and fonts the native deck is drawn with (hex without #) */
+export interface DeckTheme {
+  primary: string;
+  secondary: string;
+  /** Chart series colours, primary first */
+  accents: string[];
+  text: string;
+  mutedText: string;
+  background: string;
+  headingFont: string;
+  bodyFont: string;
+  backgroundUrl: string | null;
+  titleBackgroundUrl: string | null;
+}
+
+const DEFAULT_THEME: DeckTheme = {
+  primary: '6366F1',
+  secondary: '10B981',
+  accents: ['6366F1', '10B981', '8B5CF6', 'F59E0B', 'EF4444', '0EA5E9'],
+  text: '0F172A',
+  mutedText: '64748B',
+  background: 'FFFFFF',
+  headingFont: 'Calibri',
+  bodyFont: 'Calibri',
+  backgroundUrl: null,
+  titleBackgroundUrl: null,
+};
+
+function normaliseHex(value: string | null | undefined): string | null {
+  const hex = value?.trim().replace(/^#/, '');
+  if (!hex) return null;
+  if (/^[0-9a-f]{6}$/i.test(hex)) return hex.toUpperCase();
+  if (/^[0-9a-f]{3}$/i.test(hex)) return hex.split('').map((c) => c + c).join('').toUpperCase();
+  return null;
+}
+
+/**
+ * Resolve the deck theme: template theme colours first, then the
+ * organisation's primary/secondary brand colours, then the DREAM defaults.
+ */
+export function resolveDeckTheme(org: {
+  primaryColor?: string | null;
+  secondaryColor?: string | null;
+  pptxTemplate?: StoredPptxTemplate | null;
+} | null): DeckTheme {
+  const template = org?.pptxTemplate ?? null;
+  const colors = template?.colors ?? {};
+
+  const primary = normaliseHex(colors.accent1) ?? normaliseHex(org?.primaryColor) ?? DEFAULT_THEME.primary;
+  const secondary = normaliseHex(colors.accent2) ?? normaliseHex(org?.secondaryColor) ?? DEFAULT_THEME.secondary;
+  const templateAccents = (['accent3', 'accent4', 'accent5', 'accent6'] as const)
+    .map((slot) => normaliseHex(colors[slot]))
+    .filter((c): c is string => !!c);
+  const accents = [primary, secondary, ...(templateAccents.length ? templateAccents : DEFAULT_THEME.accents.slice(2))];
+
+  return {
+    primary,
+    secondary,
+    accents,
+    text: normaliseHex(colors.dk1) ?? DEFAULT_THEME.text,
+    mutedText: normaliseHex(colors.dk2) ?? DEFAULT_THEME.mutedText,
+    background: normaliseHex(colors.lt1) ?? DEFAULT_THEME.background,
+    headingFont: template?.fonts.heading || DEFAULT_THEME.headingFont,
+    bodyFont: template?.fonts.body || DEFAULT_THEME.bodyFont,
+    backgroundUrl: template?.backgroundUrl ?? null,
+    titleBackgroundUrl: template?.titleBackgroundUrl ?? null,
+  };
+}
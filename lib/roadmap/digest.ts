@@ -0,0 +1,147 @@
+/**
+ * Roadmap Digest — Overdue and Blocked Initiatives
+ *
+ * Weekly email (app/api/cron/roadmap-digest) that keeps clients working the
+ * roadmap after the workshop. Executive licence holders receive every
+ * flagged initiative for their organisation; initiative owners with an email
+ * address receive only their own.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { sendRoadmapDigest } from '@/lib/email/send';
+import type { RoadmapDigestItem } from '@/lib/email/templates';
+import { isOverdue } from './initiatives';
+
+// ── Types ────────────────────────────────────────────────────
+
+export interface DigestInitiative {
+  organizationId: string;
+  title: string;
+  phase: string;
+  owner: string | null;
+  ownerEmail: string | null;
+  status: string;
+  dueDate: Date | null;
+  workshop: { name: string };
+  notes: Array<{ body: string }>;
+}
+
+export interface DigestRecipient {
+  organizationId: string;
+  email: string;
+  name: string;
+}
+
+export interface RoadmapDigest {
+  organizationId: string;
+  to: string;
+  recipientName: string;
+  items: RoadmapDigestItem[];
+}
+
+// ── Grouping ─────────────────────────────────────────────────
+
+function toDigestItem(initiative: DigestInitiative, now: Date): RoadmapDigestItem {
+  return {
+    title: initiative.title,
+    workshopName: initiative.workshop.name,
+    phase: initiative.phase,
+    owner: initiative.owner,
+    status: initiative.status,
+    dueDate: initiative.dueDate ? initiative.dueDate.toISOString().slice(0, 10) : null,
+    overdue: isOverdue(initiative, now),
+    blocked: initiative.status === 'blocked',
+    latestNote: initiative.notes[0]?.body ?? null,
+  };
+}
+
+/**
+ * One digest per recipient. `initiatives` should already be limited to
+ * overdue or blocked ones; anything else is ignored.
+ */
+export function groupRoadmapDigests(
+  initiatives: DigestInitiative[],
+  execRecipients: DigestRecipient[],
+  now = new Date(),
+): RoadmapDigest[] {
+  const flagged = initiatives.filter((i) => i.status === 'blocked' || isOverdue(i, now));
+  const digests = new Map<string, RoadmapDigest>();
+
+  const add = (organizationId: string, email: string, name: string, initiative: DigestInitiative) => {
+    const key = `${organizationId}:${email.toLowerCase()}`;
+    const digest = digests.get(key) ?? { organizationId, to: email, recipientName: name, items: [] };
+    digest.items.push(toDigestItem(initiative, now));
+    digests.set(key, digest);
+  };
+
+  for (const initiative of flagged) {
+    const execs = execRecipients.filter((r) => r.organizationId === initiative.organizationId);
+    for (const exec of execs) add(exec.organizationId, exec.email, exec.name, initiative);
+
+    const ownerEmail = initiative.ownerEmail?.trim();
+    if (ownerEmail && !execs.some((e) => e.email.toLowerCase() === ownerEmail.toLowerCase())) {
+      add(initiative.organizationId, ownerEmail, initiative.owner ?? ownerEmail, initiative);
+    }
+  }
+
+  return [...digests.values()];
+}
+
+// ── Sending ──────────────────────────────────────────────────
+
+/** Find overdue or blocked initiatives across all organisations and email digests. */
+export async function sendRoadmapDigests(now = new Date()): Promise<{ sent: number; failed: number }> {
+  const initiatives = await prisma.roadmapInitiative.findMany({
+    where: {
+      retiredAt: null,
+      status: { notIn: ['done', 'cancelled'] },
+      OR: [{ status: 'blocked' }, { dueDate: { lt: now } }],
+    },
+    orderBy: { dueDate: 'asc' },
+    select: {
+      organizationId: true,
+      title: true,
+      phase: true,
+      owner: true,
+      ownerEmail: true,
+      status: true,
+      dueDate: true,
+      workshop: { select: { name: true } },
+      notes: { orderBy: { createdAt: 'desc' }, take: 1, select: { body: true } },
+    },
+  });
+  if (initiatives.length === 0) return { sent: 0, failed: 0 };
+
+  const organizationIds = [...new Set(initiatives.map((i) => i.organizationId))];
+  const [licences, organizations] = await Promise.all([
+    prisma.execLicence.findMany({
+      where: { organizationId: { in: organizationIds }, isActive: true, revokedAt: null },
+      select: { organizationId: true, email: true, name: true },
+    }),
+    prisma.organization.findMany({
+      where: { id: { in: organizationIds } },
+      select: { id: true, name: true },
+    }),
+  ]);
+  const orgNames = new Map(organizations.map((o) => [o.id, o.name]));
+  const roadmapUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/executive/roadmap`;
+
+  let sent = 0;
+  let failed = 0;
+  for (const digest of groupRoadmapDigests(initiatives, licences, now)) {
+    try {
+      await sendRoadmapDigest({
+        to: digest.to,
+        recipientName: digest.recipientName,
+        organizationName: orgNames.get(digest.organizationId) ?? 'DREAM Discovery',
+        roadmapUrl,
+        items: digest.items,
+      });
+      sent++;
+    } catch (error) {
+      failed++;
+      console.error(`[RoadmapDigest] Failed to send digest to ${digest.to}:`, error);
+    }
+  }
+  return { sent, failed };
+}
@@ -0,0 +1,322 @@
+/**
+ * Roadmap Initiatives — Live Tracking Records
+ *
+ * The generated ExecutionRoadmap (outputIntelligence.roadmap) is a frozen
+ * JSON snapshot. Each of its initiatives is promoted to a RoadmapInitiative
+ * record so owners, status, due dates, dependencies and progress notes can be
+ * maintained after the workshop.
+ *
+ * Each record has a stable sourceKey assigned when it is first created.
+ * Re-synthesis rewords initiatives, so a sync matches each generated
+ * initiative to the existing record it most resembles (same title, else
+ * enough shared wording), refreshes that record's generated text and
+ * root-cause / constraint links and never touches tracking fields. Records
+ * the new roadmap no longer contains are retired: kept with their notes,
+ * but left out of the portal and digests until a later roadmap brings them
+ * back.
+ */
+
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+import type { WorkshopOutputIntelligence } from '@/lib/output-intelligence/types';
+
+// ── Types ────────────────────────────────────────────────────
+
+export const INITIATIVE_STATUSES = ['not_started', 'in_progress', 'blocked', 'done', 'cancelled'] as const;
+
+export type InitiativeStatus = (typeof INITIATIVE_STATUSES)[number];
+
+/** Statuses that no longer count towards overdue / blocked digests */
+const CLOSED_STATUSES: InitiativeStatus[] = ['done', 'cancelled'];
+
+export class RoadmapInitiativeError extends Error {
+  constructor(message: string, readonly status: 400 | 404 = 400) {
+    super(message);
+    this.name = 'RoadmapInitiativeError';
+  }
+}
+
+export interface GeneratedInitiative {
+  phase: string;
+  title: string;
+  description: string;
+  outcome: string;
+  rootCauses: string[];
+  constraints: string[];
+}
+
+// ── Linking ──────────────────────────────────────────────────
+
+/** Share of a reference's significant words that must appear in the initiative */
+const LINK_THRESHOLD = 0.4;
+const MAX_LINKS = 3;
+/** Share of wording two versions of an initiative must have in common to count as the same one */
+const MATCH_THRESHOLD = 0.5;
+
+function significantWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9 ]/g, ' ')
+      .split(/\s+/)
+      .filter((w) => w.length > 3),
+  );
+}
+
+function normalisedTitle(title: string): string {
+  return [...significantWords(title)].join(' ') || title.trim().toLowerCase();
+}
+
+/** References whose wording is best covered by the initiative text, strongest first. */
+function linkReferences(text: string, references: string[]): string[] {
+  const words = significantWords(text);
+  return references
+    .map((ref) => {
+      const refWords = [...significantWords(ref)];
+      const covered = refWords.filter((w) => words.has(w)).length;
+      return { ref, score: refWords.length ? covered / refWords.length : 0 };
+    })
+    .filter((r) => r.score >= LINK_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_LINKS)
+    .map((r) => r.ref);
+}
+
+/**
+ * Flatten the generated roadmap into initiatives, each linked to the root
+ * causes and workshop constraints it addresses.
+ */
+export function extractGeneratedInitiatives(intelligence: WorkshopOutputIntelligence): GeneratedInitiative[] {
+  const rootCauses = (intelligence.rootCause?.rootCauses ?? []).map((rc) => rc.cause);
+  const constraintTitles = (intelligence.rootCause?.workshopConstraints ?? []).map((c) => c.title);
+  const seen = new Set<string>();
+
+  return (intelligence.roadmap?.phases ?? []).flatMap((phase) =>
+    (phase.initiatives ?? []).flatMap((initiative) => {
+      const titleKey = normalisedTitle(initiative.title);
+      if (seen.has(titleKey)) return [];
+      seen.add(titleKey);
+
+      const text = `${initiative.title} ${initiative.description} ${initiative.outcome}`;
+      return [{
+        phase: phase.phase,
+        title: initiative.title,
+        description: initiative.description,
+        outcome: initiative.outcome,
+        rootCauses: linkReferences(text, rootCauses),
+        // Phase-level constraints the roadmap agent named, plus any the text covers
+        constraints: [...new Set([
+          ...linkReferences(text, constraintTitles),
+          ...linkReferences(text, phase.constraints ?? []),
+        ])].slice(0, MAX_LINKS),
+      }];
+    }),
+  );
+}
+
+// ── Sync ─────────────────────────────────────────────────────
+
+interface ExistingInitiative {
+  id: string;
+  title: string;
+  description: string | null;
+}
+
+/** Dice coefficient of the two texts' significant words */
+function wordingOverlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = [...a].filter((w) => b.has(w)).length;
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * Pair generated initiatives with the existing records they continue: equal
+ * titles first, then the closest wording above MATCH_THRESHOLD. Each record
+ * is used at most once. Returns generated index → record id.
+ */
+export function matchExistingInitiatives(
+  generated: GeneratedInitiative[],
+  existing: ExistingInitiative[],
+): Map<number, string> {
+  const candidates = generated.flatMap((g, index) => {
+    const words = significantWords(`${g.title} ${g.description}`);
+    return existing.map((e) => ({
+      index,
+      id: e.id,
+      sameTitle: normalisedTitle(g.title) === normalisedTitle(e.title),
+      overlap: wordingOverlap(words, significantWords(`${e.title} ${e.description ?? ''}`)),
+    }));
+  })
+    .filter((c) => c.sameTitle || c.overlap >= MATCH_THRESHOLD)
+    .sort((a, b) => Number(b.sameTitle) - Number(a.sameTitle) || b.overlap - a.overlap);
+
+  const matches = new Map<number, string>();
+  const used = new Set<string>();
+  for (const c of candidates) {
+    if (matches.has(c.index) || used.has(c.id)) continue;
+    matches.set(c.index, c.id);
+    used.add(c.id);
+  }
+  return matches;
+}
+
+/**
+ * Promote a workshop's generated roadmap initiatives to records: new ones are
+ * created, matched ones have generated fields refreshed (and are restored if
+ * they had been retired), and records the roadmap no longer contains are
+ * retired.
+ */
+export async function syncRoadmapInitiatives(
+  workshop: { id: string; organizationId: string },
+  intelligence: WorkshopOutputIntelligence,
+): Promise<{ created: number; updated: number; retired: number }> {
+  const generated = extractGeneratedInitiatives(intelligence);
+  if (generated.length === 0) return { created: 0, updated: 0, retired: 0 };
+
+  const existing = await prisma.roadmapInitiative.findMany({
+    where: { workshopId: workshop.id },
+    select: { id: true, title: true, description: true, retiredAt: true },
+  });
+  const matches = matchExistingInitiatives(generated, existing);
+
+  let created = 0;
+  let updated = 0;
+  for (const [index, g] of generated.entries()) {
+    const generatedFields = {
+      phase: g.phase,
+      title: g.title,
+      description: g.description,
+      outcome: g.outcome,
+      rootCauses: g.rootCauses,
+      constraints: g.constraints,
+    };
+    const id = matches.get(index);
+    if (id) {
+      await prisma.roadmapInitiative.update({ where: { id }, data: { ...generatedFields, retiredAt: null } });
+      updated++;
+    } else {
+      await prisma.roadmapInitiative.create({
+        data: {
+          organizationId: workshop.organizationId,
+          workshopId: workshop.id,
+          sourceKey: `ini_${crypto.randomUUID()}`,
+          ...generatedFields,
+        },
+      });
+      created++;
+    }
+  }
+
+  const matched = new Set(matches.values());
+  const dropped = existing.filter((e) => !matched.has(e.id) && !e.retiredAt).map((e) => e.id);
+  if (dropped.length > 0) {
+    await prisma.roadmapInitiative.updateMany({ where: { id: { in: dropped } }, data: { retiredAt: new Date() } });
+  }
+  return { created, updated, retired: dropped.length };
+}
+
+// ── Queries ──────────────────────────────────────────────────
+
+export function isOverdue(
+  initiative: { dueDate: Date | null; status: string; retiredAt?: Date | null },
+  now = new Date(),
+): boolean {
+  return !initiative.retiredAt
+    && !!initiative.dueDate
+    && initiative.dueDate.getTime() < now.getTime()
+    && !CLOSED_STATUSES.includes(initiative.status as InitiativeStatus);
+}
+
+export async function listOrganizationInitiatives(organizationId: string) {
+  return prisma.roadmapInitiative.findMany({
+    where: { organizationId, retiredAt: null },
+    orderBy: [{ workshopId: 'asc' }, { phase: 'asc' }, { createdAt: 'asc' }],
+    include: {
+      workshop: { select: { id: true, name: true } },
+      notes: { orderBy: { createdAt: 'desc' }, take: 10 },
+    },
+  });
+}
+
+// ── Updates ──────────────────────────────────────────────────
+
+export interface InitiativeUpdate {
+  status?: InitiativeStatus;
+  owner?: string | null;
+  ownerEmail?: string | null;
+  dueDate?: Date | null;
+  progress?: number;
+  dependsOnIds?: string[];
+  note?: string | null;
+}
+
+/** True if following dependencies from `startIds` reaches `targetId`. */
+export function reachesTarget(graph: Map<string, string[]>, startIds: string[], targetId: string): boolean {
+  const stack = [...startIds];
+  const visited = new Set<string>();
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === targetId) return true;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    stack.push(...(graph.get(id) ?? []));
+  }
+  return false;
+}
+
+/**
+ * Apply a tracking update from the executive portal. Dependencies must be
+ * other initiatives from the same workshop and may not form a cycle.
+ */
+export async function updateRoadmapInitiative(params: {
+  organizationId: string;
+  initiativeId: string;
+  update: InitiativeUpdate;
+  author: { name: string; email?: string | null };
+}) {
+  const { update } = params;
+  const initiative = await prisma.roadmapInitiative.findFirst({
+    where: { id: params.initiativeId, organizationId: params.organizationId },
+    select: { id: true, workshopId: true },
+  });
+  if (!initiative) throw new RoadmapInitiativeError('Initiative not found', 404);
+
+  const dependsOnIds = update.dependsOnIds ? [...new Set(update.dependsOnIds)] : undefined;
+  if (dependsOnIds) {
+    if (dependsOnIds.includes(initiative.id)) {
+      throw new RoadmapInitiativeError('An initiative cannot depend on itself');
+    }
+    const siblings = await prisma.roadmapInitiative.findMany({
+      where: { workshopId: initiative.workshopId },
+      select: { id: true, dependsOnIds: true },
+    });
+    const graph = new Map(siblings.map((s) => [s.id, s.dependsOnIds]));
+    if (dependsOnIds.some((id) => !graph.has(id))) {
+      throw new RoadmapInitiativeError('Dependencies must be initiatives from the same roadmap');
+    }
+    if (reachesTarget(graph, dependsOnIds, initiative.id)) {
+      throw new RoadmapInitiativeError('These dependencies would create a cycle');
+    }
+  }
+
+  const progress = update.progress ?? (update.status === 'done' ? 100 : undefined);
+
+  return prisma.roadmapInitiative.update({
+    where: { id: initiative.id },
+    data: {
+      ...(update.status !== undefined && { status: update.status }),
+      ...(update.owner !== undefined && { owner: update.owner }),
+      ...(update.ownerEmail !== undefined && { ownerEmail: update.ownerEmail }),
+      ...(update.dueDate !== undefined && { dueDate: update.dueDate }),
+      ...(progress !== undefined && { progress }),
+      ...(dependsOnIds !== undefined && { dependsOnIds }),
+      ...(update.note && {
+        notes: { create: { body: update.note, authorName: params.author.name, authorEmail: params.author.email ?? null } },
+      }),
+    },
+    include: {
+      workshop: { select: { id: true, name: true } },
+      notes: { orderBy: { createdAt: 'desc' }, take: 10 },
+    },
+  });
+}
@@ -1,48 +1,29 @@
-// In-memory event store for sales call real-time updates
-// Separate from DREAM's workshop-events.ts — completely independent
+// Realtime events for sales call live updates.
+// Separate stream from DREAM's workshop-events.ts ('sales' vs 'workshop') on the
+// shared realtime bus — see lib/realtime/event-bus.ts for backends and delivery.
+
+import { publishRealtimeEvent, subscribeRealtimeEvents } from '@/lib/realtime/event-bus';
 
 type SalesEventListener = (event: SalesEvent) => void;
 
 export interface SalesEvent {
+  /** Event id — set on delivery; use it to drop at-least-once duplicates. */
+  id?: string;
   type: string;
   payload: Record<string, unknown>;
 }
 
-const globalStore = globalThis as unknown as {
-  __salesRealtimeStore?: Map<string, Set<SalesEventListener>>;
-};
-
-if (!globalStore.__salesRealtimeStore) {
-  globalStore.__salesRealtimeStore = new Map();
+/** Persists to the outbox (so reconnecting clients can resume) and publishes. */
+export async function emitSalesEvent(workshopId: string, event: SalesEvent): Promise<void> {
+  await publishRealtimeEvent('sales', workshopId, { id: event.id, type: event.type, payload: event.payload });
 }
 
-const store = globalStore.__salesRealtimeStore;
-
-export function emitSalesEvent(workshopId: string, event: SalesEvent): void {
-  const listeners = store.get(workshopId);
-  if (!listeners) return;
-  for (const listener of listeners) {
+export function subscribeSalesEvents(workshopId: string, listener: SalesEventListener): () => void {
+  return subscribeRealtimeEvents('sales', workshopId, (event) => {
     try {
-      listener(event);
+      listener({ id: event.id, type: event.type, payload: event.payload as Record<string, unknown> });
     } catch (e) {
       console.error('Sales event listener error:', e);
     }
-  }
-}
-
-export function subscribeSalesEvents(workshopId: string, listener: SalesEventListener): () => void {
-  if (!store.has(workshopId)) {
-    store.set(workshopId, new Set());
-  }
-  store.get(workshopId)!.add(listener);
-
-  return () => {
-    const listeners = store.get(workshopId);
-    if (listeners) {
-      listeners.delete(listener);
-      if (listeners.size === 0) {
-        store.delete(workshopId);
-      }
-    }
-  };
+  });
 }
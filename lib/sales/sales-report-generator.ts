@@ -1,4 +1,5 @@
 import { prisma } from '@/lib/prisma';
+import { decryptTenantRecords } from '@/lib/workshop-encryption';
 import type { MeetingPlan } from './sales-analysis';
 import {
   synthesizeSalesCallAgentically,
@@ -82,7 +83,7 @@ export async function generateSalesReport(workshopId: string): Promise<SalesRepo
       where: { workshopId },
       orderBy: { createdAt: 'asc' },
       select: { text: true, speakerId: true, startTimeMs: true, endTimeMs: true },
-    }),
+    }).then((rows) => decryptTenantRecords('transcriptChunk', rows)),
   ]);
 
   if (!workshop || chunks.length === 0) {
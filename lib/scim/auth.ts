@@ -0,0 +1,49 @@
+/**
+ * SCIM bearer tokens.
+ *
+ * Each token belongs to one organisation and can only see and change that
+ * organisation's users and exec licences. Tokens are shown once at creation;
+ * only their SHA-256 is stored, so a database leak does not leak access.
+ */
+
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { ScimError } from './types';
+
+const TOKEN_PREFIX = 'scim_';
+
+export function generateScimToken(): { token: string; tokenHash: string } {
+  const token = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return { token, tokenHash: hashScimToken(token) };
+}
+
+export function hashScimToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export interface ScimPrincipal {
+  organizationId: string;
+  tokenId: string;
+  tokenName: string;
+}
+
+/** Resolve the request's bearer token; throws a 401 ScimError when it is missing or revoked */
+export async function authenticateScimRequest(request: NextRequest): Promise<ScimPrincipal> {
+  const header = request.headers.get('authorization') ?? '';
+  const match = /^Bearer\s+(\S+)$/i.exec(header);
+  if (!match || !match[1].startsWith(TOKEN_PREFIX)) {
+    throw new ScimError('Bearer token required', 401);
+  }
+
+  const token = await prisma.scimToken.findUnique({
+    where: { tokenHash: hashScimToken(match[1]) },
+    select: { id: true, name: true, organizationId: true, revokedAt: true },
+  });
+  if (!token || token.revokedAt) throw new ScimError('Invalid or revoked token', 401);
+
+  prisma.scimToken.update({ where: { id: token.id }, data: { lastUsedAt: new Date() } })
+    .catch((err) => console.error('[SCIM] Failed to record token use:', err));
+
+  return { organizationId: token.organizationId, tokenId: token.id, tokenName: token.name };
+}
@@ -0,0 +1,66 @@
+/**
+ * SCIM 2.0 (RFC 7643 / 7644) protocol types and error responses.
+ */
+
+import { NextResponse } from 'next/server';
+
+export const SCIM_USER_SCHEMA = 'urn:ietf:params:scim:schemas:core:2.0:User';
+export const SCIM_LIST_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:ListResponse';
+export const SCIM_PATCH_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:PatchOp';
+export const SCIM_ERROR_SCHEMA = 'urn:ietf:params:scim:api:messages:2.0:Error';
+
+export const SCIM_CONTENT_TYPE = 'application/scim+json';
+
+export type ScimErrorType =
+  | 'invalidFilter'
+  | 'invalidSyntax'
+  | 'invalidPath'
+  | 'invalidValue'
+  | 'uniqueness'
+  | 'mutability'
+  | 'noTarget';
+
+export class ScimError extends Error {
+  constructor(message: string, readonly status = 400, readonly scimType?: ScimErrorType) {
+    super(message);
+    this.name = 'ScimError';
+  }
+}
+
+export interface ScimUserResource {
+  schemas: string[];
+  id: string;
+  externalId?: string;
+  userName: string;
+  name: { formatted: string };
+  displayName: string;
+  emails: Array<{ value: string; type: string; primary: boolean }>;
+  active: boolean;
+  roles: Array<{ value: string; primary: boolean }>;
+  userType: string;
+  meta: { resourceType: 'User'; created: string; lastModified: string; location: string };
+}
+
+export function scimJson(body: unknown, status = 200): NextResponse {
+  return NextResponse.json(body, { status, headers: { 'Content-Type': SCIM_CONTENT_TYPE } });
+}
+
+export function scimErrorResponse(error: ScimError): NextResponse {
+  return scimJson({
+    schemas: [SCIM_ERROR_SCHEMA],
+    status: String(error.status),
+    ...(error.scimType && { scimType: error.scimType }),
+    detail: error.message,
+  }, error.status);
+}
+
+/** Wrap a SCIM route handler so ScimErrors become SCIM error responses */
+export async function handleScim(action: () => Promise<NextResponse>): Promise<NextResponse> {
+  try {
+    return await action();
+  } catch (error) {
+    if (error instanceof ScimError) return scimErrorResponse(error);
+    console.error('[SCIM] Request failed:', error);
+    return scimErrorResponse(new ScimError('Internal error', 500));
+  }
+}
@@ -0,0 +1,489 @@
+/**
+ * SCIM 2.0 Users for one organisation.
+ *
+ * The client's identity provider provisions both kinds of account through
+ * the one /Users resource: platform users (TENANT_ADMIN / TENANT_USER) and
+ * ExecLicence holders, told apart by role. Roles come from the SCIM `roles`
+ * or `userType` attributes — either a role name directly, or a group name
+ * resolved through the organisation's SSO role mappings. Exec licence ids are
+ * prefixed with "exec_" so the two tables share one id space.
+ *
+ * Deprovisioning (DELETE, or active=false) deactivates the account and
+ * revokes its sessions; the row is kept for the audit trail. Creating or
+ * reactivating a platform user needs a free seat (Organization.maxSeats).
+ */
+
+import { z } from 'zod';
+import { nanoid } from 'nanoid';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit/audit-logger';
+import {
+  PROVISIONED_ROLES,
+  RoleMappingsSchema,
+  resolveProvisionedRole,
+  ssoBaseUrl,
+  type ProvisionedRole,
+  type RoleMapping,
+} from '@/lib/auth/sso/config';
+import { type SeatUsage, unusablePasswordHash, withFreeSeat } from '@/lib/auth/sso/provisioning';
+import type { ScimPrincipal } from './auth';
+import {
+  SCIM_LIST_SCHEMA,
+  SCIM_PATCH_SCHEMA,
+  SCIM_USER_SCHEMA,
+  ScimError,
+  type ScimUserResource,
+} from './types';
+
+const EXEC_ID_PREFIX = 'exec_';
+const MAX_PAGE_SIZE = 200;
+
+// ══════════════════════════════════════════════════════════════
+// INPUT
+// ══════════════════════════════════════════════════════════════
+
+/** Some IdPs (Entra ID) send booleans as "True" / "False" */
+const ScimBooleanSchema = z.union([z.boolean(), z.string().regex(/^(true|false)$/i)])
+  .transform((v) => (typeof v === 'boolean' ? v : v.toLowerCase() === 'true'));
+
+const ScimUserInputSchema = z.object({
+  userName: z.string().trim().min(1).max(254),
+  externalId: z.string().max(500).nullish(),
+  displayName: z.string().trim().max(200).nullish(),
+  name: z.object({
+    formatted: z.string().trim().max(200).nullish(),
+    givenName: z.string().trim().max(100).nullish(),
+    familyName: z.string().trim().max(100).nullish(),
+  }).nullish(),
+  emails: z.array(z.object({
+    value: z.string().trim().max(254),
+    primary: ScimBooleanSchema.optional(),
+  }).passthrough()).nullish(),
+  active: ScimBooleanSchema.optional(),
+  roles: z.array(z.union([z.string(), z.object({ value: z.string() }).passthrough()])).nullish(),
+  userType: z.string().trim().max(100).nullish(),
+  title: z.string().trim().max(200).nullish(),
+}).passthrough();
+
+type ScimUserInput = z.infer<typeof ScimUserInputSchema>;
+
+const PatchRequestSchema = z.object({
+  schemas: z.array(z.string()).optional(),
+  Operations: z.array(z.object({
+    op: z.string().transform((op) => op.toLowerCase()).pipe(z.enum(['add', 'replace', 'remove'])),
+    path: z.string().trim().min(1).optional(),
+    value: z.unknown().optional(),
+  })).min(1).max(100),
+});
+
+function parseUserInput(body: unknown): ScimUserInput {
+  const parsed = ScimUserInputSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new ScimError(parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; '), 400, 'invalidValue');
+  }
+  return parsed.data;
+}
+
+function emailOf(input: ScimUserInput): string {
+  const primary = input.emails?.find((e) => e.primary) ?? input.emails?.[0];
+  const email = (primary?.value || input.userName).trim().toLowerCase();
+  if (!z.string().email().safeParse(email).success) {
+    throw new ScimError('userName or a primary email must be an email address', 400, 'invalidValue');
+  }
+  return email;
+}
+
+function nameOf(input: ScimUserInput, fallback: string): string {
+  const given = [input.name?.givenName, input.name?.familyName].filter(Boolean).join(' ');
+  return input.displayName || input.name?.formatted || given || fallback;
+}
+
+// ══════════════════════════════════════════════════════════════
+// ACCOUNTS
+// ══════════════════════════════════════════════════════════════
+
+type Account =
+  | { kind: 'user'; id: string; email: string; name: string; role: string; isActive: boolean; scimExternalId: string | null; createdAt: Date; updatedAt: Date }
+  | { kind: 'executive'; id: string; email: string; name: string; title: string | null; isActive: boolean; revokedAt: Date | null; scimExternalId: string | null; createdAt: Date; updatedAt: Date };
+
+const USER_SELECT = { id: true, email: true, name: true, role: true, isActive: true, scimExternalId: true, createdAt: true, updatedAt: true } as const;
+const LICENCE_SELECT = { id: true, email: true, name: true, title: true, isActive: true, revokedAt: true, scimExternalId: true, createdAt: true, updatedAt: true } as const;
+
+/** Platform admins are never visible to or changeable by SCIM */
+const userScope = (organizationId: string) => ({ organizationId, role: { not: 'PLATFORM_ADMIN' as const } });
+
+function roleOf(account: Account): ProvisionedRole {
+  return account.kind === 'executive' ? 'EXECUTIVE' : (account.role as ProvisionedRole);
+}
+
+function scimId(account: Account): string {
+  return account.kind === 'executive' ? `${EXEC_ID_PREFIX}${account.id}` : account.id;
+}
+
+export function toScimUser(account: Account): ScimUserResource {
+  const id = scimId(account);
+  const role = roleOf(account);
+  return {
+    schemas: [SCIM_USER_SCHEMA],
+    id,
+    ...(account.scimExternalId && { externalId: account.scimExternalId }),
+    userName: account.email,
+    name: { formatted: account.name },
+    displayName: account.name,
+    emails: [{ value: account.email, type: 'work', primary: true }],
+    active: account.kind === 'executive' ? account.isActive && !account.revokedAt : account.isActive,
+    roles: [{ value: role, primary: true }],
+    userType: role,
+    meta: {
+      resourceType: 'User',
+      created: account.createdAt.toISOString(),
+      lastModified: account.updatedAt.toISOString(),
+      location: `${ssoBaseUrl()}/api/scim/v2/Users/${id}`,
+    },
+  };
+}
+
+async function findAccount(organizationId: string, id: string): Promise<Account | null> {
+  if (id.startsWith(EXEC_ID_PREFIX)) {
+    const licence = await prisma.execLicence.findFirst({
+      where: { id: id.slice(EXEC_ID_PREFIX.length), organizationId },
+      select: LICENCE_SELECT,
+    });
+    return licence ? { kind: 'executive', ...licence } : null;
+  }
+  const user = await prisma.user.findFirst({ where: { id, ...userScope(organizationId) }, select: USER_SELECT });
+  return user ? { kind: 'user', ...user } : null;
+}
+
+async function requireAccount(organizationId: string, id: string): Promise<Account> {
+  const account = await findAccount(organizationId, id);
+  if (!account) throw new ScimError(`User ${id} not found`, 404);
+  return account;
+}
+
+// ══════════════════════════════════════════════════════════════
+// ROLES AND SEATS
+// ══════════════════════════════════════════════════════════════
+
+async function loadRoleMappings(organizationId: string): Promise<{ mappings: RoleMapping[]; defaultRole: ProvisionedRole | null }> {
+  const connection = await prisma.ssoConnection.findUnique({
+    where: { organizationId },
+    select: { roleMappings: true, defaultRole: true },
+  });
+  if (!connection) return { mappings: [], defaultRole: 'TENANT_USER' };
+  const mappings = RoleMappingsSchema.safeParse(connection.roleMappings);
+  const defaultRole = (PROVISIONED_ROLES as readonly string[]).includes(connection.defaultRole ?? '')
+    ? (connection.defaultRole as ProvisionedRole)
+    : null;
+  return { mappings: mappings.success ? mappings.data : [], defaultRole };
+}
+
+/**
+ * Role named by the resource's roles / userType, or null when it names none
+ * (the caller then keeps the current role or applies the default).
+ */
+async function requestedRole(organizationId: string, input: ScimUserInput): Promise<ProvisionedRole | null> {
+  const claims = [
+    ...(input.roles ?? []).map((r) => (typeof r === 'string' ? r : r.value)),
+    ...(input.userType ? [input.userType] : []),
+  ].map((c) => c.trim()).filter(Boolean);
+  if (claims.length === 0) return null;
+
+  const direct = claims.map((c) => c.toUpperCase()).find((c): c is ProvisionedRole =>
+    (PROVISIONED_ROLES as readonly string[]).includes(c));
+  if (direct) return direct;
+
+  const { mappings, defaultRole } = await loadRoleMappings(organizationId);
+  const role = resolveProvisionedRole(claims, mappings, defaultRole);
+  if (!role) throw new ScimError('No role mapping matches the given roles', 400, 'invalidValue');
+  return role;
+}
+
+function noFreeSeat(usage: SeatUsage | null): ScimError {
+  if (!usage) return new ScimError('Organization not found', 404);
+  return new ScimError(`Seat limit reached (${usage.used}/${usage.max})`, 403);
+}
+
+async function revokeSessions(account: Account): Promise<void> {
+  await prisma.session.updateMany({
+    where: account.kind === 'executive'
+      ? { execLicenceId: account.id, revokedAt: null }
+      : { userId: account.id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+function audit(principal: ScimPrincipal, action: 'PROVISION_USER' | 'DEPROVISION_USER', account: Account, metadata: Record<string, unknown>) {
+  logAuditEvent({
+    organizationId: principal.organizationId,
+    userEmail: `scim:${principal.tokenName}`,
+    action,
+    resourceType: account.kind === 'executive' ? 'ExecLicence' : 'User',
+    resourceId: account.id,
+    metadata: { targetEmail: account.email, role: roleOf(account), scimTokenId: principal.tokenId, ...metadata },
+  }).catch((err) => console.error('[audit] scim:', err));
+}
+
+// ══════════════════════════════════════════════════════════════
+// OPERATIONS
+// ══════════════════════════════════════════════════════════════
+
+const FILTER_PATTERN = /^(userName|externalId|emails(?:\.value)?)\s+eq\s+"((?:[^"\\]|\\.)*)"$/i;
+
+export async function listScimUsers(
+  organizationId: string,
+  options: { filter?: string | null; startIndex?: number; count?: number },
+) {
+  const startIndex = Math.max(1, options.startIndex || 1);
+  const count = Math.min(MAX_PAGE_SIZE, Math.max(0, options.count ?? 100));
+
+  let userWhere: object = userScope(organizationId);
+  let licenceWhere: object = { organizationId };
+  if (options.filter) {
+    const match = FILTER_PATTERN.exec(options.filter.trim());
+    if (!match) throw new ScimError('Only "userName eq", "externalId eq" and "emails eq" filters are supported', 400, 'invalidFilter');
+    const value = match[2].replace(/\\(.)/g, '$1');
+    const byEmail = match[1].toLowerCase() !== 'externalid';
+    const condition = byEmail ? { email: value.trim().toLowerCase() } : { scimExternalId: value };
+    userWhere = { ...userWhere, ...condition };
+    licenceWhere = { ...licenceWhere, ...condition };
+  }
+
+  const [users, licences] = await Promise.all([
+    prisma.user.findMany({ where: userWhere, select: USER_SELECT, orderBy: { createdAt: 'asc' } }),
+    prisma.execLicence.findMany({ where: licenceWhere, select: LICENCE_SELECT, orderBy: { createdAt: 'asc' } }),
+  ]);
+  const accounts: Account[] = [
+    ...users.map((u) => ({ kind: 'user' as const, ...u })),
+    ...licences.map((l) => ({ kind: 'executive' as const, ...l })),
+  ].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  const page = accounts.slice(startIndex - 1, startIndex - 1 + count);
+  return {
+    schemas: [SCIM_LIST_SCHEMA],
+    totalResults: accounts.length,
+    startIndex,
+    itemsPerPage: page.length,
+    Resources: page.map(toScimUser),
+  };
+}
+
+export async function getScimUser(organizationId: string, id: string): Promise<ScimUserResource> {
+  return toScimUser(await requireAccount(organizationId, id));
+}
+
+export async function createScimUser(principal: ScimPrincipal, body: unknown): Promise<ScimUserResource> {
+  const { organizationId } = principal;
+  const input = parseUserInput(body);
+  const email = emailOf(input);
+  const name = nameOf(input, email);
+  const active = input.active ?? true;
+
+  let role = await requestedRole(organizationId, input);
+  if (!role) {
+    role = (await loadRoleMappings(organizationId)).defaultRole;
+    if (!role) throw new ScimError('A role is required for this organisation', 400, 'invalidValue');
+  }
+
+  let account: Account;
+  if (role === 'EXECUTIVE') {
+    if (await prisma.execLicence.findUnique({ where: { email }, select: { id: true } })) {
+      throw new ScimError(`An executive licence for ${email} already exists`, 409, 'uniqueness');
+    }
+    const licence = await prisma.execLicence.create({
+      data: {
+        id: nanoid(),
+        organizationId,
+        email,
+        hashedPassword: await unusablePasswordHash(),
+        name,
+        title: input.title || null,
+        isActive: active,
+        revokedAt: active ? null : new Date(),
+        scimExternalId: input.externalId ?? null,
+      },
+      select: LICENCE_SELECT,
+    });
+    account = { kind: 'executive', ...licence };
+  } else {
+    if (await prisma.user.findUnique({ where: { email }, select: { id: true } })) {
+      throw new ScimError(`A user with email ${email} already exists`, 409, 'uniqueness');
+    }
+    const password = await unusablePasswordHash();
+    const create = (db: Prisma.TransactionClient) => db.user.create({
+      data: {
+        id: nanoid(),
+        email,
+        name,
+        password,
+        role,
+        organizationId,
+        isActive: active,
+        scimExternalId: input.externalId ?? null,
+      },
+      select: USER_SELECT,
+    });
+    const user = active ? await withFreeSeat(organizationId, noFreeSeat, create) : await create(prisma);
+    account = { kind: 'user', ...user };
+  }
+
+  audit(principal, 'PROVISION_USER', account, { created: true, active });
+  return toScimUser(account);
+}
+
+/** Apply a full or patched resource to an existing account */
+async function updateAccount(principal: ScimPrincipal, account: Account, input: ScimUserInput): Promise<ScimUserResource> {
+  const { organizationId } = principal;
+  const email = emailOf(input);
+  const name = nameOf(input, account.name);
+  const role = (await requestedRole(organizationId, input)) ?? roleOf(account);
+  const wasActive = toScimUser(account).active;
+  const active = input.active ?? wasActive;
+
+  if ((role === 'EXECUTIVE') !== (account.kind === 'executive')) {
+    throw new ScimError('Moving between executive licences and platform users needs a new account', 400, 'mutability');
+  }
+
+  let updated: Account;
+  if (account.kind === 'executive') {
+    if (email !== account.email && await prisma.execLicence.findUnique({ where: { email }, select: { id: true } })) {
+      throw new ScimError(`An executive licence for ${email} already exists`, 409, 'uniqueness');
+    }
+    const licence = await prisma.execLicence.update({
+      where: { id: account.id },
+      data: {
+        email,
+        name,
+        ...(input.title !== undefined && { title: input.title || null }),
+        isActive: active,
+        revokedAt: active ? null : account.revokedAt ?? new Date(),
+        ...(input.externalId !== undefined && { scimExternalId: input.externalId }),
+      },
+      select: LICENCE_SELECT,
+    });
+    updated = { kind: 'executive', ...licence };
+  } else {
+    if (email !== account.email && await prisma.user.findUnique({ where: { email }, select: { id: true } })) {
+      throw new ScimError(`A user with email ${email} already exists`, 409, 'uniqueness');
+    }
+    const update = (db: Prisma.TransactionClient) => db.user.update({
+      where: { id: account.id },
+      data: {
+        email,
+        name,
+        role: role as 'TENANT_ADMIN' | 'TENANT_USER',
+        isActive: active,
+        ...(input.externalId !== undefined && { scimExternalId: input.externalId }),
+      },
+      select: USER_SELECT,
+    });
+    // Reactivation takes a seat
+    const user = active && !wasActive ? await withFreeSeat(organizationId, noFreeSeat, update) : await update(prisma);
+    updated = { kind: 'user', ...user };
+  }
+
+  if (wasActive && !active) {
+    await revokeSessions(updated);
+    audit(principal, 'DEPROVISION_USER', updated, { via: 'update' });
+  } else {
+    audit(principal, 'PROVISION_USER', updated, { created: false, active, ...(role !== roleOf(account) && { previousRole: roleOf(account) }) });
+  }
+  return toScimUser(updated);
+}
+
+export async function replaceScimUser(principal: ScimPrincipal, id: string, body: unknown): Promise<ScimUserResource> {
+  const account = await requireAccount(principal.organizationId, id);
+  return updateAccount(principal, account, parseUserInput(body));
+}
+
+// ── PATCH ────────────────────────────────────────────────────────────
+
+const EMAIL_VALUE_PATH = /^emails(\[[^\]]*\])?(\.value)?$/i;
+
+/** Set one attribute on the editable resource; unknown attributes are ignored */
+function applyPatchValue(resource: Record<string, unknown>, path: string, value: unknown, remove: boolean) {
+  const name = path.replace(/^urn:ietf:params:scim:schemas:core:2\.0:User:/i, '');
+  const lower = name.toLowerCase();
+
+  if (EMAIL_VALUE_PATH.test(name)) {
+    if (remove) throw new ScimError('emails cannot be removed', 400, 'mutability');
+    const email = Array.isArray(value) ? (value[0] as { value?: unknown })?.value : typeof value === 'object' && value ? (value as { value?: unknown }).value : value;
+    if (typeof email !== 'string') throw new ScimError('emails needs a value', 400, 'invalidValue');
+    resource.emails = [{ value: email, primary: true }];
+    return;
+  }
+
+  if (lower.startsWith('name.')) {
+    const key = ({ 'name.formatted': 'formatted', 'name.givenname': 'givenName', 'name.familyname': 'familyName' } as Record<string, string>)[lower];
+    if (!key) return;
+    resource.name = {
+      ...(resource.name as object),
+      // A changed name part should win over the current full name
+      ...(key !== 'formatted' && { formatted: null }),
+      [key]: remove ? null : value,
+    };
+    resource.displayName = null;
+    return;
+  }
+
+  const attribute = ['active', 'userName', 'displayName', 'externalId', 'name', 'roles', 'userType', 'title']
+    .find((a) => a.toLowerCase() === lower);
+  if (!attribute) return;
+  if (remove && (attribute === 'active' || attribute === 'userName')) {
+    throw new ScimError(`${attribute} cannot be removed`, 400, 'mutability');
+  }
+  resource[attribute] = remove ? (attribute === 'roles' ? [] : null) : value;
+  // userType replaces the role the current roles attribute still names
+  if (attribute === 'userType' && !remove) resource.roles = [];
+}
+
+export async function patchScimUser(principal: ScimPrincipal, id: string, body: unknown): Promise<ScimUserResource> {
+  const parsed = PatchRequestSchema.safeParse(body);
+  if (!parsed.success) throw new ScimError('Invalid PatchOp request', 400, 'invalidSyntax');
+  if (parsed.data.schemas && !parsed.data.schemas.includes(SCIM_PATCH_SCHEMA)) {
+    throw new ScimError('Invalid PatchOp request', 400, 'invalidSyntax');
+  }
+
+  const account = await requireAccount(principal.organizationId, id);
+  const current = toScimUser(account);
+  const resource: Record<string, unknown> = {
+    userName: current.userName,
+    externalId: current.externalId ?? null,
+    displayName: current.displayName,
+    name: { formatted: current.name.formatted },
+    emails: current.emails,
+    active: current.active,
+    roles: current.roles,
+    title: account.kind === 'executive' ? account.title : null,
+  };
+
+  for (const operation of parsed.data.Operations) {
+    const remove = operation.op === 'remove';
+    if (operation.path) {
+      applyPatchValue(resource, operation.path, operation.value, remove);
+    } else if (!remove && operation.value && typeof operation.value === 'object' && !Array.isArray(operation.value)) {
+      for (const [path, value] of Object.entries(operation.value)) applyPatchValue(resource, path, value, false);
+    } else {
+      throw new ScimError('remove needs a path; add/replace without a path needs an object value', 400, 'noTarget');
+    }
+  }
+
+  return updateAccount(principal, account, parseUserInput(resource));
+}
+
+// ── DELETE ───────────────────────────────────────────────────────────
+
+export async function deleteScimUser(principal: ScimPrincipal, id: string): Promise<void> {
+  const account = await requireAccount(principal.organizationId, id);
+  if (account.kind === 'executive') {
+    await prisma.execLicence.update({
+      where: { id: account.id },
+      data: { isActive: false, revokedAt: account.revokedAt ?? new Date() },
+    });
+  } else {
+    await prisma.user.update({ where: { id: account.id }, data: { isActive: false } });
+  }
+  await revokeSessions(account);
+  audit(principal, 'DEPROVISION_USER', account, { via: 'delete' });
+}
@@ -106,6 +106,29 @@ export async function deleteImage(imageUrl: string): Promise<void> {
   }
 }
 
+const CAPTURE_AUDIO_BUCKET = 'capture-audio';
+
+/**
+ * Delete a field capture segment's audio file
+ *
+ * @param audioReference - CaptureSegment.audioReference: a path in the
+ *   capture-audio bucket, or a Supabase Storage URL naming its own bucket
+ */
+export async function deleteCaptureAudio(audioReference: string): Promise<void> {
+  let bucket = CAPTURE_AUDIO_BUCKET;
+  let filePath = audioReference;
+
+  if (audioReference.startsWith('http')) {
+    const match = new URL(audioReference).pathname.match(/\/storage\/v1\/object\/(?:public|sign|authenticated)\/([^/]+)\/(.+)$/);
+    if (!match) throw new Error('Audio reference is not a Supabase Storage URL');
+    bucket = match[1];
+    filePath = decodeURIComponent(match[2]);
+  }
+
+  const { error } = await getSupabaseAdmin().storage.from(bucket).remove([filePath]);
+  if (error) throw error;
+}
+
 /**
  * Upload org logo to Supabase Storage
  */
@@ -132,6 +155,31 @@ export async function uploadOrgLogo(file: File, organizationId: string): Promise
   return urlData.publicUrl;
 }
 
+/**
+ * Upload an org brand image already held in memory (e.g. a background
+ * extracted from a PowerPoint template) to Supabase Storage
+ */
+export async function uploadOrgBrandAsset(
+  data: Buffer,
+  organizationId: string,
+  name: string,
+  contentType: string,
+): Promise<string> {
+  if (data.length > 5 * 1024 * 1024) throw new Error('Image must be less than 5MB');
+
+  const fileName = `organizations/${organizationId}/${name}-${Date.now()}.${contentType.split('/')[1] || 'png'}`;
+
+  const admin = getSupabaseAdmin();
+  const { error } = await admin.storage
+    .from(BUCKET_NAME)
+    .upload(fileName, data, { cacheControl: '3600', upsert: true, contentType });
+
+  if (error) throw error;
+
+  const { data: urlData } = admin.storage.from(BUCKET_NAME).getPublicUrl(fileName);
+  return urlData.publicUrl;
+}
+
 /**
  * Initialize storage bucket (run once during setup)
  * Creates the workshop-images bucket with public access
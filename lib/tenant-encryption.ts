@@ -0,0 +1,296 @@
+/**
+ * Tenant envelope encryption
+ *
+ * Every organisation has its own versioned AES-256 data keys (TenantDataKey).
+ * Data keys are stored wrapped by a KMS master key (lib/kms) and unwrapped
+ * in memory on demand, so:
+ *   - one tenant's key never decrypts another tenant's rows
+ *   - rotating a tenant's key re-encrypts only that tenant's data
+ *   - destroying a tenant's keys makes its ciphertext permanently unreadable
+ *     (crypto-shredding on offboarding)
+ *
+ * Ciphertext format (base64url components):
+ *   tk1:<organizationId>:<keyVersion>:<iv>:<ciphertext>:<authTag>
+ *
+ * The active key version is read from the database on every write, so a
+ * shred on any instance stops new writes at once. Unwrapped keys are cached
+ * per process, but their status is re-checked every KEY_STATUS_TTL_MS, so
+ * shredded keys stop decrypting within seconds everywhere.
+ *
+ * The organisation and key version travel with the value, so decryption
+ * needs no context from the caller. Values written by lib/encryption.ts under
+ * the old process-wide key (iv:encrypted:authTag hex) remain readable through
+ * lib/workshop-encryption.ts until a rotation job rewrites them.
+ */
+
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getKmsProvider } from '@/lib/kms';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+const PREFIX = 'tk1';
+
+/** Unwrapped data keys are held in memory for this long */
+const KEY_CACHE_TTL_MS = 5 * 60 * 1000;
+/** A cached key's status is re-read from the database after this long */
+const KEY_STATUS_TTL_MS = 5 * 1000;
+
+export type TenantKeyStatus = 'active' | 'retired' | 'destroyed';
+
+export class TenantKeyError extends Error {
+  constructor(message: string, readonly status: 400 | 404 | 409 | 410 = 400) {
+    super(message);
+    this.name = 'TenantKeyError';
+  }
+}
+
+export interface TenantCiphertext {
+  organizationId: string;
+  version: number;
+  iv: Buffer;
+  data: Buffer;
+  tag: Buffer;
+}
+
+// ── Key cache ────────────────────────────────────────────────
+
+const dataKeyCache = new Map<string, { key: Buffer; expiresAt: number; checkedAt: number }>();
+
+/** Drop cached keys — after rotation or shredding, or between tests. */
+export function clearTenantKeyCache(organizationId?: string): void {
+  if (!organizationId) {
+    dataKeyCache.clear();
+    return;
+  }
+  for (const cacheKey of dataKeyCache.keys()) {
+    if (cacheKey.startsWith(`${organizationId}:`)) dataKeyCache.delete(cacheKey);
+  }
+}
+
+function cacheDataKey(organizationId: string, version: number, key: Buffer): void {
+  const now = Date.now();
+  dataKeyCache.set(`${organizationId}:${version}`, { key, expiresAt: now + KEY_CACHE_TTL_MS, checkedAt: now });
+}
+
+/** A cached key, provided it has not been destroyed — possibly by another instance */
+async function cachedDataKey(organizationId: string, version: number): Promise<Buffer | null> {
+  const cacheKey = `${organizationId}:${version}`;
+  const cached = dataKeyCache.get(cacheKey);
+  if (!cached || cached.expiresAt <= Date.now()) return null;
+  if (Date.now() - cached.checkedAt < KEY_STATUS_TTL_MS) return cached.key;
+
+  const record = await prisma.tenantDataKey.findUnique({
+    where: { organizationId_version: { organizationId, version } },
+    select: { status: true },
+  });
+  if (!record || record.status === 'destroyed') {
+    dataKeyCache.delete(cacheKey);
+    return null;
+  }
+  cached.checkedAt = Date.now();
+  return cached.key;
+}
+
+// ── Key management ───────────────────────────────────────────
+
+async function unwrapDataKey(organizationId: string, version: number): Promise<Buffer> {
+  const cached = await cachedDataKey(organizationId, version);
+  if (cached) return cached;
+
+  const record = await prisma.tenantDataKey.findUnique({
+    where: { organizationId_version: { organizationId, version } },
+    select: { wrappedKey: true, kmsKeyId: true, status: true },
+  });
+  if (!record) throw new TenantKeyError(`Data key v${version} not found for organisation`, 404);
+  if (record.status === 'destroyed' || !record.wrappedKey) {
+    throw new TenantKeyError('Organisation data keys have been destroyed', 410);
+  }
+
+  const key = await getKmsProvider().unwrapKey(
+    { ciphertext: record.wrappedKey, keyId: record.kmsKeyId },
+    { organizationId },
+  );
+  cacheDataKey(organizationId, version, key);
+  return key;
+}
+
+/**
+ * Create the next data key version and make it the one new writes use.
+ * Earlier versions are retired — still able to decrypt, never to encrypt.
+ */
+export async function createTenantDataKey(organizationId: string): Promise<number> {
+  const kms = getKmsProvider();
+  const key = crypto.randomBytes(KEY_LENGTH);
+  const wrapped = await kms.wrapKey(key, { organizationId });
+
+  const latest = await prisma.tenantDataKey.findFirst({
+    where: { organizationId },
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  });
+  const version = (latest?.version ?? 0) + 1;
+
+  await prisma.$transaction([
+    prisma.tenantDataKey.updateMany({
+      where: { organizationId, status: 'active' },
+      data: { status: 'retired', retiredAt: new Date() },
+    }),
+    prisma.tenantDataKey.create({
+      data: {
+        organizationId,
+        version,
+        wrappedKey: wrapped.ciphertext,
+        kmsProvider: kms.name,
+        kmsKeyId: wrapped.keyId,
+        status: 'active',
+      },
+    }),
+  ]);
+
+  cacheDataKey(organizationId, version, key);
+  return version;
+}
+
+/**
+ * The version new writes are encrypted under, creating v1 on first use.
+ * Not cached: a shred elsewhere must stop writes immediately.
+ */
+export async function getActiveKeyVersion(organizationId: string): Promise<number> {
+  const active = await prisma.tenantDataKey.findFirst({
+    where: { organizationId, status: 'active' },
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  });
+  if (active) return active.version;
+
+  const destroyed = await prisma.tenantDataKey.count({ where: { organizationId, status: 'destroyed' } });
+  if (destroyed > 0) throw new TenantKeyError('Organisation data keys have been destroyed', 410);
+
+  try {
+    return await createTenantDataKey(organizationId);
+  } catch (error) {
+    // Another request created v1 first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return getActiveKeyVersion(organizationId);
+    }
+    throw error;
+  }
+}
+
+/** Versions that can still decrypt (active and retired), newest first */
+export async function listLiveKeyVersions(organizationId: string): Promise<number[]> {
+  const live = await prisma.tenantDataKey.findMany({
+    where: { organizationId, status: { not: 'destroyed' } },
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  });
+  return live.map((k) => k.version);
+}
+
+/**
+ * Re-wrap every live data key under the KMS's current master key, so an old
+ * master key can be retired. Data rows are untouched.
+ */
+export async function rewrapTenantKeys(organizationId: string): Promise<number> {
+  const kms = getKmsProvider();
+  const currentKeyId = await kms.currentKeyId();
+  const keys = await prisma.tenantDataKey.findMany({
+    where: { organizationId, status: { not: 'destroyed' }, kmsKeyId: { not: currentKeyId } },
+    select: { id: true, version: true },
+  });
+
+  for (const k of keys) {
+    const key = await unwrapDataKey(organizationId, k.version);
+    const wrapped = await kms.wrapKey(key, { organizationId });
+    await prisma.tenantDataKey.update({
+      where: { id: k.id },
+      data: { wrappedKey: wrapped.ciphertext, kmsKeyId: wrapped.keyId, kmsProvider: kms.name },
+    });
+  }
+  return keys.length;
+}
+
+/**
+ * Crypto-shred an organisation: wipe every wrapped data key. All of its
+ * tk1 ciphertext becomes permanently unreadable, including copies in backups
+ * once backups holding the wrapped keys have expired.
+ */
+export async function destroyTenantKeys(organizationId: string): Promise<number> {
+  const result = await prisma.tenantDataKey.updateMany({
+    where: { organizationId, status: { not: 'destroyed' } },
+    data: { status: 'destroyed', wrappedKey: null, destroyedAt: new Date() },
+  });
+  clearTenantKeyCache(organizationId);
+  return result.count;
+}
+
+// ── Encrypt / decrypt ────────────────────────────────────────
+
+export function isTenantCiphertext(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(`${PREFIX}:`);
+}
+
+export function parseTenantCiphertext(value: string): TenantCiphertext | null {
+  const parts = value.split(':');
+  if (parts.length !== 6 || parts[0] !== PREFIX) return null;
+  const version = Number(parts[2]);
+  if (!parts[1] || !Number.isInteger(version) || version < 1) return null;
+  return {
+    organizationId: parts[1],
+    version,
+    iv: Buffer.from(parts[3], 'base64url'),
+    data: Buffer.from(parts[4], 'base64url'),
+    tag: Buffer.from(parts[5], 'base64url'),
+  };
+}
+
+/**
+ * Deterministic mode derives the IV from the plaintext, so equal values give
+ * equal ciphertext under the same key version. Use it only for fields that
+ * are looked up by equality (e.g. transcript dedup); it reveals repeats.
+ */
+function deriveIv(key: Buffer, plaintext: string): Buffer {
+  const ivKey = Buffer.from(crypto.hkdfSync('sha256', key, Buffer.alloc(0), 'dream-deterministic-iv', KEY_LENGTH));
+  return crypto.createHmac('sha256', ivKey).update(plaintext, 'utf8').digest().subarray(0, IV_LENGTH);
+}
+
+export async function encryptForTenant(
+  organizationId: string,
+  plaintext: string,
+  options: { deterministic?: boolean; version?: number } = {},
+): Promise<string> {
+  const version = options.version ?? (await getActiveKeyVersion(organizationId));
+  const key = await unwrapDataKey(organizationId, version);
+  const iv = options.deterministic ? deriveIv(key, plaintext) : crypto.randomBytes(IV_LENGTH);
+
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(organizationId, 'utf8'));
+  const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [
+    PREFIX,
+    organizationId,
+    version,
+    iv.toString('base64url'),
+    encrypted.toString('base64url'),
+    cipher.getAuthTag().toString('base64url'),
+  ].join(':');
+}
+
+export async function decryptForTenant(ciphertext: string): Promise<string> {
+  const parsed = parseTenantCiphertext(ciphertext);
+  if (!parsed) throw new TenantKeyError('Invalid tenant ciphertext');
+
+  const key = await unwrapDataKey(parsed.organizationId, parsed.version);
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, parsed.iv);
+    decipher.setAAD(Buffer.from(parsed.organizationId, 'utf8'));
+    decipher.setAuthTag(parsed.tag);
+    return Buffer.concat([decipher.update(parsed.data), decipher.final()]).toString('utf8');
+  } catch {
+    throw new TenantKeyError('Failed to decrypt tenant data');
+  }
+}
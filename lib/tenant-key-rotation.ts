@@ -0,0 +1,296 @@
+/**
+ * Tenant key rotation
+ *
+ * Online re-encryption of one organisation's data onto a new data key
+ * version. Starting a rotation creates the new key (so every new write uses
+ * it immediately) and a KeyRotationJob; the job then walks each encrypted
+ * model in id order, a batch at a time, re-encrypting values still under an
+ * older key version or the legacy process-wide key. The app stays fully
+ * usable throughout — old versions keep decrypting until the job finishes.
+ *
+ * Jobs are advanced by /api/cron/key-rotation, or directly by an admin
+ * request; progress is persisted after every batch so a job resumes where
+ * it stopped.
+ *
+ * Rewrites are compare-and-set on the ciphertext that was read, so a value
+ * the app writes while the job holds the row is never overwritten with the
+ * stale one; such rows are re-read and retried.
+ */
+
+import { prisma } from '@/lib/prisma';
+import {
+  TenantKeyError,
+  clearTenantKeyCache,
+  createTenantDataKey,
+  rewrapTenantKeys,
+} from '@/lib/tenant-encryption';
+import {
+  TENANT_ENCRYPTED_FIELDS,
+  reencryptTenantFields,
+  type EncryptedModel,
+} from '@/lib/workshop-encryption';
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_MAX_BATCHES = 20;
+const MAX_WRITE_ATTEMPTS = 3;
+
+// ── Types ────────────────────────────────────────────────────
+
+export interface ModelRotationProgress {
+  cursor: string | null;
+  scanned: number;
+  reencrypted: number;
+  done: boolean;
+}
+
+export type RotationProgress = Record<EncryptedModel, ModelRotationProgress>;
+
+export type KeyRotationStatus = 'running' | 'completed' | 'failed';
+
+export interface KeyRotationSummary {
+  id: string;
+  organizationId: string;
+  targetVersion: number;
+  status: KeyRotationStatus;
+  progress: RotationProgress;
+  rowsScanned: number;
+  rowsReencrypted: number;
+  percentComplete: number;
+  error: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+// ── Model access ─────────────────────────────────────────────
+
+type Row = Record<string, unknown> & { id: string };
+
+/** The slice of a Prisma delegate the job needs — identical across models */
+interface RotationDelegate {
+  findMany(args: {
+    where: Record<string, unknown>;
+    select: Record<string, true>;
+    orderBy: { id: 'asc' };
+    take: number;
+  }): Promise<Row[]>;
+  findUnique(args: { where: { id: string }; select: Record<string, true> }): Promise<Row | null>;
+  updateMany(args: { where: Record<string, unknown>; data: Record<string, string> }): Promise<{ count: number }>;
+}
+
+/** How each model's rows are scoped to an organisation */
+const ORGANIZATION_SCOPES: Record<EncryptedModel, (organizationId: string) => Record<string, unknown>> = {
+  workshop: (organizationId) => ({ organizationId }),
+  workshopParticipant: (organizationId) => ({ workshop: { organizationId } }),
+  workshopScratchpad: (organizationId) => ({ workshop: { organizationId } }),
+  conversationMessage: (organizationId) => ({ session: { workshop: { organizationId } } }),
+  transcriptChunk: (organizationId) => ({ workshop: { organizationId } }),
+  captureSegment: (organizationId) => ({ captureSession: { workshop: { organizationId } } }),
+  evidenceDocument: (organizationId) => ({ workshop: { organizationId } }),
+  piiVaultEntry: (organizationId) => ({ workshop: { organizationId } }),
+  webhookEndpoint: (organizationId) => ({ organizationId }),
+};
+
+const MODELS = Object.keys(TENANT_ENCRYPTED_FIELDS) as EncryptedModel[];
+
+function delegateFor(model: EncryptedModel): RotationDelegate {
+  return prisma[model] as unknown as RotationDelegate;
+}
+
+/**
+ * Move one row onto `targetVersion`, writing only if its encrypted fields
+ * still hold what was read. Returns whether the row was rewritten.
+ */
+async function reencryptRow(
+  model: EncryptedModel,
+  organizationId: string,
+  row: Row,
+  targetVersion: number,
+  select: Record<string, true>,
+): Promise<boolean> {
+  let current: Row | null = row;
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS && current; attempt++) {
+    const changed = await reencryptTenantFields(model, organizationId, current, targetVersion);
+    if (!changed) return false;
+
+    const read = current;
+    const expected = Object.fromEntries(Object.keys(changed).map((field) => [field, { equals: read[field] }]));
+    const { count } = await delegateFor(model).updateMany({ where: { id: read.id, ...expected }, data: changed });
+    if (count > 0) return true;
+
+    // Written concurrently (or deleted) since it was read
+    current = await delegateFor(model).findUnique({ where: { id: row.id }, select });
+  }
+  if (!current) return false;
+  throw new Error(`${model} ${row.id} kept changing during re-encryption`);
+}
+
+function initialProgress(): RotationProgress {
+  return Object.fromEntries(
+    MODELS.map((model) => [model, { cursor: null, scanned: 0, reencrypted: 0, done: false }]),
+  ) as RotationProgress;
+}
+
+function toSummary(job: {
+  id: string;
+  organizationId: string;
+  targetVersion: number;
+  status: string;
+  progress: unknown;
+  rowsScanned: number;
+  rowsReencrypted: number;
+  error: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}): KeyRotationSummary {
+  const progress = { ...initialProgress(), ...(job.progress as Partial<RotationProgress>) };
+  const done = MODELS.filter((model) => progress[model].done).length;
+  return {
+    id: job.id,
+    organizationId: job.organizationId,
+    targetVersion: job.targetVersion,
+    status: job.status as KeyRotationStatus,
+    progress,
+    rowsScanned: job.rowsScanned,
+    rowsReencrypted: job.rowsReencrypted,
+    percentComplete: job.status === 'completed' ? 100 : Math.floor((done / MODELS.length) * 100),
+    error: job.error,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+  };
+}
+
+// ── Jobs ─────────────────────────────────────────────────────
+
+/**
+ * Create a new data key version for the organisation and a job to move its
+ * existing ciphertext onto it. Live keys are first re-wrapped under the
+ * KMS's current master key. One rotation runs per organisation at a time.
+ */
+export async function startKeyRotation(organizationId: string, startedById?: string): Promise<KeyRotationSummary> {
+  const running = await prisma.keyRotationJob.findFirst({
+    where: { organizationId, status: 'running' },
+    select: { id: true },
+  });
+  if (running) throw new TenantKeyError('A key rotation is already running for this organisation', 409);
+
+  const destroyed = await prisma.tenantDataKey.count({ where: { organizationId, status: 'destroyed' } });
+  if (destroyed > 0) throw new TenantKeyError('Organisation data keys have been destroyed', 410);
+
+  await rewrapTenantKeys(organizationId);
+  const targetVersion = await createTenantDataKey(organizationId);
+
+  const job = await prisma.keyRotationJob.create({
+    data: {
+      organizationId,
+      targetVersion,
+      startedById: startedById ?? null,
+      progress: initialProgress() as object,
+    },
+  });
+  return toSummary(job);
+}
+
+/**
+ * Process up to `maxBatches` batches of a running job, persisting progress
+ * after each one. Completes the job once every model has been walked.
+ */
+export async function advanceKeyRotation(
+  jobId: string,
+  options: { maxBatches?: number; batchSize?: number } = {},
+): Promise<KeyRotationSummary> {
+  const maxBatches = options.maxBatches ?? DEFAULT_MAX_BATCHES;
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+  const job = await prisma.keyRotationJob.findUnique({ where: { id: jobId } });
+  if (!job) throw new TenantKeyError('Key rotation job not found', 404);
+  if (job.status !== 'running') return toSummary(job);
+
+  const { organizationId, targetVersion } = job;
+  const progress = toSummary(job).progress;
+  let rowsScanned = job.rowsScanned;
+  let rowsReencrypted = job.rowsReencrypted;
+
+  try {
+    let batches = 0;
+    for (const model of MODELS) {
+      const state = progress[model];
+      const fields = TENANT_ENCRYPTED_FIELDS[model];
+      const select: Record<string, true> = Object.fromEntries([['id', true], ...fields.map((field) => [field, true])]);
+
+      while (!state.done && batches < maxBatches) {
+        const rows = await delegateFor(model).findMany({
+          where: {
+            ...ORGANIZATION_SCOPES[model](organizationId),
+            ...(state.cursor ? { id: { gt: state.cursor } } : {}),
+          },
+          select,
+          orderBy: { id: 'asc' },
+          take: batchSize,
+        });
+
+        for (const row of rows) {
+          if (await reencryptRow(model, organizationId, row, targetVersion, select)) {
+            state.reencrypted++;
+            rowsReencrypted++;
+          }
+        }
+
+        state.scanned += rows.length;
+        rowsScanned += rows.length;
+        state.cursor = rows.length > 0 ? rows[rows.length - 1].id : state.cursor;
+        state.done = rows.length < batchSize;
+        batches++;
+
+        await prisma.keyRotationJob.update({
+          where: { id: jobId },
+          data: { progress: progress as object, rowsScanned, rowsReencrypted },
+        });
+      }
+      if (!state.done) break;
+    }
+
+    if (MODELS.every((model) => progress[model].done)) {
+      const completed = await prisma.keyRotationJob.update({
+        where: { id: jobId },
+        data: { status: 'completed', completedAt: new Date() },
+      });
+      clearTenantKeyCache(organizationId);
+      return toSummary(completed);
+    }
+
+    return toSummary({ ...job, progress, rowsScanned, rowsReencrypted });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[KeyRotation] Job ${jobId} failed:`, error);
+    const failed = await prisma.keyRotationJob.update({
+      where: { id: jobId },
+      data: { status: 'failed', error: message.slice(0, 500), progress: progress as object, rowsScanned, rowsReencrypted },
+    });
+    return toSummary(failed);
+  }
+}
+
+/** Advance every running job — called by the key-rotation cron */
+export async function advanceRunningKeyRotations(
+  options: { maxBatches?: number; batchSize?: number } = {},
+): Promise<KeyRotationSummary[]> {
+  const jobs = await prisma.keyRotationJob.findMany({
+    where: { status: 'running' },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+  });
+
+  const results: KeyRotationSummary[] = [];
+  for (const job of jobs) {
+    results.push(await advanceKeyRotation(job.id, options));
+  }
+  return results;
+}
+
+export async function getLatestKeyRotation(organizationId: string): Promise<KeyRotationSummary | null> {
+  const job = await prisma.keyRotationJob.findFirst({
+    where: { organizationId },
+    orderBy: { createdAt: 'desc' },
+  });
+  return job ? toSummary(job) : null;
+}
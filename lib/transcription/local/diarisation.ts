@@ -0,0 +1,180 @@
+/**
+ * Online speaker diarisation for local transcription.
+ *
+ * Hosted providers (Deepgram, CaptureAPI) return speaker labels; local
+ * whisper models do not. This assigns each transcribed segment to a speaker
+ * by clustering a small voice profile — pitch, pitch spread, zero-crossing
+ * rate and spectral tilt — as segments arrive. It needs no model download
+ * and runs in the browser or in Node.
+ *
+ * It is deliberately coarse: it separates voices that sound different
+ * (typically different pitch ranges) and will merge similar ones. Labels
+ * follow the CaptureAPI convention (`speaker_0`, `speaker_1`, …) so the
+ * live pages treat them the same way.
+ */
+
+import { WHISPER_SAMPLE_RATE, rms } from './pcm';
+
+export type VoiceProfile = [logPitch: number, pitchSpread: number, zeroCrossing: number, spectralTilt: number];
+
+export type DiariserOptions = {
+  /** Distance above which a segment starts a new speaker. */
+  newSpeakerThreshold?: number;
+  /** Past this, segments go to the nearest existing speaker. */
+  maxSpeakers?: number;
+};
+
+type SpeakerCluster = {
+  id: string;
+  centroid: VoiceProfile;
+  segments: number;
+};
+
+const FRAME_MS = 30;
+const HOP_MS = 15;
+const MIN_PITCH_HZ = 70;
+const MAX_PITCH_HZ = 400;
+const MIN_VOICED_FRAMES = 3;
+// Centroids keep adapting (mic distance, fatigue) rather than freezing after the first minutes
+const MAX_CENTROID_WEIGHT = 20;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function quantile(sorted: number[], q: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))))];
+}
+
+/** Autocorrelation pitch estimate for one frame, or null if unvoiced. */
+function framePitch(samples: Float32Array, start: number, length: number, sampleRate: number): number | null {
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+  const maxLag = Math.min(length - 1, Math.ceil(sampleRate / MIN_PITCH_HZ));
+
+  let energy = 0;
+  for (let i = start; i < start + length; i++) energy += samples[i] * samples[i];
+  if (energy === 0) return null;
+
+  let bestLag = 0;
+  let best = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = start; i < start + length - lag; i++) sum += samples[i] * samples[i + lag];
+    const normalised = sum / energy;
+    if (normalised > best) {
+      best = normalised;
+      bestLag = lag;
+    }
+  }
+
+  return best > 0.3 && bestLag > 0 ? sampleRate / bestLag : null;
+}
+
+/** Voice profile of a speech segment, or null if it has too little voiced audio. */
+export function voiceProfile(samples: Float32Array, sampleRate: number = WHISPER_SAMPLE_RATE): VoiceProfile | null {
+  const frame = Math.round((sampleRate * FRAME_MS) / 1000);
+  const hop = Math.round((sampleRate * HOP_MS) / 1000);
+  const voicedFloor = Math.max(0.01, rms(samples) * 0.3);
+
+  const pitches: number[] = [];
+  let zeroCrossings = 0;
+  let diffEnergy = 0;
+  let energy = 0;
+  let voicedSamples = 0;
+
+  for (let start = 0; start + frame <= samples.length; start += hop) {
+    if (rms(samples, start, start + frame) < voicedFloor) continue;
+
+    const pitch = framePitch(samples, start, frame, sampleRate);
+    if (pitch !== null) pitches.push(pitch);
+
+    for (let i = start + 1; i < start + frame; i++) {
+      if ((samples[i - 1] >= 0) !== (samples[i] >= 0)) zeroCrossings++;
+      const d = samples[i] - samples[i - 1];
+      diffEnergy += d * d;
+      energy += samples[i] * samples[i];
+    }
+    voicedSamples += frame - 1;
+  }
+
+  if (pitches.length < MIN_VOICED_FRAMES || energy === 0) return null;
+
+  const sorted = [...pitches].sort((a, b) => a - b);
+  const semitones = (hz: number) => 12 * Math.log2(hz);
+  const spread = semitones(quantile(sorted, 0.75)) - semitones(quantile(sorted, 0.25));
+
+  return [
+    Math.log2(median(pitches) / 100),
+    spread / 12,
+    (zeroCrossings / voicedSamples) * 10,
+    diffEnergy / energy / 2,
+  ];
+}
+
+export function voiceDistance(a: VoiceProfile, b: VoiceProfile): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+}
+
+export class OnlineDiariser {
+  private readonly threshold: number;
+  private readonly maxSpeakers: number;
+  private clusters: SpeakerCluster[] = [];
+  private lastSpeaker: string | null = null;
+
+  constructor(options: DiariserOptions = {}) {
+    this.threshold = options.newSpeakerThreshold ?? 0.35;
+    this.maxSpeakers = options.maxSpeakers ?? 6;
+  }
+
+  /**
+   * Speaker label for a segment. Segments too short to profile stay with
+   * the previous speaker — short interjections are the usual cause.
+   */
+  assign(samples: Float32Array, sampleRate: number = WHISPER_SAMPLE_RATE): string | null {
+    const profile = voiceProfile(samples, sampleRate);
+    if (!profile) return this.lastSpeaker;
+
+    let nearest: SpeakerCluster | null = null;
+    let nearestDistance = Infinity;
+    for (const cluster of this.clusters) {
+      const d = voiceDistance(profile, cluster.centroid);
+      if (d < nearestDistance) {
+        nearest = cluster;
+        nearestDistance = d;
+      }
+    }
+
+    if (!nearest || (nearestDistance > this.threshold && this.clusters.length < this.maxSpeakers)) {
+      nearest = { id: `speaker_${this.clusters.length}`, centroid: profile, segments: 1 };
+      this.clusters.push(nearest);
+    } else {
+      const weight = Math.min(nearest.segments, MAX_CENTROID_WEIGHT);
+      nearest.centroid = nearest.centroid.map(
+        (value, i) => (value * weight + profile[i]) / (weight + 1),
+      ) as VoiceProfile;
+      nearest.segments++;
+    }
+
+    this.lastSpeaker = nearest.id;
+    return nearest.id;
+  }
+
+  /** Current centroid for a speaker — sent with chunks for voice enrolment. */
+  profileOf(speakerId: string): VoiceProfile | null {
+    const cluster = this.clusters.find((c) => c.id === speakerId);
+    return cluster ? [...cluster.centroid] as VoiceProfile : null;
+  }
+
+  get speakerCount(): number {
+    return this.clusters.length;
+  }
+
+  reset(): void {
+    this.clusters = [];
+    this.lastSpeaker = null;
+  }
+}
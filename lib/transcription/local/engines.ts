@@ -0,0 +1,167 @@
+/**
+ * Local speech-to-text engines.
+ *
+ * Both supported runtimes are served as a local HTTP process on the client's
+ * own network, so audio never leaves it:
+ *   - whisper.cpp  — `whisper-server`, POST /inference
+ *   - faster-whisper — OpenAI-compatible server, POST /v1/audio/transcriptions
+ *
+ * Each is asked for `verbose_json`, which both return in the OpenAI segment
+ * shape ({ start, end, text, avg_logprob, no_speech_prob } in seconds).
+ */
+
+export type LocalSttEngineKind = 'whisper.cpp' | 'faster-whisper';
+
+export type LocalSttSegment = {
+  /** Offsets within the submitted audio window. */
+  startMs: number;
+  endMs: number;
+  text: string;
+  confidence: number | null;
+};
+
+export type LocalSttRequest = {
+  /** ISO 639-1 code; omit to let the model detect it. */
+  language?: string;
+  /** Preceding transcript text — keeps names and spelling consistent across windows. */
+  prompt?: string;
+  signal?: AbortSignal;
+};
+
+export interface LocalSttEngine {
+  readonly kind: LocalSttEngineKind;
+  transcribe(wav: Uint8Array, request?: LocalSttRequest): Promise<LocalSttSegment[]>;
+}
+
+export type LocalSttEngineConfig = {
+  kind: LocalSttEngineKind;
+  /** e.g. http://127.0.0.1:8080 */
+  baseUrl: string;
+  /** Model name for faster-whisper servers (whisper.cpp loads one at startup). */
+  model?: string;
+  timeoutMs?: number;
+};
+
+export class LocalSttError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: LocalSttEngineKind,
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'LocalSttError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_FASTER_WHISPER_MODEL = 'Systran/faster-whisper-small';
+
+/** Segments the model itself flags as probably not speech. */
+const NO_SPEECH_THRESHOLD = 0.6;
+
+/** Whisper's non-speech markers, e.g. "[BLANK_AUDIO]", "(music)". */
+const NON_SPEECH_PATTERN = /^\s*[[(][^\])]*[\])]\s*$/;
+
+type VerboseJsonSegment = {
+  start?: number;
+  end?: number;
+  text?: string;
+  avg_logprob?: number;
+  no_speech_prob?: number;
+};
+
+type VerboseJsonResponse = {
+  text?: string;
+  duration?: number;
+  segments?: VerboseJsonSegment[];
+};
+
+export function parseVerboseJson(body: VerboseJsonResponse): LocalSttSegment[] {
+  const segments: LocalSttSegment[] = [];
+
+  if (!Array.isArray(body.segments) || body.segments.length === 0) {
+    const text = (body.text ?? '').trim();
+    if (text && !NON_SPEECH_PATTERN.test(text)) {
+      segments.push({ startMs: 0, endMs: Math.round((body.duration ?? 0) * 1000), text, confidence: null });
+    }
+    return segments;
+  }
+
+  for (const seg of body.segments) {
+    const text = (seg.text ?? '').trim();
+    if (!text || NON_SPEECH_PATTERN.test(text)) continue;
+    if ((seg.no_speech_prob ?? 0) > NO_SPEECH_THRESHOLD) continue;
+
+    segments.push({
+      startMs: Math.round((seg.start ?? 0) * 1000),
+      endMs: Math.round((seg.end ?? seg.start ?? 0) * 1000),
+      text,
+      confidence: typeof seg.avg_logprob === 'number'
+        ? Math.max(0, Math.min(1, Math.exp(seg.avg_logprob)))
+        : null,
+    });
+  }
+
+  return segments;
+}
+
+class WhisperHttpEngine implements LocalSttEngine {
+  readonly kind: LocalSttEngineKind;
+  private readonly url: string;
+  private readonly model: string | undefined;
+  private readonly timeoutMs: number;
+
+  constructor(config: LocalSttEngineConfig) {
+    this.kind = config.kind;
+    const base = config.baseUrl.replace(/\/+$/, '');
+    this.url = config.kind === 'whisper.cpp' ? `${base}/inference` : `${base}/v1/audio/transcriptions`;
+    this.model = config.kind === 'faster-whisper' ? config.model ?? DEFAULT_FASTER_WHISPER_MODEL : undefined;
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  async transcribe(wav: Uint8Array, request: LocalSttRequest = {}): Promise<LocalSttSegment[]> {
+    const form = new FormData();
+    form.append('file', new Blob([wav as BlobPart], { type: 'audio/wav' }), 'audio.wav');
+    form.append('response_format', 'verbose_json');
+    form.append('temperature', '0');
+    if (this.model) form.append('model', this.model);
+    if (request.language) form.append('language', request.language);
+    if (request.prompt) form.append('prompt', request.prompt);
+
+    const timeout = AbortSignal.timeout(this.timeoutMs);
+    const signal = request.signal ? AbortSignal.any([request.signal, timeout]) : timeout;
+
+    let res: Response;
+    try {
+      res = await fetch(this.url, { method: 'POST', body: form, signal });
+    } catch (error) {
+      throw new LocalSttError(
+        `${this.kind} server unreachable at ${this.url}: ${error instanceof Error ? error.message : String(error)}`,
+        this.kind,
+      );
+    }
+
+    if (!res.ok) {
+      const detail = await res.text().catch(() => '');
+      throw new LocalSttError(`${this.kind} returned ${res.status}: ${detail.slice(0, 200)}`, this.kind, res.status);
+    }
+
+    return parseVerboseJson((await res.json()) as VerboseJsonResponse);
+  }
+}
+
+export function createLocalSttEngine(config: LocalSttEngineConfig): LocalSttEngine {
+  return new WhisperHttpEngine(config);
+}
+
+/**
+ * Engine config from NEXT_PUBLIC_LOCAL_STT_URL / NEXT_PUBLIC_LOCAL_STT_ENGINE
+ * (public so browser capture can reach a server on the facilitator's machine
+ * or LAN). Null when local STT is not configured.
+ */
+export function localSttConfigFromEnv(): LocalSttEngineConfig | null {
+  const baseUrl = process.env.NEXT_PUBLIC_LOCAL_STT_URL;
+  if (!baseUrl) return null;
+  const kind = process.env.NEXT_PUBLIC_LOCAL_STT_ENGINE === 'faster-whisper' ? 'faster-whisper' : 'whisper.cpp';
+  return { kind, baseUrl, model: process.env.NEXT_PUBLIC_LOCAL_STT_MODEL || undefined };
+}
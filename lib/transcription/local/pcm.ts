@@ -0,0 +1,76 @@
+/**
+ * PCM helpers for local speech-to-text.
+ *
+ * Whisper-family models expect 16 kHz mono audio. Capture sources hand us
+ * Int16 (WebRTC / getUserMedia worklets, CLI recorders) or Float32 (Web Audio)
+ * at whatever rate the device runs, so everything is normalised here before
+ * windowing, diarisation and WAV encoding.
+ */
+
+export const WHISPER_SAMPLE_RATE = 16_000;
+
+export type PcmFrame = Int16Array | Float32Array;
+
+/** Convert a frame to Float32 in [-1, 1]. */
+export function toFloat32(frame: PcmFrame): Float32Array {
+  if (frame instanceof Float32Array) return frame;
+  const out = new Float32Array(frame.length);
+  for (let i = 0; i < frame.length; i++) out[i] = frame[i] / 0x8000;
+  return out;
+}
+
+/** Linear-interpolation resample. Good enough for speech at 16 kHz. */
+export function resample(samples: Float32Array, fromRate: number, toRate: number = WHISPER_SAMPLE_RATE): Float32Array {
+  if (fromRate === toRate) return samples;
+  const ratio = fromRate / toRate;
+  const length = Math.floor(samples.length / ratio);
+  const out = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const pos = i * ratio;
+    const idx = Math.floor(pos);
+    const frac = pos - idx;
+    const next = idx + 1 < samples.length ? samples[idx + 1] : samples[idx];
+    out[i] = samples[idx] + (next - samples[idx]) * frac;
+  }
+  return out;
+}
+
+/** Root-mean-square level of a slice. */
+export function rms(samples: Float32Array, start = 0, end = samples.length): number {
+  if (end <= start) return 0;
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / (end - start));
+}
+
+/** Encode mono Float32 samples as a 16-bit PCM WAV file. */
+export function encodeWav(samples: Float32Array, sampleRate: number = WHISPER_SAMPLE_RATE): Uint8Array {
+  const dataBytes = samples.length * 2;
+  const buffer = new ArrayBuffer(44 + dataBytes);
+  const view = new DataView(buffer);
+
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeAscii(36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+
+  return new Uint8Array(buffer);
+}
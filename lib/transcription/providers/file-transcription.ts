@@ -0,0 +1,198 @@
+import { env } from '@/lib/env';
+import type { NormalizedTranscriptChunk, TranscriptionSource } from '../types';
+import { parseVerboseJson } from '../local/engines';
+
+/**
+ * Transcribes recorded audio and video files (evidence uploads) rather than
+ * a live stream. Chunks use the same shape as the live providers, with
+ * startTime/endTime in milliseconds from the start of the recording.
+ *
+ *   - Deepgram (DEEPGRAM_API_KEY) — pre-recorded API with diarisation, so
+ *     chunks carry speaker labels (`speaker_0`, `speaker_1`, …)
+ *   - OpenAI whisper-1 (OPENAI_API_KEY) — segment timestamps but no speakers;
+ *     the API caps uploads at 25 MB
+ *
+ * Both accept common audio and video containers directly, so no decoding
+ * happens here.
+ */
+
+export type RecordedMedia = {
+  buffer: Buffer;
+  mimeType: string;
+  fileName: string;
+};
+
+export type FileTranscriptionRequest = {
+  /** ISO 639-1 code; omit to let the provider detect it. */
+  language?: string;
+  signal?: AbortSignal;
+};
+
+export interface FileTranscriber {
+  readonly source: TranscriptionSource;
+  /** Largest file the provider accepts, in bytes. */
+  readonly maxFileBytes: number;
+  transcribe(media: RecordedMedia, request?: FileTranscriptionRequest): Promise<NormalizedTranscriptChunk[]>;
+}
+
+export class FileTranscriptionError extends Error {
+  constructor(
+    message: string,
+    public readonly source: TranscriptionSource,
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'FileTranscriptionError';
+  }
+}
+
+// Long recordings take a while even on fast providers
+const DEFAULT_TIMEOUT_MS = 240_000;
+
+const OPENAI_MAX_FILE_BYTES = 25 * 1024 * 1024;
+const DEEPGRAM_MAX_FILE_BYTES = 2 * 1024 * 1024 * 1024;
+
+// ── Deepgram ─────────────────────────────────────────────────────────────────
+
+type DeepgramUtterance = {
+  start?: number;
+  end?: number;
+  transcript?: string;
+  confidence?: number;
+  speaker?: number;
+};
+
+type DeepgramResponse = {
+  metadata?: { duration?: number };
+  results?: {
+    utterances?: DeepgramUtterance[];
+    channels?: Array<{ alternatives?: Array<{ transcript?: string; confidence?: number }> }>;
+  };
+};
+
+/** Deepgram pre-recorded response → chunks, one per diarised utterance. */
+export function parseDeepgramUtterances(body: DeepgramResponse): NormalizedTranscriptChunk[] {
+  const utterances = body.results?.utterances;
+
+  if (!Array.isArray(utterances) || utterances.length === 0) {
+    const alt = body.results?.channels?.[0]?.alternatives?.[0];
+    const text = (alt?.transcript ?? '').trim();
+    if (!text) return [];
+    return [{
+      speakerId: null,
+      startTime: 0,
+      endTime: Math.round((body.metadata?.duration ?? 0) * 1000),
+      text,
+      confidence: alt?.confidence ?? null,
+      source: 'deepgram',
+    }];
+  }
+
+  return utterances
+    .filter((u) => (u.transcript ?? '').trim())
+    .map((u) => ({
+      speakerId: typeof u.speaker === 'number' ? `speaker_${u.speaker}` : null,
+      startTime: Math.round((u.start ?? 0) * 1000),
+      endTime: Math.round((u.end ?? u.start ?? 0) * 1000),
+      text: (u.transcript ?? '').trim(),
+      confidence: u.confidence ?? null,
+      source: 'deepgram' as const,
+    }));
+}
+
+class DeepgramFileTranscriber implements FileTranscriber {
+  readonly source = 'deepgram' as const;
+  readonly maxFileBytes = DEEPGRAM_MAX_FILE_BYTES;
+
+  constructor(private readonly apiKey: string) {}
+
+  async transcribe(media: RecordedMedia, request: FileTranscriptionRequest = {}): Promise<NormalizedTranscriptChunk[]> {
+    const url = new URL('https://api.deepgram.com/v1/listen');
+    url.searchParams.set('model', 'nova-3');
+    url.searchParams.set('smart_format', 'true');
+    url.searchParams.set('punctuate', 'true');
+    url.searchParams.set('diarize', 'true');
+    url.searchParams.set('utterances', 'true');
+    if (request.language) url.searchParams.set('language', request.language);
+    else url.searchParams.set('detect_language', 'true');
+
+    // Strip codec parameters — Deepgram rejects "audio/webm;codecs=opus"
+    const contentType = media.mimeType.split(';')[0].trim() || 'application/octet-stream';
+    const timeout = AbortSignal.timeout(DEFAULT_TIMEOUT_MS);
+
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method: 'POST',
+        headers: { Authorization: `Token ${this.apiKey}`, 'Content-Type': contentType },
+        body: new Uint8Array(media.buffer),
+        signal: request.signal ? AbortSignal.any([request.signal, timeout]) : timeout,
+      });
+    } catch (error) {
+      throw new FileTranscriptionError(
+        `Deepgram unreachable: ${error instanceof Error ? error.message : String(error)}`,
+        this.source,
+      );
+    }
+
+    if (!res.ok) {
+      const detail = await res.text().catch(() => '');
+      throw new FileTranscriptionError(`Deepgram returned ${res.status}: ${detail.slice(0, 200)}`, this.source, res.status);
+    }
+
+    return parseDeepgramUtterances((await res.json()) as DeepgramResponse);
+  }
+}
+
+// ── OpenAI ───────────────────────────────────────────────────────────────────
+
+class OpenAiFileTranscriber implements FileTranscriber {
+  readonly source = 'whisper' as const;
+  readonly maxFileBytes = OPENAI_MAX_FILE_BYTES;
+
+  constructor(private readonly apiKey: string) {}
+
+  async transcribe(media: RecordedMedia, request: FileTranscriptionRequest = {}): Promise<NormalizedTranscriptChunk[]> {
+    if (media.buffer.length > this.maxFileBytes) {
+      throw new FileTranscriptionError(
+        `${media.fileName} is ${Math.round(media.buffer.length / 1024 / 1024)} MB — OpenAI transcription accepts up to 25 MB (configure Deepgram for longer recordings)`,
+        this.source,
+      );
+    }
+
+    const OpenAI = (await import('openai')).default;
+    const openai = new OpenAI({ apiKey: this.apiKey, timeout: DEFAULT_TIMEOUT_MS });
+
+    // whisper-1 is the OpenAI model that returns segment timestamps
+    const result = await openai.audio.transcriptions.create(
+      {
+        file: new File([new Uint8Array(media.buffer)], media.fileName, { type: media.mimeType }),
+        model: 'whisper-1',
+        response_format: 'verbose_json',
+        ...(request.language && { language: request.language }),
+      },
+      { signal: request.signal },
+    );
+
+    return parseVerboseJson(result).map((segment) => ({
+      speakerId: null,
+      startTime: segment.startMs,
+      endTime: segment.endMs,
+      text: segment.text,
+      confidence: segment.confidence,
+      source: this.source,
+    }));
+  }
+}
+
+// ── Selection ────────────────────────────────────────────────────────────────
+
+/**
+ * The configured recorded-media transcriber — Deepgram first because it
+ * labels speakers. Null when neither provider has a key.
+ */
+export function createFileTranscriber(): FileTranscriber | null {
+  if (env.DEEPGRAM_API_KEY) return new DeepgramFileTranscriber(env.DEEPGRAM_API_KEY);
+  if (env.OPENAI_API_KEY) return new OpenAiFileTranscriber(env.OPENAI_API_KEY);
+  return null;
+}
@@ -0,0 +1,189 @@
+import type { NormalizedTranscriptChunk } from '../types';
+import type { TranscriptionProvider, TranscriptChunkHandler } from './transcription-provider';
+import type { LocalSttEngine } from '../local/engines';
+import { OnlineDiariser, type DiariserOptions } from '../local/diarisation';
+import { WHISPER_SAMPLE_RATE, encodeWav, resample, rms, toFloat32, type PcmFrame } from '../local/pcm';
+
+/**
+ * Transcribes streamed PCM with a local whisper.cpp / faster-whisper server
+ * and diarises it on-device, so audio never leaves the client's network.
+ *
+ * Audio is pushed in as it is captured and cut into windows at pauses
+ * (or at maxWindowMs during continuous speech). Windows are transcribed in
+ * order; chunk times are milliseconds since start(), from the sample count
+ * rather than the wall clock, so they stay accurate if the engine falls behind.
+ */
+
+export type LocalWhisperProviderOptions = {
+  engine: LocalSttEngine;
+  /** ISO 639-1 code; omit to let the model detect it. */
+  language?: string;
+  /** Set false when there is one speaker per capture device. */
+  diarise?: boolean | DiariserOptions;
+  minWindowMs?: number;
+  maxWindowMs?: number;
+  /** Trailing quiet that ends a window once minWindowMs is reached. */
+  silenceMs?: number;
+  /** RMS level below which audio counts as silence. */
+  silenceThreshold?: number;
+  /** Windows allowed to wait for the engine before new ones are dropped. */
+  maxQueuedWindows?: number;
+  onError?: (error: unknown) => void;
+};
+
+const PROMPT_TAIL_CHARS = 200;
+
+export class LocalWhisperTranscriptionProvider implements TranscriptionProvider {
+  private readonly engine: LocalSttEngine;
+  private readonly language: string | undefined;
+  private readonly diariser: OnlineDiariser | null;
+  private readonly minWindowSamples: number;
+  private readonly maxWindowSamples: number;
+  private readonly silenceSamples: number;
+  private readonly silenceThreshold: number;
+  private readonly maxQueuedWindows: number;
+  private readonly onError: (error: unknown) => void;
+
+  private handlers: Set<TranscriptChunkHandler> = new Set();
+  private running = false;
+  private pending: Float32Array[] = [];
+  private pendingLength = 0;
+  private streamedSamples = 0;
+  private queue: Promise<void> = Promise.resolve();
+  private queuedWindows = 0;
+  private previousText = '';
+
+  constructor(options: LocalWhisperProviderOptions) {
+    const toSamples = (ms: number) => Math.round((ms * WHISPER_SAMPLE_RATE) / 1000);
+    this.engine = options.engine;
+    this.language = options.language;
+    this.diariser = options.diarise === false
+      ? null
+      : new OnlineDiariser(typeof options.diarise === 'object' ? options.diarise : {});
+    this.minWindowSamples = toSamples(options.minWindowMs ?? 2_000);
+    this.maxWindowSamples = toSamples(options.maxWindowMs ?? 10_000);
+    this.silenceSamples = toSamples(options.silenceMs ?? 600);
+    this.silenceThreshold = options.silenceThreshold ?? 0.01;
+    this.maxQueuedWindows = options.maxQueuedWindows ?? 6;
+    this.onError = options.onError ?? ((error) => console.error('[LocalSTT] Transcription failed:', error));
+  }
+
+  onChunk(handler: TranscriptChunkHandler): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  async start(): Promise<void> {
+    this.running = true;
+    this.pending = [];
+    this.pendingLength = 0;
+    this.streamedSamples = 0;
+    this.previousText = '';
+    this.diariser?.reset();
+  }
+
+  /** Flushes the last partial window and waits for outstanding transcriptions. */
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.cutWindow();
+    this.running = false;
+    await this.queue;
+  }
+
+  /** Feed captured audio. Any sample rate; mono Int16 or Float32. */
+  pushAudio(frame: PcmFrame, sampleRate: number): void {
+    if (!this.running || frame.length === 0) return;
+
+    const samples = resample(toFloat32(frame), sampleRate);
+    // Capture APIs reuse their buffers — keep a copy if nothing else made one
+    this.pending.push(samples === frame ? samples.slice() : samples);
+    this.pendingLength += samples.length;
+
+    if (this.pendingLength >= this.maxWindowSamples) {
+      this.cutWindow();
+    } else if (this.pendingLength >= this.minWindowSamples && this.endsInSilence()) {
+      this.cutWindow();
+    }
+  }
+
+  private endsInSilence(): boolean {
+    const tail = this.concatPending(this.silenceSamples);
+    return tail.length >= this.silenceSamples && rms(tail) < this.silenceThreshold;
+  }
+
+  /** Concatenate pending audio; with `lastSamples`, only the most recent slice. */
+  private concatPending(lastSamples?: number): Float32Array {
+    const length = Math.min(lastSamples ?? this.pendingLength, this.pendingLength);
+    const out = new Float32Array(length);
+    let offset = length;
+    for (let i = this.pending.length - 1; i >= 0 && offset > 0; i--) {
+      const part = this.pending[i];
+      const take = Math.min(part.length, offset);
+      out.set(part.subarray(part.length - take), offset - take);
+      offset -= take;
+    }
+    return out;
+  }
+
+  private cutWindow(): void {
+    if (this.pendingLength === 0) return;
+
+    const window = this.concatPending();
+    const windowStartMs = Math.round((this.streamedSamples * 1000) / WHISPER_SAMPLE_RATE);
+    this.streamedSamples += window.length;
+    this.pending = [];
+    this.pendingLength = 0;
+
+    if (rms(window) < this.silenceThreshold) return;
+
+    if (this.queuedWindows >= this.maxQueuedWindows) {
+      console.warn(`[LocalSTT] Engine behind by ${this.queuedWindows} windows — dropping audio at ${windowStartMs}ms`);
+      return;
+    }
+
+    this.queuedWindows++;
+    this.queue = this.queue
+      .then(() => this.transcribeWindow(window, windowStartMs))
+      .catch((error) => this.onError(error))
+      .finally(() => {
+        this.queuedWindows--;
+      });
+  }
+
+  private async transcribeWindow(window: Float32Array, windowStartMs: number): Promise<void> {
+    const segments = await this.engine.transcribe(encodeWav(window), {
+      language: this.language,
+      prompt: this.previousText.slice(-PROMPT_TAIL_CHARS) || undefined,
+    });
+
+    for (const segment of segments) {
+      const from = Math.floor((segment.startMs * WHISPER_SAMPLE_RATE) / 1000);
+      const to = Math.min(window.length, Math.ceil((segment.endMs * WHISPER_SAMPLE_RATE) / 1000));
+      const speakerId = this.diariser && to > from ? this.diariser.assign(window.subarray(from, to)) : null;
+      const voiceProfile = speakerId ? this.diariser?.profileOf(speakerId) : null;
+
+      this.previousText = `${this.previousText} ${segment.text}`.slice(-PROMPT_TAIL_CHARS);
+      this.emit({
+        speakerId,
+        startTime: windowStartMs + segment.startMs,
+        endTime: windowStartMs + segment.endMs,
+        text: segment.text,
+        confidence: segment.confidence,
+        source: 'local',
+        ...(voiceProfile && { voiceProfile }),
+      });
+    }
+  }
+
+  private emit(chunk: NormalizedTranscriptChunk): void {
+    for (const h of this.handlers) {
+      try {
+        h(chunk);
+      } catch {
+        // ignore handler errors
+      }
+    }
+  }
+}
@@ -0,0 +1,417 @@
+/**
+ * Workshop speaker registry.
+ *
+ * Transcription providers label speakers with opaque strings (`speaker_0`,
+ * Deepgram channel ids, …). The registry keeps one row per label per
+ * workshop so a facilitator can say who each voice is — during the session
+ * or afterwards. Mapping a speaker relabels everything already captured:
+ * live DataPoints get the participantId, and AgenticAnalysis actor records
+ * that named the old label are rewritten to the participant's name. New
+ * utterances from a mapped speaker are attributed as they arrive.
+ *
+ * Local capture reports each speaker's voice profile with its chunks.
+ * Participants can be enrolled with a profile (explicitly, or on their first
+ * mapping) and unmapped speakers that sound like them are suggested.
+ *
+ * Note: DataPoint.participantId cascades on participant delete, so deleting
+ * a mapped participant also removes their spoken contributions.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { decryptTenantRecords } from '@/lib/workshop-encryption';
+import { computeParticipationImbalance } from '@/lib/output/normalize';
+import { voiceDistance, type VoiceProfile } from './local/diarisation';
+import type { NormalizationResult } from '@/lib/types/output-dashboard';
+
+// ══════════════════════════════════════════════════════════════
+// Types
+// ══════════════════════════════════════════════════════════════
+
+export type SpeakerAnalytics = {
+  speakerId: string;
+  talkTimeMs: number;
+  /** Transcript chunks, including fragments too short to analyse. */
+  utterances: number;
+  words: number;
+  /** DataPoints — utterances substantive enough to analyse. */
+  contributions: number;
+  /** Fraction of all attributed talk time, 0–1. */
+  share: number;
+  firstSpokeMs: number | null;
+  lastSpokeMs: number | null;
+};
+
+export type SpeakerSuggestion = {
+  participantId: string;
+  participantName: string;
+  /** Voice-profile distance; lower is closer. */
+  distance: number;
+};
+
+export type WorkshopSpeakerSummary = SpeakerAnalytics & {
+  /** Participant name, facilitator label, or the raw speakerId. */
+  label: string;
+  participantId: string | null;
+  participantName: string | null;
+  displayName: string | null;
+  mappedAt: string | null;
+  suggestion: SpeakerSuggestion | null;
+};
+
+export type WorkshopSpeakerReport = {
+  speakers: WorkshopSpeakerSummary[];
+  /** Mapping targets for the facilitator. */
+  participants: Array<{ id: string; name: string; voiceEnrolled: boolean }>;
+  /** Imbalance across speakers by contribution count, keyed by label. */
+  participation: NormalizationResult;
+};
+
+export type SpeakerMapping = {
+  /** null clears the participant link. */
+  participantId: string | null;
+  /** Used when the speaker is not a participant (e.g. the facilitator). */
+  displayName?: string | null;
+  mappedById?: string | null;
+};
+
+export type SpeakerMappingResult = {
+  label: string;
+  dataPointsRelabelled: number;
+  analysesRelabelled: number;
+  enrolled: boolean;
+};
+
+export class SpeakerMappingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpeakerMappingError';
+  }
+}
+
+type TalkChunk = {
+  speakerId: string | null;
+  startTimeMs: number | bigint;
+  endTimeMs: number | bigint;
+  text: string;
+};
+
+type ActorInteraction = { withActor?: unknown; [key: string]: unknown };
+type ActorRecord = { name?: unknown; interactions?: unknown; [key: string]: unknown };
+
+/** Above this no participant is suggested — same scale as the diariser's new-speaker threshold. */
+const SUGGESTION_MAX_DISTANCE = 0.35;
+
+// ══════════════════════════════════════════════════════════════
+// Pure helpers
+// ══════════════════════════════════════════════════════════════
+
+/** A stored or submitted voice profile, or null if it is not one. */
+export function parseVoiceProfile(value: unknown): VoiceProfile | null {
+  if (!Array.isArray(value) || value.length !== 4) return null;
+  if (!value.every((v) => typeof v === 'number' && Number.isFinite(v))) return null;
+  return value as VoiceProfile;
+}
+
+/** Per-speaker talk time and contribution counts, busiest first. */
+export function computeSpeakerAnalytics(
+  chunks: TalkChunk[],
+  contributions: Map<string, number> = new Map(),
+): SpeakerAnalytics[] {
+  const bySpeaker = new Map<string, SpeakerAnalytics>();
+
+  for (const chunk of chunks) {
+    if (!chunk.speakerId) continue;
+    const start = Number(chunk.startTimeMs);
+    const end = Number(chunk.endTimeMs);
+
+    let entry = bySpeaker.get(chunk.speakerId);
+    if (!entry) {
+      entry = {
+        speakerId: chunk.speakerId,
+        talkTimeMs: 0,
+        utterances: 0,
+        words: 0,
+        contributions: contributions.get(chunk.speakerId) ?? 0,
+        share: 0,
+        firstSpokeMs: null,
+        lastSpokeMs: null,
+      };
+      bySpeaker.set(chunk.speakerId, entry);
+    }
+
+    entry.talkTimeMs += Math.max(0, end - start);
+    entry.utterances++;
+    entry.words += chunk.text.split(/\s+/).filter(Boolean).length;
+    entry.firstSpokeMs = entry.firstSpokeMs === null ? start : Math.min(entry.firstSpokeMs, start);
+    entry.lastSpokeMs = entry.lastSpokeMs === null ? end : Math.max(entry.lastSpokeMs, end);
+  }
+
+  // Speakers known only from the contributions map (no chunks) still count
+  for (const [speakerId, count] of contributions) {
+    if (!bySpeaker.has(speakerId)) {
+      bySpeaker.set(speakerId, {
+        speakerId, talkTimeMs: 0, utterances: 0, words: 0, contributions: count,
+        share: 0, firstSpokeMs: null, lastSpokeMs: null,
+      });
+    }
+  }
+
+  const entries = [...bySpeaker.values()];
+  const totalMs = entries.reduce((sum, e) => sum + e.talkTimeMs, 0);
+  for (const entry of entries) {
+    entry.share = totalMs > 0 ? Math.round((entry.talkTimeMs / totalMs) * 1000) / 1000 : 0;
+  }
+
+  return entries.sort((a, b) => b.talkTimeMs - a.talkTimeMs || b.contributions - a.contributions);
+}
+
+/**
+ * Rewrite actor names (and interaction targets) that match any of `from`,
+ * case-insensitively. Returns null when nothing changed.
+ */
+export function relabelActors(actors: unknown, from: Set<string>, to: string): ActorRecord[] | null {
+  if (!Array.isArray(actors)) return null;
+  const matches = (value: unknown) => typeof value === 'string' && from.has(value.trim().toLowerCase());
+
+  let changed = false;
+  const relabelled = (actors as ActorRecord[]).map((actor) => {
+    if (!actor || typeof actor !== 'object') return actor;
+    let next = actor;
+    if (matches(actor.name)) {
+      next = { ...next, name: to };
+      changed = true;
+    }
+    if (Array.isArray(actor.interactions)) {
+      const interactions = (actor.interactions as ActorInteraction[]).map((interaction) => {
+        if (!interaction || !matches(interaction.withActor)) return interaction;
+        changed = true;
+        return { ...interaction, withActor: to };
+      });
+      next = { ...next, interactions };
+    }
+    return next;
+  });
+
+  return changed ? relabelled : null;
+}
+
+/** Nearest enrolled participant within the suggestion threshold. */
+export function suggestParticipant(
+  profile: VoiceProfile,
+  enrolled: Array<{ participantId: string; participantName: string; profile: VoiceProfile }>,
+): SpeakerSuggestion | null {
+  let best: SpeakerSuggestion | null = null;
+  for (const candidate of enrolled) {
+    const distance = voiceDistance(profile, candidate.profile);
+    if (distance <= SUGGESTION_MAX_DISTANCE && (!best || distance < best.distance)) {
+      best = {
+        participantId: candidate.participantId,
+        participantName: candidate.participantName,
+        distance: Math.round(distance * 1000) / 1000,
+      };
+    }
+  }
+  return best;
+}
+
+// ══════════════════════════════════════════════════════════════
+// Registry
+// ══════════════════════════════════════════════════════════════
+
+/**
+ * Record a speaker seen during ingest (and its latest voice profile).
+ * Returns the participant it is mapped to, if any.
+ */
+export async function registerSpeaker(
+  workshopId: string,
+  speakerId: string,
+  voiceProfile?: unknown,
+): Promise<string | null> {
+  const profile = parseVoiceProfile(voiceProfile);
+  const row = await prisma.workshopSpeaker.upsert({
+    where: { workshopId_speakerId: { workshopId, speakerId } },
+    create: { workshopId, speakerId, ...(profile && { voiceProfile: profile }) },
+    update: profile ? { voiceProfile: profile } : {},
+    select: { participantId: true },
+  });
+  return row.participantId;
+}
+
+/** Every speaker heard in the workshop with mapping, suggestion and analytics. */
+export async function listWorkshopSpeakers(workshopId: string): Promise<WorkshopSpeakerReport> {
+  const [chunks, dataPointCounts, rows, participants] = await Promise.all([
+    prisma.transcriptChunk.findMany({
+      where: { workshopId, speakerId: { not: null } },
+      select: { speakerId: true, startTimeMs: true, endTimeMs: true, text: true },
+    }).then((rows) => decryptTenantRecords('transcriptChunk', rows)),
+    prisma.dataPoint.groupBy({
+      by: ['speakerId'],
+      where: { workshopId, speakerId: { not: null } },
+      _count: { _all: true },
+    }),
+    prisma.workshopSpeaker.findMany({
+      where: { workshopId },
+      include: { participant: { select: { id: true, name: true } } },
+    }),
+    prisma.workshopParticipant.findMany({
+      where: { workshopId },
+      select: { id: true, name: true, voiceProfile: true, voiceEnrolledAt: true },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  const contributions = new Map<string, number>();
+  for (const group of dataPointCounts) {
+    if (group.speakerId) contributions.set(group.speakerId, group._count._all);
+  }
+
+  // Registered speakers that have not contributed yet still appear
+  for (const row of rows) {
+    if (!contributions.has(row.speakerId)) contributions.set(row.speakerId, 0);
+  }
+
+  const analytics = computeSpeakerAnalytics(chunks, contributions);
+  const rowsBySpeaker = new Map(rows.map((row) => [row.speakerId, row]));
+
+  const mappedParticipantIds = new Set(rows.map((row) => row.participantId).filter(Boolean));
+  const enrolled = participants.flatMap((p) => {
+    const profile = parseVoiceProfile(p.voiceProfile);
+    return profile && !mappedParticipantIds.has(p.id)
+      ? [{ participantId: p.id, participantName: p.name, profile }]
+      : [];
+  });
+
+  const speakers = analytics.map((entry): WorkshopSpeakerSummary => {
+    const row = rowsBySpeaker.get(entry.speakerId);
+    const participantName = row?.participant?.name ?? null;
+    const profile = parseVoiceProfile(row?.voiceProfile);
+    return {
+      ...entry,
+      label: participantName ?? row?.displayName ?? entry.speakerId,
+      participantId: row?.participantId ?? null,
+      participantName,
+      displayName: row?.displayName ?? null,
+      mappedAt: row?.mappedAt?.toISOString() ?? null,
+      suggestion: !row?.participantId && profile ? suggestParticipant(profile, enrolled) : null,
+    };
+  });
+
+  const participation = computeParticipationImbalance(
+    new Map(speakers.map((s) => [s.label, s.contributions])),
+  );
+
+  return {
+    speakers,
+    participants: participants.map((p) => ({ id: p.id, name: p.name, voiceEnrolled: !!p.voiceEnrolledAt })),
+    participation,
+  };
+}
+
+/**
+ * Map (or unmap) a speaker and relabel what it has already said.
+ *
+ * Only live DataPoints (no discovery session) are touched — discovery
+ * interview DataPoints carry their participant already.
+ */
+export async function mapSpeaker(
+  workshopId: string,
+  speakerId: string,
+  mapping: SpeakerMapping,
+): Promise<SpeakerMappingResult> {
+  const participant = mapping.participantId
+    ? await prisma.workshopParticipant.findFirst({
+        where: { id: mapping.participantId, workshopId },
+        select: { id: true, name: true, voiceEnrolledAt: true },
+      })
+    : null;
+  if (mapping.participantId && !participant) {
+    throw new SpeakerMappingError(`Participant ${mapping.participantId} is not in this workshop`);
+  }
+
+  const existing = await prisma.workshopSpeaker.findUnique({
+    where: { workshopId_speakerId: { workshopId, speakerId } },
+    include: { participant: { select: { name: true } } },
+  });
+
+  const displayName = mapping.displayName?.trim() || null;
+  const label = participant?.name ?? displayName ?? speakerId;
+  const previousLabels = new Set(
+    [speakerId, existing?.displayName, existing?.participant?.name]
+      .filter((l): l is string => !!l && l !== label)
+      .map((l) => l.trim().toLowerCase()),
+  );
+
+  return prisma.$transaction(async (tx) => {
+    const mappedAt = participant || displayName ? new Date() : null;
+    const speaker = await tx.workshopSpeaker.upsert({
+      where: { workshopId_speakerId: { workshopId, speakerId } },
+      create: {
+        workshopId,
+        speakerId,
+        participantId: participant?.id ?? null,
+        displayName,
+        mappedById: mapping.mappedById ?? null,
+        mappedAt,
+      },
+      update: {
+        participantId: participant?.id ?? null,
+        displayName,
+        mappedById: mapping.mappedById ?? null,
+        mappedAt,
+      },
+    });
+
+    const { count: dataPointsRelabelled } = await tx.dataPoint.updateMany({
+      where: { workshopId, speakerId, sessionId: null },
+      data: { participantId: participant?.id ?? null },
+    });
+
+    let analysesRelabelled = 0;
+    if (previousLabels.size > 0) {
+      const analyses = await tx.agenticAnalysis.findMany({
+        where: { dataPoint: { workshopId, speakerId } },
+        select: { id: true, actors: true },
+      });
+      for (const analysis of analyses) {
+        const actors = relabelActors(analysis.actors, previousLabels, label);
+        if (!actors) continue;
+        await tx.agenticAnalysis.update({
+          where: { id: analysis.id },
+          data: { actors: actors as Prisma.InputJsonValue },
+        });
+        analysesRelabelled++;
+      }
+    }
+
+    // First mapping enrols the participant's voice, if we have a profile for it
+    const profile = parseVoiceProfile(speaker.voiceProfile);
+    const enrolled = !!(participant && profile && !participant.voiceEnrolledAt);
+    if (enrolled) {
+      await tx.workshopParticipant.update({
+        where: { id: participant!.id },
+        data: { voiceProfile: profile!, voiceEnrolledAt: new Date() },
+      });
+    }
+
+    return { label, dataPointsRelabelled, analysesRelabelled, enrolled };
+  }, { timeout: 30_000 });
+}
+
+/** Enrol (or re-enrol) a participant's voice from a profile captured client-side. */
+export async function enrolParticipantVoice(
+  workshopId: string,
+  participantId: string,
+  voiceProfile: unknown,
+): Promise<void> {
+  const profile = parseVoiceProfile(voiceProfile);
+  if (!profile) throw new SpeakerMappingError('Invalid voice profile');
+
+  const { count } = await prisma.workshopParticipant.updateMany({
+    where: { id: participantId, workshopId },
+    data: { voiceProfile: profile, voiceEnrolledAt: new Date() },
+  });
+  if (count === 0) {
+    throw new SpeakerMappingError(`Participant ${participantId} is not in this workshop`);
+  }
+}
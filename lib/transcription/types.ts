@@ -1,4 +1,7 @@
-export type TranscriptionSource = 'zoom' | 'deepgram' | 'whisper';
+import type { VoiceProfile } from './local/diarisation';
+
+// 'local' — on-premise whisper.cpp / faster-whisper (LocalWhisperTranscriptionProvider)
+export type TranscriptionSource = 'zoom' | 'deepgram' | 'whisper' | 'local';
 
 export type NormalizedTranscriptChunk = {
   speakerId: string | null;
@@ -7,4 +10,6 @@ export type NormalizedTranscriptChunk = {
   text: string;
   confidence: number | null;
   source: TranscriptionSource;
+  /** Speaker's voice profile, when diarised on-device (lib/transcription/speaker-registry.ts). */
+  voiceProfile?: VoiceProfile;
 };
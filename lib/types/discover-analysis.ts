@@ -66,6 +66,30 @@ export interface TensionEntry {
   relatedConstraints: string[];
   /** Primary domain this tension relates to */
   domain: string;
+  /** Set when the tension contrasts participants' figures with uploaded historical metrics */
+  metricEvidence?: TensionMetricEvidence;
+}
+
+export interface TensionMetricEvidence {
+  metricKey: string;
+  metricLabel: string;
+  unit: string;
+  /** Median of the figures participants gave */
+  claimedValue: number;
+  actualValue: number;
+  actualPeriod: string;
+  /** 95% band at the latest period, null for short series */
+  expectedRange: { lower: number; upper: number } | null;
+  /** Percentage points for % metrics, else percent of the actual value */
+  gap: number;
+  gapUnit: 'points' | 'percent';
+  direction: 'overstated' | 'understated';
+  /** Most recent earlier period where the data matched what participants said */
+  lastMatchedPeriod: string | null;
+  /** ConversationInsight / DataPoint records the claims were quoted from */
+  sources: Array<{ kind: 'insight' | 'data_point'; id: string }>;
+  /** Citable sentences describing the series */
+  evidence: string[];
 }
 
 export interface TensionSurfaceData {
@@ -19,6 +19,9 @@
  */
 
 import { z } from 'zod';
+import { PERMISSION_SET_IDS } from '@/lib/auth/workshop-permissions';
+import { WEBHOOK_EVENT_TYPES } from '@/lib/webhooks/events';
+import { API_KEY_SCOPES } from '@/lib/public-api/scopes';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Shared primitives
@@ -121,7 +124,7 @@ export const CreateWorkshopSchema = z.object({
   dreamTrack: z.enum(DREAM_TRACKS).optional().or(z.null()).optional(),
   targetDomain: optStr(200),
   // Accept both lowercase UI keys and uppercase Prisma enum values.
-  // Normalisation to the DB enum is handled by toEngagementEnum() in the route handler.
+  // Normalisation to the DB enum is handled by toEngagementEnum() in lib/workshop/create-workshop.ts.
   engagementType: z.enum([...ENGAGEMENT_TYPES, ...ENGAGEMENT_TYPE_KEYS]).optional().or(z.null()).optional(),
 });
 
@@ -263,8 +266,17 @@ export const PatchFindingSchema = z.object({
 // Workshop shares
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Permission sets granted by a share (lib/auth/workshop-permissions.ts) */
+const permissionSets = z.array(z.enum(PERMISSION_SET_IDS)).min(1, 'Choose at least one permission set').max(PERMISSION_SET_IDS.length);
+
 export const CreateShareSchema = z.object({
   email: email,
+  permissionSets: permissionSets.default(['facilitator']),
+});
+
+export const UpdateShareSchema = z.object({
+  shareId: cuid,
+  permissionSets,
 });
 
 export const DeleteShareSchema = z.object({
@@ -315,6 +327,7 @@ export const PatchWorkshopBodySchema = z.object({
   responseDeadline: z.string().datetime().optional().nullable(),
   engagementType: optStr(50),
   domainPack: optStr(100),
+  domainPackVersionId: cuid.optional().nullable(),
   customQuestions: z.record(z.string(), z.unknown()).optional().nullable(),
   domainPackConfig: z.record(z.string(), z.unknown()).optional().nullable(),
   discoveryQuestions: z.record(z.string(), z.unknown()).optional().nullable(),
@@ -375,6 +388,196 @@ export const CreateSessionVersionSchema = z.object({
   payload: z.record(z.string(), z.unknown()),
 });
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Live speaker registry
+// ─────────────────────────────────────────────────────────────────────────────
+
+const voiceProfile = z.array(z.number()).length(4);
+
+export const MapSpeakerSchema = z.object({
+  speakerId: nonEmptyStr(200),
+  participantId: cuid.nullable(),
+  displayName: optStr(200),
+});
+
+export const EnrolVoiceSchema = z.object({
+  participantId: cuid,
+  voiceProfile,
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Live breakout rooms
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const CreateBreakoutRoomsSchema = z.object({
+  names: z.array(nonEmptyStr(100)).min(1).max(12),
+});
+
+export const UpdateBreakoutRoomSchema = z.object({
+  name: nonEmptyStr(100).optional(),
+  closed: z.boolean().optional(),
+});
+
+export const PullBreakoutPadSchema = z.object({
+  padId: nonEmptyStr(200),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tenant domain packs (pack configs are validated by lib/domain-packs/schema.ts)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const domainPackKind = z.enum(['domain', 'industry']);
+const packConfig = z.record(z.string(), z.unknown());
+
+export const CreateDomainPackSchema = z.object({
+  kind: domainPackKind.default('domain'),
+  forkFrom: optStr(100),
+  key: optStr(100),
+  config: packConfig.optional(),
+  changelog: optStr(2000),
+}).refine((b) => !!b.forkFrom !== !!b.config, { message: 'Provide either forkFrom or config' });
+
+export const PublishDomainPackVersionSchema = z.object({
+  config: packConfig,
+  version: optStr(50),
+  bump: z.enum(['major', 'minor', 'patch']).optional(),
+  changelog: optStr(2000),
+});
+
+export const ValidateDomainPackSchema = z.object({
+  config: z.unknown(),
+  packId: cuid.optional(),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Programmes (repeat engagements for one client)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const workshopIds = z.array(cuid).max(100);
+
+export const CreateProgrammeSchema = z.object({
+  name: nonEmptyStr(200),
+  clientName: optStr(200),
+  description: optStr(2000),
+  workshopIds: workshopIds.optional(),
+});
+
+export const UpdateProgrammeSchema = z.object({
+  name: nonEmptyStr(200).optional(),
+  clientName: optStr(200),
+  description: optStr(2000),
+  addWorkshopIds: workshopIds.optional(),
+  removeWorkshopIds: workshopIds.optional(),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Roadmap initiative tracking (executive portal)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const UpdateRoadmapInitiativeSchema = z.object({
+  status: z.enum(['not_started', 'in_progress', 'blocked', 'done', 'cancelled']).optional(),
+  owner: optStr(200),
+  ownerEmail: email.nullable().optional(),
+  dueDate: z.iso.date().nullable().optional(),
+  progress: z.number().int().min(0).max(100).optional(),
+  dependsOnIds: z.array(cuid).max(50).optional(),
+  note: optStr(4000),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tenant encryption (crypto-shredding)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** The caller must repeat the organisation id — destroying keys is irreversible */
+export const DestroyTenantKeysSchema = z.object({
+  confirmOrganizationId: z.string().trim().min(1, 'confirmOrganizationId is required'),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Data retention (lib/compliance/retention-policies.ts)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const UpsertRetentionPolicySchema = z.object({
+  workshopId: cuid.nullable().optional(),
+  dataType: z.enum(['transcript_chunks', 'capture_audio', 'evidence_documents', 'document_chunks', 'workshop_event_outbox']),
+  retentionDays: z.number().int().min(1).max(36500),
+  action: z.enum(['delete', 'anonymise']).default('delete'),
+});
+
+export const LegalHoldSchema = z
+  .object({
+    workshopId: cuid.nullable().optional(),
+    hold: z.boolean(),
+    reason: optStr(500),
+  })
+  .refine((v) => !v.hold || !!v.reason?.trim(), { message: 'reason is required when placing a legal hold', path: ['reason'] });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PII vault (lib/pii) — organisation settings use PiiConfigSchema directly
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const RevealPiiSchema = z.object({
+  text: z.string().min(1, 'text is required').max(100_000),
+  reason: z.string().trim().min(1, 'reason is required').max(500),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Single sign-on and SCIM (lib/auth/sso, lib/scim) — connection settings use
+// SsoConnectionSchema directly
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Start SSO by the user's email (domain lookup) or an explicit organisation */
+export const StartSsoSchema = z
+  .object({
+    email: email.optional(),
+    organizationId: z.string().trim().min(1).max(100).optional(),
+    returnTo: optStr(500),
+  })
+  .refine((v) => !!v.email || !!v.organizationId, { message: 'email or organizationId is required', path: ['email'] });
+
+export const CreateScimTokenSchema = z.object({
+  name: z.string().trim().min(1, 'name is required').max(100),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Outbound webhooks (lib/webhooks)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const webhookEventTypes = z.array(z.enum(WEBHOOK_EVENT_TYPES)).max(WEBHOOK_EVENT_TYPES.length);
+
+export const CreateWebhookEndpointSchema = z.object({
+  url: z.string().trim().url('url must be a valid URL').max(2000),
+  description: optStr(200),
+  /** Empty = every event type */
+  eventTypes: webhookEventTypes.default([]),
+  enabled: z.boolean().default(true),
+});
+
+export const UpdateWebhookEndpointSchema = z.object({
+  url: z.string().trim().url('url must be a valid URL').max(2000).optional(),
+  description: optStr(200),
+  eventTypes: webhookEventTypes.optional(),
+  enabled: z.boolean().optional(),
+  /** Issue a new signing secret; the old one stops working immediately */
+  rotateSecret: z.boolean().optional(),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API (/api/v1, lib/public-api)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const CreateApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'name is required').max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'Select at least one scope').max(API_KEY_SCOPES.length),
+  expiresAt: z.string().datetime().optional().or(z.null()).optional(),
+});
+
+export const MAX_BULK_PARTICIPANTS = 500;
+
+export const BulkCreateParticipantsSchema = z.object({
+  participants: z.array(CreateParticipantSchema).min(1, 'participants is required').max(MAX_BULK_PARTICIPANTS),
+});
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Utility: standard Zod error response
 // ─────────────────────────────────────────────────────────────────────────────
@@ -0,0 +1,252 @@
+/**
+ * Outbound webhook delivery.
+ *
+ * An event fans out to one WebhookDelivery row per subscribed endpoint before
+ * any HTTP request is made, so nothing is lost if the process dies mid-send.
+ * Each attempt POSTs the signed event; a non-2xx answer, a timeout or a
+ * network error schedules a retry with exponential backoff (30s, 1m, 2m, …
+ * capped at 6h) until MAX_ATTEMPTS, after which the delivery is failed and
+ * can only be replayed from admin. /api/cron/webhooks picks up due retries.
+ *
+ * A delivery is claimed by pushing its nextAttemptAt out by a lease before
+ * sending, so the inline attempt and the cron never deliver it twice at once.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { OutboundUrlError, assertPublicUrl, publicFetch } from '@/lib/outbound-url';
+import type { Prisma } from '@prisma/client';
+import type { WebhookEvent } from './events';
+import { SIGNATURE_HEADER, openWebhookSecret, signWebhookPayload } from './signing';
+
+export const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 30_000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10_000;
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+const MAX_ERROR_LENGTH = 500;
+const DUE_BATCH_SIZE = 50;
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export class WebhookError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+/** Endpoint fields safe to return to admins (everything but the secret) */
+export const WEBHOOK_ENDPOINT_SELECT = {
+  id: true,
+  url: true,
+  description: true,
+  eventTypes: true,
+  enabled: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+/** Delay before retry number `attempts` (1-based) */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1), MAX_BACKOFF_MS);
+}
+
+// ══════════════════════════════════════════════════════════════
+// DESTINATION CHECKS
+// ══════════════════════════════════════════════════════════════
+
+/**
+ * Endpoints must pass the outbound URL guard (lib/outbound-url.ts): https,
+ * and in production no private, loopback or link-local addresses.
+ */
+export async function assertDeliverableUrl(raw: string): Promise<URL> {
+  try {
+    return await assertPublicUrl(raw, 'Webhook URLs');
+  } catch (error) {
+    if (error instanceof OutboundUrlError) throw new WebhookError(error.message);
+    throw error;
+  }
+}
+
+// ══════════════════════════════════════════════════════════════
+// FAN-OUT
+// ══════════════════════════════════════════════════════════════
+
+/** Create a pending delivery for each enabled endpoint subscribed to the event */
+export async function enqueueWebhookEvent(event: WebhookEvent): Promise<string[]> {
+  const endpoints = await prisma.webhookEndpoint.findMany({
+    where: {
+      organizationId: event.organizationId,
+      enabled: true,
+      OR: [{ eventTypes: { isEmpty: true } }, { eventTypes: { has: event.type } }],
+    },
+    select: { id: true },
+  });
+
+  const now = new Date();
+  const deliveries = await Promise.all(endpoints.map((endpoint) =>
+    prisma.webhookDelivery.create({
+      data: {
+        endpointId: endpoint.id,
+        organizationId: event.organizationId,
+        eventId: event.id,
+        eventType: event.type,
+        workshopId: event.workshopId,
+        payload: event as unknown as Prisma.InputJsonValue,
+        nextAttemptAt: now,
+      },
+      select: { id: true },
+    }),
+  ));
+  return deliveries.map((d) => d.id);
+}
+
+// ══════════════════════════════════════════════════════════════
+// ATTEMPTS
+// ══════════════════════════════════════════════════════════════
+
+export interface DeliveryAttemptResult {
+  deliveryId: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  statusCode: number | null;
+  error: string | null;
+}
+
+/**
+ * Make one attempt at a pending delivery. Returns null when the delivery is
+ * not pending or another worker holds it.
+ */
+export async function attemptWebhookDelivery(deliveryId: string): Promise<DeliveryAttemptResult | null> {
+  const now = new Date();
+  const claimed = await prisma.webhookDelivery.updateMany({
+    where: {
+      id: deliveryId,
+      status: 'pending',
+      OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+    },
+    data: { nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS) },
+  });
+  if (claimed.count === 0) return null;
+
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { endpoint: { select: { url: true, secret: true, enabled: true } } },
+  });
+  if (!delivery) return null;
+
+  let statusCode: number | null = null;
+  let error: string | null = null;
+  let retryable = true;
+
+  if (!delivery.endpoint.enabled) {
+    error = 'Endpoint disabled';
+    retryable = false;
+  } else {
+    try {
+      const url = await assertDeliverableUrl(delivery.endpoint.url);
+      const body = JSON.stringify(delivery.payload);
+      const timestamp = Math.floor(Date.now() / 1000);
+      const secret = await openWebhookSecret(delivery.endpoint.secret);
+      const response = await publicFetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'DREAM-Webhooks/1.0',
+          'X-Dream-Event': delivery.eventType,
+          'X-Dream-Event-Id': delivery.eventId,
+          'X-Dream-Delivery': delivery.id,
+          [SIGNATURE_HEADER]: signWebhookPayload(secret, body, timestamp),
+        },
+        body,
+        // A redirect could bounce the signed payload to an unchecked host
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      statusCode = response.status;
+      if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        error = `HTTP ${response.status}${text ? `: ${text}` : ''}`;
+      }
+    } catch (err) {
+      if (err instanceof WebhookError) retryable = false;
+      error = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  const attempts = delivery.attempts + 1;
+  const status: WebhookDeliveryStatus = error === null
+    ? 'succeeded'
+    : retryable && attempts < MAX_ATTEMPTS ? 'pending' : 'failed';
+
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status,
+      attempts,
+      lastStatusCode: statusCode,
+      lastError: error?.slice(0, MAX_ERROR_LENGTH) ?? null,
+      deliveredAt: status === 'succeeded' ? new Date() : null,
+      nextAttemptAt: status === 'pending' ? new Date(Date.now() + retryDelayMs(attempts)) : null,
+    },
+  });
+
+  return { deliveryId: delivery.id, status, attempts, statusCode, error };
+}
+
+/** Attempt several deliveries one after another (never throws) */
+export async function deliverWebhooks(deliveryIds: string[]): Promise<DeliveryAttemptResult[]> {
+  const results: DeliveryAttemptResult[] = [];
+  for (const id of deliveryIds) {
+    try {
+      const result = await attemptWebhookDelivery(id);
+      if (result) results.push(result);
+    } catch (error) {
+      console.error('[Webhooks] Delivery attempt failed:', id, error);
+    }
+  }
+  return results;
+}
+
+/** Retry pending deliveries whose backoff has elapsed (cron) */
+export async function deliverDueWebhooks(limit = DUE_BATCH_SIZE): Promise<DeliveryAttemptResult[]> {
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: 'pending', nextAttemptAt: { lte: new Date() } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: limit,
+    select: { id: true },
+  });
+  return deliverWebhooks(due.map((d) => d.id));
+}
+
+/**
+ * Send a past delivery again as a new delivery row with the same event id
+ * and payload, so the log keeps both and receivers can dedupe.
+ */
+export async function replayWebhookDelivery(
+  organizationId: string,
+  endpointId: string,
+  deliveryId: string,
+): Promise<DeliveryAttemptResult> {
+  const original = await prisma.webhookDelivery.findFirst({
+    where: { id: deliveryId, endpointId, organizationId },
+  });
+  if (!original) throw new WebhookError('Delivery not found', 404);
+
+  const replay = await prisma.webhookDelivery.create({
+    data: {
+      endpointId: original.endpointId,
+      organizationId: original.organizationId,
+      eventId: original.eventId,
+      eventType: original.eventType,
+      workshopId: original.workshopId,
+      payload: original.payload as Prisma.InputJsonValue,
+      replayOfId: original.id,
+      nextAttemptAt: new Date(),
+    },
+    select: { id: true },
+  });
+
+  const result = await attemptWebhookDelivery(replay.id);
+  return result ?? { deliveryId: replay.id, status: 'pending', attempts: 0, statusCode: null, error: null };
+}
@@ -0,0 +1,67 @@
+/**
+ * Publish a workshop lifecycle event to the realtime stream and to the
+ * organisation's webhook endpoints.
+ *
+ * The realtime event and the webhook deliveries share one event id. Delivery
+ * rows are written before this resolves; the HTTP attempts run in after(), so
+ * a serverless function stays alive for them once the response is sent, and
+ * /api/cron/webhooks retries whatever they leave pending.
+ * Never throws — a webhook problem must not fail the action that caused it.
+ */
+
+import crypto from 'crypto';
+import { after } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { persistAndEmit } from '@/lib/realtime/workshop-events';
+import { deliverWebhooks, enqueueWebhookEvent } from './delivery';
+import type { WebhookEvent, WebhookEventType } from './events';
+
+export async function publishWorkshopLifecycleEvent(
+  workshopId: string,
+  type: WebhookEventType,
+  data: Record<string, unknown>,
+): Promise<void> {
+  try {
+    const workshop = await prisma.workshop.findUnique({
+      where: { id: workshopId },
+      select: { organizationId: true },
+    });
+    if (!workshop) return;
+
+    const event: WebhookEvent = {
+      id: `evt_${crypto.randomUUID()}`,
+      type,
+      createdAt: new Date().toISOString(),
+      organizationId: workshop.organizationId,
+      workshopId,
+      data: { workshopId, ...data },
+    };
+
+    await persistAndEmit(workshopId, {
+      id: event.id,
+      type,
+      createdAt: Date.parse(event.createdAt),
+      payload: event.data,
+    }).catch((err) => console.error('[Webhooks] Realtime emit failed:', err));
+
+    const deliveryIds = await enqueueWebhookEvent(event);
+    if (deliveryIds.length > 0) deliverAfterResponse(deliveryIds);
+  } catch (error) {
+    console.error(`[Webhooks] Failed to publish ${type} for workshop ${workshopId}:`, error);
+  }
+}
+
+function deliverAfterResponse(deliveryIds: string[]): void {
+  try {
+    after(() => deliverWebhooks(deliveryIds));
+  } catch {
+    // Outside a request (scripts, jobs) there is no response to wait for
+    void deliverWebhooks(deliveryIds);
+  }
+}
+
+/** Absolute admin URL for a workshop page, for receivers to link back to */
+export function workshopAdminUrl(workshopId: string, path = ''): string {
+  const base = (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+  return `${base}/admin/workshops/${workshopId}${path}`;
+}
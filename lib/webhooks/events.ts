@@ -0,0 +1,38 @@
+/**
+ * Workshop lifecycle events that tenants can subscribe to with webhooks.
+ *
+ * Payloads carry ids, counts and links rather than workshop content — the
+ * receiver fetches what it needs with its own credentials, so a webhook
+ * endpoint never becomes a side channel for participant data.
+ */
+
+export const WEBHOOK_EVENT_TYPES = [
+  'participant.discovery_completed',
+  'scratchpad.published',
+  'output_intelligence.completed',
+  'capture_session.analysed',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  'participant.discovery_completed': 'Participant completed discovery',
+  'scratchpad.published': 'Scratchpad published',
+  'output_intelligence.completed': 'Output intelligence finished',
+  'capture_session.analysed': 'Capture session analysed',
+};
+
+/** The JSON body POSTed to every subscribed endpoint */
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  /** ISO timestamp of when the event happened (not when it was delivered) */
+  createdAt: string;
+  organizationId: string;
+  workshopId: string | null;
+  data: Record<string, unknown>;
+}
+
+export function isWebhookEventType(value: string): value is WebhookEventType {
+  return (WEBHOOK_EVENT_TYPES as readonly string[]).includes(value);
+}
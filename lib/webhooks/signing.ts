@@ -0,0 +1,68 @@
+/**
+ * Webhook payload signing.
+ *
+ * Each delivery carries `X-Dream-Signature: t=<unix seconds>,v1=<hex>` where
+ * v1 is HMAC-SHA256(secret, "<t>.<raw body>"). Receivers recompute it over
+ * the raw request body and reject stale timestamps, which stops replays of a
+ * captured request. Secrets are encrypted at rest under the organisation's
+ * data key (lib/tenant-encryption.ts) when encryption is enabled.
+ */
+
+import crypto from 'crypto';
+import { decrypt } from '@/lib/encryption';
+import { decryptForTenant, isTenantCiphertext } from '@/lib/tenant-encryption';
+import { encryptTenantFields } from '@/lib/workshop-encryption';
+
+export const SIGNATURE_HEADER = 'X-Dream-Signature';
+const SECRET_PREFIX = 'whsec_';
+
+/** Default receiver tolerance, in seconds */
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+export async function sealWebhookSecret(organizationId: string, secret: string): Promise<string> {
+  return (await encryptTenantFields('webhookEndpoint', { organizationId }, { secret })).secret;
+}
+
+/**
+ * The stored secret in plaintext, whether or not encryption is currently
+ * enabled. Throws when the organisation's keys have been destroyed, rather
+ * than signing with ciphertext.
+ */
+export async function openWebhookSecret(stored: string): Promise<string> {
+  if (stored.startsWith(SECRET_PREFIX)) return stored;
+  if (isTenantCiphertext(stored)) return decryptForTenant(stored);
+  // Sealed under the process-wide key before tenant keys
+  return decrypt(stored);
+}
+
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Check a signature header the way a receiver should. Exported for receivers
+ * written against this codebase and for tests.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  options: { now?: number; toleranceSeconds?: number } = {},
+): boolean {
+  const parts = new Map(header.split(',').map((p) => p.trim().split('=', 2) as [string, string]));
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) return false;
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (Math.abs(now - timestamp) > (options.toleranceSeconds ?? SIGNATURE_TOLERANCE_SECONDS)) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp).split('v1=')[1], 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
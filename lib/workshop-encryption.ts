@@ -1,90 +1,312 @@
 /**
  * Workshop data encryption utilities
- * Encrypts sensitive business context and participant data
+ * Encrypts sensitive business context, participant PII and captured
+ * conversation / transcript / evidence content under each organisation's own
+ * data key (see lib/tenant-encryption.ts)
  */
 
-import { encryptFields, decryptFields, isEncryptionEnabled } from './encryption';
+import { Prisma } from '@prisma/client';
+import { decrypt, isEncryptionEnabled } from './encryption';
+import { prisma } from './prisma';
+import { REDACTED } from './compliance/retention-engine';
+import {
+  TenantKeyError,
+  decryptForTenant,
+  encryptForTenant,
+  isTenantCiphertext,
+  listLiveKeyVersions,
+  parseTenantCiphertext,
+} from './tenant-encryption';
 
 /**
- * Fields to encrypt in Workshop model
+ * Encrypted fields per Prisma model. A field listed here is encrypted by
+ * encryptTenantFields, decrypted by decryptTenantFields and re-encrypted by
+ * the key rotation job (lib/tenant-key-rotation.ts). Plaintext copies of
+ * these values kept elsewhere are listed in purgePlaintextCopies().
  */
-const WORKSHOP_ENCRYPTED_FIELDS: string[] = ['businessContext'];
+export const TENANT_ENCRYPTED_FIELDS = {
+  workshop: ['businessContext'],
+  workshopParticipant: ['email'],
+  // Commercial content contains sensitive pricing/investment data
+  workshopScratchpad: ['commercialContent'],
+  conversationMessage: ['content'],
+  transcriptChunk: ['text'],
+  captureSegment: ['transcript'],
+  evidenceDocument: ['findings'],
+  piiVaultEntry: ['value'],
+  webhookEndpoint: ['secret'],
+} as const;
+
+export type EncryptedModel = keyof typeof TENANT_ENCRYPTED_FIELDS;
+
+export type TenantScope = { organizationId: string } | { workshopId: string };
+
+/** Json columns — serialised before encryption and parsed after */
+const JSON_FIELDS = new Set(['workshopScratchpad.commercialContent', 'evidenceDocument.findings']);
+
+/**
+ * Fields matched by equality in queries (transcript dedup, PII vault lookup).
+ * Encrypted with a deterministic IV so encryptTenantValue() produces a
+ * matching ciphertext.
+ */
+const DETERMINISTIC_FIELDS = new Set(['transcriptChunk.text', 'piiVaultEntry.value']);
+
+/** Fields that were encrypted under the process-wide key before tenant keys */
+const LEGACY_FIELDS = new Set([
+  'workshop.businessContext',
+  'workshopParticipant.email',
+  'workshopScratchpad.commercialContent',
+  'webhookEndpoint.secret',
+]);
+const LEGACY_CIPHERTEXT = /^[0-9a-f]{32}:[0-9a-f]*:[0-9a-f]{32}$/;
+
+const workshopOrganizations = new Map<string, string>();
+const MAX_CACHED_WORKSHOPS = 5000;
+
+async function resolveOrganizationId(scope: TenantScope): Promise<string> {
+  if ('organizationId' in scope) return scope.organizationId;
+
+  const cached = workshopOrganizations.get(scope.workshopId);
+  if (cached) return cached;
+
+  const workshop = await prisma.workshop.findUnique({
+    where: { id: scope.workshopId },
+    select: { organizationId: true },
+  });
+  if (!workshop) throw new TenantKeyError('Workshop not found', 404);
+
+  if (workshopOrganizations.size >= MAX_CACHED_WORKSHOPS) workshopOrganizations.clear();
+  workshopOrganizations.set(scope.workshopId, workshop.organizationId);
+  return workshop.organizationId;
+}
+
+function isPlainJson(value: unknown): value is object {
+  return Array.isArray(value) || (typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype);
+}
 
 /**
- * Fields to encrypt in WorkshopParticipant model
+ * Encrypt a model's registered fields before saving. A no-op when
+ * ENCRYPTION_ENABLED !== 'true'; values that are already tenant ciphertext
+ * are left untouched.
  */
-const PARTICIPANT_ENCRYPTED_FIELDS: string[] = ['email'];
+export async function encryptTenantFields<T extends Record<string, any>>(
+  model: EncryptedModel,
+  scope: TenantScope,
+  data: T,
+): Promise<T> {
+  if (!isEncryptionEnabled() || !data) return data;
+
+  const fields = TENANT_ENCRYPTED_FIELDS[model].filter((field) => {
+    const value = data[field];
+    return (typeof value === 'string' && value !== '' && !isTenantCiphertext(value)) || isPlainJson(value);
+  });
+  if (fields.length === 0) return data;
+
+  const organizationId = await resolveOrganizationId(scope);
+  const encrypted: Record<string, any> = { ...data };
+  for (const field of fields) {
+    const value = encrypted[field];
+    encrypted[field] = await encryptForTenant(
+      organizationId,
+      typeof value === 'string' ? value : JSON.stringify(value),
+      { deterministic: DETERMINISTIC_FIELDS.has(`${model}.${field}`) },
+    );
+  }
+  return encrypted as T;
+}
 
 /**
- * Fields to encrypt in WorkshopScratchpad model
- * Commercial content contains sensitive pricing/investment data
+ * Encrypt a single value for use in a where clause. Only meaningful for
+ * deterministic fields; returns the value unchanged when encryption is off.
  */
-const SCRATCHPAD_ENCRYPTED_FIELDS: string[] = ['commercialContent'];
+export async function encryptTenantValue(
+  model: EncryptedModel,
+  field: string,
+  scope: TenantScope,
+  value: string,
+): Promise<string> {
+  if (!isEncryptionEnabled() || !value || !DETERMINISTIC_FIELDS.has(`${model}.${field}`)) return value;
+  return encryptForTenant(await resolveOrganizationId(scope), value, { deterministic: true });
+}
 
 /**
- * Encrypt workshop data before saving to database
+ * Every form a deterministic value may be stored in, for an `in` lookup: its
+ * ciphertext under each live key version (rows a rotation job has not reached
+ * yet still hold an older one) plus the plaintext written while encryption
+ * was off. Just the value when encryption is off, like encryptTenantValue().
  */
-export function encryptWorkshopData(workshop: any) {
-  if (!isEncryptionEnabled()) {
-    return workshop;
-  }
+export async function encryptTenantValueCandidates(
+  model: EncryptedModel,
+  field: string,
+  scope: TenantScope,
+  value: string,
+): Promise<string[]> {
+  if (!isEncryptionEnabled() || !value || !DETERMINISTIC_FIELDS.has(`${model}.${field}`)) return [value];
+  const organizationId = await resolveOrganizationId(scope);
+  const versions = await listLiveKeyVersions(organizationId);
+  const ciphertexts = await Promise.all(
+    versions.map((version) => encryptForTenant(organizationId, value, { version, deterministic: true })),
+  );
+  return [...ciphertexts, value];
+}
 
-  return encryptFields(workshop, WORKSHOP_ENCRYPTED_FIELDS);
+function isLegacyCiphertext(model: EncryptedModel, field: string, value: string): boolean {
+  return LEGACY_FIELDS.has(`${model}.${field}`) && LEGACY_CIPHERTEXT.test(value);
+}
+
+/** Raw plaintext of an encrypted value, or null when the value is not ciphertext */
+async function decryptToString(model: EncryptedModel, field: string, value: string): Promise<string | null> {
+  if (isTenantCiphertext(value)) return decryptForTenant(value);
+  if (isLegacyCiphertext(model, field, value) && process.env.ENCRYPTION_KEY) return decrypt(value);
+  return null;
+}
+
+async function decryptValue(model: EncryptedModel, field: string, value: string): Promise<unknown> {
+  const plaintext = await decryptToString(model, field, value);
+  if (plaintext === null) return value;
+
+  if (!JSON_FIELDS.has(`${model}.${field}`)) return plaintext;
+  try {
+    return JSON.parse(plaintext);
+  } catch {
+    return plaintext;
+  }
 }
 
 /**
- * Decrypt workshop data after reading from database
+ * Decrypt a model's registered fields after reading. Runs whether or not
+ * encryption is currently enabled, so data written while it was on stays
+ * readable. Fields that fail to decrypt (e.g. shredded keys) are left as-is.
  */
-export function decryptWorkshopData(workshop: any) {
-  if (!isEncryptionEnabled() || !workshop) {
-    return workshop;
+export async function decryptTenantFields<T>(model: EncryptedModel, data: T): Promise<T> {
+  if (!data || typeof data !== 'object') return data;
+
+  const record = data as Record<string, unknown>;
+  let decrypted: Record<string, unknown> | null = null;
+  for (const field of TENANT_ENCRYPTED_FIELDS[model]) {
+    const value = record[field];
+    if (typeof value !== 'string') continue;
+    try {
+      const plain = await decryptValue(model, field, value);
+      if (plain !== value) {
+        decrypted ??= { ...record };
+        decrypted[field] = plain;
+      }
+    } catch (error) {
+      console.error(`Failed to decrypt field ${model}.${field}:`, error);
+    }
   }
+  return (decrypted ?? data) as T;
+}
 
-  return decryptFields(workshop, WORKSHOP_ENCRYPTED_FIELDS);
+export async function decryptTenantRecords<T>(model: EncryptedModel, rows: T[]): Promise<T[]> {
+  return Promise.all(rows.map((row) => decryptTenantFields(model, row)));
 }
 
 /**
- * Encrypt participant data before saving
+ * Re-encrypt a row's already-encrypted fields under key `version`, for the
+ * key rotation job. Returns only the fields that changed, or null when the
+ * row is current. Plaintext values are left alone — encrypting them is the
+ * write path's job, and only while encryption is enabled.
  */
-export function encryptParticipantData(participant: any) {
-  if (!isEncryptionEnabled()) {
-    return participant;
+export async function reencryptTenantFields(
+  model: EncryptedModel,
+  organizationId: string,
+  data: Record<string, unknown>,
+  version: number,
+): Promise<Record<string, string> | null> {
+  let changed: Record<string, string> | null = null;
+  for (const field of TENANT_ENCRYPTED_FIELDS[model]) {
+    const value = data[field];
+    if (typeof value !== 'string') continue;
+
+    const parsed = isTenantCiphertext(value) ? parseTenantCiphertext(value) : null;
+    const stale = parsed
+      ? parsed.organizationId === organizationId && parsed.version < version
+      : isLegacyCiphertext(model, field, value);
+    if (!stale) continue;
+
+    const plaintext = await decryptToString(model, field, value);
+    if (plaintext === null) continue;
+    changed ??= {};
+    changed[field] = await encryptForTenant(organizationId, plaintext, {
+      version,
+      deterministic: DETERMINISTIC_FIELDS.has(`${model}.${field}`),
+    });
   }
+  return changed;
+}
 
-  return encryptFields(participant, PARTICIPANT_ENCRYPTED_FIELDS);
+/**
+ * Redact the plaintext copies of encrypted content after a crypto-shred:
+ * the data point text analysis runs on (and the participant's original words),
+ * the raw STT text kept in transcript chunk metadata and the pivot-language
+ * translation kept in conversation message metadata. Without this they would
+ * outlive the destroyed keys.
+ */
+export async function purgePlaintextCopies(organizationId: string): Promise<{
+  dataPoints: number;
+  transcriptChunks: number;
+  conversationMessages: number;
+}> {
+  const dataPoints = await prisma.dataPoint.updateMany({
+    where: { workshop: { organizationId }, NOT: { rawText: REDACTED } },
+    data: { rawText: REDACTED, originalText: null },
+  });
+  const transcriptChunks = await prisma.transcriptChunk.updateMany({
+    where: { workshop: { organizationId }, NOT: { metadata: { equals: Prisma.DbNull } } },
+    data: { metadata: Prisma.DbNull },
+  });
+  const conversationMessages = await prisma.$executeRaw`
+    UPDATE conversation_messages m SET metadata = m.metadata - 'translation'
+    FROM conversation_sessions s
+    JOIN workshops w ON w.id = s."workshopId"
+    WHERE m."sessionId" = s.id AND w."organizationId" = ${organizationId}
+      AND m.metadata -> 'translation' IS NOT NULL
+  `;
+  return { dataPoints: dataPoints.count, transcriptChunks: transcriptChunks.count, conversationMessages };
 }
 
 /**
- * Decrypt participant data after reading
+ * Encrypt workshop data before saving to database
  */
-export function decryptParticipantData(participant: any) {
-  if (!isEncryptionEnabled() || !participant) {
-    return participant;
-  }
+export function encryptWorkshopData<T extends Record<string, any>>(workshop: T, organizationId: string): Promise<T> {
+  return encryptTenantFields('workshop', { organizationId }, workshop);
+}
+
+/**
+ * Decrypt workshop data after reading from database
+ */
+export function decryptWorkshopData<T>(workshop: T): Promise<T> {
+  return decryptTenantFields('workshop', workshop);
+}
 
-  return decryptFields(participant, PARTICIPANT_ENCRYPTED_FIELDS);
+/**
+ * Encrypt participant data before saving
+ */
+export function encryptParticipantData<T extends Record<string, any>>(participant: T, scope: TenantScope): Promise<T> {
+  return encryptTenantFields('workshopParticipant', scope, participant);
 }
 
 /**
- * Encrypt scratchpad commercial content before saving
+ * Decrypt participant data after reading
  */
-export function encryptScratchpadData(scratchpad: any) {
-  if (!isEncryptionEnabled()) {
-    return scratchpad;
-  }
+export function decryptParticipantData<T>(participant: T): Promise<T> {
+  return decryptTenantFields('workshopParticipant', participant);
+}
 
-  return encryptFields(scratchpad, SCRATCHPAD_ENCRYPTED_FIELDS);
+/**
+ * Encrypt scratchpad commercial content before saving
+ */
+export function encryptScratchpadData<T extends Record<string, any>>(scratchpad: T, scope: TenantScope): Promise<T> {
+  return encryptTenantFields('workshopScratchpad', scope, scratchpad);
 }
 
 /**
  * Decrypt scratchpad commercial content after reading
  */
-export function decryptScratchpadData(scratchpad: any) {
-  if (!isEncryptionEnabled() || !scratchpad) {
-    return scratchpad;
-  }
-
-  return decryptFields(scratchpad, SCRATCHPAD_ENCRYPTED_FIELDS);
+export function decryptScratchpadData<T>(scratchpad: T): Promise<T> {
+  return decryptTenantFields('workshopScratchpad', scratchpad);
 }
 
 /**
@@ -96,11 +318,14 @@ export function decryptScratchpadData(scratchpad: any) {
  *   businessContext: 'Sensitive business context here...',
  * };
  *
- * const encryptedData = encryptWorkshopData(workshopData);
+ * const encryptedData = await encryptWorkshopData(workshopData, organizationId);
  * await prisma.workshop.create({ data: encryptedData });
  *
  * // READING a workshop
  * const workshop = await prisma.workshop.findUnique({ where: { id } });
- * const decryptedWorkshop = decryptWorkshopData(workshop);
+ * const decryptedWorkshop = await decryptWorkshopData(workshop);
  * return decryptedWorkshop;
+ *
+ * // READING many rows of another registered model
+ * const messages = await decryptTenantRecords('conversationMessage', rows);
  */
@@ -17,7 +17,7 @@
  */
 
 import { z } from 'zod';
-import { getDomainPack } from '@/lib/domain-packs/registry';
+import { getDomainPack, type TenantDomainPacks } from '@/lib/domain-packs/registry';
 import { resolveIndustryPack } from '@/lib/domain-packs/resolution';
 import { getEngagementType } from '@/lib/domain-packs/engagement-types';
 import {
@@ -447,6 +447,8 @@ export type ComposeInput = {
   domainPack: string | null;
   purpose: string | null;
   outcomes: string | null;
+  /** The organisation's published domain packs; shadow built-ins by key */
+  tenantPacks?: TenantDomainPacks | null;
 };
 
 /**
@@ -493,8 +495,8 @@ export function composeBlueprint(input: ComposeInput): WorkshopBlueprint {
   // Layer 3: Domain pack overrides
   // Explicit domainPack key is authoritative; industry auto-resolve only when no explicit key set.
   if (input.domainPack || input.industry) {
-    const pack = (input.domainPack ? getDomainPack(input.domainPack) : null)
-      ?? (input.industry ? resolveIndustryPack(input.industry, input.engagementType, input.dreamTrack) : null);
+    const pack = (input.domainPack ? getDomainPack(input.domainPack, input.tenantPacks) : null)
+      ?? (input.industry ? resolveIndustryPack(input.industry, input.engagementType, input.dreamTrack, input.tenantPacks) : null);
     if (pack) {
       // Map domain pack lenses to LensPolicyEntry, reusing DEFAULT_DIMENSIONS
       // data (keywords, color, description) when the name matches.
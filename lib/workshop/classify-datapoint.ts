@@ -1,7 +1,6 @@
-import OpenAI from 'openai';
+import { getLLMClient, type LLMMessage } from '@/lib/llm';
 
-import { env } from '@/lib/env';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+const llm = getLLMClient('classify-datapoint');
 
 type DataPointPrimaryType =
   | 'VISIONARY'
@@ -39,8 +38,8 @@ export async function classifyDataPoint(params: {
 }> {
   const cleaned = (params.text || '').trim();
 
-  // Fallback for local development / if key missing.
-  if (!env.OPENAI_API_KEY) {
+  // Fallback for local development / if no provider is configured.
+  if (!llm.isConfigured()) {
     return {
       primaryType: 'INSIGHT',
       confidence: null,
@@ -49,10 +48,8 @@ export async function classifyDataPoint(params: {
     };
   }
 
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
-
   // Build messages array with conversation context
-  const messages: OpenAI.ChatCompletionMessageParam[] = [];
+  const messages: LLMMessage[] = [];
 
   // Add conversation history if provided
   if (params.recentContext && params.recentContext.length > 0) {
@@ -89,14 +86,14 @@ Text:\n${JSON.stringify(cleaned)}`;
 
   messages.push({ role: 'user', content: prompt });
 
-  const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-    model: 'gpt-4o-mini',
+  const completion = await llm.chat({
+    tier: 'fast',
     temperature: 0.2,
     messages,
-    response_format: { type: 'json_object' },
-  }));
+    responseFormat: 'json',
+  });
 
-  const raw = completion.choices?.[0]?.message?.content || '{}';
+  const raw = completion.content || '{}';
   let obj: unknown = {};
   try {
     obj = JSON.parse(raw) as unknown;
@@ -0,0 +1,106 @@
+/**
+ * Workshop creation shared by the admin UI route and the public API.
+ *
+ * Resolves the industry domain pack (tenant packs shadow built-ins), snapshots
+ * the runtime blueprint from the setup selections and writes the encrypted
+ * workshop row. Callers handle auth and auditing.
+ */
+
+import type { EngagementType } from '@prisma/client';
+import type { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { resolveIndustryPack } from '@/lib/domain-packs';
+import { loadTenantDomainPacks } from '@/lib/domain-packs/tenant-packs';
+import { generateBlueprint } from '@/lib/cognition/workshop-blueprint-generator';
+import { encryptWorkshopData } from '@/lib/workshop-encryption';
+import type { CreateWorkshopSchema } from '@/lib/validation/schemas';
+
+export type CreateWorkshopInput = z.infer<typeof CreateWorkshopSchema>;
+
+function toEngagementEnum(value: unknown): EngagementType | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const normalized = value.trim().toUpperCase();
+  const valid: EngagementType[] = [
+    'DIAGNOSTIC_BASELINE',
+    'OPERATIONAL_DEEP_DIVE',
+    'AI_ENABLEMENT',
+    'TRANSFORMATION_SPRINT',
+    'CULTURAL_ALIGNMENT',
+    'GO_TO_MARKET',
+  ];
+  if (valid.includes(normalized as EngagementType)) {
+    return normalized as EngagementType;
+  }
+
+  // Accept UI keys like "operational_deep_dive"
+  const fromKey = normalized.replace(/[^A-Z0-9_]/g, '_');
+  if (valid.includes(fromKey as EngagementType)) {
+    return fromKey as EngagementType;
+  }
+  return undefined;
+}
+
+export async function createWorkshop(
+  input: CreateWorkshopInput,
+  owner: { organizationId: string; createdById: string },
+) {
+  const {
+    name, description, businessContext, workshopType,
+    scheduledDate, responseDeadline, includeRegulation,
+    clientName, industry, companyWebsite, dreamTrack, targetDomain,
+    engagementType,
+  } = input;
+  const { organizationId, createdById } = owner;
+
+  const normalizedEngagementType = toEngagementEnum(engagementType);
+
+  // Resolve industry-specific domain pack from industry + engagement type + dream track.
+  // This replaces the old manual domainPack key selection. The organisation's own
+  // packs shadow built-ins; a tenant pack pins the workshop to its current version.
+  const tenantPacks = await loadTenantDomainPacks(organizationId);
+  const resolvedPack = resolveIndustryPack(industry, engagementType, dreamTrack, tenantPacks);
+
+  // Generate domain-aware runtime blueprint from setup selections.
+  // clientName is included so industry detection (e.g. airline) can
+  // fire even when the industry field is not explicitly set.
+  const blueprint = generateBlueprint({
+    industry: industry || null,
+    dreamTrack: dreamTrack || null,
+    engagementType: engagementType || null,
+    domainPack: resolvedPack?.key || null,
+    purpose: description || null,
+    outcomes: businessContext || null,
+    clientName: clientName || null,
+    tenantPacks,
+  });
+
+  const workshopData = {
+    name,
+    description,
+    businessContext,
+    workshopType: workshopType || 'CUSTOM',
+    includeRegulation: includeRegulation ?? true,
+    scheduledDate: scheduledDate ? new Date(scheduledDate) : undefined,
+    responseDeadline: responseDeadline ? new Date(responseDeadline) : undefined,
+    organizationId,
+    createdById,
+    // DREAM prep fields
+    clientName: clientName || undefined,
+    industry: industry || undefined,
+    companyWebsite: companyWebsite || undefined,
+    dreamTrack: dreamTrack || undefined,
+    targetDomain: targetDomain || undefined,
+    // Field Discovery / Diagnostic extension
+    engagementType: normalizedEngagementType,
+    // domainPack column is for legacy pack keys only (contact_centre, enterprise, etc.)
+    // Industry packs are fully represented in domainPackConfig — never write an industry
+    // pack key into domainPack or it pollutes every downstream key-based discriminator.
+    domainPack: undefined,
+    domainPackConfig: resolvedPack ? (resolvedPack as any) : undefined,
+    domainPackVersionId: resolvedPack?.versionId,
+    // Runtime blueprint snapshot
+    blueprint: blueprint as any,
+  };
+
+  return prisma.workshop.create({ data: await encryptWorkshopData(workshopData, organizationId) });
+}
@@ -1,7 +1,6 @@
-import OpenAI from 'openai';
+import { getLLMClient, type LLMMessage } from '@/lib/llm';
 
-import { env } from '@/lib/env';
-import { openAiBreaker } from '@/lib/circuit-breaker';
+const llm = getLLMClient('derive-intent');
 
 function safeIntent(v: unknown): string | null {
   if (typeof v !== 'string') return null;
@@ -17,12 +16,10 @@ export async function deriveIntent(params: {
   const cleaned = (params.text || '').trim();
   if (!cleaned) return null;
 
-  if (!env.OPENAI_API_KEY) return null;
-
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
+  if (!llm.isConfigured()) return null;
 
   // Build messages array with conversation context
-  const messages: OpenAI.ChatCompletionMessageParam[] = [];
+  const messages: LLMMessage[] = [];
 
   // Add conversation history if provided
   if (params.recentContext && params.recentContext.length > 0) {
@@ -52,14 +49,14 @@ Text:\n${JSON.stringify(cleaned)}`;
 
   messages.push({ role: 'user', content: prompt });
 
-  const completion = await openAiBreaker.execute(() => openai.chat.completions.create({
-    model: 'gpt-4o-mini',
+  const completion = await llm.chat({
+    tier: 'fast',
     temperature: 0.2,
     messages,
-    response_format: { type: 'json_object' },
-  }));
+    responseFormat: 'json',
+  });
 
-  const raw = completion.choices?.[0]?.message?.content || '{}';
+  const raw = completion.content || '{}';
   let obj: unknown = {};
   try {
     obj = JSON.parse(raw) as unknown;
@@ -3,6 +3,7 @@ import { verifySessionWithDB, createSessionToken } from '@/lib/auth/session';
 import { verifyExecSessionWithDB } from '@/lib/auth/exec-session';
 import * as jose from 'jose';
 import { apiLimiter } from '@/lib/rate-limit';
+import { enforceWorkshopRoutePermission } from '@/lib/middleware/validate-workshop-access';
 
 // Node.js runtime so Prisma DB session checks work in middleware
 export const runtime = 'nodejs';
@@ -169,6 +170,14 @@ export async function middleware(request: NextRequest) {
       return NextResponse.redirect(new URL('/login', request.url));
     }
 
+    // Per-workshop permissions: every /api/admin/workshops/[id]/* call needs the
+    // permission its route maps to (lib/auth/workshop-permissions.ts). Route
+    // handlers still run their own validateWorkshopAccess as a second layer.
+    if (pathname.startsWith('/api/admin/workshops/')) {
+      const denied = await enforceWorkshopRoutePermission(pathname, request.method, session);
+      if (denied) return denied;
+    }
+
     // Sliding-window token refresh: if the JWT is close to expiry, reissue it.
     // IMPORTANT: preserve all revocation-critical fields so that revoking a parent
     // PLATFORM_ADMIN session still invalidates an impersonation token after refresh.
@@ -0,0 +1,5 @@
+-- Per-organisation LLM provider selection (lib/llm/config.ts).
+-- NULL means the organisation uses the deployment default (LLM_PROVIDER / LLM_CONFIG).
+
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN IF NOT EXISTS "llm_config" JSONB;
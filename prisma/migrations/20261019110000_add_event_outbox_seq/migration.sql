@@ -0,0 +1,15 @@
+-- Realtime event bus (lib/realtime/event-bus.ts).
+-- seq is a monotonic cursor over the outbox: SSE streams send it as the event id
+-- so reconnecting clients resume from Last-Event-ID. SERIAL backfills existing rows.
+-- stream separates workshop (facilitator / cognitive guidance) and sales events.
+
+-- AlterTable
+ALTER TABLE "workshop_event_outbox" ADD COLUMN IF NOT EXISTS "seq" SERIAL;
+ALTER TABLE "workshop_event_outbox" ADD COLUMN IF NOT EXISTS "stream" TEXT NOT NULL DEFAULT 'workshop';
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "workshop_event_outbox_seq_key"
+  ON "workshop_event_outbox"("seq");
+
+CREATE INDEX IF NOT EXISTS "workshop_event_outbox_workshopId_stream_seq_idx"
+  ON "workshop_event_outbox"("workshopId", "stream", "seq");
@@ -0,0 +1,27 @@
+-- Persisted live cognition state (lib/cognition/live-state-persistence.ts).
+-- One row per workshop per kind ('cognitive' | 'guidance'), written through on
+-- every change. version gives optimistic concurrency between instances;
+-- expiresAt drives TTL eviction.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "live_cognition_states" (
+    "id" TEXT NOT NULL,
+    "workshopId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "state" JSONB NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "instanceId" TEXT,
+    "lastActivityAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "live_cognition_states_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "live_cognition_states_workshopId_fkey" FOREIGN KEY ("workshopId") REFERENCES "workshops"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "live_cognition_states_workshopId_kind_key" ON "live_cognition_states"("workshopId", "kind");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "live_cognition_states_kind_expiresAt_idx" ON "live_cognition_states"("kind", "expiresAt");
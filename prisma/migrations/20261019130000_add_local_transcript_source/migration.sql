@@ -0,0 +1,5 @@
+-- On-premise speech-to-text (lib/transcription/providers/local-whisper-provider.ts).
+-- Records that a transcript chunk was produced without audio leaving the client network.
+
+-- AlterEnum
+ALTER TYPE "TranscriptSource" ADD VALUE IF NOT EXISTS 'LOCAL';
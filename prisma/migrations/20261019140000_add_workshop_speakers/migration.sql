@@ -0,0 +1,32 @@
+-- Workshop speaker registry (lib/transcription/speaker-registry.ts).
+-- Maps each opaque diarisation label in a workshop to a participant (or a
+-- facilitator-chosen name). Participants can carry an enrolled voice profile
+-- used to suggest mappings for new speakers.
+
+-- AlterTable
+ALTER TABLE "workshop_participants" ADD COLUMN IF NOT EXISTS "voiceProfile" JSONB;
+ALTER TABLE "workshop_participants" ADD COLUMN IF NOT EXISTS "voiceEnrolledAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "workshop_speakers" (
+    "id" TEXT NOT NULL,
+    "workshopId" TEXT NOT NULL,
+    "speakerId" TEXT NOT NULL,
+    "participantId" TEXT,
+    "displayName" TEXT,
+    "voiceProfile" JSONB,
+    "mappedById" TEXT,
+    "mappedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workshop_speakers_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "workshop_speakers_workshopId_fkey" FOREIGN KEY ("workshopId") REFERENCES "workshops"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "workshop_speakers_participantId_fkey" FOREIGN KEY ("participantId") REFERENCES "workshop_participants"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "workshop_speakers_workshopId_speakerId_key" ON "workshop_speakers"("workshopId", "speakerId");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "workshop_speakers_participantId_idx" ON "workshop_speakers"("participantId");
@@ -0,0 +1,23 @@
+-- Multilingual discovery (lib/conversation/translation.ts, lib/conversation/question-localisation.ts).
+-- DataPoints keep the participant's original words next to the pivot-language
+-- rawText used for analysis; machine-translated question text is cached by
+-- source hash so each question is translated once per language.
+
+-- AlterTable
+ALTER TABLE "data_points" ADD COLUMN IF NOT EXISTS "originalText" TEXT;
+ALTER TABLE "data_points" ADD COLUMN IF NOT EXISTS "originalLanguage" TEXT;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "question_pack_translations" (
+    "id" TEXT NOT NULL,
+    "sourceHash" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "texts" JSONB NOT NULL,
+    "model" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "question_pack_translations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "question_pack_translations_sourceHash_language_key" ON "question_pack_translations"("sourceHash", "language");
@@ -0,0 +1,48 @@
+-- Tenant-authored domain packs (lib/domain-packs/tenant-packs.ts).
+-- Each pack is a tenant-scoped, semver-versioned DomainPack config that
+-- overrides the built-in pack with the same key. Published versions are
+-- immutable; workshops pin the version they were prepared against.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "tenant_domain_packs" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "kind" TEXT NOT NULL DEFAULT 'domain',
+    "label" TEXT NOT NULL,
+    "forkedFromKey" TEXT,
+    "latestVersion" TEXT,
+    "archivedAt" TIMESTAMP(3),
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tenant_domain_packs_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "tenant_domain_packs_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "tenant_domain_pack_versions" (
+    "id" TEXT NOT NULL,
+    "packId" TEXT NOT NULL,
+    "version" TEXT NOT NULL,
+    "config" JSONB NOT NULL,
+    "changelog" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tenant_domain_pack_versions_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "tenant_domain_pack_versions_packId_fkey" FOREIGN KEY ("packId") REFERENCES "tenant_domain_packs"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "workshops" ADD COLUMN IF NOT EXISTS "domain_pack_version_id" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "workshops" ADD CONSTRAINT "workshops_domain_pack_version_id_fkey" FOREIGN KEY ("domain_pack_version_id") REFERENCES "tenant_domain_pack_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "tenant_domain_packs_organizationId_kind_key_key" ON "tenant_domain_packs"("organizationId", "kind", "key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "tenant_domain_pack_versions_packId_version_key" ON "tenant_domain_pack_versions"("packId", "version");
@@ -0,0 +1,31 @@
+-- Programmes (lib/programmes).
+-- A programme links the repeat workshops run for one client so each run can
+-- be compared with the ones before it. Workshops keep working standalone;
+-- deleting a programme only unlinks its workshops.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "programmes" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "clientName" TEXT,
+    "description" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "programmes_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "programmes_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "workshops" ADD COLUMN IF NOT EXISTS "programme_id" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "workshops" ADD CONSTRAINT "workshops_programme_id_fkey" FOREIGN KEY ("programme_id") REFERENCES "programmes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "programmes_organizationId_idx" ON "programmes"("organizationId");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "workshops_programme_id_idx" ON "workshops"("programme_id");
@@ -0,0 +1,52 @@
+-- Roadmap initiatives as live records (lib/roadmap/initiatives.ts).
+-- Initiatives are promoted out of the generated outputIntelligence.roadmap so
+-- owners, status, due dates, dependencies and progress notes can be tracked
+-- after the workshop from the executive portal.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "roadmap_initiatives" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "workshopId" TEXT NOT NULL,
+    "sourceKey" TEXT NOT NULL,
+    "phase" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "outcome" TEXT,
+    "owner" TEXT,
+    "ownerEmail" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'not_started',
+    "dueDate" TIMESTAMP(3),
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "dependsOnIds" TEXT[],
+    "rootCauses" TEXT[],
+    "constraints" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "roadmap_initiatives_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "roadmap_initiatives_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "roadmap_initiatives_workshopId_fkey" FOREIGN KEY ("workshopId") REFERENCES "workshops"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "roadmap_initiative_notes" (
+    "id" TEXT NOT NULL,
+    "initiativeId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "authorName" TEXT NOT NULL,
+    "authorEmail" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "roadmap_initiative_notes_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "roadmap_initiative_notes_initiativeId_fkey" FOREIGN KEY ("initiativeId") REFERENCES "roadmap_initiatives"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "roadmap_initiatives_workshopId_sourceKey_key" ON "roadmap_initiatives"("workshopId", "sourceKey");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "roadmap_initiatives_organizationId_status_idx" ON "roadmap_initiatives"("organizationId", "status");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "roadmap_initiative_notes_initiativeId_createdAt_idx" ON "roadmap_initiative_notes"("initiativeId", "createdAt");
@@ -0,0 +1,48 @@
+-- Per-tenant envelope encryption (lib/tenant-encryption.ts).
+-- Each organisation gets versioned data keys wrapped by a KMS master key;
+-- key_rotation_jobs tracks online re-encryption onto a new key version.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "tenant_data_keys" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "wrapped_key" TEXT,
+    "kms_provider" TEXT NOT NULL,
+    "kms_key_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "retired_at" TIMESTAMP(3),
+    "destroyed_at" TIMESTAMP(3),
+
+    CONSTRAINT "tenant_data_keys_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "tenant_data_keys_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "key_rotation_jobs" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "target_version" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "progress" JSONB NOT NULL DEFAULT '{}',
+    "rows_scanned" INTEGER NOT NULL DEFAULT 0,
+    "rows_reencrypted" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "started_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "key_rotation_jobs_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "key_rotation_jobs_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "tenant_data_keys_organization_id_version_key" ON "tenant_data_keys"("organization_id", "version");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "key_rotation_jobs_status_idx" ON "key_rotation_jobs"("status");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "key_rotation_jobs_organization_id_created_at_idx" ON "key_rotation_jobs"("organization_id", "created_at");
@@ -0,0 +1,58 @@
+-- Per-organisation / per-workshop data retention (lib/compliance/retention-engine.ts).
+-- retention_policies override platform defaults per data type; legal holds
+-- exempt an organisation or workshop; retention_certificates record purges.
+
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN IF NOT EXISTS "legal_hold_at" TIMESTAMP(3);
+ALTER TABLE "organizations" ADD COLUMN IF NOT EXISTS "legal_hold_reason" TEXT;
+
+-- AlterTable
+ALTER TABLE "workshops" ADD COLUMN IF NOT EXISTS "legal_hold_at" TIMESTAMP(3);
+ALTER TABLE "workshops" ADD COLUMN IF NOT EXISTS "legal_hold_reason" TEXT;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "retention_policies" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "workshop_id" TEXT,
+    "data_type" TEXT NOT NULL,
+    "retention_days" INTEGER NOT NULL,
+    "action" TEXT NOT NULL DEFAULT 'delete',
+    "created_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "retention_policies_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "retention_policies_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "retention_policies_workshop_id_fkey" FOREIGN KEY ("workshop_id") REFERENCES "workshops"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "retention_certificates" (
+    "id" TEXT NOT NULL,
+    "run_id" TEXT NOT NULL,
+    "organization_id" TEXT,
+    "entries" JSONB NOT NULL,
+    "total_records" INTEGER NOT NULL,
+    "digest" TEXT NOT NULL,
+    "previous_digest" TEXT,
+    "issued_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "retention_certificates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "retention_policies_organization_id_workshop_id_data_type_key" ON "retention_policies"("organization_id", "workshop_id", "data_type");
+
+-- CreateIndex
+-- NULLs are distinct in the unique index above; this keeps one organisation-wide rule per data type
+CREATE UNIQUE INDEX IF NOT EXISTS "retention_policies_org_wide_data_type_key" ON "retention_policies"("organization_id", "data_type") WHERE "workshop_id" IS NULL;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "retention_policies_workshop_id_idx" ON "retention_policies"("workshop_id");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "retention_certificates_organization_id_issued_at_idx" ON "retention_certificates"("organization_id", "issued_at");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "retention_certificates_run_id_idx" ON "retention_certificates"("run_id");
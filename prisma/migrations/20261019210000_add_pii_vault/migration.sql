@@ -0,0 +1,26 @@
+-- PII detection and redaction (lib/pii). organizations.pii_config switches
+-- the scanner on per organisation; pii_vault_entries keeps the original
+-- values behind the typed placeholders for authorised facilitators.
+
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN IF NOT EXISTS "pii_config" JSONB;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "pii_vault_entries" (
+    "id" TEXT NOT NULL,
+    "workshop_id" TEXT NOT NULL,
+    "entity_type" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "detector" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pii_vault_entries_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "pii_vault_entries_workshop_id_fkey" FOREIGN KEY ("workshop_id") REFERENCES "workshops"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "pii_vault_entries_workshop_id_token_key" ON "pii_vault_entries"("workshop_id", "token");
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "pii_vault_entries_workshop_id_entity_type_value_key" ON "pii_vault_entries"("workshop_id", "entity_type", "value");
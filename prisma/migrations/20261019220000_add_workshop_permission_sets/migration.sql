@@ -0,0 +1,7 @@
+-- Per-workshop permission sets on shares.
+-- Existing shares default to the facilitator set: view, edit, facilitate and
+-- run analysis. It grants no commercial access, report approval or workshop
+-- management (shares, forks, deletion, PII vault).
+
+-- AlterTable
+ALTER TABLE "workshop_shares" ADD COLUMN IF NOT EXISTS "permission_sets" TEXT[] NOT NULL DEFAULT ARRAY['facilitator']::TEXT[];
@@ -0,0 +1,48 @@
+-- Per-organisation single sign-on (OIDC / SAML) and SCIM provisioning tokens,
+-- plus the identity-provider links on users and exec licences.
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "sso_subject" TEXT;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "scim_external_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "exec_licences" ADD COLUMN IF NOT EXISTS "scim_external_id" TEXT;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "sso_connections" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "protocol" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT false,
+    "settings" JSONB NOT NULL,
+    "email_domains" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "jit_provisioning" BOOLEAN NOT NULL DEFAULT true,
+    "default_role" TEXT DEFAULT 'TENANT_USER',
+    "role_mappings" JSONB NOT NULL DEFAULT '[]',
+    "enforce_sso" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sso_connections_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "sso_connections_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "scim_tokens" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "last_used_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "scim_tokens_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "scim_tokens_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "sso_connections_organization_id_key" ON "sso_connections"("organization_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "scim_tokens_token_hash_key" ON "scim_tokens"("token_hash");
+CREATE INDEX IF NOT EXISTS "scim_tokens_organization_id_idx" ON "scim_tokens"("organization_id");
+CREATE INDEX IF NOT EXISTS "users_organizationId_sso_subject_idx" ON "users"("organizationId", "sso_subject");
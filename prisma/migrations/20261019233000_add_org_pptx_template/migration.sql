@@ -0,0 +1,3 @@
+-- PowerPoint master template for the editable (native) deck export: theme
+-- colours, fonts and background image URLs read from an uploaded .pptx/.potx.
+ALTER TABLE "organizations" ADD COLUMN IF NOT EXISTS "pptx_template" JSONB;
@@ -0,0 +1,42 @@
+-- Breakout rooms for the live workshop (lib/live/breakout-rooms.ts).
+-- Each room runs its own capture stream, cognitive state and facilitation
+-- cycle; transcript chunks and data points record the room they came from.
+-- Live cognition rows gain a roomId ('' = the plenary session).
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "workshop_breakout_rooms" (
+    "id" TEXT NOT NULL,
+    "workshopId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workshop_breakout_rooms_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "workshop_breakout_rooms_workshopId_fkey" FOREIGN KEY ("workshopId") REFERENCES "workshops"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "workshop_breakout_rooms_workshopId_position_idx" ON "workshop_breakout_rooms"("workshopId", "position");
+
+-- AlterTable
+ALTER TABLE "transcript_chunks" ADD COLUMN IF NOT EXISTS "breakoutRoomId" TEXT;
+ALTER TABLE "data_points" ADD COLUMN IF NOT EXISTS "breakoutRoomId" TEXT;
+ALTER TABLE "live_cognition_states" ADD COLUMN IF NOT EXISTS "roomId" TEXT NOT NULL DEFAULT '';
+
+-- AddForeignKey
+ALTER TABLE "transcript_chunks" ADD CONSTRAINT "transcript_chunks_breakoutRoomId_fkey" FOREIGN KEY ("breakoutRoomId") REFERENCES "workshop_breakout_rooms"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "data_points" ADD CONSTRAINT "data_points_breakoutRoomId_fkey" FOREIGN KEY ("breakoutRoomId") REFERENCES "workshop_breakout_rooms"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "transcript_chunks_breakoutRoomId_idx" ON "transcript_chunks"("breakoutRoomId");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "data_points_breakoutRoomId_idx" ON "data_points"("breakoutRoomId");
+
+-- Live cognition rows are now unique per workshop, kind and room
+DROP INDEX IF EXISTS "live_cognition_states_workshopId_kind_key";
+CREATE UNIQUE INDEX IF NOT EXISTS "live_cognition_states_workshopId_kind_roomId_key" ON "live_cognition_states"("workshopId", "kind", "roomId");
@@ -0,0 +1,22 @@
+-- Retention runs (lib/compliance/retention-engine.ts). The retention cron
+-- advances one run a bounded batch of workshops per invocation instead of
+-- purging every tenant in a single request.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "retention_runs" (
+    "id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "cursor" TEXT,
+    "records_processed" INTEGER NOT NULL DEFAULT 0,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "retention_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "retention_runs_status_idx" ON "retention_runs"("status");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "retention_runs_started_at_idx" ON "retention_runs"("started_at");
@@ -0,0 +1,37 @@
+-- SSO email domains become verified claims (lib/auth/sso/domains.ts). Each
+-- domain can be claimed by one organisation (unique index) and only routes
+-- logins or allows JIT provisioning once its DNS TXT record is verified.
+-- Existing domains are carried over as unverified claims; where two
+-- organisations listed the same domain, the first claim wins.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "sso_domains" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "domain" TEXT NOT NULL,
+    "verification_token" TEXT NOT NULL,
+    "verified_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sso_domains_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "sso_domains_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "sso_domains_domain_key" ON "sso_domains"("domain");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "sso_domains_organization_id_idx" ON "sso_domains"("organization_id");
+
+-- Carry over existing domains as unverified claims
+INSERT INTO "sso_domains" ("id", "organization_id", "domain", "verification_token")
+SELECT md5(c."organization_id" || d.domain || clock_timestamp()::text),
+       c."organization_id",
+       lower(d.domain),
+       md5(random()::text || clock_timestamp()::text) || md5(random()::text || d.domain)
+FROM "sso_connections" c, unnest(c."email_domains") AS d(domain)
+ORDER BY c."created_at"
+ON CONFLICT ("domain") DO NOTHING;
+
+-- AlterTable
+ALTER TABLE "sso_connections" DROP COLUMN IF EXISTS "email_domains";
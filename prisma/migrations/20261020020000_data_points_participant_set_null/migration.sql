@@ -0,0 +1,10 @@
+-- Mapping a live speaker to a participant (lib/transcription/speaker-registry.ts)
+-- sets data_points."participantId". Deleting that participant must unlink
+-- the captured data points, not delete them. GDPR erasure still removes a
+-- participant's data points explicitly (app/api/gdpr/delete).
+
+-- DropForeignKey
+ALTER TABLE "data_points" DROP CONSTRAINT IF EXISTS "data_points_participantid_fkey";
+
+-- AddForeignKey
+ALTER TABLE "data_points" ADD CONSTRAINT "data_points_participantid_fkey" FOREIGN KEY ("participantId") REFERENCES "workshop_participants"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
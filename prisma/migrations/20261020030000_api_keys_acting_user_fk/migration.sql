@@ -0,0 +1,13 @@
+-- An API key acts as api_keys.acting_user_id (lib/public-api/keys.ts). Deleting
+-- that user deletes the keys that act as them, rather than leaving keys whose
+-- API-created workshops would fail the "createdById" foreign key.
+
+-- Keys whose acting user is already gone cannot be used
+DELETE FROM "api_keys" WHERE "acting_user_id" NOT IN (SELECT "id" FROM "users");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "api_keys_acting_user_id_idx" ON "api_keys"("acting_user_id");
+
+-- AddForeignKey
+ALTER TABLE "api_keys" DROP CONSTRAINT IF EXISTS "api_keys_acting_user_id_fkey";
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_acting_user_id_fkey" FOREIGN KEY ("acting_user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
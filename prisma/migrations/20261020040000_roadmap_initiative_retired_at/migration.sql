@@ -0,0 +1,6 @@
+-- Roadmap initiatives dropped from a re-synthesised roadmap are retired rather
+-- than deleted, so their tracking history survives; retired initiatives are
+-- left out of the executive portal and the overdue / blocked digests.
+
+-- AlterTable
+ALTER TABLE "roadmap_initiatives" ADD COLUMN IF NOT EXISTS "retiredAt" TIMESTAMP(3);
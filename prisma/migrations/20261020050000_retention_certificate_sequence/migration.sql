@@ -0,0 +1,24 @@
+-- Retention certificates are issued once per organisation when a run
+-- completes (lib/compliance/retention-engine.ts), from entries the run
+-- collects batch by batch, and chain on a per-organisation sequence rather
+-- than on issued_at, which every certificate of a run shares.
+
+-- AlterTable
+ALTER TABLE "retention_runs" ADD COLUMN IF NOT EXISTS "entries" JSONB NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "retention_certificates" ADD COLUMN IF NOT EXISTS "sequence" INTEGER;
+
+-- Number existing certificates in the order they were chained
+UPDATE "retention_certificates" AS c
+SET "sequence" = numbered.n
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "organization_id" ORDER BY "issued_at", "id") AS n
+  FROM "retention_certificates"
+) AS numbered
+WHERE c."id" = numbered."id" AND c."sequence" IS NULL;
+
+ALTER TABLE "retention_certificates" ALTER COLUMN "sequence" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "retention_certificates_organization_id_sequence_key" ON "retention_certificates"("organization_id", "sequence");
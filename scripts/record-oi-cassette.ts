@@ -0,0 +1,60 @@
+/**
+ * Record an Output Intelligence cassette for a workshop.
+ *
+ * Usage: npx tsx scripts/record-oi-cassette.ts <workshopId> [cassette-name]
+ *
+ * Aggregates the workshop's signals, runs the intelligence pipeline against
+ * the configured (real) LLM provider and writes every prompt/response pair —
+ * plus the signals themselves — to __tests__/fixtures/cassettes/<name>.json.
+ * __tests__/agentic/pipeline-replay.test.ts replays every cassette in that
+ * directory offline.
+ *
+ * Cassettes contain workshop content verbatim. Only commit cassettes recorded
+ * from demo or seeded workshops, never from client data.
+ */
+
+import path from 'path';
+import { prisma } from '@/lib/prisma';
+import { aggregateWorkshopSignals } from '@/lib/output-intelligence/signal-aggregator';
+import { runIntelligencePipeline } from '@/lib/output-intelligence/pipeline';
+import { recordLLMCassette, saveLLMCassette } from '@/lib/llm';
+
+async function main() {
+  const [workshopId, nameArg] = process.argv.slice(2);
+  if (!workshopId) {
+    console.error('Usage: npx tsx scripts/record-oi-cassette.ts <workshopId> [cassette-name]');
+    process.exit(1);
+  }
+  const name = nameArg || `oi-${workshopId}`;
+
+  console.log(`\n=== Recording Output Intelligence cassette "${name}" ===\n`);
+
+  console.log('Step 1: Aggregating workshop signals…');
+  const signals = await aggregateWorkshopSignals(workshopId);
+
+  console.log('Step 2: Running intelligence pipeline (LLM calls in progress)…');
+  const { result, cassette } = await recordLLMCassette(
+    name,
+    () =>
+      runIntelligencePipeline(signals, (engine, event, detail) => {
+        const icon = event === 'complete' ? '✓' : event === 'error' ? '✗' : '…';
+        console.log(`  [${icon}] ${engine}: ${event}${detail ? ' — ' + detail : ''}`);
+      }),
+    { input: signals },
+  );
+
+  if (Object.keys(result.errors).length > 0) {
+    console.warn('\nEngine errors (recorded as-is):', result.errors);
+  }
+
+  const outPath = path.join(process.cwd(), '__tests__/fixtures/cassettes', `${name}.json`);
+  saveLLMCassette(outPath, cassette);
+  console.log(`\n✓ ${cassette.entries.length} exchanges written to ${path.relative(process.cwd(), outPath)}`);
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());